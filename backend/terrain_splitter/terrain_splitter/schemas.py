@@ -5,7 +5,7 @@ from typing import Literal
 from pydantic import BaseModel, Field, model_validator
 
 PayloadKind = Literal["camera", "lidar"]
-AltitudeMode = Literal["legacy", "min-clearance"]
+AltitudeMode = Literal["legacy", "min-clearance", "terrain-following"]
 LidarReturnMode = Literal["single", "dual", "triple"]
 LidarComparisonMode = Literal["first-return", "all-returns"]
 
@@ -5,13 +5,25 @@
 
 import type { Map as MapboxMap } from 'mapbox-gl';
 import type {
-  FlightParams
+  AirspaceZone,
+  AltitudeMode,
+  CorridorSpec,
+  FlightParams,
+  WindVector
 } from '@/domain/types';
+import type { AirspaceViolation } from '@/planning/airspace';
+import type { PlannedFlight } from '@/planning/flights';
+import type { ProjectState } from '@/services/projectDocument';
+import type { MissionRoute } from '@/planning/route';
 import type { PolygonAnalysisResult } from './types';
+import type { HistoryState } from './utils/history';
+import type { FlightPass } from '@/planning/patterns';
+import type { GisArea, GisExportArea } from '@/interop/gis/types';
 
 export interface PolygonWithId {
   id?: string;
   ring: [number, number][];
+  holes?: [number, number][][]; // inner rings excluded from lines, masks and stats
 }
 
 export type BearingOverrideSource = 'wingtra' | 'user' | 'partition';
@@ -37,6 +49,7 @@ export interface TerrainPartitionSolutionPreview {
   tradeoff: number;
   regionCount: number;
   totalMissionTimeSec: number;
+  totalEnergyWh?: number;
   normalizedQualityCost: number;
   weightedMeanMismatchDeg: number;
   hierarchyLevel: number;
@@ -68,6 +81,15 @@ export interface MapFlightDirectionAPI {
   getTerrainPartitionSolutions(polygonId: string): Promise<TerrainPartitionSolutionPreview[]>;
   applyTerrainPartitionSolution(polygonId: string, signature: string): Promise<{ createdIds: string[]; replaced: boolean }>;
   startPolygonDrawing(): void;
+  /** Draw a polygon that is cut out of `polygonId` as a hole (exclusion zone). */
+  startHoleDrawing(polygonId: string): void;
+  clearPolygonHoles(polygonId: string): void;
+  /** Draw a corridor centerline; the area becomes the line buffered to `widthM` (default: last used width). */
+  startCorridorDrawing(widthM?: number): void;
+  /** Corridor spec of an area, or null for an ordinary polygon. */
+  getCorridor(polygonId: string): CorridorSpec | null;
+  /** Rebuild a corridor area around its centerline at a new width. */
+  setCorridorWidth(polygonId: string, widthM: number): void;
   getMap(): MapboxMap | undefined;
 
   // Polygon management
@@ -83,26 +105,46 @@ export interface MapFlightDirectionAPI {
   getFlightLines(): Map<string, {
     flightLines: number[][][];
     lineSpacing: number;
-    altitudeAGL: number
+    altitudeAGL: number;
+    passes: FlightPass[]; // line ranges of each grid (one unless crosshatch/oblique)
   }>;
   getPerPolygonParams(): Record<string, FlightParams>;
 
   // Altitude strategy and clearance controls
-  setAltitudeMode(mode: 'legacy' | 'min-clearance'): void;
-  getAltitudeMode(): 'legacy' | 'min-clearance';
+  setAltitudeMode(mode: AltitudeMode): void;
+  getAltitudeMode(): AltitudeMode;
   setMinClearance(meters: number): void;
   getMinClearance(): number;
+  /** Max climb/descent gradient (percent) used by the terrain-following altitude mode. */
+  setMaxTerrainGradient(percent: number): void;
+  getMaxTerrainGradient(): number;
   setTurnExtend(meters: number): void;
   getTurnExtend(): number;
 
+  // Aircraft performance and wind (mission time / energy estimates)
+  setAircraftKey(key: string): void;
+  getAircraftKey(): string;
+  setWind(wind: WindVector): void;
+  getWind(): WindVector;
+
   // 3D visualization
   addCameraPoints(polygonId: string, positions: [number, number, number][]): void;
   removeCameraPoints(polygonId: string): void;
+  /** Area's 3D flight path (sweeps and turn connectors) as drawn on the map; null without lines. */
+  getFlightPath3D(polygonId: string): [number, number, number][][] | null;
 
   // KML import
   openKmlFilePicker(): void;
   importKmlFromText(kml: string): Promise<{ added: number; total: number }>;
 
+  // GeoJSON / Shapefile areas (attributes such as alt_agl, front_ovl, side_ovl, bearing become params)
+  openGisFilePicker(): void;
+  importGeoJsonFromText(text: string): Promise<{ added: number; total: number }>;
+  /** Areas with params, flight lines and trigger points for GeoJSON / Shapefile export (stats not included). */
+  getGisExportAreas(): GisExportArea[];
+  /** Add supplementary areas, e.g. fill-ins over coverage gaps, without moving the map (one undo step). */
+  addFillInAreas(areas: GisArea[]): Promise<{ added: number; total: number }>;
+
   // Wingtra flightplan import
   openFlightplanFilePicker(): void;
   importWingtraFromText(json: string): Promise<{ added: number; total: number; areas: ImportedFlightplanArea[] }>;
@@ -117,4 +159,44 @@ export interface MapFlightDirectionAPI {
 
   // Export current (possibly optimized/edited) plan as Wingtra .flightplan JSON
   exportWingtraFlightPlan(): { json: string; blob: Blob };
+  // Export one Wingtra .flightplan per planned flight (requires a home point)
+  exportWingtraFlightPlansPerFlight(): Array<{ flightIndex: number; json: string; blob: Blob }>;
+
+  // Multi-flight split by endurance: takeoff/landing point and max flight time (minutes)
+  setHomePoint(point: [number, number] | null): void;
+  getHomePoint(): [number, number] | null;
+  setMaxFlightTime(minutes: number): void;
+  getMaxFlightTime(): number;
+  getPlannedFlights(): PlannedFlight[];
+  /** Terrain clearance (m) for transit legs between home and areas. */
+  setTransitClearance(meters: number): void;
+  getTransitClearance(): number;
+  /** Optimized home → areas → home route; null until a home point is set. */
+  getMissionRoute(): MissionRoute | null;
+
+  // Restricted airspace (no-fly zones)
+  openAirspaceFilePicker(): void;
+  /** Import zones from GeoJSON or KML text; floor/ceiling are meters AMSL. */
+  importAirspaceFromText(text: string): { added: number };
+  getAirspaceZones(): AirspaceZone[];
+  clearAirspaceZones(): void;
+  /** Cut flight lines around the imported zones (at any altitude). */
+  setAvoidAirspace(enabled: boolean): void;
+  getAvoidAirspace(): boolean;
+  /** Sweep lines, turns, transit legs and exported area outlines that enter a zone volume. */
+  getAirspaceViolations(): AirspaceViolation[];
+
+  // Projects
+  /** Planning state to persist: areas, per-area params, overrides, settings, no-fly zones. */
+  getProjectState(): ProjectState;
+  /** Replace the current plan with a saved one; resolves once all areas are analyzed. */
+  loadProjectState(state: ProjectState): Promise<void>;
+
+  // Undo / redo of area edits, parameter changes, direction overrides, splits and imports
+  getHistory(): HistoryState;
+  /** Both return false when there is nothing to undo/redo. */
+  undo(): boolean;
+  redo(): boolean;
+  /** Undo or redo until the given entry is the latest applied one (0 = before all entries). */
+  goToHistoryEntry(entryId: number): boolean;
 }
@@ -44,8 +44,9 @@ export function usePolygonAnalysis({
       abortControllersRef.current.set(polygonId, controller);
       const signal = controller.signal;
 
-      const ring = feature.geometry.coordinates[0];
+      const [ring, ...holes] = feature.geometry.coordinates;
       const polygon: AspectPolygon = { coordinates: ring as [number, number][] };
+      if (holes.length > 0) polygon.holes = holes as [number, number][][];
 
       try {
         onAnalysisStart?.(polygonId);
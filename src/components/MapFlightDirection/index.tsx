@@ -3,7 +3,7 @@
  * MapFlightDirection.tsx
  ***********************************************************************/
 import React, { useRef, useState, useCallback, useEffect } from 'react';
-import { Map as MapboxMap, LngLatLike } from 'mapbox-gl';
+import { Map as MapboxMap, LngLatLike, Marker } from 'mapbox-gl';
 import MapboxDraw from '@mapbox/mapbox-gl-draw';
 import { MapboxOverlay } from '@deck.gl/mapbox';
 
@@ -14,21 +14,51 @@ import { useMapInitialization } from './hooks/useMapInitialization';
 import { usePolygonAnalysis } from './hooks/usePolygonAnalysis';
 import {
   addFlightLinesForPolygon,
+  generateFlightLinesForPolygon,
   animateProcessingPerimeter,
   removeFlightLinesForPolygon,
   clearAllFlightLines,
   removeTriggerPointsForPolygon,
   clearAllTriggerPoints,
   setProcessingPerimeterPolygons,
+  setFlightSplitLayer,
+  clearFlightSplitLayer,
+  setMissionRouteLayer,
+  clearMissionRouteLayer,
+  setAirspaceLayer,
+  clearAirspaceLayer,
+  setAirspaceViolationLayer,
+  clearAirspaceViolationLayer,
 } from './utils/mapbox-layers';
 import { update3DPathLayer, remove3DPathLayer, update3DCameraPointsLayer, remove3DCameraPointsLayer, update3DTriggerPointsLayer, remove3DTriggerPointsLayer } from './utils/deckgl-layers';
-import { build3DFlightPath, calculateOptimalTerrainZoom, sampleCameraPositionsOnFlightPath } from './utils/geometry';
+import { build3DFlightPath, calculateOptimalTerrainZoom, sampleCameraPositionsOnFlightPath, sampleHeightsAboveGround, queryMinMaxElevationAlongPolylineWGS84, DEFAULT_MAX_TERRAIN_GRADIENT_PCT } from './utils/geometry';
 import { PolygonAnalysisResult, PolygonParams } from './types';
-import { parseKmlPolygons, calculateKmlBounds, extractKmlFromKmz } from '@/utils/kml';
-import { SONY_RX1R2, DJI_ZENMUSE_P1_24MM, ILX_LR1_INSPECT_85MM, MAP61_17MM, RGB61_24MM, forwardSpacingRotated, lineSpacingRotated } from '@/domain/camera';
-import { DEFAULT_LIDAR, DEFAULT_LIDAR_MAX_RANGE_M, LIDAR_REGISTRY, lidarLineSpacing } from '@/domain/lidar';
-import type { BearingOverride, MapFlightDirectionAPI, ImportedFlightplanArea, TerrainPartitionSolutionPreview } from './api';
+import { parseKmlPolygons, parseKmlLineStrings, calculateKmlBounds, extractKmlFromKmz } from '@/utils/kml';
+import { forwardSpacingRotated, lineSpacingRotated } from '@/domain/camera';
+import { DEFAULT_LIDAR, DEFAULT_LIDAR_MAX_RANGE_M, lidarLineSpacing } from '@/domain/lidar';
+import { DEFAULT_CAMERA_KEY, getCameraModel, getLidarModel } from '@/domain/payloads';
+import { CALM_WIND, DEFAULT_AIRCRAFT, estimateFlightPathPerformance, getAircraftModel, sanitizeWind } from '@/domain/aircraft';
+import type { BearingOverride, MapFlightDirectionAPI, ImportedFlightplanArea, PolygonWithId, TerrainPartitionSolutionPreview } from './api';
+import type { AirspaceZone, AltitudeMode, CorridorSpec, WindVector } from '@/domain/types';
+import { bearing } from '@/planning/lines';
+import { splitFlightsByEndurance, splitRingAroundHoles, type FlightSplitArea, type PlannedFlight } from '@/planning/flights';
+import { buildMissionRoute, orderAreasForRoute, orientAreaLines, type MissionRoute, type RouteAreaVisit } from '@/planning/route';
+import {
+  parseAirspaceText,
+  routeConnectorsAroundZones,
+  validateAreaItemsAgainstAirspace,
+  validatePlanAgainstAirspace,
+  type AirspaceAreaInput,
+  type AirspaceViolation,
+} from '@/planning/airspace';
+import { hasTarget, solveTargetParams } from '@/planning/targets';
+import { getCameraPitchDeg, getFlightPattern, getObliquePassCount, getPassBearings, type FlightPass } from '@/planning/patterns';
+import { DEFAULT_CORRIDOR_WIDTH_M, MIN_CORRIDOR_WIDTH_M, buildCorridorRing, normalizeCorridorSpec } from '@/planning/corridor';
+import { referencedCustomPayloads, type ProjectPolygon, type ProjectState } from '@/services/projectDocument';
+import { importCustomPayloads } from '@/services/payloadStore';
+import { EMPTY_HISTORY, recordHistory, redoHistory, undoHistory, type AreaSnapshot, type AreaSnapshots, type HistoryState } from './utils/history';
 import { fetchTilesForPolygon } from './utils/terrain';
+import { getTerrainSourceVersion, subscribeTerrainSource } from '@/terrain/sources';
 import { partitionPolygonByTerrainFaces } from '@/utils/terrainFacePartition';
 import { buildPartitionFrontier } from '@/utils/terrainPartitionGraph';
 import { isTerrainPartitionBackendEnabled, solveTerrainPartitionWithBackend } from '@/services/terrainPartitionBackend';
@@ -38,15 +68,12 @@ import * as turf from '@turf/turf';
 // NEW: Wingtra import helpers
 import { importWingtraFlightPlan } from '@/interop/wingtra/convert';
 import { exportToWingtraFlightPlan, areasFromState } from '@/interop/wingtra/convert';
+import type { ExportedArea } from '@/interop/wingtra/types';
+import { areasFromGeoJSON } from '@/interop/gis/geojson';
+import { KML_FLIGHT_PATH_KIND } from '@/interop/gis/kml';
+import { areasFromShapefileZip, parseShapefile } from '@/interop/gis/shapefile';
+import type { GisArea, GisExportArea } from '@/interop/gis/types';
 
-const CAMERA_REGISTRY: Record<string, any> = {
-  SONY_RX1R2,
-  DJI_ZENMUSE_P1_24MM,
-  ILX_LR1_INSPECT_85MM,
-  MAP61_17MM,
-  RGB61_24MM,
-};
-const DEFAULT_CAMERA = SONY_RX1R2;
 const DEFAULT_PAYLOAD_KIND = 'camera';
 const DEFAULT_ALTITUDE_AGL = 100;
 const DEFAULT_FRONT_OVERLAP = 70;
@@ -55,6 +82,8 @@ const DEFAULT_PARTITION_TRADEOFF_SAMPLES = [0.1, 0.25, 0.4, 0.55, 0.7, 0.85];
 const DEFAULT_PARTITION_TARGET_TRADEOFF = 0.7;
 const TERRAIN_SPLIT_DEBUG = true;
 const GEOMETRY_RING_EPSILON_DEG = 1e-7;
+const ROUTE_TERRAIN_MAX_ZOOM = 12;
+const ROUTE_TERRAIN_MAX_TILES = 16;
 
 function splitPerfNow() {
   return typeof performance !== 'undefined' ? performance.now() : Date.now();
@@ -94,6 +123,7 @@ function isLidarParams(params?: PolygonParams | null): boolean {
 function sanitizePolygonParams(params: PolygonParams): PolygonParams {
   const payloadKind = params.payloadKind ?? DEFAULT_PAYLOAD_KIND;
   const isLidar = payloadKind === 'lidar';
+  const pattern = getFlightPattern({ ...params, payloadKind });
   return {
     ...params,
     payloadKind,
@@ -106,6 +136,37 @@ function sanitizePolygonParams(params: PolygonParams): PolygonParams {
     lidarReturnMode: isLidar ? (params.lidarReturnMode ?? 'single') : undefined,
     useCustomBearing: !!params.useCustomBearing,
     customBearingDeg: params.useCustomBearing ? normalizeBearing(params.customBearingDeg) : undefined,
+    pattern,
+    obliquePassCount: pattern === 'oblique' ? getObliquePassCount(params) : undefined,
+    cameraPitchDeg: pattern === 'oblique' ? getCameraPitchDeg({ ...params, pattern }) : undefined,
+  };
+}
+
+function corridorFromFeature(feature: any): CorridorSpec | null {
+  return feature?.properties?.corridor ? normalizeCorridorSpec(feature.properties.corridor) : null;
+}
+
+function projectPolygonFromFeature(feature: any): ProjectPolygon {
+  const [ring, ...holes] = feature.geometry.coordinates as [number, number][][];
+  const name = typeof feature.properties?.name === 'string' && feature.properties.name ? feature.properties.name : undefined;
+  const source = typeof feature.properties?.source === 'string' ? feature.properties.source : undefined;
+  const corridor = corridorFromFeature(feature);
+  return {
+    id: String(feature.id),
+    ...(name ? { name } : {}),
+    ...(source ? { source } : {}),
+    ...(corridor ? { corridor } : {}),
+    ring,
+    ...(holes.length > 0 ? { holes } : {}),
+  };
+}
+
+/** Draw feature properties that a saved polygon carries besides its name. */
+function featurePropsFromProjectPolygon(polygon: ProjectPolygon): Record<string, unknown> | undefined {
+  if (!polygon.source && !polygon.corridor) return undefined;
+  return {
+    ...(polygon.source ? { source: polygon.source } : {}),
+    ...(polygon.corridor ? { corridor: polygon.corridor } : {}),
   };
 }
 
@@ -241,13 +302,12 @@ function computePartitionCoverageMetrics(
 
 function getLineSpacingForParams(params: PolygonParams): number {
   if (isLidarParams(params)) {
-    const lidar = params.lidarKey ? LIDAR_REGISTRY[params.lidarKey] || DEFAULT_LIDAR : DEFAULT_LIDAR;
+    const lidar = getLidarModel(params.lidarKey);
     const mappingFovDeg = params.mappingFovDeg ?? lidar.effectiveHorizontalFovDeg;
     return lidarLineSpacing(params.altitudeAGL, params.sideOverlap, mappingFovDeg);
   }
 
-  const cameraKey = params.cameraKey;
-  const camera = cameraKey ? CAMERA_REGISTRY[cameraKey] || DEFAULT_CAMERA : DEFAULT_CAMERA;
+  const camera = getCameraModel(params.cameraKey);
   const yawOffset = params.cameraYawOffsetDeg ?? 0;
   const rotate90 = Math.round((((yawOffset % 180) + 180) % 180)) === 90;
   return lineSpacingRotated(camera, params.altitudeAGL, params.sideOverlap, rotate90);
@@ -255,8 +315,7 @@ function getLineSpacingForParams(params: PolygonParams): number {
 
 function getForwardSpacingForParams(params: PolygonParams): number | null {
   if (isLidarParams(params)) return null;
-  const cameraKey = params.cameraKey;
-  const camera = cameraKey ? CAMERA_REGISTRY[cameraKey] || DEFAULT_CAMERA : DEFAULT_CAMERA;
+  const camera = getCameraModel(params.cameraKey);
   const yawOffset = params.cameraYawOffsetDeg ?? 0;
   const rotate90 = Math.round((((yawOffset % 180) + 180) % 180)) === 90;
   return forwardSpacingRotated(camera, params.altitudeAGL, params.frontOverlap, rotate90);
@@ -275,6 +334,9 @@ interface Props {
   onFlightLinesUpdated?: (changed: string | '__all__') => void;
   onClearGSD?: () => void;
   onPolygonSelected?: (polygonId: string | null) => void;
+  onMissionRouteChanged?: () => void;
+  onAirspaceChanged?: () => void;
+  onHistoryChanged?: () => void;
 }
 
 export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>(
@@ -291,6 +353,9 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       onFlightLinesUpdated,
       onClearGSD,
       onPolygonSelected,
+      onMissionRouteChanged,
+      onAirspaceChanged,
+      onHistoryChanged,
     },
     ref
   ) => {
@@ -302,6 +367,8 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
     // File inputs
     const kmlInputRef = useRef<HTMLInputElement>(null);
     const flightplanInputRef = useRef<HTMLInputElement>(null);
+    const airspaceInputRef = useRef<HTMLInputElement>(null);
+    const gisInputRef = useRef<HTMLInputElement>(null);
     const [isDraggingKml, setIsDraggingKml] = useState(false);
 
     // Suspend auto-analysis during programmatic imports
@@ -313,7 +380,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
 
     // Flight lines + spacing + altitude actually used to build 3D path.
     const [polygonFlightLines, setPolygonFlightLines] = useState<
-      Map<string, { flightLines: number[][][]; lineSpacing: number; altitudeAGL: number }>
+      Map<string, { flightLines: number[][][]; lineSpacing: number; altitudeAGL: number; passes: FlightPass[] }>
     >(new Map());
 
     // Per‑polygon parameters provided by user (or by importer).
@@ -354,10 +421,31 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
     const pendingOptimizeRef = React.useRef<Set<string>>(new Set());
     const pendingProgrammaticDeletesRef = React.useRef<Set<string>>(new Set());
     const suppressSelectionDialogUntilRef = React.useRef(0);
+    // Polygon that the next drawn shape is cut out of as a hole (exclusion zone)
+    const holeTargetRef = React.useRef<string | null>(null);
+    // Width of the corridor whose centerline is being drawn; null when not drawing one.
+    // New corridors default to the width last chosen.
+    const corridorDrawWidthRef = React.useRef<number | null>(null);
+    const lastCorridorWidthRef = React.useRef(DEFAULT_CORRIDOR_WIDTH_M);
     // NEW: Altitude mode + minimum clearance configuration (global)
-    const [altitudeMode, setAltitudeMode] = useState<'legacy' | 'min-clearance'>('legacy');
+    const [altitudeMode, setAltitudeMode] = useState<AltitudeMode>('legacy');
     const [minClearanceM, setMinClearanceM] = useState<number>(60);
     const [turnExtendM, setTurnExtendM] = useState<number>(96);
+    const [maxTerrainGradientPct, setMaxTerrainGradientPct] = useState<number>(DEFAULT_MAX_TERRAIN_GRADIENT_PCT);
+    // Aircraft performance model + wind used for mission time/energy in the partition objective
+    const [aircraftKey, setAircraftKey] = useState<string>(DEFAULT_AIRCRAFT.key);
+    const [wind, setWind] = useState<WindVector>(CALM_WIND);
+    // Multi-flight split: takeoff/landing point and per-flight time limit (minutes)
+    const [homePoint, setHomePoint] = useState<[number, number] | null>(null);
+    const [maxFlightMinutes, setMaxFlightMinutes] = useState<number>(40);
+    // Mission route: terrain clearance for transit legs between home and areas
+    const [transitClearanceM, setTransitClearanceM] = useState<number>(80);
+    const [routeTiles, setRouteTiles] = useState<any[]>([]);
+    const homeMarkerRef = useRef<Marker | null>(null);
+    // Restricted airspace: imported zones, and whether flight lines are cut around them
+    const [airspaceZones, setAirspaceZones] = useState<AirspaceZone[]>([]);
+    const [avoidAirspace, setAvoidAirspace] = useState(false);
+    const avoidZonesRef = useRef<AirspaceZone[]>([]);
 
     React.useEffect(() => { polygonParamsRef.current = polygonParams; }, [polygonParams]);
     React.useEffect(() => { bearingOverridesRef.current = bearingOverrides; }, [bearingOverrides]);
@@ -366,6 +454,52 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
     React.useEffect(() => { polygonResultsRef.current = polygonResults; }, [polygonResults]);
     React.useEffect(() => { importedOriginalsRef.current = importedOriginals; }, [importedOriginals]);
 
+    // Undo/redo: areas as of the last recorded action; each checkpoint records the difference
+    const historyRef = useRef<HistoryState>(EMPTY_HISTORY);
+    const committedAreasRef = useRef<AreaSnapshots>({});
+    // > 0 while a multi-step action (import, split) runs; it records one entry when done
+    const historyBatchDepthRef = useRef(0);
+    const restoringHistoryRef = useRef(false);
+
+    const takeAreaSnapshots = useCallback((): AreaSnapshots => {
+      const features = ((drawRef.current as any)?.getAll?.()?.features ?? []) as any[];
+      const areas: AreaSnapshots = {};
+      for (const feature of features) {
+        if (feature?.geometry?.type !== 'Polygon') continue;
+        const polygon = projectPolygonFromFeature(feature);
+        const params = polygonParamsRef.current.get(polygon.id);
+        const override = bearingOverridesRef.current.get(polygon.id);
+        const original = importedOriginalsRef.current.get(polygon.id);
+        areas[polygon.id] = {
+          polygon,
+          ...(params ? { params } : {}),
+          ...(override ? { override } : {}),
+          ...(original ? { original } : {}),
+        };
+      }
+      return areas;
+    }, []);
+
+    const recordHistoryCheckpoint = useCallback((label: string) => {
+      if (historyBatchDepthRef.current > 0 || restoringHistoryRef.current) return;
+      const areas = takeAreaSnapshots();
+      const next = recordHistory(historyRef.current, label, committedAreasRef.current, areas);
+      committedAreasRef.current = areas;
+      if (next === historyRef.current) return;
+      historyRef.current = next;
+      onHistoryChanged?.();
+    }, [onHistoryChanged, takeAreaSnapshots]);
+
+    const withHistory = useCallback(async <T,>(label: string, action: () => Promise<T>): Promise<T> => {
+      historyBatchDepthRef.current += 1;
+      try {
+        return await action();
+      } finally {
+        historyBatchDepthRef.current -= 1;
+        recordHistoryCheckpoint(label);
+      }
+    }, [recordHistoryCheckpoint]);
+
     const syncProcessingPerimeterOverlay = useCallback(() => {
       const map = mapRef.current;
       const draw = drawRef.current as any;
@@ -422,8 +556,97 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       return timeoutId;
     }, [onAnalysisComplete]);
 
+    // 3D paths by area, rebuilt only when the lines, terrain or altitude settings change. The deck
+    // layers, GIS export, airspace checks and the panel's time estimates all read them from here.
+    const flightPath3DCacheRef = useRef(new Map<string, { inputs: unknown[]; path: [number, number, number][][] }>());
+    // How the mission route flies each area (sweep order and first direction), set once the route is known
+    const routeVisitsRef = useRef(new Map<string, RouteAreaVisit>());
+    const flightPath3DFor = useCallback((
+      polygonId: string,
+      flightLines: number[][][],
+      lineSpacing: number,
+      altitudeAGL: number,
+      tiles: any[],
+    ): [number, number, number][][] => {
+      const visit = routeVisitsRef.current.get(polygonId);
+      const orientation = visit ? `${visit.reverseLineOrder}/${visit.reverseFirstLine}` : '';
+      const avoidZones = avoidZonesRef.current;
+      const inputs = [flightLines, lineSpacing, altitudeAGL, tiles, altitudeMode, minClearanceM, turnExtendM, maxTerrainGradientPct, orientation, avoidZones];
+      const cached = flightPath3DCacheRef.current.get(polygonId);
+      if (cached && cached.inputs.every((value, i) => value === inputs[i])) return cached.path;
+      const built = build3DFlightPath(flightLines, tiles, lineSpacing, { altitudeAGL, mode: altitudeMode, minClearance: minClearanceM, turnExtendM, maxGradientPct: maxTerrainGradientPct, visit });
+      // Lines are already cut around avoided zones; turns between the pieces go round them too
+      const path = avoidZones.length > 0 ? routeConnectorsAroundZones(built, avoidZones) : built;
+      flightPath3DCacheRef.current.set(polygonId, { inputs, path });
+      return path;
+    }, [altitudeMode, minClearanceM, turnExtendM, maxTerrainGradientPct]);
+
+    const getFlightPath3D = useCallback((polygonId: string): [number, number, number][][] | null => {
+      const fl = polygonFlightLinesRef.current.get(polygonId);
+      if (!fl || fl.flightLines.length === 0) return null;
+      return flightPath3DFor(polygonId, fl.flightLines, fl.lineSpacing, fl.altitudeAGL, polygonTilesRef.current.get(polygonId) || []);
+    }, [flightPath3DFor]);
+
+    // Show an area's 3D path and the trigger points sampled along it inside the area
+    const show3DPathWithTriggers = useCallback((
+      polygonId: string,
+      path3d: [number, number, number][][],
+      params: PolygonParams,
+      ring: [number, number][],
+      holes: [number, number][][],
+    ) => {
+      const overlay = deckOverlayRef.current;
+      if (!overlay) return;
+      update3DPathLayer(overlay, polygonId, path3d, setDeckLayers);
+      const spacingForward = getForwardSpacingForParams(params);
+      if (spacingForward && spacingForward > 0) {
+        const samples = sampleCameraPositionsOnFlightPath(path3d, spacingForward, { includeTurns: false });
+        const zOffset = 1; // lift triggers slightly above the path for visibility
+        const inside = (lng:number,lat:number,ring:[number,number][]) => {
+          let ins=false; for(let i=0,j=ring.length-1;i<ring.length;j=i++){
+            const xi=ring[i][0], yi=ring[i][1], xj=ring[j][0], yj=ring[j][1];
+            const intersect=((yi>lat)!==(yj>lat)) && (lng < (xj-xi)*(lat-yi)/(yj-yi)+xi); if(intersect) ins=!ins;
+          } return ins;
+        };
+        const positions: [number, number, number][] = samples
+          .filter(([lng,lat]) => inside(lng,lat,ring) && !holes.some((hole) => inside(lng,lat,hole)))
+          .map(([lng,lat,alt]) => [lng,lat,alt + zOffset]);
+        update3DTriggerPointsLayer(overlay, polygonId, positions, setDeckLayers);
+      } else {
+        remove3DTriggerPointsLayer(overlay, polygonId, setDeckLayers);
+      }
+    }, []);
+
+    // Deliverable targets (GSD / lidar density): solve altitude, and for lidar speed/overlap,
+    // against this area's terrain and the current altitude mode. Other params pass through.
+    const solveParamsForTarget = useCallback((polygonId: string, params: PolygonParams): PolygonParams => {
+      if (!hasTarget(params)) return params;
+      const res = polygonResultsRef.current.get(polygonId);
+      const tiles = polygonTilesRef.current.get(polygonId) || [];
+      if (!res || tiles.length === 0) return params;
+      const override = bearingOverridesRef.current.get(polygonId);
+      const bearingDeg = params.useCustomBearing && Number.isFinite(params.customBearingDeg)
+        ? params.customBearingDeg!
+        : (override?.bearingDeg ?? res.result.contourDirDeg);
+      const ring = res.polygon.coordinates as [number, number][];
+      const corridor = corridorFromFeature((drawRef.current as any)?.get?.(polygonId));
+      const heightsAt = (altitudeAGL: number) => {
+        const spacing = getLineSpacingForParams({ ...params, altitudeAGL });
+        const { flightLines, lineSpacing } = generateFlightLinesForPolygon(ring, getPassBearings(bearingDeg, params), spacing, res.polygon.holes, [], corridor);
+        const path3d = build3DFlightPath(flightLines, tiles, lineSpacing, { altitudeAGL, mode: altitudeMode, minClearance: minClearanceM, turnExtendM, maxGradientPct: maxTerrainGradientPct });
+        return sampleHeightsAboveGround(path3d, tiles, Math.max(10, lineSpacing), ring);
+      };
+      const sensor = isLidarParams(params) ? { lidar: getLidarModel(params.lidarKey) } : { camera: getCameraModel(params.cameraKey) };
+      const solution = solveTargetParams(params, sensor, heightsAt);
+      if (!solution.feasible) {
+        const target = isLidarParams(params) ? `${params.targetDensityPtsM2} pts/m²` : `${((params.targetGsdM ?? 0) * 100).toFixed(1)} cm GSD`;
+        onError?.(`Target ${target} cannot be met over this area's terrain within the altitude, speed and overlap limits`, polygonId);
+      }
+      return sanitizePolygonParams(solution.params);
+    }, [altitudeMode, minClearanceM, turnExtendM, maxTerrainGradientPct, onError]);
+
     const applyPolygonParams = useCallback((polygonId: string, params: PolygonParams, opts?: { skipEvent?: boolean; skipQueue?: boolean }) => {
-      const safeParams = sanitizePolygonParams(params);
+      const safeParams = solveParamsForTarget(polygonId, sanitizePolygonParams(params));
       const nextParams = new Map(polygonParamsRef.current);
       nextParams.set(polygonId, safeParams);
       polygonParamsRef.current = nextParams;
@@ -485,9 +708,12 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         mapRef.current,
         polygonId,
         res.polygon.coordinates,
-        bearingDeg,
+        getPassBearings(bearingDeg, safeParams),
         spacing,
-        res.result.fitQuality
+        res.result.fitQuality,
+        res.polygon.holes,
+        avoidZonesRef.current,
+        corridorFromFeature((drawRef.current as any)?.get?.(polygonId))
       );
 
       const nextFlightLines = new Map(polygonFlightLinesRef.current);
@@ -500,26 +726,8 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       }
 
       if (deckOverlayRef.current && fl.flightLines.length > 0) {
-        const path3d = build3DFlightPath(fl.flightLines, tiles, fl.lineSpacing, { altitudeAGL: safeParams.altitudeAGL, mode: altitudeMode, minClearance: minClearanceM, turnExtendM });
-        update3DPathLayer(deckOverlayRef.current, polygonId, path3d, setDeckLayers);
-        const spacingForward = getForwardSpacingForParams(safeParams);
-        if (spacingForward && spacingForward > 0) {
-          const samples = sampleCameraPositionsOnFlightPath(path3d, spacingForward, { includeTurns: false });
-          const zOffset = 1;
-          const ring = res.polygon.coordinates as [number,number][];
-          const inside = (lng:number,lat:number,ring:[number,number][]) => {
-            let ins=false; for(let i=0,j=ring.length-1;i<ring.length;j=i++){
-              const xi=ring[i][0], yi=ring[i][1], xj=ring[j][0], yj=ring[j][1];
-              const intersect=((yi>lat)!==(yj>lat)) && (lng < (xj-xi)*(lat-yi)/(yj-yi)+xi); if(intersect) ins=!ins;
-            } return ins;
-          };
-          const positions: [number, number, number][] = samples
-            .filter(([lng,lat]) => inside(lng,lat,ring))
-            .map(([lng,lat,alt]) => [lng,lat,alt + zOffset]);
-          update3DTriggerPointsLayer(deckOverlayRef.current, polygonId, positions, setDeckLayers);
-        } else {
-          remove3DTriggerPointsLayer(deckOverlayRef.current, polygonId, setDeckLayers);
-        }
+        const path3d = flightPath3DFor(polygonId, fl.flightLines, fl.lineSpacing, safeParams.altitudeAGL, tiles);
+        show3DPathWithTriggers(polygonId, path3d, safeParams, res.polygon.coordinates as [number, number][], res.polygon.holes ?? []);
       }
 
       if (opts?.skipQueue) return;
@@ -541,7 +749,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         }
         return rest;
       });
-    }, [polygonResults, polygonTiles, onFlightLinesUpdated, altitudeMode, minClearanceM, turnExtendM]);
+    }, [polygonResults, polygonTiles, onFlightLinesUpdated, altitudeMode, minClearanceM, turnExtendM, maxTerrainGradientPct, solveParamsForTarget, flightPath3DFor, show3DPathWithTriggers]);
 
     const applyPolygonParamsBatch = useCallback((updates: Array<{ polygonId: string; params: PolygonParams }>) => {
       const latestByPolygon = new Map<string, PolygonParams>();
@@ -563,18 +771,24 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       }
     }, [applyPolygonParams, onFlightLinesUpdated]);
 
-    // Rebuild 3D paths when altitude mode, minimum clearance, or turn extension changes
+    // Rebuild 3D paths when altitude mode, minimum clearance, turn extension, or terrain gradient changes
     useEffect(() => {
       if (!deckOverlayRef.current) return;
       const overlay = deckOverlayRef.current;
       // For each polygon with flight lines and tiles, rebuild path3D and update layer
       polygonFlightLines.forEach((fl, pid) => {
+        // Areas planned to a GSD/density target are re-solved, since their altitude depends on the mode
+        const params = polygonParamsRef.current.get(pid);
+        if (params && hasTarget(params)) {
+          applyPolygonParams(pid, params, { skipQueue: true });
+          return;
+        }
         const tiles = polygonTiles.get(pid) || [];
         if (!tiles || fl.flightLines.length === 0) return;
-        const path3d = build3DFlightPath(fl.flightLines, tiles, fl.lineSpacing, { altitudeAGL: fl.altitudeAGL, mode: altitudeMode, minClearance: minClearanceM, turnExtendM });
+        const path3d = flightPath3DFor(pid, fl.flightLines, fl.lineSpacing, fl.altitudeAGL, tiles);
         update3DPathLayer(overlay, pid, path3d, setDeckLayers);
       });
-    }, [altitudeMode, minClearanceM, turnExtendM]);
+    }, [altitudeMode, minClearanceM, turnExtendM, maxTerrainGradientPct]);
 
     // ---------- helpers ----------
     const fitMapToRings = useCallback((rings: [number, number][][]) => {
@@ -667,7 +881,13 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         if (!mapRef.current) return;
 
         // Use override if present (e.g., file direction), otherwise terrain-optimal
-        const safeParams = sanitizePolygonParams(params);
+        const safeParams = solveParamsForTarget(result.polygonId, sanitizePolygonParams(params));
+        if (hasTarget(safeParams)) {
+          const nextParams = new Map(polygonParamsRef.current);
+          nextParams.set(result.polygonId, safeParams);
+          polygonParamsRef.current = nextParams;
+          setPolygonParams(nextParams);
+        }
         const bearingDeg = override ? override.bearingDeg : result.result.contourDirDeg;
 
         // Spacing: keep override spacing if present, otherwise recompute from params
@@ -682,9 +902,12 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
           mapRef.current,
           result.polygonId,
           result.polygon.coordinates,
-          bearingDeg,
+          getPassBearings(bearingDeg, safeParams),
           spacing,
-          result.result.fitQuality
+          result.result.fitQuality,
+          result.polygon.holes,
+          avoidZonesRef.current,
+          corridorFromFeature((drawRef.current as any)?.get?.(result.polygonId))
         );
 
         const nextFlightLines = new Map(polygonFlightLinesRef.current);
@@ -701,27 +924,8 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         }
 
         if (deckOverlayRef.current && lines.flightLines.length > 0) {
-          const path3d = build3DFlightPath(lines.flightLines, tiles, lines.lineSpacing, { altitudeAGL: safeParams.altitudeAGL, mode: altitudeMode, minClearance: minClearanceM, turnExtendM });
-          update3DPathLayer(deckOverlayRef.current, result.polygonId, path3d, setDeckLayers);
-          const spacingForward = getForwardSpacingForParams(safeParams);
-          if (spacingForward && spacingForward > 0) {
-            // 3D trigger points sampled along the 3D path
-            const samples = sampleCameraPositionsOnFlightPath(path3d, spacingForward, { includeTurns: false });
-            const zOffset = 1; // lift triggers slightly above the path for visibility
-            const ring = result.polygon.coordinates as [number,number][];
-            const inside = (lng:number,lat:number,ring:[number,number][]) => {
-              let ins=false; for(let i=0,j=ring.length-1;i<ring.length;j=i++){
-                const xi=ring[i][0], yi=ring[i][1], xj=ring[j][0], yj=ring[j][1];
-                const intersect=((yi>lat)!==(yj>lat)) && (lng < (xj-xi)*(lat-yi)/(yj-yi)+xi); if(intersect) ins=!ins;
-              } return ins;
-            };
-            const positions: [number, number, number][] = samples
-              .filter(([lng,lat]) => inside(lng,lat,ring))
-              .map(([lng,lat,alt]) => [lng,lat,alt + zOffset]);
-            update3DTriggerPointsLayer(deckOverlayRef.current, result.polygonId, positions, setDeckLayers);
-          } else {
-            remove3DTriggerPointsLayer(deckOverlayRef.current, result.polygonId, setDeckLayers);
-          }
+          const path3d = flightPath3DFor(result.polygonId, lines.flightLines, lines.lineSpacing, safeParams.altitudeAGL, tiles);
+          show3DPathWithTriggers(result.polygonId, path3d, safeParams, result.polygon.coordinates as [number, number][], result.polygon.holes ?? []);
         }
 
         if (pendingOptimizeRef.current.has(result.polygonId)) {
@@ -732,7 +936,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
           applyPolygonParams(result.polygonId, paramsToApply, { skipQueue: true });
         }
       },
-      [debouncedAnalysisComplete, onFlightLinesUpdated, onRequestParams, altitudeMode, minClearanceM, applyPolygonParams]
+      [debouncedAnalysisComplete, onFlightLinesUpdated, onRequestParams, altitudeMode, minClearanceM, maxTerrainGradientPct, applyPolygonParams, solveParamsForTarget, flightPath3DFor, show3DPathWithTriggers]
     );
 
     const memoizedOnAnalysisStart = useCallback((polygonId: string) => {
@@ -929,6 +1133,8 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       const draw = drawRef.current as any;
       const feature = draw?.get?.(polygonId);
       if (!draw || feature?.geometry?.type !== 'Polygon') return;
+      // Corridor outlines are rebuilt from their centerline, not edited vertex by vertex
+      if (corridorFromFeature(feature)) return;
 
       suppressSelectionDialogUntilRef.current = Date.now() + 1000;
       setTimeout(() => onPolygonSelected?.(polygonId), 0);
@@ -948,25 +1154,173 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       }, 0);
     }, [onPolygonSelected]);
 
+    // ---------- Holes (exclusion zones) ----------
+    const setPolygonHoles = useCallback((polygonId: string, holes: [number, number][][]) => {
+      const draw = drawRef.current as any;
+      const feature = draw?.get?.(polygonId);
+      if (!draw || feature?.geometry?.type !== 'Polygon') return;
+      const outer = feature.geometry.coordinates[0];
+      draw.add({ ...feature, geometry: { type: 'Polygon', coordinates: [outer, ...holes] } });
+      syncProcessingPerimeterOverlay();
+      const updated = draw.get(polygonId);
+      if (updated) {
+        pendingGeometryRefreshRef.current.add(polygonId);
+        analyzePolygon(polygonId, updated);
+      }
+      recordHistoryCheckpoint(holes.length > 0 ? 'Edit holes' : 'Clear holes');
+    }, [analyzePolygon, recordHistoryCheckpoint, syncProcessingPerimeterOverlay]);
+
+    const startHoleDrawing = useCallback((polygonId: string) => {
+      const draw = drawRef.current as any;
+      if (!draw?.get?.(polygonId)) return;
+      holeTargetRef.current = polygonId;
+      draw.changeMode('draw_polygon');
+    }, []);
+
+    const clearPolygonHoles = useCallback((polygonId: string) => {
+      setPolygonHoles(polygonId, []);
+    }, [setPolygonHoles]);
+
+    // Corridors: the draw feature is the buffered centerline, with the spec in its properties
+    const getCorridor = useCallback((polygonId: string): CorridorSpec | null => {
+      return corridorFromFeature((drawRef.current as any)?.get?.(polygonId));
+    }, []);
+
+    const startCorridorDrawing = useCallback((widthM?: number) => {
+      const draw = drawRef.current as any;
+      if (!draw) return;
+      if (Number.isFinite(widthM) && widthM! >= MIN_CORRIDOR_WIDTH_M) lastCorridorWidthRef.current = widthM!;
+      holeTargetRef.current = null;
+      corridorDrawWidthRef.current = lastCorridorWidthRef.current;
+      draw.changeMode('draw_line_string');
+    }, []);
+
+    const setCorridorWidth = useCallback((polygonId: string, widthM: number) => {
+      const draw = drawRef.current as any;
+      const feature = draw?.get?.(polygonId);
+      const corridor = normalizeCorridorSpec({ ...corridorFromFeature(feature), widthM });
+      if (!draw || !corridor) return;
+      lastCorridorWidthRef.current = corridor.widthM;
+      draw.add({
+        ...feature,
+        properties: { ...feature.properties, corridor },
+        geometry: { type: 'Polygon', coordinates: [buildCorridorRing(corridor)] },
+      });
+      syncProcessingPerimeterOverlay();
+      const updated = draw.get(polygonId);
+      if (updated) {
+        pendingGeometryRefreshRef.current.add(polygonId);
+        analyzePolygon(polygonId, updated);
+      }
+      recordHistoryCheckpoint('Change corridor width');
+    }, [analyzePolygon, recordHistoryCheckpoint, syncProcessingPerimeterOverlay]);
+
+    // A line drawn in corridor mode is replaced by the corridor polygon around it
+    const addDrawnCorridor = useCallback((drawn: any, widthM: number) => {
+      const draw = drawRef.current as any;
+      suppressSelectionDialogUntilRef.current = Date.now() + 500;
+      try { draw?.delete?.(drawn.id); } catch {}
+      const corridor = normalizeCorridorSpec({ centerline: drawn.geometry?.coordinates ?? [], widthM });
+      if (!draw || !corridor) {
+        onError?.('A corridor centerline needs at least two distinct points');
+        return;
+      }
+      const added = draw.add({
+        type: 'Feature',
+        properties: { name: '', corridor },
+        geometry: { type: 'Polygon', coordinates: [buildCorridorRing(corridor)] },
+      });
+      const id = String(Array.isArray(added) ? added[0] : added);
+      const feature = draw.get(id);
+      if (feature && !suspendAutoAnalysisRef.current) analyzePolygon(id, feature);
+      syncProcessingPerimeterOverlay();
+    }, [analyzePolygon, onError, syncProcessingPerimeterOverlay]);
+
+    // A shape drawn in hole mode never becomes an area of its own
+    const addDrawnHole = useCallback((polygonId: string, drawn: any) => {
+      const draw = drawRef.current as any;
+      suppressSelectionDialogUntilRef.current = Date.now() + 500;
+      try { draw?.delete?.(drawn.id); } catch {}
+      const target = draw?.get?.(polygonId);
+      const hole = normalizeRingForGeometryOps(drawn.geometry?.coordinates?.[0] ?? []);
+      if (target?.geometry?.type !== 'Polygon' || !hole) return;
+      const [outer, ...holes] = target.geometry.coordinates as [number, number][][];
+      const holeFeature = turf.polygon([hole]);
+      if (!turf.booleanWithin(holeFeature, turf.polygon([outer]))) {
+        onError?.('A hole must lie entirely inside its area', polygonId);
+        return;
+      }
+      if (holes.some((existing) => !turf.booleanDisjoint(holeFeature, turf.polygon([existing])))) {
+        onError?.('Holes must not overlap each other', polygonId);
+        return;
+      }
+      setPolygonHoles(polygonId, [...holes, hole]);
+    }, [onError, setPolygonHoles]);
+
     // ---------- Mapbox Draw handlers ----------
     const handleDrawCreate = useCallback((e: any) => {
+      const holeTargetId = holeTargetRef.current;
+      if (holeTargetId) {
+        holeTargetRef.current = null;
+        const drawn = e.features.find((feature: any) => feature.geometry?.type === 'Polygon');
+        if (drawn) {
+          addDrawnHole(holeTargetId, drawn);
+          return;
+        }
+      }
+      const corridorWidth = corridorDrawWidthRef.current;
+      if (corridorWidth !== null) {
+        corridorDrawWidthRef.current = null;
+        const drawn = e.features.find((feature: any) => feature.geometry?.type === 'LineString');
+        if (drawn) {
+          addDrawnCorridor(drawn, corridorWidth);
+          recordHistoryCheckpoint('Draw corridor');
+          return;
+        }
+      }
       if (suspendAutoAnalysisRef.current) return;
       e.features.forEach((feature: any) => {
         if (feature.geometry.type === 'Polygon') {
           analyzePolygon(feature.id, feature);
         }
       });
-    }, [analyzePolygon]);
+      recordHistoryCheckpoint('Draw area');
+    }, [addDrawnCorridor, addDrawnHole, analyzePolygon, recordHistoryCheckpoint]);
 
     const handleDrawUpdate = useCallback((e: any) => {
       if (suspendAutoAnalysisRef.current) return;
-      e.features.forEach((feature: any) => {
-        if (feature.geometry.type === 'Polygon') {
-          pendingGeometryRefreshRef.current.add(String(feature.id));
-          analyzePolygon(feature.id, feature);
+      const draw = drawRef.current as any;
+      let changed = false;
+      e.features.forEach((edited: any) => {
+        if (edited.geometry.type !== 'Polygon') return;
+        let feature = edited;
+        // Corridor outlines are rebuilt from their centerline: moving one carries the centerline
+        // along, vertex edits are undone
+        const corridor = corridorFromFeature(feature);
+        if (corridor && draw) {
+          const [lng0, lat0] = buildCorridorRing(corridor)[0];
+          const [lng1, lat1] = feature.geometry.coordinates[0][0];
+          const moved = e.action === 'move'
+            ? { ...corridor, centerline: corridor.centerline.map(([lng, lat]): [number, number] => [lng + lng1 - lng0, lat + lat1 - lat0]) }
+            : corridor;
+          feature = {
+            ...feature,
+            properties: { ...feature.properties, corridor: moved },
+            geometry: { type: 'Polygon', coordinates: [buildCorridorRing(moved)] },
+          };
+          draw.add(feature);
+          if (e.action !== 'move') {
+            try { draw.changeMode('simple_select', { featureIds: [String(feature.id)] }); } catch {}
+            onError?.('Corridor outlines follow their centerline; change the corridor width instead');
+            return;
+          }
         }
+        changed = true;
+        pendingGeometryRefreshRef.current.add(String(feature.id));
+        analyzePolygon(feature.id, feature);
       });
-    }, [analyzePolygon]);
+      if (changed) recordHistoryCheckpoint('Edit area boundary');
+    }, [analyzePolygon, onError, recordHistoryCheckpoint]);
 
     const handleDrawDelete = useCallback((e: any) => {
       e.features.forEach((feature: any) => {
@@ -984,7 +1338,8 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
           cleanupPolygonState(polygonId);
         }
       });
-    }, [cleanupPolygonState]);
+      recordHistoryCheckpoint('Delete area');
+    }, [cleanupPolygonState, recordHistoryCheckpoint]);
 
     // ---------- Map init ----------
     const onMapLoad = useCallback(
@@ -998,6 +1353,11 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         map.on('draw.create', syncProcessingPerimeterOverlay);
         map.on('draw.update', syncProcessingPerimeterOverlay);
         map.on('draw.delete', syncProcessingPerimeterOverlay);
+        // Leaving draw mode without finishing (Esc) cancels a pending hole or corridor
+        map.on('draw.modechange', (e: any) => {
+          if (e?.mode !== 'draw_polygon') holeTargetRef.current = null;
+          if (e?.mode !== 'draw_line_string') corridorDrawWidthRef.current = null;
+        });
         syncProcessingPerimeterOverlay();
         if (processingPolygonIdsRef.current.size > 0) {
           startProcessingPerimeterAnimation();
@@ -1039,46 +1399,71 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
     });
 
     // ---------- Draw utils ----------
-    const addRingAsDrawFeature = useCallback((ring: [number, number][], name?: string, extraProps?: Record<string, any>): string | undefined => {
+    const addRingAsDrawFeature = useCallback((
+      ring: [number, number][],
+      name?: string,
+      extraProps?: Record<string, any>,
+      holes?: [number, number][][],
+      featureId?: string,
+    ): string | undefined => {
       const draw = drawRef.current as any;
       if (!draw) return;
 
       const normalizedRing = normalizeRingForGeometryOps(ring);
       if (!normalizedRing) return;
+      const normalizedHoles = (holes ?? [])
+        .map((hole) => normalizeRingForGeometryOps(hole))
+        .filter((hole): hole is [number, number][] => hole !== null);
 
       const feature = {
         type: 'Feature',
+        ...(featureId ? { id: featureId } : {}),
         properties: { name: name || '', ...(extraProps || {}) },
-        geometry: { type: 'Polygon', coordinates: [normalizedRing] },
+        geometry: { type: 'Polygon', coordinates: [normalizedRing, ...normalizedHoles] },
       };
 
-      const id = draw.add(feature);
-      const featureId = Array.isArray(id) ? id[0] : id;
+      const added = draw.add(feature);
+      const addedId = Array.isArray(added) ? added[0] : added;
 
       // Only auto-analyze if not suspended (imports will analyze explicitly)
       if (!suspendAutoAnalysisRef.current) {
-        const f = (draw.get as any)?.(featureId);
-        if (f?.geometry?.type === 'Polygon') analyzePolygon(featureId, f);
+        const f = (draw.get as any)?.(addedId);
+        if (f?.geometry?.type === 'Polygon') analyzePolygon(addedId, f);
       }
-      return featureId as string;
+      return addedId as string;
     }, [analyzePolygon]);
 
     // ---------- KML import (unchanged behavior) ----------
     const importKmlFromText = useCallback(async (kmlText: string) => {
       try {
         const polygons = parseKmlPolygons(kmlText);
+        // LineStrings are corridor centerlines; ExtendedData "width" (m) sets the corridor width
+        const corridors = parseKmlLineStrings(kmlText).flatMap((l) => {
+          if (l.properties?.kind === KML_FLIGHT_PATH_KIND) return []; // our own exported flight paths
+          const widthM = Number(l.properties?.width ?? l.properties?.corridorWidth ?? lastCorridorWidthRef.current);
+          const corridor = normalizeCorridorSpec({ centerline: l.line, widthM });
+          return corridor ? [{ name: l.name, corridor }] : [];
+        });
         let added = 0; const newIds: string[] = [];
         suspendAutoAnalysisRef.current = true;
         for (const p of polygons) {
           if (p.ring?.length >= 4) {
-            const id = addRingAsDrawFeature(p.ring, p.name, { source: 'kml' });
+            const id = addRingAsDrawFeature(p.ring, p.name, { source: 'kml' }, p.holes);
             if (id) newIds.push(id);
             added++;
           }
         }
+        for (const c of corridors) {
+          const id = addRingAsDrawFeature(buildCorridorRing(c.corridor), c.name, { source: 'kml', corridor: c.corridor });
+          if (id) newIds.push(id);
+          added++;
+        }
 
         if (added > 0 && mapRef.current) {
-          const bounds = calculateKmlBounds(polygons.filter(p => p.ring?.length >= 4));
+          const bounds = calculateKmlBounds([
+            ...polygons.filter(p => p.ring?.length >= 4),
+            ...corridors.map((c) => ({ ring: buildCorridorRing(c.corridor) })),
+          ]);
           if (bounds) {
             const padding = 0.001;
             const padded: [[number, number], [number, number]] = [
@@ -1090,7 +1475,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         } else if (polygons.length > 0) {
           onError?.("KML contained polygons but none were valid (need at least 4 coordinates)");
         } else {
-          onError?.("No valid polygons found in KML file");
+          onError?.("No valid polygons or corridor centerlines found in KML file");
         }
 
         // Run analyses after all added
@@ -1100,7 +1485,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
             const f = draw?.get?.(pid);
             if (f?.geometry?.type === 'Polygon') analyzePolygon(pid, f);
         }
-        return { added, total: polygons.length };
+        return { added, total: polygons.length + corridors.length };
       } catch (error) {
         const message = error instanceof Error ? error.message : "Failed to parse KML file";
         onError?.(message);
@@ -1138,7 +1523,8 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         }
       }
       if (kmlInputRef.current) kmlInputRef.current.value = '';
-    }, [importKmlFromText, onError]);
+      recordHistoryCheckpoint('Import KML');
+    }, [importKmlFromText, onError, recordHistoryCheckpoint]);
 
     // ---------- Wingtra flightplan import ----------
     const importWingtraFromText = useCallback(async (json: string): Promise<{ added: number; total: number; areas: ImportedFlightplanArea[] }> => {
@@ -1168,18 +1554,18 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
 
         // 1) Add features (no analysis yet), set params + overrides, draw file lines immediately
         for (const item of imported.items) {
-          const id = addRingAsDrawFeature(item.ring, `Flightplan Area`, { source: 'wingtra' });
+          const id = addRingAsDrawFeature(item.ring, `Flightplan Area`, { source: 'wingtra', ...(item.corridor ? { corridor: item.corridor } : {}) });
           if (!id) continue;
           newIds.push(id);
           newRings.push(item.ring as [number, number][]);
 
           const payloadKind = item.payloadKind ?? imported.payloadKind ?? DEFAULT_PAYLOAD_KIND;
           const lidarKey = item.lidarKey || imported.payloadLidarKey || DEFAULT_LIDAR.key;
-          const cameraKey = item.cameraKey || imported.payloadCameraKey || 'SONY_RX1R2';
+          const cameraKey = item.cameraKey || imported.payloadCameraKey || DEFAULT_CAMERA_KEY;
           let cameraYawOffsetDeg = 0;
 
           if (payloadKind === 'camera') {
-            const cam = (CAMERA_REGISTRY as any)[cameraKey] || DEFAULT_CAMERA;
+            const cam = getCameraModel(cameraKey);
             const swathW = (cam.w_px * cam.sx_m * item.altitudeAGL) / cam.f_m;
             const swathH = (cam.h_px * cam.sy_m * item.altitudeAGL) / cam.f_m;
             const spacingFromW = swathW * (1 - (item.sideOverlap ?? 70) / 100);
@@ -1218,7 +1604,9 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
             item.ring as number[][],
             item.angleDeg,
             item.lineSpacingM,
-            undefined
+            undefined,
+            undefined,
+            avoidZonesRef.current
           );
           flightLinesToUpdate.set(id, { ...lines, altitudeAGL: item.altitudeAGL });
 
@@ -1290,7 +1678,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
           const lineSpacing = flEntry?.lineSpacing ?? imported.items[idx]?.lineSpacingM ?? 25;
           const altitudeAGL = polygonsToUpdate.get(polygonId)?.params.altitudeAGL ?? imported.items[idx]?.altitudeAGL ?? 100;
           if (deckOverlayRef.current && flEntry?.flightLines?.length) {
-            const path3d = build3DFlightPath(flEntry.flightLines, tiles, lineSpacing, { altitudeAGL, mode: altitudeMode, minClearance: minClearanceM, turnExtendM });
+            const path3d = build3DFlightPath(flEntry.flightLines, tiles, lineSpacing, { altitudeAGL, mode: altitudeMode, minClearance: minClearanceM, turnExtendM, maxGradientPct: maxTerrainGradientPct });
             update3DPathLayer(deckOverlayRef.current, polygonId, path3d, setDeckLayers);
           }
         }
@@ -1341,7 +1729,134 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         }
       }
       if (flightplanInputRef.current) flightplanInputRef.current.value = '';
-    }, [importWingtraFromText, onError]);
+      recordHistoryCheckpoint('Import flight plan');
+    }, [importWingtraFromText, onError, recordHistoryCheckpoint]);
+
+    // ---------- GeoJSON / Shapefile import & export ----------
+    const importGisAreas = useCallback((areas: GisArea[], source: 'geojson' | 'shapefile' | 'coverage-gap') => {
+      if (!drawRef.current) {
+        onError?.('Map is not ready yet');
+        return { added: 0, total: areas.length };
+      }
+      const ids: string[] = [];
+      suspendAutoAnalysisRef.current = true;
+      try {
+        for (const area of areas) {
+          const id = addRingAsDrawFeature(area.ring, area.name, { source }, area.holes);
+          if (!id) continue;
+          ids.push(id);
+          // Attributes with an altitude give a complete setup; areas without one ask for params as usual
+          if (area.params.altitudeAGL === undefined) continue;
+          const params = sanitizePolygonParams(area.params as PolygonParams);
+          const nextParams = new Map(polygonParamsRef.current);
+          nextParams.set(id, params);
+          polygonParamsRef.current = nextParams;
+          setPolygonParams(nextParams);
+          if (params.useCustomBearing && params.customBearingDeg !== undefined) {
+            const nextOverrides = new Map(bearingOverridesRef.current);
+            nextOverrides.set(id, { bearingDeg: params.customBearingDeg, lineSpacingM: getLineSpacingForParams(params), source: 'user' });
+            bearingOverridesRef.current = nextOverrides;
+            setBearingOverrides(nextOverrides);
+          }
+        }
+        if (ids.length === 0) {
+          if (source === 'coverage-gap') onError?.('None of the fill-in areas were valid');
+          else onError?.(areas.length > 0 ? 'None of the polygons in the file were valid' : 'No Polygon or MultiPolygon features found in file');
+          return { added: 0, total: areas.length };
+        }
+        // Fill-ins sit inside areas already on screen; keep the view the user chose the gap from
+        if (source !== 'coverage-gap') fitMapToRings(areas.map((area) => area.ring));
+        suspendAutoAnalysisRef.current = false;
+        const draw = drawRef.current as any;
+        for (const id of ids) {
+          const feature = draw?.get?.(id);
+          if (feature?.geometry?.type === 'Polygon') analyzePolygon(id, feature);
+        }
+      } finally {
+        suspendAutoAnalysisRef.current = false;
+      }
+      return { added: ids.length, total: areas.length };
+    }, [addRingAsDrawFeature, analyzePolygon, fitMapToRings, onError]);
+
+    const handleGisFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []);
+      const sibling = (shp: File, ext: string) =>
+        files.find((file) => file.name.toLowerCase() === `${shp.name.slice(0, -4).toLowerCase()}.${ext}`);
+      for (const file of files) {
+        try {
+          if (/\.zip$/i.test(file.name)) {
+            importGisAreas(await areasFromShapefileZip(await file.arrayBuffer()), 'shapefile');
+          } else if (/\.shp$/i.test(file.name)) {
+            // Loose shapefiles: the .dbf and .prj picked alongside are read with their .shp
+            const dbf = sibling(file, 'dbf');
+            const prj = sibling(file, 'prj');
+            importGisAreas(parseShapefile(
+              await file.arrayBuffer(),
+              dbf ? await dbf.arrayBuffer() : null,
+              prj ? await prj.text() : null,
+            ), 'shapefile');
+          } else if (/\.(geo)?json$/i.test(file.name)) {
+            importGisAreas(areasFromGeoJSON(await file.text()), 'geojson');
+          }
+        } catch (error) {
+          onError?.(`Failed to read file ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+      if (gisInputRef.current) gisInputRef.current.value = '';
+      recordHistoryCheckpoint('Import GIS areas');
+    }, [importGisAreas, onError, recordHistoryCheckpoint]);
+
+    // Areas with their plan for GIS export; the 3D path, trigger points and flight time are recomputed
+    const getGisExportAreas = useCallback((): GisExportArea[] => {
+      const draw = drawRef.current as any;
+      const aircraft = getAircraftModel(aircraftKey);
+      const areas: GisExportArea[] = [];
+      polygonResultsRef.current.forEach((res, polygonId) => {
+        const feature = draw?.get?.(polygonId);
+        const [ring, ...holes] = (feature?.geometry?.coordinates ?? [res.polygon.coordinates, ...(res.polygon.holes ?? [])]) as [number, number][][];
+        const params = polygonParamsRef.current.get(polygonId);
+        const fl = polygonFlightLinesRef.current.get(polygonId);
+        const override = bearingOverridesRef.current.get(polygonId);
+        const bearingDeg = fl?.passes[0]?.bearingDeg ?? override?.bearingDeg ?? res.result.contourDirDeg;
+        const flightLines = (fl?.flightLines ?? []) as [number, number][][];
+        const lineBearingsDeg = flightLines.map((_, i) =>
+          fl?.passes.find((pass) => i >= pass.lineStart && i < pass.lineEnd)?.bearingDeg ?? bearingDeg);
+
+        let triggerPoints: [number, number, number][] = [];
+        let path3d: [number, number, number][][] | undefined;
+        let flightTimeSec: number | undefined;
+        const tiles = polygonTilesRef.current.get(polygonId) || [];
+        if (fl && params && tiles.length > 0 && flightLines.length > 0) {
+          path3d = flightPath3DFor(polygonId, fl.flightLines, fl.lineSpacing, params.altitudeAGL, tiles);
+          const airspeedMps = isLidarParams(params) ? params.speedMps : undefined;
+          flightTimeSec = estimateFlightPathPerformance(path3d, aircraft, wind, airspeedMps ?? aircraft.cruiseSpeedMps).totalTimeSec;
+          const spacingForward = getForwardSpacingForParams(params);
+          if (spacingForward && spacingForward > 0) {
+            const area = turf.polygon([ring, ...holes]);
+            triggerPoints = sampleCameraPositionsOnFlightPath(path3d, spacingForward, { includeTurns: false })
+              .filter(([lng, lat]) => turf.booleanPointInPolygon([lng, lat], area))
+              .map(([lng, lat, alt]) => [lng, lat, alt]);
+          }
+        }
+
+        const name = typeof feature?.properties?.name === 'string' && feature.properties.name ? feature.properties.name : undefined;
+        areas.push({
+          polygonId,
+          ...(name ? { name } : {}),
+          ring,
+          ...(holes.length > 0 ? { holes } : {}),
+          ...(params ? { params } : {}),
+          bearingDeg,
+          ...(fl ? { lineSpacingM: fl.lineSpacing } : {}),
+          flightLines,
+          lineBearingsDeg,
+          triggerPoints,
+          ...(path3d ? { path3d } : {}),
+          ...(flightTimeSec !== undefined ? { flightTimeSec } : {}),
+        });
+      });
+      return areas;
+    }, [aircraftKey, altitudeMode, flightPath3DFor, maxTerrainGradientPct, minClearanceM, turnExtendM, wind]);
 
     // ---------- Drag & drop (KML) ----------
     useEffect(() => {
@@ -1394,6 +1909,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
             onError?.(`Failed to read file ${f.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
           }
         }
+        recordHistoryCheckpoint('Import KML');
       };
 
       el.addEventListener('dragover', onDragOver);
@@ -1404,7 +1920,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         el.removeEventListener('dragleave', onDragLeave);
         el.removeEventListener('drop', onDrop);
       };
-    }, [importKmlFromText, onError]);
+    }, [importKmlFromText, onError, recordHistoryCheckpoint]);
 
     // NEW: Apply same params to all queued polygons (bulk "Apply All")
     const applyParamsToAllPending = useCallback((params: PolygonParams) => {
@@ -1487,9 +2003,12 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         mapRef.current,
         polygonId,
         res.polygon.coordinates,
-        original.bearingDeg,
+        getPassBearings(original.bearingDeg, params),
         original.lineSpacingM,
-        res.result.fitQuality
+        res.result.fitQuality,
+        res.polygon.holes,
+        avoidZonesRef.current,
+        corridorFromFeature((drawRef.current as any)?.get?.(polygonId))
       );
       setPolygonFlightLines((prev) => {
         const next = new Map(prev);
@@ -1498,7 +2017,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       });
       const tiles = polygonTiles.get(polygonId) || [];
       if (deckOverlayRef.current && fl.flightLines.length > 0) {
-        const path3d = build3DFlightPath(fl.flightLines, tiles, fl.lineSpacing, { altitudeAGL: params.altitudeAGL, mode: altitudeMode, minClearance: minClearanceM, turnExtendM });
+        const path3d = build3DFlightPath(fl.flightLines, tiles, fl.lineSpacing, { altitudeAGL: params.altitudeAGL, mode: altitudeMode, minClearance: minClearanceM, turnExtendM, maxGradientPct: maxTerrainGradientPct });
         update3DPathLayer(deckOverlayRef.current, polygonId, path3d, setDeckLayers);
       }
       console.log(`✅ Restored file direction: ${original.bearingDeg}° bearing, ${original.lineSpacingM}m spacing`);
@@ -1589,6 +2108,8 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
     ): TerrainPartitionSolutionPreview[] => {
       const { solutions } = buildPartitionFrontier(ring, tiles, params, {
         tradeoffSamples: DEFAULT_PARTITION_TRADEOFF_SAMPLES,
+        aircraft: getAircraftModel(aircraftKey),
+        wind,
       });
       return solutions
         .filter((solution) => solution.regions.length > 1)
@@ -1597,6 +2118,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
           tradeoff: solution.tradeoff,
           regionCount: solution.partition.regionCount,
           totalMissionTimeSec: solution.partition.totalMissionTimeSec,
+          totalEnergyWh: solution.partition.totalEnergyWh,
           normalizedQualityCost: solution.partition.normalizedQualityCost,
           weightedMeanMismatchDeg: solution.partition.weightedMeanMismatchDeg,
           hierarchyLevel: solution.hierarchyLevel,
@@ -1614,7 +2136,7 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
             baseAltitudeAGL: params.altitudeAGL,
           })),
         }));
-    }, []);
+    }, [aircraftKey, wind]);
 
     type TerrainPartitionRegionApplication = {
       ring: [number, number][];
@@ -1891,6 +2413,293 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       );
     }, [applyTerrainPartitionRings, getTerrainPartitionContext, getTerrainPartitionSolutions, onError]);
 
+    const getPolygonRing = useCallback((polygonId: string): [number, number][] | undefined => {
+      const res = polygonResults.get(polygonId);
+      const collection = drawRef.current?.getAll();
+      const feature = collection?.features.find(f=>f.id===polygonId && f.geometry?.type==='Polygon');
+      return (res?.polygon.coordinates || (feature?.geometry as any)?.coordinates?.[0]) as [number, number][] | undefined;
+    }, [polygonResults]);
+
+    const getPolygonHoles = useCallback((polygonId: string): [number, number][][] => {
+      const res = polygonResults.get(polygonId);
+      if (res) return (res.polygon.holes ?? []) as [number, number][][];
+      const feature = drawRef.current?.getAll()?.features.find(f=>f.id===polygonId && f.geometry?.type==='Polygon');
+      return ((feature?.geometry as any)?.coordinates?.slice(1) ?? []) as [number, number][][];
+    }, [polygonResults]);
+
+    const flightSplitAreas = React.useMemo((): FlightSplitArea[] => {
+      const areas: FlightSplitArea[] = [];
+      polygonFlightLines.forEach((fl, polygonId) => {
+        const ring = getPolygonRing(polygonId);
+        if (!ring || fl.flightLines.length === 0) return;
+        const params = polygonParams.get(polygonId);
+        const override = bearingOverrides.get(polygonId);
+        const holes = getPolygonHoles(polygonId);
+        areas.push({
+          polygonId,
+          ring,
+          ...(holes.length > 0 ? { holes } : {}),
+          // The first pass carries the bearing the lines were generated with (corridors: along the centerline)
+          bearingDeg: fl.passes[0]?.bearingDeg ?? (override ? override.bearingDeg : (polygonResults.get(polygonId)?.result.contourDirDeg ?? 0)),
+          lineSpacingM: fl.lineSpacing,
+          flightLines: fl.flightLines as [number, number][][],
+          passes: fl.passes.length > 1 ? fl.passes : undefined,
+          airspeedMps: params?.payloadKind === 'lidar' ? params.speedMps : undefined,
+          corridor: corridorFromFeature((drawRef.current as any)?.get?.(polygonId)) ?? undefined,
+        });
+      });
+      return areas;
+    }, [bearingOverrides, getPolygonHoles, getPolygonRing, polygonFlightLines, polygonParams, polygonResults]);
+
+    // Terrain source switched: re-analyse every area so tiles, lines and 3D paths use the new heights
+    const terrainSourceVersion = React.useSyncExternalStore(subscribeTerrainSource, getTerrainSourceVersion);
+    const analysedTerrainVersionRef = useRef(terrainSourceVersion);
+    useEffect(() => {
+      if (analysedTerrainVersionRef.current === terrainSourceVersion) return;
+      analysedTerrainVersionRef.current = terrainSourceVersion;
+      const features = (drawRef.current?.getAll().features ?? []) as any[];
+      features
+        .filter((feature) => feature?.geometry?.type === 'Polygon' && feature.id)
+        .forEach((feature) => analyzePolygon(String(feature.id), feature));
+    }, [analyzePolygon, terrainSourceVersion]);
+
+    // Coarse terrain covering home + all areas, for transit clearance between them
+    useEffect(() => {
+      if (!homePoint || flightSplitAreas.length === 0 || !mapboxToken) {
+        setRouteTiles([]);
+        return;
+      }
+      const points: [number, number][] = [homePoint, ...flightSplitAreas.flatMap((area) => area.ring)];
+      const lngs = points.map((p) => p[0]);
+      const lats = points.map((p) => p[1]);
+      const minLng = Math.min(...lngs), maxLng = Math.max(...lngs);
+      const minLat = Math.min(...lats), maxLat = Math.max(...lats);
+      const bboxRing: [number, number][] = [[minLng, minLat], [maxLng, minLat], [maxLng, maxLat], [minLng, maxLat], [minLng, minLat]];
+      let zoom = ROUTE_TERRAIN_MAX_ZOOM;
+      while (zoom > 8) {
+        const n = 2 ** zoom;
+        const tilesX = Math.floor(((maxLng + 180) / 360) * n) - Math.floor(((minLng + 180) / 360) * n) + 1;
+        const latToY = (lat: number) => Math.floor(((1 - Math.log(Math.tan((lat * Math.PI) / 180) + 1 / Math.cos((lat * Math.PI) / 180)) / Math.PI) / 2) * n);
+        const tilesY = latToY(minLat) - latToY(maxLat) + 1;
+        if (tilesX * tilesY <= ROUTE_TERRAIN_MAX_TILES) break;
+        zoom--;
+      }
+      const controller = new AbortController();
+      fetchTilesForPolygon({ coordinates: bboxRing as any }, zoom, mapboxToken, controller.signal)
+        .then((tiles) => { if (!controller.signal.aborted) setRouteTiles(tiles); })
+        .catch(() => {});
+      return () => controller.abort();
+    }, [flightSplitAreas, homePoint, mapboxToken, terrainSourceVersion]);
+
+    const missionRoute = React.useMemo((): MissionRoute | null => {
+      if (!homePoint || flightSplitAreas.length === 0) return null;
+      const visits = orderAreasForRoute(flightSplitAreas, homePoint);
+      const terrainAt = (point: [number, number], tiles: any[]) => {
+        if (tiles.length === 0) return Number.NEGATIVE_INFINITY;
+        return queryMinMaxElevationAlongPolylineWGS84([point], tiles).max;
+      };
+      const homeTerrain = terrainAt(homePoint, routeTiles);
+      return buildMissionRoute(
+        visits,
+        [homePoint[0], homePoint[1], Number.isFinite(homeTerrain) ? homeTerrain : 0],
+        (visit, point) => {
+          const polygonTileList = polygonTiles.get(visit.polygonId) ?? [];
+          let ground = terrainAt(point, polygonTileList);
+          if (!Number.isFinite(ground)) ground = terrainAt(point, routeTiles);
+          const agl = polygonParams.get(visit.polygonId)?.altitudeAGL ?? polygonFlightLines.get(visit.polygonId)?.altitudeAGL ?? 100;
+          return (Number.isFinite(ground) ? ground : 0) + agl;
+        },
+        (from, to) => routeTiles.length > 0
+          ? queryMinMaxElevationAlongPolylineWGS84([from, to], routeTiles, 60).max
+          : Number.NEGATIVE_INFINITY,
+        transitClearanceM,
+        getAircraftModel(aircraftKey),
+        wind,
+      );
+    }, [aircraftKey, flightSplitAreas, homePoint, polygonFlightLines, polygonParams, polygonTiles, routeTiles, transitClearanceM, wind]);
+
+    // 3D paths, trigger points and exports fly each area the way the route enters it. Set during
+    // render so memos below and the panel's reads after this commit see the current visits.
+    routeVisitsRef.current = React.useMemo(
+      () => new Map((missionRoute?.visits ?? []).map((visit) => [visit.polygonId, visit])),
+      [missionRoute],
+    );
+    const routeOrientationKey = (missionRoute?.visits ?? [])
+      .map((visit) => `${visit.polygonId}:${visit.reverseLineOrder}/${visit.reverseFirstLine}`)
+      .join('|');
+    useEffect(() => {
+      if (!deckOverlayRef.current) return;
+      polygonFlightLinesRef.current.forEach((fl, pid) => {
+        const tiles = polygonTilesRef.current.get(pid) || [];
+        const params = polygonParamsRef.current.get(pid);
+        const res = polygonResultsRef.current.get(pid);
+        if (fl.flightLines.length === 0 || !params || !res) return;
+        const path3d = flightPath3DFor(pid, fl.flightLines, fl.lineSpacing, fl.altitudeAGL, tiles);
+        show3DPathWithTriggers(pid, path3d, params, res.polygon.coordinates as [number, number][], res.polygon.holes ?? []);
+      });
+    }, [routeOrientationKey]);
+
+    const plannedFlights = React.useMemo((): PlannedFlight[] => {
+      if (!homePoint || !missionRoute) return [];
+      // Split along the optimized visiting order so each flight picks up where the last one ended
+      const byId = new Map(flightSplitAreas.map((area) => [area.polygonId, area]));
+      const orderedAreas = missionRoute.visits
+        .map((visit): FlightSplitArea | null => {
+          const area = byId.get(visit.polygonId);
+          if (!area) return null;
+          const lineCount = area.flightLines.length;
+          const passes = visit.reverseLineOrder
+            ? area.passes?.map((pass) => ({ ...pass, lineStart: lineCount - pass.lineEnd, lineEnd: lineCount - pass.lineStart }))
+            : area.passes;
+          return { ...area, flightLines: orientAreaLines(area.flightLines, visit, area.lineSpacingM), passes };
+        })
+        .filter((area): area is FlightSplitArea => area !== null);
+      return splitFlightsByEndurance(orderedAreas, {
+        home: homePoint,
+        maxFlightTimeSec: maxFlightMinutes * 60,
+        aircraft: getAircraftModel(aircraftKey),
+        wind,
+      });
+    }, [aircraftKey, flightSplitAreas, homePoint, maxFlightMinutes, missionRoute, wind]);
+
+    useEffect(() => {
+      const map = mapRef.current;
+      if (!map) return;
+      try {
+        if (homePoint) setFlightSplitLayer(map, plannedFlights);
+        else clearFlightSplitLayer(map);
+        if (missionRoute) setMissionRouteLayer(map, missionRoute.legs.map((leg) => [[leg.from[0], leg.from[1]], [leg.to[0], leg.to[1]]]));
+        else clearMissionRouteLayer(map);
+      } catch {}
+      onMissionRouteChanged?.();
+    }, [homePoint, missionRoute, onMissionRouteChanged, plannedFlights]);
+
+    // Every sweep line, turn connector and transit leg checked against the restricted zones, and
+    // the exported area items, whose lines the aircraft rebuilds without the avoidance cut
+    const airspaceViolations = React.useMemo((): AirspaceViolation[] => {
+      if (airspaceZones.length === 0) return [];
+      const areaPaths: Array<{ polygonId: string; path3D: [number, number, number][][] }> = [];
+      polygonFlightLines.forEach((fl, polygonId) => {
+        if (fl.flightLines.length === 0) return;
+        const tiles = polygonTiles.get(polygonId) || [];
+        areaPaths.push({ polygonId, path3D: flightPath3DFor(polygonId, fl.flightLines, fl.lineSpacing, fl.altitudeAGL, tiles) });
+      });
+      const areaItems: AirspaceAreaInput[] = [];
+      polygonParams.forEach((_, polygonId) => {
+        const ring = getPolygonRing(polygonId);
+        if (!ring) return;
+        const path3D = areaPaths.find((path) => path.polygonId === polygonId)?.path3D ?? [];
+        areaItems.push({ polygonId, ring, holes: getPolygonHoles(polygonId), path3D });
+      });
+      return [
+        ...validatePlanAgainstAirspace(airspaceZones, areaPaths, missionRoute?.legs ?? []),
+        ...validateAreaItemsAgainstAirspace(airspaceZones, areaItems),
+      ];
+    }, [airspaceZones, flightPath3DFor, getPolygonHoles, getPolygonRing, missionRoute, polygonFlightLines, polygonParams, polygonTiles]);
+
+    useEffect(() => {
+      const map = mapRef.current;
+      if (!map) return;
+      try {
+        if (airspaceZones.length > 0) setAirspaceLayer(map, airspaceZones);
+        else clearAirspaceLayer(map);
+        if (airspaceViolations.length > 0) setAirspaceViolationLayer(map, airspaceViolations.flatMap((violation) => violation.pieces));
+        else clearAirspaceViolationLayer(map);
+      } catch {}
+      onAirspaceChanged?.();
+    }, [airspaceViolations, airspaceZones, onAirspaceChanged]);
+
+    // Re-cut every area's flight lines when the zones to avoid change
+    const avoidZonesKeyRef = useRef('');
+    useEffect(() => {
+      const zones = avoidAirspace ? airspaceZones : [];
+      const key = zones.map((zone) => zone.id).join('|');
+      avoidZonesRef.current = zones;
+      if (key === avoidZonesKeyRef.current) return;
+      avoidZonesKeyRef.current = key;
+      const updates = Array.from(polygonParamsRef.current.entries()).map(([polygonId, params]) => ({ polygonId, params }));
+      if (updates.length > 0) applyPolygonParamsBatch(updates);
+    }, [airspaceZones, applyPolygonParamsBatch, avoidAirspace]);
+
+    const importAirspaceFromText = useCallback((text: string) => {
+      try {
+        const zones = parseAirspaceText(text);
+        if (zones.length === 0) {
+          onError?.('No restricted-area polygons found in file');
+          return { added: 0 };
+        }
+        // Keep ids unique across imports
+        setAirspaceZones((prev) => [
+          ...prev,
+          ...zones.map((zone, index) => ({ ...zone, id: `${zone.id}#${prev.length + index + 1}` })),
+        ]);
+        return { added: zones.length };
+      } catch (error) {
+        onError?.(`Failed to read restricted areas: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return { added: 0 };
+      }
+    }, [onError]);
+
+    const handleAirspaceFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files || []);
+      for (const file of files) {
+        try {
+          const text = /\.kmz$/i.test(file.name) ? await extractKmlFromKmz(await file.arrayBuffer()) : await file.text();
+          importAirspaceFromText(text);
+        } catch (error) {
+          onError?.(`Failed to read file ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+      if (airspaceInputRef.current) airspaceInputRef.current.value = '';
+    }, [importAirspaceFromText, onError]);
+
+    // Draggable takeoff/landing marker
+    useEffect(() => {
+      const map = mapRef.current;
+      if (!map || !homePoint) {
+        homeMarkerRef.current?.remove();
+        homeMarkerRef.current = null;
+        return;
+      }
+      if (!homeMarkerRef.current) {
+        const marker = new Marker({ draggable: true, color: '#111827' }).setLngLat(homePoint).addTo(map);
+        marker.on('dragend', () => {
+          const { lng, lat } = marker.getLngLat();
+          setHomePoint([lng, lat]);
+        });
+        homeMarkerRef.current = marker;
+      } else {
+        homeMarkerRef.current.setLngLat(homePoint);
+      }
+    }, [homePoint]);
+
+    // Wrap exported area items into a .flightplan, reusing the last imported file as a template
+    const buildWingtraFlightPlanJson = useCallback((areas: ExportedArea[]) => {
+      const payloadKind = areas[0]?.payloadKind ?? 'camera';
+      let fp;
+      if (lastImportedFlightplan) {
+        // Deep clone original
+        fp = JSON.parse(JSON.stringify(lastImportedFlightplan));
+        // Replace flightPlan.items only (preserve metadata/stats; some tools may recalc them)
+        fp.flightPlan.items = exportToWingtraFlightPlan(areas, { payloadKind }).flightPlan.items;
+        // Optionally update payload fields if camera changed (skipped for now)
+        // Reset derived stats that may be stale
+        fp.flightPlan.numberOfImages = 0;
+        fp.flightPlan.totalArea = 0;
+        fp.flightPlan.activeTotalArea = 0;
+        fp.flightPlan.activeNumberOfImages = 0;
+        fp.flightPlan.flownPercentage = 0;
+        fp.flightPlan.resumeMissionIndex = 0;
+        fp.flightPlan.resumeGridPointIndex = -1;
+        fp.flightPlan.lastModifiedTime = Date.now();
+      } else {
+        fp = exportToWingtraFlightPlan(areas, { payloadKind });
+      }
+      const json = JSON.stringify(fp, null, 2);
+      const blob = new Blob([json], { type: 'application/json' });
+      return { json, blob };
+    }, [lastImportedFlightplan]);
+
     const pickDefaultPartitionSolution = useCallback((solutions: TerrainPartitionSolutionPreview[]) => {
       const candidates = solutions.filter((solution) => solution.regions.length > 1);
       if (candidates.length === 0) return null;
@@ -1977,39 +2786,268 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       return fallbackResult;
     }, [applyTerrainPartitionRings, getTerrainPartitionContext, getTerrainPartitionSolutions, pickDefaultPartitionSolution]);
 
+    const clearAllDrawings = useCallback(() => {
+      setProcessingPolygonIds([]);
+      if (drawRef.current) drawRef.current.deleteAll();
+      if (deckOverlayRef.current) {
+        setDeckLayers([]);
+        deckOverlayRef.current.setProps({ layers: [] });
+      }
+      if (mapRef.current) {
+        clearAllFlightLines(mapRef.current);
+        clearAllTriggerPoints(mapRef.current);
+        clearFlightSplitLayer(mapRef.current);
+        clearMissionRouteLayer(mapRef.current);
+      }
+      setPolygonResults(new Map());
+      polygonResultsRef.current = new Map();
+      setPolygonTiles(new Map());
+      polygonTilesRef.current = new Map();
+      setPolygonFlightLines(new Map());
+      polygonFlightLinesRef.current = new Map();
+      flightPath3DCacheRef.current.clear();
+      setPolygonParams(new Map());
+      polygonParamsRef.current = new Map();
+      setBearingOverrides(new Map());
+      bearingOverridesRef.current = new Map();
+      setImportedOriginals(new Map());
+      importedOriginalsRef.current = new Map();
+      setPendingParamPolygons([]);
+      pendingProgrammaticDeletesRef.current.clear();
+      suppressSelectionDialogUntilRef.current = 0;
+
+      cancelAllAnalyses();
+      onClearGSD?.();
+      onPolygonSelected?.(null);
+      // Notify parent that results are cleared
+      onAnalysisComplete?.([]);
+    }, [cancelAllAnalyses, onAnalysisComplete, onClearGSD, onPolygonSelected, setProcessingPolygonIds]);
+
+    // ---------- Undo / redo ----------
+    // Put the given areas back as they were (null = remove); other areas are left alone
+    const restoreAreas = useCallback((target: Record<string, AreaSnapshot | null>) => {
+      const draw = drawRef.current as any;
+      if (!draw || !mapRef.current) return;
+      restoringHistoryRef.current = true;
+      const prevSuppress = suppressFlightLineEventsRef.current;
+      suppressFlightLineEventsRef.current = true;
+      try {
+        // Params and overrides first, so re-analyzed areas draw their lines without asking for params
+        const nextParams = new Map(polygonParamsRef.current);
+        const nextOverrides = new Map(bearingOverridesRef.current);
+        const nextOriginals = new Map(importedOriginalsRef.current);
+        Object.entries(target).forEach(([id, snapshot]) => {
+          if (snapshot?.params) nextParams.set(id, snapshot.params); else nextParams.delete(id);
+          if (snapshot?.override) nextOverrides.set(id, snapshot.override); else nextOverrides.delete(id);
+          if (snapshot?.original) nextOriginals.set(id, snapshot.original); else nextOriginals.delete(id);
+        });
+        polygonParamsRef.current = nextParams;
+        setPolygonParams(nextParams);
+        bearingOverridesRef.current = nextOverrides;
+        setBearingOverrides(nextOverrides);
+        importedOriginalsRef.current = nextOriginals;
+        setImportedOriginals(nextOriginals);
+
+        Object.entries(target).forEach(([id, snapshot]) => {
+          const feature = draw.get?.(id);
+          if (!snapshot) {
+            if (feature) deletePolygonFeature(id);
+            return;
+          }
+          const { polygon } = snapshot;
+          if (!feature) {
+            addRingAsDrawFeature(polygon.ring, polygon.name, featurePropsFromProjectPolygon(polygon), polygon.holes, id);
+            return;
+          }
+          const coordinates = [polygon.ring, ...(polygon.holes ?? [])];
+          if (JSON.stringify(feature.geometry?.coordinates) !== JSON.stringify(coordinates)) {
+            const properties = { ...feature.properties, corridor: polygon.corridor };
+            if (!polygon.corridor) delete properties.corridor;
+            draw.add({ ...feature, properties, geometry: { type: 'Polygon', coordinates } });
+            pendingGeometryRefreshRef.current.add(id);
+            analyzePolygon(id, draw.get(id));
+            return;
+          }
+          // Same shape: redraw the lines for the restored params and direction
+          if (snapshot.params) {
+            applyPolygonParams(id, snapshot.params, { skipQueue: true });
+            return;
+          }
+          removeFlightLinesForPolygon(mapRef.current!, id);
+          removeTriggerPointsForPolygon(mapRef.current!, id);
+          if (deckOverlayRef.current) {
+            remove3DPathLayer(deckOverlayRef.current, id, setDeckLayers);
+            remove3DTriggerPointsLayer(deckOverlayRef.current, id, setDeckLayers);
+          }
+          const nextFlightLines = new Map(polygonFlightLinesRef.current);
+          nextFlightLines.delete(id);
+          polygonFlightLinesRef.current = nextFlightLines;
+          setPolygonFlightLines(nextFlightLines);
+        });
+        syncProcessingPerimeterOverlay();
+      } finally {
+        restoringHistoryRef.current = false;
+        suppressFlightLineEventsRef.current = prevSuppress;
+      }
+      committedAreasRef.current = takeAreaSnapshots();
+      if (!prevSuppress) onFlightLinesUpdated?.('__all__');
+    }, [addRingAsDrawFeature, analyzePolygon, applyPolygonParams, deletePolygonFeature, onFlightLinesUpdated, syncProcessingPerimeterOverlay, takeAreaSnapshots]);
+
+    // Undo or redo until `entryId` is the latest applied entry (0 = before the first one)
+    const goToHistoryEntry = useCallback((entryId: number): boolean => {
+      if (historyBatchDepthRef.current > 0) return false;
+      let history = historyRef.current;
+      const target: Record<string, AreaSnapshot | null> = {};
+      const latestId = () => history.past[history.past.length - 1]?.id ?? 0;
+      if (entryId === 0 || history.past.some((entry) => entry.id === entryId)) {
+        // Walking back, earlier entries overwrite later ones
+        while (latestId() !== entryId) {
+          const step = undoHistory(history);
+          if (!step) break;
+          Object.assign(target, step.entry.before);
+          history = step.history;
+        }
+      } else if (history.future.some((entry) => entry.id === entryId)) {
+        while (latestId() !== entryId) {
+          const step = redoHistory(history);
+          if (!step) break;
+          Object.assign(target, step.entry.after);
+          history = step.history;
+        }
+      }
+      if (history === historyRef.current) return false;
+      historyRef.current = history;
+      restoreAreas(target);
+      onHistoryChanged?.();
+      return true;
+    }, [onHistoryChanged, restoreAreas]);
+
+    const undo = useCallback(() => {
+      const { past } = historyRef.current;
+      if (past.length === 0) return false;
+      return goToHistoryEntry(past[past.length - 2]?.id ?? 0);
+    }, [goToHistoryEntry]);
+
+    const redo = useCallback(() => {
+      const next = historyRef.current.future[0];
+      return next ? goToHistoryEntry(next.id) : false;
+    }, [goToHistoryEntry]);
+
+    // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo; text fields keep their own undo
+    useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+        const target = e.target as HTMLElement | null;
+        if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+        const key = e.key.toLowerCase();
+        const handled = key === 'z' && !e.shiftKey ? undo() : (key === 'z' || key === 'y') ? redo() : false;
+        if (handled) e.preventDefault();
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+    }, [redo, undo]);
+
+    // ---------- Projects ----------
+    const getProjectState = useCallback((): ProjectState => {
+      const features = (drawRef.current?.getAll()?.features ?? []) as any[];
+      const polygons: ProjectPolygon[] = features
+        .filter((f) => f.geometry?.type === 'Polygon' && Array.isArray(f.geometry.coordinates?.[0]))
+        .map(projectPolygonFromFeature);
+      return {
+        polygons,
+        paramsByPolygon: Object.fromEntries(polygonParamsRef.current),
+        bearingOverrides: Object.fromEntries(bearingOverridesRef.current),
+        importedOriginals: Object.fromEntries(importedOriginalsRef.current),
+        settings: {
+          altitudeMode,
+          minClearanceM,
+          turnExtendM,
+          maxTerrainGradientPct,
+          aircraftKey,
+          wind,
+          homePoint,
+          maxFlightMinutes,
+          transitClearanceM,
+          avoidAirspace,
+        },
+        airspaceZones,
+        customPayloads: referencedCustomPayloads(Object.fromEntries(polygonParamsRef.current)),
+      };
+    }, [aircraftKey, airspaceZones, altitudeMode, avoidAirspace, homePoint, maxFlightMinutes, maxTerrainGradientPct, minClearanceM, transitClearanceM, turnExtendM, wind]);
+
+    const loadProjectState = useCallback(async (state: ProjectState) => {
+      if (!mapRef.current || !drawRef.current) throw new Error('Map is not ready yet');
+      clearAllDrawings();
+      // Register the sensors the areas use before their lines and footprints are computed
+      if (state.customPayloads) importCustomPayloads(state.customPayloads);
+
+      const { settings } = state;
+      setAltitudeMode(settings.altitudeMode);
+      setMinClearanceM(settings.minClearanceM);
+      setTurnExtendM(settings.turnExtendM);
+      setMaxTerrainGradientPct(settings.maxTerrainGradientPct);
+      setAircraftKey(getAircraftModel(settings.aircraftKey).key);
+      setWind(sanitizeWind(settings.wind));
+      setHomePoint(settings.homePoint);
+      if (Number.isFinite(settings.maxFlightMinutes)) setMaxFlightMinutes(settings.maxFlightMinutes);
+      setTransitClearanceM(settings.transitClearanceM);
+      setAirspaceZones(state.airspaceZones);
+      setAvoidAirspace(settings.avoidAirspace);
+      // Lines are cut while the areas load, before the avoidance effect runs
+      avoidZonesRef.current = settings.avoidAirspace ? state.airspaceZones : [];
+      avoidZonesKeyRef.current = avoidZonesRef.current.map((zone) => zone.id).join('|');
+
+      // Params and overrides first, so each analysis draws its lines without asking for params
+      const nextParams = new Map(Object.entries(state.paramsByPolygon).map(([id, params]) => [id, sanitizePolygonParams(params)]));
+      polygonParamsRef.current = nextParams;
+      setPolygonParams(nextParams);
+      const nextOverrides = new Map(Object.entries(state.bearingOverrides));
+      bearingOverridesRef.current = nextOverrides;
+      setBearingOverrides(nextOverrides);
+      const nextOriginals = new Map(Object.entries(state.importedOriginals));
+      importedOriginalsRef.current = nextOriginals;
+      setImportedOriginals(nextOriginals);
+
+      suspendAutoAnalysisRef.current = true;
+      suppressFlightLineEventsRef.current = true;
+      try {
+        const ids: string[] = [];
+        for (const polygon of state.polygons) {
+          const id = addRingAsDrawFeature(
+            polygon.ring,
+            polygon.name,
+            featurePropsFromProjectPolygon(polygon),
+            polygon.holes,
+            polygon.id,
+          );
+          if (id) ids.push(id);
+        }
+        fitMapToRings(state.polygons.map((polygon) => polygon.ring));
+
+        suspendAutoAnalysisRef.current = false;
+        const draw = drawRef.current as any;
+        const analyses = ids
+          .map((id) => ({ id, feature: draw?.get?.(id) }))
+          .filter(({ feature }) => feature?.geometry?.type === 'Polygon')
+          .map(({ id, feature }) => analyzePolygon(id, feature));
+        await Promise.allSettled(analyses);
+        await new Promise(r => setTimeout(r, 0));
+        onAnalysisComplete?.(Array.from(polygonResultsRef.current.values()));
+      } finally {
+        suspendAutoAnalysisRef.current = false;
+        suppressFlightLineEventsRef.current = false;
+      }
+      // A loaded project starts with a fresh history
+      historyRef.current = EMPTY_HISTORY;
+      committedAreasRef.current = takeAreaSnapshots();
+      onHistoryChanged?.();
+      onFlightLinesUpdated?.('__all__');
+    }, [addRingAsDrawFeature, analyzePolygon, clearAllDrawings, fitMapToRings, onAnalysisComplete, onFlightLinesUpdated, onHistoryChanged, takeAreaSnapshots]);
+
 	    React.useImperativeHandle(ref, () => ({
       clearAllDrawings: () => {
-        setProcessingPolygonIds([]);
-        if (drawRef.current) drawRef.current.deleteAll();
-        if (deckOverlayRef.current) {
-          setDeckLayers([]);
-          deckOverlayRef.current.setProps({ layers: [] });
-        }
-        if (mapRef.current) {
-          clearAllFlightLines(mapRef.current);
-          clearAllTriggerPoints(mapRef.current);
-        }
-        setPolygonResults(new Map());
-        polygonResultsRef.current = new Map();
-        setPolygonTiles(new Map());
-        polygonTilesRef.current = new Map();
-        setPolygonFlightLines(new Map());
-        polygonFlightLinesRef.current = new Map();
-        setPolygonParams(new Map());
-        polygonParamsRef.current = new Map();
-        setBearingOverrides(new Map());
-        bearingOverridesRef.current = new Map();
-        setImportedOriginals(new Map());
-        importedOriginalsRef.current = new Map();
-        setPendingParamPolygons([]);
-        pendingProgrammaticDeletesRef.current.clear();
-        suppressSelectionDialogUntilRef.current = 0;
-
-        cancelAllAnalyses();
-        onClearGSD?.();
-        onPolygonSelected?.(null);
-        // Notify parent that results are cleared
-        onAnalysisComplete?.([]);
+        clearAllDrawings();
+        recordHistoryCheckpoint('Clear all areas');
       },
       clearPolygon: (polygonId: string) => {
         if (processingPolygonIdsRef.current.has(polygonId)) {
@@ -2021,15 +3059,25 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
           return;
         }
         deletePolygonFeature(polygonId);
+        recordHistoryCheckpoint('Delete area');
       },
       editPolygonBoundary,
       setProcessingPolygonIds,
-      autoSplitPolygonByTerrain,
+      autoSplitPolygonByTerrain: (polygonId: string, opts?: Parameters<typeof autoSplitPolygonByTerrain>[1]) =>
+        withHistory('Split area by terrain', () => autoSplitPolygonByTerrain(polygonId, opts)),
       getTerrainPartitionSolutions,
-      applyTerrainPartitionSolution,
+      applyTerrainPartitionSolution: (polygonId: string, signature: string) =>
+        withHistory('Apply terrain partition', () => applyTerrainPartitionSolution(polygonId, signature)),
       startPolygonDrawing: () => {
+        holeTargetRef.current = null;
+        corridorDrawWidthRef.current = null;
         if (drawRef.current) (drawRef.current as any).changeMode('draw_polygon');
       },
+      startHoleDrawing,
+      clearPolygonHoles,
+      startCorridorDrawing,
+      getCorridor,
+      setCorridorWidth,
       getPolygonResults: () => Array.from(polygonResultsRef.current.values()),
       getMap: () => mapRef.current,
       getPolygons: (): [number,number][][] => {
@@ -2044,17 +3092,17 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
         }
         return rings;
       },
-      getPolygonsWithIds: (): { id?: string; ring: [number, number][] }[] => {
+      getPolygonsWithIds: (): PolygonWithId[] => {
         const draw = drawRef.current;
         if (!draw) return [];
         const coll = draw.getAll();
-        const polygonsWithIds: { id?: string; ring: [number, number][] }[] = [];
+        const polygonsWithIds: PolygonWithId[] = [];
         for (const f of coll.features) {
           if (f.geometry?.type === "Polygon" && Array.isArray(f.geometry.coordinates?.[0])) {
-            polygonsWithIds.push({
-              id: f.id as string | undefined,
-              ring: f.geometry.coordinates[0] as [number, number][]
-            });
+            const [ring, ...holes] = f.geometry.coordinates as [number, number][][];
+            polygonsWithIds.push(holes.length > 0
+              ? { id: f.id as string | undefined, ring, holes }
+              : { id: f.id as string | undefined, ring });
           }
         }
         return polygonsWithIds;
@@ -2067,83 +3115,167 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
       removeCameraPoints: (polygonId: string) => {
         if (deckOverlayRef.current) remove3DCameraPointsLayer(deckOverlayRef.current, polygonId, setDeckLayers);
       },
-      applyPolygonParams,
-      applyPolygonParamsBatch,
+      applyPolygonParams: (polygonId: string, params: PolygonParams) => {
+        applyPolygonParams(polygonId, params);
+        recordHistoryCheckpoint('Change area parameters');
+      },
+      applyPolygonParamsBatch: (updates: Array<{ polygonId: string; params: PolygonParams }>) => {
+        applyPolygonParamsBatch(updates);
+        recordHistoryCheckpoint('Change area parameters');
+      },
       // expose bulk apply helper
-      applyParamsToAllPending,
+      applyParamsToAllPending: (params: PolygonParams) => {
+        applyParamsToAllPending(params);
+        recordHistoryCheckpoint('Apply parameters to all areas');
+      },
       getPerPolygonParams: () => Object.fromEntries(polygonParamsRef.current),
       // Altitude strategy and clearance controls
-      setAltitudeMode: (m: 'legacy' | 'min-clearance') => setAltitudeMode(m),
+      setAltitudeMode: (m: AltitudeMode) => setAltitudeMode(m),
       getAltitudeMode: () => altitudeMode,
       setMinClearance: (m: number) => setMinClearanceM(Math.max(0, m)),
       getMinClearance: () => minClearanceM,
+      setMaxTerrainGradient: (pct: number) => setMaxTerrainGradientPct(Math.max(1, pct)),
+      getMaxTerrainGradient: () => maxTerrainGradientPct,
       setTurnExtend: (m: number) => setTurnExtendM(Math.max(0, m)),
       getTurnExtend: () => turnExtendM,
+      setAircraftKey: (key: string) => setAircraftKey(getAircraftModel(key).key),
+      getAircraftKey: () => aircraftKey,
+      setWind: (w: WindVector) => setWind(sanitizeWind(w)),
+      getWind: () => wind,
+      getFlightPath3D,
 
       openKmlFilePicker: () => {
         kmlInputRef.current?.click();
       },
-      importKmlFromText,
+      importKmlFromText: (kml: string) => withHistory('Import KML', () => importKmlFromText(kml)),
+
+      openGisFilePicker: () => {
+        gisInputRef.current?.click();
+      },
+      importGeoJsonFromText: (text: string) => withHistory('Import GIS areas', async () => importGisAreas(areasFromGeoJSON(text), 'geojson')),
+      getGisExportAreas,
+      addFillInAreas: (areas: GisArea[]) => withHistory('Add gap fill-in areas', async () => importGisAreas(areas, 'coverage-gap')),
 
       openFlightplanFilePicker: () => {
         flightplanInputRef.current?.click();
       },
-      importWingtraFromText,
+      importWingtraFromText: (json: string) => withHistory('Import flight plan', () => importWingtraFromText(json)),
 
-      optimizePolygonDirection,
-      revertPolygonToImportedDirection,
+      optimizePolygonDirection: (polygonId: string) => {
+        optimizePolygonDirection(polygonId);
+        recordHistoryCheckpoint('Use terrain-optimal direction');
+      },
+      revertPolygonToImportedDirection: (polygonId: string) => {
+        revertPolygonToImportedDirection(polygonId);
+        recordHistoryCheckpoint('Revert to file direction');
+      },
       runFullAnalysis,
 
 	      getBearingOverrides: () => Object.fromEntries(bearingOverridesRef.current),
 	      getImportedOriginals: () => Object.fromEntries(importedOriginalsRef.current),
 	      getLastImportedFlightplanName: () => lastImportedFlightplanNameRef.current,
 	      exportWingtraFlightPlan: () => {
-        // Build area list from current state
-        const polys: Array<{ ring:[number,number][]; params: PolygonParams; bearingDeg:number; lineSpacingM?:number; triggerDistanceM?:number }> = [];
-        polygonParams.forEach((params, pid) => {
+        // Build area list from current state, in the mission route's visiting order when there is one
+        const polys: Array<{ ring:[number,number][]; params: PolygonParams; bearingDeg:number; lineSpacingM?:number; triggerDistanceM?:number; corridor?: CorridorSpec }> = [];
+        const visitOrder = new Map((missionRoute?.visits ?? []).map((visit, index) => [visit.polygonId, index]));
+        const polygonIds = Array.from(polygonParams.keys())
+          .sort((a, b) => (visitOrder.get(a) ?? Infinity) - (visitOrder.get(b) ?? Infinity));
+        polygonIds.forEach((pid) => {
+          const params = polygonParams.get(pid)!;
           const res = polygonResults.get(pid);
-          const collection = drawRef.current?.getAll();
-          const feature = collection?.features.find(f=>f.id===pid && f.geometry?.type==='Polygon');
-          const ring = res?.polygon.coordinates || (feature?.geometry as any)?.coordinates?.[0];
+          const ring = getPolygonRing(pid);
           if (!ring) return;
           const override = bearingOverrides.get(pid);
-          const bearingDeg = override ? override.bearingDeg : (res?.result.contourDirDeg ?? 0);
-          const lineSpacingM = override?.lineSpacingM || (polygonFlightLines.get(pid)?.lineSpacing);
-          polys.push({ ring: ring as any, params, bearingDeg, lineSpacingM, triggerDistanceM: params.triggerDistanceM });
+          const fl = polygonFlightLines.get(pid);
+          const lineSpacingM = override?.lineSpacingM || fl?.lineSpacing;
+          let bearingDeg = override ? override.bearingDeg : (res?.result.contourDirDeg ?? 0);
+          // The item has no entry side, so the grid angle carries the direction the route flies its first sweep
+          const visit = routeVisitsRef.current.get(pid);
+          const firstLine = visit && fl ? orientAreaLines(fl.flightLines as [number, number][][], visit, fl.lineSpacing)[0] : undefined;
+          if (firstLine && firstLine.length >= 2 && (visit!.reverseFirstLine || visit!.reverseLineOrder)) {
+            bearingDeg = bearing(firstLine[0], firstLine[firstLine.length - 1]);
+          }
+          // Corridors export as corridor items, so their lines follow the centerline
+          const corridor = corridorFromFeature((drawRef.current as any)?.get?.(pid)) ?? undefined;
+          // Area items cannot hold holes: areas with holes export as pieces that open each hole onto a cut
+          const pieces = corridor ? [ring] : splitRingAroundHoles(ring, getPolygonHoles(pid), bearingDeg);
+          for (const piece of pieces) {
+            polys.push({ ring: piece, params, bearingDeg, lineSpacingM, triggerDistanceM: params.triggerDistanceM, corridor });
+          }
+        });
+        return buildWingtraFlightPlanJson(areasFromState(polys));
+      },
+      exportWingtraFlightPlansPerFlight: () => {
+        // One .flightplan per planned flight; each area item is the band of the polygon its lines cover
+        return plannedFlights.map((flight) => {
+          const polys: Array<{ ring:[number,number][]; params: PolygonParams; bearingDeg:number; lineSpacingM?:number; triggerDistanceM?:number; corridor?: CorridorSpec }> = [];
+          let lineCursor = 0;
+          for (const segment of flight.segments) {
+            // Segments hold their lines in flown order, so the grid angle follows the first one flown
+            const firstLine = flight.lines[lineCursor];
+            lineCursor += segment.lineEnd - segment.lineStart;
+            const areaParams = polygonParams.get(segment.polygonId);
+            if (!areaParams) continue;
+            // A segment holds the lines of a single pass, so it exports as one grid at that pass's bearing
+            const params: PolygonParams = { ...areaParams, pattern: 'grid' };
+            const override = bearingOverrides.get(segment.polygonId);
+            const lineSpacingM = override?.lineSpacingM || (polygonFlightLines.get(segment.polygonId)?.lineSpacing);
+            const bearingDeg = firstLine && firstLine.length >= 2
+              ? bearing(firstLine[0], firstLine[firstLine.length - 1])
+              : segment.bearingDeg;
+            // Corridor segments export the strip of the corridor their lines fly
+            for (const ring of segment.rings) {
+              polys.push({ ring, params, bearingDeg, lineSpacingM, triggerDistanceM: params.triggerDistanceM, corridor: segment.corridor });
+            }
+          }
+          return { flightIndex: flight.index, ...buildWingtraFlightPlanJson(areasFromState(polys)) };
         });
-        const areas = areasFromState(polys);
-        const payloadKind = areas[0]?.payloadKind ?? 'camera';
-        let fp;
-        if (lastImportedFlightplan) {
-          // Deep clone original
-            fp = JSON.parse(JSON.stringify(lastImportedFlightplan));
-          // Replace flightPlan.items only (preserve metadata/stats; some tools may recalc them)
-          fp.flightPlan.items = exportToWingtraFlightPlan(areas, { payloadKind }).flightPlan.items;
-          // Optionally update payload fields if camera changed (skipped for now)
-          // Reset derived stats that may be stale
-          fp.flightPlan.numberOfImages = 0;
-          fp.flightPlan.totalArea = 0;
-          fp.flightPlan.activeTotalArea = 0;
-          fp.flightPlan.activeNumberOfImages = 0;
-          fp.flightPlan.flownPercentage = 0;
-          fp.flightPlan.resumeMissionIndex = 0;
-          fp.flightPlan.resumeGridPointIndex = -1;
-          fp.flightPlan.lastModifiedTime = Date.now();
-        } else {
-          fp = exportToWingtraFlightPlan(areas, { payloadKind });
-        }
-        const json = JSON.stringify(fp, null, 2);
-        const blob = new Blob([json], { type: 'application/json' });
-        return { json, blob };
       },
+
+      // Multi-flight split
+      setHomePoint: (point: [number, number] | null) => setHomePoint(point),
+      getHomePoint: () => homePoint,
+      setMaxFlightTime: (minutes: number) => { if (Number.isFinite(minutes)) setMaxFlightMinutes(Math.max(1, minutes)); },
+      getMaxFlightTime: () => maxFlightMinutes,
+      getPlannedFlights: () => plannedFlights,
+      setTransitClearance: (m: number) => setTransitClearanceM(Math.max(0, m)),
+      getTransitClearance: () => transitClearanceM,
+      getMissionRoute: () => missionRoute,
+
+      // Restricted airspace
+      openAirspaceFilePicker: () => {
+        airspaceInputRef.current?.click();
+      },
+      importAirspaceFromText,
+      getAirspaceZones: () => airspaceZones,
+      clearAirspaceZones: () => setAirspaceZones([]),
+      setAvoidAirspace: (enabled: boolean) => setAvoidAirspace(enabled),
+      getAvoidAirspace: () => avoidAirspace,
+      getAirspaceViolations: () => airspaceViolations,
+
+      // Projects
+      getProjectState,
+      loadProjectState,
+
+      // Undo / redo
+      getHistory: () => historyRef.current,
+      undo,
+      redo,
+      goToHistoryEntry,
     }), [
       polygonResults, polygonFlightLines, polygonTiles, polygonParams,
-      cancelAllAnalyses, applyPolygonParams, applyPolygonParamsBatch, cleanupPolygonState, deletePolygonFeature, editPolygonBoundary, setProcessingPolygonIds, autoSplitPolygonByTerrain,
+      cancelAllAnalyses, applyPolygonParams, applyPolygonParamsBatch, cleanupPolygonState, deletePolygonFeature, editPolygonBoundary, startHoleDrawing, clearPolygonHoles, startCorridorDrawing, getCorridor, setCorridorWidth, setProcessingPolygonIds, autoSplitPolygonByTerrain,
       getTerrainPartitionSolutions, applyTerrainPartitionSolution,
       bearingOverrides, importedOriginals,
-      importKmlFromText, importWingtraFromText,
+      importKmlFromText, importGisAreas, getGisExportAreas, importWingtraFromText,
       optimizePolygonDirection, revertPolygonToImportedDirection, runFullAnalysis,
-      lastImportedFlightplan
+      lastImportedFlightplan,
+      altitudeMode, minClearanceM, turnExtendM, maxTerrainGradientPct, aircraftKey, wind, getFlightPath3D,
+      getPolygonRing, getPolygonHoles, buildWingtraFlightPlanJson, plannedFlights, homePoint, maxFlightMinutes,
+      transitClearanceM, missionRoute,
+      importAirspaceFromText, airspaceZones, avoidAirspace, airspaceViolations,
+      clearAllDrawings, getProjectState, loadProjectState,
+      recordHistoryCheckpoint, withHistory, undo, redo, goToHistoryEntry
     ]);
 
     React.useEffect(() => () => {
@@ -2164,6 +3296,22 @@ export const MapFlightDirection = React.forwardRef<MapFlightDirectionAPI, Props>
           onChange={handleKmlFileChange}
           style={{ display: 'none' }}
         />
+        <input
+          ref={airspaceInputRef}
+          type="file"
+          accept=".kml,.kmz,.geojson,.json,application/geo+json,application/json,application/vnd.google-earth.kml+xml"
+          multiple
+          onChange={handleAirspaceFileChange}
+          style={{ display: 'none' }}
+        />
+        <input
+          ref={gisInputRef}
+          type="file"
+          accept=".geojson,.json,.zip,.shp,.dbf,.prj,application/geo+json,application/zip"
+          multiple
+          onChange={handleGisFileChange}
+          style={{ display: 'none' }}
+        />
         <input
           ref={flightplanInputRef}
           type="file"
@@ -14,7 +14,8 @@ import {
 } from '@/utils/terrainAspectHybrid';
 // Add EGM96 conversion for proper vertical datum handling
 import * as egm96 from 'egm96-universal';
-import type { CameraModel } from '@/domain/types';
+import type { AltitudeMode, CameraModel, LngLat } from '@/domain/types';
+import { orientAreaLines, type RouteAreaVisit } from '@/planning/route';
 
 /**
  * Convert elevation from EGM96 geoid (Mapbox terrain) to WGS84 ellipsoid
@@ -126,65 +127,6 @@ export function haversineDistance(coords1: [number, number], coords2: [number, n
   return R * c;
 }
 
-function midpoint2D(line: number[][]): [number, number] {
-  const first = line[0] as [number, number];
-  const last = line[line.length - 1] as [number, number];
-  return [
-    (first[0] + last[0]) * 0.5,
-    (first[1] + last[1]) * 0.5,
-  ];
-}
-
-function axialBearingDeltaDeg(a: number, b: number): number {
-  const diff = ((a - b + 540) % 360) - 180;
-  return Math.abs(Math.abs(diff) > 90 ? 180 - Math.abs(diff) : diff);
-}
-
-function projectedOffsetMeters(
-  from: [number, number],
-  to: [number, number],
-  bearingDeg: number,
-): { alongTrackM: number; crossTrackM: number } {
-  const avgLatRad = ((from[1] + to[1]) * 0.5 * Math.PI) / 180;
-  const eastM = (to[0] - from[0]) * 111_320 * Math.cos(avgLatRad);
-  const northM = (to[1] - from[1]) * 110_540;
-  const bearingRad = (bearingDeg * Math.PI) / 180;
-  const alongX = Math.sin(bearingRad);
-  const alongY = Math.cos(bearingRad);
-  const crossX = Math.sin(bearingRad + Math.PI / 2);
-  const crossY = Math.cos(bearingRad + Math.PI / 2);
-  return {
-    alongTrackM: eastM * alongX + northM * alongY,
-    crossTrackM: eastM * crossX + northM * crossY,
-  };
-}
-
-function isSameSweepLine(
-  previousLine: number[][],
-  currentLine: number[][],
-  lineSpacing: number,
-): boolean {
-  if (previousLine.length < 2 || currentLine.length < 2) return false;
-
-  const previousBearing = geoBearing(
-    previousLine[0] as [number, number],
-    previousLine[previousLine.length - 1] as [number, number],
-  );
-  const currentBearing = geoBearing(
-    currentLine[0] as [number, number],
-    currentLine[currentLine.length - 1] as [number, number],
-  );
-  if (axialBearingDeltaDeg(previousBearing, currentBearing) > 10) {
-    return false;
-  }
-
-  const previousMidpoint = midpoint2D(previousLine);
-  const currentMidpoint = midpoint2D(currentLine);
-  const { alongTrackM, crossTrackM } = projectedOffsetMeters(previousMidpoint, currentMidpoint, previousBearing);
-
-  return Math.abs(crossTrackM) <= Math.max(6, lineSpacing * 0.25) && Math.abs(alongTrackM) > 2;
-}
-
 export function getPolygonBounds(ring: number[][]) {
   let minLng = Infinity,
     minLat = Infinity,
@@ -322,66 +264,228 @@ function buildFillet(
   return points;
 }
 
+/** Nominal along-track terrain sampling step for terrain-following profiles (meters). */
+const TERRAIN_FOLLOW_SAMPLE_STEP_M = 10;
+/** Upper bound on terrain samples per sweep; long lines get a coarser step instead. */
+const TERRAIN_FOLLOW_MAX_SAMPLES = 600;
+/** Profile vertices closer than this (vertically) to the straight chord are dropped. */
+const TERRAIN_FOLLOW_SIMPLIFY_TOLERANCE_M = 0.5;
+/** Default max climb/descent gradient (percent rise over run) in terrain-following mode. */
+export const DEFAULT_MAX_TERRAIN_GRADIENT_PCT = 15;
+
+/**
+ * Densify a polyline to roughly `stepM` spacing, returning points and their cumulative
+ * along-track distance. Original vertices are always kept.
+ */
+function densifyPolyline(
+  line: [number, number][],
+  stepM: number
+): { points: [number, number][]; distances: number[] } {
+  const points: [number, number][] = [];
+  const distances: number[] = [];
+  if (line.length === 0) return { points, distances };
+
+  points.push(line[0]);
+  distances.push(0);
+  let travelled = 0;
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = line[i];
+    const b = line[i + 1];
+    const segLen = haversineDistance(a, b);
+    if (!(segLen > 0)) continue;
+    const n = Math.max(1, Math.ceil(segLen / stepM));
+    for (let s = 1; s <= n; s++) {
+      const t = s / n;
+      points.push([a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])]);
+      distances.push(travelled + t * segLen);
+    }
+    travelled += segLen;
+  }
+  return { points, distances };
+}
+
+/**
+ * Drop profile vertices whose altitude is within `toleranceM` of the straight chord
+ * between their neighbours (Douglas–Peucker on the along-track/altitude profile).
+ */
+function simplifyAltitudeProfile(
+  points: [number, number, number][],
+  distances: number[],
+  toleranceM: number
+): [number, number, number][] {
+  if (points.length <= 2) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [i0, i1] = stack.pop()!;
+    const span = distances[i1] - distances[i0];
+    let worst = -1;
+    let worstErr = toleranceM;
+    for (let k = i0 + 1; k < i1; k++) {
+      const t = span > 0 ? (distances[k] - distances[i0]) / span : 0;
+      const chordAlt = points[i0][2] + t * (points[i1][2] - points[i0][2]);
+      const err = Math.abs(points[k][2] - chordAlt);
+      if (err > worstErr) {
+        worstErr = err;
+        worst = k;
+      }
+    }
+    if (worst > 0) {
+      keep[worst] = 1;
+      stack.push([i0, worst], [worst, i1]);
+    }
+  }
+  return points.filter((_, k) => keep[k] === 1);
+}
+
+/**
+ * Build a terrain-following profile for a single sweep line (already in flight order).
+ *
+ * Terrain is sampled densely along the line and its turn run-outs, each sample targets
+ * terrain + AGL (WGS84), and the profile is then lifted — never lowered — so that no
+ * climb or descent exceeds `maxGradient` (rise over run). The run-outs take part in the
+ * smoothing so the aircraft starts climbing before a ridge at the area edge, but only the
+ * in-area part of the profile is returned.
+ */
+export function buildTerrainFollowingProfile(
+  line: [number, number][],
+  tiles: TerrainTile[],
+  altitudeAGL: number,
+  maxGradient: number,
+  runoutM: number = 0
+): [number, number, number][] {
+  if (line.length < 2) {
+    return line.map(([lng, lat]) => {
+      const elev = queryElevationAtPoint(lng, lat, tiles);
+      const ground = Number.isFinite(elev) ? convertElevationToWGS84(lat, lng, elev) : 0;
+      return [lng, lat, ground + altitudeAGL] as [number, number, number];
+    });
+  }
+
+  const extended = (runoutM > 0 ? extendFlightLineForTurnRunout(line, runoutM) : line) as [number, number][];
+  let totalLength = 0;
+  for (let i = 0; i < extended.length - 1; i++) totalLength += haversineDistance(extended[i], extended[i + 1]);
+  const stepM = Math.max(TERRAIN_FOLLOW_SAMPLE_STEP_M, totalLength / TERRAIN_FOLLOW_MAX_SAMPLES);
+  const { points, distances } = densifyPolyline(extended, stepM);
+  if (points.length < 2) return line.map(([lng, lat]) => [lng, lat, altitudeAGL] as [number, number, number]);
+
+  // Target altitude per sample; gaps in terrain coverage inherit the nearest known ground
+  const target = new Float64Array(points.length).fill(Number.NaN);
+  for (let k = 0; k < points.length; k++) {
+    const [lng, lat] = points[k];
+    const elev = queryElevationAtPoint(lng, lat, tiles);
+    if (Number.isFinite(elev)) target[k] = convertElevationToWGS84(lat, lng, elev) + altitudeAGL;
+  }
+  let lastKnown = Number.NaN;
+  for (let k = 0; k < target.length; k++) {
+    if (Number.isFinite(target[k])) lastKnown = target[k];
+    else target[k] = lastKnown;
+  }
+  lastKnown = Number.NaN;
+  for (let k = target.length - 1; k >= 0; k--) {
+    if (Number.isFinite(target[k])) lastKnown = target[k];
+    else target[k] = Number.isFinite(lastKnown) ? lastKnown : altitudeAGL;
+  }
+
+  // Forward pass limits descent, backward pass limits climb; together they give the lowest
+  // profile that stays at or above terrain + AGL with |gradient| <= maxGradient.
+  const g = Math.max(1e-3, maxGradient);
+  const alt = Float64Array.from(target);
+  for (let k = 1; k < alt.length; k++) {
+    alt[k] = Math.max(alt[k], alt[k - 1] - g * (distances[k] - distances[k - 1]));
+  }
+  for (let k = alt.length - 2; k >= 0; k--) {
+    alt[k] = Math.max(alt[k], alt[k + 1] - g * (distances[k + 1] - distances[k]));
+  }
+
+  // Keep only the in-area part (the run-outs are flown as part of the turn connectors)
+  const startD = runoutM > 0 ? haversineDistance(extended[0], extended[1]) : 0;
+  const endD = runoutM > 0
+    ? totalLength - haversineDistance(extended[extended.length - 2], extended[extended.length - 1])
+    : totalLength;
+  const profile: [number, number, number][] = [];
+  const profileD: number[] = [];
+  for (let k = 0; k < points.length; k++) {
+    if (distances[k] < startD - 1e-6 || distances[k] > endD + 1e-6) continue;
+    profile.push([points[k][0], points[k][1], alt[k]]);
+    profileD.push(distances[k]);
+  }
+  if (profile.length < 2) return line.map(([lng, lat]) => [lng, lat, alt[0]] as [number, number, number]);
+
+  return simplifyAltitudeProfile(profile, profileD, TERRAIN_FOLLOW_SIMPLIFY_TOLERANCE_M);
+}
+
 export function build3DFlightPath(
   lines: number[][][],
   tiles: TerrainTile[],
   lineSpacing: number,
-  opts: { altitudeAGL: number; mode?: 'legacy' | 'min-clearance'; minClearance?: number; turnExtendM?: number } | number = 100
+  opts: {
+    altitudeAGL: number;
+    mode?: AltitudeMode;
+    minClearance?: number;
+    turnExtendM?: number;
+    maxGradientPct?: number;
+    /** Order and direction to fly the sweeps in (the mission route's visit); defaults to line 0 forward. */
+    visit?: Pick<RouteAreaVisit, 'reverseLineOrder' | 'reverseFirstLine'>;
+  } | number = 100
 ): [number, number, number][][] {
   const path: [number, number, number][][] = [];
   const usingLegacySig = typeof opts === 'number';
   const altitudeAGL = usingLegacySig ? (opts as number) : (opts as any).altitudeAGL;
-  const mode: 'legacy' | 'min-clearance' = usingLegacySig ? 'legacy' : ((opts as any).mode ?? 'legacy');
+  const mode: AltitudeMode = usingLegacySig ? 'legacy' : ((opts as any).mode ?? 'legacy');
   const minClearance = usingLegacySig ? 60 : Math.max(0, (opts as any).minClearance ?? 60);
   const turnExtendM = usingLegacySig ? 0 : Math.max(0, (opts as any).turnExtendM ?? 0);
+  const maxGradientPct = usingLegacySig ? DEFAULT_MAX_TERRAIN_GRADIENT_PCT : Math.max(0.1, (opts as any).maxGradientPct ?? DEFAULT_MAX_TERRAIN_GRADIENT_PCT);
 
-  let directionForward = true;
-  let previousRawLine: number[][] | null = null;
-
-  lines.forEach((line, i) => {
-    const sameSweepAsPrevious = previousRawLine
-      ? isSameSweepLine(previousRawLine, line, lineSpacing)
-      : false;
-    if (i > 0 && !sameSweepAsPrevious) {
-      directionForward = !directionForward;
-    }
-
-    // Compute min/max along the sweep line
-    const { min: lineMinElev, max: lineMaxElev } = queryMinMaxElevationAlongPolylineWGS84(line as any, tiles, 20);
-    // Also consider the straight extensions beyond the ends (turnaround area)
-    let extendedMax = lineMaxElev;
-    if (!usingLegacySig && (opts as any).turnExtendM && (opts as any).turnExtendM > 0 && (line as any).length >= 2) {
-      const te = Math.max(0, (opts as any).turnExtendM as number);
-      const L0 = line[0] as [number,number];
-      const L1 = line[1] as [number,number];
-      const LN = line[line.length-1] as [number,number];
-      // Sweep bearing from first to second point
-      const sweepBrg = geoBearing([L0[0], L0[1]], [L1[0], L1[1]]);
-      const startExt = geoDestination([L0[0], L0[1]], (sweepBrg + 180) % 360, te);
-      const endExt = geoDestination([LN[0], LN[1]], sweepBrg, te);
-      const startMax = queryMaxElevationAlongLineWGS84(startExt[0], startExt[1], L0[0], L0[1], tiles, 20);
-      const endMax = queryMaxElevationAlongLineWGS84(LN[0], LN[1], endExt[0], endExt[1], tiles, 20);
-      if (Number.isFinite(startMax)) extendedMax = Math.max(extendedMax, startMax);
-      if (Number.isFinite(endMax)) extendedMax = Math.max(extendedMax, endMax);
-    }
+  const visit = usingLegacySig ? undefined : (opts as any).visit;
+  // Sweeps alternate direction; the pieces of a sweep split by a hole are flown in turn
+  const flownLines = orientAreaLines(lines as LngLat[][], visit ?? { reverseLineOrder: false, reverseFirstLine: false }, lineSpacing);
 
-    // Determine sweep altitude per selected mode
-    let flightAltitude: number;
-    if (mode === 'legacy') {
-      // Old behavior: highest point + altitudeAGL
-      const refElev = Number.isFinite(extendedMax) ? extendedMax : 0;
-      flightAltitude = refElev + altitudeAGL;
+  flownLines.forEach((line, i) => {
+    let coords: [number, number, number][];
+    if (mode === 'terrain-following') {
+      // Per-vertex altitudes: terrain + AGL, smoothed to the max climb/descent gradient
+      coords = buildTerrainFollowingProfile(line, tiles, altitudeAGL, maxGradientPct / 100, turnExtendM);
     } else {
-      // New behavior:
-      // - meet requested GSD by using lowest sampled terrain + AGL
-      // - enforce minimum ground clearance using highest sampled terrain
-      const a1 = Number.isFinite(lineMinElev) ? (lineMinElev + altitudeAGL) : altitudeAGL;
-      const a2 = Number.isFinite(extendedMax) ? (extendedMax + minClearance) : altitudeAGL;
-      flightAltitude = Math.max(a1, a2);
+      // Compute min/max along the sweep line
+      const { min: lineMinElev, max: lineMaxElev } = queryMinMaxElevationAlongPolylineWGS84(line as any, tiles, 20);
+      // Also consider the straight extensions beyond the ends (turnaround area)
+      let extendedMax = lineMaxElev;
+      if (!usingLegacySig && (opts as any).turnExtendM && (opts as any).turnExtendM > 0 && (line as any).length >= 2) {
+        const te = Math.max(0, (opts as any).turnExtendM as number);
+        const L0 = line[0] as [number,number];
+        const L1 = line[1] as [number,number];
+        const LN = line[line.length-1] as [number,number];
+        // Sweep bearing from first to second point
+        const sweepBrg = geoBearing([L0[0], L0[1]], [L1[0], L1[1]]);
+        const startExt = geoDestination([L0[0], L0[1]], (sweepBrg + 180) % 360, te);
+        const endExt = geoDestination([LN[0], LN[1]], sweepBrg, te);
+        const startMax = queryMaxElevationAlongLineWGS84(startExt[0], startExt[1], L0[0], L0[1], tiles, 20);
+        const endMax = queryMaxElevationAlongLineWGS84(LN[0], LN[1], endExt[0], endExt[1], tiles, 20);
+        if (Number.isFinite(startMax)) extendedMax = Math.max(extendedMax, startMax);
+        if (Number.isFinite(endMax)) extendedMax = Math.max(extendedMax, endMax);
+      }
+
+      // Determine sweep altitude per selected mode
+      let flightAltitude: number;
+      if (mode === 'legacy') {
+        // Old behavior: highest point + altitudeAGL
+        const refElev = Number.isFinite(extendedMax) ? extendedMax : 0;
+        flightAltitude = refElev + altitudeAGL;
+      } else {
+        // New behavior:
+        // - meet requested GSD by using lowest sampled terrain + AGL
+        // - enforce minimum ground clearance using highest sampled terrain
+        const a1 = Number.isFinite(lineMinElev) ? (lineMinElev + altitudeAGL) : altitudeAGL;
+        const a2 = Number.isFinite(extendedMax) ? (extendedMax + minClearance) : altitudeAGL;
+        flightAltitude = Math.max(a1, a2);
+      }
+      coords = line.map(
+        ([lng, lat]) => [lng, lat, flightAltitude] as [number, number, number]
+      );
     }
-    const coords = (directionForward ? line : [...line].reverse()).map(
-      ([lng, lat]) => [lng, lat, flightAltitude] as [number, number, number]
-    );
 
     if (i > 0 && path.length > 0) {
       const lastSeg = path[path.length - 1];
@@ -416,22 +520,34 @@ export function build3DFlightPath(
           if (needed && fillet[0][2] < needed) {
             fillet = fillet.map(p => [p[0], p[1], needed] as [number, number, number]);
           }
+        } else if (mode === 'terrain-following') {
+          // Sweep ends sit at different heights; only lift the parts of the ramp that dip below clearance
+          const fillet2D = fillet.map(p => [p[0], p[1]] as [number, number]);
+          const { max: connMaxElev } = queryMinMaxElevationAlongPolylineWGS84(fillet2D, tiles, 12);
+          const needed = Number.isFinite(connMaxElev) ? (connMaxElev + minClearance) : undefined;
+          if (needed) {
+            fillet = fillet.map(p => [p[0], p[1], Math.max(p[2], needed)] as [number, number, number]);
+          }
         }
         // Keep every inter-line transition as a single connector polyline so
         // downstream trigger sampling can reliably skip all turns/connectors.
+        // Terrain-following keeps the lifted fillet ends; the fixed-altitude modes leave the
+        // sweep straight at sweep altitude out to the run-out points as before
         const connector = turnExtendM > 0
-          ? [
-              P0,
-              startForFillet,
-              ...fillet.slice(1, -1),
-              endForFillet,
-              P2,
-            ]
+          ? mode === 'terrain-following'
+            ? [P0, ...fillet, P2]
+            : [
+                P0,
+                startForFillet,
+                ...fillet.slice(1, -1),
+                endForFillet,
+                P2,
+              ]
           : fillet;
         path.push(connector);
       } else {
         let connectorAltitude = Math.max(P0[2], P2[2]);
-        if (mode === 'min-clearance') {
+        if (mode !== 'legacy') {
           const { max: connMaxElev } = queryMinMaxElevationAlongPolylineWGS84([[P0[0], P0[1]],[P2[0], P2[1]]], tiles, 12);
           const needed = Number.isFinite(connMaxElev) ? (connMaxElev + minClearance) : undefined;
           if (needed && connectorAltitude < needed) connectorAltitude = needed;
@@ -451,24 +567,34 @@ export function build3DFlightPath(
       }
     }
     path.push(coords);
-    previousRawLine = line;
   });
   return path;
 }
 
+/** Sampled camera pose: position, flight bearing and the camera tilt as omega/phi (degrees). */
+export type CameraPosition = [lng: number, lat: number, altitude: number, yawDeg: number, omegaDeg: number, phiDeg: number];
+
 /**
  * Sample camera positions along 3D flight path at specified intervals
  * @param path3D The 3D flight path segments
  * @param photoSpacingMeters Distance between photos in meters
- * @returns Array of camera positions with yaw [lng, lat, altitude, yawDeg]
+ * @param opts.cameraPitchDeg Tilt off nadir towards the flight direction (oblique patterns)
+ * @param opts.cameraYawOffsetDeg Camera rotation about Z (0 or 90) the tilt is expressed in
+ * @returns Array of camera positions [lng, lat, altitude, yawDeg, omegaDeg, phiDeg]
  */
 export function sampleCameraPositionsOnFlightPath(
   path3D: [number, number, number][][],
   photoSpacingMeters: number,
-  opts?: { includeTurns?: boolean }
-): [number, number, number, number][] {
-  const cameraPositions: [number, number, number, number][] = [];
+  opts?: { includeTurns?: boolean; cameraPitchDeg?: number; cameraYawOffsetDeg?: number }
+): CameraPosition[] {
+  const cameraPositions: CameraPosition[] = [];
   const includeTurns = !!opts?.includeTurns;
+  // The camera looks along -Z; omega tilts it towards image +y, phi towards image -x. Image +y
+  // is the flight direction unless the camera is yawed, so split the pitch accordingly.
+  const pitch = opts?.cameraPitchDeg ?? 0;
+  const yawOffsetRad = ((opts?.cameraYawOffsetDeg ?? 0) * Math.PI) / 180;
+  const omegaDeg = pitch * Math.cos(yawOffsetRad);
+  const phiDeg = -pitch * Math.sin(yawOffsetRad);
 
   for (let segIndex = 0; segIndex < path3D.length; segIndex++) {
     // Skip connector/turn segments by convention: fillets are inserted between straights,
@@ -483,7 +609,7 @@ export function sampleCameraPositionsOnFlightPath(
     // For the first point, calculate initial bearing from first to second point
     if (segment.length >= 2) {
       const initialBearing = geoBearing([segment[0][0], segment[0][1]], [segment[1][0], segment[1][1]]);
-      cameraPositions.push([segment[0][0], segment[0][1], segment[0][2], initialBearing]);
+      cameraPositions.push([segment[0][0], segment[0][1], segment[0][2], initialBearing, omegaDeg, phiDeg]);
     }
 
     for (let i = 1; i < segment.length; i++) {
@@ -512,7 +638,7 @@ export function sampleCameraPositionsOnFlightPath(
         const alt = prevPoint[2] + (currPoint[2] - prevPoint[2]) * interpolationRatio;
 
         // Use the bearing of this segment as the yaw (flight direction)
-        cameraPositions.push([lng, lat, alt, segmentBearing]);
+        cameraPositions.push([lng, lat, alt, segmentBearing, omegaDeg, phiDeg]);
         lastPhotoDistance = targetDistance;
       }
     }
@@ -525,7 +651,7 @@ export function sampleCameraPositionsOnFlightPath(
       const prevCam = cameraPositions[cameraPositions.length - 1];
       const tailGap = haversineDistance([prevCam[0], prevCam[1]], [end[0], end[1]]);
       if (tailGap > 0.25 * photoSpacingMeters) {
-        cameraPositions.push([end[0], end[1], end[2], endBearing]);
+        cameraPositions.push([end[0], end[1], end[2], endBearing, omegaDeg, phiDeg]);
       }
     }
   }
@@ -533,6 +659,37 @@ export function sampleCameraPositionsOnFlightPath(
   return cameraPositions;
 }
 
+/**
+ * Sensor height above ground (m) along the sweep lines of a 3D flight path, sampled every
+ * `stepMeters`; with `ring`, only samples inside the area count. GSD and lidar density
+ * scale with this height, so its distribution is what deliverable targets are checked against.
+ */
+export function sampleHeightsAboveGround(
+  path3D: [number, number, number][][],
+  tiles: TerrainTile[],
+  stepMeters: number,
+  ring?: [number, number][]
+): number[] {
+  const heights: number[] = [];
+  for (const [lng, lat, alt] of sampleCameraPositionsOnFlightPath(path3D, stepMeters, { includeTurns: false })) {
+    if (ring && !pointInRing(lng, lat, ring)) continue;
+    const ground = queryElevationAtPoint(lng, lat, tiles);
+    if (!Number.isFinite(ground)) continue;
+    heights.push(alt - convertElevationToWGS84(lat, lng, ground));
+  }
+  return heights;
+}
+
+function pointInRing(lng: number, lat: number, ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
 export function calculateOptimalTerrainZoom(polygon: { coordinates: number[][] }): number {
   const coords = polygon.coordinates;
   if (coords.length < 3) return 15;
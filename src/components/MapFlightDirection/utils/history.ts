@@ -0,0 +1,99 @@
+/***********************************************************************
+ * utils/history.ts
+ *
+ * Undo/redo history of planning edits. Each entry records the areas one
+ * action touched, before and after (null = the area did not exist), so
+ * undo and redo are the same restore applied in opposite directions.
+ *
+ * © 2025 <your-name>. MIT License.
+ ***********************************************************************/
+
+import type { ProjectPolygon } from '@/services/projectDocument';
+import type { BearingOverride } from '../api';
+import type { PolygonParams } from '../types';
+
+export interface AreaSnapshot {
+  polygon: ProjectPolygon;
+  params?: PolygonParams;
+  override?: BearingOverride;
+  original?: { bearingDeg: number; lineSpacingM: number };
+}
+
+/** Every area on the map, by polygon id. */
+export type AreaSnapshots = Record<string, AreaSnapshot>;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  before: Record<string, AreaSnapshot | null>;
+  after: Record<string, AreaSnapshot | null>;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];   // oldest first; the last entry is undone next
+  future: HistoryEntry[]; // next redo first
+  nextId: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [], nextId: 1 };
+
+/** Areas that differ between two snapshots, with their state on each side. */
+export function diffAreaSnapshots(
+  prev: AreaSnapshots,
+  next: AreaSnapshots,
+): Pick<HistoryEntry, 'before' | 'after'> | null {
+  const before: Record<string, AreaSnapshot | null> = {};
+  const after: Record<string, AreaSnapshot | null> = {};
+  let changed = false;
+  const ids = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  ids.forEach((id) => {
+    const a = prev[id] ?? null;
+    const b = next[id] ?? null;
+    if (JSON.stringify(a) === JSON.stringify(b)) return;
+    before[id] = a;
+    after[id] = b;
+    changed = true;
+  });
+  return changed ? { before, after } : null;
+}
+
+/** Add an entry for the change prev → next; a no-op change leaves the history untouched. */
+export function recordHistory(
+  history: HistoryState,
+  label: string,
+  prev: AreaSnapshots,
+  next: AreaSnapshots,
+  now: number = Date.now(),
+): HistoryState {
+  const diff = diffAreaSnapshots(prev, next);
+  if (!diff) return history;
+  const entry: HistoryEntry = { id: history.nextId, label, timestamp: now, ...diff };
+  return {
+    past: [...history.past, entry].slice(-MAX_HISTORY_ENTRIES),
+    future: [],
+    nextId: history.nextId + 1,
+  };
+}
+
+/** Step back: the returned entry's `before` is the state to restore. */
+export function undoHistory(history: HistoryState): { history: HistoryState; entry: HistoryEntry } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { ...history, past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    entry,
+  };
+}
+
+/** Step forward: the returned entry's `after` is the state to restore. */
+export function redoHistory(history: HistoryState): { history: HistoryState; entry: HistoryEntry } | null {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return {
+    history: { ...history, past: [...history.past, entry], future },
+    entry,
+  };
+}
@@ -9,6 +9,11 @@
 import { Map as MapboxMap } from 'mapbox-gl';
 import { getPolygonBounds, haversineDistance } from './geometry';
 import { destination as geoDestination } from '@/utils/terrainAspectHybrid';
+import { clipSweepLines } from '@/planning/clip';
+import { subtractZonesFromLines } from '@/planning/airspace';
+import { joinPasses, type FlightPass } from '@/planning/patterns';
+import { corridorBearing, generateCorridorLines } from '@/planning/corridor';
+import type { AirspaceZone, CorridorSpec } from '@/domain/types';
 
 function getLineColor(quality?: string) {
   switch (quality) {
@@ -216,112 +221,57 @@ export function animateProcessingPerimeter(map: MapboxMap, timestampMs: number)
   }
 }
 
+/**
+ * Flight lines for one grid, or for several passes when given a bearing per pass
+ * (see planning/patterns); the passes are concatenated in flying order. Corridor areas
+ * get lines parallel to their centerline instead, and the bearing is ignored.
+ */
 export function generateFlightLinesForPolygon(
   ring: number[][],
-  bearingDeg: number,
+  bearingDeg: number | number[],
   lineSpacingM: number,
-): { flightLines: number[][][]; lineSpacing: number; bounds: ReturnType<typeof getPolygonBounds> } {
+  holes: number[][][] = [],
+  avoidZones: AirspaceZone[] = [],
+  corridor?: CorridorSpec | null,
+): { flightLines: number[][][]; lineSpacing: number; bounds: ReturnType<typeof getPolygonBounds>; passes: FlightPass[] } {
   const bounds = getPolygonBounds(ring);
   const lineSpacing = lineSpacingM;
-  const flightLines: number[][][] = [];
-
-  const centerLat = (bounds.minLat + bounds.maxLat) / 2;
-  const centerLng = (bounds.minLng + bounds.maxLng) / 2;
-  const diagonal = haversineDistance([bounds.minLng, bounds.minLat], [bounds.maxLng, bounds.maxLat]);
-
-  const numLines = Math.ceil(diagonal / lineSpacing);
-  const perpBearing = (bearingDeg + 90) % 360;
-
-  // Create a polygon check function
-  const pointInPolygon = (lng: number, lat: number): boolean => {
-    let inside = false;
-    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
-      const [xi, yi] = ring[i];
-      const [xj, yj] = ring[j];
-      const intersect = ((yi > lat) !== (yj > lat)) &&
-        (lng < (xj - xi) * (lat - yi) / (yj - yi) + xi);
-      if (intersect) inside = !inside;
-    }
-    return inside;
-  };
-
-  const refineBoundaryPoint = (
-    outsidePoint: [number, number],
-    insidePoint: [number, number],
-  ): [number, number] => {
-    let lo = outsidePoint;
-    let hi = insidePoint;
-
-    for (let iter = 0; iter < 18; iter++) {
-      const mid: [number, number] = [
-        (lo[0] + hi[0]) * 0.5,
-        (lo[1] + hi[1]) * 0.5,
-      ];
-      if (pointInPolygon(mid[0], mid[1])) {
-        hi = mid;
-      } else {
-        lo = mid;
-      }
-    }
+  if (corridor) {
+    const lines = generateCorridorLines(corridor, lineSpacing);
+    const flightLines = avoidZones.length > 0 ? subtractZonesFromLines(lines, avoidZones) : lines;
+    return { flightLines, lineSpacing, bounds, passes: [{ bearingDeg: corridorBearing(corridor), lineStart: 0, lineEnd: flightLines.length }] };
+  }
+  const bearings = Array.isArray(bearingDeg) ? bearingDeg : [bearingDeg];
 
-    return hi;
-  };
+  const center: [number, number] = [(bounds.minLng + bounds.maxLng) / 2, (bounds.minLat + bounds.maxLat) / 2];
 
-  for (let i = -numLines; i <= numLines; i++) {
-    const distance = i * lineSpacing;
-    const [centerLineLng, centerLineLat] = geoDestination([centerLng, centerLat], perpBearing, distance);
-
-    // Create a longer line and then clip it to the polygon
-    const extendDistance = diagonal * 0.6; // Extend beyond polygon bounds
-    const p1 = geoDestination([centerLineLng, centerLineLat], bearingDeg, extendDistance);
-    const p2 = geoDestination([centerLineLng, centerLineLat], (bearingDeg + 180) % 360, extendDistance);
-
-    // Preserve every contiguous inside segment. This avoids dropping narrow
-    // intersections or incorrectly merging disjoint segments on concave polygons.
-    const sampleStepM = Math.max(5, Math.min(15, lineSpacing * 0.2));
-    const samples = Math.max(120, Math.min(1200, Math.ceil((extendDistance * 2) / sampleStepM)));
-
-    let previousPoint: [number, number] = [p2[0], p2[1]];
-    let previousInside = pointInPolygon(previousPoint[0], previousPoint[1]);
-    let currentSegmentStart: [number, number] | null = previousInside ? previousPoint : null;
-
-    for (let s = 1; s <= samples; s++) {
-      const t = s / samples;
-      const currentPoint: [number, number] = [
-        p2[0] + t * (p1[0] - p2[0]),
-        p2[1] + t * (p1[1] - p2[1]),
-      ];
-      const currentInside = pointInPolygon(currentPoint[0], currentPoint[1]);
-
-      if (currentInside && !previousInside) {
-        currentSegmentStart = refineBoundaryPoint(previousPoint, currentPoint);
-      } else if (!currentInside && previousInside && currentSegmentStart) {
-        const segmentEnd = refineBoundaryPoint(currentPoint, previousPoint);
-        flightLines.push([currentSegmentStart, segmentEnd]);
-        currentSegmentStart = null;
-      }
-
-      if (s === samples && currentInside && currentSegmentStart) {
-        flightLines.push([currentSegmentStart, currentPoint]);
-      }
-
-      previousPoint = currentPoint;
-      previousInside = currentInside;
+  // Exact clip: every contiguous inside segment is kept, so narrow intersections and
+  // disjoint pieces on concave polygons come out right. Holes split lines the same way.
+  const rings = [ring, ...holes] as [number, number][][];
+  const passLines = bearings.map((bearing) => {
+    const lines: [number, number][][] = [];
+    for (const line of clipSweepLines(rings, bearing, lineSpacing, { center })) {
+      lines.push(...line.segments);
     }
-  }
+    return avoidZones.length > 0 ? subtractZonesFromLines(lines, avoidZones) : lines;
+  });
+  const { flightLines, passes } = joinPasses(passLines, bearings);
 
-  return { flightLines, lineSpacing, bounds };
+  return { flightLines, lineSpacing, bounds, passes };
 }
 
 export function addFlightLinesForPolygon(
   map: MapboxMap,
   polygonId: string,
   ring: number[][],
-  bearingDeg: number,
+  bearingDeg: number | number[],
   lineSpacingM: number,
-  quality?: string
-): { flightLines: number[][][]; lineSpacing: number } {
-  const { flightLines, lineSpacing, bounds } = generateFlightLinesForPolygon(ring, bearingDeg, lineSpacingM);
+  quality?: string,
+  holes?: number[][][],
+  avoidZones?: AirspaceZone[],
+  corridor?: CorridorSpec | null
+): { flightLines: number[][][]; lineSpacing: number; passes: FlightPass[] } {
+  const { flightLines, lineSpacing, bounds, passes } = generateFlightLinesForPolygon(ring, bearingDeg, lineSpacingM, holes, avoidZones, corridor);
 
   const sourceId = `flight-lines-source-${polygonId}`;
   const layerId = `flight-lines-layer-${polygonId}`;
@@ -375,12 +325,12 @@ export function addFlightLinesForPolygon(
       const centerLng = (b.minLng + b.maxLng) / 2;
       const centerLat = (b.minLat + b.maxLat) / 2;
       console.warn(
-        `[flight-lines] No segments inside polygon for ${polygonId}. Debug: bearing=${bearingDeg.toFixed(2)}, spacing=${lineSpacing.toFixed(2)}m, center=(${centerLng.toFixed(5)},${centerLat.toFixed(5)}), bbox=lng[${b.minLng.toFixed(5)},${b.maxLng.toFixed(5)}], lat[${b.minLat.toFixed(5)},${b.maxLat.toFixed(5)}]`
+        `[flight-lines] No segments inside polygon for ${polygonId}. Debug: bearing=${passes.map((pass) => pass.bearingDeg.toFixed(2)).join('/')}, spacing=${lineSpacing.toFixed(2)}m, center=(${centerLng.toFixed(5)},${centerLat.toFixed(5)}), bbox=lng[${b.minLng.toFixed(5)},${b.maxLng.toFixed(5)}], lat[${b.minLat.toFixed(5)},${b.maxLat.toFixed(5)}]`
       );
     } catch {}
   }
 
-  return { flightLines, lineSpacing };
+  return { flightLines, lineSpacing, passes };
 }
 
 export function removeFlightLinesForPolygon(map: MapboxMap, polygonId: string) {
@@ -534,3 +484,199 @@ export function clearAllTriggerPoints(map: MapboxMap) {
     }
   }
 }
+
+// -------------------------------------------------------------------
+// Multi-flight split (lines colored per flight) and transit route
+// -------------------------------------------------------------------
+
+const FLIGHT_SPLIT_SOURCE_ID = 'flight-split-source';
+const FLIGHT_SPLIT_LINE_LAYER_ID = 'flight-split-lines';
+const MISSION_ROUTE_SOURCE_ID = 'mission-route-source';
+const MISSION_ROUTE_LAYER_ID = 'mission-route-transit';
+const AIRSPACE_SOURCE_ID = 'airspace-zones-source';
+const AIRSPACE_FILL_LAYER_ID = 'airspace-zones-fill';
+const AIRSPACE_OUTLINE_LAYER_ID = 'airspace-zones-outline';
+const AIRSPACE_VIOLATION_SOURCE_ID = 'airspace-violations-source';
+const AIRSPACE_VIOLATION_LAYER_ID = 'airspace-violations';
+
+export const FLIGHT_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+export function flightColor(index: number) {
+  return FLIGHT_COLORS[index % FLIGHT_COLORS.length];
+}
+
+export function setFlightSplitLayer(
+  map: MapboxMap,
+  flights: Array<{ index: number; lines: [number, number][][] }>,
+) {
+  const features: any[] = [];
+  for (const flight of flights) {
+    for (const line of flight.lines) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: line },
+        properties: { color: flightColor(flight.index), flightIndex: flight.index },
+      });
+    }
+  }
+  const data = { type: 'FeatureCollection', features };
+
+  if (map.getSource(FLIGHT_SPLIT_SOURCE_ID)) {
+    (map.getSource(FLIGHT_SPLIT_SOURCE_ID) as any).setData(data);
+  } else {
+    map.addSource(FLIGHT_SPLIT_SOURCE_ID, { type: 'geojson', data } as any);
+  }
+
+  if (!map.getLayer(FLIGHT_SPLIT_LINE_LAYER_ID)) {
+    map.addLayer({
+      id: FLIGHT_SPLIT_LINE_LAYER_ID,
+      type: 'line',
+      source: FLIGHT_SPLIT_SOURCE_ID,
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round',
+      },
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': 2,
+        'line-opacity': 0.9,
+      },
+    }, getDrawLayerAnchor(map));
+  }
+}
+
+export function clearFlightSplitLayer(map: MapboxMap) {
+  try { if (map.getLayer(FLIGHT_SPLIT_LINE_LAYER_ID)) map.removeLayer(FLIGHT_SPLIT_LINE_LAYER_ID); } catch {}
+  try { if (map.getSource(FLIGHT_SPLIT_SOURCE_ID)) map.removeSource(FLIGHT_SPLIT_SOURCE_ID); } catch {}
+}
+
+export function setMissionRouteLayer(map: MapboxMap, legs: [number, number][][]) {
+  const data = {
+    type: 'FeatureCollection',
+    features: legs.map((leg) => ({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: leg },
+      properties: {},
+    })),
+  };
+
+  if (map.getSource(MISSION_ROUTE_SOURCE_ID)) {
+    (map.getSource(MISSION_ROUTE_SOURCE_ID) as any).setData(data);
+  } else {
+    map.addSource(MISSION_ROUTE_SOURCE_ID, { type: 'geojson', data } as any);
+  }
+
+  if (!map.getLayer(MISSION_ROUTE_LAYER_ID)) {
+    map.addLayer({
+      id: MISSION_ROUTE_LAYER_ID,
+      type: 'line',
+      source: MISSION_ROUTE_SOURCE_ID,
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round',
+      },
+      paint: {
+        'line-color': '#111827',
+        'line-width': 1.5,
+        'line-opacity': 0.75,
+        'line-dasharray': [2, 2],
+      },
+    }, getDrawLayerAnchor(map));
+  }
+}
+
+export function clearMissionRouteLayer(map: MapboxMap) {
+  try { if (map.getLayer(MISSION_ROUTE_LAYER_ID)) map.removeLayer(MISSION_ROUTE_LAYER_ID); } catch {}
+  try { if (map.getSource(MISSION_ROUTE_SOURCE_ID)) map.removeSource(MISSION_ROUTE_SOURCE_ID); } catch {}
+}
+
+export function setAirspaceLayer(
+  map: MapboxMap,
+  zones: Array<{ id: string; name?: string; ring: [number, number][]; holes?: [number, number][][] }>,
+) {
+  const data = {
+    type: 'FeatureCollection',
+    features: zones.map((zone) => ({
+      type: 'Feature',
+      geometry: { type: 'Polygon', coordinates: [zone.ring, ...(zone.holes ?? [])] },
+      properties: { id: zone.id, name: zone.name ?? '' },
+    })),
+  };
+
+  if (map.getSource(AIRSPACE_SOURCE_ID)) {
+    (map.getSource(AIRSPACE_SOURCE_ID) as any).setData(data);
+  } else {
+    map.addSource(AIRSPACE_SOURCE_ID, { type: 'geojson', data } as any);
+  }
+
+  const beforeId = getDrawLayerAnchor(map);
+  if (!map.getLayer(AIRSPACE_FILL_LAYER_ID)) {
+    map.addLayer({
+      id: AIRSPACE_FILL_LAYER_ID,
+      type: 'fill',
+      source: AIRSPACE_SOURCE_ID,
+      paint: {
+        'fill-color': '#dc2626',
+        'fill-opacity': 0.15,
+      },
+    }, beforeId);
+  }
+  if (!map.getLayer(AIRSPACE_OUTLINE_LAYER_ID)) {
+    map.addLayer({
+      id: AIRSPACE_OUTLINE_LAYER_ID,
+      type: 'line',
+      source: AIRSPACE_SOURCE_ID,
+      paint: {
+        'line-color': '#dc2626',
+        'line-width': 1.5,
+        'line-dasharray': [3, 2],
+      },
+    }, beforeId);
+  }
+}
+
+export function clearAirspaceLayer(map: MapboxMap) {
+  try { if (map.getLayer(AIRSPACE_OUTLINE_LAYER_ID)) map.removeLayer(AIRSPACE_OUTLINE_LAYER_ID); } catch {}
+  try { if (map.getLayer(AIRSPACE_FILL_LAYER_ID)) map.removeLayer(AIRSPACE_FILL_LAYER_ID); } catch {}
+  try { if (map.getSource(AIRSPACE_SOURCE_ID)) map.removeSource(AIRSPACE_SOURCE_ID); } catch {}
+}
+
+/** Highlight the parts of lines, turns and transits that enter a restricted zone. */
+export function setAirspaceViolationLayer(map: MapboxMap, pieces: [number, number][][]) {
+  const data = {
+    type: 'FeatureCollection',
+    features: pieces.map((piece) => ({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: piece },
+      properties: {},
+    })),
+  };
+
+  if (map.getSource(AIRSPACE_VIOLATION_SOURCE_ID)) {
+    (map.getSource(AIRSPACE_VIOLATION_SOURCE_ID) as any).setData(data);
+  } else {
+    map.addSource(AIRSPACE_VIOLATION_SOURCE_ID, { type: 'geojson', data } as any);
+  }
+
+  if (!map.getLayer(AIRSPACE_VIOLATION_LAYER_ID)) {
+    map.addLayer({
+      id: AIRSPACE_VIOLATION_LAYER_ID,
+      type: 'line',
+      source: AIRSPACE_VIOLATION_SOURCE_ID,
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round',
+      },
+      paint: {
+        'line-color': '#b91c1c',
+        'line-width': 4,
+        'line-opacity': 0.9,
+      },
+    }, getDrawLayerAnchor(map));
+  }
+}
+
+export function clearAirspaceViolationLayer(map: MapboxMap) {
+  try { if (map.getLayer(AIRSPACE_VIOLATION_LAYER_ID)) map.removeLayer(AIRSPACE_VIOLATION_LAYER_ID); } catch {}
+  try { if (map.getSource(AIRSPACE_VIOLATION_SOURCE_ID)) map.removeSource(AIRSPACE_VIOLATION_SOURCE_ID); } catch {}
+}
@@ -7,39 +7,24 @@
  ***********************************************************************/
 
 import { Polygon, TerrainTile } from '@/utils/terrainAspectHybrid';
+import { fetchTerrainTile } from '@/terrain/sources';
 import { getPolygonBounds } from './geometry';
 
 async function getTileData(
-  url: string,
+  z: number,
+  x: number,
+  y: number,
   token: string,
   signal: AbortSignal
 ): Promise<TerrainTile | null> {
   try {
-    const response = await fetch(`${url}?access_token=${token}`, { signal });
-    if (!response.ok) {
-      throw new Error(`Failed to fetch tile: ${response.statusText}`);
-    }
-    const blob = await response.blob();
-    const image = await createImageBitmap(blob);
-    const canvas = new OffscreenCanvas(image.width, image.height);
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Could not get 2D context');
-    ctx.drawImage(image, 0, 0);
-    const imageData = ctx.getImageData(0, 0, image.width, image.height);
-    const data = new Uint8ClampedArray(imageData.data);
-
-    // Calculate tile coordinates from URL
-    const urlParts = url.split('/');
-    const z = parseInt(urlParts[urlParts.length - 3]);
-    const x = parseInt(urlParts[urlParts.length - 2]);
-    const y = parseInt(urlParts[urlParts.length - 1].split('.')[0]);
-
+    const { width, height, data } = await fetchTerrainTile(z, x, y, token, signal);
     return {
       x,
       y,
       z,
-      width: image.width,
-      height: image.height,
+      width,
+      height,
       data,
       format: 'terrain-rgb' as const,
     } as TerrainTile;
@@ -79,8 +64,7 @@ export async function fetchTilesForPolygon(
   const promises: Promise<TerrainTile | null>[] = [];
   for (let x = minTileX; x <= maxTileX; x++) {
     for (let y = minTileY; y <= maxTileY; y++) {
-      const url = `https://api.mapbox.com/v4/mapbox.terrain-rgb/${zoom}/${x}/${y}.pngraw`;
-      promises.push(getTileData(url, token, signal));
+      promises.push(getTileData(zoom, x, y, token, signal));
     }
   }
 
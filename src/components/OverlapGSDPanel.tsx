@@ -1,23 +1,39 @@
 import React, { useCallback, useMemo, useRef, useState } from "react";
 import type mapboxgl from "mapbox-gl";
-import { LidarDensityWorker, OverlapWorker, fetchTerrainRGBA, tilesCoveringPolygon } from "@/overlap/controller";
+import { LidarDensityWorker, OverlapWorker, tilesCoveringPolygon } from "@/overlap/controller";
+import { getDemTile, getDemTileWithHalo } from "@/overlap/demCache";
+import { DEFAULT_MIN_GAP_AREA_M2, fillInRingForGap, findCoverageGaps, type CoverageGap } from "@/overlap/gaps";
+import { dirtyTileKeys, fingerprintOf, lowestHeight, polygonTileKeys, poseTileKeys, stableHitIds, stripReachBox, stripTileKeys, type CoverageInfluenceMap } from "@/overlap/incremental";
+import { runTileJobs, type TileJob } from "@/overlap/pool";
+import { getTerrainSourceVersion } from "@/terrain/sources";
 import { addOrUpdateTileOverlay, clearAllOverlays } from "@/overlap/overlay";
-import type { CameraModel, PoseMeters, PolygonLngLatWithId, GSDStats, PolygonTileStats, LidarStripMeters } from "@/overlap/types";
+import type { CameraModel, PoseMeters, PolygonLngLatWithId, GSDStats, PolygonTileStats, LidarStripMeters, TileResult, WorkerOut, LidarWorkerOut } from "@/overlap/types";
 import { lngLatToMeters, tileMetersBounds } from "@/overlap/mercator";
 import { metersToLngLat } from "@/services/Projection";
-import { SONY_RX1R2, DJI_ZENMUSE_P1_24MM, ILX_LR1_INSPECT_85MM, MAP61_17MM, RGB61_24MM, forwardSpacingRotated } from "@/domain/camera";
-import { DEFAULT_LIDAR_MAX_RANGE_M, getLidarMappingFovDeg, getLidarModel, lidarDeliverableDensity, lidarSinglePassDensity, lidarSwathWidth } from "@/domain/lidar";
-import { sampleCameraPositionsOnFlightPath, build3DFlightPath, extendFlightLineForTurnRunout, queryMinMaxElevationAlongPolylineWGS84 } from "@/components/MapFlightDirection/utils/geometry";
-import { generateFlightLinesForPolygon } from "@/components/MapFlightDirection/utils/mapbox-layers";
+import { forwardSpacingRotated } from "@/domain/camera";
+import { DEFAULT_LIDAR_MAX_RANGE_M, getLidarMappingFovDeg, lidarDeliverableDensity, lidarSinglePassDensity, lidarSwathWidth } from "@/domain/lidar";
+import { DEFAULT_CAMERA, DEFAULT_CAMERA_KEY, getCameraRegistry, getLidarModel } from "@/domain/payloads";
+import { usePayloadRegistry } from "@/hooks/use-payload-registry";
+import { sampleCameraPositionsOnFlightPath, build3DFlightPath, extendFlightLineForTurnRunout, queryMinMaxElevationAlongPolylineWGS84, DEFAULT_MAX_TERRAIN_GRADIENT_PCT } from "@/components/MapFlightDirection/utils/geometry";
+import { flightColor, generateFlightLinesForPolygon } from "@/components/MapFlightDirection/utils/mapbox-layers";
+import type { AirspaceViolation } from "@/planning/airspace";
+import { EMPTY_HISTORY, type HistoryState } from "@/components/MapFlightDirection/utils/history";
+import type { PlannedFlight } from "@/planning/flights";
+import { getCameraPitchDeg, getPassBearings } from "@/planning/patterns";
+import type { MissionRoute } from "@/planning/route";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/hooks/use-toast";
 import type { BearingOverride, MapFlightDirectionAPI, TerrainPartitionSolutionPreview } from "@/components/MapFlightDirection/api";
-import type { FlightParams, LidarReturnMode, TerrainTile } from "@/domain/types";
+import type { AltitudeMode, FlightParams, LidarReturnMode, TerrainTile, WindVector } from "@/domain/types";
+import { AIRCRAFT_REGISTRY, CALM_WIND, DEFAULT_AIRCRAFT, estimateFlightPathPerformance, getAircraftModel, sanitizeWind, usableBatteryWh, type FlightPathPerformance } from "@/domain/aircraft";
 import { extractPoses, wgs84ToWebMercator, extractCameraModel } from "@/utils/djiGeotags";
 import type { PolygonAnalysisResult } from "@/components/MapFlightDirection/types";
+import type { CoverageTiles } from "@/interop/gis/geotiff";
+import type { GisArea, GisAreaStats } from "@/interop/gis/types";
+import type { ReportHistogram } from "@/interop/report/missionReport";
 // Turf types may be unresolved if TS can't find bundled types; cast as any.
 // @ts-ignore
 import * as turf from '@turf/turf';
@@ -34,11 +50,23 @@ type Props = {
   onExposePoseImporter?: (openImporter: (mode?: 'dji' | 'wingtra') => void) => void;
   // NEW: report pose import count to parent so parent can enable panel when only poses exist
   onPosesImported?: (count: number) => void;
+  /** Expose the latest per-area GSD / density stats, e.g. for GIS exports. */
+  onExposeAreaStats?: (getStats: () => Record<string, GisAreaStats>) => void;
+  /** Expose the overall GSD / density histograms as charted, e.g. for the mission report. */
+  onExposeOverallHistograms?: (getHistograms: () => ReportHistogram[]) => void;
+  /** Expose the latest per-tile overlap / GSD / density results, e.g. for GeoTIFF export. */
+  onExposeCoverageTiles?: (getTiles: () => CoverageTiles) => void;
   polygonAnalyses: PolygonAnalysisResult[];
   overrides: Record<string, BearingOverride>;
   importedOriginals: Record<string, { bearingDeg: number; lineSpacingM: number }>;
   selectedPolygonId?: string | null;
   onSelectPolygon?: (id: string | null) => void;
+  /** Bumped by the parent whenever the map re-plans the mission route (e.g. home dragged, terrain loaded). */
+  missionRouteVersion?: number;
+  /** Bumped by the parent whenever no-fly zones or their violations change. */
+  airspaceVersion?: number;
+  /** Bumped by the parent whenever the undo/redo history changes. */
+  historyVersion?: number;
 };
 
 type MetricKind = 'gsd' | 'density';
@@ -51,6 +79,8 @@ type PolygonMetricSummary = {
   sampleCount: number;
   sampleLabel: string;
   sourceLabel: string;
+  /** Ground area where terrain blocked at least one view; only set when occlusion testing ran */
+  occludedAreaM2?: number;
 };
 
 type OverallMetricStats = {
@@ -157,8 +187,15 @@ function lidarComparisonLabel(mode?: 'first-return' | 'all-returns') {
   return mode === 'all-returns' ? 'All returns' : 'First return';
 }
 
-// Helper function to calculate polygon area in acres
-function calculatePolygonAreaAcres(ring: [number, number][]): number {
+// Helper function to calculate polygon area in acres (holes excluded)
+function calculatePolygonAreaAcres(ring: [number, number][], holes: [number, number][][] = []): number {
+  const areaSquareMeters = Math.max(0, ringAreaM2(ring) - holes.reduce((sum, hole) => sum + ringAreaM2(hole), 0));
+
+  // Convert to acres (1 acre = 4046.8564224 square meters)
+  return areaSquareMeters / 4046.8564224;
+}
+
+function ringAreaM2(ring: [number, number][]): number {
   if (ring.length < 3) return 0;
 
   // Use spherical excess formula for accurate area calculation
@@ -176,52 +213,29 @@ function calculatePolygonAreaAcres(ring: [number, number][]): number {
     sum += (lon2 - lon1) * (2 + Math.sin(lat1) + Math.sin(lat2));
   }
 
-  const areaSquareMeters = Math.abs(sum) * R * R / 2;
-
-  // Convert to acres (1 acre = 4046.8564224 square meters)
-  return areaSquareMeters / 4046.8564224;
+  return Math.abs(sum) * R * R / 2;
 }
 
-function ringsRoughlyEqual(a: [number, number][], b: [number, number][], toleranceDeg = 1e-7) {
-  if (a.length !== b.length) return false;
-  for (let i = 0; i < a.length; i++) {
-    if (Math.abs(a[i][0] - b[i][0]) > toleranceDeg || Math.abs(a[i][1] - b[i][1]) > toleranceDeg) {
-      return false;
-    }
-  }
-  return true;
-}
 function lidarStripMayAffectTile(
   strip: LidarStripMeters,
   tileRef: { z: number; x: number; y: number }
 ) {
   const bounds = tileMetersBounds(tileRef.z, tileRef.x, tileRef.y);
-  const reachPadM = Math.max(
-    strip.halfWidthM ?? 0,
-    typeof strip.maxRangeM === "number" && Number.isFinite(strip.maxRangeM) ? strip.maxRangeM : 0
-  );
-  const minXs = Math.min(strip.x1, strip.x2) - reachPadM;
-  const maxXs = Math.max(strip.x1, strip.x2) + reachPadM;
-  const minYs = Math.min(strip.y1, strip.y2) - reachPadM;
-  const maxYs = Math.max(strip.y1, strip.y2) + reachPadM;
+  const reach = stripReachBox(strip);
   return !(
-    maxXs < bounds.minX ||
-    minXs > bounds.maxX ||
-    maxYs < bounds.minY ||
-    minYs > bounds.maxY
+    reach.maxX < bounds.minX ||
+    reach.minX > bounds.maxX ||
+    reach.maxY < bounds.minY ||
+    reach.minY > bounds.maxY
   );
 }
-export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEditPolygonParams, onAutoRun, onClearExposed, onExposePoseImporter, onPosesImported, polygonAnalyses, overrides, importedOriginals: _importedOriginals, selectedPolygonId: controlledSelectedId, onSelectPolygon }: Props) {
-  const CAMERA_REGISTRY: Record<string, CameraModel> = useMemo(()=>({
-    SONY_RX1R2,
-    DJI_ZENMUSE_P1_24MM,
-    ILX_LR1_INSPECT_85MM,
-    MAP61_17MM,
-    RGB61_24MM,
-  }),[]);
+export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEditPolygonParams, onAutoRun, onClearExposed, onExposePoseImporter, onPosesImported, onExposeAreaStats, onExposeOverallHistograms, onExposeCoverageTiles, polygonAnalyses, overrides, importedOriginals: _importedOriginals, selectedPolygonId: controlledSelectedId, onSelectPolygon, missionRouteVersion, airspaceVersion, historyVersion }: Props) {
+  // Built-in plus custom cameras; a new object whenever custom sensors change
+  const { version: payloadVersion } = usePayloadRegistry();
+  const CAMERA_REGISTRY: Record<string, CameraModel> = useMemo(() => getCameraRegistry(), [payloadVersion]);
 
   // Global camera override JSON (optional). If blank, we'll use per‑polygon camera selections.
-  const [cameraText, setCameraText] = useState(JSON.stringify(SONY_RX1R2, null, 2));
+  const [cameraText, setCameraText] = useState(JSON.stringify(DEFAULT_CAMERA, null, 2));
   const [useOverrideCamera, setUseOverrideCamera] = useState(false);
   const [altitude] = useState(100); // AGL in meters
   const [frontOverlap] = useState(80); // percentage
@@ -231,6 +245,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
   const [showOverlap] = useState(false); // Changed default to false
   const [showGsd, setShowGsd] = useState(true);
   const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
   const [autoGenerate, setAutoGenerate] = useState(true);
   const [showCameraPoints, setShowCameraPoints] = useState(false); // Changed default to false
   const [overallStats, setOverallStats] = useState<OverallMetricStats>({ gsd: null, density: null });
@@ -260,36 +275,69 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
   const [poseImportKind, setPoseImportKind] = useState<'auto' | 'dji' | 'wingtra'>('auto');
   const [importedPoses, setImportedPoses] = useState<PoseMeters[]>([]);
   const poseAreaRingRef = useRef<[number,number][]>([]);
-  // Remember previous polygon rings so we can re-render tiles a moved polygon USED to cover
-  const prevPolygonRingsRef = useRef<Map<string, [number, number][]>>(new Map());
+  // Per-polygon inputs and reached tiles of the last completed run, to recompute only what changed
+  const coverageInfluenceRef = useRef<{ settings: string; camera: CoverageInfluenceMap; lidar: CoverageInfluenceMap } | null>(null);
+  // Tiles queued by a run that was cancelled before it finished; recomputed by the next run
+  const staleTileKeysRef = useRef({ camera: new Set<string>(), lidar: new Set<string>() });
+  const stableHitIdsRef = useRef({ poses: new Map<string, number>(), lines: new Map<string, number>() });
 
   // Single global runId to avoid stacked overlays - Option B improvement
   const globalRunIdRef = useRef<string | null>(null);
   // Per-polygon, per-tile stats cache for correct cross-polygon crediting - Option B core feature
   const perPolyTileStatsRef = useRef<Map<string, Map<string, PolygonTileStats>>>(new Map());
-  // Cache raw tile data (width, height, and cloned pixel data) to avoid ArrayBuffer transfer issues
-  const tileCacheRef = useRef<Map<string, { width: number; height: number; data: Uint8ClampedArray }>>(new Map());
+  // Latest worker result per tile (camera and lidar runs separately), kept for raster export
+  const coverageTilesRef = useRef({ camera: new Map<string, TileResult>(), lidar: new Map<string, TileResult>() });
+  // Overlay display settings, read when drawing tiles so that changing them never recomputes
+  const overlayStyleRef = useRef({ showOverlap, showGsd, opacity });
+  const drawTileOverlays = useCallback((map: mapboxgl.Map, kind: 'camera' | 'lidar', res: TileResult, runId: string) => {
+    const style = overlayStyleRef.current;
+    const opacity = style.opacity;
+    if (kind === 'camera') {
+      if (style.showOverlap) addOrUpdateTileOverlay(map, res, { kind: "overlap", runId, opacity });
+      if (style.showGsd) addOrUpdateTileOverlay(map, res, { kind: "gsd", runId, opacity, gsdMin: 0.005, gsdMax: 0.06 });
+    } else {
+      if (style.showOverlap) addOrUpdateTileOverlay(map, res, { kind: "pass", runId, opacity });
+      if (style.showGsd) addOrUpdateTileOverlay(map, res, { kind: "density", runId, opacity, densityMin: 10, densityMax: 100 });
+    }
+  }, []);
   const autoTriesRef = useRef(0);
   const autoRunTimeoutRef = useRef<number | null>(null);
   const deferredComputeTimeoutRef = useRef<number | null>(null);
   const computeSeqRef = useRef(0); // increment to invalidate in-flight computations
+  const computeAbortRef = useRef<AbortController | null>(null); // aborts the terrain fetches of the run in flight
   const runningRef = useRef(false);
-  const pendingComputeRef = useRef<{ polygonId?: string; suppressMapNotReadyToast?: boolean } | null>(null);
+  const pendingComputeRef = useRef<{ polygonId?: string; suppressMapNotReadyToast?: boolean; full?: boolean } | null>(null);
   const suppressAutoRunUntilRef = useRef(0);
   const [clipInnerBufferM] = useState(0);
   const [maxTiltDeg, setMaxTiltDeg] = useState(30); // NEW: max allowable camera tilt (deg from vertical)
   const [minOverlapForGsd, setMinOverlapForGsd] = useState(3); // Minimum image overlap to consider GSD valid
   const minOverlapForGsdRef = useRef(minOverlapForGsd);
+  const [gapMinDensityUI, setGapMinDensityUI] = useState(10); // pts/m², for lidar areas without a target density
+  const [gapMinAreaUI, setGapMinAreaUI] = useState(DEFAULT_MIN_GAP_AREA_M2);
   React.useEffect(() => {
     minOverlapForGsdRef.current = minOverlapForGsd;
   }, [minOverlapForGsd]);
+  const [terrainOcclusion, setTerrainOcclusion] = useState(false); // Line-of-sight test against terrain (slower)
+  const terrainOcclusionRef = useRef(terrainOcclusion);
   React.useEffect(() => {
     runningRef.current = running;
   }, [running]);
   // NEW: altitude strategy & min clearance & turn extension (synced with map API if available)
-  const [altitudeModeUI, setAltitudeModeUI] = useState<'legacy' | 'min-clearance'>('legacy');
+  const [altitudeModeUI, setAltitudeModeUI] = useState<AltitudeMode>('legacy');
   const [minClearanceUI, setMinClearanceUI] = useState<number>(60);
   const [turnExtendUI, setTurnExtendUI] = useState<number>(96);
+  const [maxTerrainGradientUI, setMaxTerrainGradientUI] = useState<number>(DEFAULT_MAX_TERRAIN_GRADIENT_PCT);
+  const [aircraftKeyUI, setAircraftKeyUI] = useState<string>(DEFAULT_AIRCRAFT.key);
+  const [windUI, setWindUI] = useState<WindVector>(CALM_WIND);
+  const [homePointUI, setHomePointUI] = useState<[number, number] | null>(null);
+  const [maxFlightMinutesUI, setMaxFlightMinutesUI] = useState<number>(40);
+  const [plannedFlights, setPlannedFlights] = useState<PlannedFlight[]>([]);
+  const [transitClearanceUI, setTransitClearanceUI] = useState<number>(80);
+  const [missionRoute, setMissionRoute] = useState<MissionRoute | null>(null);
+  const [airspaceZoneCount, setAirspaceZoneCount] = useState(0);
+  const [historyUI, setHistoryUI] = useState<HistoryState>(EMPTY_HISTORY);
+  const [avoidAirspaceUI, setAvoidAirspaceUI] = useState(false);
+  const [airspaceViolations, setAirspaceViolations] = useState<AirspaceViolation[]>([]);
 
   // Sync initial values from map API
   React.useEffect(() => {
@@ -297,9 +345,16 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     const mode = (api as any)?.getAltitudeMode ? (api as any).getAltitudeMode() : 'legacy';
     const minc = (api as any)?.getMinClearance ? (api as any).getMinClearance() : 60;
     const ext = (api as any)?.getTurnExtend ? (api as any).getTurnExtend() : 96;
+    const grad = (api as any)?.getMaxTerrainGradient ? (api as any).getMaxTerrainGradient() : DEFAULT_MAX_TERRAIN_GRADIENT_PCT;
     setAltitudeModeUI(mode);
     setMinClearanceUI(minc);
     setTurnExtendUI(ext);
+    setMaxTerrainGradientUI(grad);
+    setAircraftKeyUI((api as any)?.getAircraftKey ? (api as any).getAircraftKey() : DEFAULT_AIRCRAFT.key);
+    setWindUI(sanitizeWind((api as any)?.getWind ? (api as any).getWind() : CALM_WIND));
+    setHomePointUI((api as any)?.getHomePoint ? (api as any).getHomePoint() : null);
+    setMaxFlightMinutesUI((api as any)?.getMaxFlightTime ? (api as any).getMaxFlightTime() : 40);
+    setTransitClearanceUI((api as any)?.getTransitClearance ? (api as any).getTransitClearance() : 80);
   }, [mapRef]);
 
   React.useEffect(() => {
@@ -535,7 +590,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     if (p?.cameraKey && CAMERA_REGISTRY[p.cameraKey]) return CAMERA_REGISTRY[p.cameraKey];
     const override = parseCameraOverride();
     if (override) return override;
-    return SONY_RX1R2; // fallback
+    return DEFAULT_CAMERA; // fallback
   }, [parseCameraOverride, CAMERA_REGISTRY]);
 
   const isLidarPayload = useCallback((polygonId: string, paramsMap: any): boolean => {
@@ -700,27 +755,36 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
       const mode = (api as any)?.getAltitudeMode ? (api as any).getAltitudeMode() : 'legacy';
       const minClr = (api as any)?.getMinClearance ? (api as any).getMinClearance() : 60;
       const turnExtend = (api as any)?.getTurnExtend ? Math.max(0, (api as any).getTurnExtend()) : turnExtendUI;
+      const maxGradientPct = (api as any)?.getMaxTerrainGradient ? (api as any).getMaxTerrainGradient() : maxTerrainGradientUI;
+      // Fly the area the way the mission route enters it, so triggers match the map and exports
+      const visit = api.getMissionRoute?.()?.visits.find((v) => v.polygonId === polygonId);
       const path3D = build3DFlightPath(
         flightLines,
         tiles,
         lineSpacing,
-        { altitudeAGL: altForThisPoly, mode, minClearance: minClr, turnExtendM: turnExtend }
+        { altitudeAGL: altForThisPoly, mode, minClearance: minClr, turnExtendM: turnExtend, maxGradientPct, visit }
       );
 
-      const cameraPositions = sampleCameraPositionsOnFlightPath(path3D, spacingForward, { includeTurns: false });
-      // Filter out cameras outside the polygon ring
+      const cameraPositions = sampleCameraPositionsOnFlightPath(path3D, spacingForward, {
+        includeTurns: false,
+        cameraPitchDeg: getCameraPitchDeg(p),
+        cameraYawOffsetDeg: yawOffset,
+      });
+      // Filter out cameras outside the polygon ring or inside its holes
       const polys = api.getPolygonsWithIds?.() || [];
-      const ring = (polys.find((pp:any)=> (pp.id||'unknown')===polygonId)?.ring) as [number,number][] | undefined;
+      const target = polys.find((pp:any)=> (pp.id||'unknown')===polygonId);
+      const ring = target?.ring as [number,number][] | undefined;
+      const holes = target?.holes ?? [];
       const inside = (lng:number,lat:number,ring:[number,number][]) => {
         let ins=false; for(let i=0,j=ring.length-1;i<ring.length;j=i++){
           const xi=ring[i][0], yi=ring[i][1], xj=ring[j][0], yj=ring[j][1];
           const intersect=((yi>lat)!==(yj>lat)) && (lng < (xj-xi)*(lat-yi)/(yj-yi)+xi); if(intersect) ins=!ins;
         } return ins;
       };
-      const filtered = ring && ring.length>=3 ? cameraPositions.filter(([lng,lat])=> inside(lng,lat,ring)) : cameraPositions;
+      const filtered = ring && ring.length>=3 ? cameraPositions.filter(([lng,lat])=> inside(lng,lat,ring) && !holes.some((hole)=> inside(lng,lat,hole))) : cameraPositions;
 
       const normalizeDeg = (d: number) => ((d % 360) + 360) % 360;
-      filtered.forEach(([lng, lat, altMSL, yawDeg]) => {
+      filtered.forEach(([lng, lat, altMSL, yawDeg, omegaDeg, phiDeg]) => {
         const [x, y] = lngLatToMeters(lng, lat);
         // Align camera so image height (y-axis) is along flight direction; width is cross-track.
         // yawDeg is bearing CW from North; kappa in our math is CCW about +Z.
@@ -728,30 +792,30 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
         poses.push({
           id: `photo_${poseId++}`,
           x, y, z: altMSL,
-          omega_deg: 0,
-          phi_deg: 0,
+          omega_deg: omegaDeg,
+          phi_deg: phiDeg,
           kappa_deg: kappaDeg,
           polygonId // tag pose with polygon for per‑camera assignment
         });
       });
     }
     return poses;
-  }, [getMergedParamsMap, mapRef, photoSpacingFor, turnExtendUI]);
+  }, [getMergedParamsMap, mapRef, photoSpacingFor, turnExtendUI, maxTerrainGradientUI]);
 
   const parsePosesMeters = useCallback((): PoseMeters[] | null => {
     const api = mapRef.current;
     const fl = api?.getFlightLines?.();
     const haveLines = !!fl && Array.from(fl.values()).some((v: any) => v.flightLines && v.flightLines.length > 0);
     const generated = haveLines ? generatePosesFromFlightLines() : [];
-    // Always keep imported poses; add generated ones when lines exist
-    const base: PoseMeters[] = [ ...(importedPoses || []), ...(generated || []) ];
-    if (!base) return [];
-    // NEW: filter poses by tilt (sqrt(omega^2 + phi^2) ~ small-angle off-nadir approximation)
-    const filtered = maxTiltDeg >= 0 ? base.filter(p => {
+    // NEW: filter poses by tilt (sqrt(omega^2 + phi^2) ~ small-angle off-nadir approximation).
+    // Only imported images are filtered; planned oblique poses are tilted on purpose.
+    const imported = importedPoses || [];
+    const filtered = maxTiltDeg >= 0 ? imported.filter(p => {
       const tilt = Math.sqrt((p.omega_deg||0)*(p.omega_deg||0) + (p.phi_deg||0)*(p.phi_deg||0));
       return tilt <= maxTiltDeg;
-    }) : base;
-    return filtered;
+    }) : imported;
+    // Always keep imported poses; add generated ones when lines exist
+    return [ ...filtered, ...(generated || []) ];
   }, [generatePosesFromFlightLines, importedPoses, maxTiltDeg, mapRef]);
 
   const getPolygons = useCallback((): PolygonLngLatWithId[] => {
@@ -773,6 +837,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     const altitudeMode = (api as any)?.getAltitudeMode ? (api as any).getAltitudeMode() : 'legacy';
     const minClearance = (api as any)?.getMinClearance ? (api as any).getMinClearance() : 60;
     const turnExtend = (api as any)?.getTurnExtend ? Math.max(0, (api as any).getTurnExtend()) : turnExtendUI;
+    const maxGradientPct = (api as any)?.getMaxTerrainGradient ? (api as any).getMaxTerrainGradient() : maxTerrainGradientUI;
 
     for (const [polygonId, lineData] of Array.from(flightLinesMap.entries())) {
       if (polygonFilter && !polygonFilter.has(polygonId)) continue;
@@ -808,7 +873,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
           [activeSweepLine],
           tiles,
           lineData.lineSpacing,
-          { altitudeAGL, mode: altitudeMode, minClearance, turnExtendM: 0 }
+          { altitudeAGL, mode: altitudeMode, minClearance, turnExtendM: 0, maxGradientPct }
         )[0];
         if (!Array.isArray(sweepPath3d) || sweepPath3d.length < 2) continue;
 
@@ -858,7 +923,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     }
 
     return { strips };
-  }, [altitude, isLidarPayload, mapRef, turnExtendUI]);
+  }, [altitude, isLidarPayload, mapRef, turnExtendUI, maxTerrainGradientUI]);
 
   const evaluatePartitionOptionExact = useCallback(async (
     polygonId: string,
@@ -875,6 +940,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     const altitudeMode = (api as any)?.getAltitudeMode ? (api as any).getAltitudeMode() : altitudeModeUI;
     const minClearance = (api as any)?.getMinClearance ? (api as any).getMinClearance() : minClearanceUI;
     const turnExtend = (api as any)?.getTurnExtend ? Math.max(0, (api as any).getTurnExtend()) : turnExtendUI;
+    const maxGradientPct = (api as any)?.getMaxTerrainGradient ? (api as any).getMaxTerrainGradient() : maxTerrainGradientUI;
     const virtualPolygons = solution.regions.map((region, index) => ({
       id: `${polygonId}::${index}`,
       ring: region.ring,
@@ -895,76 +961,15 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
       return refs;
     })();
 
-    const getTile = async (tileRef: { z: number; x: number; y: number }) => {
-      const cacheKey = `${tileRef.z}/${tileRef.x}/${tileRef.y}`;
-      let tileData = tileCacheRef.current.get(cacheKey);
-      if (!tileData) {
-        const imgData = await fetchTerrainRGBA(tileRef.z, tileRef.x, tileRef.y, mapboxToken);
-        tileData = {
-          width: imgData.width,
-          height: imgData.height,
-          data: new Uint8ClampedArray(imgData.data),
-        };
-        tileCacheRef.current.set(cacheKey, tileData);
-      }
-      return {
-        cacheKey,
-        tile: { z: tileRef.z, x: tileRef.x, y: tileRef.y, size: tileData.width, data: new Uint8ClampedArray(tileData.data) },
-      };
-    };
-
-    const normalizeTileRef = (tileRef: { z: number; x: number; y: number }) => {
-      const tilesPerAxis = 1 << tileRef.z;
-      const wrappedX = ((tileRef.x % tilesPerAxis) + tilesPerAxis) % tilesPerAxis;
-      const clampedY = Math.max(0, Math.min(tilesPerAxis - 1, tileRef.y));
-      return { z: tileRef.z, x: wrappedX, y: clampedY };
-    };
+    const getTile = async (tileRef: { z: number; x: number; y: number }) => ({
+      cacheKey: `${tileRef.z}/${tileRef.x}/${tileRef.y}`,
+      tile: await getDemTile(tileRef.z, tileRef.x, tileRef.y, mapboxToken),
+    });
 
-    const getLidarTileWithHalo = async (tileRef: { z: number; x: number; y: number }, padTiles = 1) => {
-      const center = await getTile(tileRef);
-      if (padTiles <= 0) {
-        return {
-          cacheKey: center.cacheKey,
-          tile: center.tile,
-          demTile: {
-            size: center.tile.size,
-            padTiles: 0,
-            data: center.tile.data,
-          },
-        };
-      }
-      const offsets: Array<{ dx: number; dy: number; tileRef: { z: number; x: number; y: number } }> = [];
-      for (let dy = -padTiles; dy <= padTiles; dy++) {
-        for (let dx = -padTiles; dx <= padTiles; dx++) {
-          offsets.push({
-            dx,
-            dy,
-            tileRef: normalizeTileRef({ z: tileRef.z, x: tileRef.x + dx, y: tileRef.y + dy }),
-          });
-        }
-      }
-      const neighborTiles = await Promise.all(offsets.map((entry) => getTile(entry.tileRef)));
-      const tileSize = center.tile.size;
-      const span = padTiles * 2 + 1;
-      const demSize = tileSize * span;
-      const demData = new Uint8ClampedArray(demSize * demSize * 4);
-      for (let i = 0; i < offsets.length; i++) {
-        const { dx, dy } = offsets[i];
-        const srcTile = neighborTiles[i].tile;
-        const offsetX = (dx + padTiles) * tileSize;
-        const offsetY = (dy + padTiles) * tileSize;
-        for (let row = 0; row < tileSize; row++) {
-          const srcStart = row * tileSize * 4;
-          const dstStart = ((offsetY + row) * demSize + offsetX) * 4;
-          demData.set(srcTile.data.subarray(srcStart, srcStart + tileSize * 4), dstStart);
-        }
-      }
-      return {
-        cacheKey: center.cacheKey,
-        tile: center.tile,
-        demTile: { size: demSize, padTiles, data: demData },
-      };
-    };
+    const getTileWithHalo = async (tileRef: { z: number; x: number; y: number }, padTiles = 1) => ({
+      cacheKey: `${tileRef.z}/${tileRef.x}/${tileRef.y}`,
+      ...(await getDemTileWithHalo(tileRef.z, tileRef.x, tileRef.y, mapboxToken, padTiles)),
+    });
 
     const pointInRing = (lng: number, lat: number, ring: [number, number][]) => {
       let inside = false;
@@ -978,6 +983,23 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
       return inside;
     };
 
+    // Per-region summaries over the pooled tile results, which come back in tile order
+    const regionSummariesOf = (results: Array<{ perPolygon?: PolygonTileStats[] }>, metric: 'gsdStats' | 'densityStats') => {
+      const perRegionStats = new Map<string, GSDStats[]>();
+      for (const res of results) {
+        (res.perPolygon ?? []).forEach((polyStats) => {
+          const stats = polyStats[metric];
+          if (!stats) return;
+          const list = perRegionStats.get(polyStats.polygonId) ?? [];
+          list.push(stats);
+          perRegionStats.set(polyStats.polygonId, list);
+        });
+      }
+      return Array.from(perRegionStats.values())
+        .map((statsList) => aggregateMetricStats(statsList))
+        .filter((stats) => stats.count > 0);
+    };
+
     if (isLidarPayload(polygonId, paramsMap)) {
       const model = getLidarModel(params.lidarKey);
       const altitudeAGL = params.altitudeAGL ?? altitude;
@@ -998,7 +1020,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
       let passIndex = 0;
 
       for (const region of virtualPolygons) {
-        const { flightLines } = generateFlightLinesForPolygon(region.ring, region.bearingDeg, lineSpacing);
+        const { flightLines } = generateFlightLinesForPolygon(region.ring, getPassBearings(region.bearingDeg, params), lineSpacing);
         for (let lineIndex = 0; lineIndex < flightLines.length; lineIndex++) {
           const sourceLine = flightLines[lineIndex];
           if (!Array.isArray(sourceLine) || sourceLine.length < 2) continue;
@@ -1008,7 +1030,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
             [activeSweepLine],
             parentTiles,
             lineSpacing,
-            { altitudeAGL, mode: altitudeMode, minClearance, turnExtendM: 0 },
+            { altitudeAGL, mode: altitudeMode, minClearance, turnExtendM: 0, maxGradientPct },
           )[0];
           if (!Array.isArray(sweepPath3d) || sweepPath3d.length < 2) continue;
           const localPassIndex = passIndex++;
@@ -1050,42 +1072,31 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
         }
       }
 
-      const worker = new LidarDensityWorker();
-      try {
-        const perRegionStats = new Map<string, GSDStats[]>();
-        for (const tileRef of allTileRefs) {
-          const tileStrips = strips.filter((strip) => lidarStripMayAffectTile(strip, tileRef));
-          if (tileStrips.length === 0) continue;
-          const { demTile, tile } = await getLidarTileWithHalo(tileRef, 1);
-          const res = await worker.runTile({
+      const lidarJobs: TileJob<LidarDensityWorker, LidarWorkerOut>[] = [];
+      for (const tileRef of allTileRefs) {
+        const tileStrips = strips.filter((strip) => lidarStripMayAffectTile(strip, tileRef));
+        if (tileStrips.length === 0) continue;
+        lidarJobs.push(async (worker) => {
+          const { demTile, tile } = await getTileWithHalo(tileRef, 1);
+          return worker.runTile({
             tile,
             demTile,
             polygons: virtualPolygons.map(({ id, ring }) => ({ id, ring })),
             strips: tileStrips,
             options: { clipInnerBufferM },
           } as any);
-          (res.perPolygon ?? []).forEach((polyStats) => {
-            if (!polyStats.densityStats) return;
-            const list = perRegionStats.get(polyStats.polygonId) ?? [];
-            list.push(polyStats.densityStats);
-            perRegionStats.set(polyStats.polygonId, list);
-          });
-        }
-        const regionSummaries = Array.from(perRegionStats.values())
-          .map((statsList) => aggregateMetricStats(statsList))
-          .filter((stats) => stats.count > 0);
-        if (regionSummaries.length === 0) throw new Error('No lidar density preview could be computed for this partition.');
-        return {
-          metricKind: 'density',
-          stats: aggregateMetricStats(regionSummaries),
-          regionStats: regionSummaries,
-          regionCount: solution.regionCount,
-          sampleCount: new Set(strips.map((strip) => strip.passIndex ?? -1)).size,
-          sampleLabel: 'Flight lines',
-        };
-      } finally {
-        worker.terminate();
+        });
       }
+      const regionSummaries = regionSummariesOf((await runTileJobs(() => new LidarDensityWorker(), lidarJobs)) ?? [], 'densityStats');
+      if (regionSummaries.length === 0) throw new Error('No lidar density preview could be computed for this partition.');
+      return {
+        metricKind: 'density',
+        stats: aggregateMetricStats(regionSummaries),
+        regionStats: regionSummaries,
+        regionCount: solution.regionCount,
+        sampleCount: new Set(strips.map((strip) => strip.passIndex ?? -1)).size,
+        sampleLabel: 'Flight lines',
+      };
     }
 
     const camera = effectiveCameraForPolygon(polygonId, paramsMap);
@@ -1098,26 +1109,30 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     let poseId = 0;
 
     for (const region of virtualPolygons) {
-      const { flightLines } = generateFlightLinesForPolygon(region.ring, region.bearingDeg, lineSpacing);
+      const { flightLines } = generateFlightLinesForPolygon(region.ring, getPassBearings(region.bearingDeg, params), lineSpacing);
       const path3d = build3DFlightPath(
         flightLines,
         parentTiles,
         lineSpacing,
-        { altitudeAGL, mode: altitudeMode, minClearance, turnExtendM: turnExtend },
+        { altitudeAGL, mode: altitudeMode, minClearance, turnExtendM: turnExtend, maxGradientPct },
       );
-      const cameraPositions = sampleCameraPositionsOnFlightPath(path3d, photoSpacing, { includeTurns: false });
+      const cameraPositions = sampleCameraPositionsOnFlightPath(path3d, photoSpacing, {
+        includeTurns: false,
+        cameraPitchDeg: getCameraPitchDeg(params),
+        cameraYawOffsetDeg: yawOffset,
+      });
       const filtered = region.ring.length >= 3
         ? cameraPositions.filter(([lng, lat]) => pointInRing(lng, lat, region.ring))
         : cameraPositions;
-      filtered.forEach(([lng, lat, altMSL, yawDeg]) => {
+      filtered.forEach(([lng, lat, altMSL, yawDeg, omegaDeg, phiDeg]) => {
         const [x, y] = lngLatToMeters(lng, lat);
         poses.push({
           id: `partition_pose_${poseId++}`,
           x,
           y,
           z: altMSL,
-          omega_deg: 0,
-          phi_deg: 0,
+          omega_deg: omegaDeg,
+          phi_deg: phiDeg,
           kappa_deg: normalizeDeg(-yawDeg + yawOffset),
           polygonId: region.id,
         });
@@ -1126,42 +1141,28 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
 
     if (poses.length === 0) throw new Error('No camera poses could be generated for this partition.');
 
-    const worker = new OverlapWorker();
-    try {
-      const perRegionStats = new Map<string, GSDStats[]>();
-      for (const tileRef of allTileRefs) {
-        const { tile } = await getTile(tileRef);
-        const res = await worker.runTile({
-          tile,
-          polygons: virtualPolygons.map(({ id, ring }) => ({ id, ring })),
-          poses,
-          cameras: [camera],
-          poseCameraIndices: new Uint16Array(poses.length),
-          camera: undefined,
-          options: { clipInnerBufferM, minOverlapForGsd: minOverlapForGsdRef.current },
-        } as any);
-        (res.perPolygon ?? []).forEach((polyStats) => {
-          if (!polyStats.gsdStats) return;
-          const list = perRegionStats.get(polyStats.polygonId) ?? [];
-          list.push(polyStats.gsdStats);
-          perRegionStats.set(polyStats.polygonId, list);
-        });
-      }
-      const regionSummaries = Array.from(perRegionStats.values())
-        .map((statsList) => aggregateMetricStats(statsList))
-        .filter((stats) => stats.count > 0);
-      if (regionSummaries.length === 0) throw new Error('No camera GSD preview could be computed for this partition.');
-      return {
-        metricKind: 'gsd',
-        stats: aggregateMetricStats(regionSummaries),
-        regionStats: regionSummaries,
-        regionCount: solution.regionCount,
-        sampleCount: poses.length,
-        sampleLabel: 'Images',
-      };
-    } finally {
-      worker.terminate();
-    }
+    const cameraJobs: TileJob<OverlapWorker, WorkerOut>[] = allTileRefs.map((tileRef) => async (worker) => {
+      const { tile } = await getTile(tileRef);
+      return worker.runTile({
+        tile,
+        polygons: virtualPolygons.map(({ id, ring }) => ({ id, ring })),
+        poses,
+        cameras: [camera],
+        poseCameraIndices: new Uint16Array(poses.length),
+        camera: undefined,
+        options: { clipInnerBufferM, minOverlapForGsd: minOverlapForGsdRef.current },
+      } as any);
+    });
+    const regionSummaries = regionSummariesOf((await runTileJobs(() => new OverlapWorker(), cameraJobs)) ?? [], 'gsdStats');
+    if (regionSummaries.length === 0) throw new Error('No camera GSD preview could be computed for this partition.');
+    return {
+      metricKind: 'gsd',
+      stats: aggregateMetricStats(regionSummaries),
+      regionStats: regionSummaries,
+      regionCount: solution.regionCount,
+      sampleCount: poses.length,
+      sampleLabel: 'Images',
+    };
   }, [
     altitude,
     altitudeModeUI,
@@ -1173,6 +1174,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     lineSpacingFor,
     mapRef,
     mapboxToken,
+    maxTerrainGradientUI,
     minClearanceUI,
     minOverlapForGsdRef,
     photoSpacingFor,
@@ -1532,12 +1534,16 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
   }, [activeSelectedId]);
 
   /**
-   * Compute payload-aware coverage analysis for either:
-   *  - a single polygon (opts.polygonId provided), or
-   *  - all polygons (default)
+   * Compute payload-aware coverage analysis. Only tiles reached by polygons whose outline,
+   * poses or strips changed since the last completed run are recomputed (see overlap/incremental);
+   * opts.full, or a change to a setting shared by all tiles, recomputes every tile.
+   * opts.polygonId names the polygon that triggered the run, for logging.
    */
-  const compute = useCallback(async (opts?: { polygonId?: string; suppressMapNotReadyToast?: boolean }) => {
+  const compute = useCallback(async (opts?: { polygonId?: string; suppressMapNotReadyToast?: boolean; full?: boolean }) => {
     if (runningRef.current) {
+      // Inputs changed mid-run: stop the pool after its current tiles and start over with the queued run
+      computeSeqRef.current += 1;
+      computeAbortRef.current?.abort();
       const nextPending = pendingComputeRef.current;
       pendingComputeRef.current = {
         polygonId: nextPending?.polygonId === undefined || opts?.polygonId === undefined
@@ -1546,8 +1552,9 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
         suppressMapNotReadyToast: Boolean(
           nextPending?.suppressMapNotReadyToast || opts?.suppressMapNotReadyToast
         ),
+        full: Boolean(nextPending?.full || opts?.full),
       };
-      splitPerfLog(opts?.polygonId ?? '__all__', 'coverage compute queued while another run is active', {
+      splitPerfLog(opts?.polygonId ?? '__all__', 'coverage compute queued, cancelling the active run', {
         queued: pendingComputeRef.current,
       });
       return;
@@ -1592,7 +1599,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
         } else if (overrideCam && typeof overrideCam === 'object' && 'f_m' in overrideCam) {
           cam = overrideCam;
         }
-        if (!cam) cam = SONY_RX1R2;
+        if (!cam) cam = DEFAULT_CAMERA;
         if (!camObjToIndex.has(cam)) {
           camObjToIndex.set(cam, cams.length);
           cams.push(cam);
@@ -1633,24 +1640,8 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
 
     const cameraPolygons = allPolygons.filter((polygon) => !isLidarPayload(polygon.id || 'unknown', paramsMap));
     const lidarPolygons = allPolygons.filter((polygon) => isLidarPayload(polygon.id || 'unknown', paramsMap));
-    const requestedTargetPolygonId = opts?.polygonId;
-    const currentTargetPolygon = requestedTargetPolygonId
-      ? allPolygons.find((polygon) => (polygon.id || 'unknown') === requestedTargetPolygonId)
-      : undefined;
-    const previousTargetRing = requestedTargetPolygonId
-      ? prevPolygonRingsRef.current.get(requestedTargetPolygonId)
-      : undefined;
-    const targetPolygonMoved = !!(
-      requestedTargetPolygonId &&
-      currentTargetPolygon?.ring &&
-      previousTargetRing &&
-      !ringsRoughlyEqual(currentTargetPolygon.ring, previousTargetRing)
-    );
-    const targetPolygonId = targetPolygonMoved ? undefined : requestedTargetPolygonId;
-    const targetIsCamera = targetPolygonId ? cameraPolygons.some((polygon) => (polygon.id || 'unknown') === targetPolygonId) : cameraPolygons.length > 0;
-    const targetIsLidar = targetPolygonId ? lidarPolygons.some((polygon) => (polygon.id || 'unknown') === targetPolygonId) : lidarPolygons.length > 0;
-    const canRunCamera = targetIsCamera && poses.length > 0;
-    const canRunLidar = targetIsLidar;
+    const canRunCamera = cameraPolygons.length > 0 && poses.length > 0;
+    const canRunLidar = lidarPolygons.length > 0;
 
     if (!canRunCamera && !canRunLidar) {
       toast({ variant: 'destructive', title: 'Missing inputs', description: 'Provide poses or generate flight lines before running analysis.' });
@@ -1682,17 +1673,37 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
 
     const computeStartedAt = splitPerfNow();
     const mySeq = ++computeSeqRef.current;
+    computeAbortRef.current?.abort();
+    const runAbort = new AbortController();
+    computeAbortRef.current = runAbort;
     const scope = opts?.polygonId ?? '__all__';
     splitPerfLog(scope, 'coverage compute start', {
       seq: mySeq,
       polygonId: opts?.polygonId,
     });
 
+    // Inputs shared by every tile: when one changes, no earlier tile result can be reused
+    const settingsFingerprint = fingerprintOf({
+      zoom,
+      clipInnerBufferM,
+      minOverlapForGsd: minOverlapForGsdRef.current,
+      occlusion: terrainOcclusionRef.current,
+      terrainSourceVersion: getTerrainSourceVersion(),
+    });
+    const previousInfluence = coverageInfluenceRef.current;
+    const fullRun = !!opts?.full || !previousInfluence || previousInfluence.settings !== settingsFingerprint;
+
     const now = Date.now();
-    if (!opts?.polygonId || targetPolygonMoved) {
+    if (fullRun) {
       clearAllOverlays(map);
       globalRunIdRef.current = `${now}`;
       perPolyTileStatsRef.current.clear();
+      coverageTilesRef.current.camera.clear();
+      coverageTilesRef.current.lidar.clear();
+      // Until this run completes, the next one starts from scratch too
+      coverageInfluenceRef.current = null;
+      staleTileKeysRef.current = { camera: new Set(), lidar: new Set() };
+      stableHitIdsRef.current = { poses: new Map(), lines: new Map() };
     }
     const runId = globalRunIdRef.current ?? `${now}`;
     if (!globalRunIdRef.current) globalRunIdRef.current = runId;
@@ -1709,18 +1720,6 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
           tiles.push({ z: zoom, x: tile.x, y: tile.y });
         }
       }
-      if (targetPolygonId && sourcePolygons.some((polygon) => (polygon.id || 'unknown') === targetPolygonId)) {
-        const prevRing = prevPolygonRingsRef.current.get(targetPolygonId);
-        if (prevRing && prevRing.length >= 4) {
-          const prevPolygon = { id: targetPolygonId, ring: prevRing } as PolygonLngLatWithId;
-          for (const tile of tilesCoveringPolygon(prevPolygon, zoom)) {
-            const key = `${zoom}/${tile.x}/${tile.y}`;
-            if (seen.has(key)) continue;
-            seen.add(key);
-            tiles.push({ z: zoom, x: tile.x, y: tile.y });
-          }
-        }
-      }
       return tiles;
     };
 
@@ -1755,88 +1754,21 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
       }
     };
 
-    const getTile = async (tileRef: { z: number; x: number; y: number }) => {
-      const cacheKey = `${tileRef.z}/${tileRef.x}/${tileRef.y}`;
-      let tileData = tileCacheRef.current.get(cacheKey);
-      if (!tileData) {
-        const imgData = await fetchTerrainRGBA(tileRef.z, tileRef.x, tileRef.y, mapboxToken);
-        tileData = {
-          width: imgData.width,
-          height: imgData.height,
-          data: new Uint8ClampedArray(imgData.data),
-        };
-        tileCacheRef.current.set(cacheKey, tileData);
-        const maxTiles = 256;
-        if (tileCacheRef.current.size > maxTiles) {
-          const firstKey = tileCacheRef.current.keys().next().value;
-          if (firstKey) tileCacheRef.current.delete(firstKey);
-        }
-      }
-      return {
-        cacheKey,
-        tile: { z: tileRef.z, x: tileRef.x, y: tileRef.y, size: tileData.width, data: new Uint8ClampedArray(tileData.data) },
-      };
-    };
-
-    const normalizeTileRef = (tileRef: { z: number; x: number; y: number }) => {
-      const tilesPerAxis = 1 << tileRef.z;
-      const wrappedX = ((tileRef.x % tilesPerAxis) + tilesPerAxis) % tilesPerAxis;
-      const clampedY = Math.max(0, Math.min(tilesPerAxis - 1, tileRef.y));
-      return { z: tileRef.z, x: wrappedX, y: clampedY };
-    };
-
-    const getLidarTileWithHalo = async (tileRef: { z: number; x: number; y: number }, padTiles = 1) => {
-      const center = await getTile(tileRef);
-      if (padTiles <= 0) {
-        return {
-          cacheKey: center.cacheKey,
-          tile: center.tile,
-          demTile: {
-            size: center.tile.size,
-            padTiles: 0,
-            data: center.tile.data,
-          },
-        };
-      }
-
-      const offsets: Array<{ dx: number; dy: number; tileRef: { z: number; x: number; y: number } }> = [];
-      for (let dy = -padTiles; dy <= padTiles; dy++) {
-        for (let dx = -padTiles; dx <= padTiles; dx++) {
-          offsets.push({
-            dx,
-            dy,
-            tileRef: normalizeTileRef({ z: tileRef.z, x: tileRef.x + dx, y: tileRef.y + dy }),
-          });
-        }
-      }
+    const getTile = async (tileRef: { z: number; x: number; y: number }) => ({
+      cacheKey: `${tileRef.z}/${tileRef.x}/${tileRef.y}`,
+      tile: await getDemTile(tileRef.z, tileRef.x, tileRef.y, mapboxToken, runAbort.signal),
+    });
 
-      const neighborTiles = await Promise.all(offsets.map((entry) => getTile(entry.tileRef)));
-      const tileSize = center.tile.size;
-      const span = padTiles * 2 + 1;
-      const demSize = tileSize * span;
-      const demData = new Uint8ClampedArray(demSize * demSize * 4);
-
-      for (let i = 0; i < offsets.length; i++) {
-        const { dx, dy } = offsets[i];
-        const srcTile = neighborTiles[i].tile;
-        const offsetX = (dx + padTiles) * tileSize;
-        const offsetY = (dy + padTiles) * tileSize;
-        for (let row = 0; row < tileSize; row++) {
-          const srcStart = row * tileSize * 4;
-          const dstStart = ((offsetY + row) * demSize + offsetX) * 4;
-          demData.set(srcTile.data.subarray(srcStart, srcStart + tileSize * 4), dstStart);
-        }
-      }
+    const getTileWithHalo = async (tileRef: { z: number; x: number; y: number }, padTiles = 1) => ({
+      cacheKey: `${tileRef.z}/${tileRef.x}/${tileRef.y}`,
+      ...(await getDemTileWithHalo(tileRef.z, tileRef.x, tileRef.y, mapboxToken, padTiles, runAbort.signal)),
+    });
 
-      return {
-        cacheKey: center.cacheKey,
-        tile: center.tile,
-        demTile: {
-          size: demSize,
-          padTiles,
-          data: demData,
-        },
-      };
+    // Tile stats of one payload kind are replaced as a whole, so polygons that no longer reach a recomputed tile drop out of it
+    const resetTileStats = (cacheKey: string, lidar: boolean) => {
+      perPolyTileStatsRef.current.forEach((tileMap, polygonId) => {
+        if (isLidarPayload(polygonId, paramsMap) === lidar) tileMap.delete(cacheKey);
+      });
     };
 
     const upsertTileStats = (cacheKey: string, stats: PolygonTileStats[] | undefined) => {
@@ -1849,69 +1781,217 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
       }
     };
 
+    const removeTileOverlays = (kinds: Array<'overlap' | 'pass' | 'gsd' | 'density'>, cacheKey: string) => {
+      for (const kind of kinds) {
+        const id = `ogsd-${runId}-${kind}-${cacheKey.split('/').join('-')}`;
+        try {
+          if (map.getLayer(id)) map.removeLayer(id);
+          if (map.getSource(id)) map.removeSource(id);
+        } catch {}
+      }
+    };
+
     runningRef.current = true;
     setRunning(true);
     autoTriesRef.current = 0;
 
-    const cameraWorker = canRunCamera ? new OverlapWorker() : null;
-    const lidarWorker = canRunLidar ? new LidarDensityWorker() : null;
     try {
-      if (cameraWorker && camerasArr && cameraPolygons.length > 0) {
-        const cameraSourcePolygons = targetPolygonId
-          ? cameraPolygons.filter((polygon) => (polygon.id || 'unknown') === targetPolygonId)
-          : cameraPolygons;
-        const cameraTiles = collectTiles(cameraSourcePolygons);
-        for (const tileRef of cameraTiles) {
-          const { cacheKey, tile } = await getTile(tileRef);
-          const res = await cameraWorker.runTile({
-            tile,
-            polygons: cameraPolygons,
-            poses,
-            cameras: camerasArr,
-            poseCameraIndices: poseIdxArr,
-            camera: undefined,
-            options: { clipInnerBufferM, minOverlapForGsd: minOverlapForGsdRef.current },
-          } as any);
-          if (mySeq !== computeSeqRef.current) break;
-          upsertTileStats(cacheKey, res.perPolygon);
-          if (showOverlap) addOrUpdateTileOverlay(map, res, { kind: "overlap", runId, opacity });
-          if (showGsd) addOrUpdateTileOverlay(map, res, { kind: "gsd", runId, opacity, gsdMin: 0.005, gsdMax: 0.06 });
+      const isCancelled = () => mySeq !== computeSeqRef.current;
+      const stableIds = stableHitIdsRef.current;
+
+      // Camera: each polygon reaches the tiles under its outline and those its poses' footprints can land in
+      const cameraTiles = canRunCamera ? collectTiles(cameraPolygons) : [];
+      const nextCameraInfluence: CoverageInfluenceMap = new Map();
+      const poseKeys: string[] = new Array(poses.length);
+      if (canRunCamera) {
+        const groundTiles = await Promise.all(cameraTiles.map((tileRef) => getDemTile(tileRef.z, tileRef.x, tileRef.y, mapboxToken, runAbort.signal)));
+        const groundFloorM = groundTiles.reduce((lowest, tile) => Math.min(lowest, lowestHeight(tile)), Number.POSITIVE_INFINITY);
+        const cameraOf = (poseIndex: number) => camerasArr?.[poseIdxArr?.[poseIndex] ?? 0] ?? DEFAULT_CAMERA;
+        const poseIndicesByPolygon = new Map<string, number[]>();
+        poses.forEach((pose, i) => {
+          const polygonId = pose.polygonId ?? '__POSES__';
+          const indices = poseIndicesByPolygon.get(polygonId) ?? [];
+          poseKeys[i] = `${polygonId}#${indices.length}`;
+          indices.push(i);
+          poseIndicesByPolygon.set(polygonId, indices);
+        });
+        const polygonIds = new Set([...cameraPolygons.map((polygon) => polygon.id || 'unknown'), ...poseIndicesByPolygon.keys()]);
+        for (const polygonId of polygonIds) {
+          const polygon = polygonMap.get(polygonId);
+          const indices = poseIndicesByPolygon.get(polygonId) ?? [];
+          const polygonPoses = indices.map((i) => poses[i]);
+          const tileKeys = polygon ? polygonTileKeys(polygon, zoom) : new Set<string>();
+          poseTileKeys(polygonPoses, (k) => cameraOf(indices[k]), zoom, Number.isFinite(groundFloorM) ? groundFloorM : 0, tileKeys);
+          nextCameraInfluence.set(polygonId, {
+            fingerprint: fingerprintOf({
+              ring: polygon?.ring,
+              holes: polygon?.holes,
+              cameras: Array.from(new Set(indices.map(cameraOf))),
+              poses: polygonPoses.map((pose) => [pose.x, pose.y, pose.z, pose.omega_deg, pose.phi_deg, pose.kappa_deg]),
+            }),
+            tileKeys,
+          });
         }
       }
 
-      if (lidarWorker && lidarPolygons.length > 0) {
-        const lidarSourcePolygons = targetPolygonId
-          ? lidarPolygons.filter((polygon) => (polygon.id || 'unknown') === targetPolygonId)
-          : lidarPolygons;
-        const lidarTiles = collectTiles(lidarSourcePolygons);
-        const { strips: lidarStrips } = buildLidarStrips(paramsMap);
-        for (const tileRef of lidarTiles) {
+      // Lidar: the tiles under each polygon and those its strips can return points from
+      const { strips: lidarStrips } = canRunLidar ? buildLidarStrips(paramsMap) : { strips: [] as LidarStripMeters[] };
+      const nextLidarInfluence: CoverageInfluenceMap = new Map();
+      const lineKeys: string[] = [];
+      if (canRunLidar) {
+        const stripsByPolygon = new Map<string, LidarStripMeters[]>();
+        for (const strip of lidarStrips) {
+          const polygonId = strip.polygonId ?? 'unknown';
+          if (typeof strip.passIndex === 'number') lineKeys[strip.passIndex] = (strip.id ?? polygonId).replace(/-seg-\d+$/, '');
+          const polygonStrips = stripsByPolygon.get(polygonId) ?? [];
+          polygonStrips.push(strip);
+          stripsByPolygon.set(polygonId, polygonStrips);
+        }
+        for (const polygon of lidarPolygons) {
+          const polygonId = polygon.id || 'unknown';
+          const polygonStrips = stripsByPolygon.get(polygonId) ?? [];
+          nextLidarInfluence.set(polygonId, {
+            // Pass indices run across polygons, so they shift when an earlier polygon gains lines
+            fingerprint: fingerprintOf({
+              ring: polygon.ring,
+              holes: polygon.holes,
+              strips: polygonStrips.map(({ passIndex: _passIndex, ...strip }) => strip),
+            }),
+            tileKeys: stripTileKeys(polygonStrips, zoom, polygonTileKeys(polygon, zoom)),
+          });
+        }
+      }
+
+      const tilesToCompute = (
+        kind: 'camera' | 'lidar',
+        tiles: { z: number; x: number; y: number }[],
+        nextInfluence: CoverageInfluenceMap,
+      ) => {
+        if (fullRun || !previousInfluence) return tiles;
+        const dirty = dirtyTileKeys(previousInfluence[kind], nextInfluence);
+        staleTileKeysRef.current[kind].forEach((key) => dirty.add(key));
+        return tiles.filter((tileRef) => {
+          const key = `${tileRef.z}/${tileRef.x}/${tileRef.y}`;
+          return dirty.has(key) || !coverageTilesRef.current[kind].has(key);
+        });
+      };
+
+      const cameraJobs: TileJob<OverlapWorker, { cacheKey: string; res: WorkerOut }>[] = [];
+      if (canRunCamera && camerasArr) {
+        const occlusion = terrainOcclusionRef.current;
+        for (const tileRef of tilesToCompute('camera', cameraTiles, nextCameraInfluence)) {
+          staleTileKeysRef.current.camera.add(`${tileRef.z}/${tileRef.x}/${tileRef.y}`);
+          cameraJobs.push(async (worker) => {
+            // Occlusion needs neighbouring terrain so ridges just outside the tile can block views
+            const { cacheKey, tile, demTile } = occlusion
+              ? await getTileWithHalo(tileRef, 1)
+              : { ...(await getTile(tileRef)), demTile: undefined };
+            const res = await worker.runTile({
+              tile,
+              demTile,
+              polygons: cameraPolygons,
+              poses,
+              cameras: camerasArr,
+              poseCameraIndices: poseIdxArr,
+              camera: undefined,
+              options: { clipInnerBufferM, minOverlapForGsd: minOverlapForGsdRef.current, occlusion },
+            } as any);
+            return { cacheKey, res };
+          });
+        }
+      }
+
+      const lidarJobs: TileJob<LidarDensityWorker, { cacheKey: string; res: LidarWorkerOut }>[] = [];
+      // Recomputed tiles that no strip reaches any more; their old density is dropped
+      const clearedLidarTileKeys: string[] = [];
+      if (canRunLidar) {
+        for (const tileRef of tilesToCompute('lidar', collectTiles(lidarPolygons), nextLidarInfluence)) {
+          const cacheKey = `${tileRef.z}/${tileRef.x}/${tileRef.y}`;
           const tileStrips = lidarStrips.filter((strip) => lidarStripMayAffectTile(strip, tileRef));
-          if (tileStrips.length === 0) continue;
-          const { cacheKey, tile, demTile } = await getLidarTileWithHalo(tileRef, 1);
-          const res = await lidarWorker.runTile({
-            tile,
-            demTile,
-            // Lidar density overlays are tile-global and additive across overlapping polygons.
-            // Even during a targeted recompute, evaluate the affected tiles against the full lidar
-            // polygon set so we do not overwrite a shared tile with one-polygon-only density.
-            polygons: lidarPolygons,
-            strips: tileStrips,
-            options: { clipInnerBufferM },
-          } as any);
-          if (mySeq !== computeSeqRef.current) break;
-          upsertTileStats(cacheKey, res.perPolygon);
-          if (showOverlap) addOrUpdateTileOverlay(map, res, { kind: "pass", runId, opacity });
-          if (showGsd) addOrUpdateTileOverlay(map, res, { kind: "density", runId, opacity, densityMin: 10, densityMax: 100 });
+          if (tileStrips.length === 0) {
+            clearedLidarTileKeys.push(cacheKey);
+            continue;
+          }
+          staleTileKeysRef.current.lidar.add(cacheKey);
+          lidarJobs.push(async (worker) => {
+            const { cacheKey, tile, demTile } = await getTileWithHalo(tileRef, 1);
+            const res = await worker.runTile({
+              tile,
+              demTile,
+              // Lidar density overlays are tile-global and additive across overlapping polygons, so a
+              // recomputed tile is always evaluated against the full lidar polygon set and all strips.
+              polygons: lidarPolygons,
+              strips: tileStrips,
+              options: { clipInnerBufferM },
+            } as any);
+            return { cacheKey, res };
+          });
         }
       }
+      splitPerfLog(scope, 'coverage tiles planned', {
+        full: fullRun,
+        cameraTiles: cameraJobs.length,
+        lidarTiles: lidarJobs.length,
+      });
+
+      const totalJobs = cameraJobs.length + lidarJobs.length;
+      setProgress({ done: 0, total: totalJobs });
+      const cameraResults = await runTileJobs(() => new OverlapWorker(), cameraJobs, {
+        isCancelled,
+        onResult: ({ cacheKey, res }) => {
+          coverageTilesRef.current.camera.set(cacheKey, res);
+          drawTileOverlays(map, 'camera', res, runId);
+        },
+        onProgress: (done) => setProgress({ done, total: totalJobs }),
+      });
+      if (!cameraResults) return;
+      cameraResults.forEach(({ cacheKey, res }) => {
+        resetTileStats(cacheKey, false);
+        upsertTileStats(cacheKey, res.perPolygon?.map((stats) => stats.hitPoseIds
+          ? { ...stats, hitPoseIds: stableHitIds(stats.hitPoseIds, poseKeys, stableIds.poses) }
+          : stats));
+      });
+
+      const lidarResults = await runTileJobs(() => new LidarDensityWorker(), lidarJobs, {
+        isCancelled,
+        onResult: ({ cacheKey, res }) => {
+          coverageTilesRef.current.lidar.set(cacheKey, res);
+          drawTileOverlays(map, 'lidar', res, runId);
+        },
+        onProgress: (done) => setProgress({ done: cameraJobs.length + done, total: totalJobs }),
+      });
+      if (!lidarResults) return;
+      lidarResults.forEach(({ cacheKey, res }) => {
+        resetTileStats(cacheKey, true);
+        upsertTileStats(cacheKey, res.perPolygon?.map((stats) => stats.hitLineIds
+          ? { ...stats, hitLineIds: stableHitIds(stats.hitLineIds, lineKeys, stableIds.lines) }
+          : stats));
+      });
+      for (const cacheKey of clearedLidarTileKeys) {
+        resetTileStats(cacheKey, true);
+        coverageTilesRef.current.lidar.delete(cacheKey);
+        removeTileOverlays(['pass', 'density'], cacheKey);
+      }
 
       if (mySeq !== computeSeqRef.current) return;
+      coverageInfluenceRef.current = {
+        settings: settingsFingerprint,
+        // Without poses the camera tiles were not touched and keep their earlier record
+        camera: canRunCamera || cameraPolygons.length === 0 || fullRun ? nextCameraInfluence : previousInfluence?.camera ?? new Map(),
+        lidar: nextLidarInfluence,
+      };
+      staleTileKeysRef.current = { camera: new Set(), lidar: new Set() };
 
       const neededCameraTileKeys = buildNeededTileKeys(cameraPolygons);
       const neededLidarTileKeys = buildNeededTileKeys(lidarPolygons);
       pruneOverlaysByKinds(['overlap', 'gsd'], neededCameraTileKeys);
       pruneOverlaysByKinds(['pass', 'density'], neededLidarTileKeys);
+      for (const key of Array.from(coverageTilesRef.current.camera.keys())) {
+        if (!neededCameraTileKeys.has(key)) coverageTilesRef.current.camera.delete(key);
+      }
+      for (const key of Array.from(coverageTilesRef.current.lidar.keys())) {
+        if (!neededLidarTileKeys.has(key)) coverageTilesRef.current.lidar.delete(key);
+      }
 
       const emptyPolygonIds: string[] = [];
       perPolyTileStatsRef.current.forEach((tileMap, polygonId) => {
@@ -1930,8 +2010,11 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
       perPolyTileStatsRef.current.forEach((polygonTileStatsMap, polygonId) => {
         const polygon = polygonMap.get(polygonId);
         if (!polygon) return;
-        const areaAcres = calculatePolygonAreaAcres(polygon.ring);
-        const allTileStats = Array.from(polygonTileStatsMap.values());
+        const areaAcres = calculatePolygonAreaAcres(polygon.ring, polygon.holes);
+        // Tile key order, not completion order, so the pooled run always aggregates identically
+        const allTileStats = Array.from(polygonTileStatsMap.entries())
+          .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+          .map(([, stats]) => stats);
         const isLidarPolygon = isLidarPayload(polygonId, paramsMap);
 
         if (isLidarPolygon) {
@@ -1964,13 +2047,15 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
         const aggregatedGsdStats = aggregateMetricStats(gsdStatList);
         if (!(aggregatedGsdStats.count > 0)) return;
         const uniquePoseIds = new Set<number>();
+        let occludedAreaM2: number | undefined;
         for (const stats of allTileStats) {
+          if (typeof stats.occludedAreaM2 === 'number') occludedAreaM2 = (occludedAreaM2 ?? 0) + stats.occludedAreaM2;
           const hitPoseIds = stats.hitPoseIds;
           if (!hitPoseIds) continue;
           for (let i = 0; i < hitPoseIds.length; i++) uniquePoseIds.add(hitPoseIds[i]);
         }
         const params = (paramsMap as any)[polygonId];
-        let cameraLabel = 'SONY_RX1R2';
+        let cameraLabel = DEFAULT_CAMERA_KEY;
         if (params?.cameraKey && CAMERA_REGISTRY[params.cameraKey]) {
           cameraLabel = params.cameraKey;
         } else if (overrideCam) {
@@ -1984,6 +2069,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
           sampleCount: uniquePoseIds.size,
           sampleLabel: 'Images',
           sourceLabel: cameraLabel,
+          occludedAreaM2,
         });
         gsdSummaries.push(aggregatedGsdStats);
       });
@@ -2002,13 +2088,10 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
         });
         if (api?.addCameraPoints) api.addCameraPoints('__POSES__', cameraPositions);
       }
-
-      prevPolygonRingsRef.current = new Map(getPolygons().map((polygon) => [polygon.id || 'unknown', polygon.ring] as const));
     } finally {
-      cameraWorker?.terminate();
-      lidarWorker?.terminate();
       runningRef.current = false;
       setRunning(false);
+      setProgress(null);
       splitPerfLog(scope, 'coverage compute end', {
         seq: mySeq,
         totalMs: Math.round(splitPerfNow() - computeStartedAt),
@@ -2021,7 +2104,20 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
         }, 0);
       }
     }
-  }, [CAMERA_REGISTRY, aggregateMetricStats, buildLidarStrips, cameraText, clipInnerBufferM, getMergedParamsMap, getPolygons, importedPoses, isLidarPayload, mapRef, mapboxToken, opacity, parseCameraOverride, parsePosesMeters, showCameraPoints, showGsd, showOverlap, zoom]);
+  }, [CAMERA_REGISTRY, aggregateMetricStats, buildLidarStrips, cameraText, clipInnerBufferM, drawTileOverlays, getMergedParamsMap, getPolygons, importedPoses, isLidarPayload, mapRef, mapboxToken, parseCameraOverride, parsePosesMeters, showCameraPoints, zoom]);
+
+  // Toggling an overlay or changing its opacity redraws the cached tile results
+  React.useEffect(() => {
+    const style = overlayStyleRef.current;
+    if (style.showOverlap === showOverlap && style.showGsd === showGsd && style.opacity === opacity) return;
+    overlayStyleRef.current = { showOverlap, showGsd, opacity };
+    const map: mapboxgl.Map | undefined = mapRef.current?.getMap?.();
+    const runId = globalRunIdRef.current;
+    if (!map || !runId) return;
+    clearAllOverlays(map);
+    coverageTilesRef.current.camera.forEach((res) => drawTileOverlays(map, 'camera', res, runId));
+    coverageTilesRef.current.lidar.forEach((res) => drawTileOverlays(map, 'lidar', res, runId));
+  }, [drawTileOverlays, mapRef, opacity, showGsd, showOverlap]);
 
   // Auto-run function that can be called externally
   const autoRun = useCallback(async (opts?: { polygonId?: string; reason?: 'lines'|'spacing'|'alt'|'manual' }) => {
@@ -2045,11 +2141,6 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     if (!autoGenerate) return; // nothing else to auto-run
 
     const rings: [number, number][][] = api?.getPolygons?.() ?? [];
-    const requiresGlobalRasterRefresh = !!(
-      opts?.polygonId &&
-      opts.reason &&
-      ['lines', 'spacing', 'alt'].includes(opts.reason)
-    );
     const fl = api?.getFlightLines?.();
     const haveLines = !!fl && (
       opts?.polygonId
@@ -2072,11 +2163,11 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     if (ready && havePolys && haveLines) {
       if (!poses?.length && !haveLidarPolys) return;
       autoTriesRef.current = 0;
-      // Recompute from scratch; defer one tick for state flush after edits/deletes
-      // Always defer one tick to allow React state updates (lines/tiles) to flush
+      // Only tiles reached by the edited polygon are recomputed. Always defer one tick to allow
+      // React state updates (lines/tiles) to flush after edits/deletes
       setTimeout(
         () => compute({
-          polygonId: requiresGlobalRasterRefresh ? undefined : opts?.polygonId,
+          polygonId: opts?.polygonId,
           suppressMapNotReadyToast: true,
         }),
         0,
@@ -2146,6 +2237,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     if (map) {
       // Invalidate any in-flight compute
       computeSeqRef.current += 1;
+      computeAbortRef.current?.abort();
       if (autoRunTimeoutRef.current) { clearTimeout(autoRunTimeoutRef.current); autoRunTimeoutRef.current = null; }
       if (deferredComputeTimeoutRef.current !== null) {
         clearTimeout(deferredComputeTimeoutRef.current);
@@ -2154,7 +2246,9 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
       // Remove all overlays regardless of run id to be safe
       clearAllOverlays(map);
       perPolyTileStatsRef.current.clear();
-      prevPolygonRingsRef.current = new Map();
+      coverageTilesRef.current.camera.clear();
+      coverageTilesRef.current.lidar.clear();
+      coverageInfluenceRef.current = null;
       const now = Date.now();
       globalRunIdRef.current = `${now}`;
       const api = mapRef.current;
@@ -2173,6 +2267,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
   const resetComputedAnalysisState = useCallback(() => {
     const map: any = mapRef.current?.getMap?.();
     computeSeqRef.current += 1;
+    computeAbortRef.current?.abort();
     if (autoRunTimeoutRef.current) {
       clearTimeout(autoRunTimeoutRef.current);
       autoRunTimeoutRef.current = null;
@@ -2187,7 +2282,9 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     const now = Date.now();
     globalRunIdRef.current = `${now}`;
     perPolyTileStatsRef.current.clear();
-    prevPolygonRingsRef.current = new Map();
+    coverageTilesRef.current.camera.clear();
+    coverageTilesRef.current.lidar.clear();
+    coverageInfluenceRef.current = null;
     setOverallStats({ gsd: null, density: null });
     setPerPolygonStats(new Map());
     if (mapRef.current?.removeCameraPoints) {
@@ -2216,6 +2313,31 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     onClearExposed?.(clear);
   }, [clear, onClearExposed]);
 
+  React.useEffect(() => {
+    onExposeAreaStats?.(() => {
+      const out: Record<string, GisAreaStats> = {};
+      perPolygonStats.forEach((summary, polygonId) => {
+        out[polygonId] = {
+          metricKind: summary.metricKind,
+          min: summary.stats.min,
+          mean: summary.stats.mean,
+          max: summary.stats.max,
+          sampleCount: summary.sampleCount,
+          areaM2: summary.areaAcres * 4046.8564224,
+        };
+      });
+      return out;
+    });
+  }, [onExposeAreaStats, perPolygonStats]);
+
+  React.useEffect(() => {
+    onExposeCoverageTiles?.(() => ({
+      camera: Array.from(coverageTilesRef.current.camera.values()),
+      lidar: Array.from(coverageTilesRef.current.lidar.values()),
+      areas: getPolygons().map(({ ring, holes }) => ({ ring, holes })),
+    }));
+  }, [getPolygons, onExposeCoverageTiles]);
+
   const handlePoseFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -2248,7 +2370,9 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
               if (relErr < 0.05) { matchedRegistryKey = key; break; }
             }
           }
-          const camPayload = matchedRegistryKey ? CAMERA_REGISTRY[matchedRegistryKey] : djiCam;
+          // Registry intrinsics win, but keep the calibrated lens distortion from the OPF file
+          const { k1, k2, k3, p1, p2 } = djiCam;
+          const camPayload = matchedRegistryKey ? { ...CAMERA_REGISTRY[matchedRegistryKey], k1, k2, k3, p1, p2 } : djiCam;
           setCameraText(JSON.stringify(camPayload, null, 2));
           // Auto‑enable override so imported intrinsics are actually used
           setUseOverrideCamera(true);
@@ -2320,6 +2444,130 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
     if (overallStats.density?.count) cards.push({ metricKind: 'density', stats: overallStats.density });
     return cards;
   }, [overallStats]);
+  React.useEffect(() => {
+    onExposeOverallHistograms?.(() =>
+      overallCards.map(({ metricKind, stats }) => ({ metricKind, bins: convertHistogramToArea(stats) })));
+  }, [convertHistogramToArea, onExposeOverallHistograms, overallCards]);
+  // Time/energy per polygon along the 3D path the map draws, flown by the selected aircraft in the current wind.
+  // Read after commit: the map renders after this panel, so its paths follow setting changes only then.
+  const [flightPerformanceByPolygon, setFlightPerformanceByPolygon] = useState<Map<string, FlightPathPerformance>>(new Map());
+  React.useEffect(() => {
+    const result = new Map<string, FlightPathPerformance>();
+    const api = mapRef.current;
+    if (!api?.getFlightPath3D || !api?.getPolygonTiles || perPolygonStats.size === 0) {
+      setFlightPerformanceByPolygon(result);
+      return;
+    }
+    const tilesMap = api.getPolygonTiles();
+    const paramsMap = getMergedParamsMap();
+    const model = getAircraftModel(aircraftKeyUI);
+    for (const polygonId of Array.from(perPolygonStats.keys())) {
+      if ((tilesMap.get(polygonId) || []).length === 0) continue;
+      const path3D = api.getFlightPath3D(polygonId);
+      if (!path3D) continue;
+      const p = (paramsMap as any)[polygonId];
+      const airspeedMps = (p?.payloadKind ?? 'camera') === 'lidar'
+        ? (p?.speedMps ?? getLidarModel(p?.lidarKey).defaultSpeedMps)
+        : model.cruiseSpeedMps;
+      result.set(polygonId, estimateFlightPathPerformance(path3D, model, windUI, airspeedMps));
+    }
+    setFlightPerformanceByPolygon(result);
+  }, [aircraftKeyUI, altitudeModeUI, getMergedParamsMap, mapRef, maxTerrainGradientUI, minClearanceUI, perPolygonStats, turnExtendUI, windUI]);
+  // Gaps against the required overlap (camera) or density (lidar); tiles are refreshed before each stats update
+  const coverageGaps = useMemo(() => {
+    const gaps: CoverageGap[] = [];
+    if (perPolygonStats.size === 0) return gaps;
+    const paramsMap = getMergedParamsMap() as Record<string, any>;
+    const cameraTiles = Array.from(coverageTilesRef.current.camera.values());
+    const lidarTiles = Array.from(coverageTilesRef.current.lidar.values());
+    for (const polygon of getPolygons()) {
+      const polygonId = polygon.id || 'unknown';
+      if (!perPolygonStats.has(polygonId)) continue;
+      const found = isLidarPayload(polygonId, paramsMap)
+        ? findCoverageGaps(polygon, lidarTiles, { metric: 'density', threshold: paramsMap[polygonId]?.targetDensityPtsM2 ?? gapMinDensityUI, minAreaM2: gapMinAreaUI })
+        : findCoverageGaps(polygon, cameraTiles, { metric: 'overlap', threshold: minOverlapForGsd, minAreaM2: gapMinAreaUI });
+      gaps.push(...found);
+    }
+    return gaps;
+  }, [gapMinAreaUI, gapMinDensityUI, getMergedParamsMap, getPolygons, isLidarPayload, minOverlapForGsd, perPolygonStats]);
+
+  const zoomToGap = useCallback((gap: CoverageGap) => {
+    const map = mapRef.current?.getMap?.();
+    if (!map) return;
+    const lngs = gap.ring.map((c) => c[0]);
+    const lats = gap.ring.map((c) => c[1]);
+    map.fitBounds([[Math.min(...lngs), Math.min(...lats)], [Math.max(...lngs), Math.max(...lats)]], { padding: 80, duration: 800, maxZoom: 18 });
+  }, [mapRef]);
+
+  // A fill-in area per gap, flown parallel to its parent's lines with the parent's settings and
+  // reaching one line spacing past the gap, so the extra lines cover it edge to edge
+  const addGapFillIns = useCallback(async (gaps: CoverageGap[]) => {
+    const api = mapRef.current;
+    if (!api?.addFillInAreas || gaps.length === 0) return;
+    const parents = new Map(api.getGisExportAreas().map((area) => [area.polygonId, area]));
+    const paramsMap = getMergedParamsMap() as Record<string, any>;
+    const areas: GisArea[] = gaps.map((gap) => {
+      const parent = parents.get(gap.polygonId);
+      const params: Partial<FlightParams> = parent?.params ?? paramsMap[gap.polygonId] ?? {};
+      return {
+        name: `Gap fill ${getPolygonDisplayName(gap.polygonId).displayName}`,
+        ring: fillInRingForGap(gap, parent?.lineSpacingM ?? 30),
+        params: { ...params, useCustomBearing: true, customBearingDeg: parent?.bearingDeg ?? params.customBearingDeg ?? 0 },
+      };
+    });
+    const { added } = await api.addFillInAreas(areas);
+    if (added > 0) {
+      toast({ title: "Fill-in areas added", description: `${added} area${added === 1 ? '' : 's'} over coverage gaps, flown along the parent area's direction` });
+    }
+  }, [getMergedParamsMap, getPolygonDisplayName, mapRef]);
+
+  // The map owns the route and flight split; re-read them after anything that changes lines, aircraft or limits
+  React.useEffect(() => {
+    const api = mapRef.current as any;
+    setPlannedFlights(api?.getPlannedFlights ? api.getPlannedFlights() : []);
+    setMissionRoute(api?.getMissionRoute ? api.getMissionRoute() : null);
+    if (api?.getHomePoint) setHomePointUI(api.getHomePoint());
+  }, [aircraftKeyUI, homePointUI, mapRef, maxFlightMinutesUI, missionRouteVersion, perPolygonStats, transitClearanceUI, windUI]);
+  React.useEffect(() => {
+    const api = mapRef.current as any;
+    setAirspaceZoneCount(api?.getAirspaceZones ? api.getAirspaceZones().length : 0);
+    setAvoidAirspaceUI(api?.getAvoidAirspace ? api.getAvoidAirspace() : false);
+    setAirspaceViolations(api?.getAirspaceViolations ? api.getAirspaceViolations() : []);
+  }, [airspaceVersion, mapRef]);
+  React.useEffect(() => {
+    const api = mapRef.current as any;
+    setHistoryUI(api?.getHistory ? api.getHistory() : EMPTY_HISTORY);
+  }, [historyVersion, mapRef]);
+  // One row per zone and kind, e.g. "Airport CTR: 3 lines, 1 transit"
+  const airspaceViolationSummary = useMemo(() => {
+    const byZone = new Map<string, { name: string; counts: Record<string, number> }>();
+    for (const violation of airspaceViolations) {
+      const entry = byZone.get(violation.zoneId) ?? { name: violation.zoneName ?? violation.zoneId, counts: {} };
+      entry.counts[violation.kind] = (entry.counts[violation.kind] ?? 0) + 1;
+      byZone.set(violation.zoneId, entry);
+    }
+    return Array.from(byZone.entries()).map(([zoneId, { name, counts }]) => ({
+      zoneId,
+      name,
+      detail: Object.entries(counts).map(([kind, count]) => `${count} ${kind}${count === 1 ? '' : 's'}`).join(', '),
+    }));
+  }, [airspaceViolations]);
+  const missionPerformance = useMemo(() => {
+    if (flightPerformanceByPolygon.size === 0) return null;
+    let totalTimeSec = missionRoute?.transitTimeSec ?? 0;
+    let energyWh = missionRoute?.transitEnergyWh ?? 0;
+    let totalClimbM = 0;
+    let surveyDistanceM = 0;
+    flightPerformanceByPolygon.forEach((perf) => {
+      totalTimeSec += perf.totalTimeSec;
+      energyWh += perf.energyWh;
+      totalClimbM += perf.totalClimbM;
+      surveyDistanceM += perf.distanceM;
+    });
+    for (const leg of missionRoute?.legs ?? []) totalClimbM += Math.max(0, leg.safeAltitude - leg.from[2]);
+    const usableWh = usableBatteryWh(getAircraftModel(aircraftKeyUI));
+    return { totalTimeSec, energyWh, totalClimbM, surveyDistanceM, batteryFraction: usableWh > 0 ? energyWh / usableWh : Number.POSITIVE_INFINITY };
+  }, [aircraftKeyUI, flightPerformanceByPolygon, missionRoute]);
   const displayParamsMap = getMergedParamsMap();
   const lidarPolygonIds = (mapRef.current?.getPolygonsWithIds?.() ?? [])
     .map((polygon) => polygon.id || 'unknown')
@@ -2429,8 +2677,13 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
             const sampleCount = stats?.sampleCount ?? 0;
             const sampleLabel = stats?.sampleLabel ?? (metricKind === 'density' ? 'Flight lines' : 'Images');
             const sourceLabel = stats?.sourceLabel;
+            const occludedAreaM2 = stats?.occludedAreaM2;
+            const performance = flightPerformanceByPolygon.get(polygonId);
             const isSelected = activeSelectedId === polygonId;
             const isPoseArea = polygonId === '__POSES__';
+            const holeCount = analysis?.polygon?.holes?.length ?? 0;
+            // Corridor areas are rebuilt from their centerline, so their outline is not edited directly
+            const corridor = isPoseArea ? null : (mapRef.current?.getCorridor?.(polygonId) ?? null);
 
             return (
               <Card
@@ -2454,7 +2707,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
                       <div className="text-sm font-medium text-gray-900">{displayName}</div>
                       <div className="text-xs text-gray-500 font-mono">#{shortId}</div>
                     </div>
-                    <Badge variant="outline" className="text-[10px] uppercase tracking-wide">{directionSource}</Badge>
+                    <Badge variant="outline" className="text-[10px] uppercase tracking-wide">{corridor ? 'Corridor' : directionSource}</Badge>
                   </div>
 
                   <div className="bg-blue-50 rounded-lg p-2 flex items-center justify-between">
@@ -2462,6 +2715,27 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
                     <span className="font-mono text-lg font-bold text-blue-700">{directionDeg}°</span>
                   </div>
 
+                  {corridor && (
+                    <label className="flex items-center justify-between text-xs text-gray-600" onClick={(e) => e.stopPropagation()}>
+                      <span>Corridor width (m)</span>
+                      <input
+                        key={`${polygonId}-${corridor.widthM}`}
+                        type="number"
+                        min={1}
+                        step={5}
+                        defaultValue={corridor.widthM}
+                        className="h-6 w-20 border rounded px-1 text-right"
+                        onBlur={(e) => {
+                          const widthM = Number(e.target.value);
+                          if (Number.isFinite(widthM) && widthM >= 1 && widthM !== corridor.widthM) {
+                            mapRef.current?.setCorridorWidth?.(polygonId, widthM);
+                          }
+                        }}
+                        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                      />
+                    </label>
+                  )}
+
                   <div className="flex flex-wrap gap-2">
                     {!isPoseArea && (
                       <Button
@@ -2479,7 +2753,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
                       </Button>
                     )}
 
-                    {!isPoseArea && (
+                    {!isPoseArea && !corridor && (
                       <Button
                         size="sm"
                         variant="outline"
@@ -2551,7 +2825,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
                       </Button>
                     )}
 
-                    {!isPoseArea && (
+                    {!isPoseArea && !corridor && (
                       <Button
                         size="sm"
                         variant="secondary"
@@ -2568,10 +2842,41 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
                       </Button>
                     )}
 
+                    {!isPoseArea && !corridor && (
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        className="h-6 px-1.5 text-[11px]"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSelection(polygonId);
+                          mapRef.current?.startHoleDrawing?.(polygonId);
+                        }}
+                        title="Draw an exclusion zone (lake, building, no-fly area) inside this area"
+                      >
+                        Add hole
+                      </Button>
+                    )}
+
+                    {!isPoseArea && holeCount > 0 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-1.5 text-[11px]"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          mapRef.current?.clearPolygonHoles?.(polygonId);
+                        }}
+                        title="Remove all holes from this area"
+                      >
+                        Clear {holeCount} hole{holeCount === 1 ? '' : 's'}
+                      </Button>
+                    )}
+
                     <Button
                       size="sm"
                       className="h-6 px-1.5 text-[11px]"
-                      disabled={isPoseArea}
+                      disabled={isPoseArea || !!corridor}
                       onClick={(e) => {
                         e.stopPropagation();
                         mapRef.current?.optimizePolygonDirection?.(polygonId);
@@ -2620,6 +2925,15 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
                         <div>{sampleLabel}: <span className="font-medium text-gray-900">{sampleCount}</span></div>
                         <div>Area: <span className="font-medium text-gray-900">{areaAcres.toFixed(2)} acres</span></div>
                         {sourceLabel && <div className="col-span-2">System: <span className="font-medium text-gray-900">{sourceLabel}</span></div>}
+                        {occludedAreaM2 !== undefined && (
+                          <div className="col-span-2">Terrain-occluded: <span className="font-medium text-gray-900">{(occludedAreaM2 / 4046.8564224).toFixed(2)} acres</span></div>
+                        )}
+                        {performance && (
+                          <>
+                            <div>Flight time: <span className="font-medium text-gray-900">{(performance.totalTimeSec / 60).toFixed(1)} min</span></div>
+                            <div>Energy: <span className="font-medium text-gray-900">{performance.energyWh.toFixed(0)} Wh ({(performance.batteryFraction * 100).toFixed(0)}% battery)</span></div>
+                          </>
+                        )}
                       </div>
                     </div>
                   ) : (
@@ -2671,6 +2985,323 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
         );
       })}
 
+      {perPolygonStats.size > 0 && (
+        <Card className="mt-2">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm">Coverage Gaps</CardTitle>
+            <CardDescription className="text-xs">
+              Parts of areas below {minOverlapForGsd} overlapping images (camera) or the target point density (lidar); click a gap to zoom to it
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-xs text-gray-600 block">Min lidar density (pts/m²)
+                <input
+                  className="w-full border rounded px-2 py-1 text-xs"
+                  type="number"
+                  min={0}
+                  value={gapMinDensityUI}
+                  onChange={(e)=>setGapMinDensityUI(Math.max(0, parseFloat(e.target.value || '10')))}
+                  title="Used for lidar areas without a target density"
+                />
+              </label>
+              <label className="text-xs text-gray-600 block">Min gap area (m²)
+                <input
+                  className="w-full border rounded px-2 py-1 text-xs"
+                  type="number"
+                  min={0}
+                  value={gapMinAreaUI}
+                  onChange={(e)=>setGapMinAreaUI(Math.max(0, parseFloat(e.target.value || String(DEFAULT_MIN_GAP_AREA_M2))))}
+                />
+              </label>
+            </div>
+            {coverageGaps.length === 0 ? (
+              <div className="text-xs text-gray-500">No gaps above the minimum area.</div>
+            ) : (
+              <>
+                <div className="max-h-48 overflow-y-auto space-y-1 text-xs text-gray-600">
+                  {coverageGaps.map((gap) => (
+                    <div key={gap.id} className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        className="flex-1 text-left px-1 rounded hover:bg-gray-100"
+                        onClick={() => zoomToGap(gap)}
+                      >
+                        <span className="font-medium text-gray-900">{getPolygonDisplayName(gap.polygonId).displayName}</span>
+                        {' · '}{gap.areaM2.toFixed(0)} m²
+                        {' · '}{gap.metric === 'density' ? `${gap.worstValue.toFixed(1)} pts/m² min` : `${gap.worstValue} image${gap.worstValue === 1 ? '' : 's'} min`}
+                        <span className="ml-2 text-gray-400">{gap.center[1].toFixed(5)}, {gap.center[0].toFixed(5)}</span>
+                      </button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-6 px-2 text-[11px]"
+                        onClick={() => addGapFillIns([gap])}
+                        title="Add a small area over this gap flown along its parent area's direction"
+                      >
+                        Fill in
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 px-2 text-[11px]"
+                  onClick={() => addGapFillIns(coverageGaps)}
+                >
+                  Fill in all ({coverageGaps.length})
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {missionPerformance && (
+        <Card className="mt-2">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm">Mission Time &amp; Energy</CardTitle>
+            <CardDescription className="text-xs">
+              {getAircraftModel(aircraftKeyUI).key} · wind {windUI.speedMps.toFixed(1)} m/s from {windUI.fromDeg.toFixed(0)}° · {missionRoute ? 'incl. transit from/to home' : 'excludes transit (no home point)'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-3 text-xs text-gray-600">
+              <div>Flight time: <span className="font-medium text-gray-900">{(missionPerformance.totalTimeSec / 60).toFixed(1)} min</span></div>
+              <div>Energy: <span className="font-medium text-gray-900">{missionPerformance.energyWh.toFixed(0)} Wh</span></div>
+              {missionRoute && (
+                <>
+                  <div>Transit: <span className="font-medium text-gray-900">{(missionRoute.transitDistanceM / 1000).toFixed(2)} km · {(missionRoute.transitTimeSec / 60).toFixed(1)} min</span></div>
+                  <div>Total distance: <span className="font-medium text-gray-900">{((missionPerformance.surveyDistanceM + missionRoute.transitDistanceM) / 1000).toFixed(2)} km</span></div>
+                  {!missionRoute.terrainChecked && (
+                    <div className="col-span-2 text-amber-600">Terrain along transits not loaded yet; clearance unchecked.</div>
+                  )}
+                </>
+              )}
+              <div>Total climb: <span className="font-medium text-gray-900">{missionPerformance.totalClimbM.toFixed(0)} m</span></div>
+              <div>
+                Battery:{' '}
+                <span className={`font-medium ${missionPerformance.batteryFraction > 1 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {(missionPerformance.batteryFraction * 100).toFixed(0)}% of usable
+                </span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="mt-2">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm">Route &amp; Flights</CardTitle>
+          <CardDescription className="text-xs">
+            Orders areas from the home point (drag the marker to move it) and splits them into flights that return home within the time limit and usable battery
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-gray-600">Home:</span>
+            <span className="font-medium text-gray-900">
+              {homePointUI ? `${homePointUI[1].toFixed(5)}, ${homePointUI[0].toFixed(5)}` : 'not set'}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-[11px] ml-auto"
+              onClick={() => {
+                const center = mapRef.current?.getMap?.()?.getCenter();
+                if (!center) return;
+                const point: [number, number] = [center.lng, center.lat];
+                setHomePointUI(point);
+                mapRef.current?.setHomePoint?.(point);
+              }}
+              title="Place the takeoff/landing point at the map center"
+            >
+              Set to map center
+            </Button>
+            {homePointUI && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-1.5 text-[11px]"
+                onClick={() => {
+                  setHomePointUI(null);
+                  mapRef.current?.setHomePoint?.(null);
+                }}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+          <label className="text-xs text-gray-600 block">Max flight time (min)
+            <input
+              className="w-full border rounded px-2 py-1 text-xs"
+              type="number"
+              min={1}
+              value={maxFlightMinutesUI}
+              onChange={(e)=>{
+                const v = Math.max(1, parseFloat(e.target.value||'40'));
+                if (!Number.isFinite(v)) return;
+                setMaxFlightMinutesUI(v);
+                const api = mapRef.current as any;
+                if (api?.setMaxFlightTime) api.setMaxFlightTime(v);
+              }}
+            />
+          </label>
+          <label className="text-xs text-gray-600 block">Transit clearance (m)
+            <input
+              className="w-full border rounded px-2 py-1 text-xs"
+              type="number"
+              min={0}
+              value={transitClearanceUI}
+              onChange={(e)=>{
+                const v = Math.max(0, parseFloat(e.target.value||'80'));
+                setTransitClearanceUI(v);
+                const api = mapRef.current as any;
+                if (api?.setTransitClearance) api.setTransitClearance(v);
+              }}
+            />
+          </label>
+          {homePointUI && plannedFlights.length > 0 && (
+            <div className="space-y-1 text-xs text-gray-600">
+              {plannedFlights.map((flight) => (
+                <div key={flight.index} className="flex items-center gap-2">
+                  <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: flightColor(flight.index) }} />
+                  <span className="font-medium text-gray-900">Flight {flight.index + 1}</span>
+                  <span>{flight.lineCount} lines</span>
+                  <span>{(flight.timeSec / 60).toFixed(1)} min</span>
+                  <span>{flight.energyWh.toFixed(0)} Wh</span>
+                  {flight.overBudget && <Badge variant="destructive" className="text-[10px] px-1 py-0">over limit</Badge>}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mt-2">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm">History</CardTitle>
+          <CardDescription className="text-xs">
+            Undo (Ctrl+Z) and redo (Ctrl+Shift+Z) area, parameter and direction edits; click an entry to go back to it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-[11px]"
+              disabled={historyUI.past.length === 0}
+              onClick={() => mapRef.current?.undo?.()}
+            >
+              Undo
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-[11px]"
+              disabled={historyUI.future.length === 0}
+              onClick={() => mapRef.current?.redo?.()}
+            >
+              Redo
+            </Button>
+          </div>
+          {historyUI.past.length + historyUI.future.length > 0 && (
+            <div className="max-h-40 overflow-y-auto space-y-0.5 text-xs">
+              <button
+                type="button"
+                className={`block w-full text-left px-1 rounded hover:bg-gray-100 ${historyUI.past.length === 0 ? 'font-medium text-gray-900' : 'text-gray-600'}`}
+                onClick={() => mapRef.current?.goToHistoryEntry?.(0)}
+              >
+                Start
+              </button>
+              {historyUI.past.map((entry, index) => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  className={`block w-full text-left px-1 rounded hover:bg-gray-100 ${index === historyUI.past.length - 1 ? 'font-medium text-gray-900' : 'text-gray-600'}`}
+                  onClick={() => mapRef.current?.goToHistoryEntry?.(entry.id)}
+                >
+                  {entry.label}
+                  <span className="ml-2 text-gray-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                </button>
+              ))}
+              {historyUI.future.map((entry) => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  className="block w-full text-left px-1 rounded hover:bg-gray-100 text-gray-400 italic"
+                  onClick={() => mapRef.current?.goToHistoryEntry?.(entry.id)}
+                >
+                  {entry.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mt-2">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm">No-fly Zones</CardTitle>
+          <CardDescription className="text-xs">
+            Restricted areas with floor/ceiling in m, ft or FL above sea level; flight lines, turns, transits and area outlines entering them block export
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-gray-600">Zones:</span>
+            <span className="font-medium text-gray-900">{airspaceZoneCount}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 text-[11px] ml-auto"
+              onClick={() => mapRef.current?.openAirspaceFilePicker?.()}
+            >
+              Import
+            </Button>
+            {airspaceZoneCount > 0 && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-1.5 text-[11px]"
+                onClick={() => mapRef.current?.clearAirspaceZones?.()}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+          <label className="text-xs text-gray-600 block">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={avoidAirspaceUI}
+              disabled={airspaceZoneCount === 0}
+              onChange={(e)=>{
+                setAvoidAirspaceUI(e.target.checked);
+                const api = mapRef.current as any;
+                if (api?.setAvoidAirspace) api.setAvoidAirspace(e.target.checked);
+              }}
+            />
+            Avoid no-fly zones (cut flight lines around them; exported area outlines must still stay clear)
+          </label>
+          {airspaceZoneCount > 0 && (airspaceViolationSummary.length === 0 ? (
+            <div className="text-xs text-green-700">No violations</div>
+          ) : (
+            <div className="space-y-1 text-xs text-gray-600">
+              {airspaceViolationSummary.map((row) => (
+                <div key={row.zoneId} className="flex items-center gap-2">
+                  <Badge variant="destructive" className="text-[10px] px-1 py-0">violation</Badge>
+                  <span className="font-medium text-gray-900">{row.name}</span>
+                  <span>{row.detail}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 gap-2">
         <div className="space-y-2">
           <div className="text-xs font-medium mb-1">Flight Parameters</div>
@@ -2680,7 +3311,7 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
               className="w-full border rounded px-2 py-1 text-xs mt-1"
               value={altitudeModeUI}
               onChange={(e)=>{
-                const m = (e.target.value as 'legacy'|'min-clearance');
+                const m = (e.target.value as AltitudeMode);
                 setAltitudeModeUI(m);
                 const api = mapRef.current as any;
                 if (api?.setAltitudeMode) api.setAltitudeMode(m);
@@ -2689,8 +3320,27 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
             >
               <option value="legacy">Legacy (highest ground + AGL)</option>
               <option value="min-clearance">Min-clearance (lowest + AGL; enforce clearance)</option>
+              <option value="terrain-following">Terrain-following (ground + AGL; gradient-limited)</option>
             </select>
           </label>
+          {altitudeModeUI === 'terrain-following' && (
+            <label className="text-xs text-gray-600 block">Max climb/descent gradient (%)
+              <input
+                className="w-full border rounded px-2 py-1 text-xs"
+                type="number"
+                min={1}
+                max={100}
+                value={maxTerrainGradientUI}
+                onChange={(e)=>{
+                  const v = Math.max(1, parseFloat(e.target.value||String(DEFAULT_MAX_TERRAIN_GRADIENT_PCT)));
+                  setMaxTerrainGradientUI(v);
+                  const api = mapRef.current as any;
+                  if (api?.setMaxTerrainGradient) api.setMaxTerrainGradient(v);
+                  setTimeout(()=>{ compute(); }, 0);
+                }}
+              />
+            </label>
+          )}
           <label className="text-xs text-gray-600 block">Min clearance (m)
             <input
               className="w-full border rounded px-2 py-1 text-xs"
@@ -2721,6 +3371,59 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
               }}
             />
           </label>
+          <label className="text-xs text-gray-600 block">
+            Aircraft
+            <select
+              className="w-full border rounded px-2 py-1 text-xs mt-1"
+              value={aircraftKeyUI}
+              onChange={(e)=>{
+                const key = e.target.value;
+                setAircraftKeyUI(key);
+                const api = mapRef.current as any;
+                if (api?.setAircraftKey) api.setAircraftKey(key);
+              }}
+            >
+              {Object.keys(AIRCRAFT_REGISTRY).map((key) => (
+                <option key={key} value={key}>{AIRCRAFT_REGISTRY[key].names?.[0] ?? key}</option>
+              ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600 block">Wind speed (m/s)
+              <input
+                className="w-full border rounded px-2 py-1 text-xs"
+                type="number"
+                min={0}
+                step={0.5}
+                value={windUI.speedMps}
+                onChange={(e)=>{
+                  const v = parseFloat(e.target.value);
+                  if (!Number.isFinite(v)) return;
+                  const next = sanitizeWind({ ...windUI, speedMps: v });
+                  setWindUI(next);
+                  const api = mapRef.current as any;
+                  if (api?.setWind) api.setWind(next);
+                }}
+              />
+            </label>
+            <label className="text-xs text-gray-600 block">Wind from (°)
+              <input
+                className="w-full border rounded px-2 py-1 text-xs"
+                type="number"
+                min={0}
+                max={359}
+                value={windUI.fromDeg}
+                onChange={(e)=>{
+                  const v = parseFloat(e.target.value);
+                  if (!Number.isFinite(v)) return;
+                  const next = sanitizeWind({ ...windUI, fromDeg: v });
+                  setWindUI(next);
+                  const api = mapRef.current as any;
+                  if (api?.setWind) api.setWind(next);
+                }}
+              />
+            </label>
+          </div>
           {lidarPolygonIds.length > 0 && (
             <label className="text-xs text-gray-600 block">
               Max lidar range for all areas (m)
@@ -2764,12 +3467,25 @@ export function OverlapGSDPanel({ mapRef, mapboxToken, getPerPolygonParams, onEd
               }}
             />
           </label>
+          <label className="text-xs text-gray-600 block">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={terrainOcclusion}
+              onChange={(e)=>{
+                terrainOcclusionRef.current = e.target.checked;
+                setTerrainOcclusion(e.target.checked);
+                setTimeout(()=>{ compute(); }, 0);
+              }}
+            />
+            Terrain occlusion (line-of-sight, slower)
+          </label>
           {autoGenerate && <div className="text-xs text-gray-500">{parsePosesMeters()?.length || 0} poses generated</div>}
         </div>
       </div>
 
       <div className="flex gap-2 items-center">
-        <button onClick={() => compute()} disabled={running} className="h-8 px-2 rounded bg-blue-600 text-white text-xs disabled:opacity-50">{running ? 'Computing…' : 'Recompute Analysis'}</button>
+        <button onClick={() => compute({ full: true })} disabled={running} className="h-8 px-2 rounded bg-blue-600 text-white text-xs disabled:opacity-50">{running ? `Computing…${progress && progress.total > 0 ? ` ${progress.done}/${progress.total} tiles` : ''}` : 'Recompute Analysis'}</button>
       </div>
 
       <p className="text-[11px] text-gray-500">Automatic coverage analysis runs when polygons are created or flight parameters change.</p>
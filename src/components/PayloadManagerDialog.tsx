@@ -0,0 +1,303 @@
+import React from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { usePayloadRegistry } from "@/hooks/use-payload-registry";
+import { saveCustomPayloads } from "@/services/payloadStore";
+import {
+  buildLidarModel,
+  createCustomPayloadKey,
+  getCustomPayloads,
+  lidarSpecFromModel,
+  type CustomCamera,
+  type LidarSpec,
+} from "@/domain/payloads";
+import { DEFAULT_LIDAR } from "@/domain/lidar";
+import type { CameraModel } from "@/domain/types";
+import { extractCameraModel } from "@/utils/djiGeotags";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+// Camera form in the units printed on data sheets (mm, µm, px)
+type CameraDraft = {
+  key: string | null; // null = new sensor
+  name: string;
+  focalLengthMm: number;
+  pixelPitchUm: number;
+  widthPx: number;
+  heightPx: number;
+  cxPx: number | null;
+  cyPx: number | null;
+  distortion: Pick<CameraModel, 'k1' | 'k2' | 'k3' | 'p1' | 'p2'>;
+};
+
+type LidarDraft = Omit<LidarSpec, 'verticalAnglesDeg'> & {
+  key: string | null;
+  anglesText: string; // comma separated beam elevation angles (deg)
+};
+
+const NEW_CAMERA: CameraDraft = {
+  key: null, name: "", focalLengthMm: 24, pixelPitchUm: 3.76, widthPx: 9504, heightPx: 6336, cxPx: null, cyPx: null, distortion: {},
+};
+
+function newLidarDraft(): LidarDraft {
+  const spec = lidarSpecFromModel("", DEFAULT_LIDAR);
+  return { ...spec, key: null, anglesText: spec.verticalAnglesDeg.join(", ") };
+}
+
+function cameraDraftFromModel(key: string | null, name: string, model: CameraModel): CameraDraft {
+  return {
+    key,
+    name,
+    focalLengthMm: +(model.f_m * 1000).toFixed(4),
+    pixelPitchUm: +(model.sx_m * 1e6).toFixed(4),
+    widthPx: model.w_px,
+    heightPx: model.h_px,
+    cxPx: model.cx_px ?? null,
+    cyPx: model.cy_px ?? null,
+    distortion: { k1: model.k1, k2: model.k2, k3: model.k3, p1: model.p1, p2: model.p2 },
+  };
+}
+
+function NumberField({ label, value, onChange, step = "any" }: { label: string; value: number | null; onChange: (value: number | null) => void; step?: string }) {
+  return (
+    <label className="text-xs text-gray-600 block">
+      {label}
+      <input
+        className="w-full border rounded px-2 py-1 text-xs"
+        type="number"
+        step={step}
+        value={value ?? ""}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          onChange(Number.isFinite(parsed) ? parsed : null);
+        }}
+      />
+    </label>
+  );
+}
+
+/** Add, edit and delete user-defined cameras and lidars (stored in this browser). */
+export default function PayloadManagerDialog({ open, onOpenChange }: Props) {
+  const { cameras, lidars } = usePayloadRegistry();
+  const [cameraDraft, setCameraDraft] = React.useState<CameraDraft | null>(null);
+  const [lidarDraft, setLidarDraft] = React.useState<LidarDraft | null>(null);
+  const opfInputRef = React.useRef<HTMLInputElement>(null);
+
+  const saveCamera = React.useCallback(() => {
+    if (!cameraDraft) return;
+    const name = cameraDraft.name.trim();
+    const { focalLengthMm, pixelPitchUm, widthPx, heightPx } = cameraDraft;
+    if (!name || !(focalLengthMm > 0) || !(pixelPitchUm > 0) || !(widthPx > 0) || !(heightPx > 0)) {
+      toast({ variant: "destructive", title: "Incomplete camera", description: "Name, focal length, pixel pitch and image size are required." });
+      return;
+    }
+    const key = cameraDraft.key ?? createCustomPayloadKey("camera", name);
+    const model: CameraModel = {
+      f_m: focalLengthMm / 1000,
+      sx_m: pixelPitchUm * 1e-6,
+      sy_m: pixelPitchUm * 1e-6,
+      w_px: Math.round(widthPx),
+      h_px: Math.round(heightPx),
+      ...(cameraDraft.cxPx !== null ? { cx_px: cameraDraft.cxPx } : {}),
+      ...(cameraDraft.cyPx !== null ? { cy_px: cameraDraft.cyPx } : {}),
+      ...Object.fromEntries(Object.entries(cameraDraft.distortion).filter(([, value]) => Number.isFinite(value))),
+    };
+    const current = getCustomPayloads();
+    const entry: CustomCamera = { key, name, model };
+    const exists = current.cameras.some((camera) => camera.key === key);
+    saveCustomPayloads({
+      ...current,
+      cameras: exists ? current.cameras.map((camera) => (camera.key === key ? entry : camera)) : [...current.cameras, entry],
+    });
+    setCameraDraft(null);
+  }, [cameraDraft]);
+
+  const saveLidar = React.useCallback(() => {
+    if (!lidarDraft) return;
+    const name = lidarDraft.name.trim();
+    const verticalAnglesDeg = lidarDraft.anglesText.split(/[\s,;]+/).map(parseFloat).filter(Number.isFinite);
+    const rates = lidarDraft.nativePointRates;
+    if (!name || verticalAnglesDeg.length === 0 || !(rates.single > 0) || !(rates.dual > 0) || !(rates.triple > 0)
+      || !(lidarDraft.nativeHorizontalFovDeg > 0) || !(lidarDraft.mappingHorizontalFovDeg > 0) || !(lidarDraft.defaultSpeedMps > 0)) {
+      toast({ variant: "destructive", title: "Incomplete lidar", description: "Name, beam angles, point rates, fields of view and speed are required." });
+      return;
+    }
+    const key = lidarDraft.key ?? createCustomPayloadKey("lidar", name);
+    const { key: _key, anglesText: _anglesText, ...spec } = lidarDraft;
+    const entry = { key, name, model: buildLidarModel(key, { ...spec, name, verticalAnglesDeg }) };
+    const current = getCustomPayloads();
+    const exists = current.lidars.some((lidar) => lidar.key === key);
+    saveCustomPayloads({
+      ...current,
+      lidars: exists ? current.lidars.map((lidar) => (lidar.key === key ? entry : lidar)) : [...current.lidars, entry],
+    });
+    setLidarDraft(null);
+  }, [lidarDraft]);
+
+  const deletePayload = React.useCallback((key: string) => {
+    const current = getCustomPayloads();
+    saveCustomPayloads({
+      cameras: current.cameras.filter((camera) => camera.key !== key),
+      lidars: current.lidars.filter((lidar) => lidar.key !== key),
+    });
+  }, []);
+
+  // OPF input_cameras.json → prefilled camera form (intrinsics and distortion of the first usable sensor)
+  const handleOpfFile = React.useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const data = JSON.parse(await file.text());
+      const model = extractCameraModel(data);
+      if (!model) throw new Error("No sensor with focal length, image size and pixel size found");
+      const sensorName = Array.isArray(data?.sensors) ? data.sensors.find((sensor: any) => typeof sensor?.name === "string")?.name : undefined;
+      setLidarDraft(null);
+      setCameraDraft(cameraDraftFromModel(null, sensorName ?? file.name.replace(/\.json$/i, ""), model));
+    } catch (error) {
+      toast({ variant: "destructive", title: "Invalid camera file", description: error instanceof Error ? error.message : "Unable to read input_cameras.json" });
+    }
+  }, []);
+
+  const customCameras = cameras.filter((camera) => camera.custom);
+  const customLidars = lidars.filter((lidar) => lidar.custom);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-base">Payloads</DialogTitle>
+          <DialogDescription className="text-xs">
+            Built-in sensors plus your own cameras and lidars, stored in this browser
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1 text-xs">
+          <div className="font-medium">Cameras</div>
+          {cameras.map((camera) => (
+            <div key={camera.key} className="flex items-center gap-2">
+              <span className="text-gray-900">{camera.label}</span>
+              <span className="text-gray-500">
+                {(camera.model.f_m * 1000).toFixed(1)} mm · {camera.model.w_px}×{camera.model.h_px}
+              </span>
+              {camera.custom ? (
+                <span className="ml-auto flex gap-1">
+                  <Button size="sm" variant="ghost" className="h-6 px-1.5 text-[11px]"
+                          onClick={() => { setLidarDraft(null); setCameraDraft(cameraDraftFromModel(camera.key, camera.label, camera.model)); }}>
+                    Edit
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-6 px-1.5 text-[11px]" onClick={() => deletePayload(camera.key)}>
+                    Delete
+                  </Button>
+                </span>
+              ) : (
+                <Badge variant="secondary" className="ml-auto text-[10px] px-1 py-0">built-in</Badge>
+              )}
+            </div>
+          ))}
+          <div className="font-medium pt-2">Lidars</div>
+          {lidars.map((lidar) => (
+            <div key={lidar.key} className="flex items-center gap-2">
+              <span className="text-gray-900">{lidar.label}</span>
+              <span className="text-gray-500">
+                {lidar.model.verticalAnglesDeg.length} beams · {Math.round(lidar.model.nativePointRates.single / 1000)} k pts/s
+              </span>
+              {lidar.custom ? (
+                <span className="ml-auto flex gap-1">
+                  <Button size="sm" variant="ghost" className="h-6 px-1.5 text-[11px]"
+                          onClick={() => {
+                            const spec = lidarSpecFromModel(lidar.label, lidar.model);
+                            setCameraDraft(null);
+                            setLidarDraft({ ...spec, key: lidar.key, anglesText: spec.verticalAnglesDeg.join(", ") });
+                          }}>
+                    Edit
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-6 px-1.5 text-[11px]" onClick={() => deletePayload(lidar.key)}>
+                    Delete
+                  </Button>
+                </span>
+              ) : (
+                <Badge variant="secondary" className="ml-auto text-[10px] px-1 py-0">built-in</Badge>
+              )}
+            </div>
+          ))}
+          {customCameras.length + customLidars.length === 0 && (
+            <div className="text-gray-500 pt-1">No custom sensors yet.</div>
+          )}
+        </div>
+
+        {!cameraDraft && !lidarDraft && (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setCameraDraft(NEW_CAMERA)}>Add camera</Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setLidarDraft(newLidarDraft())}>Add lidar</Button>
+            <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => opfInputRef.current?.click()}>
+              Import camera (input_cameras.json)
+            </Button>
+          </div>
+        )}
+        <input ref={opfInputRef} type="file" accept=".json,application/json" onChange={handleOpfFile} style={{ display: "none" }} />
+
+        {cameraDraft && (
+          <div className="space-y-2 border rounded p-2">
+            <div className="text-xs font-medium">{cameraDraft.key ? "Edit camera" : "New camera"}</div>
+            <label className="text-xs text-gray-600 block">
+              Name
+              <input className="w-full border rounded px-2 py-1 text-xs" value={cameraDraft.name}
+                     onChange={(e) => setCameraDraft({ ...cameraDraft, name: e.target.value })} />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Focal length (mm)" value={cameraDraft.focalLengthMm} onChange={(v) => setCameraDraft({ ...cameraDraft, focalLengthMm: v ?? 0 })} />
+              <NumberField label="Pixel pitch (µm)" value={cameraDraft.pixelPitchUm} onChange={(v) => setCameraDraft({ ...cameraDraft, pixelPitchUm: v ?? 0 })} />
+              <NumberField label="Image width (px)" step="1" value={cameraDraft.widthPx} onChange={(v) => setCameraDraft({ ...cameraDraft, widthPx: v ?? 0 })} />
+              <NumberField label="Image height (px)" step="1" value={cameraDraft.heightPx} onChange={(v) => setCameraDraft({ ...cameraDraft, heightPx: v ?? 0 })} />
+              <NumberField label="Principal point x (px)" value={cameraDraft.cxPx} onChange={(v) => setCameraDraft({ ...cameraDraft, cxPx: v })} />
+              <NumberField label="Principal point y (px)" value={cameraDraft.cyPx} onChange={(v) => setCameraDraft({ ...cameraDraft, cyPx: v })} />
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" className="h-7 text-xs" onClick={saveCamera}>Save camera</Button>
+              <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setCameraDraft(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        {lidarDraft && (
+          <div className="space-y-2 border rounded p-2">
+            <div className="text-xs font-medium">{lidarDraft.key ? "Edit lidar" : "New lidar"}</div>
+            <label className="text-xs text-gray-600 block">
+              Name
+              <input className="w-full border rounded px-2 py-1 text-xs" value={lidarDraft.name}
+                     onChange={(e) => setLidarDraft({ ...lidarDraft, name: e.target.value })} />
+            </label>
+            <label className="text-xs text-gray-600 block">
+              Beam elevation angles (°, comma separated)
+              <textarea className="w-full border rounded px-2 py-1 text-xs font-mono" rows={2} value={lidarDraft.anglesText}
+                        onChange={(e) => setLidarDraft({ ...lidarDraft, anglesText: e.target.value })} />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Native horizontal FOV (°)" value={lidarDraft.nativeHorizontalFovDeg} onChange={(v) => setLidarDraft({ ...lidarDraft, nativeHorizontalFovDeg: v ?? 0 })} />
+              <NumberField label="Mapping FOV (°)" value={lidarDraft.mappingHorizontalFovDeg} onChange={(v) => setLidarDraft({ ...lidarDraft, mappingHorizontalFovDeg: v ?? 0 })} />
+              <NumberField label="Single return (pts/s)" step="1000" value={lidarDraft.nativePointRates.single}
+                           onChange={(v) => setLidarDraft({ ...lidarDraft, nativePointRates: { ...lidarDraft.nativePointRates, single: v ?? 0 } })} />
+              <NumberField label="Dual return (pts/s)" step="1000" value={lidarDraft.nativePointRates.dual}
+                           onChange={(v) => setLidarDraft({ ...lidarDraft, nativePointRates: { ...lidarDraft.nativePointRates, dual: v ?? 0 } })} />
+              <NumberField label="Triple return (pts/s)" step="1000" value={lidarDraft.nativePointRates.triple}
+                           onChange={(v) => setLidarDraft({ ...lidarDraft, nativePointRates: { ...lidarDraft.nativePointRates, triple: v ?? 0 } })} />
+              <NumberField label="Default speed (m/s)" value={lidarDraft.defaultSpeedMps} onChange={(v) => setLidarDraft({ ...lidarDraft, defaultSpeedMps: v ?? 0 })} />
+              <NumberField label="Frame rate (Hz)" value={lidarDraft.defaultFrameRateHz} onChange={(v) => setLidarDraft({ ...lidarDraft, defaultFrameRateHz: v ?? 0 })} />
+              <NumberField label="Max range (m)" value={lidarDraft.maxRangeM} onChange={(v) => setLidarDraft({ ...lidarDraft, maxRangeM: v ?? 0 })} />
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" className="h-7 text-xs" onClick={saveLidar}>Save lidar</Button>
+              <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setLidarDraft(null)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
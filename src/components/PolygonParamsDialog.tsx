@@ -2,8 +2,12 @@ import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
-import { SONY_RX1R2, DJI_ZENMUSE_P1_24MM, ILX_LR1_INSPECT_85MM, MAP61_17MM, RGB61_24MM } from "@/domain/camera";
 import { DEFAULT_LIDAR_MAX_RANGE_M, WINGTRA_LIDAR_XT32M2X } from "@/domain/lidar";
+import { getLidarModel } from "@/domain/payloads";
+import { DEFAULT_TARGET_PERCENTILE } from "@/planning/targets";
+import { DEFAULT_CAMERA_PITCH_DEG, DEFAULT_OBLIQUE_PASS_COUNT, MAX_CAMERA_PITCH_DEG, MAX_OBLIQUE_PASS_COUNT } from "@/planning/patterns";
+import type { FlightPattern } from "@/domain/types";
+import { usePayloadRegistry } from "@/hooks/use-payload-registry";
 import type { PolygonParams } from "@/components/MapFlightDirection/types";
 
 type Props = {
@@ -39,23 +43,23 @@ export default function PolygonParamsDialog({
   const [mappingFovDeg, setMappingFovDeg] = React.useState<number>(defaults?.mappingFovDeg ?? WINGTRA_LIDAR_XT32M2X.effectiveHorizontalFovDeg);
   const [maxLidarRangeM, setMaxLidarRangeM] = React.useState<number>(defaults?.maxLidarRangeM ?? DEFAULT_LIDAR_MAX_RANGE_M);
   const [showAdvanced, setShowAdvanced] = React.useState<boolean>(false);
+  // "target": altitude (and lidar speed/overlap) are solved per area from a deliverable GSD/density
+  const [planBy, setPlanBy] = React.useState<"altitude" | "target">(
+    (defaults?.targetGsdM ?? 0) > 0 || (defaults?.targetDensityPtsM2 ?? 0) > 0 ? "target" : "altitude"
+  );
+  const [targetGsdCm, setTargetGsdCm] = React.useState<number>(defaults?.targetGsdM ? defaults.targetGsdM * 100 : 2);
+  const [targetDensity, setTargetDensity] = React.useState<number>(defaults?.targetDensityPtsM2 ?? 50);
+  const [targetPercentile, setTargetPercentile] = React.useState<number>(defaults?.targetPercentile ?? DEFAULT_TARGET_PERCENTILE);
+  const [pattern, setPattern] = React.useState<FlightPattern>(defaults?.pattern ?? "grid");
+  const [obliquePassCount, setObliquePassCount] = React.useState<number>(defaults?.obliquePassCount ?? DEFAULT_OBLIQUE_PASS_COUNT);
+  const [cameraPitchDeg, setCameraPitchDeg] = React.useState<number>(defaults?.cameraPitchDeg ?? DEFAULT_CAMERA_PITCH_DEG);
   const [useCustomBearing, setUseCustomBearing] = React.useState<boolean>(defaults?.useCustomBearing ?? false);
   const [customBearingDeg, setCustomBearingDeg] = React.useState<number>(defaults?.customBearingDeg ?? 0);
   const [rotateCamera90, setRotateCamera90] = React.useState<boolean>(
     Math.round((((defaults?.cameraYawOffsetDeg ?? 0) % 180) + 180) % 180) === 90
   );
 
-  // map keys to models (could be lifted up later if needed)
-  const cameraOptions: Array<{ key:string; model:any; label:string }> = [
-    { key:'SONY_RX1R2', model: SONY_RX1R2, label: SONY_RX1R2.names?.[0] || 'RX1RII 35mm' },
-    { key:'DJI_ZENMUSE_P1_24MM', model: DJI_ZENMUSE_P1_24MM, label: DJI_ZENMUSE_P1_24MM.names?.[0] || 'DJI Zenmuse P1 24mm' },
-    { key:'ILX_LR1_INSPECT_85MM', model: ILX_LR1_INSPECT_85MM, label: ILX_LR1_INSPECT_85MM.names?.[0] || 'INSPECT 85mm' },
-    { key:'MAP61_17MM', model: MAP61_17MM, label: MAP61_17MM.names?.[0] || 'MAP61 17mm' },
-    { key:'RGB61_24MM', model: RGB61_24MM, label: RGB61_24MM.names?.[0] || 'RGB61 24mm' },
-  ];
-  const lidarOptions = [
-    { key: WINGTRA_LIDAR_XT32M2X.key, label: WINGTRA_LIDAR_XT32M2X.names?.[0] || 'Wingtra Lidar' },
-  ];
+  const { cameras: cameraOptions, lidars: lidarOptions } = usePayloadRegistry();
 
   React.useEffect(() => {
     if (open) {
@@ -74,11 +78,45 @@ export default function PolygonParamsDialog({
       const rotate = Math.round((((defaults?.cameraYawOffsetDeg ?? 0) % 180) + 180) % 180) === 90;
       setRotateCamera90(rotate);
       setShowAdvanced(!!(defaults?.useCustomBearing) || rotate);
+      setPlanBy((defaults?.targetGsdM ?? 0) > 0 || (defaults?.targetDensityPtsM2 ?? 0) > 0 ? "target" : "altitude");
+      setTargetGsdCm(defaults?.targetGsdM ? defaults.targetGsdM * 100 : 2);
+      setTargetDensity(defaults?.targetDensityPtsM2 ?? 50);
+      setTargetPercentile(defaults?.targetPercentile ?? DEFAULT_TARGET_PERCENTILE);
+      setPattern(defaults?.pattern ?? "grid");
+      setObliquePassCount(defaults?.obliquePassCount ?? DEFAULT_OBLIQUE_PASS_COUNT);
+      setCameraPitchDeg(defaults?.cameraPitchDeg ?? DEFAULT_CAMERA_PITCH_DEG);
     }
-  }, [open, defaults?.payloadKind, defaults?.altitudeAGL, defaults?.frontOverlap, defaults?.sideOverlap, defaults?.cameraKey, defaults?.lidarKey, defaults?.speedMps, defaults?.lidarReturnMode, defaults?.mappingFovDeg, defaults?.maxLidarRangeM, defaults?.useCustomBearing, defaults?.customBearingDeg, defaults?.cameraYawOffsetDeg]);
+  }, [open, defaults?.payloadKind, defaults?.altitudeAGL, defaults?.frontOverlap, defaults?.sideOverlap, defaults?.cameraKey, defaults?.lidarKey, defaults?.speedMps, defaults?.lidarReturnMode, defaults?.mappingFovDeg, defaults?.maxLidarRangeM, defaults?.useCustomBearing, defaults?.customBearingDeg, defaults?.cameraYawOffsetDeg, defaults?.targetGsdM, defaults?.targetDensityPtsM2, defaults?.targetPercentile, defaults?.pattern, defaults?.obliquePassCount, defaults?.cameraPitchDeg]);
 
   if (!open || !polygonId) return null;
 
+  const buildParams = (): PolygonParams => {
+    const normalizedBearing = ((customBearingDeg % 360) + 360) % 360;
+    const byTarget = planBy === "target";
+    const effectivePattern = pattern === "oblique" && payloadKind === "lidar" ? "crosshatch" : pattern;
+    return {
+      payloadKind,
+      altitudeAGL: Math.max(1, Number.isFinite(altitudeAGL) ? altitudeAGL : 100),
+      frontOverlap: payloadKind === "lidar" ? 0 : clampNumber(frontOverlap, 0, 95, 70),
+      sideOverlap: clampNumber(sideOverlap, 0, 95, 70),
+      cameraKey: payloadKind === "camera" ? cameraKey : undefined,
+      lidarKey: payloadKind === "lidar" ? lidarKey : undefined,
+      cameraYawOffsetDeg: payloadKind === "camera" && rotateCamera90 ? 90 : 0,
+      speedMps: payloadKind === "lidar" ? Math.max(0.1, Number.isFinite(speedMps) ? speedMps : WINGTRA_LIDAR_XT32M2X.defaultSpeedMps) : undefined,
+      lidarReturnMode: payloadKind === "lidar" ? lidarReturnMode : undefined,
+      mappingFovDeg: payloadKind === "lidar" ? clampNumber(mappingFovDeg, 1, 180, WINGTRA_LIDAR_XT32M2X.effectiveHorizontalFovDeg) : undefined,
+      maxLidarRangeM: payloadKind === "lidar" ? Math.max(1, Number.isFinite(maxLidarRangeM) ? maxLidarRangeM : DEFAULT_LIDAR_MAX_RANGE_M) : undefined,
+      useCustomBearing,
+      customBearingDeg: useCustomBearing ? normalizedBearing : undefined,
+      targetGsdM: byTarget && payloadKind === "camera" ? clampNumber(targetGsdCm, 0.1, 100, 2) / 100 : undefined,
+      targetDensityPtsM2: byTarget && payloadKind === "lidar" ? clampNumber(targetDensity, 0.1, 10000, 50) : undefined,
+      targetPercentile: byTarget ? clampNumber(targetPercentile, 50, 100, DEFAULT_TARGET_PERCENTILE) : undefined,
+      pattern: effectivePattern,
+      obliquePassCount: effectivePattern === "oblique" ? clampNumber(Math.round(obliquePassCount), 2, MAX_OBLIQUE_PASS_COUNT, DEFAULT_OBLIQUE_PASS_COUNT) : undefined,
+      cameraPitchDeg: effectivePattern === "oblique" ? clampNumber(cameraPitchDeg, 0, MAX_CAMERA_PITCH_DEG, DEFAULT_CAMERA_PITCH_DEG) : undefined,
+    };
+  };
+
   return (
     <div className="absolute top-2 left-2 z-50 w-80">
       <Card className="shadow-lg">
@@ -117,7 +155,17 @@ export default function PolygonParamsDialog({
           ) : (
             <label className="text-xs text-gray-600 block">
               Lidar
-              <Select value={lidarKey} onValueChange={setLidarKey}>
+              <Select
+                value={lidarKey}
+                onValueChange={(key) => {
+                  // Speed, sector and range defaults follow the selected sensor
+                  const model = getLidarModel(key);
+                  setLidarKey(key);
+                  setSpeedMps(model.defaultSpeedMps);
+                  setMappingFovDeg(model.mappingHorizontalFovDeg);
+                  setMaxLidarRangeM(model.defaultMaxRangeM ?? DEFAULT_LIDAR_MAX_RANGE_M);
+                }}
+              >
                 <SelectTrigger className="h-8 text-xs mt-1">
                   <SelectValue placeholder="Select lidar" />
                 </SelectTrigger>
@@ -132,11 +180,55 @@ export default function PolygonParamsDialog({
             </label>
           )}
           <label className="text-xs text-gray-600 block">
-            Altitude AGL (m)
-            <input className="w-full border rounded px-2 py-1 text-xs" type="number"
-                   value={altitudeAGL}
-                   onChange={(e)=>setAltitudeAGL(Math.max(1, parseInt(e.target.value || "100")))} />
+            Plan by
+            <Select value={planBy} onValueChange={(value) => setPlanBy(value as "altitude" | "target")}>
+              <SelectTrigger className="h-8 text-xs mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="altitude" className="text-xs">Altitude</SelectItem>
+                <SelectItem value="target" className="text-xs">{payloadKind === "lidar" ? "Target point density" : "Target GSD"}</SelectItem>
+              </SelectContent>
+            </Select>
           </label>
+          {planBy === "altitude" ? (
+            <label className="text-xs text-gray-600 block">
+              Altitude AGL (m)
+              <input className="w-full border rounded px-2 py-1 text-xs" type="number"
+                     value={altitudeAGL}
+                     onChange={(e)=>setAltitudeAGL(Math.max(1, parseInt(e.target.value || "100")))} />
+            </label>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                {payloadKind === "lidar" ? (
+                  <label className="text-xs text-gray-600 block">
+                    Density (pts/m²)
+                    <input className="w-full border rounded px-2 py-1 text-xs" type="number" min={0.1} step={1}
+                           value={targetDensity}
+                           onChange={(e)=>setTargetDensity(Math.max(0.1, parseFloat(e.target.value || "50")))} />
+                  </label>
+                ) : (
+                  <label className="text-xs text-gray-600 block">
+                    GSD (cm/px)
+                    <input className="w-full border rounded px-2 py-1 text-xs" type="number" min={0.1} step={0.1}
+                           value={targetGsdCm}
+                           onChange={(e)=>setTargetGsdCm(Math.max(0.1, parseFloat(e.target.value || "2")))} />
+                  </label>
+                )}
+                <label className="text-xs text-gray-600 block">
+                  Met on (% of area)
+                  <input className="w-full border rounded px-2 py-1 text-xs" type="number" min={50} max={100} step={5}
+                         value={targetPercentile}
+                         onChange={(e)=>setTargetPercentile(clampNumber(parseFloat(e.target.value || "90"), 50, 100, DEFAULT_TARGET_PERCENTILE))} />
+                </label>
+              </div>
+              <p className="text-[11px] text-gray-500">
+                Altitude is solved per area from its terrain and the altitude mode
+                {payloadKind === "lidar" ? "; speed and side overlap below are starting values that may be lowered/raised when the lowest altitude is not enough." : "."}
+              </p>
+            </>
+          )}
           {payloadKind === "camera" && (
             <label className="text-xs text-gray-600 block">
               Front overlap (%)
@@ -187,6 +279,38 @@ export default function PolygonParamsDialog({
             </>
           )}
 
+          <label className="text-xs text-gray-600 block">
+            Pattern
+            <Select value={pattern === "oblique" && payloadKind === "lidar" ? "crosshatch" : pattern} onValueChange={(value) => setPattern(value as FlightPattern)}>
+              <SelectTrigger className="h-8 text-xs mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="grid" className="text-xs">Single grid</SelectItem>
+                <SelectItem value="crosshatch" className="text-xs">Crosshatch (second grid at +90°)</SelectItem>
+                {payloadKind === "camera" && (
+                  <SelectItem value="oblique" className="text-xs">Oblique (tilted camera, multiple grids)</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </label>
+          {pattern === "oblique" && payloadKind === "camera" && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-xs text-gray-600 block">
+                Grids
+                <input className="w-full border rounded px-2 py-1 text-xs" type="number" min={2} max={MAX_OBLIQUE_PASS_COUNT} step={1}
+                       value={obliquePassCount}
+                       onChange={(e)=>setObliquePassCount(clampNumber(parseInt(e.target.value || `${DEFAULT_OBLIQUE_PASS_COUNT}`), 2, MAX_OBLIQUE_PASS_COUNT, DEFAULT_OBLIQUE_PASS_COUNT))} />
+              </label>
+              <label className="text-xs text-gray-600 block">
+                Camera pitch (° off nadir)
+                <input className="w-full border rounded px-2 py-1 text-xs" type="number" min={0} max={MAX_CAMERA_PITCH_DEG} step={1}
+                       value={cameraPitchDeg}
+                       onChange={(e)=>setCameraPitchDeg(clampNumber(parseFloat(e.target.value || `${DEFAULT_CAMERA_PITCH_DEG}`), 0, MAX_CAMERA_PITCH_DEG, DEFAULT_CAMERA_PITCH_DEG))} />
+              </label>
+            </div>
+          )}
+
           <div className="pt-1">
             <button
               type="button"
@@ -246,25 +370,7 @@ export default function PolygonParamsDialog({
             <Button
               size="sm"
               className="flex-1 min-w-0 h-8 px-2 text-xs"
-              onClick={() => {
-                const normalizedBearing = ((customBearingDeg % 360) + 360) % 360;
-                const payload: PolygonParams = {
-                  payloadKind,
-                  altitudeAGL: Math.max(1, Number.isFinite(altitudeAGL) ? altitudeAGL : 100),
-                  frontOverlap: payloadKind === "lidar" ? 0 : clampNumber(frontOverlap, 0, 95, 70),
-                  sideOverlap: clampNumber(sideOverlap, 0, 95, 70),
-                  cameraKey: payloadKind === "camera" ? cameraKey : undefined,
-                  lidarKey: payloadKind === "lidar" ? lidarKey : undefined,
-                  cameraYawOffsetDeg: payloadKind === "camera" && rotateCamera90 ? 90 : 0,
-                  speedMps: payloadKind === "lidar" ? Math.max(0.1, Number.isFinite(speedMps) ? speedMps : WINGTRA_LIDAR_XT32M2X.defaultSpeedMps) : undefined,
-                  lidarReturnMode: payloadKind === "lidar" ? lidarReturnMode : undefined,
-                  mappingFovDeg: payloadKind === "lidar" ? clampNumber(mappingFovDeg, 1, 180, WINGTRA_LIDAR_XT32M2X.effectiveHorizontalFovDeg) : undefined,
-                  maxLidarRangeM: payloadKind === "lidar" ? Math.max(1, Number.isFinite(maxLidarRangeM) ? maxLidarRangeM : DEFAULT_LIDAR_MAX_RANGE_M) : undefined,
-                  useCustomBearing,
-                  customBearingDeg: useCustomBearing ? normalizedBearing : undefined,
-                };
-                onSubmit(payload);
-              }}>
+              onClick={() => onSubmit(buildParams())}>
               Apply
             </Button>
             {onSubmitAll && (
@@ -272,25 +378,7 @@ export default function PolygonParamsDialog({
                 size="sm"
                 variant="secondary"
                 className="h-8 px-2 text-xs whitespace-nowrap"
-                onClick={() => {
-                  const normalizedBearing = ((customBearingDeg % 360) + 360) % 360;
-                  const payload: PolygonParams = {
-                    payloadKind,
-                    altitudeAGL: Math.max(1, Number.isFinite(altitudeAGL) ? altitudeAGL : 100),
-                    frontOverlap: payloadKind === "lidar" ? 0 : clampNumber(frontOverlap, 0, 95, 70),
-                    sideOverlap: clampNumber(sideOverlap, 0, 95, 70),
-                    cameraKey: payloadKind === "camera" ? cameraKey : undefined,
-                    lidarKey: payloadKind === "lidar" ? lidarKey : undefined,
-                    cameraYawOffsetDeg: payloadKind === "camera" && rotateCamera90 ? 90 : 0,
-                    speedMps: payloadKind === "lidar" ? Math.max(0.1, Number.isFinite(speedMps) ? speedMps : WINGTRA_LIDAR_XT32M2X.defaultSpeedMps) : undefined,
-                    lidarReturnMode: payloadKind === "lidar" ? lidarReturnMode : undefined,
-                    mappingFovDeg: payloadKind === "lidar" ? clampNumber(mappingFovDeg, 1, 180, WINGTRA_LIDAR_XT32M2X.effectiveHorizontalFovDeg) : undefined,
-                    maxLidarRangeM: payloadKind === "lidar" ? Math.max(1, Number.isFinite(maxLidarRangeM) ? maxLidarRangeM : DEFAULT_LIDAR_MAX_RANGE_M) : undefined,
-                    useCustomBearing,
-                    customBearingDeg: useCustomBearing ? normalizedBearing : undefined,
-                  };
-                  onSubmitAll(payload);
-                }}
+                onClick={() => onSubmitAll(buildParams())}
                 title="Apply these parameters to all remaining polygons awaiting setup"
               >
                 Apply All
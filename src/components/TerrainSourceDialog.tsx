@@ -0,0 +1,350 @@
+import React from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { useTerrainSource } from "@/hooks/use-terrain-source";
+import { saveTerrainTileSource } from "@/services/terrainSourceStore";
+import {
+  DEFAULT_TERRAIN_TILE_STORE_LIMIT_BYTES,
+  clearTerrainTileStore,
+  getTerrainTileStoreUsage,
+  isTerrainTileStoreAvailable,
+  pinTerrainTiles,
+  setTerrainTileStoreLimit,
+  type TerrainTileStoreUsage,
+} from "@/services/terrainTileStore";
+import { calculateOptimalTerrainZoom } from "@/components/MapFlightDirection/utils/geometry";
+import { parseGeoTiffDem } from "@/terrain/geotiffDem";
+import {
+  MAX_OFFLINE_TERRAIN_TILES,
+  OFFLINE_TERRAIN_ZOOMS,
+  estimateTerrainDownloadBytes,
+  prefetchTerrainTiles,
+  terrainExtentOfRings,
+  terrainTileKeys,
+  terrainTilesForExtent,
+} from "@/terrain/offline";
+import { normalizeTerrainTileSource, setTerrainDem, type TerrainEncoding } from "@/terrain/sources";
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mapboxToken: string;
+  /** Outer rings of the project's areas, for the offline download extent. */
+  getProjectRings: () => Array<Array<[number, number]>>;
+};
+
+const TERRARIUM_EXAMPLE = "https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png";
+const MB = 1024 * 1024;
+const STORE_LIMITS_MB = [256, 512, 1024, 2048, 4096];
+// Routes use up to z12 and the coverage analysis z14, on top of each area's terrain zoom
+const BASE_OFFLINE_ZOOMS = [12, 14];
+// Downloads above this size are confirmed first
+const CONFIRM_DOWNLOAD_BYTES = 200 * MB;
+
+const formatBytes = (bytes: number) => (bytes >= 1024 * MB ? `${(bytes / (1024 * MB)).toFixed(1)} GB` : `${Math.ceil(bytes / MB)} MB`);
+
+/**
+ * Choose the terrain tile source, upload a local DEM that overrides it where it has data, and
+ * download the project's terrain for offline use.
+ */
+export default function TerrainSourceDialog({ open, onOpenChange, mapboxToken, getProjectRings }: Props) {
+  const { tileSource, dem } = useTerrainSource();
+  const [kind, setKind] = React.useState(tileSource.kind);
+  const [urlTemplate, setUrlTemplate] = React.useState(tileSource.urlTemplate ?? "");
+  const [encoding, setEncoding] = React.useState<TerrainEncoding>(tileSource.encoding ?? "terrain-rgb");
+  const [ellipsoidal, setEllipsoidal] = React.useState(false);
+  const [loadingDem, setLoadingDem] = React.useState(false);
+  const demInputRef = React.useRef<HTMLInputElement>(null);
+
+  const [projectRings] = React.useState(getProjectRings);
+  const extent = React.useMemo(() => terrainExtentOfRings(projectRings), [projectRings]);
+  const [offlineZooms, setOfflineZooms] = React.useState<number[]>(() => [
+    ...new Set([...BASE_OFFLINE_ZOOMS, ...projectRings.map((ring) => calculateOptimalTerrainZoom({ coordinates: ring }))]),
+  ]);
+  const offlineTiles = React.useMemo(
+    () => (extent ? terrainTilesForExtent(extent, offlineZooms) : []),
+    [extent, offlineZooms],
+  );
+  const offlineBytes = estimateTerrainDownloadBytes(offlineTiles);
+  const tooManyTiles = offlineTiles.length > MAX_OFFLINE_TERRAIN_TILES;
+  const [usage, setUsage] = React.useState<TerrainTileStoreUsage | null>(null);
+  const limitBytes = usage?.limitBytes ?? DEFAULT_TERRAIN_TILE_STORE_LIMIT_BYTES;
+  // Smallest offered limit that holds the download, when the current one does not
+  const raisedLimitMB = offlineBytes > limitBytes ? STORE_LIMITS_MB.find((limit) => limit * MB >= offlineBytes) ?? null : null;
+  const [confirmDownloadOpen, setConfirmDownloadOpen] = React.useState(false);
+  const [download, setDownload] = React.useState<{ done: number; total: number } | null>(null);
+  const downloadAbortRef = React.useRef<AbortController | null>(null);
+  const storeAvailable = isTerrainTileStoreAvailable();
+
+  const refreshUsage = React.useCallback(() => {
+    if (!storeAvailable) return;
+    getTerrainTileStoreUsage().then(setUsage).catch((error) => console.warn("[terrain] failed to read terrain tile store", error));
+  }, [storeAvailable]);
+  React.useEffect(() => {
+    refreshUsage();
+    return () => downloadAbortRef.current?.abort();
+  }, [refreshUsage]);
+
+  const downloadProjectTerrain = React.useCallback(async () => {
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    setDownload({ done: 0, total: offlineTiles.length });
+    // The store prunes while tiles arrive; it must not evict the ones this download just stored
+    const release = pinTerrainTiles(terrainTileKeys(offlineTiles));
+    try {
+      const result = await prefetchTerrainTiles(offlineTiles, mapboxToken, {
+        signal: controller.signal,
+        onProgress: (done, total) => setDownload({ done, total }),
+      });
+      // A failed release is reported in the finally below
+      const evicted = await release().catch(() => [] as string[]);
+      if (controller.signal.aborted) return;
+      if (evicted.length > 0) {
+        toast({
+          variant: "destructive",
+          title: "Terrain did not fit the storage limit",
+          description: `${evicted.length} of the project's ${offlineTiles.length} tiles were removed again. Raise the limit and download again.`,
+        });
+        return;
+      }
+      toast({
+        variant: result.failed > 0 ? "destructive" : undefined,
+        title: result.failed > 0 ? "Terrain partly downloaded" : "Terrain downloaded",
+        description: `${result.downloaded} tiles downloaded, ${result.alreadyStored} already stored`
+          + (result.failed > 0 ? `, ${result.failed} failed` : "") + ".",
+      });
+    } finally {
+      await release().catch((error) => console.warn("[terrain] failed to prune terrain tile store", error));
+      downloadAbortRef.current = null;
+      setDownload(null);
+      refreshUsage();
+    }
+  }, [mapboxToken, offlineTiles, refreshUsage]);
+
+  const changeStoreLimit = React.useCallback(async (limitBytes: number) => {
+    try {
+      await setTerrainTileStoreLimit(limitBytes);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Could not change the limit", description: error instanceof Error ? error.message : String(error) });
+    }
+    refreshUsage();
+  }, [refreshUsage]);
+
+  const requestDownload = React.useCallback(() => {
+    if (tooManyTiles) return;
+    if (offlineBytes > limitBytes || offlineBytes > CONFIRM_DOWNLOAD_BYTES) setConfirmDownloadOpen(true);
+    else void downloadProjectTerrain();
+  }, [downloadProjectTerrain, limitBytes, offlineBytes, tooManyTiles]);
+
+  const confirmDownload = React.useCallback(async () => {
+    if (raisedLimitMB !== null) await changeStoreLimit(raisedLimitMB * MB);
+    await downloadProjectTerrain();
+  }, [changeStoreLimit, downloadProjectTerrain, raisedLimitMB]);
+
+  const clearStoredTiles = React.useCallback(async () => {
+    try {
+      await clearTerrainTileStore();
+    } catch (error) {
+      toast({ variant: "destructive", title: "Could not clear stored terrain", description: error instanceof Error ? error.message : String(error) });
+    }
+    refreshUsage();
+  }, [refreshUsage]);
+
+  const saveTileSource = React.useCallback(() => {
+    const next = normalizeTerrainTileSource({ kind, urlTemplate, encoding });
+    if (next.kind !== kind) {
+      toast({ variant: "destructive", title: "Invalid tile URL", description: "The URL needs {z}, {x} and {y} placeholders." });
+      return;
+    }
+    saveTerrainTileSource(next);
+    toast({ title: "Terrain source updated", description: "Areas are re-analysed with the new terrain." });
+  }, [encoding, kind, urlTemplate]);
+
+  const handleDemFile = React.useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setLoadingDem(true);
+    try {
+      setTerrainDem(await parseGeoTiffDem(await file.arrayBuffer(), { name: file.name, ellipsoidal }));
+      toast({ title: "DEM loaded", description: `${file.name} is used wherever it has data.` });
+    } catch (error) {
+      toast({ variant: "destructive", title: "Could not use DEM", description: error instanceof Error ? error.message : "Unable to read the GeoTIFF" });
+    } finally {
+      setLoadingDem(false);
+    }
+  }, [ellipsoidal]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-base">Terrain</DialogTitle>
+          <DialogDescription className="text-xs">
+            Heights used for terrain following, 3D paths and the GSD / density analysis
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 text-xs">
+          <div className="font-medium">Tile source</div>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={kind === "mapbox"} onChange={() => setKind("mapbox")} />
+            Mapbox terrain-RGB
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" checked={kind === "custom"} onChange={() => setKind("custom")} />
+            Custom tile server
+          </label>
+          {kind === "custom" && (
+            <div className="space-y-2 pl-5">
+              <label className="text-gray-600 block">
+                URL template ({"{z}"}, {"{x}"}, {"{y}"}, optional {"{token}"})
+                <input className="w-full border rounded px-2 py-1 text-xs font-mono" value={urlTemplate}
+                       placeholder={TERRARIUM_EXAMPLE} onChange={(e) => setUrlTemplate(e.target.value)} />
+              </label>
+              <label className="text-gray-600 block">
+                Encoding
+                <select className="w-full border rounded px-2 py-1 text-xs" value={encoding}
+                        onChange={(e) => setEncoding(e.target.value as TerrainEncoding)}>
+                  <option value="terrain-rgb">Mapbox terrain-RGB</option>
+                  <option value="terrarium">Terrarium</option>
+                </select>
+              </label>
+            </div>
+          )}
+          <Button size="sm" className="h-7 text-xs" onClick={saveTileSource}>Use tile source</Button>
+        </div>
+
+        <div className="space-y-2 text-xs border-t pt-3">
+          <div className="font-medium">Local DEM (GeoTIFF)</div>
+          {dem ? (
+            <div className="flex items-center gap-2">
+              <span className="text-gray-900 truncate">{dem.name}</span>
+              <span className="text-gray-500 whitespace-nowrap">
+                {dem.width}×{dem.height} · EPSG:{dem.epsg}{dem.ellipsoidal ? " · ellipsoidal" : ""}
+              </span>
+              <Button size="sm" variant="ghost" className="ml-auto h-6 px-1.5 text-[11px]" onClick={() => setTerrainDem(null)}>
+                Remove
+              </Button>
+            </div>
+          ) : (
+            <div className="text-gray-500">
+              Survey DEM or lidar DTM in EPSG:4326, 3857 or UTM. It replaces the tile source where it has data and is
+              kept until the page is reloaded.
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-gray-600">
+            <input type="checkbox" checked={ellipsoidal} onChange={(e) => setEllipsoidal(e.target.checked)} />
+            Heights are above the WGS84 ellipsoid (not mean sea level)
+          </label>
+          <Button size="sm" variant="outline" className="h-7 text-xs" disabled={loadingDem} onClick={() => demInputRef.current?.click()}>
+            {loadingDem ? "Reading DEM…" : dem ? "Replace DEM" : "Upload DEM"}
+          </Button>
+          <input ref={demInputRef} type="file" accept=".tif,.tiff,image/tiff" onChange={handleDemFile} style={{ display: "none" }} />
+        </div>
+
+        <div className="space-y-2 text-xs border-t pt-3">
+          <div className="font-medium">Offline terrain</div>
+          {!storeAvailable ? (
+            <div className="text-gray-500">This browser cannot store terrain tiles for offline use.</div>
+          ) : (
+            <>
+              <div className="text-gray-500">
+                Fetched tiles are kept in the browser and used whenever the tile server cannot be reached.
+              </div>
+              <div className="text-gray-600">Zoom levels</div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {OFFLINE_TERRAIN_ZOOMS.map((z) => (
+                  <label key={z} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={offlineZooms.includes(z)}
+                      disabled={download !== null}
+                      onChange={(e) => setOfflineZooms((prev) => (e.target.checked ? [...prev, z] : prev.filter((zoom) => zoom !== z)))}
+                    />
+                    z{z}
+                  </label>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                {download ? (
+                  <>
+                    <span className="text-gray-600">Downloading {download.done}/{download.total} tiles…</span>
+                    <Button size="sm" variant="ghost" className="ml-auto h-6 px-1.5 text-[11px]" onClick={() => downloadAbortRef.current?.abort()}>
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    disabled={!extent || offlineTiles.length === 0 || tooManyTiles}
+                    title={extent ? undefined : "Draw or import an area first"}
+                    onClick={requestDownload}
+                  >
+                    Download project extent ({offlineTiles.length} tiles, ~{formatBytes(offlineBytes)})
+                  </Button>
+                )}
+              </div>
+              {tooManyTiles && (
+                <div className="text-red-600">
+                  More than {MAX_OFFLINE_TERRAIN_TILES.toLocaleString()} tiles: untick the highest zoom levels to download this extent.
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-gray-600">
+                <span>
+                  Stored: {usage ? `${usage.tiles} tiles, ${(usage.bytes / MB).toFixed(1)} MB` : "…"}
+                </span>
+                <label className="flex items-center gap-1 ml-auto">
+                  Limit
+                  <select
+                    className="border rounded px-1 py-0.5 text-xs"
+                    value={usage ? Math.round(usage.limitBytes / MB) : 512}
+                    onChange={(e) => changeStoreLimit(Number(e.target.value) * MB)}
+                  >
+                    {[...new Set([...STORE_LIMITS_MB, ...(usage ? [Math.round(usage.limitBytes / MB)] : [])])]
+                      .sort((a, b) => a - b)
+                      .map((limit) => <option key={limit} value={limit}>{limit >= 1024 ? `${limit / 1024} GB` : `${limit} MB`}</option>)}
+                  </select>
+                </label>
+                <Button size="sm" variant="ghost" className="h-6 px-1.5 text-[11px]" disabled={download !== null || !usage?.tiles} onClick={clearStoredTiles}>
+                  Clear
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+
+      <AlertDialog open={confirmDownloadOpen} onOpenChange={setConfirmDownloadOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Download {offlineTiles.length.toLocaleString()} terrain tiles?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The download takes about {formatBytes(offlineBytes)} of browser storage.
+              {offlineBytes > limitBytes && (raisedLimitMB !== null
+                ? ` That is more than the ${formatBytes(limitBytes)} limit for stored terrain, which is raised to ${formatBytes(raisedLimitMB * MB)}.`
+                : ` That is more than the ${formatBytes(limitBytes)} limit for stored terrain; tiles that do not fit are removed again.`)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => { void confirmDownload(); }}>Download</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
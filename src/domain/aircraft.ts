@@ -0,0 +1,174 @@
+import type { AircraftModel, WindVector } from './types';
+
+// WingtraOne Gen II (VTOL fixed wing, two 99 Wh packs). Power figures are planning
+// averages for level cruise / climb / descent at survey speed, not peak values.
+export const WINGTRA_ONE_GEN_II: AircraftModel = {
+  key: 'WINGTRA_ONE_GEN_II',
+  cruiseSpeedMps: 16,
+  climbRateMps: 3,
+  descentRateMps: 4,
+  turnRadiusM: 70,
+  cruisePowerW: 190,
+  climbPowerW: 320,
+  descentPowerW: 120,
+  batteryCapacityWh: 198,
+  reserveFraction: 0.2,
+  names: ['WingtraOne', 'WingtraOne (any)', 'WINGTRA_ONE_GEN_II'],
+};
+
+export const DEFAULT_AIRCRAFT = WINGTRA_ONE_GEN_II;
+
+export const AIRCRAFT_REGISTRY: Record<string, AircraftModel> = {
+  WINGTRA_ONE_GEN_II,
+};
+
+export const CALM_WIND: WindVector = { speedMps: 0, fromDeg: 0 };
+
+/** Wind with a finite, non-negative speed and a direction in [0, 360); anything else is calm. */
+export function sanitizeWind(wind?: Partial<WindVector> | null): WindVector {
+  const speedMps = Number(wind?.speedMps);
+  const fromDeg = Number(wind?.fromDeg);
+  return {
+    speedMps: Number.isFinite(speedMps) ? Math.max(0, speedMps) : 0,
+    fromDeg: Number.isFinite(fromDeg) ? ((fromDeg % 360) + 360) % 360 : 0,
+  };
+}
+
+export function getAircraftModel(key?: string): AircraftModel {
+  if (key && AIRCRAFT_REGISTRY[key]) return AIRCRAFT_REGISTRY[key];
+  return DEFAULT_AIRCRAFT;
+}
+
+/** Usable energy after the landing reserve (Wh). */
+export function usableBatteryWh(model: AircraftModel): number {
+  return model.batteryCapacityWh * (1 - Math.max(0, Math.min(1, model.reserveFraction)));
+}
+
+/** Time in level cruise on the usable battery energy (s). */
+export function enduranceSec(model: AircraftModel): number {
+  return model.cruisePowerW > 0 ? (usableBatteryWh(model) * 3600) / model.cruisePowerW : 0;
+}
+
+/**
+ * Ground speed along a track from the wind triangle: the aircraft crabs into the
+ * crosswind and the along-track wind component adds to or subtracts from airspeed.
+ * Returns 0 when the crosswind exceeds airspeed (track cannot be held).
+ */
+export function groundSpeedMps(airspeedMps: number, trackDeg: number, wind?: WindVector | null): number {
+  if (!wind || !(wind.speedMps > 0) || !Number.isFinite(wind.speedMps) || !Number.isFinite(wind.fromDeg)) return airspeedMps;
+  const towardRad = ((wind.fromDeg + 180) * Math.PI) / 180;
+  const trackRad = (trackDeg * Math.PI) / 180;
+  const relative = towardRad - trackRad;
+  const along = wind.speedMps * Math.cos(relative);
+  const cross = wind.speedMps * Math.sin(relative);
+  if (Math.abs(cross) >= airspeedMps) return 0;
+  return Math.max(0, Math.sqrt(airspeedMps * airspeedMps - cross * cross) + along);
+}
+
+/** Time to reverse direction on a turn of the model's radius; flown in the air mass so wind does not change it. */
+export function turnTimeSec(model: AircraftModel, airspeedMps: number = model.cruiseSpeedMps, headingChangeDeg = 180): number {
+  if (!(airspeedMps > 0)) return 0;
+  return (Math.PI * model.turnRadiusM * (Math.abs(headingChangeDeg) / 180)) / airspeedMps;
+}
+
+export type LegPerformance = {
+  timeSec: number;
+  energyWh: number;
+};
+
+/**
+ * Time and energy for a straight leg with a height change. When the vertical rate cannot
+ * absorb the height change within the horizontal leg, the leg is stretched (spiral/holding)
+ * until it can; climb and descent time is billed at the model's climb/descent power.
+ */
+export function estimateLegPerformance(
+  model: AircraftModel,
+  horizontalM: number,
+  trackDeg: number,
+  deltaHeightM: number,
+  wind?: WindVector | null,
+  airspeedMps: number = model.cruiseSpeedMps,
+): LegPerformance {
+  const gs = groundSpeedMps(airspeedMps, trackDeg, wind);
+  // A leg that cannot be held against the wind is costed at a crawl rather than infinity
+  const horizontalSec = horizontalM > 0 ? horizontalM / Math.max(gs, 0.25 * airspeedMps) : 0;
+  const verticalRate = deltaHeightM >= 0 ? model.climbRateMps : model.descentRateMps;
+  const verticalSec = verticalRate > 0 ? Math.abs(deltaHeightM) / verticalRate : 0;
+  const timeSec = Math.max(horizontalSec, verticalSec);
+  const verticalPowerW = deltaHeightM >= 0 ? model.climbPowerW : model.descentPowerW;
+  const energyWh = (verticalSec * verticalPowerW + (timeSec - verticalSec) * model.cruisePowerW) / 3600;
+  return { timeSec, energyWh };
+}
+
+export type FlightPathPerformance = {
+  distanceM: number;
+  sweepTimeSec: number;
+  turnTimeSec: number;
+  totalTimeSec: number;
+  totalClimbM: number;
+  energyWh: number;
+  /** Share of usable (post-reserve) battery energy; > 1 means the plan needs more than one battery. */
+  batteryFraction: number;
+};
+
+function bearingDeg(a: [number, number], b: [number, number]): number {
+  const φ1 = (a[1] * Math.PI) / 180;
+  const φ2 = (b[1] * Math.PI) / 180;
+  const Δλ = ((b[0] - a[0]) * Math.PI) / 180;
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+function horizontalDistanceM(a: [number, number], b: [number, number]): number {
+  const R = 6371000;
+  const dLat = ((b[1] - a[1]) * Math.PI) / 180;
+  const dLon = ((b[0] - a[0]) * Math.PI) / 180;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((a[1] * Math.PI) / 180) * Math.cos((b[1] * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Integrate time and energy over a 3D flight path as produced by build3DFlightPath
+ * (even indices are survey sweeps, odd indices are turn connectors).
+ */
+export function estimateFlightPathPerformance(
+  path3D: [number, number, number][][],
+  model: AircraftModel,
+  wind?: WindVector | null,
+  airspeedMps: number = model.cruiseSpeedMps,
+): FlightPathPerformance {
+  let distanceM = 0;
+  let sweepTimeSec = 0;
+  let turnTime = 0;
+  let totalClimbM = 0;
+  let energyWh = 0;
+  for (let segIndex = 0; segIndex < path3D.length; segIndex++) {
+    const segment = path3D[segIndex];
+    const isTurn = segIndex % 2 === 1;
+    for (let i = 1; i < segment.length; i++) {
+      const a = segment[i - 1];
+      const b = segment[i];
+      const horizontalM = horizontalDistanceM([a[0], a[1]], [b[0], b[1]]);
+      distanceM += horizontalM;
+      const dz = b[2] - a[2];
+      if (dz > 0) totalClimbM += dz;
+      const leg = estimateLegPerformance(model, horizontalM, bearingDeg([a[0], a[1]], [b[0], b[1]]), dz, wind, airspeedMps);
+      if (isTurn) turnTime += leg.timeSec;
+      else sweepTimeSec += leg.timeSec;
+      energyWh += leg.energyWh;
+    }
+  }
+  const usable = usableBatteryWh(model);
+  return {
+    distanceM,
+    sweepTimeSec,
+    turnTimeSec: turnTime,
+    totalTimeSec: sweepTimeSec + turnTime,
+    totalClimbM,
+    energyWh,
+    batteryFraction: usable > 0 ? energyWh / usable : Number.POSITIVE_INFINITY,
+  };
+}
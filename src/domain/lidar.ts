@@ -14,7 +14,7 @@ export const XT32M2X_NATIVE_POINT_RATES: Record<LidarReturnMode, number> = {
   triple: 1_920_000,
 };
 
-function computeEffectivePointRates(
+export function computeEffectivePointRates(
   nativePointRates: Record<LidarReturnMode, number>,
   mappingHorizontalFovDeg: number,
   nativeHorizontalFovDeg: number
@@ -63,15 +63,6 @@ export const WINGTRA_LIDAR_XT32M2X: LidarModel = {
 
 export const DEFAULT_LIDAR = WINGTRA_LIDAR_XT32M2X;
 
-export const LIDAR_REGISTRY: Record<string, LidarModel> = {
-  WINGTRA_LIDAR_XT32M2X,
-};
-
-export function getLidarModel(key?: string): LidarModel {
-  if (key && LIDAR_REGISTRY[key]) return LIDAR_REGISTRY[key];
-  return DEFAULT_LIDAR;
-}
-
 export function lidarSwathWidth(altitudeAGL: number, mappingFovDeg: number = DEFAULT_LIDAR.mappingHorizontalFovDeg): number {
   const halfAngleRad = (mappingFovDeg * Math.PI) / 360;
   return 2 * altitudeAGL * Math.tan(halfAngleRad);
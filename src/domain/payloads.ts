@@ -0,0 +1,222 @@
+/**
+ * Payload registry: the built-in cameras and lidars plus user-defined sensors.
+ * Everything that resolves a `cameraKey` / `lidarKey` goes through here so a custom
+ * sensor is usable wherever a built-in one is.
+ */
+
+import { DJI_ZENMUSE_P1_24MM, ILX_LR1_INSPECT_85MM, MAP61_17MM, RGB61_24MM, SONY_RX1R2 } from './camera';
+import { DEFAULT_LIDAR, DEFAULT_LIDAR_MAX_RANGE_M, WINGTRA_LIDAR_XT32M2X, computeEffectivePointRates } from './lidar';
+import type { CameraModel, LidarModel, LidarReturnMode } from './types';
+
+export const BUILTIN_CAMERAS: Record<string, CameraModel> = {
+  SONY_RX1R2,
+  DJI_ZENMUSE_P1_24MM,
+  ILX_LR1_INSPECT_85MM,
+  MAP61_17MM,
+  RGB61_24MM,
+};
+
+export const BUILTIN_LIDARS: Record<string, LidarModel> = {
+  WINGTRA_LIDAR_XT32M2X,
+};
+
+export const DEFAULT_CAMERA_KEY = 'SONY_RX1R2';
+export const DEFAULT_CAMERA = SONY_RX1R2;
+
+export interface CustomCamera {
+  key: string;
+  name: string;
+  model: CameraModel;
+}
+
+export interface CustomLidar {
+  key: string;
+  name: string;
+  model: LidarModel;
+}
+
+export interface CustomPayloads {
+  cameras: CustomCamera[];
+  lidars: CustomLidar[];
+}
+
+/** Registry entry as shown in payload pickers. */
+export interface PayloadOption<M> {
+  key: string;
+  label: string;
+  model: M;
+  custom: boolean;
+}
+
+/** What a user enters for a custom lidar; the rest of the model is derived. */
+export interface LidarSpec {
+  name: string;
+  verticalAnglesDeg: number[];
+  nativeHorizontalFovDeg: number;
+  mappingHorizontalFovDeg: number;
+  nativePointRates: Record<LidarReturnMode, number>;
+  defaultSpeedMps: number;
+  defaultFrameRateHz: number;
+  maxRangeM: number;
+}
+
+let customPayloads: CustomPayloads = { cameras: [], lidars: [] };
+let cameraRegistry: Record<string, CameraModel> = { ...BUILTIN_CAMERAS };
+let lidarRegistry: Record<string, LidarModel> = { ...BUILTIN_LIDARS };
+let registryVersion = 0;
+const listeners = new Set<() => void>();
+
+export function getCustomPayloads(): CustomPayloads {
+  return customPayloads;
+}
+
+/** Replace the user-defined sensors (invalid entries and built-in keys are dropped). */
+export function setCustomPayloads(next: CustomPayloads): void {
+  customPayloads = normalizeCustomPayloads(next);
+  cameraRegistry = { ...BUILTIN_CAMERAS };
+  customPayloads.cameras.forEach((camera) => { cameraRegistry[camera.key] = camera.model; });
+  lidarRegistry = { ...BUILTIN_LIDARS };
+  customPayloads.lidars.forEach((lidar) => { lidarRegistry[lidar.key] = lidar.model; });
+  registryVersion += 1;
+  listeners.forEach((listener) => listener());
+}
+
+/** Called after every change to the custom sensors; returns an unsubscribe function. */
+export function subscribePayloads(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** Increments on every change; a cheap snapshot for React's useSyncExternalStore. */
+export function getPayloadRegistryVersion(): number {
+  return registryVersion;
+}
+
+export function getCameraRegistry(): Record<string, CameraModel> {
+  return cameraRegistry;
+}
+
+export function getLidarRegistry(): Record<string, LidarModel> {
+  return lidarRegistry;
+}
+
+/** Camera for a key; unknown or missing keys fall back to the default camera. */
+export function getCameraModel(key?: string): CameraModel {
+  if (key && cameraRegistry[key]) return cameraRegistry[key];
+  return DEFAULT_CAMERA;
+}
+
+/** Lidar for a key; unknown or missing keys fall back to the default lidar. */
+export function getLidarModel(key?: string): LidarModel {
+  if (key && lidarRegistry[key]) return lidarRegistry[key];
+  return DEFAULT_LIDAR;
+}
+
+export function isCustomPayloadKey(key: string): boolean {
+  return !BUILTIN_CAMERAS[key] && !BUILTIN_LIDARS[key] && (!!cameraRegistry[key] || !!lidarRegistry[key]);
+}
+
+export function listCameraOptions(): PayloadOption<CameraModel>[] {
+  return [
+    ...Object.entries(BUILTIN_CAMERAS).map(([key, model]) => ({ key, label: model.names?.[0] || key, model, custom: false })),
+    ...customPayloads.cameras.map((camera) => ({ key: camera.key, label: camera.name, model: camera.model, custom: true })),
+  ];
+}
+
+export function listLidarOptions(): PayloadOption<LidarModel>[] {
+  return [
+    ...Object.entries(BUILTIN_LIDARS).map(([key, model]) => ({ key, label: model.names?.[0] || key, model, custom: false })),
+    ...customPayloads.lidars.map((lidar) => ({ key: lidar.key, label: lidar.name, model: lidar.model, custom: true })),
+  ];
+}
+
+/** Stable registry key for a new custom sensor, unique among the existing keys. */
+export function createCustomPayloadKey(kind: 'camera' | 'lidar', name: string): string {
+  const slug = name.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'SENSOR';
+  const base = `CUSTOM_${kind === 'camera' ? 'CAMERA' : 'LIDAR'}_${slug}`;
+  let key = base;
+  for (let n = 2; cameraRegistry[key] || lidarRegistry[key]; n++) key = `${base}_${n}`;
+  return key;
+}
+
+/** Build a full lidar model from user-entered beam angles, point rates and fields of view. */
+export function buildLidarModel(key: string, spec: LidarSpec): LidarModel {
+  const angles = [...spec.verticalAnglesDeg].filter(Number.isFinite).sort((a, b) => b - a);
+  const spacings = angles.slice(1).map((angle, i) => angles[i] - angle);
+  const verticalResolutionDeg = spacings.length > 0
+    ? spacings.reduce((sum, spacing) => sum + spacing, 0) / spacings.length
+    : 0;
+  const mappingFov = Math.min(spec.mappingHorizontalFovDeg, spec.nativeHorizontalFovDeg);
+  return {
+    key,
+    defaultSpeedMps: spec.defaultSpeedMps,
+    nativeHorizontalFovDeg: spec.nativeHorizontalFovDeg,
+    mappingHorizontalFovDeg: mappingFov,
+    effectiveHorizontalFovDeg: mappingFov,
+    verticalFovMinDeg: angles.length > 0 ? angles[angles.length - 1] : 0,
+    verticalFovMaxDeg: angles.length > 0 ? angles[0] : 0,
+    verticalResolutionDeg,
+    verticalAnglesDeg: angles,
+    defaultFrameRateHz: spec.defaultFrameRateHz,
+    supportedFrameRatesHz: [spec.defaultFrameRateHz],
+    nativePointRates: { ...spec.nativePointRates },
+    effectivePointRates: computeEffectivePointRates(spec.nativePointRates, mappingFov, spec.nativeHorizontalFovDeg),
+    defaultAzimuthSectorCenterDeg: 0,
+    boresightYawDeg: 0,
+    boresightPitchDeg: 0,
+    boresightRollDeg: 0,
+    defaultMaxRangeM: spec.maxRangeM,
+    names: [spec.name, key],
+  };
+}
+
+/** The editable fields of a lidar model (inverse of buildLidarModel). */
+export function lidarSpecFromModel(name: string, model: LidarModel): LidarSpec {
+  return {
+    name,
+    verticalAnglesDeg: [...model.verticalAnglesDeg],
+    nativeHorizontalFovDeg: model.nativeHorizontalFovDeg,
+    mappingHorizontalFovDeg: model.mappingHorizontalFovDeg,
+    nativePointRates: { ...model.nativePointRates },
+    defaultSpeedMps: model.defaultSpeedMps,
+    defaultFrameRateHz: model.defaultFrameRateHz,
+    maxRangeM: model.defaultMaxRangeM ?? DEFAULT_LIDAR_MAX_RANGE_M,
+  };
+}
+
+const positive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+function isValidCamera(model: any): model is CameraModel {
+  return !!model && positive(model.f_m) && positive(model.sx_m) && positive(model.sy_m) && positive(model.w_px) && positive(model.h_px);
+}
+
+function isValidLidar(model: any): model is LidarModel {
+  return !!model
+    && positive(model.defaultSpeedMps)
+    && positive(model.mappingHorizontalFovDeg)
+    && positive(model.nativeHorizontalFovDeg)
+    && Array.isArray(model.verticalAnglesDeg)
+    && ['single', 'dual', 'triple'].every((mode) => positive(model.nativePointRates?.[mode]) && positive(model.effectivePointRates?.[mode]));
+}
+
+/**
+ * Validate stored or imported custom sensors: entries need a key, a name and a usable model;
+ * keys of built-in payloads and duplicates are rejected so they cannot shadow each other.
+ */
+export function normalizeCustomPayloads(raw: unknown): CustomPayloads {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const seen = new Set<string>([...Object.keys(BUILTIN_CAMERAS), ...Object.keys(BUILTIN_LIDARS)]);
+  const accept = (entry: any) => {
+    if (typeof entry?.key !== 'string' || !entry.key || seen.has(entry.key)) return false;
+    if (typeof entry.name !== 'string' || !entry.name.trim()) return false;
+    seen.add(entry.key);
+    return true;
+  };
+  const cameras = (Array.isArray(data.cameras) ? data.cameras : [])
+    .filter((entry: any) => isValidCamera(entry?.model) && accept(entry))
+    .map((entry: any): CustomCamera => ({ key: entry.key, name: entry.name.trim(), model: { ...entry.model, names: [entry.name.trim(), entry.key] } }));
+  const lidars = (Array.isArray(data.lidars) ? data.lidars : [])
+    .filter((entry: any) => isValidLidar(entry?.model) && accept(entry))
+    .map((entry: any): CustomLidar => ({ key: entry.key, name: entry.name.trim(), model: { ...entry.model, key: entry.key, names: [entry.name.trim(), entry.key] } }));
+  return { cameras, lidars };
+}
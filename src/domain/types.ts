@@ -8,6 +8,7 @@ export type LngLat = [number, number];
 export interface PolygonRing {
   id: string;          // always defined
   ring: LngLat[];      // closed ring
+  holes?: LngLat[][];  // closed inner rings (exclusion zones: lakes, buildings, no-fly areas)
 }
 
 export interface CameraModel {
@@ -18,12 +19,18 @@ export interface CameraModel {
   h_px: number;        // image height in pixels
   cx_px?: number;      // principal point x (optional, defaults to w_px/2)
   cy_px?: number;      // principal point y (optional, defaults to h_px/2)
+  k1?: number;         // Brown–Conrady radial coefficients on normalized image coords (optional)
+  k2?: number;
+  k3?: number;
+  p1?: number;         // Brown–Conrady tangential coefficients (optional)
+  p2?: number;
   names?: string[];    // canonical & alias names (exact matches to Wingtra payload strings)
 }
 
 export type PayloadKind = 'camera' | 'lidar';
 export type LidarReturnMode = 'single' | 'dual' | 'triple';
 export type LidarComparisonMode = 'first-return' | 'all-returns';
+export type AltitudeMode = 'legacy' | 'min-clearance' | 'terrain-following';
 
 export interface LidarModel {
   key: string;
@@ -47,6 +54,44 @@ export interface LidarModel {
   names?: string[];
 }
 
+export interface AircraftModel {
+  key: string;
+  cruiseSpeedMps: number;     // airspeed on survey lines and transits
+  climbRateMps: number;       // max sustained vertical climb rate
+  descentRateMps: number;     // max sustained vertical descent rate
+  turnRadiusM: number;        // radius of the 180° turn between survey lines
+  cruisePowerW: number;       // electrical power draw in level cruise
+  climbPowerW: number;        // power draw while climbing at climbRateMps
+  descentPowerW: number;      // power draw while descending at descentRateMps
+  batteryCapacityWh: number;  // total pack energy
+  reserveFraction: number;    // fraction of capacity kept as landing reserve (0–1)
+  names?: string[];
+}
+
+export interface WindVector {
+  speedMps: number;           // horizontal wind speed
+  fromDeg: number;            // direction the wind blows FROM, degrees clockwise from north
+}
+
+/** Restricted airspace volume: a horizontal footprint between a floor and a ceiling. */
+export interface AirspaceZone {
+  id: string;
+  name?: string;
+  ring: LngLat[];             // closed outer ring
+  holes?: LngLat[][];
+  floorM: number | null;      // meters above mean sea level (terrain datum); null = surface
+  ceilingM: number | null;    // meters above mean sea level; null = unlimited
+}
+
+/** Linear mission: flight lines run parallel to a centerline across a corridor of this width. */
+export interface CorridorSpec {
+  centerline: LngLat[];
+  widthM: number;
+}
+
+/** One grid, a second grid at +90° (crosshatch), or several grids flown with a tilted camera. */
+export type FlightPattern = 'grid' | 'crosshatch' | 'oblique';
+
 export interface FlightParams {
   payloadKind?: PayloadKind; // defaults to 'camera' for legacy polygons
   altitudeAGL: number;  // altitude above ground level in meters
@@ -69,6 +114,12 @@ export interface FlightParams {
   pointDensityPtsM2?: number; // imported or computed lidar density estimate
   useCustomBearing?: boolean; // optional manual bearing flag
   customBearingDeg?: number;  // optional manual bearing degrees clockwise from north
+  targetGsdM?: number;        // camera: solve altitude so the target percentile GSD meets this (m/px)
+  targetDensityPtsM2?: number; // lidar: solve altitude/speed/overlap so the target percentile density meets this
+  targetPercentile?: number;  // percentile of the area that must meet the target (default 90)
+  pattern?: FlightPattern;    // defaults to a single grid
+  obliquePassCount?: number;  // oblique: number of grids spread over 180° (2–4)
+  cameraPitchDeg?: number;    // oblique: camera tilt off nadir along the flight direction
 }
 
 export interface TerrainTile {
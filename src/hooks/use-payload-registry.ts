@@ -0,0 +1,12 @@
+import * as React from 'react';
+import { getPayloadRegistryVersion, listCameraOptions, listLidarOptions, subscribePayloads } from '@/domain/payloads';
+
+/** Camera and lidar options for pickers; re-renders when custom sensors change. */
+export function usePayloadRegistry() {
+  const version = React.useSyncExternalStore(subscribePayloads, getPayloadRegistryVersion);
+  return React.useMemo(() => ({
+    version,
+    cameras: listCameraOptions(),
+    lidars: listLidarOptions(),
+  }), [version]);
+}
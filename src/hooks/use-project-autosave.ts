@@ -0,0 +1,70 @@
+import * as React from 'react';
+import type { MapFlightDirectionAPI } from '@/components/MapFlightDirection/api';
+import { createProjectDocument, type ProjectMeta } from '@/services/projectDocument';
+import { isProjectStoreAvailable, saveProject } from '@/services/projectStore';
+
+const AUTOSAVE_INTERVAL_MS = 3000;
+
+/**
+ * Periodically snapshot the map's planning state and write it to the project store when it
+ * changed. Empty plans are not saved until something has been added, so opening the app
+ * does not fill the project list with blank projects. Discarded projects are never written
+ * again, so a pending or periodic save cannot bring a deleted project back.
+ */
+export function useProjectAutosave(
+  mapRef: React.RefObject<MapFlightDirectionAPI>,
+  project: ProjectMeta | null,
+  enabled: boolean,
+) {
+  const [lastSavedAt, setLastSavedAt] = React.useState<string | null>(null);
+  const lastSnapshotRef = React.useRef<string | null>(null);
+  const savingRef = React.useRef(false);
+  const pendingSaveRef = React.useRef<Promise<void> | null>(null);
+  const discardedIdsRef = React.useRef(new Set<string>());
+
+  // A different project starts from a clean slate
+  React.useEffect(() => {
+    lastSnapshotRef.current = null;
+    setLastSavedAt(null);
+  }, [project?.id]);
+
+  const saveNow = React.useCallback(async (force = false) => {
+    const api = mapRef.current;
+    if (!project || !api?.getProjectState || !isProjectStoreAvailable() || savingRef.current) return;
+    if (discardedIdsRef.current.has(project.id)) return;
+    const state = api.getProjectState();
+    const snapshot = JSON.stringify({ name: project.name, state });
+    if (!force && snapshot === lastSnapshotRef.current) return;
+    const isEmpty = state.polygons.length === 0 && state.airspaceZones.length === 0;
+    if (!force && isEmpty && lastSnapshotRef.current === null) return;
+    savingRef.current = true;
+    const save = (async () => {
+      try {
+        const doc = createProjectDocument(state, project);
+        await saveProject(doc);
+        lastSnapshotRef.current = snapshot;
+        setLastSavedAt(doc.updatedAt);
+      } catch (error) {
+        console.warn('[projects] autosave failed', error);
+      } finally {
+        savingRef.current = false;
+      }
+    })();
+    pendingSaveRef.current = save;
+    await save;
+  }, [mapRef, project]);
+
+  // Stop saving a project (before deleting it); resolves once a save in progress has finished
+  const discardProject = React.useCallback(async (id: string) => {
+    discardedIdsRef.current.add(id);
+    await pendingSaveRef.current;
+  }, []);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const timer = window.setInterval(() => { void saveNow(); }, AUTOSAVE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [enabled, saveNow]);
+
+  return { lastSavedAt, saveNow, discardProject };
+}
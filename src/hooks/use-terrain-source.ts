@@ -0,0 +1,12 @@
+import * as React from 'react';
+import { getTerrainDem, getTerrainSourceVersion, getTerrainTileSource, subscribeTerrainSource } from '@/terrain/sources';
+
+/** Active terrain tile source and uploaded DEM; re-renders when either changes. */
+export function useTerrainSource() {
+  const version = React.useSyncExternalStore(subscribeTerrainSource, getTerrainSourceVersion);
+  return React.useMemo(() => ({
+    version,
+    tileSource: getTerrainTileSource(),
+    dem: getTerrainDem(),
+  }), [version]);
+}
@@ -0,0 +1,211 @@
+// src/interop/gis/geojson.ts
+//
+// GeoJSON import of areas (Polygon / MultiPolygon features, attributes mapped to flight
+// parameters) and export of the plan: areas with their parameters and stats, flight lines
+// and trigger points. The attribute names are shared with the Shapefile export.
+//
+
+import type { FlightParams, LngLat } from "@/domain/types";
+import type { GisArea, GisAttributes, GisExportArea } from "./types";
+
+type GeoJsonGeometry =
+  | { type: "Polygon"; coordinates: LngLat[][] }
+  | { type: "LineString"; coordinates: LngLat[] }
+  | { type: "Point"; coordinates: [number, number, number] };
+
+export interface GeoJsonFeature {
+  type: "Feature";
+  geometry: GeoJsonGeometry;
+  properties: GisAttributes;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: "FeatureCollection";
+  features: GeoJsonFeature[];
+}
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+// Attribute names accepted for each parameter (compared without case, spaces or underscores)
+const PARAM_ALIASES: Record<string, string[]> = {
+  altitudeAGL: ["altagl", "altitudeagl", "altitude", "alt", "height", "heightagl", "flightheight"],
+  frontOverlap: ["frontovl", "frontoverlap", "forwardoverlap", "front"],
+  sideOverlap: ["sideovl", "sideoverlap", "side"],
+  customBearingDeg: ["bearing", "bearingdeg", "direction", "heading", "angle"],
+  speedMps: ["speedmps", "speed"],
+  payloadKind: ["payload", "payloadkind"],
+  cameraKey: ["camera", "camerakey"],
+  lidarKey: ["lidar", "lidarkey"],
+};
+const NAME_ALIASES = ["name", "title", "label"];
+
+function findAttribute(attributes: Record<string, unknown>, aliases: string[]): unknown {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (aliases.includes(normalizeKey(key)) && value !== null && value !== undefined && value !== "") return value;
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === "number" ? value : typeof value === "string" ? parseFloat(value) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Flight parameters found in a feature's attributes. Overlaps below 1 are read as fractions
+ * (0.8 → 80 %); 1 and above are percent, so "1" stays 1 %.
+ */
+export function paramsFromAttributes(attributes: Record<string, unknown> | null | undefined): Partial<FlightParams> {
+  const params: Partial<FlightParams> = {};
+  if (!attributes) return params;
+  const number = (field: string) => toNumber(findAttribute(attributes, PARAM_ALIASES[field]));
+  const overlap = (field: string) => {
+    const value = number(field);
+    if (value === undefined || value < 0) return undefined;
+    return value < 1 ? value * 100 : Math.min(value, 99);
+  };
+
+  const altitudeAGL = number("altitudeAGL");
+  if (altitudeAGL !== undefined && altitudeAGL > 0) params.altitudeAGL = altitudeAGL;
+  const frontOverlap = overlap("frontOverlap");
+  if (frontOverlap !== undefined) params.frontOverlap = frontOverlap;
+  const sideOverlap = overlap("sideOverlap");
+  if (sideOverlap !== undefined) params.sideOverlap = sideOverlap;
+  const bearing = number("customBearingDeg");
+  if (bearing !== undefined) {
+    params.useCustomBearing = true;
+    params.customBearingDeg = ((bearing % 360) + 360) % 360;
+  }
+  const speed = number("speedMps");
+  if (speed !== undefined && speed > 0) params.speedMps = speed;
+  const payload = String(findAttribute(attributes, PARAM_ALIASES.payloadKind) ?? "").toLowerCase();
+  if (payload === "camera" || payload === "lidar") params.payloadKind = payload;
+  const cameraKey = findAttribute(attributes, PARAM_ALIASES.cameraKey);
+  if (typeof cameraKey === "string") params.cameraKey = cameraKey;
+  const lidarKey = findAttribute(attributes, PARAM_ALIASES.lidarKey);
+  if (typeof lidarKey === "string") params.lidarKey = lidarKey;
+  return params;
+}
+
+export function nameFromAttributes(attributes: Record<string, unknown> | null | undefined): string | undefined {
+  const name = attributes ? findAttribute(attributes, NAME_ALIASES) : undefined;
+  return name === undefined ? undefined : String(name);
+}
+
+/** Closed ring of at least three distinct points, or null. */
+export function normalizeGisRing(raw: unknown): LngLat[] | null {
+  if (!Array.isArray(raw)) return null;
+  const ring: LngLat[] = raw
+    .filter((p: any) => Array.isArray(p) && Number.isFinite(p[0]) && Number.isFinite(p[1]))
+    .map((p: any) => [p[0], p[1]]);
+  if (ring.length < 3) return null;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) ring.push([first[0], first[1]]);
+  return ring.length >= 4 ? ring : null;
+}
+
+function areasFromGeometry(geometry: any, attributes: Record<string, unknown>): GisArea[] {
+  const polygons: unknown[][] =
+    !Array.isArray(geometry?.coordinates) ? []
+    : geometry.type === "Polygon" ? [geometry.coordinates]
+    : geometry?.type === "MultiPolygon" ? geometry.coordinates
+    : [];
+  const name = nameFromAttributes(attributes);
+  const params = paramsFromAttributes(attributes);
+  const areas: GisArea[] = [];
+  for (const rings of polygons) {
+    if (!Array.isArray(rings)) continue;
+    const ring = normalizeGisRing(rings[0]);
+    if (!ring) continue;
+    const holes = rings.slice(1).map(normalizeGisRing).filter((hole): hole is LngLat[] => hole !== null);
+    areas.push({ ...(name ? { name } : {}), ring, ...(holes.length > 0 ? { holes } : {}), params });
+  }
+  if (geometry?.type === "GeometryCollection" && Array.isArray(geometry.geometries)) {
+    for (const member of geometry.geometries) areas.push(...areasFromGeometry(member, attributes));
+  }
+  return areas;
+}
+
+/**
+ * Areas of a GeoJSON document (FeatureCollection, Feature or bare geometry). Coordinates must
+ * be WGS84 longitude/latitude as the GeoJSON spec requires; other geometry types are skipped.
+ */
+export function areasFromGeoJSON(data: unknown): GisArea[] {
+  const doc = typeof data === "string" ? JSON.parse(data) : data as any;
+  if (!doc || typeof doc !== "object") throw new Error("Invalid GeoJSON: expected an object");
+  const features: any[] =
+    doc.type === "FeatureCollection" && Array.isArray(doc.features) ? doc.features
+    : doc.type === "Feature" ? [doc]
+    : [{ type: "Feature", geometry: doc, properties: {} }];
+  return features.flatMap((feature) => areasFromGeometry(feature?.geometry, feature?.properties ?? {}));
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/** Attributes of an exported area: its parameters and, when analysed, GSD (cm/px) or density stats. */
+export function areaAttributes(area: GisExportArea): GisAttributes {
+  const params = area.params;
+  const stats = area.stats;
+  const gsd = stats?.metricKind === "gsd";
+  const density = stats?.metricKind === "density";
+  const cm = (m: number) => round(m * 100, 2);
+  return {
+    area_id: area.polygonId,
+    name: area.name ?? null,
+    payload: params?.payloadKind ?? (params ? "camera" : null),
+    camera: params?.payloadKind !== "lidar" ? params?.cameraKey ?? null : null,
+    lidar: params?.payloadKind === "lidar" ? params.lidarKey ?? null : null,
+    alt_agl: params ? round(params.altitudeAGL, 1) : null,
+    front_ovl: params ? round(params.frontOverlap, 1) : null,
+    side_ovl: params ? round(params.sideOverlap, 1) : null,
+    bearing: round(area.bearingDeg, 1),
+    line_sp_m: area.lineSpacingM !== undefined ? round(area.lineSpacingM, 2) : null,
+    speed_mps: params?.payloadKind === "lidar" && params.speedMps !== undefined ? round(params.speedMps, 1) : null,
+    lines: area.flightLines.length,
+    triggers: area.triggerPoints.length,
+    gsd_min_cm: gsd ? cm(stats.min) : null,
+    gsd_avg_cm: gsd ? cm(stats.mean) : null,
+    gsd_max_cm: gsd ? cm(stats.max) : null,
+    pts_min_m2: density ? round(stats.min, 1) : null,
+    pts_avg_m2: density ? round(stats.mean, 1) : null,
+    pts_max_m2: density ? round(stats.max, 1) : null,
+    samples: stats ? stats.sampleCount : null,
+    area_ha: stats ? round(stats.areaM2 / 10_000, 3) : null,
+  };
+}
+
+export function lineAttributes(area: GisExportArea, lineIndex: number): GisAttributes {
+  const bearing = area.lineBearingsDeg?.[lineIndex] ?? area.bearingDeg;
+  return { area_id: area.polygonId, line_no: lineIndex + 1, bearing: round(bearing, 1) };
+}
+
+export function triggerAttributes(area: GisExportArea, triggerIndex: number): GisAttributes {
+  return { area_id: area.polygonId, shot_no: triggerIndex + 1, alt_wgs84: round(area.triggerPoints[triggerIndex][2], 2) };
+}
+
+/** One FeatureCollection with areas, flight lines and trigger points, told apart by `kind`. */
+export function planToGeoJSON(areas: GisExportArea[]): GeoJsonFeatureCollection {
+  const features: GeoJsonFeature[] = [];
+  for (const area of areas) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: [area.ring, ...(area.holes ?? [])] },
+      properties: { kind: "area", ...areaAttributes(area) },
+    });
+  }
+  for (const area of areas) {
+    area.flightLines.forEach((line, i) => features.push({
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: line },
+      properties: { kind: "flight_line", ...lineAttributes(area, i) },
+    }));
+  }
+  for (const area of areas) {
+    area.triggerPoints.forEach((point, i) => features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: point },
+      properties: { kind: "trigger", ...triggerAttributes(area, i) },
+    }));
+  }
+  return { type: "FeatureCollection", features };
+}
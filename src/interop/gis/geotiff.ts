@@ -0,0 +1,262 @@
+// src/interop/gis/geotiff.ts
+//
+// GeoTIFF export of the coverage analysis: the per-tile worker results (image overlap,
+// best GSD, lidar point density) are mosaicked over the mission extent and written as
+// single-band, uncompressed GeoTIFFs in Web Mercator (EPSG:3857) with a GDAL nodata value,
+// so they load in QGIS next to the delivered orthomosaics.
+//
+
+import type { LngLat } from "@/domain/types";
+import { lngLatToMeters, tileMetersBounds } from "@/overlap/mercator";
+import type { TileResult } from "@/overlap/types";
+
+export type CoverageBand = "overlap" | "gsd" | "density";
+
+/** Latest analysis tiles, per payload; camera tiles carry overlap and GSD, lidar tiles density. */
+export interface CoverageTiles {
+  camera: TileResult[];
+  lidar: TileResult[];
+  /** Analysed areas; pixels inside them without coverage are written as 0 rather than nodata. */
+  areas?: CoverageArea[];
+}
+
+export interface CoverageArea {
+  ring: LngLat[];
+  holes?: LngLat[][];
+}
+
+/** North-up raster in EPSG:3857; row 0 is the northern edge. */
+export interface CoverageRaster {
+  band: CoverageBand;
+  width: number;
+  height: number;
+  originX: number; // west edge, meters
+  originY: number; // north edge, meters
+  pixelSize: number; // meters
+  data: Uint16Array | Float32Array;
+  nodata: number;
+}
+
+// Overlap counts are stored as-is: 0 is an uncovered pixel inside an area, outside is nodata
+const OVERLAP_NODATA = 65535;
+const FLOAT_NODATA = -9999;
+// Bands where a pixel inside an area without a value is a real 0 (a coverage gap)
+const ZERO_INSIDE_AREAS: Record<CoverageBand, boolean> = { overlap: true, gsd: false, density: true };
+
+/** Value written for one pixel of a tile, or null for nodata. GSD is written in cm/px. */
+function pixelValue(tile: TileResult, band: CoverageBand, index: number): number | null {
+  if (band === "overlap") {
+    const count = tile.overlap[index];
+    return count > 0 ? count : null;
+  }
+  if (band === "gsd") {
+    const gsd = tile.gsdMin[index];
+    return Number.isFinite(gsd) && gsd > 0 ? gsd * 100 : null;
+  }
+  const density = tile.density?.[index] ?? 0;
+  return Number.isFinite(density) && density > 0 ? density : null;
+}
+
+/**
+ * Pixels (row-major, centers) of a north-up grid that fall inside any of the areas; holes are
+ * left out (even-odd per area). Scanline fill in EPSG:3857 meters.
+ */
+function rasterizeAreas(
+  areas: CoverageArea[],
+  width: number,
+  height: number,
+  originX: number,
+  originY: number,
+  pixelSize: number,
+): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const area of areas) {
+    const rings = [area.ring, ...(area.holes ?? [])].map((ring) => ring.map(([lng, lat]) => lngLatToMeters(lng, lat)));
+    for (let row = 0; row < height; row++) {
+      const y = originY - (row + 0.5) * pixelSize;
+      const crossings: number[] = [];
+      for (const ring of rings) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+          const [xi, yi] = ring[i];
+          const [xj, yj] = ring[j];
+          if ((yi > y) !== (yj > y)) crossings.push(xi + ((y - yi) / (yj - yi)) * (xj - xi));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        const first = Math.max(0, Math.ceil((crossings[k] - originX) / pixelSize - 0.5));
+        const last = Math.min(width - 1, Math.floor((crossings[k + 1] - originX) / pixelSize - 0.5));
+        for (let col = first; col <= last; col++) mask[row * width + col] = 1;
+      }
+    }
+  }
+  return mask;
+}
+
+/**
+ * Mosaic of one band over the bounding box of the tiles. Tiles must share the zoom and size
+ * of the first one (the analysis runs at a single zoom); others are skipped. Overlap and
+ * density pixels inside `areas` without a value are 0, everything else without a value is
+ * nodata. Null when no tile has a value for the band.
+ */
+export function mosaicCoverageTiles(tiles: TileResult[], band: CoverageBand, areas: CoverageArea[] = []): CoverageRaster | null {
+  const usable = tiles.filter((tile) => tile.z === tiles[0]?.z && tile.size === tiles[0]?.size);
+  if (usable.length === 0) return null;
+  const { z, size } = usable[0];
+  let [minTx, maxTx, minTy, maxTy] = [Infinity, -Infinity, Infinity, -Infinity];
+  for (const tile of usable) {
+    minTx = Math.min(minTx, tile.x); maxTx = Math.max(maxTx, tile.x);
+    minTy = Math.min(minTy, tile.y); maxTy = Math.max(maxTy, tile.y);
+  }
+  const width = (maxTx - minTx + 1) * size;
+  const height = (maxTy - minTy + 1) * size;
+  const nodata = band === "overlap" ? OVERLAP_NODATA : FLOAT_NODATA;
+  const data = band === "overlap" ? new Uint16Array(width * height).fill(nodata) : new Float32Array(width * height).fill(nodata);
+  const topLeft = tileMetersBounds(z, minTx, minTy);
+  const pixelSize = (topLeft.maxX - topLeft.minX) / size;
+  if (ZERO_INSIDE_AREAS[band] && areas.length > 0) {
+    const inside = rasterizeAreas(areas, width, height, topLeft.minX, topLeft.maxY, pixelSize);
+    for (let i = 0; i < inside.length; i++) if (inside[i]) data[i] = 0;
+  }
+
+  let hasValue = false;
+  for (const tile of usable) {
+    const col0 = (tile.x - minTx) * size;
+    const row0 = (tile.y - minTy) * size;
+    for (let row = 0; row < size; row++) {
+      const offset = (row0 + row) * width + col0;
+      for (let col = 0; col < size; col++) {
+        const value = pixelValue(tile, band, row * size + col);
+        if (value === null) continue;
+        data[offset + col] = value;
+        hasValue = true;
+      }
+    }
+  }
+  if (!hasValue) return null;
+
+  return {
+    band,
+    width,
+    height,
+    originX: topLeft.minX,
+    originY: topLeft.maxY,
+    pixelSize,
+    data,
+    nodata,
+  };
+}
+
+// TIFF field types
+const SHORT = 3;
+const LONG = 4;
+const ASCII = 2;
+const DOUBLE = 12;
+const TYPE_SIZE: Record<number, number> = { [ASCII]: 1, [SHORT]: 2, [LONG]: 4, [DOUBLE]: 8 };
+
+type TiffEntry = { tag: number; type: number; values: number[] | string };
+
+/** Little-endian baseline GeoTIFF (single strip) of a coverage raster. */
+export function writeGeoTiff(raster: CoverageRaster): Uint8Array {
+  const float = raster.data instanceof Float32Array;
+  const bytesPerSample = float ? 4 : 2;
+  const imageBytes = raster.width * raster.height * bytesPerSample;
+  const entries: TiffEntry[] = [
+    { tag: 256, type: LONG, values: [raster.width] },
+    { tag: 257, type: LONG, values: [raster.height] },
+    { tag: 258, type: SHORT, values: [bytesPerSample * 8] },
+    { tag: 259, type: SHORT, values: [1] }, // no compression
+    { tag: 262, type: SHORT, values: [1] }, // BlackIsZero
+    { tag: 273, type: LONG, values: [0] }, // strip offset, patched below
+    { tag: 277, type: SHORT, values: [1] },
+    { tag: 278, type: LONG, values: [raster.height] },
+    { tag: 279, type: LONG, values: [imageBytes] },
+    { tag: 284, type: SHORT, values: [1] },
+    { tag: 339, type: SHORT, values: [float ? 3 : 1] }, // IEEE float / unsigned int
+    { tag: 33550, type: DOUBLE, values: [raster.pixelSize, raster.pixelSize, 0] }, // ModelPixelScale
+    { tag: 33922, type: DOUBLE, values: [0, 0, 0, raster.originX, raster.originY, 0] }, // ModelTiepoint
+    {
+      tag: 34735, // GeoKeyDirectory: projected, PixelIsArea, EPSG:3857
+      type: SHORT,
+      values: [1, 1, 0, 3, 1024, 0, 1, 1, 1025, 0, 1, 1, 3072, 0, 1, 3857],
+    },
+    { tag: 42113, type: ASCII, values: `${raster.nodata}\0` }, // GDAL_NODATA
+  ];
+
+  const headerBytes = 8;
+  const ifdBytes = 2 + entries.length * 12 + 4;
+  const valueBytes = (entry: TiffEntry) => TYPE_SIZE[entry.type] * entry.values.length;
+  // Values over 4 bytes live after the IFD (word aligned), then the image data
+  let cursor = headerBytes + ifdBytes;
+  const valueOffsets = entries.map((entry) => {
+    if (valueBytes(entry) <= 4) return -1;
+    const offset = cursor;
+    cursor += valueBytes(entry) + (valueBytes(entry) % 2);
+    return offset;
+  });
+  const imageOffset = cursor + (cursor % 4 === 0 ? 0 : 4 - (cursor % 4));
+  entries.find((entry) => entry.tag === 273)!.values = [imageOffset];
+
+  const bytes = new Uint8Array(imageOffset + imageBytes);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0x4949, true); // "II"
+  view.setUint16(2, 42, true);
+  view.setUint32(4, headerBytes, true);
+  view.setUint16(headerBytes, entries.length, true);
+
+  const writeValues = (entry: TiffEntry, at: number) => {
+    if (typeof entry.values === "string") {
+      for (let i = 0; i < entry.values.length; i++) view.setUint8(at + i, entry.values.charCodeAt(i));
+      return;
+    }
+    entry.values.forEach((value, i) => {
+      if (entry.type === SHORT) view.setUint16(at + i * 2, value, true);
+      else if (entry.type === LONG) view.setUint32(at + i * 4, value, true);
+      else view.setFloat64(at + i * 8, value, true);
+    });
+  };
+  entries.forEach((entry, i) => {
+    const at = headerBytes + 2 + i * 12;
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, entry.values.length, true);
+    if (valueOffsets[i] < 0) writeValues(entry, at + 8);
+    else {
+      view.setUint32(at + 8, valueOffsets[i], true);
+      writeValues(entry, valueOffsets[i]);
+    }
+  });
+  view.setUint32(headerBytes + 2 + entries.length * 12, 0, true); // no next IFD
+
+  if (float) {
+    for (let i = 0; i < raster.data.length; i++) view.setFloat32(imageOffset + i * 4, raster.data[i], true);
+  } else {
+    for (let i = 0; i < raster.data.length; i++) view.setUint16(imageOffset + i * 2, raster.data[i], true);
+  }
+  return bytes;
+}
+
+/** Rasters to export: camera overlap and GSD, lidar density, each when it has data. */
+export function coverageRasters(tiles: CoverageTiles): CoverageRaster[] {
+  return [
+    mosaicCoverageTiles(tiles.camera, "overlap", tiles.areas),
+    mosaicCoverageTiles(tiles.camera, "gsd", tiles.areas),
+    mosaicCoverageTiles(tiles.lidar, "density", tiles.areas),
+  ].filter((raster): raster is CoverageRaster => raster !== null);
+}
+
+const RASTER_FILE_NAMES: Record<CoverageBand, string> = {
+  overlap: "overlap_count.tif",
+  gsd: "gsd_cm.tif",
+  density: "density_pts_m2.tif",
+};
+
+/** Zip of the coverage GeoTIFFs, or null when no analysis results are available. */
+export async function coverageRastersToZip(tiles: CoverageTiles): Promise<Blob | null> {
+  const rasters = coverageRasters(tiles);
+  if (rasters.length === 0) return null;
+  const { default: JSZip } = await import("jszip");
+  const zip = new JSZip();
+  for (const raster of rasters) zip.file(RASTER_FILE_NAMES[raster.band], writeGeoTiff(raster));
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
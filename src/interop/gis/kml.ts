@@ -0,0 +1,112 @@
+// src/interop/gis/kml.ts
+//
+// KML / KMZ export of the planned mission for review in Google Earth: one folder per area
+// with the area polygon (description balloon with the setup and results), the 3D flight
+// path and the camera trigger points. Paths and triggers use absolute altitude, which KML
+// defines above mean sea level, so WGS84 ellipsoid heights are converted to EGM96.
+//
+
+import * as egm96 from "egm96-universal";
+import type { LngLat } from "@/domain/types";
+import type { GisExportArea } from "./types";
+
+// KML colors are aabbggrr
+const AREA_LINE_COLOR = "ffd4823b";
+const AREA_FILL_COLOR = "40d4823b";
+const PATH_COLOR = "ff00a5ff";
+const TRIGGER_ICON = "http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png";
+
+/** ExtendedData "kind" of exported flight paths; KML import skips these lines instead of making corridors. */
+export const KML_FLIGHT_PATH_KIND = "flight_path";
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const coordinates2D = (ring: LngLat[]) => ring.map(([lng, lat]) => `${lng},${lat}`).join(" ");
+
+/** Height above mean sea level (EGM96) of a WGS84 position, rounded to cm. */
+export function toMeanSeaLevel(lng: number, lat: number, ellipsoidHeightM: number): number {
+  return Number(egm96.ellipsoidToEgm96(lat, lng, ellipsoidHeightM).toFixed(2));
+}
+
+const coordinates3D = (points: [number, number, number][]) =>
+  points.map(([lng, lat, alt]) => `${lng},${lat},${toMeanSeaLevel(lng, lat, alt)}`).join(" ");
+
+/** Rows of an area's description balloon: setup, then GSD / density stats and flight time when known. */
+export function areaBalloonRows(area: GisExportArea): Array<[string, string]> {
+  const rows: Array<[string, string]> = [];
+  const params = area.params;
+  if (params) {
+    const lidar = params.payloadKind === "lidar";
+    rows.push(["Payload", lidar ? `Lidar${params.lidarKey ? ` (${params.lidarKey})` : ""}` : `Camera${params.cameraKey ? ` (${params.cameraKey})` : ""}`]);
+    rows.push(["Altitude AGL", `${params.altitudeAGL.toFixed(0)} m`]);
+    if (!lidar) rows.push(["Front overlap", `${params.frontOverlap.toFixed(0)} %`]);
+    rows.push(["Side overlap", `${params.sideOverlap.toFixed(0)} %`]);
+    if (lidar && params.speedMps !== undefined) rows.push(["Speed", `${params.speedMps.toFixed(1)} m/s`]);
+  }
+  rows.push(["Direction", `${area.bearingDeg.toFixed(1)}°`]);
+  if (area.lineSpacingM !== undefined) rows.push(["Line spacing", `${area.lineSpacingM.toFixed(1)} m`]);
+  rows.push(["Flight lines", String(area.flightLines.length)]);
+  if (area.triggerPoints.length > 0) rows.push(["Images", String(area.triggerPoints.length)]);
+  const stats = area.stats;
+  if (stats?.metricKind === "gsd") {
+    const cm = (m: number) => (m * 100).toFixed(2);
+    rows.push(["GSD min / mean / max", `${cm(stats.min)} / ${cm(stats.mean)} / ${cm(stats.max)} cm/px`]);
+  } else if (stats?.metricKind === "density") {
+    rows.push(["Density min / mean / max", `${stats.min.toFixed(0)} / ${stats.mean.toFixed(1)} / ${stats.max.toFixed(0)} pts/m²`]);
+  }
+  if (stats) rows.push(["Area", `${(stats.areaM2 / 10_000).toFixed(2)} ha`]);
+  if (area.flightTimeSec !== undefined) rows.push(["Estimated time", `${(area.flightTimeSec / 60).toFixed(1)} min`]);
+  return rows;
+}
+
+function areaFolder(area: GisExportArea, index: number): string {
+  const name = escapeXml(area.name || `Area ${index + 1}`);
+  const balloon = areaBalloonRows(area)
+    .map(([label, value]) => `<tr><td><b>${escapeXml(label)}</b></td><td>${escapeXml(value)}</td></tr>`)
+    .join("");
+  const holes = (area.holes ?? [])
+    .map((hole) => `<innerBoundaryIs><LinearRing><coordinates>${coordinates2D(hole)}</coordinates></LinearRing></innerBoundaryIs>`)
+    .join("");
+  const parts = [
+    `<Placemark><name>${name}</name><description><![CDATA[<table>${balloon}</table>]]></description><styleUrl>#area</styleUrl>`
+      + `<Polygon><tessellate>1</tessellate><outerBoundaryIs><LinearRing><coordinates>${coordinates2D(area.ring)}</coordinates></LinearRing></outerBoundaryIs>${holes}</Polygon></Placemark>`,
+  ];
+  const path = (area.path3d ?? []).flat();
+  if (path.length >= 2) {
+    parts.push(
+      `<Placemark><name>Flight path</name><styleUrl>#path</styleUrl>`
+        + `<ExtendedData><Data name="kind"><value>${KML_FLIGHT_PATH_KIND}</value></Data></ExtendedData>`
+        + `<LineString><altitudeMode>absolute</altitudeMode><coordinates>${coordinates3D(path)}</coordinates></LineString></Placemark>`,
+    );
+  }
+  if (area.triggerPoints.length > 0) {
+    const triggers = area.triggerPoints.map((point, i) =>
+      `<Placemark><name>${i + 1}</name><styleUrl>#trigger</styleUrl><Point><altitudeMode>absolute</altitudeMode><coordinates>${coordinates3D([point])}</coordinates></Point></Placemark>`);
+    parts.push(`<Folder><name>Trigger points</name><visibility>0</visibility>${triggers.join("")}</Folder>`);
+  }
+  return `<Folder><name>${name}</name>${parts.join("")}</Folder>`;
+}
+
+/** KML document of the mission. */
+export function planToKml(areas: GisExportArea[], documentName = "Flight plan"): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(documentName)}</name>`,
+    `<Style id="area"><LineStyle><color>${AREA_LINE_COLOR}</color><width>2</width></LineStyle><PolyStyle><color>${AREA_FILL_COLOR}</color></PolyStyle></Style>`,
+    `<Style id="path"><LineStyle><color>${PATH_COLOR}</color><width>2</width></LineStyle></Style>`,
+    `<Style id="trigger"><IconStyle><scale>0.4</scale><Icon><href>${TRIGGER_ICON}</href></Icon></IconStyle><LabelStyle><scale>0</scale></LabelStyle></Style>`,
+    ...areas.map(areaFolder),
+    "</Document>",
+    "</kml>",
+  ].join("\n");
+}
+
+/** KMZ archive (zipped doc.kml) of the mission. */
+export async function planToKmz(areas: GisExportArea[], documentName?: string): Promise<Blob> {
+  const { default: JSZip } = await import("jszip");
+  const zip = new JSZip();
+  zip.file("doc.kml", planToKml(areas, documentName));
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
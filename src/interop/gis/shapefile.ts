@@ -0,0 +1,339 @@
+// src/interop/gis/shapefile.ts
+//
+// Minimal ESRI Shapefile reader/writer (.shp/.shx/.dbf/.prj) for WGS84 data. Import reads
+// polygon layers as areas; export writes three layers (areas, flight lines, trigger points)
+// with the same attributes as the GeoJSON export, zipped together.
+//
+
+import type { LngLat } from "@/domain/types";
+import { pointInPolygon } from "@/planning/lines";
+import { areaAttributes, lineAttributes, nameFromAttributes, paramsFromAttributes, triggerAttributes } from "./geojson";
+import type { GisArea, GisAttributes, GisAttributeValue, GisExportArea } from "./types";
+
+const FILE_CODE = 9994;
+const VERSION = 1000;
+const SHAPE_NULL = 0;
+const SHAPE_POINT = 1;
+const SHAPE_POLYLINE = 3;
+const SHAPE_POLYGON = 5;
+// Z and M variants share the 2D layout up to the points
+const POLYGON_TYPES = new Set([SHAPE_POLYGON, 15, 25]);
+
+export const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+export type ShapefileShapeType = "point" | "polyline" | "polygon";
+
+export interface ShapefileLayer {
+  name: string;
+  shapeType: ShapefileShapeType;
+  /** Polygons: rings (outer first); polylines: parts; points: one part with one point. */
+  records: Array<{ parts: LngLat[][]; attributes: GisAttributes }>;
+}
+
+export interface ShapefileFiles {
+  shp: Uint8Array;
+  shx: Uint8Array;
+  dbf: Uint8Array;
+  prj: string;
+}
+
+// ---------------------------
+// Reading
+// ---------------------------
+
+const signedArea = (ring: LngLat[]) =>
+  ring.slice(1).reduce((sum, [x, y], i) => sum + (ring[i][0] * y - x * ring[i][1]), 0) / 2;
+
+/** dBASE records as plain objects; numeric fields become numbers, blanks null. */
+export function parseDbf(buffer: ArrayBuffer): Array<Record<string, string | number | boolean | null>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder("utf-8");
+  const count = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+  const fields: Array<{ name: string; type: string; length: number }> = [];
+  for (let offset = 32; offset + 32 <= headerLength && bytes[offset] !== 0x0d; offset += 32) {
+    const nameBytes = bytes.subarray(offset, offset + 11);
+    const end = nameBytes.indexOf(0);
+    fields.push({
+      name: decoder.decode(end >= 0 ? nameBytes.subarray(0, end) : nameBytes).trim(),
+      type: String.fromCharCode(bytes[offset + 11]),
+      length: bytes[offset + 16],
+    });
+  }
+
+  const records: Array<Record<string, string | number | boolean | null>> = [];
+  for (let i = 0; i < count; i++) {
+    let offset = headerLength + i * recordLength;
+    if (offset + recordLength > bytes.length) break;
+    offset += 1; // deletion flag
+    const record: Record<string, string | number | boolean | null> = {};
+    for (const field of fields) {
+      const raw = decoder.decode(bytes.subarray(offset, offset + field.length)).trim();
+      offset += field.length;
+      if (field.type === "N" || field.type === "F") {
+        const n = parseFloat(raw);
+        record[field.name] = Number.isFinite(n) ? n : null;
+      } else if (field.type === "L") {
+        record[field.name] = /^[YyTt]$/.test(raw) ? true : /^[NnFf]$/.test(raw) ? false : null;
+      } else {
+        record[field.name] = raw === "" ? null : raw;
+      }
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * Areas of a polygon shapefile, with attributes from the matching .dbf. Layers of other shape
+ * types yield no areas. Projected data (a .prj with PROJCS) is rejected: coordinates must be WGS84.
+ */
+export function parseShapefile(shp: ArrayBuffer, dbf?: ArrayBuffer | null, prj?: string | null): GisArea[] {
+  if (prj && /PROJCS\s*\[/i.test(prj)) {
+    throw new Error("Shapefile uses a projected coordinate system; reproject it to WGS84 (EPSG:4326) first");
+  }
+  const view = new DataView(shp);
+  if (shp.byteLength < 100 || view.getInt32(0, false) !== FILE_CODE) throw new Error("Invalid shapefile: bad .shp header");
+  if (!POLYGON_TYPES.has(view.getInt32(32, true))) return [];
+  const attributes = dbf ? parseDbf(dbf) : [];
+  const fileLength = Math.min(shp.byteLength, view.getInt32(24, false) * 2);
+
+  const areas: GisArea[] = [];
+  let offset = 100;
+  for (let index = 0; offset + 12 <= fileLength; index++) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    const c = offset + 8;
+    offset = c + contentLength;
+    if (view.getInt32(c, true) === SHAPE_NULL || offset > fileLength) continue;
+    const numParts = view.getInt32(c + 36, true);
+    const numPoints = view.getInt32(c + 40, true);
+    const partStarts = Array.from({ length: numParts }, (_, k) => view.getInt32(c + 44 + 4 * k, true));
+    const pointsAt = c + 44 + 4 * numParts;
+    const rings = partStarts.map((start, k) => {
+      const end = k + 1 < numParts ? partStarts[k + 1] : numPoints;
+      const ring: LngLat[] = [];
+      for (let p = start; p < end; p++) ring.push([view.getFloat64(pointsAt + 16 * p, true), view.getFloat64(pointsAt + 16 * p + 8, true)]);
+      return ring;
+    }).filter((ring) => ring.length >= 4);
+
+    // Outer rings run clockwise, holes counter-clockwise; each hole belongs to the outer ring containing it
+    const outers = rings.filter((ring) => signedArea(ring) < 0);
+    if (outers.length === 0 && rings.length > 0) outers.push(rings[0]);
+    const holesByOuter = outers.map((): LngLat[][] => []);
+    for (const ring of rings) {
+      if (outers.includes(ring)) continue;
+      const owner = outers.findIndex((outer) => pointInPolygon(ring[0], outer));
+      if (owner >= 0) holesByOuter[owner].push(ring);
+    }
+    const record = attributes[index] ?? {};
+    const name = nameFromAttributes(record);
+    const params = paramsFromAttributes(record);
+    outers.forEach((ring, k) => areas.push({
+      ...(name ? { name } : {}),
+      ring,
+      ...(holesByOuter[k].length > 0 ? { holes: holesByOuter[k] } : {}),
+      params,
+    }));
+  }
+  return areas;
+}
+
+/** Areas of every polygon layer in a zipped shapefile (other layers, e.g. our own flight lines, are skipped). */
+export async function areasFromShapefileZip(buffer: ArrayBuffer): Promise<GisArea[]> {
+  const { default: JSZip } = await import("jszip");
+  const zip = await JSZip.loadAsync(buffer);
+  const names = Object.keys(zip.files);
+  const sibling = (base: string, ext: string) => names.find((name) => name.toLowerCase() === `${base}.${ext}`);
+  const areas: GisArea[] = [];
+  let layers = 0;
+  for (const shpName of names.filter((name) => name.toLowerCase().endsWith(".shp"))) {
+    const base = shpName.slice(0, -4).toLowerCase();
+    const dbfName = sibling(base, "dbf");
+    const prjName = sibling(base, "prj");
+    areas.push(...parseShapefile(
+      await zip.files[shpName].async("arraybuffer"),
+      dbfName ? await zip.files[dbfName].async("arraybuffer") : null,
+      prjName ? await zip.files[prjName].async("text") : null,
+    ));
+    layers++;
+  }
+  if (layers === 0) throw new Error("ZIP archive does not contain a .shp file");
+  return areas;
+}
+
+// ---------------------------
+// Writing
+// ---------------------------
+
+const SHAPE_CODES: Record<ShapefileShapeType, number> = { point: SHAPE_POINT, polyline: SHAPE_POLYLINE, polygon: SHAPE_POLYGON };
+
+function bbox(points: LngLat[]): [number, number, number, number] {
+  if (points.length === 0) return [0, 0, 0, 0];
+  // Loop rather than Math.min(...) spread: layers can hold more points than fit in an argument list
+  const box: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [x, y] of points) {
+    box[0] = Math.min(box[0], x); box[1] = Math.min(box[1], y);
+    box[2] = Math.max(box[2], x); box[3] = Math.max(box[3], y);
+  }
+  return box;
+}
+
+function writeHeader(view: DataView, fileBytes: number, shapeType: number, box: [number, number, number, number]) {
+  view.setInt32(0, FILE_CODE, false);
+  view.setInt32(24, fileBytes / 2, false);
+  view.setInt32(28, VERSION, true);
+  view.setInt32(32, shapeType, true);
+  box.forEach((value, i) => view.setFloat64(36 + 8 * i, value, true));
+}
+
+function recordContent(shapeType: ShapefileShapeType, parts: LngLat[][]): ArrayBuffer {
+  if (shapeType === "point") {
+    const view = new DataView(new ArrayBuffer(20));
+    view.setInt32(0, SHAPE_POINT, true);
+    view.setFloat64(4, parts[0][0][0], true);
+    view.setFloat64(12, parts[0][0][1], true);
+    return view.buffer;
+  }
+  // Polygons: outer ring clockwise, holes counter-clockwise
+  const oriented = shapeType === "polygon"
+    ? parts.map((ring, k) => ((signedArea(ring) < 0) === (k === 0) ? ring : [...ring].reverse()))
+    : parts;
+  const points = oriented.flat();
+  const view = new DataView(new ArrayBuffer(44 + 4 * oriented.length + 16 * points.length));
+  view.setInt32(0, SHAPE_CODES[shapeType], true);
+  bbox(points).forEach((value, i) => view.setFloat64(4 + 8 * i, value, true));
+  view.setInt32(36, oriented.length, true);
+  view.setInt32(40, points.length, true);
+  let start = 0;
+  oriented.forEach((part, k) => {
+    view.setInt32(44 + 4 * k, start, true);
+    start += part.length;
+  });
+  const pointsAt = 44 + 4 * oriented.length;
+  points.forEach(([x, y], p) => {
+    view.setFloat64(pointsAt + 16 * p, x, true);
+    view.setFloat64(pointsAt + 16 * p + 8, y, true);
+  });
+  return view.buffer;
+}
+
+function writeDbf(rows: GisAttributes[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const keys = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const fields = keys.map((key) => {
+    const values = rows.map((row) => row[key]).filter((value): value is Exclude<GisAttributeValue, null> => value !== null && value !== undefined);
+    if (values.length > 0 && values.every((value) => typeof value === "number")) {
+      const decimals = Math.min(6, values.reduce<number>((max, value) => Math.max(max, (String(value).split(".")[1] ?? "").length), 0));
+      return { key, type: "N", length: 19, decimals };
+    }
+    const length = Math.min(254, values.reduce<number>((max, value) => Math.max(max, encoder.encode(String(value)).length), 1));
+    return { key, type: "C", length, decimals: 0 };
+  });
+
+  const headerLength = 32 + 32 * fields.length + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const bytes = new Uint8Array(headerLength + rows.length * recordLength + 1);
+  const view = new DataView(bytes.buffer);
+  const now = new Date();
+  bytes[0] = 0x03;
+  bytes[1] = now.getFullYear() - 1900;
+  bytes[2] = now.getMonth() + 1;
+  bytes[3] = now.getDate();
+  view.setUint32(4, rows.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  fields.forEach((field, k) => {
+    const at = 32 + 32 * k;
+    bytes.set(encoder.encode(field.key.slice(0, 10)), at);
+    bytes[at + 11] = field.type.charCodeAt(0);
+    bytes[at + 16] = field.length;
+    bytes[at + 17] = field.decimals;
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  rows.forEach((row, r) => {
+    let at = headerLength + r * recordLength;
+    bytes[at++] = 0x20;
+    for (const field of fields) {
+      const value = row[field.key];
+      const text = value === null || value === undefined ? ""
+        : field.type === "N" ? (value as number).toFixed(field.decimals).padStart(field.length)
+        : String(value);
+      const encoded = encoder.encode(text).subarray(0, field.length);
+      bytes.fill(0x20, at, at + field.length);
+      bytes.set(encoded, at);
+      at += field.length;
+    }
+  });
+  bytes[bytes.length - 1] = 0x1a;
+  return bytes;
+}
+
+/** The .shp, .shx, .dbf and .prj contents of one layer. */
+export function writeShapefileLayer(layer: ShapefileLayer): ShapefileFiles {
+  const contents = layer.records.map((record) => recordContent(layer.shapeType, record.parts));
+  const shpBytes = 100 + contents.reduce((sum, content) => sum + 8 + content.byteLength, 0);
+  const shxBytes = 100 + 8 * contents.length;
+  const box = bbox(layer.records.flatMap((record) => record.parts.flat()));
+  const shp = new Uint8Array(shpBytes);
+  const shx = new Uint8Array(shxBytes);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+  writeHeader(shpView, shpBytes, SHAPE_CODES[layer.shapeType], box);
+  writeHeader(shxView, shxBytes, SHAPE_CODES[layer.shapeType], box);
+
+  let offset = 100;
+  contents.forEach((content, i) => {
+    shxView.setInt32(100 + 8 * i, offset / 2, false);
+    shxView.setInt32(104 + 8 * i, content.byteLength / 2, false);
+    shpView.setInt32(offset, i + 1, false);
+    shpView.setInt32(offset + 4, content.byteLength / 2, false);
+    shp.set(new Uint8Array(content), offset + 8);
+    offset += 8 + content.byteLength;
+  });
+  return { shp, shx, dbf: writeDbf(layer.records.map((record) => record.attributes)), prj: WGS84_PRJ };
+}
+
+/** The plan as three layers: areas (polygons), flight lines (polylines) and trigger points. */
+export function planToShapefileLayers(areas: GisExportArea[]): ShapefileLayer[] {
+  return [
+    {
+      name: "areas",
+      shapeType: "polygon",
+      records: areas.map((area) => ({ parts: [area.ring, ...(area.holes ?? [])], attributes: areaAttributes(area) })),
+    },
+    {
+      name: "flight_lines",
+      shapeType: "polyline",
+      records: areas.flatMap((area) => area.flightLines.map((line, i) => ({ parts: [line], attributes: lineAttributes(area, i) }))),
+    },
+    {
+      name: "triggers",
+      shapeType: "point",
+      records: areas.flatMap((area) => area.triggerPoints.map((point, i) => ({
+        parts: [[[point[0], point[1]] as LngLat]],
+        attributes: triggerAttributes(area, i),
+      }))),
+    },
+  ];
+}
+
+/** Zipped shapefiles of the plan; empty layers (e.g. no triggers for lidar) are left out. */
+export async function planToShapefileZip(areas: GisExportArea[]): Promise<Blob> {
+  const { default: JSZip } = await import("jszip");
+  const zip = new JSZip();
+  for (const layer of planToShapefileLayers(areas)) {
+    if (layer.records.length === 0) continue;
+    const files = writeShapefileLayer(layer);
+    zip.file(`${layer.name}.shp`, files.shp);
+    zip.file(`${layer.name}.shx`, files.shx);
+    zip.file(`${layer.name}.dbf`, files.dbf);
+    zip.file(`${layer.name}.prj`, files.prj);
+    zip.file(`${layer.name}.cpg`, "UTF-8");
+  }
+  return zip.generateAsync({ type: "blob" });
+}
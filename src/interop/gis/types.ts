@@ -0,0 +1,50 @@
+// src/interop/gis/types.ts
+
+import type { FlightParams, LngLat } from "@/domain/types";
+
+/** An area read from a GIS file; `params` holds whatever flight parameters its attributes provided. */
+export interface GisArea {
+  name?: string;
+  ring: LngLat[];
+  holes?: LngLat[][];
+  params: Partial<FlightParams>;
+}
+
+/** Per-area analysis result: GSD (m/px) for cameras, point density (pts/m²) for lidar. */
+export interface GisAreaStats {
+  metricKind: "gsd" | "density";
+  min: number;
+  mean: number;
+  max: number;
+  sampleCount: number; // images or flight lines
+  areaM2: number;
+}
+
+/** Everything exported for one area: the polygon, its plan and (once analysed) its stats. */
+export interface GisExportArea {
+  polygonId: string;
+  name?: string;
+  ring: LngLat[];
+  holes?: LngLat[][];
+  params?: FlightParams;
+  bearingDeg: number;
+  lineSpacingM?: number;
+  flightLines: LngLat[][];
+  /** Bearing of each flight line (one per line; differs between passes of a crosshatch). */
+  lineBearingsDeg?: number[];
+  /** Camera trigger positions [lng, lat, altitude WGS84]; empty for lidar. */
+  triggerPoints: [number, number, number][];
+  /** 3D flight path (sweeps and turns alternating, altitude WGS84) once terrain is loaded. */
+  path3d?: [number, number, number][][];
+  /** Estimated time to fly the area's lines and turns with the selected aircraft and wind. */
+  flightTimeSec?: number;
+  stats?: GisAreaStats;
+}
+
+export type GisAttributeValue = string | number | null;
+
+/**
+ * Attribute table of one feature. Keys are at most 10 characters so the same names
+ * survive the Shapefile (dBASE) field limit.
+ */
+export type GisAttributes = Record<string, GisAttributeValue>;
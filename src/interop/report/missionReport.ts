@@ -0,0 +1,212 @@
+// src/interop/report/missionReport.ts
+//
+// Mission report for customer handoff: one row per area (setup, plan size, estimated time,
+// GSD / density stats), the overall histograms and a map snapshot. Exported as CSV and as a
+// self-contained HTML page that the browser prints to PDF.
+//
+
+import type { Map as MapboxMap } from "mapbox-gl";
+import type { GisExportArea } from "@/interop/gis/types";
+
+// @ts-ignore Turf typings are not resolvable through its package exports
+import * as turf from "@turf/turf";
+
+/** Area-weighted histogram of the whole plan; bins are GSD in m/px or density in pts/m². */
+export interface ReportHistogram {
+  metricKind: "gsd" | "density";
+  bins: { bin: number; areaM2: number }[];
+}
+
+export interface MissionReport {
+  title: string;
+  generatedAt: Date;
+  areas: GisExportArea[];
+  histograms: ReportHistogram[];
+  /** PNG data URL of the map view, when a snapshot could be taken. */
+  mapImage?: string | null;
+}
+
+type ReportValue = string | number | null;
+
+interface ReportColumn {
+  header: string;
+  value: (area: GisExportArea, index: number) => ReportValue;
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/** Ground area of an area in m², from its stats when analysed, otherwise from its polygon. */
+export function areaSizeM2(area: GisExportArea): number {
+  if (area.stats) return area.stats.areaM2;
+  return turf.area(turf.polygon([area.ring, ...(area.holes ?? [])]));
+}
+
+const gsdCm = (area: GisExportArea, field: "min" | "mean" | "max") =>
+  area.stats?.metricKind === "gsd" ? round(area.stats[field] * 100, 2) : null;
+const density = (area: GisExportArea, field: "min" | "mean" | "max") =>
+  area.stats?.metricKind === "density" ? round(area.stats[field], 1) : null;
+
+export const REPORT_COLUMNS: ReportColumn[] = [
+  { header: "Area", value: (area, i) => area.name || `Area ${i + 1}` },
+  { header: "Payload", value: (area) => area.params ? (area.params.payloadKind === "lidar" ? "lidar" : "camera") : null },
+  {
+    header: "Sensor",
+    value: (area) => (area.params?.payloadKind === "lidar" ? area.params.lidarKey : area.params?.cameraKey) ?? null,
+  },
+  { header: "Size (ha)", value: (area) => round(areaSizeM2(area) / 10_000, 2) },
+  { header: "Altitude AGL (m)", value: (area) => area.params ? round(area.params.altitudeAGL, 1) : null },
+  {
+    header: "Front overlap (%)",
+    value: (area) => area.params && area.params.payloadKind !== "lidar" ? round(area.params.frontOverlap, 1) : null,
+  },
+  { header: "Side overlap (%)", value: (area) => area.params ? round(area.params.sideOverlap, 1) : null },
+  { header: "Bearing (°)", value: (area) => round(area.bearingDeg, 1) },
+  { header: "Lines", value: (area) => area.flightLines.length },
+  { header: "Images", value: (area) => area.params?.payloadKind === "lidar" ? null : area.triggerPoints.length },
+  { header: "Est. time (min)", value: (area) => area.flightTimeSec !== undefined ? round(area.flightTimeSec / 60, 1) : null },
+  { header: "GSD min (cm/px)", value: (area) => gsdCm(area, "min") },
+  { header: "GSD mean (cm/px)", value: (area) => gsdCm(area, "mean") },
+  { header: "GSD max (cm/px)", value: (area) => gsdCm(area, "max") },
+  { header: "Density min (pts/m²)", value: (area) => density(area, "min") },
+  { header: "Density mean (pts/m²)", value: (area) => density(area, "mean") },
+  { header: "Density max (pts/m²)", value: (area) => density(area, "max") },
+];
+
+/** Report table: one row per area, then a totals row over size, lines, images and time. */
+export function reportTable(areas: GisExportArea[]): { headers: string[]; rows: ReportValue[][]; totals: ReportValue[] } {
+  const headers = REPORT_COLUMNS.map((column) => column.header);
+  const rows = areas.map((area, i) => REPORT_COLUMNS.map((column) => column.value(area, i)));
+  const summed = new Set(["Size (ha)", "Lines", "Images", "Est. time (min)"]);
+  const totals = headers.map((header, c) => {
+    if (c === 0) return "Total";
+    if (!summed.has(header)) return null;
+    const values = rows.map((row) => row[c]).filter((value): value is number => typeof value === "number");
+    return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0), 2) : null;
+  });
+  return { headers, rows, totals };
+}
+
+/** Histogram bin label in display units (cm/px for GSD). */
+function binValue(histogram: ReportHistogram, bin: number): number {
+  return histogram.metricKind === "gsd" ? round(bin * 100, 2) : round(bin, 1);
+}
+
+const histogramTitle = (histogram: ReportHistogram) =>
+  histogram.metricKind === "gsd" ? "GSD (cm/px)" : "Point density (pts/m²)";
+
+function csvCell(value: ReportValue): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV report: the area table with totals, followed by one section per histogram. */
+export function missionReportToCsv(report: MissionReport): string {
+  const { headers, rows, totals } = reportTable(report.areas);
+  const lines = [headers, ...rows, totals].map((row) => row.map(csvCell).join(","));
+  for (const histogram of report.histograms) {
+    lines.push("", [histogramTitle(histogram), "Area (ha)"].map(csvCell).join(","));
+    for (const { bin, areaM2 } of histogram.bins) lines.push(`${binValue(histogram, bin)},${round(areaM2 / 10_000, 3)}`);
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const HISTOGRAM_WIDTH = 360;
+const HISTOGRAM_HEIGHT = 180;
+const MAP_CAPTURE_TIMEOUT_MS = 2000;
+
+/** Inline SVG bar chart of a histogram (area per bin). */
+function histogramSvg(histogram: ReportHistogram): string {
+  const bins = histogram.bins;
+  const maxArea = bins.reduce((max, bin) => Math.max(max, bin.areaM2), 0);
+  if (bins.length === 0 || !(maxArea > 0)) return "";
+  const [left, bottom, top] = [40, 24, 8];
+  const plotWidth = HISTOGRAM_WIDTH - left - 8;
+  const plotHeight = HISTOGRAM_HEIGHT - bottom - top;
+  const slot = plotWidth / bins.length;
+  const bars = bins.map(({ bin, areaM2 }, i) => {
+    const h = (areaM2 / maxArea) * plotHeight;
+    const x = left + i * slot;
+    return `<rect x="${(x + slot * 0.1).toFixed(1)}" y="${(top + plotHeight - h).toFixed(1)}" width="${(slot * 0.8).toFixed(1)}" height="${h.toFixed(1)}" fill="#3b82d4"/>`
+      + `<text x="${(x + slot / 2).toFixed(1)}" y="${HISTOGRAM_HEIGHT - 8}" font-size="9" text-anchor="middle">${binValue(histogram, bin)}</text>`;
+  });
+  return `<svg width="${HISTOGRAM_WIDTH}" height="${HISTOGRAM_HEIGHT}" viewBox="0 0 ${HISTOGRAM_WIDTH} ${HISTOGRAM_HEIGHT}" xmlns="http://www.w3.org/2000/svg">`
+    + `<line x1="${left}" y1="${top + plotHeight}" x2="${HISTOGRAM_WIDTH - 8}" y2="${top + plotHeight}" stroke="#999"/>`
+    + `<text x="${left - 4}" y="${top + 8}" font-size="9" text-anchor="end">${round(maxArea / 10_000, 2)} ha</text>`
+    + `${bars.join("")}</svg>`;
+}
+
+/** Printable HTML page of the report (landscape A4); print it to get the PDF. */
+export function missionReportToHtml(report: MissionReport): string {
+  const { headers, rows, totals } = reportTable(report.areas);
+  const cell = (value: ReportValue) => (value === null ? "–" : escapeHtml(String(value)));
+  const tableRows = rows.map((row) => `<tr>${row.map((value) => `<td>${cell(value)}</td>`).join("")}</tr>`).join("");
+  const histograms = report.histograms
+    .map((histogram) => ({ histogram, svg: histogramSvg(histogram) }))
+    .filter(({ svg }) => svg !== "")
+    .map(({ histogram, svg }) => `<figure><figcaption>${escapeHtml(histogramTitle(histogram))} by area</figcaption>${svg}</figure>`)
+    .join("");
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title>
+<style>
+@page { size: A4 landscape; margin: 12mm; }
+body { font-family: system-ui, sans-serif; color: #111; margin: 0; }
+h1 { font-size: 18px; margin: 0 0 2px; }
+.meta { color: #666; font-size: 11px; margin-bottom: 10px; }
+.map { max-width: 100%; max-height: 90mm; border: 1px solid #ccc; margin-bottom: 10px; }
+table { border-collapse: collapse; font-size: 10px; width: 100%; margin-bottom: 12px; }
+th, td { border: 1px solid #ccc; padding: 3px 4px; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+th { background: #f3f4f6; }
+tfoot td { font-weight: 600; }
+figure { display: inline-block; margin: 0 16px 0 0; break-inside: avoid; }
+figcaption { font-size: 11px; font-weight: 600; margin-bottom: 4px; }
+</style></head><body>
+<h1>${escapeHtml(report.title)}</h1>
+<div class="meta">Generated ${escapeHtml(report.generatedAt.toLocaleString())} · ${report.areas.length} area${report.areas.length === 1 ? "" : "s"}</div>
+${report.mapImage ? `<img class="map" src="${report.mapImage}" alt="Map">` : ""}
+<table><thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr></thead>
+<tbody>${tableRows}</tbody>
+<tfoot><tr>${totals.map((value) => `<td>${value === null ? "" : cell(value)}</td>`).join("")}</tr></tfoot></table>
+${histograms}
+</body></html>
+`;
+}
+
+/**
+ * PNG of the current map view. The WebGL buffer is cleared after each frame, so the canvas
+ * is read inside the next render instead of straight away.
+ */
+export function captureMapImage(map: MapboxMap): Promise<string | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(null), MAP_CAPTURE_TIMEOUT_MS);
+    map.once("render", () => {
+      clearTimeout(timer);
+      try {
+        resolve(map.getCanvas().toDataURL("image/png"));
+      } catch {
+        resolve(null); // tainted canvas
+      }
+    });
+    map.triggerRepaint();
+  });
+}
+
+/** Print an HTML page from a hidden iframe; the browser's print dialog saves it as PDF. */
+export function printHtml(html: string): void {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 60_000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
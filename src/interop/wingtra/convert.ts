@@ -1,12 +1,16 @@
 // src/interop/wingtra/convert.ts
 
-import type { CameraModel, FlightParams, LidarModel, LidarReturnMode, LngLat, PayloadKind } from "@/domain/types";
-import { forwardSpacing, lineSpacing as computeLineSpacing, calculateGSD, SONY_RX1R2, ILX_LR1_INSPECT_85MM, MAP61_17MM, RGB61_24MM, DJI_ZENMUSE_P1_24MM } from "@/domain/camera";
-import { DEFAULT_LIDAR, DEFAULT_LIDAR_MAX_RANGE_M, WINGTRA_LIDAR_XT32M2X, lidarDeliverableDensity, lidarLineSpacing } from "@/domain/lidar";
+import type { CameraModel, CorridorSpec, FlightParams, LidarModel, LidarReturnMode, LngLat, PayloadKind } from "@/domain/types";
+import { forwardSpacing, lineSpacing as computeLineSpacing, calculateGSD } from "@/domain/camera";
+import { DEFAULT_LIDAR, DEFAULT_LIDAR_MAX_RANGE_M, lidarDeliverableDensity, lidarLineSpacing } from "@/domain/lidar";
+import { DEFAULT_CAMERA, DEFAULT_CAMERA_KEY, listCameraOptions, listLidarOptions } from "@/domain/payloads";
+import { buildCorridorRing, normalizeCorridorSpec } from "@/planning/corridor";
+import { getPassBearings } from "@/planning/patterns";
 import type {
   ExportedArea,
   WingtraAngleConvention,
   WingtraAreaItem,
+  WingtraCorridorItem,
   WingtraFlightPlan,
   ImportedWingtraPlan,
   ImportedArea,
@@ -60,25 +64,14 @@ export function resolveCameraFromWingtra(payloadName?: string, payloadKey?: stri
   return resolveCameraInfoFromWingtra(payloadName, payloadKey).camera;
 }
 
-// Simplified resolver: uses names arrays for exact matching
-const CAMERA_LIST: Array<{ key:string; model: CameraModel }> = [
-  { key: 'SONY_RX1R2', model: SONY_RX1R2 },
-  { key: 'ILX_LR1_INSPECT_85MM', model: ILX_LR1_INSPECT_85MM },
-  { key: 'MAP61_17MM', model: MAP61_17MM },
-  { key: 'RGB61_24MM', model: RGB61_24MM },
-  { key: 'DJI_ZENMUSE_P1_24MM', model: DJI_ZENMUSE_P1_24MM },
-];
-
-const LIDAR_LIST: Array<{ key: string; model: LidarModel }> = [
-  { key: WINGTRA_LIDAR_XT32M2X.key, model: WINGTRA_LIDAR_XT32M2X },
-];
-
+// Simplified resolver: uses names arrays for exact matching (built-in payloads first, then custom ones)
 export function resolveCameraInfoFromWingtra(payloadName?: string, payloadKey?: string): { camera: CameraModel; key: string } {
   const candidates = Array.from(new Set([payloadName, payloadKey].filter(Boolean))) as string[];
+  const cameras = listCameraOptions();
 
   // 1) Exact (case-sensitive) match against provided names
   for (const c of candidates) {
-    for (const { key, model } of CAMERA_LIST) {
+    for (const { key, model } of cameras) {
       if (model.names?.includes(c) || key === c) {
         return { camera: model, key };
       }
@@ -87,7 +80,7 @@ export function resolveCameraInfoFromWingtra(payloadName?: string, payloadKey?:
 
   // 2) Normalized exact match (case-insensitive, punctuation/whitespace removed)
   for (const c of candidates) {
-    for (const { key, model } of CAMERA_LIST) {
+    for (const { key, model } of cameras) {
       const names = [key, ...(model.names || [])];
       for (const n of names) {
         if (payloadMatches(c, n)) {
@@ -101,7 +94,7 @@ export function resolveCameraInfoFromWingtra(payloadName?: string, payloadKey?:
   for (const c of candidates) {
     const cs = stripVersionSuffix(c);
     if (!cs) continue;
-    for (const { key, model } of CAMERA_LIST) {
+    for (const { key, model } of cameras) {
       const names = [key, ...(model.names || [])];
       for (const n of names) {
         const ns = stripVersionSuffix(n);
@@ -111,14 +104,15 @@ export function resolveCameraInfoFromWingtra(payloadName?: string, payloadKey?:
       }
     }
   }
-  return { camera: SONY_RX1R2, key: 'SONY_RX1R2' };
+  return { camera: DEFAULT_CAMERA, key: DEFAULT_CAMERA_KEY };
 }
 
 export function resolveLidarInfoFromWingtra(payloadName?: string, payloadKey?: string): { lidar: LidarModel; key: string } | null {
   const candidates = Array.from(new Set([payloadName, payloadKey].filter(Boolean))) as string[];
+  const lidars = listLidarOptions();
 
   for (const c of candidates) {
-    for (const { key, model } of LIDAR_LIST) {
+    for (const { key, model } of lidars) {
       if (model.names?.includes(c) || key === c) {
         return { lidar: model, key };
       }
@@ -126,7 +120,7 @@ export function resolveLidarInfoFromWingtra(payloadName?: string, payloadKey?: s
   }
 
   for (const c of candidates) {
-    for (const { key, model } of LIDAR_LIST) {
+    for (const { key, model } of lidars) {
       const names = [key, ...(model.names || [])];
       for (const n of names) {
         if (payloadMatches(c, n)) {
@@ -155,7 +149,7 @@ export function resolvePayloadInfoFromWingtra(payloadName?: string, payloadKey?:
 
 /** Deduce overlaps/spacing from an optical payload item and/or recompute from camera if needed. */
 function readCameraItemParams(
-  it: WingtraAreaItem,
+  it: WingtraAreaItem | WingtraCorridorItem,
   camera: CameraModel
 ): { altitudeAGL: number; frontOverlap: number; sideOverlap: number; lineSpacingM: number; triggerDistanceM: number } {
   const altitudeAGL = it.grid.altitude ?? 100;
@@ -177,7 +171,7 @@ function readCameraItemParams(
 }
 
 function readLidarItemParams(
-  it: WingtraAreaItem,
+  it: WingtraAreaItem | WingtraCorridorItem,
   lidar: LidarModel,
   cruiseSpeedMps?: number
 ): {
@@ -242,12 +236,16 @@ export function importWingtraFlightPlan(
 
   for (const raw of fp.flightPlan.items || []) {
     const it = raw as any;
-    if (it?.type !== "ComplexItem" || it?.complexItemType !== "area") continue;
+    if (it?.type !== "ComplexItem" || (it?.complexItemType !== "area" && it?.complexItemType !== "corridor")) continue;
 
-    const area = it as WingtraAreaItem;
-    const angleDeg = wingtraAngleToBearing(area.grid.angle ?? 0, angleConv);
+    const area = it as WingtraAreaItem | WingtraCorridorItem;
+    const angleDeg = wingtraAngleToBearing(area.grid?.angle ?? 0, angleConv);
     // Polygon conversion: Wingtra uses [lat, lon]; app uses [lng, lat]
-    const ring = (area.polygon || []).map(toLngLat);
+    const corridor = area.complexItemType === "corridor"
+      ? normalizeCorridorSpec({ centerline: (area.polyline || []).map(toLngLat), widthM: area.corridorWidth })
+      : null;
+    if (area.complexItemType === "corridor" && !corridor) continue;
+    const ring = corridor ? buildCorridorRing(corridor) : ((area as WingtraAreaItem).polygon || []).map(toLngLat);
     if (payloadInfo.payloadKind === 'lidar') {
       const params = readLidarItemParams(area, payloadInfo.lidar, cruiseSpeedMps);
       items.push({
@@ -267,6 +265,7 @@ export function importWingtraFlightPlan(
         mappingFovDeg: params.mappingFovDeg,
         maxLidarRangeM: params.maxLidarRangeM,
         pointDensityPtsM2: params.pointDensityPtsM2,
+        ...(corridor ? { corridor } : {}),
         wingtraRaw: area,
       });
     } else {
@@ -283,6 +282,7 @@ export function importWingtraFlightPlan(
         angleDeg,
         terrainFollowing: !!area.terrainFollowing,
         cameraKey: payloadInfo.cameraKey,
+        ...(corridor ? { corridor } : {}),
         wingtraRaw: area,
       });
     }
@@ -343,7 +343,7 @@ export function exportToWingtraFlightPlan(
 ): WingtraFlightPlan {
   const angleConv = opts?.angleConvention ?? "northCW";
   const payloadKind = opts?.payloadKind ?? areas[0]?.payloadKind ?? 'camera';
-  const camera = opts?.camera ?? SONY_RX1R2;
+  const camera = opts?.camera ?? DEFAULT_CAMERA;
   const lidar = opts?.lidar ?? DEFAULT_LIDAR;
 
   // Optional safety defaults
@@ -357,7 +357,9 @@ export function exportToWingtraFlightPlan(
     minRTHHeightAboveHome: opts?.defaults?.minRTHHeightAboveHome ?? 60,
   };
 
-  const items = areas.map((a) => {
+  // Multi-pass patterns (crosshatch, oblique) export one area item per grid; corridors export
+  // one corridor item along their centerline
+  const items = areas.flatMap((a): Array<WingtraAreaItem | WingtraCorridorItem> => {
     const areaPayloadKind = a.payloadKind ?? payloadKind;
     const spacing = typeof a.lineSpacingM === "number"
       ? a.lineSpacingM
@@ -371,8 +373,6 @@ export function exportToWingtraFlightPlan(
         ? a.triggerDistanceM
         : forwardSpacing(camera, a.altitudeAGL, a.frontOverlap);
 
-    const wingtraAngle = bearingToWingtraAngle(a.angleDeg, angleConv);
-
     const pointDensity = areaPayloadKind === 'lidar'
       ? (a.pointDensityPtsM2 ??
         lidarDeliverableDensity(
@@ -395,7 +395,7 @@ export function exportToWingtraFlightPlan(
     };
 
     const gridBlock = {
-      angle: wingtraAngle,
+      angle: bearingToWingtraAngle(a.angleDeg, angleConv),
       spacing,
       altitude: a.altitudeAGL,
       multithreading: false,
@@ -404,6 +404,20 @@ export function exportToWingtraFlightPlan(
       safeRTHMaxSurveyAltitude: null,
     };
 
+    if (a.corridor) {
+      return [{
+        type: "ComplexItem",
+        complexItemType: "corridor",
+        version: 1,
+        terrainFollowing: a.terrainFollowing ?? true,
+        corridorWidth: a.corridor.widthM,
+        grid: gridBlock,
+        camera: cameraBlock,
+        polyline: a.corridor.centerline.map(toLatLon),
+        wasFlown: false,
+      }];
+    }
+
     const polygonLatLon = a.ring.map(toLatLon);
 
     const areaItem: WingtraAreaItem = {
@@ -417,7 +431,10 @@ export function exportToWingtraFlightPlan(
       wasFlown: false,
     };
 
-    return areaItem;
+    return getPassBearings(a.angleDeg, a).map((bearingDeg): WingtraAreaItem => ({
+      ...areaItem,
+      grid: { ...gridBlock, angle: bearingToWingtraAngle(bearingDeg, angleConv) },
+    }));
   });
 
   const fp: WingtraFlightPlan = {
@@ -472,7 +489,7 @@ function cryptoRandomUuid(): string {
   });
 }
 
-export function areasFromState(polys: Array<{ring:[number,number][]; params:FlightParams; bearingDeg:number; lineSpacingM?:number; triggerDistanceM?:number }>): ExportedArea[] {
+export function areasFromState(polys: Array<{ring:[number,number][]; params:FlightParams; bearingDeg:number; lineSpacingM?:number; triggerDistanceM?:number; corridor?: CorridorSpec }>): ExportedArea[] {
   return polys.map(p => ({
     ring: p.ring,
     payloadKind: p.params.payloadKind ?? 'camera',
@@ -488,9 +505,13 @@ export function areasFromState(polys: Array<{ring:[number,number][]; params:Flig
     cameraYawOffsetDeg: p.params.cameraYawOffsetDeg,
     useCustomBearing: p.params.useCustomBearing,
     customBearingDeg: p.params.customBearingDeg,
+    pattern: p.params.pattern,
+    obliquePassCount: p.params.obliquePassCount,
+    cameraPitchDeg: p.params.cameraPitchDeg,
     angleDeg: p.bearingDeg,
     lineSpacingM: p.lineSpacingM,
     triggerDistanceM: p.triggerDistanceM,
     terrainFollowing: true,
+    ...(p.corridor ? { corridor: p.corridor } : {}),
   }));
 }
@@ -1,6 +1,6 @@
 // src/interop/wingtra/types.ts
 
-import type { FlightParams, LidarReturnMode, LngLat, PayloadKind } from "@/domain/types";
+import type { CorridorSpec, FlightParams, LidarReturnMode, LngLat, PayloadKind } from "@/domain/types";
 
 export type WingtraAngleConvention =
   // Most QGC/WingtraPilot area missions: clockwise from North (0° = North)
@@ -38,6 +38,19 @@ export interface WingtraAreaItem {
   wasFlown?: boolean;
 }
 
+/** Linear mission: lines run parallel to the polyline across `corridorWidth` (grid.spacing apart). */
+export interface WingtraCorridorItem {
+  type: "ComplexItem";
+  complexItemType: "corridor";
+  version?: number;
+  terrainFollowing?: boolean;
+  corridorWidth: number;       // meters across the polyline
+  grid: WingtraGridBlock;
+  camera: WingtraCameraBlock;
+  polyline: number[][];        // centerline, [lat, lon]
+  wasFlown?: boolean;
+}
+
 export interface WingtraFlightPlan {
   locked?: boolean;
   safety?: Record<string, unknown>;
@@ -48,7 +61,7 @@ export interface WingtraFlightPlan {
   geofence?: any;
   groundStation?: string;
   flightPlan: {
-    items: Array<WingtraAreaItem | Record<string, unknown>>;
+    items: Array<WingtraAreaItem | WingtraCorridorItem | Record<string, unknown>>;
     payload?: string;              // e.g. "RX1RII 42MP"
     payloadUniqueString?: string;  // e.g. "RX1R2_v4"
     version: number;
@@ -78,8 +91,9 @@ export interface ImportedArea {
   mappingFovDeg?: number;
   maxLidarRangeM?: number;
   pointDensityPtsM2?: number;
+  corridor?: CorridorSpec;    // corridor items: the ring is this centerline buffered to its width
   // carry through metadata that could be useful
-  wingtraRaw?: WingtraAreaItem;
+  wingtraRaw?: WingtraAreaItem | WingtraCorridorItem;
 }
 
 export interface ImportedWingtraPlan {
@@ -101,4 +115,5 @@ export interface ExportedArea extends FlightParams {
   angleDeg: number;
   lineSpacingM?: number;
   terrainFollowing?: boolean;
+  corridor?: CorridorSpec;    // exported as a corridor item along the centerline instead of an area
 }
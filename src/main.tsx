@@ -2,8 +2,19 @@ import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
 import { setupGlobalErrorHandling } from "./utils/errorHandler";
+import { loadCustomPayloads } from "./services/payloadStore";
+import { loadTerrainTileSource } from "./services/terrainSourceStore";
+import { isTerrainTileStoreAvailable, terrainTileStore } from "./services/terrainTileStore";
+import { setTerrainTileCache } from "./terrain/sources";
 
 // Setup global error handling
 setupGlobalErrorHandling();
 
+// Custom cameras/lidars must be registered before any plan is restored
+loadCustomPayloads();
+// Likewise the terrain source, before any terrain tile is fetched
+loadTerrainTileSource();
+// Fetched terrain tiles are kept for offline use
+if (isTerrainTileStoreAvailable()) setTerrainTileCache(terrainTileStore);
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,37 +1,6 @@
-import type { PolygonLngLat, WorkerOut, LidarWorkerOut } from "./types";
+import type { DemWorkerIn, DemWorkerOut, PolygonLngLat, WorkerOut, LidarWorkerOut } from "./types";
 import { lngLatToTile, tileCornersLngLat } from "./mercator";
 
-export async function fetchTerrainRGBA(
-  z: number, x: number, y: number, token: string, _size = 512, signal?: AbortSignal
-): Promise<ImageData> {
-  const url = `https://api.mapbox.com/v4/mapbox.terrain-rgb/${z}/${x}/${y}.pngraw?access_token=${token}`;
-  const img = await loadImage(url, signal);
-  const canvas = document.createElement("canvas");
-  canvas.width = img.width; canvas.height = img.height;
-  const ctx = canvas.getContext("2d")!;
-  ctx.drawImage(img, 0, 0);
-  return ctx.getImageData(0, 0, img.width, img.height);
-}
-
-function loadImage(url: string, signal?: AbortSignal): Promise<HTMLImageElement> {
-  return new Promise((res, rej) => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    const cleanup = () => {
-      img.onload = null; img.onerror = null;
-      if (signal) signal.removeEventListener("abort", onAbort);
-    };
-    const onAbort = () => { cleanup(); rej(new DOMException("aborted", "AbortError")); };
-    img.onload = () => { cleanup(); res(img); };
-    img.onerror = () => { cleanup(); rej(new Error("image load failed")); };
-    if (signal) {
-      if (signal.aborted) return onAbort();
-      signal.addEventListener("abort", onAbort);
-    }
-    img.src = url;
-  });
-}
-
 export function tilesCoveringPolygon(polygon: PolygonLngLat, z: number, pad: number = 0) {
   const lons = polygon.ring.map(p=>p[0]);
   const lats = polygon.ring.map(p=>p[1]);
@@ -50,6 +19,21 @@ export function tileCornersForImageSource(z:number,x:number,y:number) {
   return tileCornersLngLat(z,x,y);
 }
 
+/**
+ * Job message and its transfer list. The tile's heights and normals belong to the DEM cache,
+ * so the job sends its own copy of them and transfers that; the halo DEM is assembled per
+ * call and is transferred as is.
+ */
+function withDemTransfers(args: any): [any, Transferable[]] {
+  const tile = args.tile;
+  if (!tile?.heights || !tile?.normals) return [args, []];
+  const copy = { ...tile, heights: tile.heights.slice(), normals: tile.normals.slice() };
+  const transfers: Transferable[] = [copy.heights.buffer, copy.normals.buffer];
+  const halo = args.demTile?.heights?.buffer;
+  if (halo instanceof ArrayBuffer && halo !== tile.heights.buffer) transfers.push(halo);
+  return [{ ...args, tile: copy }, transfers];
+}
+
 export class OverlapWorker {
   private worker: Worker;
   constructor() {
@@ -62,7 +46,8 @@ export class OverlapWorker {
         resolve(e.data);
       };
       this.worker.addEventListener("message", onMsg as any, { once: true });
-      this.worker.postMessage(args, [args.tile.data.buffer]); // transfer tile RGBA buffer
+      const [message, transfers] = withDemTransfers(args);
+      this.worker.postMessage(message, transfers);
     });
   }
   terminate() { this.worker.terminate(); }
@@ -87,11 +72,31 @@ export class LidarDensityWorker {
       };
       this.worker.addEventListener("message", onMsg as any, { once: true });
       this.worker.addEventListener("error", onErr as any, { once: true });
-      const transfers: Transferable[] = [args.tile.data.buffer];
-      if (args.demTile?.data?.buffer && args.demTile.data.buffer !== args.tile.data.buffer) {
-        transfers.push(args.demTile.data.buffer);
-      }
-      this.worker.postMessage(args, transfers);
+      const [message, transfers] = withDemTransfers(args);
+      this.worker.postMessage(message, transfers);
+    });
+  }
+  terminate() { this.worker.terminate(); }
+}
+
+export class DemDecodeWorker {
+  private worker: Worker;
+  constructor() {
+    this.worker = new Worker(new URL("./dem-worker.ts", import.meta.url), { type: "module" });
+  }
+  decodeTile(args: DemWorkerIn) {
+    return new Promise<DemWorkerOut>((resolve, reject) => {
+      const onMsg = (e: MessageEvent<DemWorkerOut>) => {
+        this.worker.removeEventListener("error", onErr as any);
+        resolve(e.data);
+      };
+      const onErr = (e: ErrorEvent) => {
+        this.worker.removeEventListener("message", onMsg as any);
+        reject(e.error ?? new Error(e.message || "DEM decode worker failed"));
+      };
+      this.worker.addEventListener("message", onMsg as any, { once: true });
+      this.worker.addEventListener("error", onErr as any, { once: true });
+      this.worker.postMessage(args, [args.data.buffer]);
     });
   }
   terminate() { this.worker.terminate(); }
@@ -0,0 +1,10 @@
+/* Decodes terrain-RGB tiles into ellipsoidal heights and normals for the DEM cache (see demCache.ts) */
+
+import type { DemWorkerIn, DemWorkerOut } from "./types";
+import { decodeDemTile } from "./terrain";
+
+self.onmessage = (ev: MessageEvent<DemWorkerIn>) => {
+  const { z, x, y, size, data } = ev.data;
+  const ret: DemWorkerOut = decodeDemTile(data, z, x, y, size);
+  (self as any).postMessage(ret, [ret.heights.buffer, ret.normals.buffer]);
+};
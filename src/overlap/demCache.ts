@@ -0,0 +1,193 @@
+/**
+ * Decoded DEM tiles shared by every coverage run. Terrain-RGB tiles are decoded once, in a
+ * decode worker, into WGS84 ellipsoidal heights and surface normals, and kept in an LRU with
+ * a byte budget, so recomputes after a parameter change skip the decode and the per-pixel
+ * EGM96 conversion. The app is not served cross-origin isolated, so there is no
+ * SharedArrayBuffer: each coverage job sends the workers its own copy of the arrays (see
+ * overlap/controller).
+ *
+ * The cache follows the terrain source (see terrain/sources) and empties when it changes.
+ */
+
+import { fetchTerrainTile, getTerrainSourceVersion, subscribeTerrainSource } from "@/terrain/sources";
+import { DemDecodeWorker } from "./controller";
+import { defaultWorkerPoolSize } from "./pool";
+import type { DemTile, PaddedDemTile } from "./types";
+
+export interface ByteBudgetLru<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  clear(): void;
+  /** Bytes held; may exceed the budget only while a single entry is larger than it. */
+  readonly bytes: number;
+  readonly size: number;
+}
+
+/** Least-recently-used map that evicts the oldest entries once their total size exceeds the budget. */
+export function createByteBudgetLru<V>(budgetBytes: number, sizeOf: (value: V) => number): ByteBudgetLru<V> {
+  const entries = new Map<string, { value: V; bytes: number }>();
+  let bytes = 0;
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    bytes -= entry.bytes;
+  };
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value) {
+      remove(key);
+      const entry = { value, bytes: sizeOf(value) };
+      entries.set(key, entry);
+      bytes += entry.bytes;
+      for (const oldest of entries.keys()) {
+        if (bytes <= budgetBytes || oldest === key) break;
+        remove(oldest);
+      }
+    },
+    clear() {
+      entries.clear();
+      bytes = 0;
+    },
+    get bytes() { return bytes; },
+    get size() { return entries.size; },
+  };
+}
+
+/** Enough for a few hundred 256 px tiles (heights plus normals are 1.25 MB each) */
+export const DEM_CACHE_BUDGET_BYTES = 384 * 1024 * 1024;
+
+const demTileBytes = (tile: DemTile) => tile.heights.byteLength + tile.normals.byteLength;
+const demTiles = createByteBudgetLru<DemTile>(DEM_CACHE_BUDGET_BYTES, demTileBytes);
+
+// One fetch and decode per tile, shared by every caller waiting for it
+type PendingTile = { key: string; promise: Promise<DemTile>; controller: AbortController; waiting: number };
+const pendingTiles = new Map<string, PendingTile>();
+subscribeTerrainSource(() => clearDemCache());
+
+export function clearDemCache(): void {
+  demTiles.clear();
+  pendingTiles.clear();
+}
+
+function abortError(): Error {
+  return new DOMException("Terrain tile request aborted", "AbortError");
+}
+
+// A caller that gives up stops waiting at once; the fetch itself is aborted once no caller is left
+function waitForTile(pending: PendingTile, signal?: AbortSignal): Promise<DemTile> {
+  pending.waiting++;
+  return new Promise<DemTile>((resolve, reject) => {
+    let waiting = true;
+    const stopWaiting = () => {
+      if (!waiting) return false;
+      waiting = false;
+      pending.waiting--;
+      signal?.removeEventListener("abort", onAbort);
+      return true;
+    };
+    const onAbort = () => {
+      if (!stopWaiting()) return;
+      reject(abortError());
+      if (pending.waiting > 0) return;
+      if (pendingTiles.get(pending.key) === pending) pendingTiles.delete(pending.key);
+      pending.controller.abort();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    pending.promise.then(
+      (tile) => { if (stopWaiting()) resolve(tile); },
+      (error) => { if (stopWaiting()) reject(error); },
+    );
+  });
+}
+
+// Decode workers are kept between runs; a queued decode waits for the next free one
+const idleDecoders: DemDecodeWorker[] = [];
+const waitingForDecoder: Array<(worker: DemDecodeWorker) => void> = [];
+let decoderCount = 0;
+
+async function withDecoder<T>(run: (worker: DemDecodeWorker) => Promise<T>): Promise<T> {
+  let worker = idleDecoders.pop();
+  if (!worker && decoderCount < defaultWorkerPoolSize()) {
+    worker = new DemDecodeWorker();
+    decoderCount++;
+  }
+  if (!worker) worker = await new Promise<DemDecodeWorker>((resolve) => waitingForDecoder.push(resolve));
+  try {
+    return await run(worker);
+  } finally {
+    const next = waitingForDecoder.shift();
+    if (next) next(worker);
+    else idleDecoders.push(worker);
+  }
+}
+
+/**
+ * Decoded terrain tile z/x/y from the active terrain source; concurrent requests share one
+ * fetch and decode. An aborted `signal` rejects with an AbortError, and the fetch stops once
+ * every caller waiting for the tile has aborted.
+ */
+export function getDemTile(z: number, x: number, y: number, token: string, signal?: AbortSignal): Promise<DemTile> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  const key = `${z}/${x}/${y}`;
+  const cached = demTiles.get(key);
+  if (cached) return Promise.resolve(cached);
+  const pending = pendingTiles.get(key);
+  if (pending) return waitForTile(pending, signal);
+
+  const version = getTerrainSourceVersion();
+  const controller = new AbortController();
+  const loading = (async () => {
+    const raw = await fetchTerrainTile(z, x, y, token, controller.signal);
+    const tile = await withDecoder((worker) => worker.decodeTile({ z, x, y, size: raw.width, data: raw.data }));
+    // Tiles decoded for a terrain source that has since been replaced are returned but not kept
+    if (version === getTerrainSourceVersion()) demTiles.set(key, tile);
+    return tile;
+  })();
+  const entry: PendingTile = { key, promise: loading, controller, waiting: 0 };
+  pendingTiles.set(key, entry);
+  const settle = () => { if (pendingTiles.get(key) === entry) pendingTiles.delete(key); };
+  loading.then(settle, settle);
+  return waitForTile(entry, signal);
+}
+
+/**
+ * Tile z/x/y plus a halo DEM of `padTiles` rings of neighbouring tiles (wrapped across the
+ * antimeridian, clamped at the poles), for line-of-sight and lidar range tests near tile edges.
+ */
+export async function getDemTileWithHalo(
+  z: number, x: number, y: number, token: string, padTiles = 1, signal?: AbortSignal,
+): Promise<{ tile: DemTile; demTile: PaddedDemTile }> {
+  const tilesPerAxis = 1 << z;
+  const offsets: Array<{ dx: number; dy: number }> = [];
+  for (let dy = -padTiles; dy <= padTiles; dy++) {
+    for (let dx = -padTiles; dx <= padTiles; dx++) offsets.push({ dx, dy });
+  }
+  const tiles = await Promise.all(offsets.map(({ dx, dy }) => getDemTile(
+    z,
+    (((x + dx) % tilesPerAxis) + tilesPerAxis) % tilesPerAxis,
+    Math.max(0, Math.min(tilesPerAxis - 1, y + dy)),
+    token,
+    signal,
+  )));
+  const tile = tiles[offsets.findIndex(({ dx, dy }) => dx === 0 && dy === 0)];
+  const tileSize = tile.size;
+  const demSize = tileSize * (padTiles * 2 + 1);
+  const heights = new Float32Array(demSize * demSize);
+  offsets.forEach(({ dx, dy }, i) => {
+    const offsetX = (dx + padTiles) * tileSize;
+    const offsetY = (dy + padTiles) * tileSize;
+    for (let row = 0; row < tileSize; row++) {
+      const src = tiles[i].heights.subarray(row * tileSize, (row + 1) * tileSize);
+      heights.set(src, (offsetY + row) * demSize + offsetX);
+    }
+  });
+  return { tile, demTile: { size: demSize, padTiles, heights } };
+}
@@ -0,0 +1,277 @@
+/**
+ * Coverage gaps: connected parts of an area where the analysis found too little overlap
+ * (camera) or too low a point density (lidar). The per-tile results are thresholded inside
+ * the area's outline, connected gap pixels are grouped, and each group is traced along the
+ * pixel edges into a polygon that can be listed, shown and re-flown with a fill-in area.
+ */
+
+import { localProjectionForRings, type XY } from "@/planning/clip";
+import { tilesCoveringPolygon } from "./controller";
+import { lngLatToMeters, tileMetersBounds } from "./mercator";
+import { rasterizeRingsToMask } from "./rasterize";
+import type { PolygonLngLatWithId, TileResult } from "./types";
+
+const R = 6378137;
+
+export type GapMetric = "overlap" | "density";
+
+/** Gaps smaller than this are pixel noise along area edges rather than something to re-fly */
+export const DEFAULT_MIN_GAP_AREA_M2 = 100;
+
+export interface CoverageGap {
+  /** `polygonId:n`, numbered by decreasing area */
+  id: string;
+  polygonId: string;
+  metric: GapMetric;
+  /** Outline along the gap's pixel edges, closed, [lng, lat] */
+  ring: [number, number][];
+  areaM2: number;
+  /** Mean position of the gap pixels, [lng, lat] */
+  center: [number, number];
+  /** Lowest image overlap count or point density (pts/m²) in the gap */
+  worstValue: number;
+}
+
+export interface CoverageGapOptions {
+  metric: GapMetric;
+  /** Pixels with overlap or density below this value are gaps */
+  threshold: number;
+  minAreaM2?: number;
+}
+
+const metersToLngLat = (mx: number, my: number): [number, number] => [
+  (mx / R) * 180 / Math.PI,
+  Math.atan(Math.sinh(my / R)) * 180 / Math.PI,
+];
+
+/**
+ * Gaps inside one area, largest first. Only analysed tiles count: pixels of tiles without a
+ * result are treated as unknown, not as gaps. Tiles must share the zoom and size of the first.
+ */
+export function findCoverageGaps(
+  polygon: PolygonLngLatWithId,
+  tiles: TileResult[],
+  options: CoverageGapOptions,
+): CoverageGap[] {
+  if (tiles.length === 0 || polygon.ring.length < 4) return [];
+  const { z, size } = tiles[0];
+  const results = new Map(
+    tiles.filter((tile) => tile.z === z && tile.size === size).map((tile) => [`${tile.x}/${tile.y}`, tile] as const),
+  );
+  const covering = tilesCoveringPolygon(polygon, z).filter((tile) => results.has(`${tile.x}/${tile.y}`));
+  if (covering.length === 0) return [];
+
+  // Mosaic of the area's tiles; row 0 is the northern edge
+  const minTx = Math.min(...covering.map((tile) => tile.x));
+  const minTy = Math.min(...covering.map((tile) => tile.y));
+  const width = (Math.max(...covering.map((tile) => tile.x)) - minTx + 1) * size;
+  const height = (Math.max(...covering.map((tile) => tile.y)) - minTy + 1) * size;
+  const origin = tileMetersBounds(z, minTx, minTy);
+  const pixelSize = (origin.maxX - origin.minX) / size;
+  const gap = new Uint8Array(width * height);
+  const values = new Float32Array(width * height);
+
+  const ringsMeters = [polygon.ring, ...(polygon.holes ?? [])].map((ring) => ring.map(([lng, lat]) => lngLatToMeters(lng, lat)));
+  for (const { x, y } of covering) {
+    const tile = results.get(`${x}/${y}`)!;
+    const bounds = tileMetersBounds(z, x, y);
+    const mask = rasterizeRingsToMask(
+      ringsMeters.map((ring) => ring.map(([mx, my]) => [(mx - bounds.minX) / pixelSize, (bounds.maxY - my) / pixelSize] as [number, number])),
+      size,
+    );
+    const col0 = (x - minTx) * size;
+    const row0 = (y - minTy) * size;
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const index = row * size + col;
+        if (!mask[index]) continue;
+        const value = options.metric === "overlap" ? tile.overlap[index] : (tile.density?.[index] ?? 0);
+        if (!(value < options.threshold)) continue;
+        const mosaicIndex = (row0 + row) * width + col0 + col;
+        gap[mosaicIndex] = 1;
+        values[mosaicIndex] = value;
+      }
+    }
+  }
+
+  // Ground area of a pixel shrinks with cos²(latitude) in Web Mercator
+  const pixelAreaPerRow = new Float64Array(height);
+  for (let row = 0; row < height; row++) {
+    const cosLat = Math.cos(Math.atan(Math.sinh((origin.maxY - (row + 0.5) * pixelSize) / R)));
+    pixelAreaPerRow[row] = pixelSize * pixelSize * cosLat * cosLat;
+  }
+
+  const labels = new Int32Array(width * height);
+  const minAreaM2 = options.minAreaM2 ?? DEFAULT_MIN_GAP_AREA_M2;
+  const found: Omit<CoverageGap, "id">[] = [];
+  let label = 0;
+  for (let start = 0; start < gap.length; start++) {
+    if (!gap[start] || labels[start]) continue;
+    label++;
+    // 8-connected flood fill; pixels touching at a corner belong to the same gap
+    const pixels: number[] = [];
+    const stack = [start];
+    labels[start] = label;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      pixels.push(index);
+      const row = Math.floor(index / width);
+      const col = index - row * width;
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          const r = row + dr;
+          const c = col + dc;
+          if (r < 0 || r >= height || c < 0 || c >= width) continue;
+          const next = r * width + c;
+          if (!gap[next] || labels[next]) continue;
+          labels[next] = label;
+          stack.push(next);
+        }
+      }
+    }
+
+    let areaM2 = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let worstValue = Number.POSITIVE_INFINITY;
+    for (const index of pixels) {
+      const row = Math.floor(index / width);
+      areaM2 += pixelAreaPerRow[row];
+      sumX += index - row * width + 0.5;
+      sumY += row + 0.5;
+      worstValue = Math.min(worstValue, values[index]);
+    }
+    if (areaM2 < minAreaM2) continue;
+
+    const toLngLat = ([col, row]: XY) => metersToLngLat(origin.minX + col * pixelSize, origin.maxY - row * pixelSize);
+    found.push({
+      polygonId: polygon.id || "unknown",
+      metric: options.metric,
+      ring: traceOutline(labels, width, label, pixels).map(toLngLat),
+      areaM2,
+      center: toLngLat([sumX / pixels.length, sumY / pixels.length]),
+      worstValue,
+    });
+  }
+
+  return found
+    .sort((a, b) => b.areaM2 - a.areaM2)
+    .map((entry, i) => ({ id: `${entry.polygonId}:${i + 1}`, ...entry }));
+}
+
+// Pixel sides as directed edges walking each pixel clockwise (row axis points down), as
+// [dCol, dRow] offsets of the edge start and end from the pixel's top-left corner, and the
+// neighbour that must be outside the gap for the side to be on its boundary.
+const SIDES: Array<{ from: XY; to: XY; neighbour: XY }> = [
+  { from: [0, 0], to: [1, 0], neighbour: [0, -1] },
+  { from: [1, 0], to: [1, 1], neighbour: [1, 0] },
+  { from: [1, 1], to: [0, 1], neighbour: [0, 1] },
+  { from: [0, 1], to: [0, 0], neighbour: [-1, 0] },
+];
+
+/**
+ * Outer boundary of one labelled gap in pixel-corner coordinates [col, row], closed, with
+ * straight runs merged. Boundary edges chain into loops: the outer one and one per enclosed
+ * hole; the outer loop is the one enclosing the most area.
+ */
+function traceOutline(labels: Int32Array, width: number, label: number, pixels: number[]): XY[] {
+  const height = labels.length / width;
+  const inGap = (col: number, row: number) =>
+    col >= 0 && row >= 0 && col < width && row < height && labels[row * width + col] === label;
+  const vertexKey = (col: number, row: number) => row * (width + 1) + col;
+
+  const outgoing = new Map<number, XY[]>(); // start vertex -> end vertices of unused edges
+  for (const index of pixels) {
+    const row = Math.floor(index / width);
+    const col = index - row * width;
+    for (const side of SIDES) {
+      if (inGap(col + side.neighbour[0], row + side.neighbour[1])) continue;
+      const key = vertexKey(col + side.from[0], row + side.from[1]);
+      const ends = outgoing.get(key) ?? [];
+      ends.push([col + side.to[0], row + side.to[1]]);
+      outgoing.set(key, ends);
+    }
+  }
+
+  let outline: XY[] = [];
+  let outlineArea = 0;
+  for (const [startKey, startEnds] of outgoing) {
+    while (startEnds.length > 0) {
+      const start: XY = [startKey % (width + 1), Math.floor(startKey / (width + 1))];
+      const loop: XY[] = [start];
+      let previous = start;
+      let current = startEnds.pop()!;
+      while (current[0] !== start[0] || current[1] !== start[1]) {
+        loop.push(current);
+        const ends = outgoing.get(vertexKey(current[0], current[1]))!;
+        // Where two gap pixels meet only at this corner, cross over to the other one (turn
+        // left): they are one 8-connected gap, so one loop goes around both
+        const heading: XY = [current[0] - previous[0], current[1] - previous[1]];
+        const left: XY = [heading[1], -heading[0]];
+        let pick = ends.findIndex(([c, r]) => c - current[0] === left[0] && r - current[1] === left[1]);
+        if (pick < 0) pick = ends.length - 1;
+        const next = ends.splice(pick, 1)[0];
+        previous = current;
+        current = next;
+      }
+      let area = 0;
+      for (let i = 0; i < loop.length; i++) {
+        const [x1, y1] = loop[i];
+        const [x2, y2] = loop[(i + 1) % loop.length];
+        area += x1 * y2 - x2 * y1;
+      }
+      if (Math.abs(area) > outlineArea) {
+        outlineArea = Math.abs(area);
+        outline = loop;
+      }
+    }
+  }
+
+  // Drop vertices in the middle of straight runs
+  const corners = outline.filter((point, i) => {
+    const before = outline[(i - 1 + outline.length) % outline.length];
+    const after = outline[(i + 1) % outline.length];
+    return (point[0] - before[0]) * (after[1] - point[1]) !== (point[1] - before[1]) * (after[0] - point[0]);
+  });
+  return corners.length > 0 ? [...corners, corners[0]] : [];
+}
+
+/**
+ * Outline of a fill-in area for a gap: the convex hull of the gap grown by `marginM` on every
+ * side. With the margin at the parent area's line spacing, lines flown at that spacing pass
+ * over the whole gap.
+ */
+export function fillInRingForGap(gap: CoverageGap, marginM: number): [number, number][] {
+  const projection = localProjectionForRings([gap.ring]);
+  const points: XY[] = [];
+  const steps = 16;
+  for (const vertex of gap.ring) {
+    const [x, y] = projection.forward(vertex);
+    for (let i = 0; i < steps; i++) {
+      const angle = (2 * Math.PI * i) / steps;
+      // Circumscribed polygon, so the margin is at least marginM in every direction
+      const reach = marginM / Math.cos(Math.PI / steps);
+      points.push([x + reach * Math.cos(angle), y + reach * Math.sin(angle)]);
+    }
+  }
+  const hull = convexHull(points).map((point) => projection.inverse(point));
+  return hull.length > 0 ? [...hull, hull[0]] : [];
+}
+
+/** Andrew's monotone chain; counter-clockwise, without the closing point. */
+function convexHull(points: XY[]): XY[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: XY, a: XY, b: XY) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const lower: XY[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+  const upper: XY[] = [];
+  for (const point of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
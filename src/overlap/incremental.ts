@@ -0,0 +1,173 @@
+/**
+ * Incremental coverage runs. Each run records, per polygon, a fingerprint of its inputs
+ * (outline, camera poses or lidar strips, payload) and the keys of the analysis tiles those
+ * inputs can reach. The next run compares the records: tiles reached by a changed polygon,
+ * before or after the change, are recomputed; every other tile keeps its result and stats.
+ */
+
+import { tilesCoveringPolygon } from "./controller";
+import { cameraDiagonalTan, poseFootprintRadiusM, rotMat } from "./math3d";
+import type { CameraModel, LidarStripMeters, PolygonLngLat, PoseMeters } from "./types";
+
+const R = 6378137;
+const WORLD = Math.PI * R * 2;
+
+export interface CoverageInfluence {
+  fingerprint: string;
+  /** `z/x/y` keys of the tiles whose result depends on the polygon's inputs */
+  tileKeys: Set<string>;
+}
+
+/** Influence records by polygon id, for one payload kind. */
+export type CoverageInfluenceMap = Map<string, CoverageInfluence>;
+
+export interface MercatorBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export function tileKey(z: number, x: number, y: number): string {
+  return `${z}/${x}/${y}`;
+}
+
+/** Short hash of a JSON-serialisable value (cyrb53); equal inputs give equal fingerprints. */
+export function fingerprintOf(value: unknown): string {
+  const text = JSON.stringify(value) ?? "";
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/** Keys of the tiles at zoom z that intersect a Web Mercator box, added to `into`. */
+export function tileKeysInMercatorBox(z: number, box: MercatorBox, into = new Set<string>()): Set<string> {
+  const tiles = 1 << z;
+  const tileMeters = WORLD / tiles;
+  const clamp = (v: number) => Math.max(0, Math.min(tiles - 1, v));
+  const minX = clamp(Math.floor((box.minX + WORLD / 2) / tileMeters));
+  const maxX = clamp(Math.floor((box.maxX + WORLD / 2) / tileMeters));
+  const minY = clamp(Math.floor((WORLD / 2 - box.maxY) / tileMeters));
+  const maxY = clamp(Math.floor((WORLD / 2 - box.minY) / tileMeters));
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) into.add(tileKey(z, x, y));
+  }
+  return into;
+}
+
+export function polygonTileKeys(polygon: PolygonLngLat, z: number, into = new Set<string>()): Set<string> {
+  for (const tile of tilesCoveringPolygon(polygon, z)) into.add(tileKey(z, tile.x, tile.y));
+  return into;
+}
+
+/**
+ * Box a pose's image can land in. The height above ground is taken from `groundFloorM`, the
+ * lowest terrain (WGS84 ellipsoid) of the analysed tiles, so the box is never smaller than
+ * the footprint radius the worker derives from the ground in any of those tiles.
+ */
+export function poseReachBox(pose: PoseMeters, diagTan: number, groundFloorM: number): MercatorBox {
+  const rotation = rotMat(pose.omega_deg, pose.phi_deg, pose.kappa_deg);
+  const radiusM = poseFootprintRadiusM(diagTan, rotation[8], pose.z - groundFloorM);
+  // Ground meters to Web Mercator meters at the pose latitude
+  const reach = radiusM / Math.cos(Math.atan(Math.sinh(pose.y / R)));
+  return { minX: pose.x - reach, minY: pose.y - reach, maxX: pose.x + reach, maxY: pose.y + reach };
+}
+
+/** Box a lidar strip can return points from: its swath, or the sensor range if that is larger. */
+export function stripReachBox(strip: LidarStripMeters): MercatorBox {
+  const reachPadM = Math.max(
+    strip.halfWidthM ?? 0,
+    typeof strip.maxRangeM === "number" && Number.isFinite(strip.maxRangeM) ? strip.maxRangeM : 0
+  );
+  return {
+    minX: Math.min(strip.x1, strip.x2) - reachPadM,
+    minY: Math.min(strip.y1, strip.y2) - reachPadM,
+    maxX: Math.max(strip.x1, strip.x2) + reachPadM,
+    maxY: Math.max(strip.y1, strip.y2) + reachPadM,
+  };
+}
+
+/** Tiles reached by any of the poses; `cameraOf(i)` is the camera of poses[i]. */
+export function poseTileKeys(
+  poses: PoseMeters[],
+  cameraOf: (index: number) => CameraModel,
+  z: number,
+  groundFloorM: number,
+  into = new Set<string>(),
+): Set<string> {
+  const diagTans = new Map<CameraModel, number>();
+  poses.forEach((pose, i) => {
+    const camera = cameraOf(i);
+    let diagTan = diagTans.get(camera);
+    if (diagTan === undefined) {
+      diagTan = cameraDiagonalTan(camera);
+      diagTans.set(camera, diagTan);
+    }
+    tileKeysInMercatorBox(z, poseReachBox(pose, diagTan, groundFloorM), into);
+  });
+  return into;
+}
+
+export function stripTileKeys(strips: LidarStripMeters[], z: number, into = new Set<string>()): Set<string> {
+  for (const strip of strips) tileKeysInMercatorBox(z, stripReachBox(strip), into);
+  return into;
+}
+
+/**
+ * Tiles to recompute going from `previous` to `next`: for every polygon that was added,
+ * removed or whose fingerprint changed, the tiles it reached before and those it reaches now.
+ */
+export function dirtyTileKeys(previous: CoverageInfluenceMap, next: CoverageInfluenceMap): Set<string> {
+  const dirty = new Set<string>();
+  const ids = new Set([...previous.keys(), ...next.keys()]);
+  for (const id of ids) {
+    const before = previous.get(id);
+    const after = next.get(id);
+    if (before && after && before.fingerprint === after.fingerprint) continue;
+    before?.tileKeys.forEach((key) => dirty.add(key));
+    after?.tileKeys.forEach((key) => dirty.add(key));
+  }
+  return dirty;
+}
+
+const lowestHeights = new WeakMap<Float32Array, number>();
+
+/** Lowest finite height of a decoded DEM tile, memoised per tile. */
+export function lowestHeight(tile: { heights: Float32Array }): number {
+  let lowest = lowestHeights.get(tile.heights);
+  if (lowest !== undefined) return lowest;
+  lowest = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < tile.heights.length; i++) {
+    const h = tile.heights[i];
+    if (h < lowest) lowest = h;
+  }
+  lowestHeights.set(tile.heights, lowest);
+  return lowest;
+}
+
+/**
+ * Workers report hit poses and lidar lines by their index in the run's input arrays, which
+ * shift when another polygon gains or loses poses. Translate them to ids that stay fixed
+ * across runs: `keys[i]` names input i (e.g. `polygonId#n`), and the registry hands out one
+ * id per name, so results kept from earlier runs and new ones count the same pose once.
+ */
+export function stableHitIds(ids: Uint32Array, keys: ArrayLike<string>, registry: Map<string, number>): Uint32Array {
+  const stable = new Uint32Array(ids.length);
+  for (let i = 0; i < ids.length; i++) {
+    const key = keys[ids[i]] ?? `#${ids[i]}`;
+    let id = registry.get(key);
+    if (id === undefined) {
+      id = registry.size;
+      registry.set(key, id);
+    }
+    stable[i] = id;
+  }
+  return stable;
+}
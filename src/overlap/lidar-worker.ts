@@ -8,8 +8,6 @@ import type {
 } from "./types";
 import { tileMetersBounds, worldToPixel } from "./mercator";
 import { rasterizeRingsToMask } from "./rasterize";
-import { decodeTerrainRGBToElev } from "./terrain";
-import * as egm96 from 'egm96-universal';
 
 type Msg = LidarWorkerIn;
 type Ret = LidarWorkerOut;
@@ -84,22 +82,30 @@ function cropCenter(src: Uint8Array, sizePad: number, size: number, pad: number)
   return out;
 }
 
+function ringToPixelsWithTx(ring: [number, number][], tx: any): Array<[number, number]> {
+  const ringPx: Array<[number, number]> = [];
+  for (let i = 0; i < ring.length; i++) {
+    const lng = ring[i][0];
+    const lat = Math.max(-85.05112878, Math.min(85.05112878, ring[i][1]));
+    const mx = (lng * Math.PI / 180) * 6378137;
+    const my = 6378137 * Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI / 180) / 2));
+    const wp = worldToPixel(tx, mx, my);
+    ringPx.push([wp[0], wp[1]]);
+  }
+  return ringPx;
+}
+
+/** Outer ring plus holes in pixel space, per polygon (holes are cut out by the even–odd fill). */
 function ringsToPixelsWithTx(polygons: PolygonLngLatWithId[], tx: any) {
-  const ringsPerPoly: Array<Array<[number, number]>> = [];
+  const ringsPerPoly: Array<Array<Array<[number, number]>>> = [];
   const ids: string[] = [];
   for (let k = 0; k < polygons.length; k++) {
-    const ring = polygons[k].ring;
-    const ringPx: Array<[number, number]> = [];
-    for (let i = 0; i < ring.length; i++) {
-      const lng = ring[i][0];
-      const lat = Math.max(-85.05112878, Math.min(85.05112878, ring[i][1]));
-      const mx = (lng * Math.PI / 180) * 6378137;
-      const my = 6378137 * Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI / 180) / 2));
-      const wp = worldToPixel(tx, mx, my);
-      ringPx.push([wp[0], wp[1]]);
-    }
+    const ringPx = ringToPixelsWithTx(polygons[k].ring, tx);
     if (ringPx.length >= 3) {
-      ringsPerPoly.push(ringPx);
+      const holesPx = (polygons[k].holes ?? [])
+        .map((hole) => ringToPixelsWithTx(hole, tx))
+        .filter((hole) => hole.length >= 3);
+      ringsPerPoly.push([ringPx, ...holesPx]);
       ids.push(polygons[k].id ?? String(k));
     }
   }
@@ -128,7 +134,7 @@ function buildPolygonMasks(
   const { ringsPerPoly, ids } = ringsToPixelsWithTx(polygons, txPad);
   const masks: Uint8Array[] = [];
   for (let i = 0; i < ringsPerPoly.length; i++) {
-    const maskPad = rasterizeRingsToMask([ringsPerPoly[i]], sizePad);
+    const maskPad = rasterizeRingsToMask(ringsPerPoly[i], sizePad);
     const erodedPad = erodeN8(maskPad, sizePad, pad);
     masks.push(pad > 0 ? cropCenter(erodedPad, sizePad, size, pad) : erodedPad);
   }
@@ -218,29 +224,6 @@ function calculateDensityStats(
   };
 }
 
-function convertElevationsToWGS84Ellipsoid(
-  elevEGM96: Float32Array,
-  size: number,
-  tx: { minX: number; maxX: number; minY: number; maxY: number }
-): Float32Array {
-  const elevWGS84 = new Float32Array(size * size);
-  const pixelSize = (tx.maxX - tx.minX) / size;
-  const R = 6378137;
-
-  for (let row = 0; row < size; row++) {
-    for (let col = 0; col < size; col++) {
-      const idx = row * size + col;
-      const x = tx.minX + (col + 0.5) * pixelSize;
-      const y = tx.maxY - (row + 0.5) * pixelSize;
-      const lon = (x / R) * (180 / Math.PI);
-      const lat = Math.atan(Math.sinh(y / R)) * (180 / Math.PI);
-      elevWGS84[idx] = egm96.egm96ToEllipsoid(lat, lon, elevEGM96[idx]);
-    }
-  }
-
-  return elevWGS84;
-}
-
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
@@ -528,7 +511,7 @@ function emptyResult(z: number, x: number, y: number, size: number): Ret {
 
 self.onmessage = (ev: MessageEvent<Msg>) => {
   const { tile, demTile, polygons, strips, options } = ev.data;
-  const { z, x, y, size, data } = tile;
+  const { z, x, y, size } = tile;
 
   const tileBounds = tileMetersBounds(z, x, y);
   const tileWidthM = tileBounds.maxX - tileBounds.minX;
@@ -553,9 +536,8 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
     return;
   }
 
-  const demData = demTile?.data ?? data;
-  const elevEGM96 = decodeTerrainRGBToElev(demData, demSize);
-  const elev = convertElevationsToWGS84Ellipsoid(elevEGM96, demSize, demBounds);
+  // WGS84 ellipsoid heights, decoded once per tile by the DEM cache
+  const elev = demTile?.heights ?? tile.heights;
 
   const Rm = 6378137;
   const pixSizeRaw = (tx.maxX - tx.minX) / size;
@@ -24,6 +24,77 @@ function mul3(A: ArrayLike<number>, B: ArrayLike<number>): Float64Array {
   return R;
 }
 
+export function hasLensDistortion(camera: CameraModel): boolean {
+  return !!(camera.k1 || camera.k2 || camera.k3 || camera.p1 || camera.p2);
+}
+
+/** Brown–Conrady (OpenCV convention): ideal normalized image coords -> distorted normalized coords. */
+export function distortNormalized(camera: CameraModel, x: number, y: number): [number, number] {
+  const k1 = camera.k1 ?? 0, k2 = camera.k2 ?? 0, k3 = camera.k3 ?? 0;
+  const p1 = camera.p1 ?? 0, p2 = camera.p2 ?? 0;
+  const r2 = x*x + y*y;
+  const radial = 1 + r2*(k1 + r2*(k2 + r2*k3));
+  return [
+    x*radial + 2*p1*x*y + p2*(r2 + 2*x*x),
+    y*radial + p1*(r2 + 2*y*y) + 2*p2*x*y,
+  ];
+}
+
+/** Inverse of distortNormalized by fixed-point iteration (converges for realistic lens coefficients). */
+export function undistortNormalized(camera: CameraModel, xd: number, yd: number, iterations = 20): [number, number] {
+  let x = xd, y = yd;
+  for (let i = 0; i < iterations; i++) {
+    const [dx, dy] = distortNormalized(camera, x, y);
+    x += xd - dx;
+    y += yd - dy;
+  }
+  return [x, y];
+}
+
+/** Tangent of the angle from the optical axis to the farthest image corner. */
+export function cameraDiagonalTan(camera: CameraModel): number {
+  const sensorW = camera.w_px * camera.sx_m;
+  const sensorH = camera.h_px * camera.sy_m;
+  let diagTan = 0.5 * Math.hypot(sensorW, sensorH) / camera.f_m;
+  if (hasLensDistortion(camera)) {
+    // Barrel distortion widens the true field of view; size the footprint from the undistorted corners
+    const cxpx = camera.cx_px ?? camera.w_px * 0.5, cypx = camera.cy_px ?? camera.h_px * 0.5;
+    for (const [uc, vc] of [[0, 0], [camera.w_px, 0], [0, camera.h_px], [camera.w_px, camera.h_px]]) {
+      const [xu, yu] = undistortNormalized(camera, (uc - cxpx) * camera.sx_m / camera.f_m, (vc - cypx) * camera.sy_m / camera.f_m);
+      diagTan = Math.max(diagTan, Math.hypot(xu, yu));
+    }
+  }
+  return diagTan;
+}
+
+/**
+ * Ground radius (m) around a pose beyond which its image cannot land, for a camera whose
+ * optical axis has direction cosine `cosTilt` with the vertical (R[8] of rotMat).
+ */
+export function poseFootprintRadiusM(diagTan: number, cosTilt: number, heightAboveGroundM: number): number {
+  const H = Math.max(1.0, heightAboveGroundM);
+  // Tilted (oblique) cameras see further out: reach to the far edge of the field of view,
+  // capped short of the horizon. For nadir poses this is H * diagTan.
+  const tiltRad = Math.acos(Math.max(-1, Math.min(1, cosTilt)));
+  const reachTan = Math.tan(Math.min(tiltRad + Math.atan(diagTan), 80 * Math.PI / 180));
+  return H * reachTan * 1.25;
+}
+
+/** Jacobian d(distorted)/d(ideal) at (x, y), row-major [dxd/dx, dxd/dy, dyd/dx, dyd/dy]. */
+export function distortionJacobian(camera: CameraModel, x: number, y: number): [number, number, number, number] {
+  const k1 = camera.k1 ?? 0, k2 = camera.k2 ?? 0, k3 = camera.k3 ?? 0;
+  const p1 = camera.p1 ?? 0, p2 = camera.p2 ?? 0;
+  const r2 = x*x + y*y;
+  const radial = 1 + r2*(k1 + r2*(k2 + r2*k3));
+  const dRadial = k1 + r2*(2*k2 + 3*k3*r2); // d(radial)/d(r2)
+  return [
+    radial + 2*x*x*dRadial + 2*p1*y + 6*p2*x,
+    2*x*y*dRadial + 2*p1*x + 2*p2*y,
+    2*x*y*dRadial + 2*p1*x + 2*p2*y,
+    radial + 2*y*y*dRadial + 6*p1*y + 2*p2*x,
+  ];
+}
+
 export function camRayToPixel(camera: CameraModel, RT: Float64Array, Sx:number,Sy:number,Sz:number,
                               Px:number,Py:number,Pz:number) {
   // world->camera coordinates: pc = R^T (P - S)
@@ -38,8 +109,10 @@ export function camRayToPixel(camera: CameraModel, RT: Float64Array, Sx:number,S
 
   const cxpx = camera.cx_px ?? camera.w_px * 0.5;
   const cypx = camera.cy_px ?? camera.h_px * 0.5;
-  const u = cxpx + (camera.f_m * (cx / -cz)) / camera.sx_m;
-  const v = cypx + (camera.f_m * (cy / -cz)) / camera.sy_m;
+  let xn = cx / -cz, yn = cy / -cz;
+  if (hasLensDistortion(camera)) [xn, yn] = distortNormalized(camera, xn, yn);
+  const u = cxpx + (camera.f_m * xn) / camera.sx_m;
+  const v = cypx + (camera.f_m * yn) / camera.sy_m;
 
   if (u < 0 || v < 0 || u >= camera.w_px || v >= camera.h_px) return null;
   return {u, v, range: Math.hypot(vx, vy, vz)};
@@ -58,3 +131,61 @@ export function normalFromDEM(
   const inv = 1 / Math.hypot(nx,ny,nz);
   return [nx*inv, ny*inv, nz*inv];
 }
+
+/** Terrain must rise this far above the sight line before a view counts as occluded (meters). */
+const OCCLUSION_EPS_M = 0.5;
+
+/** Bilinear DEM height at Web Mercator (x, y); NaN outside the DEM. */
+function sampleDemBilinear(
+  dem: Float32Array,
+  size: number,
+  minX: number,
+  maxY: number,
+  pixelSize: number,
+  x: number,
+  y: number
+): number {
+  const colF = (x - minX) / pixelSize - 0.5;
+  const rowF = (maxY - y) / pixelSize - 0.5;
+  if (!(colF >= -0.5 && colF <= size - 0.5 && rowF >= -0.5 && rowF <= size - 0.5)) return Number.NaN;
+  const c0 = Math.min(size - 1, Math.max(0, Math.floor(colF)));
+  const r0 = Math.min(size - 1, Math.max(0, Math.floor(rowF)));
+  const c1 = Math.min(size - 1, c0 + 1);
+  const r1 = Math.min(size - 1, r0 + 1);
+  const tx = Math.min(1, Math.max(0, colF - c0));
+  const ty = Math.min(1, Math.max(0, rowF - r0));
+  const z0 = dem[r0 * size + c0] * (1 - tx) + dem[r0 * size + c1] * tx;
+  const z1 = dem[r1 * size + c0] * (1 - tx) + dem[r1 * size + c1] * tx;
+  return z0 * (1 - ty) + z1 * ty;
+}
+
+/**
+ * March from a ground point towards the camera and report whether terrain rises above the
+ * sight line. Marching starts 1.5 DEM pixels out so steep slopes do not shadow themselves,
+ * and stops once the ray is above the highest DEM sample or leaves the DEM.
+ */
+export function isLineOfSightBlocked(
+  dem: Float32Array,
+  demSize: number,
+  demMinX: number,
+  demMaxY: number,
+  pixelSize: number,
+  demMaxZ: number,
+  gx: number, gy: number, gz: number,
+  cx: number, cy: number, cz: number,
+  stepM: number
+): boolean {
+  const dx = cx - gx, dy = cy - gy, dz = cz - gz;
+  const horiz = Math.hypot(dx, dy);
+  const startS = Math.max(stepM, 1.5 * pixelSize);
+  if (!(horiz > startS)) return false;
+  for (let s = startS; s < horiz; s += stepM) {
+    const t = s / horiz;
+    const rz = gz + dz * t;
+    if (rz >= demMaxZ) return false;
+    const terrainZ = sampleDemBilinear(dem, demSize, demMinX, demMaxY, pixelSize, gx + dx * t, gy + dy * t);
+    if (!Number.isFinite(terrainZ)) return false;
+    if (terrainZ > rz + OCCLUSION_EPS_M) return true;
+  }
+  return false;
+}
@@ -0,0 +1,73 @@
+/**
+ * Worker pool for the per-tile coverage computation. Tiles are independent, so a mission's
+ * tiles are queued and handed to whichever worker is free; results come back in job order
+ * regardless of which worker finished first, so aggregated statistics do not depend on timing.
+ */
+
+/** One tile's work: fetch inputs and run them on the given worker. */
+export type TileJob<W, T> = (worker: W) => Promise<T>;
+
+export interface TileJobPoolOptions<T> {
+  /** Worker count; defaults to the number of logical cores, never more than the job count. */
+  size?: number;
+  /** Polled between jobs; once true no further job starts and the run resolves to null. */
+  isCancelled?: () => boolean;
+  /** Each result as soon as it is available (completion order), e.g. to draw its overlay. */
+  onResult?: (result: T, index: number) => void;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export function defaultWorkerPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency : undefined;
+  return Math.max(1, cores || 4);
+}
+
+/**
+ * Run the jobs on a pool of workers created for this run and terminated when it ends.
+ * Returns the results in job order, or null when cancelled. The first failing job rejects
+ * the run; jobs already running elsewhere are abandoned.
+ */
+export async function runTileJobs<W extends { terminate(): void }, T>(
+  createWorker: () => W,
+  jobs: TileJob<W, T>[],
+  options: TileJobPoolOptions<T> = {},
+): Promise<T[] | null> {
+  const { isCancelled = () => false, onResult, onProgress } = options;
+  if (jobs.length === 0) return isCancelled() ? null : [];
+
+  const size = Math.max(1, Math.min(options.size ?? defaultWorkerPoolSize(), jobs.length));
+  const workers: W[] = [];
+  const results = new Array<T>(jobs.length);
+  let next = 0;
+  let done = 0;
+  let stopped = false;
+
+  const lane = async (worker: W) => {
+    while (!stopped && next < jobs.length) {
+      if (isCancelled()) { stopped = true; return; }
+      const index = next++;
+      let result: T;
+      try {
+        result = await jobs[index](worker);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+      if (stopped) return;
+      if (isCancelled()) { stopped = true; return; }
+      results[index] = result;
+      done++;
+      onResult?.(result, index);
+      onProgress?.(done, jobs.length);
+    }
+  };
+
+  try {
+    for (let i = 0; i < size; i++) workers.push(createWorker());
+    await Promise.all(workers.map(lane));
+  } finally {
+    stopped = true;
+    workers.forEach((worker) => worker.terminate());
+  }
+  return done === jobs.length ? results : null;
+}
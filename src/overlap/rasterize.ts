@@ -1,5 +1,5 @@
-// Scanline rasterization of multiple polygons (union fill).
-// polygons are arrays of [lng,lat] world coords; convert to tile pixel coords beforehand.
+// Scanline rasterization with the even–odd rule: pass a polygon's outer ring and its
+// holes together and the holes stay empty. Rings must already be in tile pixel coords.
 export function rasterizeRingsToMask(
   ringsPx: Array<Array<[number,number]>>, size: number
 ): Uint8Array {
@@ -1,3 +1,8 @@
+import * as egm96 from "egm96-universal";
+import { tileMetersBounds } from "./mercator";
+import { normalFromDEM } from "./math3d";
+import type { DemTile } from "./types";
+
 export function decodeTerrainRGBToElev(
   data: Uint8ClampedArray, size: number
 ): Float32Array {
@@ -8,3 +13,50 @@ export function decodeTerrainRGBToElev(
   }
   return out;
 }
+
+/**
+ * Converts Mapbox Terrain-RGB elevations (EGM96 geoid) to WGS84 ellipsoid heights, in place.
+ * This ensures vertical datum consistency with DJI pose Z coordinates.
+ */
+export function convertElevationsToWGS84Ellipsoid(
+  elev: Float32Array,
+  size: number,
+  tx: { minX: number; maxX: number; minY: number; maxY: number }
+): Float32Array {
+  const pixelSize = (tx.maxX - tx.minX) / size;
+  const R = 6378137;
+  for (let row = 0; row < size; row++) {
+    const y = tx.maxY - (row + 0.5) * pixelSize;
+    const lat = Math.atan(Math.sinh(y / R)) * (180 / Math.PI);
+    for (let col = 0; col < size; col++) {
+      const x = tx.minX + (col + 0.5) * pixelSize;
+      const lon = (x / R) * (180 / Math.PI);
+      const idx = row * size + col;
+      elev[idx] = egm96.egm96ToEllipsoid(lat, lon, elev[idx]);
+    }
+  }
+  return elev;
+}
+
+/** Unit surface normal per pixel (xyz interleaved), with pixel spacing scaled to ground meters per row. */
+export function demTileNormals(heights: Float32Array, size: number, z: number, x: number, y: number): Float32Array {
+  const tx = tileMetersBounds(z, x, y);
+  const pixSizeRaw = (tx.maxX - tx.minX) / size;
+  const normals = new Float32Array(size * size * 3);
+  for (let row = 0; row < size; row++) {
+    const latRad = Math.atan(Math.sinh((tx.maxY - (row + 0.5) * pixSizeRaw) / 6378137));
+    const pixSizeGround = pixSizeRaw * Math.cos(latRad);
+    for (let col = 0; col < size; col++) {
+      const n = normalFromDEM(heights, size, row, col, pixSizeGround);
+      const base = (row * size + col) * 3;
+      normals[base] = n[0]; normals[base + 1] = n[1]; normals[base + 2] = n[2];
+    }
+  }
+  return normals;
+}
+
+/** Decode a terrain-RGB tile into ellipsoidal heights and normals, the form the coverage workers use. */
+export function decodeDemTile(data: Uint8ClampedArray, z: number, x: number, y: number, size: number): DemTile {
+  const heights = convertElevationsToWGS84Ellipsoid(decodeTerrainRGBToElev(data, size), size, tileMetersBounds(z, x, y));
+  return { z, x, y, size, heights, normals: demTileNormals(heights, size, z, x, y) };
+}
@@ -8,6 +8,11 @@ export type CameraModel = {
   h_px: number;
   cx_px?: number;   // default: w/2
   cy_px?: number;   // default: h/2
+  k1?: number;      // Brown–Conrady radial (normalized coords); default 0
+  k2?: number;
+  k3?: number;
+  p1?: number;      // Brown–Conrady tangential; default 0
+  p2?: number;
   names?: string[];
 };
 
@@ -23,18 +28,30 @@ export type PoseMeters = {
   polygonId?: string;
 };
 
-export type TileRGBA = {
+/** Decoded terrain tile: WGS84 ellipsoidal heights and unit surface normals (xyz), row-major. */
+export type DemTile = {
   z: number; x: number; y: number;
   size: number;             // 256 or 512
-  data: Uint8ClampedArray;  // RGBA (Terrain-RGB)
+  heights: Float32Array;
+  normals: Float32Array;
 };
 
-export type PaddedDemTileRGBA = {
+/** Ellipsoidal heights of a tile and `padTiles` rings of neighbours, as one square raster. */
+export type PaddedDemTile = {
   size: number;
   padTiles: number;
-  data: Uint8ClampedArray;
+  heights: Float32Array;
 };
 
+/** Terrain-RGB tile sent to the DEM decode worker. */
+export type DemWorkerIn = {
+  z: number; x: number; y: number;
+  size: number;
+  data: Uint8ClampedArray;  // RGBA (Terrain-RGB)
+};
+
+export type DemWorkerOut = DemTile;
+
 export type GSDStats = {
   min: number;
   max: number;
@@ -46,10 +63,10 @@ export type GSDStats = {
 
 export type DensityStats = GSDStats;
 
-export type PolygonLngLat = { ring: [number, number][] }; // single-ring polygon
+export type PolygonLngLat = { ring: [number, number][]; holes?: [number, number][][] }; // outer ring + optional holes
 
 // Allow passing polygon IDs so we can report per‑polygon stats deterministically
-export type PolygonLngLatWithId = { id?: string; ring: [number, number][] };
+export type PolygonLngLatWithId = { id?: string; ring: [number, number][]; holes?: [number, number][][] };
 
 // Per‑polygon statistics for a single tile
 export type PolygonTileStats = {
@@ -59,6 +76,10 @@ export type PolygonTileStats = {
   densityStats?: DensityStats;
   /** Set of global pose indices (in the 'poses' array) that saw this polygon in this tile */
   hitPoseIds?: Uint32Array;
+  /** Pixels where terrain blocked at least one otherwise-valid view (only when occlusion is enabled) */
+  occludedPixelCount?: number;
+  /** Ground area (m^2) of those pixels, Mercator-corrected like GSDStats.totalAreaM2 */
+  occludedAreaM2?: number;
   /** Set of global strip indices (in the 'strips' array) that intersected this polygon in this tile */
   hitLineIds?: Uint32Array;
 };
@@ -105,7 +126,7 @@ export type LidarStripMeters = {
 };
 
 export type WorkerIn = {
-  tile: TileRGBA;
+  tile: DemTile;
   polygons: PolygonLngLatWithId[];  // mask to these polygons
   poses: PoseMeters[];        // pre-converted to EPSG:3857 meters
   /** Legacy single-camera (still honored if multi-camera arrays not provided). */
@@ -114,6 +135,8 @@ export type WorkerIn = {
   cameras?: CameraModel[];
   /** For each pose, index into `cameras` (same length as poses). */
   poseCameraIndices?: Uint16Array;
+  /** Optional halo DEM (tile plus neighbours) used for terrain line-of-sight tests. */
+  demTile?: PaddedDemTile;
   options?: {
     gsdMaxForPalette?: number; // meters per pixel for visualization clamp
     /** Optional: stop counting once overlap reaches this number (per pixel). Default: Infinity */
@@ -128,6 +151,13 @@ export type WorkerIn = {
      * Use to discard boundary pixels influenced by partial coverage / DEM edge artifacts.
      */
     clipInnerBufferM?: number;
+    /**
+     * Optional: reject views whose line of sight from camera to ground pixel is blocked by terrain.
+     * The ray is marched against `demTile` (or the tile itself when no halo is supplied). Default: false
+     */
+    occlusion?: boolean;
+    /** Optional: ray-march step for occlusion tests in meters. Default: one DEM pixel */
+    occlusionStepM?: number;
   };
 };
 
@@ -137,8 +167,8 @@ export type WorkerOut = TileResult & {
 };
 
 export type LidarWorkerIn = {
-  tile: TileRGBA;
-  demTile?: PaddedDemTileRGBA;
+  tile: DemTile;
+  demTile?: PaddedDemTile;
   polygons: PolygonLngLatWithId[];
   strips: LidarStripMeters[];
   options?: {
@@ -2,11 +2,8 @@
 
 import type { WorkerIn, WorkerOut, PoseMeters, GSDStats, PolygonLngLatWithId, PolygonTileStats, CameraModel } from "./types";
 import { tileMetersBounds, worldToPixel } from "./mercator";
-import { decodeTerrainRGBToElev } from "./terrain";
-import { rotMat, camRayToPixel, normalFromDEM } from "./math3d";
+import { rotMat, camRayToPixel, cameraDiagonalTan, hasLensDistortion, distortionJacobian, poseFootprintRadiusM, isLineOfSightBlocked } from "./math3d";
 import { rasterizeRingsToMask } from "./rasterize";
-// Add EGM96 conversion library for proper vertical datum handling
-import * as egm96 from 'egm96-universal';
 
 // --- New morphological helpers (halo-based, 8-neighbour) ---
 /** One‑pixel binary erosion (8‑neighbourhood). */
@@ -48,48 +45,6 @@ function cropCenter(src: Uint8Array, sizePad: number, size: number, pad: number)
   return out;
 }
 
-// --- Convert terrain elevations from EGM96 geoid to WGS84 ellipsoid ---
-/**
- * Converts Mapbox Terrain-RGB elevations (EGM96 geoid) to WGS84 ellipsoid heights.
- * This ensures vertical datum consistency with DJI pose Z coordinates.
- */
-function convertElevationsToWGS84Ellipsoid(
-  elevEGM96: Float32Array,
-  size: number,
-  tx: { minX: number; maxX: number; minY: number; maxY: number }
-): Float32Array {
-  const elevWGS84 = new Float32Array(size * size);
-  const pixelSize = (tx.maxX - tx.minX) / size;
-
-  // Convert Web Mercator bounds to lat/lon for each pixel
-  const R = 6378137; // WGS84 equatorial radius
-
-  for (let row = 0; row < size; row++) {
-    for (let col = 0; col < size; col++) {
-      const idx = row * size + col;
-
-      // Get Web Mercator coordinates for this pixel center
-      const x = tx.minX + (col + 0.5) * pixelSize;
-      const y = tx.maxY - (row + 0.5) * pixelSize; // Note: y decreases as row increases
-
-      // Convert Web Mercator to WGS84 lat/lon
-      const lon = (x / R) * (180 / Math.PI);
-      const lat = Math.atan(Math.sinh(y / R)) * (180 / Math.PI);
-
-      // Get original EGM96 elevation
-      const elevEGM96Value = elevEGM96[idx];
-
-      // Convert from EGM96 geoid to WGS84 ellipsoid
-      // egm96.egm96ToEllipsoid(lat, lon, heightAboveGeoid) returns height above ellipsoid
-      const elevWGS84Value = egm96.egm96ToEllipsoid(lat, lon, elevEGM96Value);
-
-      elevWGS84[idx] = elevWGS84Value;
-    }
-  }
-
-  return elevWGS84;
-}
-
 // --- Types (reuse WorkerIn/Out) ---
 type Msg = WorkerIn;
 type Ret = WorkerOut;
@@ -109,22 +64,30 @@ type PreparedPose = PoseMeters & {
   by0: number; by1: number; by2: number;
 };
 
+function ringToPixelsWithTx(ring: [number, number][], tx: any): Array<[number, number]> {
+  const ringPx: Array<[number, number]> = [];
+  for (let i = 0; i < ring.length; i++) {
+    const lng = ring[i][0];
+    const lat = Math.max(-85.05112878, Math.min(85.05112878, ring[i][1]));
+    const mx = (lng * Math.PI / 180) * 6378137;
+    const my = 6378137 * Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI / 180) / 2));
+    const wp = worldToPixel(tx, mx, my);
+    ringPx.push([wp[0], wp[1]]);
+  }
+  return ringPx;
+}
+
+/** Outer ring plus holes in pixel space, per polygon (holes are cut out by the even–odd fill). */
 function ringsToPixelsWithTx(polygons: PolygonLngLatWithId[], tx: any) {
-  const ringsPerPoly: Array<Array<[number, number]>> = [];
+  const ringsPerPoly: Array<Array<Array<[number, number]>>> = [];
   const ids: string[] = [];
   for (let k = 0; k < polygons.length; k++) {
-    const ring = polygons[k].ring;
-    const ringPx: Array<[number, number]> = [];
-    for (let i = 0; i < ring.length; i++) {
-      const lng = ring[i][0];
-      const lat = Math.max(-85.05112878, Math.min(85.05112878, ring[i][1]));
-      const mx = (lng * Math.PI / 180) * 6378137;
-      const my = 6378137 * Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI / 180) / 2));
-      const wp = worldToPixel(tx, mx, my);
-      ringPx.push([wp[0], wp[1]]);
-    }
+    const ringPx = ringToPixelsWithTx(polygons[k].ring, tx);
     if (ringPx.length >= 3) {
-      ringsPerPoly.push(ringPx);
+      const holesPx = (polygons[k].holes ?? [])
+        .map((hole) => ringToPixelsWithTx(hole, tx))
+        .filter((hole) => hole.length >= 3);
+      ringsPerPoly.push([ringPx, ...holesPx]);
       ids.push(polygons[k].id ?? String(k));
     }
   }
@@ -150,7 +113,7 @@ function buildPolygonMasks(
   const { ringsPerPoly, ids } = ringsToPixelsWithTx(polygons, txPad);
   const masks: Uint8Array[] = [];
   for (let i = 0; i < ringsPerPoly.length; i++) {
-    const maskPad = rasterizeRingsToMask([ringsPerPoly[i]], sizePad);
+    const maskPad = rasterizeRingsToMask(ringsPerPoly[i], sizePad);
     const erodedPad = erodeN8(maskPad, sizePad, pad);
     masks.push(pad > 0 ? cropCenter(erodedPad, sizePad, size, pad) : erodedPad);
   }
@@ -226,8 +189,8 @@ function calculateGSDStatsFast(
 }
 
 self.onmessage = (ev: MessageEvent<Msg>) => {
-  const { tile, polygons, poses, camera, cameras, poseCameraIndices, options } = ev.data;
-  const { z, x, y, size, data } = tile;
+  const { tile, demTile, polygons, poses, camera, cameras, poseCameraIndices, options } = ev.data;
+  const { z, x, y, size } = tile;
 
   // Determine camera mode
   let multi = Array.isArray(cameras) && cameras.length > 0 && poseCameraIndices instanceof Uint16Array && poseCameraIndices.length === poses.length;
@@ -239,14 +202,9 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
     return;
   }
 
-  // CRITICAL FIX: Decode elevation and convert from EGM96 geoid to WGS84 ellipsoid
-  // This ensures vertical datum consistency with DJI poses (which are typically WGS84 ellipsoid)
-  const elevEGM96 = decodeTerrainRGBToElev(data, size);
+  // WGS84 ellipsoid heights (decoded once per tile by the DEM cache), consistent with DJI pose Z
+  const elev = tile.heights;
   const tileBounds = tileMetersBounds(z, x, y);
-  const elevWGS84 = convertElevationsToWGS84Ellipsoid(elevEGM96, size, tileBounds);
-
-  // Now use elevWGS84 instead of raw elevEGM96 for all calculations
-  const elev = elevWGS84;
 
   // Clip / erosion radius
   const clipM = Math.max(0, options?.clipInnerBufferM ?? 0);
@@ -289,29 +247,45 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
   for (let c=0;c<size;c++) xwCol[c] = minX + (c+0.5)*pixSize;
   for (let r=0;r<size;r++) ywRow[r] = maxY - (r+0.5)*pixSize;
 
-  // Precompute normals & active indices
-  const normals = new Float32Array(size*size*3);
+  // Optional terrain line-of-sight DEM; halo tiles let ridges in neighbouring tiles occlude too
+  const occlusionEnabled = !!options?.occlusion;
+  let losDem: Float32Array = elev;
+  let losSize = size, losMinX = minX, losMaxY = maxY, losMaxZ = -Infinity;
+  if (occlusionEnabled) {
+    const padTiles = Math.max(0, demTile?.padTiles ?? 0);
+    if (demTile && padTiles > 0) {
+      const tileW = tileBounds.maxX - tileBounds.minX;
+      const demBounds = {
+        minX: tileBounds.minX - padTiles * tileW,
+        minY: tileBounds.minY - padTiles * tileW,
+        maxX: tileBounds.maxX + padTiles * tileW,
+        maxY: tileBounds.maxY + padTiles * tileW,
+      };
+      losDem = demTile.heights;
+      losSize = demTile.size;
+      losMinX = demBounds.minX * scale;
+      losMaxY = demBounds.maxY * scale;
+    }
+    for (let i=0;i<losDem.length;i++) if (losDem[i] > losMaxZ) losMaxZ = losDem[i];
+  }
+  const losStepM = Math.max(0.5 * pixSize, options?.occlusionStepM ?? pixSize);
+
+  // Normals come precomputed with the DEM tile; collect active indices
+  const normals = tile.normals;
   const activeIdxs = new Uint32Array(polyPixelCount);
   { let w=0; for (let idx=0; idx<elev.length; idx++){
-      if (!polyMask[idx]) continue;
-      const row=(idx/size)|0; const col=idx-row*size;
-      // Adjust pixel spacing by cos(latitude) to better approximate ground spacing
-      const pixSizeGround = pixSizeRaw * cosLatPerRow[row];
-      const n=normalFromDEM(elev,size,row,col,pixSizeGround);
-      const base=idx*3; normals[base]=n[0]; normals[base+1]=n[1]; normals[base+2]=n[2];
-      activeIdxs[w++]=idx;
+      if (polyMask[idx]) activeIdxs[w++]=idx;
     } }
 
   // Per-camera precompute (diag tan + s/f)
   const camDiagTan: number[] = new Array(camModels.length);
   const cam_s_over_f: number[] = new Array(camModels.length);
+  const camDistorted: boolean[] = new Array(camModels.length);
   for (let ci=0; ci<camModels.length; ci++) {
     const c = camModels[ci];
-    const sensorW = c.w_px * c.sx_m;
-    const sensorH = c.h_px * c.sy_m;
-    const diagFovHalf = Math.atan(0.5 * Math.hypot(sensorW, sensorH) / c.f_m);
-    camDiagTan[ci] = Math.tan(diagFovHalf);
+    camDiagTan[ci] = cameraDiagonalTan(c);
     cam_s_over_f[ci] = c.sx_m / c.f_m;
+    camDistorted[ci] = hasLensDistortion(c);
   }
 
   // Prepare poses (per-pose radius based on its camera)
@@ -329,9 +303,7 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
     const colP = Math.min(size - 1, Math.max(0, Math.floor((p.x - minXRaw) / pixSizeRaw)));
     const rowP = Math.min(size - 1, Math.max(0, Math.floor((maxYRaw - p.y) / pixSizeRaw)));
     const zLocal = elev[rowP * size + colP];
-    const H = Math.max(1.0, p.z - zLocal);
-    const diagTan = camDiagTan[camIdx];
-    const radius = H * diagTan * 1.25;
+    const radius = poseFootprintRadiusM(camDiagTan[camIdx], Rm[8], p.z - zLocal);
     const xs = p.x * scale;
     const ys = p.y * scale;
     prepared[i] = {
@@ -388,6 +360,7 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
   const N = size*size; const overlap = new Uint16Array(N); const gsdMin = new Float32Array(N); gsdMin.fill(Number.POSITIVE_INFINITY);
   const maxOverlapNeeded = Number.isFinite(options?.maxOverlapNeeded!) ? (options!.maxOverlapNeeded as number) : Infinity;
   const poseHitsPerPoly: Array<Set<number>> = polyIds.map(()=> new Set<number>());
+  const occluded = occlusionEnabled ? new Uint8Array(N) : null;
 
   const cosIncMin = 1e-3;
   // Active pixel loop - now using consistent WGS84 ellipsoid heights for both terrain and poses
@@ -397,7 +370,7 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
     const polysHere: number[] = []; for (let p=0;p<polyMasks.length;p++) if (polyMasks[p][idx]) polysHere.push(p); if (polysHere.length===0) continue;
     const nb = idx*3; const nx = normals[nb], ny = normals[nb+1], nz = normals[nb+2];
 
-    let localOverlap = 0; let localMinG = Number.POSITIVE_INFINITY;
+    let localOverlap = 0; let localMinG = Number.POSITIVE_INFINITY; let blockedHere = false;
     const cellIdx = (row2cellY[row]*gridSize + col2cellX[col])|0; const cellList = grid[cellIdx]; if (cellList.length===0) continue;
 
     for (let u=0; u<cellList.length; u++) {
@@ -434,6 +407,12 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
       const denom = nx*a0 + ny*a1 + nz*a2;
       if (Math.abs(denom) < 1e-12) continue;
 
+      // Terrain line-of-sight (most expensive check, so it runs last)
+      if (occlusionEnabled && isLineOfSightBlocked(losDem, losSize, losMinX, losMaxY, pixSize, losMaxZ, xw, yw, zw, p.x, p.y, p.z, losStepM)) {
+        blockedHere = true;
+        continue;
+      }
+
       // Normal distance to the local tangent plane
       const Hn = nx*(xw - p.x) + ny*(yw - p.y) + nz*(zw - p.z);
       const invDen2 = 1.0 / (denom*denom);
@@ -452,8 +431,19 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
 
       // Convert to meters per pixel using pixel pitches; scalar GSD = geometric mean
       const sx = cam.sx_m, sy = cam.sy_m;
-      const gsdx = Math.hypot(Jux, Juy, Juz) * sx;
-      const gsdy = Math.hypot(Jvx, Jvy, Jvz) * sy;
+      let gsdx: number, gsdy: number;
+      if (camDistorted[camIdx]) {
+        // Pixels sample the distorted image plane: ground per distorted unit = J_ideal * D^-1
+        const [d00, d01, d10, d11] = distortionJacobian(cam, -u_m / f, -v_m / f);
+        const det = d00*d11 - d01*d10;
+        if (!(Math.abs(det) > 1e-12)) continue;
+        const i00 = d11/det, i01 = -d01/det, i10 = -d10/det, i11 = d00/det;
+        gsdx = Math.hypot(Jux*i00 + Jvx*i10, Juy*i00 + Jvy*i10, Juz*i00 + Jvz*i10) * sx;
+        gsdy = Math.hypot(Jux*i01 + Jvx*i11, Juy*i01 + Jvy*i11, Juz*i01 + Jvz*i11) * sy;
+      } else {
+        gsdx = Math.hypot(Jux, Juy, Juz) * sx;
+        gsdy = Math.hypot(Jvx, Jvy, Jvz) * sy;
+      }
       const gsd = Math.sqrt(gsdx * gsdy);
 
       // Debug logging (optional)
@@ -464,6 +454,7 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
      }
 
     if (localOverlap > 0) { overlap[idx] = localOverlap; gsdMin[idx] = localMinG; }
+    if (blockedHere && occluded) occluded[idx] = 1;
   }
 
   // Enforce minimum overlap for GSD validity
@@ -487,11 +478,20 @@ self.onmessage = (ev: MessageEvent<Msg>) => {
   const perPolygon: PolygonTileStats[] = [];
   for (let p=0;p<polyMasks.length;p++) {
     let cnt=0; const mask=polyMasks[p]; for (let i=0;i<mask.length;i++) if (mask[i] && isFinite(gsdMin[i]) && gsdMin[i] > 0) cnt++;
-    if (cnt===0){ perPolygon.push({ polygonId: polyIds[p], activePixelCount:0, gsdStats:{min:0,max:0,mean:0,count:0,histogram:[]}, hitPoseIds:new Uint32Array(0)}); continue; }
+    let occludedPixelCount: number | undefined; let occludedAreaM2: number | undefined;
+    if (occluded) {
+      occludedPixelCount = 0; occludedAreaM2 = 0;
+      for (let i=0;i<mask.length;i++) {
+        if (!mask[i] || !occluded[i]) continue;
+        const cosφ = cosLatPerRow[(i/size)|0];
+        occludedPixelCount++; occludedAreaM2 += pixSize*pixSize*cosφ*cosφ;
+      }
+    }
+    if (cnt===0){ perPolygon.push({ polygonId: polyIds[p], activePixelCount:0, gsdStats:{min:0,max:0,mean:0,count:0,histogram:[]}, hitPoseIds:new Uint32Array(0), occludedPixelCount, occludedAreaM2 }); continue; }
     const activeP = new Uint32Array(cnt); for (let i=0,w=0;i<mask.length;i++) if (mask[i] && isFinite(gsdMin[i]) && gsdMin[i] > 0) activeP[w++]=i;
     const stats = calculateGSDStatsFast(gsdMin, activeP, pixSize*pixSize, size, cosLatPerRow);
     const hits = poseHitsPerPoly[p]; const hitPoseIds = new Uint32Array(hits.size); let w=0; hits.forEach(id=>{ hitPoseIds[w++]=id; });
-    perPolygon.push({ polygonId: polyIds[p], activePixelCount: stats.count, gsdStats: stats, hitPoseIds });
+    perPolygon.push({ polygonId: polyIds[p], activePixelCount: stats.count, gsdStats: stats, hitPoseIds, occludedPixelCount, occludedAreaM2 });
   }
 
   const gsdStatsUnion: GSDStats = calculateGSDStatsFast(gsdMin, activeIdxs, pixSize*pixSize, size, cosLatPerRow);
@@ -5,10 +5,45 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useIsMobile } from '@/hooks/use-mobile';
-import { Map, Trash2, AlertCircle, Upload, Download } from 'lucide-react';
+import { Map, Trash2, AlertCircle, Upload, Download, FolderOpen, Camera, Route, Mountain } from 'lucide-react';
 import type { PolygonParams } from '@/components/MapFlightDirection/types';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { toast } from "@/hooks/use-toast";
+import { useProjectAutosave } from '@/hooks/use-project-autosave';
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  createProjectDocument,
+  createProjectId,
+  parseProjectFile,
+  serializeProject,
+  type ProjectDocument,
+  type ProjectMeta,
+  type ProjectSummary,
+} from '@/services/projectDocument';
+import { deleteProject, getLastProjectId, isProjectStoreAvailable, listProjects, loadProject } from '@/services/projectStore';
+import { planToGeoJSON } from '@/interop/gis/geojson';
+import { coverageRastersToZip, type CoverageTiles } from '@/interop/gis/geotiff';
+import { planToKmz } from '@/interop/gis/kml';
+import { planToShapefileZip } from '@/interop/gis/shapefile';
+import type { GisAreaStats, GisExportArea } from '@/interop/gis/types';
+import {
+  captureMapImage,
+  missionReportToCsv,
+  missionReportToHtml,
+  printHtml,
+  type MissionReport,
+  type ReportHistogram,
+} from '@/interop/report/missionReport';
 
 const MapFlightDirection = lazy(async () => {
   const mod = await import('@/components/MapFlightDirection');
@@ -17,6 +52,16 @@ const MapFlightDirection = lazy(async () => {
 
 const OverlapGSDPanel = lazy(() => import('@/components/OverlapGSDPanel'));
 const PolygonParamsDialog = lazy(() => import('@/components/PolygonParamsDialog'));
+const PayloadManagerDialog = lazy(() => import('@/components/PayloadManagerDialog'));
+const TerrainSourceDialog = lazy(() => import('@/components/TerrainSourceDialog'));
+
+// Wait up to this long for the map to initialize before restoring the last project
+const MAP_READY_POLL_MS = 250;
+const MAP_READY_MAX_POLLS = 120;
+
+function newProjectMeta(): ProjectMeta {
+  return { id: createProjectId(), name: 'Untitled project', createdAt: new Date().toISOString() };
+}
 
 function DeferredPanelFallback() {
   return (
@@ -59,12 +104,36 @@ export default function Home() {
   const [selectedPolygonId, setSelectedPolygonId] = useState<string | null>(null);
   // NEW: track imported pose count
   const [importedPoseCount, setImportedPoseCount] = useState(0);
+  // Bumped when the map re-plans the home → areas route so the panel re-reads it
+  const [missionRouteVersion, setMissionRouteVersion] = useState(0);
+  const handleMissionRouteChanged = useCallback(() => setMissionRouteVersion((v) => v + 1), []);
+  // Bumped when no-fly zones or their violations change
+  const [airspaceVersion, setAirspaceVersion] = useState(0);
+  const handleAirspaceChanged = useCallback(() => setAirspaceVersion((v) => v + 1), []);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const handleHistoryChanged = useCallback(() => setHistoryVersion((v) => v + 1), []);
+
+  // Open project: autosaved to the browser; null until the last project has been restored
+  const [project, setProject] = useState<ProjectMeta | null>(null);
+  const [restoringProject, setRestoringProject] = useState(false);
+  const [payloadsOpen, setPayloadsOpen] = useState(false);
+  const [terrainOpen, setTerrainOpen] = useState(false);
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
+  const [storedProjects, setStoredProjects] = useState<ProjectSummary[]>([]);
+  // Bumped after a project is loaded so the panel re-reads the map settings
+  const [projectVersion, setProjectVersion] = useState(0);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const { lastSavedAt, saveNow, discardProject } = useProjectAutosave(mapRef, project, project !== null && !restoringProject);
 
   // Auto-run GSD analysis when flight lines are updated (already wired)
   const autoRunGSDRef = useRef<((opts?: { polygonId?: string; reason?: 'lines'|'spacing'|'alt'|'manual' }) => void) | null>(null);
   const clearGSDRef = useRef<(() => void) | null>(null);
   // NEW: ref to open pose JSON importer (DJI or Wingtra) inside OverlapGSDPanel
   const openDJIImporterRef = useRef<((mode?: 'dji' | 'wingtra') => void) | null>(null);
+  // Latest per-area GSD / density stats from OverlapGSDPanel, for GIS exports
+  const getAreaStatsRef = useRef<(() => Record<string, GisAreaStats>) | null>(null);
+  const getOverallHistogramsRef = useRef<(() => ReportHistogram[]) | null>(null);
+  const getCoverageTilesRef = useRef<(() => CoverageTiles) | null>(null);
 
   const sampleStep = 1;
   const mapboxToken = useMemo(() =>
@@ -175,6 +244,11 @@ export default function Home() {
     }
   }, [importedPoseCount]);
 
+  const getProjectRings = useCallback(
+    () => (mapRef.current?.getPolygonsWithIds?.() ?? []).map((polygon) => polygon.ring),
+    [],
+  );
+
   // Handler to receive the auto-run function from OverlapGSDPanel
   const handleAutoRunReceived = useCallback((autoRunFn: (opts?: { polygonId?: string; reason?: 'lines'|'spacing'|'alt'|'manual' }) => void) => {
     autoRunGSDRef.current = autoRunFn;
@@ -207,9 +281,25 @@ export default function Home() {
     setSelectedPolygonId(null);
   }, []);
 
+  // Plans entering a no-fly zone are not exported
+  const blockedByAirspace = useCallback(() => {
+    const violations = mapRef.current?.getAirspaceViolations?.() ?? [];
+    if (violations.length === 0) return false;
+    const zones = new Set(violations.map((v) => v.zoneName ?? v.zoneId));
+    const segments = violations.filter((v) => v.kind !== 'area');
+    const areas = new Set(violations.filter((v) => v.kind === 'area').map((v) => v.polygonId));
+    // The aircraft plans its lines from the exported outlines, so avoidance on the map does not help there
+    const description = segments.length > 0
+      ? `${segments.length} flight segment${segments.length === 1 ? '' : 's'} cross ${Array.from(zones).join(', ')}. Enable "Avoid no-fly zones" or adjust the plan before exporting.`
+      : `${areas.size} area${areas.size === 1 ? '' : 's'} overlap ${Array.from(zones).join(', ')}, and the aircraft plans its lines over the whole area. Redraw or split the area outside the zone before exporting.`;
+    toast({ variant: "destructive", title: "Plan enters a no-fly zone", description });
+    return true;
+  }, []);
+
   // helper to export Wingtra flight plan
   const handleExportWingtra = useCallback(() => {
     const api = mapRef.current; if (!api?.exportWingtraFlightPlan) return;
+    if (blockedByAirspace()) return;
     const { blob } = api.exportWingtraFlightPlan();
     const original = api.getLastImportedFlightplanName?.();
     const fn = (original && /\.flightplan$/.test(original)) ? original.replace(/\.flightplan$/, '-exported.flightplan') : 'exported.flightplan';
@@ -217,8 +307,227 @@ export default function Home() {
     const a = document.createElement('a');
     a.href = url; a.download = fn; document.body.appendChild(a); a.click();
     setTimeout(()=>{ URL.revokeObjectURL(url); a.remove(); }, 1000);
+  }, [blockedByAirspace]);
+
+  // One .flightplan per planned flight (multi-flight split needs a home point)
+  const handleExportWingtraPerFlight = useCallback(() => {
+    const api = mapRef.current; if (!api?.exportWingtraFlightPlansPerFlight) return;
+    if (blockedByAirspace()) return;
+    const files = api.exportWingtraFlightPlansPerFlight();
+    if (files.length === 0) {
+      toast({ title: "No flights planned", description: "Set a home point in the Flights card to split the mission into flights." });
+      return;
+    }
+    const original = api.getLastImportedFlightplanName?.();
+    const base = (original && /\.flightplan$/.test(original)) ? original.replace(/\.flightplan$/, '') : 'exported';
+    files.forEach(({ flightIndex, blob }, i) => {
+      setTimeout(() => {
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url; a.download = `${base}-flight-${flightIndex + 1}.flightplan`; document.body.appendChild(a); a.click();
+        setTimeout(()=>{ URL.revokeObjectURL(url); a.remove(); }, 1000);
+      }, i * 250);
+    });
+  }, [blockedByAirspace]);
+
+  // GIS exports: areas with params and stats, flight lines and trigger points
+  const getGisExportAreas = useCallback((): GisExportArea[] | null => {
+    const areas = mapRef.current?.getGisExportAreas?.() ?? [];
+    if (areas.length === 0) {
+      toast({ title: "Nothing to export", description: "Draw or import an area first." });
+      return null;
+    }
+    const stats = getAreaStatsRef.current?.() ?? {};
+    return areas.map((area) => (stats[area.polygonId] ? { ...area, stats: stats[area.polygonId] } : area));
+  }, []);
+
+  const downloadBlob = useCallback((blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = filename; document.body.appendChild(a); a.click();
+    setTimeout(()=>{ URL.revokeObjectURL(url); a.remove(); }, 1000);
   }, []);
 
+  const handleExportGeoJSON = useCallback(() => {
+    const areas = getGisExportAreas(); if (!areas) return;
+    const json = JSON.stringify(planToGeoJSON(areas));
+    downloadBlob(new Blob([json], { type: 'application/geo+json' }), `${project?.name.replace(/[^\w.-]+/g, '_') || 'plan'}.geojson`);
+  }, [downloadBlob, getGisExportAreas, project?.name]);
+
+  const handleExportShapefile = useCallback(async () => {
+    const areas = getGisExportAreas(); if (!areas) return;
+    try {
+      downloadBlob(await planToShapefileZip(areas), `${project?.name.replace(/[^\w.-]+/g, '_') || 'plan'}-shapefile.zip`);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Shapefile export failed", description: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [downloadBlob, getGisExportAreas, project?.name]);
+
+  const handleExportKmz = useCallback(async () => {
+    const areas = getGisExportAreas(); if (!areas) return;
+    try {
+      downloadBlob(await planToKmz(areas, project?.name), `${project?.name.replace(/[^\w.-]+/g, '_') || 'plan'}.kmz`);
+    } catch (error) {
+      toast({ variant: "destructive", title: "KMZ export failed", description: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [downloadBlob, getGisExportAreas, project?.name]);
+
+  const handleExportCoverageRasters = useCallback(async () => {
+    const tiles = getCoverageTilesRef.current?.() ?? { camera: [], lidar: [] };
+    try {
+      const blob = await coverageRastersToZip(tiles);
+      if (!blob) {
+        toast({ title: "Nothing to export", description: "Run the coverage analysis first." });
+        return;
+      }
+      downloadBlob(blob, `${project?.name.replace(/[^\w.-]+/g, '_') || 'plan'}-coverage-geotiff.zip`);
+    } catch (error) {
+      toast({ variant: "destructive", title: "GeoTIFF export failed", description: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [downloadBlob, project?.name]);
+
+  // Mission report: area table, overall histograms and (PDF only) a snapshot of the map
+  const buildMissionReport = useCallback(async (withMapImage: boolean): Promise<MissionReport | null> => {
+    const areas = getGisExportAreas(); if (!areas) return null;
+    const map = withMapImage ? mapRef.current?.getMap() : undefined;
+    return {
+      title: project?.name ? `${project.name} – mission report` : 'Mission report',
+      generatedAt: new Date(),
+      areas,
+      histograms: getOverallHistogramsRef.current?.() ?? [],
+      mapImage: map ? await captureMapImage(map) : null,
+    };
+  }, [getGisExportAreas, project?.name]);
+
+  const handleExportReportCsv = useCallback(async () => {
+    const report = await buildMissionReport(false); if (!report) return;
+    downloadBlob(new Blob([missionReportToCsv(report)], { type: 'text/csv' }), `${project?.name.replace(/[^\w.-]+/g, '_') || 'plan'}-report.csv`);
+  }, [buildMissionReport, downloadBlob, project?.name]);
+
+  const handleExportReportPdf = useCallback(async () => {
+    const report = await buildMissionReport(true); if (!report) return;
+    printHtml(missionReportToHtml(report));
+  }, [buildMissionReport]);
+
+  const openProjectDocument = useCallback(async (doc: ProjectDocument) => {
+    const api = mapRef.current; if (!api?.loadProjectState) return;
+    setRestoringProject(true);
+    setProject({ id: doc.id, name: doc.name, createdAt: doc.createdAt });
+    try {
+      await api.loadProjectState(doc);
+      setProjectVersion((v) => v + 1);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to open project',
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setRestoringProject(false);
+    }
+  }, []);
+
+  // Reopen the project from the last session
+  React.useEffect(() => {
+    let cancelled = false;
+    const startFresh = () => { if (!cancelled) setProject(newProjectMeta()); };
+    const restore = async () => {
+      if (!isProjectStoreAvailable()) return startFresh();
+      try {
+        const lastId = await getLastProjectId();
+        const doc = lastId ? await loadProject(lastId) : null;
+        if (!doc) return startFresh();
+        for (let i = 0; i < MAP_READY_MAX_POLLS && !mapRef.current?.getMap?.(); i++) {
+          await new Promise((resolve) => setTimeout(resolve, MAP_READY_POLL_MS));
+        }
+        if (!cancelled) await openProjectDocument(doc);
+      } catch (error) {
+        console.warn('[projects] could not restore last project', error);
+        startFresh();
+      }
+    };
+    void restore();
+    return () => { cancelled = true; };
+  }, [openProjectDocument]);
+
+  const refreshStoredProjects = useCallback(async () => {
+    if (!isProjectStoreAvailable()) return;
+    try {
+      setStoredProjects(await listProjects());
+    } catch (error) {
+      console.warn('[projects] could not list projects', error);
+    }
+  }, []);
+
+  const openBlankProject = useCallback(async () => {
+    const meta = newProjectMeta();
+    await openProjectDocument(createProjectDocument({
+      polygons: [],
+      paramsByPolygon: {},
+      bearingOverrides: {},
+      importedOriginals: {},
+      settings: DEFAULT_PROJECT_SETTINGS,
+      airspaceZones: [],
+    }, meta));
+  }, [openProjectDocument]);
+
+  const handleNewProject = useCallback(async () => {
+    await saveNow();
+    await openBlankProject();
+  }, [openBlankProject, saveNow]);
+
+  const handleOpenStoredProject = useCallback(async (id: string) => {
+    if (id === project?.id) return;
+    await saveNow();
+    try {
+      const doc = await loadProject(id);
+      if (!doc) {
+        toast({ variant: 'destructive', title: 'Project not found', description: 'It may have been deleted in another tab.' });
+        return;
+      }
+      await openProjectDocument(doc);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Failed to open project', description: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [openProjectDocument, project?.id, saveNow]);
+
+  // Confirmed in a dialog; the deleted project is not saved again on the way to a blank one
+  const handleDeleteCurrentProject = useCallback(async () => {
+    if (!project) return;
+    await discardProject(project.id);
+    try {
+      await deleteProject(project.id);
+    } catch (error) {
+      console.warn('[projects] delete failed', error);
+      toast({ variant: 'destructive', title: 'Failed to delete project', description: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    await openBlankProject();
+  }, [discardProject, openBlankProject, project]);
+
+  const handleSaveProjectFile = useCallback(() => {
+    const api = mapRef.current; if (!api?.getProjectState || !project) return;
+    void saveNow(true);
+    const doc = createProjectDocument(api.getProjectState(), project);
+    const blob = new Blob([serializeProject(doc)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = `${doc.name.replace(/[^\w.-]+/g, '_') || 'project'}.json`; document.body.appendChild(a); a.click();
+    setTimeout(()=>{ URL.revokeObjectURL(url); a.remove(); }, 1000);
+  }, [project, saveNow]);
+
+  const handleProjectFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (projectInputRef.current) projectInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const doc = parseProjectFile(await file.text());
+      await saveNow();
+      await openProjectDocument(doc);
+    } catch (error) {
+      toast({ variant: 'destructive', title: `Failed to open ${file.name}`, description: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [openProjectDocument, saveNow]);
+
   if (!mapboxToken) {
     return (
       <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
@@ -267,6 +576,66 @@ export default function Home() {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {/* Project: name, browser autosave, list and .json files */}
+            {project && (
+              <input
+                className="hidden md:block h-8 w-40 border rounded px-2 text-xs"
+                value={project.name}
+                onChange={(e) => setProject({ ...project, name: e.target.value })}
+                title={lastSavedAt ? `Autosaved ${new Date(lastSavedAt).toLocaleTimeString()}` : 'Not saved yet'}
+                aria-label="Project name"
+              />
+            )}
+            <DropdownMenu onOpenChange={(open) => { if (open) void refreshStoredProjects(); }}>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="outline" className="h-8 px-2 whitespace-nowrap" disabled={restoringProject}>
+                  <FolderOpen className="w-3 h-3 mr-1" /> {restoringProject ? 'Loading…' : 'Project ▾'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Project</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => { void handleNewProject(); }}>
+                  New project
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => projectInputRef.current?.click()}>
+                  Open project file (.json)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={handleSaveProjectFile}>
+                  Save project file (.json)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setConfirmDeleteOpen(true)}>
+                  Delete from browser
+                </DropdownMenuItem>
+                {storedProjects.length > 0 && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>Saved in this browser</DropdownMenuLabel>
+                    {storedProjects.map((summary) => (
+                      <DropdownMenuItem
+                        key={summary.id}
+                        onSelect={() => { void handleOpenStoredProject(summary.id); }}
+                        disabled={summary.id === project?.id}
+                      >
+                        <div className="flex flex-col">
+                          <span className="truncate">{summary.name}</span>
+                          <span className="text-[10px] text-gray-500">
+                            {summary.polygonCount} area{summary.polygonCount === 1 ? '' : 's'} · {new Date(summary.updatedAt).toLocaleString()}
+                          </span>
+                        </div>
+                      </DropdownMenuItem>
+                    ))}
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleProjectFileChange}
+              style={{ display: 'none' }}
+            />
+
             {/* Consolidated Import dropdown */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -280,7 +649,10 @@ export default function Home() {
                   Wingtra Flightplan (.flightplan)
                 </DropdownMenuItem>
                 <DropdownMenuItem onSelect={() => mapRef.current?.openKmlFilePicker?.()}>
-                  KML Polygons (.kml)
+                  KML Polygons &amp; Centerlines (.kml)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => mapRef.current?.openGisFilePicker?.()}>
+                  GeoJSON / Shapefile Areas (.geojson, .zip)
                 </DropdownMenuItem>
                 <DropdownMenuItem onSelect={() => openDJIImporterRef.current?.('dji')}>
                   DJI Camera JSON (input_cameras.json)
@@ -288,9 +660,42 @@ export default function Home() {
                 <DropdownMenuItem onSelect={() => openDJIImporterRef.current?.('wingtra')}>
                   Wingtra Geotags (.json)
                 </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => mapRef.current?.openAirspaceFilePicker?.()}>
+                  No-fly Zones (.kml, .geojson)
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
 
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8 px-2 whitespace-nowrap"
+              title="Draw a centerline; lines follow it across the corridor width"
+              onClick={() => mapRef.current?.startCorridorDrawing?.()}
+            >
+              <Route className="w-3 h-3 mr-1" /> Corridor
+            </Button>
+
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8 px-2 whitespace-nowrap"
+              title="Cameras and lidars, including your own sensors"
+              onClick={() => setPayloadsOpen(true)}
+            >
+              <Camera className="w-3 h-3 mr-1" /> Payloads
+            </Button>
+
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8 px-2 whitespace-nowrap"
+              title="Terrain tile server and local DEM"
+              onClick={() => setTerrainOpen(true)}
+            >
+              <Mountain className="w-3 h-3 mr-1" /> Terrain
+            </Button>
+
             {/* Consolidated Export dropdown */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -303,10 +708,28 @@ export default function Home() {
                 <DropdownMenuItem onSelect={handleExportWingtra}>
                   Wingtra Flightplan
                 </DropdownMenuItem>
-                {/* Future export targets */}
+                <DropdownMenuItem onSelect={handleExportWingtraPerFlight}>
+                  Wingtra Flightplans (one per flight)
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem disabled>
-                  CSV Report (soon)
+                <DropdownMenuItem onSelect={handleExportGeoJSON}>
+                  GeoJSON (areas, lines, triggers, stats)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => { void handleExportShapefile(); }}>
+                  Shapefile (.zip)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => { void handleExportKmz(); }}>
+                  Google Earth (.kmz)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => { void handleExportCoverageRasters(); }}>
+                  Coverage rasters (GeoTIFF .zip)
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => { void handleExportReportCsv(); }}>
+                  Report (CSV)
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => { void handleExportReportPdf(); }}>
+                  Report (print / PDF)
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -324,7 +747,34 @@ export default function Home() {
         </div>
       </header>
 
+      <AlertDialog open={confirmDeleteOpen} onOpenChange={setConfirmDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete “{project?.name ?? 'Untitled project'}”?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project is removed from this browser and a blank project is opened. Save a project file first to keep a copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => { void handleDeleteCurrentProject(); }}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <div className="flex-1 relative">
+        <Suspense fallback={null}>
+          {payloadsOpen && <PayloadManagerDialog open={payloadsOpen} onOpenChange={setPayloadsOpen} />}
+          {terrainOpen && (
+            <TerrainSourceDialog
+              open={terrainOpen}
+              onOpenChange={setTerrainOpen}
+              mapboxToken={mapboxToken}
+              getProjectRings={getProjectRings}
+            />
+          )}
+        </Suspense>
+
         {/* PER‑POLYGON PARAMS DIALOG */}
         <Suspense fallback={null}>
         {(() => {
@@ -359,6 +809,12 @@ export default function Home() {
             pointDensityPtsM2: current.pointDensityPtsM2,
             useCustomBearing: current.useCustomBearing ?? false,
             customBearingDeg: current.customBearingDeg ?? undefined,
+            targetGsdM: current.targetGsdM,
+            targetDensityPtsM2: current.targetDensityPtsM2,
+            targetPercentile: current.targetPercentile,
+            pattern: current.pattern,
+            obliquePassCount: current.obliquePassCount,
+            cameraPitchDeg: current.cameraPitchDeg,
           }}
         />); })()}
         </Suspense>
@@ -397,6 +853,7 @@ export default function Home() {
               <div className={panelEnabled ? '' : 'opacity-50 pointer-events-none'}>
                 <Suspense fallback={<DeferredPanelFallback />}>
                   <OverlapGSDPanel
+                    key={projectVersion}
                     mapRef={mapRef}
                     mapboxToken={mapboxToken}
                     getPerPolygonParams={() => paramsByPolygon}
@@ -404,12 +861,18 @@ export default function Home() {
                     onAutoRun={handleAutoRunReceived}
                     onClearExposed={handleClearReceived}
                     onExposePoseImporter={(fn)=>{ openDJIImporterRef.current = fn; }}
+                    onExposeAreaStats={(fn)=>{ getAreaStatsRef.current = fn; }}
+                    onExposeOverallHistograms={(fn)=>{ getOverallHistogramsRef.current = fn; }}
+                    onExposeCoverageTiles={(fn)=>{ getCoverageTilesRef.current = fn; }}
                     onPosesImported={(c)=> setImportedPoseCount(c)}
                     polygonAnalyses={polygonResults}
                     overrides={overrides}
                     importedOriginals={importedOriginals}
                     selectedPolygonId={selectedPolygonId}
                     onSelectPolygon={setSelectedPolygonId}
+                    missionRouteVersion={missionRouteVersion}
+                    airspaceVersion={airspaceVersion}
+                    historyVersion={historyVersion}
                   />
                 </Suspense>
               </div>
@@ -433,6 +896,9 @@ export default function Home() {
             onFlightLinesUpdated={handleFlightLinesUpdated}
             onClearGSD={() => clearGSDRef.current?.()}
             onPolygonSelected={setSelectedPolygonId}
+            onMissionRouteChanged={handleMissionRouteChanged}
+            onAirspaceChanged={handleAirspaceChanged}
+            onHistoryChanged={handleHistoryChanged}
           />
         </Suspense>
       </div>
@@ -0,0 +1,502 @@
+// src/planning/airspace.ts
+//
+// Restricted airspace (no-fly zones): import from GeoJSON/KML, validate 3D flight
+// paths and transit legs against zone volumes, and cut flight lines around zones.
+//
+
+import * as egm96 from "egm96-universal";
+
+import type { AirspaceZone, LngLat } from "@/domain/types";
+import { parseKmlPolygons } from "@/utils/kml";
+import { clipSegmentToRings, localProjectionForRings, pointInRings, type XY } from "./clip";
+import type { Point3D, TransitLeg } from "./route";
+
+export type AirspaceViolationKind = "line" | "turn" | "transit" | "area";
+
+export interface AirspaceViolation {
+  zoneId: string;
+  zoneName?: string;
+  kind: AirspaceViolationKind;
+  /** Area the offending line or turn belongs to; undefined for transit legs. */
+  polygonId?: string;
+  /** Index of the offending polyline in its path (3D path segment, transit leg or area item). */
+  segmentIndex: number;
+  /** Horizontal pieces of the polyline (for areas, the outline) inside the zone footprint. */
+  pieces: LngLat[][];
+  /** Altitude range of the pieces, meters AMSL (EGM96) like the zone limits. */
+  minAltitudeM: number;
+  maxAltitudeM: number;
+}
+
+export interface AirspacePathInput {
+  polygonId: string;
+  /**
+   * As produced by build3DFlightPath: even entries are sweep lines, odd entries turn connectors.
+   * Altitudes are WGS84 ellipsoid heights, as are those of transit legs.
+   */
+  path3D: Point3D[][];
+}
+
+export interface AirspaceAreaInput {
+  polygonId: string;
+  /** Outline of an exported area item; the aircraft builds its own lines inside it. */
+  ring: LngLat[];
+  /** Holes the item's lines skip; a zone wholly inside one is not overflown. */
+  holes?: LngLat[][];
+  /** The area's 3D path, for the altitudes the aircraft flies the item at. */
+  path3D: Point3D[][];
+}
+
+// Property names read for zone limits, in order of preference. Bare numbers are meters AMSL;
+// text may carry a unit (m, ft, FL) and a datum (AMSL/MSL), or be an object { value, unit, datum }.
+const FLOOR_KEYS = ["floorM", "floor", "lowerLimitM", "lowerLimit", "lower"];
+const CEILING_KEYS = ["ceilingM", "ceiling", "upperLimitM", "upperLimit", "upper"];
+// Limit values meaning "from the ground" or "no upper limit"
+const SURFACE_VALUES = new Set(["sfc", "gnd", "surface", "ground"]);
+const UNLIMITED_VALUES = new Set(["unl", "unlimited", "none"]);
+const FEET_TO_M = 0.3048;
+const METER_UNITS = new Set(["", "m", "meter", "meters", "metre", "metres"]);
+const FEET_UNITS = new Set(["ft", "feet", "foot"]);
+const AMSL_DATUMS = new Set(["", "amsl", "msl", "alt"]);
+const GROUND_DATUMS = new Set(["agl", "aal", "gnd", "sfc"]);
+// Pieces shorter than this after cutting around zones are dropped (meters)
+const MIN_LINE_PIECE_M = 1;
+// Clearance kept between rerouted turn connectors and zone footprints (meters)
+const DETOUR_MARGIN_M = 30;
+
+/**
+ * Meters AMSL for one limit value, null for surface/unlimited. Flight levels are pressure
+ * altitudes, taken as AMSL in the standard atmosphere. Heights above ground cannot be placed
+ * without terrain, so apart from a zero height (the surface) they are rejected.
+ */
+function parseAltitudeLimit(raw: unknown, key: string): number | null {
+  if (typeof raw === "number") {
+    if (!Number.isFinite(raw)) throw new Error(`Restricted area ${key} "${raw}" is not a number`);
+    return raw;
+  }
+  if (typeof raw === "object" && raw !== null && "value" in raw) {
+    const { value, unit = "", datum, referenceDatum } = raw as Record<string, unknown>;
+    return parseAltitudeLimit(`${value} ${unit} ${datum ?? referenceDatum ?? ""}`, key);
+  }
+  const text = String(raw).trim().toLowerCase();
+  if (SURFACE_VALUES.has(text) || UNLIMITED_VALUES.has(text)) return null;
+  const flightLevel = /^fl\s*(\d+(?:\.\d+)?)$/.exec(text);
+  if (flightLevel) return parseFloat(flightLevel[1]) * 100 * FEET_TO_M;
+  const match = /^(-?\d+(?:\.\d+)?)\s*([a-z]*)\.?\s*([a-z]*)$/.exec(text);
+  if (!match) throw new Error(`Restricted area ${key} "${raw}" is not an altitude`);
+  const [, number, first, second] = match;
+  // "500 m AMSL", "1500 ft", or a bare datum as in "1200 AMSL"
+  const [unit, datum] = second === "" && (AMSL_DATUMS.has(first) || GROUND_DATUMS.has(first)) ? ["", first] : [first, second];
+  const value = parseFloat(number);
+  const factor = METER_UNITS.has(unit) ? 1 : FEET_TO_M;
+  if (!METER_UNITS.has(unit) && !FEET_UNITS.has(unit)) throw new Error(`Restricted area ${key} "${raw}" has an unknown unit`);
+  if (GROUND_DATUMS.has(datum)) {
+    if (value === 0) return null;
+    throw new Error(`Restricted area ${key} "${raw}" is above ground; only AMSL limits are supported`);
+  }
+  if (!AMSL_DATUMS.has(datum)) throw new Error(`Restricted area ${key} "${raw}" has an unknown reference`);
+  return value * factor;
+}
+
+function readAltitudeLimit(properties: Record<string, unknown> | undefined, keys: string[]): number | null {
+  if (!properties) return null;
+  for (const key of keys) {
+    const raw = properties[key];
+    if (raw === undefined || raw === null || raw === "") continue;
+    return parseAltitudeLimit(raw, key);
+  }
+  return null;
+}
+
+function closeRing(ring: LngLat[]): LngLat[] {
+  if (ring.length === 0) return ring;
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+}
+
+function zoneFromRings(
+  id: string,
+  rings: LngLat[][],
+  name: string | undefined,
+  properties: Record<string, unknown> | undefined,
+): AirspaceZone | null {
+  const [outer, ...holes] = rings.map((ring) => closeRing(ring.map(([lng, lat]) => [lng, lat] as LngLat)));
+  if (!outer || outer.length < 4) return null;
+  const validHoles = holes.filter((hole) => hole.length >= 4);
+  return {
+    id,
+    ...(name ? { name } : {}),
+    ring: outer,
+    ...(validHoles.length > 0 ? { holes: validHoles } : {}),
+    floorM: readAltitudeLimit(properties, FLOOR_KEYS),
+    ceilingM: readAltitudeLimit(properties, CEILING_KEYS),
+  };
+}
+
+/** Zones from a GeoJSON FeatureCollection, Feature or bare Polygon/MultiPolygon geometry. */
+export function parseAirspaceGeoJSON(geojson: any): AirspaceZone[] {
+  const features: any[] = geojson?.type === "FeatureCollection"
+    ? (geojson.features ?? [])
+    : geojson?.type === "Feature"
+      ? [geojson]
+      : [{ type: "Feature", geometry: geojson, properties: {} }];
+  const zones: AirspaceZone[] = [];
+  features.forEach((feature, featureIndex) => {
+    const geometry = feature?.geometry;
+    const properties = feature?.properties ?? undefined;
+    const name = typeof properties?.name === "string" ? properties.name : undefined;
+    const baseId = String(feature?.id ?? properties?.id ?? `zone-${featureIndex + 1}`);
+    const polygons: LngLat[][][] = geometry?.type === "Polygon"
+      ? [geometry.coordinates]
+      : geometry?.type === "MultiPolygon"
+        ? geometry.coordinates
+        : [];
+    polygons.forEach((rings, partIndex) => {
+      const id = polygons.length > 1 ? `${baseId}-${partIndex + 1}` : baseId;
+      const zone = zoneFromRings(id, rings, name, properties);
+      if (zone) zones.push(zone);
+    });
+  });
+  return zones;
+}
+
+/** Zones from KML polygons; floor/ceiling come from each Placemark's ExtendedData. */
+export function parseAirspaceKml(kmlText: string): AirspaceZone[] {
+  return parseKmlPolygons(kmlText)
+    .map((polygon, index) => zoneFromRings(
+      `zone-${index + 1}`,
+      [polygon.ring, ...(polygon.holes ?? [])],
+      polygon.name,
+      polygon.properties,
+    ))
+    .filter((zone): zone is AirspaceZone => zone !== null);
+}
+
+/** Parse GeoJSON or KML text, whichever it is. */
+export function parseAirspaceText(text: string): AirspaceZone[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed.flatMap(parseAirspaceGeoJSON) : parseAirspaceGeoJSON(parsed);
+  }
+  return parseAirspaceKml(trimmed);
+}
+
+type ProjectedZone = {
+  zone: AirspaceZone;
+  project: (point: LngLat) => XY;
+  unproject: (point: XY) => LngLat;
+  ringsXY: XY[][];
+  floor: number;
+  ceiling: number;
+};
+
+function projectZones(zones: AirspaceZone[]): ProjectedZone[] {
+  return zones.map((zone) => {
+    const rings = [zone.ring, ...(zone.holes ?? [])];
+    const projection = localProjectionForRings(rings);
+    return {
+      zone,
+      project: projection.forward,
+      unproject: projection.inverse,
+      ringsXY: rings.map((ring) => ring.map((point) => projection.forward(point))),
+      floor: zone.floorM ?? Number.NEGATIVE_INFINITY,
+      ceiling: zone.ceilingM ?? Number.POSITIVE_INFINITY,
+    };
+  });
+}
+
+/**
+ * Parts of a 3D polyline that enter a zone volume. Each polyline segment is clipped exactly
+ * to the zone footprint; altitude is linear along the segment, so a piece violates the zone
+ * when its altitude range overlaps [floor, ceiling]. Path heights are on the WGS84 ellipsoid and
+ * zone limits AMSL, so vertices are moved to EGM96 first (the geoid is smooth over a segment).
+ */
+function polylineViolations(
+  polyline: Point3D[],
+  zones: ProjectedZone[],
+  kind: AirspaceViolationKind,
+  segmentIndex: number,
+  polygonId?: string,
+): AirspaceViolation[] {
+  const violations: AirspaceViolation[] = [];
+  const amsl = polyline.map(([lng, lat, height]) => egm96.ellipsoidToEgm96(lat, lng, height));
+  for (const projected of zones) {
+    const pieces: LngLat[][] = [];
+    let minAltitudeM = Number.POSITIVE_INFINITY;
+    let maxAltitudeM = Number.NEGATIVE_INFINITY;
+    for (let i = 0; i + 1 < polyline.length; i++) {
+      const from = polyline[i];
+      const to = polyline[i + 1];
+      const a = projected.project([from[0], from[1]]);
+      const b = projected.project([to[0], to[1]]);
+      for (const [t0, t1] of clipSegmentToRings(a, b, projected.ringsXY)) {
+        const z0 = amsl[i] + (amsl[i + 1] - amsl[i]) * t0;
+        const z1 = amsl[i] + (amsl[i + 1] - amsl[i]) * t1;
+        const low = Math.min(z0, z1);
+        const high = Math.max(z0, z1);
+        if (high < projected.floor || low > projected.ceiling) continue;
+        pieces.push([
+          projected.unproject([a[0] + (b[0] - a[0]) * t0, a[1] + (b[1] - a[1]) * t0]),
+          projected.unproject([a[0] + (b[0] - a[0]) * t1, a[1] + (b[1] - a[1]) * t1]),
+        ]);
+        minAltitudeM = Math.min(minAltitudeM, low);
+        maxAltitudeM = Math.max(maxAltitudeM, high);
+      }
+    }
+    if (pieces.length === 0) continue;
+    violations.push({
+      zoneId: projected.zone.id,
+      ...(projected.zone.name ? { zoneName: projected.zone.name } : {}),
+      kind,
+      ...(polygonId ? { polygonId } : {}),
+      segmentIndex,
+      pieces,
+      minAltitudeM,
+      maxAltitudeM,
+    });
+  }
+  return violations;
+}
+
+/** Validate every sweep line, turn connector and transit leg of a plan against the zones. */
+export function validatePlanAgainstAirspace(
+  zones: AirspaceZone[],
+  areaPaths: AirspacePathInput[],
+  transitLegs: TransitLeg[] = [],
+): AirspaceViolation[] {
+  if (zones.length === 0) return [];
+  const projected = projectZones(zones);
+  const violations: AirspaceViolation[] = [];
+  for (const { polygonId, path3D } of areaPaths) {
+    path3D.forEach((polyline, index) => {
+      const kind: AirspaceViolationKind = index % 2 === 0 ? "line" : "turn";
+      violations.push(...polylineViolations(polyline, projected, kind, index, polygonId));
+    });
+  }
+  transitLegs.forEach((leg, index) => {
+    violations.push(...polylineViolations(leg.path, projected, "transit", index));
+  });
+  return violations;
+}
+
+/**
+ * Validate exported area items against the zones. The aircraft rebuilds its lines from an item's
+ * outline, so lines cut around zones on the map do not reach it: an item violates a zone when its
+ * outline overlaps the zone footprint and the altitude band of its area's path (AMSL) meets the
+ * zone's. Pieces are the outline edges inside the zone, none when the zone lies wholly inside.
+ * Holes the area's lines skip are left out of the overlap.
+ */
+export function validateAreaItemsAgainstAirspace(zones: AirspaceZone[], areas: AirspaceAreaInput[]): AirspaceViolation[] {
+  if (zones.length === 0) return [];
+  const projected = projectZones(zones);
+  const violations: AirspaceViolation[] = [];
+  areas.forEach(({ polygonId, ring, holes = [], path3D }, index) => {
+    const heights = path3D.flat().map(([lng, lat, height]) => egm96.ellipsoidToEgm96(lat, lng, height));
+    // Without a path the altitude is unknown; any zone over the outline counts
+    const low = heights.length > 0 ? Math.min(...heights) : Number.NEGATIVE_INFINITY;
+    const high = heights.length > 0 ? Math.max(...heights) : Number.POSITIVE_INFINITY;
+    for (const zone of projected) {
+      if (high < zone.floor || low > zone.ceiling) continue;
+      const ringsXY = [ring, ...holes].map((points) => points.map((point) => zone.project(point)));
+      const pieces: LngLat[][] = [];
+      for (const edges of ringsXY) {
+        for (let i = 0; i + 1 < edges.length; i++) {
+          const a = edges[i];
+          const b = edges[i + 1];
+          for (const [t0, t1] of clipSegmentToRings(a, b, zone.ringsXY)) {
+            pieces.push([
+              zone.unproject([a[0] + (b[0] - a[0]) * t0, a[1] + (b[1] - a[1]) * t0]),
+              zone.unproject([a[0] + (b[0] - a[0]) * t1, a[1] + (b[1] - a[1]) * t1]),
+            ]);
+          }
+        }
+      }
+      const zoneInside = zone.ringsXY[0].some((point) => pointInRings(point, ringsXY));
+      if (pieces.length === 0 && !zoneInside) continue;
+      violations.push({
+        zoneId: zone.zone.id,
+        ...(zone.zone.name ? { zoneName: zone.zone.name } : {}),
+        kind: "area",
+        polygonId,
+        segmentIndex: index,
+        pieces,
+        minAltitudeM: low,
+        maxAltitudeM: high,
+      });
+    }
+  });
+  return violations;
+}
+
+/**
+ * Cut 2D flight lines around zone footprints, keeping the pieces outside every zone. Zones are
+ * avoided at any altitude, since sweep altitudes are not known when lines are generated.
+ */
+export function subtractZonesFromLines(lines: LngLat[][], zones: AirspaceZone[]): LngLat[][] {
+  if (zones.length === 0) return lines;
+  const projected = projectZones(zones);
+  const out: LngLat[][] = [];
+  const lengthM = (piece: LngLat[]) => piece.slice(1).reduce((sum, point, i) => {
+    const [ax, ay] = projected[0].project(piece[i]);
+    const [bx, by] = projected[0].project(point);
+    return sum + Math.hypot(bx - ax, by - ay);
+  }, 0);
+  for (const line of lines) {
+    if (line.length < 2) continue;
+    // Polylines (corridor lines) are cut edge by edge; free stretches that continue across a
+    // vertex stay one piece
+    let piece: LngLat[] = [];
+    let cut = false;
+    const flush = () => {
+      if (piece.length >= 2 && lengthM(piece) > MIN_LINE_PIECE_M) out.push(piece);
+      piece = [];
+    };
+    for (let i = 1; i < line.length; i++) {
+      const start = line[i - 1];
+      const end = line[i];
+      // Inside intervals of all zones along the edge, as parameters of start → end
+      const blocked: Array<[number, number]> = [];
+      for (const zone of projected) {
+        const a = zone.project(start);
+        const b = zone.project(end);
+        blocked.push(...clipSegmentToRings(a, b, zone.ringsXY));
+      }
+      if (blocked.length > 0) cut = true;
+      blocked.sort((x, y) => x[0] - y[0]);
+      const lerp = (t: number): LngLat => [start[0] + (end[0] - start[0]) * t, start[1] + (end[1] - start[1]) * t];
+      let cursor = 0;
+      for (const [t0, t1] of blocked) {
+        if (t0 > cursor) {
+          if (piece.length === 0) piece.push(lerp(cursor));
+          piece.push(lerp(t0));
+        }
+        if (t1 > cursor) {
+          flush();
+          cursor = t1;
+        }
+      }
+      if (cursor < 1) {
+        if (piece.length === 0) piece.push(cursor === 0 ? start : lerp(cursor));
+        piece.push(end);
+      }
+    }
+    if (cut) flush();
+    else out.push(line);
+  }
+  return out;
+}
+
+// Convex hull (counter-clockwise, not closed) by the monotone chain
+function convexHull(points: XY[]): XY[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: XY, a: XY, b: XY) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const lower: XY[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+  const upper: XY[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], sorted[i]) <= 0) upper.pop();
+    upper.push(sorted[i]);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+// Way round a convex hull from `from` to `to`, via the nearest hull points, the shorter way round
+function detourAroundHull(hull: XY[], from: XY, to: XY): XY[] {
+  const n = hull.length;
+  const nearest = (point: XY) => {
+    let best = { edge: 0, t: 0, point: hull[0], distance: Number.POSITIVE_INFINITY };
+    for (let i = 0; i < n; i++) {
+      const a = hull[i];
+      const b = hull[(i + 1) % n];
+      const dx = b[0] - a[0];
+      const dy = b[1] - a[1];
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0 ? Math.max(0, Math.min(1, ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / len2)) : 0;
+      const q: XY = [a[0] + dx * t, a[1] + dy * t];
+      const distance = Math.hypot(q[0] - point[0], q[1] - point[1]);
+      if (distance < best.distance) best = { edge: i, t, point: q, distance };
+    }
+    return best;
+  };
+  const start = nearest(from);
+  const end = nearest(to);
+  const forward: XY[] = [start.point];
+  if (start.edge !== end.edge || end.t < start.t) {
+    for (let k = 1; k <= n; k++) {
+      const index = (start.edge + k) % n;
+      forward.push(hull[index]);
+      if (index === end.edge) break;
+    }
+  }
+  forward.push(end.point);
+  const backward: XY[] = [start.point];
+  if (start.edge !== end.edge || end.t > start.t) {
+    for (let k = 0; k < n; k++) {
+      const index = (start.edge - k + n) % n;
+      backward.push(hull[index]);
+      if ((index - 1 + n) % n === end.edge) break;
+    }
+  }
+  backward.push(end.point);
+  const length = (points: XY[]) => points.slice(1).reduce((sum, point, i) => sum + Math.hypot(point[0] - points[i][0], point[1] - points[i][1]), 0);
+  const way = length(forward) <= length(backward) ? forward : backward;
+  // The nearest hull points can fall on hull vertices
+  return way.filter((point, i) => i === 0 || Math.hypot(point[0] - way[i - 1][0], point[1] - way[i - 1][1]) > 0.01);
+}
+
+/**
+ * Reroute turn connectors (the odd entries of a build3DFlightPath path) that enter a zone volume.
+ * Such a connector is replaced by a way round the convex hull of the offending zones' footprints,
+ * grown by `marginM`, taking the shorter side at the connector's highest altitude. Terrain along
+ * the detour is not checked. Sweeps are left as they are, so cut the lines with
+ * subtractZonesFromLines first.
+ */
+export function routeConnectorsAroundZones(
+  path3D: Point3D[][],
+  zones: AirspaceZone[],
+  marginM = DETOUR_MARGIN_M,
+): Point3D[][] {
+  if (zones.length === 0) return path3D;
+  const projected = projectZones(zones);
+  return path3D.map((connector, index) => {
+    if (index % 2 === 0 || connector.length < 2) return connector;
+    const offending = new Set(polylineViolations(connector, projected, "turn", index).map((violation) => violation.zoneId));
+    if (offending.size === 0) return connector;
+
+    const from = connector[0];
+    const to = connector[connector.length - 1];
+    const altitude = Math.max(...connector.map((point) => point[2]));
+    let rerouted = connector;
+    // Grow the set of zones to go round until the detour is clear, or no new zone is hit
+    for (let round = 0; round < zones.length; round++) {
+      const rings = zones.filter((zone) => offending.has(zone.id)).map((zone) => zone.ring);
+      const projection = localProjectionForRings([...rings, [[from[0], from[1]], [to[0], to[1]]]]);
+      const grown: XY[] = [];
+      for (const point of rings.flat()) {
+        const [x, y] = projection.forward(point);
+        for (let k = 0; k < 16; k++) {
+          const angle = (k * Math.PI) / 8;
+          // Circumscribe the margin circle so the hull stays at least marginM away
+          grown.push([x + (marginM / Math.cos(Math.PI / 16)) * Math.cos(angle), y + (marginM / Math.cos(Math.PI / 16)) * Math.sin(angle)]);
+        }
+      }
+      const way = detourAroundHull(convexHull(grown), projection.forward([from[0], from[1]]), projection.forward([to[0], to[1]]));
+      rerouted = [
+        from,
+        ...way.map((point): Point3D => [...projection.inverse(point), altitude]),
+        to,
+      ];
+      const remaining = polylineViolations(rerouted, projected, "turn", index).map((violation) => violation.zoneId);
+      const added = remaining.filter((zoneId) => !offending.has(zoneId));
+      if (remaining.length === 0 || added.length === 0) break;
+      added.forEach((zoneId) => offending.add(zoneId));
+    }
+    return rerouted;
+  });
+}
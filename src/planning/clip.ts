@@ -0,0 +1,220 @@
+// src/planning/clip.ts
+//
+// Analytic segment–polygon clipping in a local metric projection. Polygons may be
+// concave, have holes and consist of several parts; insideness uses the even–odd rule
+// over all rings, so holes and disjoint parts need no special casing.
+//
+
+import type { LngLat } from "@/domain/types";
+
+const R = 6378137;
+const EPS = 1e-9;
+
+export type XY = [number, number];
+
+/** One polygon as rings in [lng, lat]: the outer boundary first, then any holes. */
+export type PolygonRings = LngLat[][];
+
+/** Interval [t0, t1] (0..1) of a segment that lies inside the polygon. */
+export type ClipInterval = [number, number];
+
+export type LocalProjection = {
+  forward: (p: LngLat) => XY;
+  inverse: (p: XY) => LngLat;
+};
+
+/**
+ * Equirectangular projection around a reference point: meters east/north. Accurate to a few
+ * centimeters over typical survey extents (< 20 km), and cheap to invert.
+ */
+export function createLocalProjection(origin: LngLat): LocalProjection {
+  const [lng0, lat0] = origin;
+  const ky = (Math.PI / 180) * R;
+  const kx = ky * Math.cos((lat0 * Math.PI) / 180);
+  return {
+    forward: ([lng, lat]) => [(lng - lng0) * kx, (lat - lat0) * ky],
+    inverse: ([x, y]) => [lng0 + x / kx, lat0 + y / ky],
+  };
+}
+
+/** Local projection centered on the bounding box of the given rings. */
+export function localProjectionForRings(rings: LngLat[][]): LocalProjection {
+  let minLng = Infinity, minLat = Infinity, maxLng = -Infinity, maxLat = -Infinity;
+  for (const ring of rings) {
+    for (const [lng, lat] of ring) {
+      if (lng < minLng) minLng = lng;
+      if (lng > maxLng) maxLng = lng;
+      if (lat < minLat) minLat = lat;
+      if (lat > maxLat) maxLat = lat;
+    }
+  }
+  if (!Number.isFinite(minLng)) return createLocalProjection([0, 0]);
+  return createLocalProjection([(minLng + maxLng) / 2, (minLat + maxLat) / 2]);
+}
+
+/** Accept a single ring, one polygon with holes, or a multipolygon, and flatten to rings. */
+export function flattenRings(polygon: LngLat[] | PolygonRings | PolygonRings[]): LngLat[][] {
+  if (polygon.length === 0) return [];
+  const first = polygon[0] as unknown[];
+  if (typeof first[0] === "number") return [polygon as LngLat[]];
+  const second = first[0] as unknown[];
+  if (typeof second[0] === "number") return polygon as PolygonRings;
+  return (polygon as PolygonRings[]).flat();
+}
+
+/** Even–odd point in polygon over all rings (holes and parts included). */
+export function pointInRings(p: XY, rings: XY[][]): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > p[1]) !== (yj > p[1]) && p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * Exact clip of segment a→b against polygon rings (projected meters). Every crossing with
+ * a ring edge splits the segment; each piece is then classified by its midpoint, so touching
+ * a vertex or running along an edge never produces spurious gaps. Adjacent inside pieces are
+ * merged. Returns parameter intervals along a→b in increasing order.
+ */
+export function clipSegmentToRings(a: XY, b: XY, rings: XY[][]): ClipInterval[] {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const ts: number[] = [0, 1];
+  for (const ring of rings) {
+    const n = ring.length;
+    for (let i = 0; i < n; i++) {
+      const p = ring[i];
+      const q = ring[(i + 1) % n];
+      const ex = q[0] - p[0];
+      const ey = q[1] - p[1];
+      const denom = dx * ey - dy * ex;
+      const wx = p[0] - a[0];
+      const wy = p[1] - a[1];
+      const scale = Math.hypot(dx, dy) * Math.hypot(ex, ey);
+      if (Math.abs(denom) <= EPS * scale) {
+        // Parallel: if collinear, the edge endpoints are the only possible state changes
+        if (Math.abs(wx * dy - wy * dx) <= EPS * Math.hypot(dx, dy) * (Math.hypot(wx, wy) + 1)) {
+          const len2 = dx * dx + dy * dy;
+          if (len2 > 0) {
+            ts.push((wx * dx + wy * dy) / len2);
+            ts.push(((q[0] - a[0]) * dx + (q[1] - a[1]) * dy) / len2);
+          }
+        }
+        continue;
+      }
+      const t = (wx * ey - wy * ex) / denom;
+      const u = (wx * dy - wy * dx) / denom;
+      if (u >= -EPS && u <= 1 + EPS) ts.push(t);
+    }
+  }
+
+  const sorted = ts.filter((t) => t >= 0 && t <= 1).sort((x, y) => x - y);
+  const intervals: ClipInterval[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const t0 = sorted[i];
+    const t1 = sorted[i + 1];
+    if (t1 - t0 < EPS) continue;
+    const tm = (t0 + t1) / 2;
+    if (!pointInRings([a[0] + dx * tm, a[1] + dy * tm], rings)) continue;
+    const last = intervals[intervals.length - 1];
+    if (last && Math.abs(last[1] - t0) < EPS) last[1] = t1;
+    else intervals.push([t0, t1]);
+  }
+  return intervals;
+}
+
+/** Clip a [lng, lat] segment to a polygon; returns the inside pieces as [lng, lat] segments. */
+export function clipSegmentToPolygon(
+  a: LngLat,
+  b: LngLat,
+  polygon: LngLat[] | PolygonRings | PolygonRings[],
+  projection?: LocalProjection,
+): LngLat[][] {
+  const rings = flattenRings(polygon);
+  const proj = projection ?? localProjectionForRings(rings);
+  const ringsXY = rings.map((ring) => ring.map((point) => proj.forward(point)));
+  const pa = proj.forward(a);
+  const pb = proj.forward(b);
+  return clipSegmentToRings(pa, pb, ringsXY).map(([t0, t1]) => [
+    proj.inverse([pa[0] + (pb[0] - pa[0]) * t0, pa[1] + (pb[1] - pa[1]) * t0]),
+    proj.inverse([pa[0] + (pb[0] - pa[0]) * t1, pa[1] + (pb[1] - pa[1]) * t1]),
+  ]);
+}
+
+export type SweepLine = {
+  /** Sweep index relative to the center line (negative = left of the flight direction). */
+  index: number;
+  /** Inside pieces in flight direction, each [start, end] in [lng, lat]. */
+  segments: LngLat[][];
+};
+
+export type SweepOptions = {
+  /** Point the center sweep line passes through; defaults to the bbox center. */
+  center?: LngLat;
+  /** Number of sweep lines on each side of the center; defaults to enough to cover the polygon. */
+  halfCount?: number;
+};
+
+/**
+ * Parallel sweep lines at `spacingM` across the polygon along `bearingDeg` (° CW from north),
+ * clipped exactly. Lines that miss the polygon are omitted; a line crossing a concavity or a
+ * hole yields several segments.
+ */
+export function clipSweepLines(
+  polygon: LngLat[] | PolygonRings | PolygonRings[],
+  bearingDeg: number,
+  spacingM: number,
+  options: SweepOptions = {},
+): SweepLine[] {
+  const rings = flattenRings(polygon).filter((ring) => ring.length >= 3);
+  if (rings.length === 0 || !(spacingM > 0)) return [];
+  const proj = localProjectionForRings(rings);
+  const ringsXY = rings.map((ring) => ring.map((point) => proj.forward(point)));
+  const center = options.center ? proj.forward(options.center) : ([0, 0] as XY);
+
+  const theta = (bearingDeg * Math.PI) / 180;
+  const along: XY = [Math.sin(theta), Math.cos(theta)];
+  const across: XY = [Math.cos(theta), -Math.sin(theta)];
+
+  let reach = 0;
+  let minAlong = Infinity;
+  let maxAlong = -Infinity;
+  for (const ring of ringsXY) {
+    for (const [x, y] of ring) {
+      const rx = x - center[0];
+      const ry = y - center[1];
+      reach = Math.max(reach, Math.abs(rx * across[0] + ry * across[1]));
+      const s = rx * along[0] + ry * along[1];
+      minAlong = Math.min(minAlong, s);
+      maxAlong = Math.max(maxAlong, s);
+    }
+  }
+  const halfCount = options.halfCount ?? Math.ceil(reach / spacingM);
+  const start = minAlong - 1;
+  const end = maxAlong + 1;
+
+  const lines: SweepLine[] = [];
+  for (let i = -halfCount; i <= halfCount; i++) {
+    const ox = center[0] + across[0] * i * spacingM;
+    const oy = center[1] + across[1] * i * spacingM;
+    const a: XY = [ox + along[0] * start, oy + along[1] * start];
+    const b: XY = [ox + along[0] * end, oy + along[1] * end];
+    const intervals = clipSegmentToRings(a, b, ringsXY);
+    if (intervals.length === 0) continue;
+    lines.push({
+      index: i,
+      segments: intervals.map(([t0, t1]) => [
+        proj.inverse([a[0] + (b[0] - a[0]) * t0, a[1] + (b[1] - a[1]) * t0]),
+        proj.inverse([a[0] + (b[0] - a[0]) * t1, a[1] + (b[1] - a[1]) * t1]),
+      ]),
+    });
+  }
+  return lines;
+}
@@ -0,0 +1,161 @@
+// src/planning/corridor.ts
+//
+// Corridor (linear) missions for pipelines, roads and power lines: flight lines run
+// parallel to a centerline instead of sweeping across a polygon. The corridor polygon
+// (centerline buffered by half the width) is the area that terrain, overlap and density
+// analysis run on, so everything downstream of the lines works unchanged.
+//
+
+import type { CorridorSpec, LngLat } from "@/domain/types";
+import { localProjectionForRings, type LocalProjection, type XY } from "./clip";
+import { bearing } from "./lines";
+
+export const DEFAULT_CORRIDOR_WIDTH_M = 100;
+export const MIN_CORRIDOR_WIDTH_M = 1;
+
+// Sharp bends would push mitered vertices far out; cap the miter at this multiple of the offset
+const MAX_MITER_RATIO = 4;
+
+/** Centerline without repeated vertices; null when fewer than two distinct points remain. */
+export function normalizeCenterline(line: LngLat[]): LngLat[] | null {
+  const out: LngLat[] = [];
+  for (const point of line) {
+    if (!Array.isArray(point) || !Number.isFinite(point[0]) || !Number.isFinite(point[1])) continue;
+    const last = out[out.length - 1];
+    if (last && last[0] === point[0] && last[1] === point[1]) continue;
+    out.push([point[0], point[1]]);
+  }
+  return out.length >= 2 ? out : null;
+}
+
+/** A usable corridor spec, or null (bad centerline or width). */
+export function normalizeCorridorSpec(raw: unknown): CorridorSpec | null {
+  const data = raw as Partial<CorridorSpec> | null;
+  if (!data || !Array.isArray(data.centerline)) return null;
+  const centerline = normalizeCenterline(data.centerline);
+  const widthM = Number(data.widthM);
+  if (!centerline || !Number.isFinite(widthM) || widthM < MIN_CORRIDOR_WIDTH_M) return null;
+  return { centerline, widthM };
+}
+
+type OffsetEdge = { from: XY; to: XY; dir: XY; normal: XY };
+
+function offsetEdges(points: XY[]): OffsetEdge[] {
+  const edges: OffsetEdge[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1], to = points[i];
+    const dx = to[0] - from[0], dy = to[1] - from[1];
+    const len = Math.hypot(dx, dy);
+    if (len < 1e-9) continue;
+    edges.push({ from, to, dir: [dx / len, dy / len], normal: [-dy / len, dx / len] });
+  }
+  return edges;
+}
+
+function shift(edge: OffsetEdge, p: XY, offsetM: number): XY {
+  return [p[0] + edge.normal[0] * offsetM, p[1] + edge.normal[1] * offsetM];
+}
+
+// Vertex where the offsets of two consecutive (kept) edges meet
+function joinEdges(before: OffsetEdge, after: OffsetEdge, offsetM: number): XY {
+  if (before.to === after.from) {
+    // Miter join: move along the bisector so both adjacent edges stay offsetM away
+    const p = before.to;
+    const mx = before.normal[0] + after.normal[0], my = before.normal[1] + after.normal[1];
+    const mLen = Math.hypot(mx, my);
+    if (mLen < 1e-9) return shift(after, p, offsetM); // U-turn
+    const cos = (mx * before.normal[0] + my * before.normal[1]) / mLen;
+    const miter = offsetM / Math.max(cos, 1 / MAX_MITER_RATIO);
+    return [p[0] + (mx / mLen) * miter, p[1] + (my / mLen) * miter];
+  }
+  // Edges between them were dropped: intersect the two offset lines
+  const a = shift(before, before.to, offsetM);
+  const b = shift(after, after.from, offsetM);
+  const cross = before.dir[0] * after.dir[1] - before.dir[1] * after.dir[0];
+  if (Math.abs(cross) < 1e-9) return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  const t = ((b[0] - a[0]) * after.dir[1] - (b[1] - a[1]) * after.dir[0]) / cross;
+  return [a[0] + before.dir[0] * t, a[1] + before.dir[1] * t];
+}
+
+function offsetXY(points: XY[], offsetM: number): XY[] {
+  let edges = offsetEdges(points);
+  if (edges.length === 0) return points.map((p) => [p[0], p[1]]);
+  for (;;) {
+    const out: XY[] = [shift(edges[0], edges[0].from, offsetM)];
+    for (let k = 1; k < edges.length; k++) out.push(joinEdges(edges[k - 1], edges[k], offsetM));
+    out.push(shift(edges[edges.length - 1], edges[edges.length - 1].to, offsetM));
+    // On the inside of a bend tighter than the offset, edges flip and the line loops back over
+    // itself; drop such edges so their neighbours meet directly
+    const flipped = edges.findIndex((edge, k) =>
+      (out[k + 1][0] - out[k][0]) * edge.dir[0] + (out[k + 1][1] - out[k][1]) * edge.dir[1] <= 0);
+    if (flipped < 0 || edges.length === 1) return out;
+    edges = edges.filter((_, k) => k !== flipped);
+  }
+}
+
+/** Parallel offset of a polyline (meters; positive = left of the direction of travel). */
+export function offsetPolyline(line: LngLat[], offsetM: number, projection?: LocalProjection): LngLat[] {
+  const proj = projection ?? localProjectionForRings([line]);
+  return offsetXY(line.map(proj.forward), offsetM).map(proj.inverse);
+}
+
+/**
+ * Cross-track offsets of the corridor lines (meters, left to right), centred on the
+ * centerline and `lineSpacingM` apart; the outer lines sit within half a spacing of the edges.
+ */
+export function corridorLineOffsets(widthM: number, lineSpacingM: number): number[] {
+  const spacing = Math.max(0.1, lineSpacingM);
+  const count = Math.max(1, Math.ceil(Math.max(0, widthM) / spacing));
+  return Array.from({ length: count }, (_, k) => ((count - 1) / 2 - k) * spacing);
+}
+
+/** Corridor polygon: the centerline buffered by half the width on both sides (flat ends), closed. */
+export function buildCorridorRing(spec: CorridorSpec): LngLat[] {
+  return corridorBandRing(spec, spec.widthM / 2, -spec.widthM / 2);
+}
+
+/** Closed ring of the strip between two cross-track offsets of the centerline (meters, left > right). */
+export function corridorBandRing(spec: CorridorSpec, leftM: number, rightM: number): LngLat[] {
+  const proj = localProjectionForRings([spec.centerline]);
+  const left = offsetPolyline(spec.centerline, leftM, proj);
+  const right = offsetPolyline(spec.centerline, rightM, proj);
+  const ring = [...left, ...right.reverse()];
+  return [...ring, ring[0]];
+}
+
+/** The part of a corridor between two cross-track offsets, as a corridor of its own. */
+export function corridorSection(spec: CorridorSpec, leftM: number, rightM: number): CorridorSpec {
+  return { centerline: offsetPolyline(spec.centerline, (leftM + rightM) / 2), widthM: Math.abs(leftM - rightM) };
+}
+
+/** Signed cross-track offset of a point from the centerline (meters; positive = left). */
+export function corridorOffsetOf(spec: CorridorSpec, point: LngLat, projection?: LocalProjection): number {
+  const proj = projection ?? localProjectionForRings([spec.centerline]);
+  const p = proj.forward(point);
+  let best = Number.POSITIVE_INFINITY;
+  let offset = 0;
+  for (const edge of offsetEdges(spec.centerline.map(proj.forward))) {
+    const along = Math.max(0, Math.min(
+      Math.hypot(edge.to[0] - edge.from[0], edge.to[1] - edge.from[1]),
+      (p[0] - edge.from[0]) * edge.dir[0] + (p[1] - edge.from[1]) * edge.dir[1],
+    ));
+    const foot: XY = [edge.from[0] + edge.dir[0] * along, edge.from[1] + edge.dir[1] * along];
+    const d = Math.hypot(p[0] - foot[0], p[1] - foot[1]);
+    if (d < best) {
+      best = d;
+      offset = (p[0] - foot[0]) * edge.normal[0] + (p[1] - foot[1]) * edge.normal[1];
+    }
+  }
+  return offset;
+}
+
+/** Flight lines ordered across-track from left to right, each following the centerline. */
+export function generateCorridorLines(spec: CorridorSpec, lineSpacingM: number): LngLat[][] {
+  const proj = localProjectionForRings([spec.centerline]);
+  return corridorLineOffsets(spec.widthM, lineSpacingM).map((offset) => offsetPolyline(spec.centerline, offset, proj));
+}
+
+/** Overall direction of travel along the centerline (first to last vertex). */
+export function corridorBearing(spec: CorridorSpec): number {
+  return bearing(spec.centerline[0], spec.centerline[spec.centerline.length - 1]);
+}
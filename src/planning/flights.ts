@@ -0,0 +1,390 @@
+// src/planning/flights.ts
+//
+// Split the flight lines of one or many areas into separate flights that each
+// start and end at a home point and stay within the aircraft's endurance.
+//
+
+import type { AircraftModel, CorridorSpec, LngLat, WindVector } from "@/domain/types";
+import { enduranceSec, estimateLegPerformance, turnTimeSec, usableBatteryWh } from "@/domain/aircraft";
+import { corridorBandRing, corridorOffsetOf, corridorSection } from "./corridor";
+import { bearing, destination, groupSweepLines, haversine } from "./lines";
+import type { FlightPass } from "./patterns";
+
+// Turf typings are noisy in this repo. Keep usage narrow and geometry-centric.
+// @ts-ignore
+import * as turf from "@turf/turf";
+
+export interface FlightSplitArea {
+  polygonId: string;
+  ring: LngLat[];
+  holes?: LngLat[][];         // exclusion zones inside the ring
+  bearingDeg: number;
+  lineSpacingM: number;
+  flightLines: LngLat[][];    // ordered across-track, as produced by generateFlightLinesForPolygon
+  passes?: FlightPass[];      // multi-pass patterns: each pass is ordered across-track at its own bearing
+  airspeedMps?: number;       // survey airspeed (lidar areas fly their own speed)
+  corridor?: CorridorSpec;    // corridor areas: lines follow this centerline
+}
+
+export interface FlightSegment {
+  polygonId: string;
+  lineStart: number;          // first flight line index (inclusive)
+  lineEnd: number;            // last flight line index (exclusive)
+  bearingDeg: number;         // sweep bearing of these lines (segments never span two passes)
+  rings: LngLat[][];          // hole-free part(s) of the area polygon covering these lines
+  corridor?: CorridorSpec;    // corridor areas: the strip of the corridor these lines fly
+}
+
+export interface PlannedFlight {
+  index: number;
+  segments: FlightSegment[];
+  lines: LngLat[][];          // survey lines in flown order and direction
+  lineCount: number;
+  distanceM: number;          // horizontal distance incl. transit from/to home
+  timeSec: number;
+  energyWh: number;
+  /** A single flight line already exceeds the budget; the flight cannot be made to fit. */
+  overBudget: boolean;
+}
+
+export interface FlightSplitOptions {
+  home: LngLat;
+  maxFlightTimeSec: number;
+  aircraft: AircraftModel;
+  wind?: WindVector | null;
+}
+
+type FlightState = {
+  position: LngLat;
+  timeSec: number;
+  energyWh: number;
+  distanceM: number;
+  lines: LngLat[][];
+  segments: FlightSegment[];
+  lastPolygonId: string | null;
+  lastSweepEnd: number;
+};
+
+function emptyFlight(home: LngLat): FlightState {
+  return {
+    position: home,
+    timeSec: 0,
+    energyWh: 0,
+    distanceM: 0,
+    lines: [],
+    segments: [],
+    lastPolygonId: null,
+    lastSweepEnd: -1,
+  };
+}
+
+function passAt(area: FlightSplitArea, lineIndex: number): FlightPass | undefined {
+  return area.passes?.find((pass) => lineIndex >= pass.lineStart && lineIndex < pass.lineEnd);
+}
+
+function straightLeg(from: LngLat, to: LngLat, model: AircraftModel, wind: WindVector | null | undefined, airspeedMps: number) {
+  const distanceM = haversine(from, to);
+  const leg = distanceM > 0
+    ? estimateLegPerformance(model, distanceM, bearing(from, to), 0, wind, airspeedMps)
+    : { timeSec: 0, energyWh: 0 };
+  return { distanceM, ...leg };
+}
+
+/** Signed across-track offset (m) of each line's midpoint from the first line's start. */
+function acrossTrackOffsets(lines: LngLat[][], bearingDeg: number): number[] {
+  if (lines.length === 0) return [];
+  const perpBearing = (bearingDeg + 90) % 360;
+  const origin = lines[0][0];
+  return lines.map((line) => {
+    const mid: LngLat = [(line[0][0] + line[line.length - 1][0]) / 2, (line[0][1] + line[line.length - 1][1]) / 2];
+    const d = haversine(origin, mid);
+    if (d === 0) return 0;
+    return d * Math.cos(((bearing(origin, mid) - perpBearing) * Math.PI) / 180);
+  });
+}
+
+/**
+ * Sweeps of an area as [start, end) line ranges. A sweep cut by a hole, a concave edge or a
+ * no-fly zone yields several pieces that are flown in one go; sweeps never span two passes.
+ */
+export function groupLinesIntoSweeps(area: FlightSplitArea): Array<[number, number]> {
+  const ranges = area.passes && area.passes.length > 0
+    ? area.passes.map((pass) => [pass.lineStart, pass.lineEnd])
+    : [[0, area.flightLines.length]];
+  return ranges.flatMap(([start, end]) =>
+    groupSweepLines(area.flightLines.slice(start, end), area.lineSpacingM)
+      .map(([sweepStart, sweepEnd]): [number, number] => [start + sweepStart, start + sweepEnd]));
+}
+
+/**
+ * Greedy endurance split: sweeps are flown in area order and across-track order, entering each
+ * sweep at the end closest to the aircraft. A sweep (all of its pieces) is added to the current
+ * flight only if the flight can still return home within both the time limit and the usable
+ * battery energy; otherwise the flight is closed and a new one starts from home. Flights never
+ * end part-way along a sweep, so the areas they cover do not overlap. Altitude changes are
+ * ignored, so budgets should keep some margin for climbs. A missing or invalid time limit
+ * falls back to the aircraft's endurance.
+ */
+export function splitFlightsByEndurance(
+  areas: FlightSplitArea[],
+  options: FlightSplitOptions,
+): PlannedFlight[] {
+  const { home, aircraft: model, wind } = options;
+  const maxTimeSec = Number.isFinite(options.maxFlightTimeSec) && options.maxFlightTimeSec > 0
+    ? options.maxFlightTimeSec
+    : enduranceSec(model);
+  const maxEnergyWh = usableBatteryWh(model);
+  const flights: PlannedFlight[] = [];
+  let current = emptyFlight(home);
+
+  const closeFlight = (overBudget: boolean) => {
+    if (current.lines.length === 0) return;
+    const back = straightLeg(current.position, home, model, wind, model.cruiseSpeedMps);
+    flights.push({
+      index: flights.length,
+      segments: current.segments,
+      lines: current.lines,
+      lineCount: current.lines.length,
+      distanceM: current.distanceM + back.distanceM,
+      timeSec: current.timeSec + back.timeSec,
+      energyWh: current.energyWh + back.energyWh,
+      overBudget,
+    });
+    current = emptyFlight(home);
+  };
+
+  // Cost of appending one sweep to `state`: the approach (turn or transit), its pieces in
+  // flown order and the hops between them
+  const sweepCost = (state: FlightState, area: FlightSplitArea, sweepStart: number, sweepEnd: number) => {
+    const pieces = area.flightLines.slice(sweepStart, sweepEnd);
+    const first = pieces[0][0];
+    const lastPiece = pieces[pieces.length - 1];
+    const reversed = haversine(state.position, lastPiece[lastPiece.length - 1]) < haversine(state.position, first);
+    const orientedLines = reversed ? pieces.map((piece) => [...piece].reverse()).reverse() : pieces;
+    const airspeedMps = area.airspeedMps ?? model.cruiseSpeedMps;
+    const isAdjacentSweep = state.lastPolygonId === area.polygonId && state.lastSweepEnd === sweepStart
+      && passAt(area, sweepStart - 1) === passAt(area, sweepStart);
+    const entry = orientedLines[0][0];
+    const approach = isAdjacentSweep
+      ? {
+          distanceM: Math.PI * model.turnRadiusM,
+          timeSec: turnTimeSec(model, airspeedMps),
+          energyWh: (turnTimeSec(model, airspeedMps) * model.cruisePowerW) / 3600,
+        }
+      : straightLeg(state.position, entry, model, wind, model.cruiseSpeedMps);
+    let distanceM = approach.distanceM;
+    let timeSec = approach.timeSec;
+    let energyWh = approach.energyWh;
+    let position = entry;
+    for (const line of orientedLines) {
+      const start = line[0];
+      const end = line[line.length - 1];
+      const hop = straightLeg(position, start, model, wind, airspeedMps);
+      const sweep = straightLeg(start, end, model, wind, airspeedMps);
+      distanceM += hop.distanceM + sweep.distanceM;
+      timeSec += hop.timeSec + sweep.timeSec;
+      energyWh += hop.energyWh + sweep.energyWh;
+      position = end;
+    }
+    const back = straightLeg(position, home, model, wind, model.cruiseSpeedMps);
+    return {
+      orientedLines,
+      exit: position,
+      distanceM,
+      timeSec,
+      energyWh,
+      returnTimeSec: back.timeSec,
+      returnEnergyWh: back.energyWh,
+    };
+  };
+
+  for (const area of areas) {
+    for (const [sweepStart, sweepEnd] of groupLinesIntoSweeps(area)) {
+      if (area.flightLines.slice(sweepStart, sweepEnd).some((line) => line.length < 2)) continue;
+      let cost = sweepCost(current, area, sweepStart, sweepEnd);
+      const fits = (c: typeof cost) =>
+        current.timeSec + c.timeSec + c.returnTimeSec <= maxTimeSec &&
+        current.energyWh + c.energyWh + c.returnEnergyWh <= maxEnergyWh;
+      if (!fits(cost) && current.lines.length > 0) {
+        closeFlight(false);
+        cost = sweepCost(current, area, sweepStart, sweepEnd);
+      }
+      const overBudget = !fits(cost);
+
+      current.timeSec += cost.timeSec;
+      current.energyWh += cost.energyWh;
+      current.distanceM += cost.distanceM;
+      current.position = cost.exit;
+      current.lines.push(...cost.orientedLines);
+      const lastSegment = current.segments[current.segments.length - 1];
+      const pass = passAt(area, sweepStart);
+      if (lastSegment && lastSegment.polygonId === area.polygonId && lastSegment.lineEnd === sweepStart && pass?.lineStart !== sweepStart) {
+        lastSegment.lineEnd = sweepEnd;
+      } else {
+        current.segments.push({
+          polygonId: area.polygonId,
+          lineStart: sweepStart,
+          lineEnd: sweepEnd,
+          bearingDeg: pass?.bearingDeg ?? area.bearingDeg,
+          rings: [],
+        });
+      }
+      current.lastPolygonId = area.polygonId;
+      current.lastSweepEnd = sweepEnd;
+
+      // A lone sweep that cannot fit still gets its own flight so the plan stays complete
+      if (overBudget) closeFlight(true);
+    }
+  }
+  closeFlight(false);
+
+  const areaById = new Map(areas.map((area) => [area.polygonId, area]));
+  for (const flight of flights) {
+    for (const segment of flight.segments) {
+      const area = areaById.get(segment.polygonId);
+      if (!area) continue;
+      if (area.corridor) {
+        const band = corridorBandForLineRange(area, segment.lineStart, segment.lineEnd);
+        if (band) {
+          segment.rings = [corridorBandRing(area.corridor, band[0], band[1])];
+          segment.corridor = corridorSection(area.corridor, band[0], band[1]);
+        }
+        continue;
+      }
+      const pass = passAt(area, segment.lineStart);
+      segment.rings = pass
+        ? clipRingToLineRange(
+            { ...area, bearingDeg: pass.bearingDeg, flightLines: area.flightLines.slice(pass.lineStart, pass.lineEnd), passes: undefined },
+            segment.lineStart - pass.lineStart,
+            segment.lineEnd - pass.lineStart,
+          )
+        : clipRingToLineRange(area, segment.lineStart, segment.lineEnd);
+    }
+  }
+  return flights;
+}
+
+// Midpoint of a line's longest edge: away from the bends, where corridor lines sit at their offset
+function longestEdgeMidpoint(line: LngLat[]): LngLat {
+  let best = 0;
+  for (let i = 1; i < line.length; i++) {
+    if (haversine(line[i - 1], line[i]) > haversine(line[best], line[best + 1])) best = i - 1;
+  }
+  const a = line[best], b = line[Math.min(best + 1, line.length - 1)];
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+}
+
+/**
+ * Cross-track strip [left, right] (m from the centerline) of a corridor covered by flight lines
+ * [lineStart, lineEnd): half a line spacing beyond the outermost of those lines, or the corridor
+ * edge when they include the outermost line on that side. Follows the centerline's bends.
+ */
+export function corridorBandForLineRange(area: FlightSplitArea, lineStart: number, lineEnd: number): [number, number] | null {
+  const corridor = area.corridor;
+  const lines = area.flightLines;
+  if (!corridor || lines.length === 0 || lineStart >= lineEnd) return null;
+  const offsets = lines.map((line) => corridorOffsetOf(corridor, longestEdgeMidpoint(line)));
+  const inRange = offsets.slice(Math.max(0, lineStart), Math.min(lines.length, lineEnd));
+  const tolerance = Math.max(1, area.lineSpacingM * 0.25);
+  const halfSpacing = area.lineSpacingM / 2;
+  const halfWidth = corridor.widthM / 2;
+  const rangeLeft = Math.max(...inRange);
+  const rangeRight = Math.min(...inRange);
+  const left = rangeLeft >= Math.max(...offsets) - tolerance ? halfWidth : Math.min(halfWidth, rangeLeft + halfSpacing);
+  const right = rangeRight <= Math.min(...offsets) + tolerance ? -halfWidth : Math.max(-halfWidth, rangeRight - halfSpacing);
+  return [left, right];
+}
+
+function closedRing(ring: LngLat[]): LngLat[] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] !== last[0] || first[1] !== last[1] ? [...ring, first] : ring;
+}
+
+// Far enough beyond the ring that a band drawn from it crosses the whole polygon
+function bandExtentM(ring: LngLat[]): number {
+  const lons = ring.map((point) => point[0]);
+  const lats = ring.map((point) => point[1]);
+  return Math.max(500, 4 * haversine([Math.min(...lons), Math.min(...lats)], [Math.max(...lons), Math.max(...lats)]));
+}
+
+// Rectangle along `bearingDeg` between across-track offsets lo and hi from origin
+function bandRectangle(origin: LngLat, bearingDeg: number, lo: number, hi: number, extendM: number): LngLat[] {
+  const perpBearing = (bearingDeg + 90) % 360;
+  const low = destination(origin, perpBearing, lo);
+  const high = destination(origin, perpBearing, hi);
+  const a = destination(low, bearingDeg, extendM);
+  const b = destination(low, (bearingDeg + 180) % 360, extendM);
+  const c = destination(high, (bearingDeg + 180) % 360, extendM);
+  const d = destination(high, bearingDeg, extendM);
+  return [a, b, c, d, a];
+}
+
+// Polygon (outer ring and holes) cut to a band; the parts as rings, outer first
+function intersectBand(ring: LngLat[], holes: LngLat[][], band: LngLat[]): LngLat[][][] {
+  try {
+    const clipped = turf.intersect(turf.polygon([closedRing(ring), ...holes.map(closedRing)]), turf.polygon([band]));
+    if (!clipped) return [];
+    const geometry = clipped.geometry;
+    if (geometry.type === "Polygon") return [geometry.coordinates as LngLat[][]];
+    if (geometry.type === "MultiPolygon") return geometry.coordinates as LngLat[][][];
+  } catch {}
+  return [];
+}
+
+/**
+ * Outer rings of hole-free pieces of an area, for area items that cannot hold holes (Wingtra).
+ * The area is cut along the sweep bearing through the middle of every hole, so each hole opens
+ * onto a cut and lines the aircraft builds inside a piece still stop at the hole.
+ */
+export function splitRingAroundHoles(ring: LngLat[], holes: LngLat[][] | undefined, bearingDeg: number): LngLat[][] {
+  const valid = (holes ?? []).filter((hole) => hole.length >= 3);
+  if (valid.length === 0) return [ring];
+  const origin = ring[0];
+  const perpBearing = (bearingDeg + 90) % 360;
+  const offsetOf = (point: LngLat) => {
+    const d = haversine(origin, point);
+    return d === 0 ? 0 : d * Math.cos(((bearing(origin, point) - perpBearing) * Math.PI) / 180);
+  };
+  const cuts = [...new Set(valid.map((hole) => {
+    const offsets = hole.map(offsetOf);
+    return (Math.min(...offsets) + Math.max(...offsets)) / 2;
+  }))].sort((a, b) => a - b);
+  const extendM = bandExtentM(ring);
+  const bounds = [-extendM, ...cuts, extendM];
+  const pieces: LngLat[][] = [];
+  for (let i = 0; i + 1 < bounds.length; i++) {
+    const band = bandRectangle(origin, bearingDeg, bounds[i], bounds[i + 1], extendM);
+    for (const [outer] of intersectBand(ring, valid, band)) pieces.push(outer);
+  }
+  return pieces;
+}
+
+/**
+ * Cut the area polygon to the band of ground covered by flight lines [lineStart, lineEnd).
+ * The band extends half a line spacing beyond the outermost of those lines across-track; a
+ * band holding the area's outermost sweep on either side reaches the polygon edge there, so
+ * bands of whole sweeps tile the whole area. Line order may run either way across-track. Parts
+ * around holes are split further (see splitRingAroundHoles), so the rings never hold holes.
+ */
+export function clipRingToLineRange(area: FlightSplitArea, lineStart: number, lineEnd: number): LngLat[][] {
+  const lines = area.flightLines;
+  if (lines.length === 0 || lineStart >= lineEnd) return [];
+  const holes = area.holes ?? [];
+  if (lineStart <= 0 && lineEnd >= lines.length) return splitRingAroundHoles(area.ring, holes, area.bearingDeg);
+
+  const offsets = acrossTrackOffsets(lines, area.bearingDeg);
+  const inRange = offsets.slice(Math.max(0, lineStart), Math.min(lines.length, lineEnd));
+  const tolerance = Math.max(1, area.lineSpacingM * 0.25);
+
+  const extendM = bandExtentM(area.ring);
+  const halfSpacing = area.lineSpacingM / 2;
+  const rangeLow = Math.min(...inRange);
+  const rangeHigh = Math.max(...inRange);
+  const lo = rangeLow <= Math.min(...offsets) + tolerance ? -extendM : rangeLow - halfSpacing;
+  const hi = rangeHigh >= Math.max(...offsets) - tolerance ? extendM : rangeHigh + halfSpacing;
+
+  const band = bandRectangle(lines[0][0], area.bearingDeg, lo, hi, extendM);
+  return intersectBand(area.ring, holes, band)
+    .flatMap(([outer, ...inner]) => splitRingAroundHoles(outer, inner, area.bearingDeg));
+}
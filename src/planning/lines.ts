@@ -5,6 +5,7 @@
 //
 
 import type { LngLat } from "@/domain/types";
+import { clipSweepLines, flattenRings } from "./clip";
 
 // Haversine and simple geodesy helpers (reuse same math as MapFlightDirection)
 const R = 6371000;
@@ -60,61 +61,48 @@ export function pointInPolygon(p: LngLat, ring: LngLat[]): boolean {
 }
 
 /**
- * Generate flight lines clipped to a polygon by sampling a long line that crosses the polygon
- * and keeping the continuous interval inside the polygon.
+ * Generate flight lines clipped exactly to a polygon. A line crossing a concavity or a hole
+ * yields one segment per inside interval, each running along the flight direction.
+ * - polygon: a single ring, or rings (outer first, then holes)
  * - bearingDeg: direction of flight (° CW from North)
  * - lineSpacingM: spacing between lines perpendicular to bearing
  */
 export function generateClippedFlightLines(
-  ring: LngLat[],
+  polygon: LngLat[] | LngLat[][],
   bearingDeg: number,
   lineSpacingM: number
 ): LngLat[][] {
-  if (!ring || ring.length < 3) return [];
-
-  // Compute a very rough bbox center and diagonal to set an "extension" length
-  let minLng = +Infinity, minLat = +Infinity, maxLng = -Infinity, maxLat = -Infinity;
-  for (const [lng, lat] of ring) {
-    if (lng < minLng) minLng = lng;
-    if (lng > maxLng) maxLng = lng;
-    if (lat < minLat) minLat = lat;
-    if (lat > maxLat) maxLat = lat;
-  }
-  const center: LngLat = [(minLng + maxLng) / 2, (minLat + maxLat) / 2];
-  const diagM = haversine([minLng, minLat], [maxLng, maxLat]);
-  const perpBearing = (bearingDeg + 90) % 360;
-
-  // We create candidate parallel lines on both sides of center
-  const n = Math.ceil((diagM * 1.2) / lineSpacingM);
-  const lines: LngLat[][] = [];
-
-  for (let i = -n; i <= n; i++) {
-    const offset = i * lineSpacingM;
-    const centerOnThisLine = destination(center, perpBearing, offset);
-
-    // Build a long segment (extend beyond bbox), then sample it and clip
-    const extend = diagM * 0.8;
-    const p1 = destination(centerOnThisLine, bearingDeg, extend);
-    const p2 = destination(centerOnThisLine, (bearingDeg + 180) % 360, extend);
+  const rings = flattenRings(polygon);
+  if (rings.length === 0 || rings[0].length < 3) return [];
+  return clipSweepLines(rings, bearingDeg, lineSpacingM).flatMap((line) => line.segments);
+}
 
-    // Uniformly sample and keep the longest continuous run inside polygon
-    const samples = 64;
-    const inPts: LngLat[] = [];
-    for (let s = 0; s <= samples; s++) {
-      const t = s / samples;
-      const pt: LngLat = [
-        p2[0] + (p1[0] - p2[0]) * t,
-        p2[1] + (p1[1] - p2[1]) * t,
-      ];
-      if (pointInPolygon(pt, ring)) inPts.push(pt);
-    }
-    if (inPts.length > 0) {
-      const first = inPts[0];
-      const last  = inPts[inPts.length - 1];
-      lines.push([first, last]);
+/**
+ * Group consecutive flight lines into sweeps: [start, end) ranges of pieces that lie on the
+ * same sweep line (one piece per inside interval of a line crossing a hole or concavity).
+ * Pieces are collinear within a quarter of the line spacing (at least 6 m) and parallel
+ * within 10°, so consecutive sweeps and the lines of different passes are never grouped.
+ */
+export function groupSweepLines(lines: LngLat[][], lineSpacingM = 0): Array<[number, number]> {
+  const tolerance = Math.max(6, lineSpacingM * 0.25);
+  const sweeps: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    if (previous && previous.length >= 2 && line.length >= 2) {
+      const previousBearing = bearing(previous[0], previous[previous.length - 1]);
+      const delta = Math.abs(((bearing(line[0], line[line.length - 1]) - previousBearing + 540) % 360) - 180);
+      const from = previous[0];
+      const to = line[0];
+      const d = haversine(from, to);
+      const crossTrack = d > 0 ? Math.abs(d * Math.sin(toRad(bearing(from, to) - previousBearing))) : 0;
+      if (Math.min(delta, 180 - delta) <= 10 && crossTrack <= tolerance) {
+        sweeps[sweeps.length - 1][1] = index + 1;
+        return;
+      }
     }
-  }
-  return lines;
+    sweeps.push([index, index + 1]);
+  });
+  return sweeps;
 }
 
 /** Sample tick points (trigger positions) along a 2‑point line at fixed spacing. */
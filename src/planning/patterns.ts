@@ -0,0 +1,71 @@
+// src/planning/patterns.ts
+//
+// Multi-pass flight patterns. Every pass is an ordinary lawnmower grid over the area:
+// "grid" flies one, "crosshatch" adds a second grid at +90°, and "oblique" flies several
+// grids spread over 180° with the camera tilted along the flight direction. Since the
+// sweeps of a grid alternate direction, a forward-tilted camera looks both ways.
+//
+
+import type { FlightParams, FlightPattern, LngLat } from "@/domain/types";
+import { haversine } from "./lines";
+
+export const DEFAULT_OBLIQUE_PASS_COUNT = 2;
+export const MAX_OBLIQUE_PASS_COUNT = 4;
+export const DEFAULT_CAMERA_PITCH_DEG = 30;
+export const MAX_CAMERA_PITCH_DEG = 60;
+
+/** Lines of one pass within the concatenated flight lines of an area. */
+export interface FlightPass {
+  bearingDeg: number;
+  lineStart: number; // inclusive
+  lineEnd: number;   // exclusive
+}
+
+type PatternParams = Pick<FlightParams, "payloadKind" | "pattern" | "obliquePassCount" | "cameraPitchDeg">;
+
+/** Pattern of an area; lidar has no oblique mode and flies it as a crosshatch. */
+export function getFlightPattern(params?: PatternParams | null): FlightPattern {
+  const pattern = params?.pattern ?? "grid";
+  if (pattern === "oblique" && (params?.payloadKind ?? "camera") === "lidar") return "crosshatch";
+  return pattern === "crosshatch" || pattern === "oblique" ? pattern : "grid";
+}
+
+export function getObliquePassCount(params?: PatternParams | null): number {
+  const count = Math.round(params?.obliquePassCount ?? DEFAULT_OBLIQUE_PASS_COUNT);
+  return Number.isFinite(count) ? Math.min(MAX_OBLIQUE_PASS_COUNT, Math.max(2, count)) : DEFAULT_OBLIQUE_PASS_COUNT;
+}
+
+/** Camera tilt off nadir along the flight direction (°); 0 unless the area flies oblique. */
+export function getCameraPitchDeg(params?: PatternParams | null): number {
+  if (getFlightPattern(params) !== "oblique") return 0;
+  const pitch = params?.cameraPitchDeg ?? DEFAULT_CAMERA_PITCH_DEG;
+  return Number.isFinite(pitch) ? Math.min(MAX_CAMERA_PITCH_DEG, Math.max(0, pitch)) : DEFAULT_CAMERA_PITCH_DEG;
+}
+
+/** Sweep bearing of every pass (° CW from North); the first pass keeps `bearingDeg`. */
+export function getPassBearings(bearingDeg: number, params?: PatternParams | null): number[] {
+  const pattern = getFlightPattern(params);
+  const count = pattern === "grid" ? 1 : pattern === "crosshatch" ? 2 : getObliquePassCount(params);
+  return Array.from({ length: count }, (_, k) => (((bearingDeg + (k * 180) / count) % 360) + 360) % 360);
+}
+
+/**
+ * Concatenate the lines of several passes into one flyable list. Each pass after the first
+ * is reversed when that lets it start next to where the previous pass ended.
+ */
+export function joinPasses(passLines: LngLat[][][], bearingsDeg: number[]): { flightLines: LngLat[][]; passes: FlightPass[] } {
+  const flightLines: LngLat[][] = [];
+  const passes: FlightPass[] = [];
+  passLines.forEach((lines, k) => {
+    let ordered = lines;
+    const previous = flightLines[flightLines.length - 1];
+    if (previous && lines.length > 1) {
+      const ends = [previous[0], previous[previous.length - 1]];
+      const gap = (line: LngLat[]) => Math.min(...ends.flatMap((end) => [haversine(end, line[0]), haversine(end, line[line.length - 1])]));
+      if (gap(lines[lines.length - 1]) < gap(lines[0])) ordered = [...lines].reverse();
+    }
+    passes.push({ bearingDeg: bearingsDeg[k], lineStart: flightLines.length, lineEnd: flightLines.length + ordered.length });
+    flightLines.push(...ordered);
+  });
+  return { flightLines, passes };
+}
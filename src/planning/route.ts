@@ -0,0 +1,264 @@
+// src/planning/route.ts
+//
+// Mission routing between areas: visiting order from a home point (TSP over each
+// area's possible entry/exit points) and terrain-safe transit legs.
+//
+
+import type { AircraftModel, LngLat, WindVector } from "@/domain/types";
+import { estimateLegPerformance } from "@/domain/aircraft";
+import { bearing, groupSweepLines, haversine } from "./lines";
+
+export interface RouteArea {
+  polygonId: string;
+  flightLines: LngLat[][];    // ordered across-track
+  lineSpacingM?: number;      // groups the pieces of a sweep cut by holes or concave edges
+}
+
+export interface RouteAreaVisit {
+  polygonId: string;
+  entry: LngLat;
+  exit: LngLat;
+  /** Fly the lines last-to-first. */
+  reverseLineOrder: boolean;
+  /** Enter the first flown line at its end point rather than its start point. */
+  reverseFirstLine: boolean;
+}
+
+export type Point3D = [number, number, number];
+
+export interface TransitLeg {
+  from: Point3D;
+  to: Point3D;
+  /** Climb-out, level cruise and descent as a 3D polyline. */
+  path: Point3D[];
+  safeAltitude: number;
+  distanceM: number;
+  timeSec: number;
+  energyWh: number;
+}
+
+export interface MissionRoute {
+  visits: RouteAreaVisit[];
+  legs: TransitLeg[];
+  transitDistanceM: number;
+  transitTimeSec: number;
+  transitEnergyWh: number;
+  /** False when no terrain was available along the transits, so legs only keep endpoint altitudes. */
+  terrainChecked: boolean;
+}
+
+// Exact Held–Karp ordering up to this many areas, nearest-neighbour beyond
+const EXACT_ORDER_MAX_AREAS = 9;
+
+/**
+ * The four ways to fly a lawnmower: start at the first or last sweep, entering it at either
+ * end. Sweeps alternate direction, so the exit follows from the sweep count parity. A sweep
+ * may hold several pieces (around a hole or a concavity); it is entered at the outer end of
+ * its first piece and left at the outer end of its last.
+ */
+export function areaEntryExitOptions(area: RouteArea): RouteAreaVisit[] {
+  const lines = area.flightLines.filter((line) => line.length >= 2);
+  const sweeps = groupSweepLines(lines, area.lineSpacingM).map(([start, end]) => lines.slice(start, end));
+  if (sweeps.length === 0) return [];
+  // Outer ends of a sweep flown forward or reversed
+  const startOf = (sweep: LngLat[][], reversed: boolean) => reversed ? sweep[sweep.length - 1][sweep[sweep.length - 1].length - 1] : sweep[0][0];
+  const endOf = (sweep: LngLat[][], reversed: boolean) => reversed ? sweep[0][0] : sweep[sweep.length - 1][sweep[sweep.length - 1].length - 1];
+  const options: RouteAreaVisit[] = [];
+  const evenCount = sweeps.length % 2 === 0;
+  for (const reverseLineOrder of [false, true]) {
+    const first = reverseLineOrder ? sweeps[sweeps.length - 1] : sweeps[0];
+    const last = reverseLineOrder ? sweeps[0] : sweeps[sweeps.length - 1];
+    for (const reverseFirstLine of [false, true]) {
+      const entry = startOf(first, reverseFirstLine);
+      // Last sweep is flown in the same direction as the first when the count is odd
+      const lastReversed = evenCount ? !reverseFirstLine : reverseFirstLine;
+      const exit = endOf(last, lastReversed);
+      options.push({ polygonId: area.polygonId, entry, exit, reverseLineOrder, reverseFirstLine });
+    }
+  }
+  return options;
+}
+
+/**
+ * Order areas and choose how each is entered so that the home → areas → home loop has the
+ * least straight-line transit distance.
+ */
+export function orderAreasForRoute(areas: RouteArea[], home: LngLat): RouteAreaVisit[] {
+  const options = areas.map(areaEntryExitOptions).filter((opts) => opts.length > 0);
+  const n = options.length;
+  if (n === 0) return [];
+  if (n > EXACT_ORDER_MAX_AREAS) return nearestNeighbourOrder(options, home);
+
+  const variants = options.map((opts) => opts.length);
+  const full = (1 << n) - 1;
+  // dp[mask][i][v]: shortest path from home covering `mask`, ending at area i flown with variant v
+  const dp: number[][][] = Array.from({ length: 1 << n }, () =>
+    options.map((opts) => opts.map(() => Number.POSITIVE_INFINITY)),
+  );
+  const parent: Array<Array<Array<[number, number] | null>>> = Array.from({ length: 1 << n }, () =>
+    options.map((opts) => opts.map(() => null)),
+  );
+  for (let i = 0; i < n; i++) {
+    for (let v = 0; v < variants[i]; v++) {
+      dp[1 << i][i][v] = haversine(home, options[i][v].entry);
+    }
+  }
+  for (let mask = 1; mask <= full; mask++) {
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      for (let v = 0; v < variants[i]; v++) {
+        const base = dp[mask][i][v];
+        if (!Number.isFinite(base)) continue;
+        const exit = options[i][v].exit;
+        for (let j = 0; j < n; j++) {
+          if (mask & (1 << j)) continue;
+          const nextMask = mask | (1 << j);
+          for (let w = 0; w < variants[j]; w++) {
+            const cost = base + haversine(exit, options[j][w].entry);
+            if (cost < dp[nextMask][j][w]) {
+              dp[nextMask][j][w] = cost;
+              parent[nextMask][j][w] = [i, v];
+            }
+          }
+        }
+      }
+    }
+  }
+
+  let best = Number.POSITIVE_INFINITY;
+  let end: [number, number] | null = null;
+  for (let i = 0; i < n; i++) {
+    for (let v = 0; v < variants[i]; v++) {
+      const cost = dp[full][i][v] + haversine(options[i][v].exit, home);
+      if (cost < best) {
+        best = cost;
+        end = [i, v];
+      }
+    }
+  }
+
+  const order: RouteAreaVisit[] = [];
+  let mask = full;
+  let cursor = end;
+  while (cursor) {
+    const [i, v] = cursor;
+    order.push(options[i][v]);
+    const previous = parent[mask][i][v];
+    mask &= ~(1 << i);
+    cursor = previous;
+  }
+  return order.reverse();
+}
+
+function nearestNeighbourOrder(options: RouteAreaVisit[][], home: LngLat): RouteAreaVisit[] {
+  const remaining = new Set(options.map((_, index) => index));
+  const order: RouteAreaVisit[] = [];
+  let position = home;
+  while (remaining.size > 0) {
+    let best: RouteAreaVisit | null = null;
+    let bestIndex = -1;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    remaining.forEach((index) => {
+      for (const option of options[index]) {
+        const distance = haversine(position, option.entry);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = option;
+          bestIndex = index;
+        }
+      }
+    });
+    if (!best) break;
+    order.push(best);
+    remaining.delete(bestIndex);
+    position = (best as RouteAreaVisit).exit;
+  }
+  return order;
+}
+
+/**
+ * Flight lines of an area in the order and direction given by its visit. Sweeps alternate
+ * direction; the pieces of a sweep keep their direction and are flown one after the other.
+ */
+export function orientAreaLines(
+  lines: LngLat[][],
+  visit: Pick<RouteAreaVisit, "reverseLineOrder" | "reverseFirstLine">,
+  lineSpacingM?: number,
+): LngLat[][] {
+  const sweeps = groupSweepLines(lines, lineSpacingM).map(([start, end]) => lines.slice(start, end));
+  const ordered = visit.reverseLineOrder ? sweeps.reverse() : sweeps;
+  return ordered.flatMap((sweep, index) => {
+    const reversed = index % 2 === 0 ? visit.reverseFirstLine : !visit.reverseFirstLine;
+    return reversed ? sweep.map((line) => [...line].reverse()).reverse() : sweep;
+  });
+}
+
+/**
+ * Terrain-safe transit: climb (spiralling) over the departure point to `maxTerrainAlongM +
+ * clearanceM`, cruise level, and descend over the destination. Conservative, but never lower
+ * than the clearance anywhere along the straight track.
+ */
+export function buildTransitLeg(
+  from: Point3D,
+  to: Point3D,
+  maxTerrainAlongM: number,
+  clearanceM: number,
+  model: AircraftModel,
+  wind?: WindVector | null,
+): TransitLeg {
+  const terrainFloor = Number.isFinite(maxTerrainAlongM) ? maxTerrainAlongM + Math.max(0, clearanceM) : Number.NEGATIVE_INFINITY;
+  const safeAltitude = Math.max(from[2], to[2], terrainFloor);
+  const path: Point3D[] = [from, [from[0], from[1], safeAltitude], [to[0], to[1], safeAltitude], to];
+  const distanceM = haversine([from[0], from[1]], [to[0], to[1]]);
+  const climb = estimateLegPerformance(model, 0, 0, safeAltitude - from[2]);
+  const cruise = distanceM > 0
+    ? estimateLegPerformance(model, distanceM, bearing([from[0], from[1]], [to[0], to[1]]), 0, wind)
+    : { timeSec: 0, energyWh: 0 };
+  const descent = estimateLegPerformance(model, 0, 0, to[2] - safeAltitude);
+  return {
+    from,
+    to,
+    path,
+    safeAltitude,
+    distanceM,
+    timeSec: climb.timeSec + cruise.timeSec + descent.timeSec,
+    energyWh: climb.energyWh + cruise.energyWh + descent.energyWh,
+  };
+}
+
+/**
+ * Chain transit legs home → visits → home. `areaAltitude` gives the altitude the survey
+ * starts/ends at for a visit; `maxTerrainAlong` returns the highest terrain (same datum)
+ * along a straight track, or -Infinity when unknown.
+ */
+export function buildMissionRoute(
+  visits: RouteAreaVisit[],
+  home: Point3D,
+  areaAltitude: (visit: RouteAreaVisit, point: LngLat) => number,
+  maxTerrainAlong: (from: LngLat, to: LngLat) => number,
+  clearanceM: number,
+  model: AircraftModel,
+  wind?: WindVector | null,
+): MissionRoute {
+  const legs: TransitLeg[] = [];
+  let terrainChecked = visits.length > 0;
+  let position: Point3D = home;
+  const addLeg = (to: Point3D) => {
+    const maxTerrain = maxTerrainAlong([position[0], position[1]], [to[0], to[1]]);
+    if (!Number.isFinite(maxTerrain)) terrainChecked = false;
+    legs.push(buildTransitLeg(position, to, maxTerrain, clearanceM, model, wind));
+  };
+  for (const visit of visits) {
+    addLeg([visit.entry[0], visit.entry[1], areaAltitude(visit, visit.entry)]);
+    position = [visit.exit[0], visit.exit[1], areaAltitude(visit, visit.exit)];
+  }
+  if (visits.length > 0) addLeg(home);
+  return {
+    visits,
+    legs,
+    transitDistanceM: legs.reduce((sum, leg) => sum + leg.distanceM, 0),
+    transitTimeSec: legs.reduce((sum, leg) => sum + leg.timeSec, 0),
+    transitEnergyWh: legs.reduce((sum, leg) => sum + leg.energyWh, 0),
+    terrainChecked,
+  };
+}
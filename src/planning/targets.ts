@@ -0,0 +1,170 @@
+// src/planning/targets.ts
+//
+// Deliverable-driven parameters: given a target GSD or lidar point density, solve the
+// altitude (and for lidar, speed and side overlap) so that the chosen percentile of the
+// area meets the target once terrain relief and the altitude mode are taken into account.
+//
+
+import type { CameraModel, FlightParams, LidarModel } from "@/domain/types";
+import { calculateGSD } from "@/domain/camera";
+import { getLidarMappingFovDeg, lidarDeliverableDensity } from "@/domain/lidar";
+
+export const DEFAULT_TARGET_PERCENTILE = 90;
+
+export interface TargetLimits {
+  minAltitudeAGL: number;
+  maxAltitudeAGL: number;
+  /** Lidar: slowest speed the solver may fall back to when altitude alone is not enough. */
+  minSpeedMps: number;
+  /** Lidar: highest side overlap (%) the solver may fall back to. */
+  maxSideOverlapPct: number;
+}
+
+export const DEFAULT_TARGET_LIMITS: TargetLimits = {
+  minAltitudeAGL: 40,
+  maxAltitudeAGL: 400,
+  minSpeedMps: 8,
+  maxSideOverlapPct: 80,
+};
+
+/**
+ * Sensor height above the ground (m) at sample points of the flown sweep lines for a
+ * commanded altitude AGL. Must grow with the altitude (it does for every altitude mode).
+ */
+export type HeightSampler = (altitudeAGL: number) => number[];
+
+export interface TargetSolution {
+  params: FlightParams;
+  /** Height above ground at the target percentile with the solved parameters. */
+  heightAtPercentileM: number;
+  /** GSD (m/px) or deliverable density (pts/m²) reached at the target percentile. */
+  achieved: number;
+  /** False when even the most conservative parameters within the limits miss the target. */
+  feasible: boolean;
+}
+
+export function hasTarget(params: FlightParams): boolean {
+  return (params.payloadKind ?? "camera") === "lidar"
+    ? (params.targetDensityPtsM2 ?? 0) > 0
+    : (params.targetGsdM ?? 0) > 0;
+}
+
+/** p-th percentile (0–100) with linear interpolation; NaN for no values. */
+export function percentile(values: number[], p: number): number {
+  const finite = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (finite.length === 0) return NaN;
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (finite.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return finite[lo] + (finite[hi] - finite[lo]) * (rank - lo);
+}
+
+/** Highest sensor height above ground that still resolves `targetGsdM`. */
+export function maxHeightForGsd(camera: CameraModel, targetGsdM: number): number {
+  return targetGsdM / calculateGSD(camera, 1);
+}
+
+/** Highest sensor height above ground that still delivers `targetDensity` (density ∝ 1 / height). */
+export function maxHeightForDensity(model: LidarModel, params: FlightParams, targetDensity: number): number {
+  const densityAt1m = lidarDeliverableDensity(
+    model,
+    1,
+    params.sideOverlap,
+    params.speedMps ?? model.defaultSpeedMps,
+    params.lidarReturnMode ?? "single",
+    getLidarMappingFovDeg(model, params.mappingFovDeg),
+  );
+  return densityAt1m / targetDensity;
+}
+
+/**
+ * Highest altitude AGL within [min, max] whose percentile height stays at or below
+ * `maxHeightM` (bisection; heights grow monotonically with altitude).
+ */
+export function solveAltitudeForMaxHeight(
+  heightsAt: HeightSampler,
+  maxHeightM: number,
+  targetPercentile: number,
+  limits: Pick<TargetLimits, "minAltitudeAGL" | "maxAltitudeAGL">,
+  toleranceM = 0.25,
+): { altitudeAGL: number; heightAtPercentileM: number; feasible: boolean } {
+  const heightAt = (altitudeAGL: number) => {
+    const h = percentile(heightsAt(altitudeAGL), targetPercentile);
+    return Number.isFinite(h) ? h : altitudeAGL; // no terrain samples: flat ground
+  };
+  let lo = limits.minAltitudeAGL;
+  let hi = limits.maxAltitudeAGL;
+  const atMin = heightAt(lo);
+  if (atMin > maxHeightM) return { altitudeAGL: lo, heightAtPercentileM: atMin, feasible: false };
+  const atMax = heightAt(hi);
+  if (atMax <= maxHeightM) return { altitudeAGL: hi, heightAtPercentileM: atMax, feasible: true };
+  let best = { altitudeAGL: lo, heightAtPercentileM: atMin };
+  while (hi - lo > toleranceM) {
+    const mid = (lo + hi) / 2;
+    const h = heightAt(mid);
+    if (h <= maxHeightM) {
+      best = { altitudeAGL: mid, heightAtPercentileM: h };
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return { ...best, feasible: true };
+}
+
+/**
+ * Solve the parameters for the target set on `params` (targetGsdM for cameras,
+ * targetDensityPtsM2 for lidar). Cameras only change altitude. Lidar first lowers the
+ * altitude; at the lowest altitude it slows down and then raises side overlap.
+ */
+export function solveTargetParams(
+  params: FlightParams,
+  sensor: { camera: CameraModel } | { lidar: LidarModel },
+  heightsAt: HeightSampler,
+  limits: TargetLimits = DEFAULT_TARGET_LIMITS,
+): TargetSolution {
+  const p = params.targetPercentile ?? DEFAULT_TARGET_PERCENTILE;
+
+  if ("camera" in sensor) {
+    const target = params.targetGsdM ?? 0;
+    const solved = solveAltitudeForMaxHeight(heightsAt, maxHeightForGsd(sensor.camera, target), p, limits);
+    const altitudeAGL = Math.floor(solved.altitudeAGL * 10) / 10;
+    return {
+      params: { ...params, altitudeAGL },
+      heightAtPercentileM: solved.heightAtPercentileM,
+      achieved: calculateGSD(sensor.camera, solved.heightAtPercentileM),
+      feasible: solved.feasible,
+    };
+  }
+
+  const model = sensor.lidar;
+  const target = params.targetDensityPtsM2 ?? 0;
+  const densityAt = (candidate: FlightParams, heightM: number) => lidarDeliverableDensity(
+    model,
+    heightM,
+    candidate.sideOverlap,
+    candidate.speedMps ?? model.defaultSpeedMps,
+    candidate.lidarReturnMode ?? "single",
+    getLidarMappingFovDeg(model, candidate.mappingFovDeg),
+  );
+
+  let next: FlightParams = { ...params, speedMps: params.speedMps ?? model.defaultSpeedMps };
+  const solved = solveAltitudeForMaxHeight(heightsAt, maxHeightForDensity(model, next, target), p, limits);
+  next = { ...next, altitudeAGL: Math.floor(solved.altitudeAGL * 10) / 10 };
+  const heightM = solved.heightAtPercentileM;
+  if (solved.feasible) {
+    return { params: next, heightAtPercentileM: heightM, achieved: densityAt(next, heightM), feasible: true };
+  }
+
+  // Lowest altitude is still too high: fly slower (density ∝ 1 / speed) …
+  const speed = next.speedMps! * densityAt(next, heightM) / target;
+  next = { ...next, speedMps: Math.max(limits.minSpeedMps, Math.floor(Math.min(next.speedMps!, speed) * 10) / 10) };
+  // … then add overlap (density ∝ 1 / (1 - overlap))
+  if (densityAt(next, heightM) < target) {
+    const singlePass = densityAt({ ...next, sideOverlap: 0 }, heightM);
+    const overlap = Math.ceil(100 * (1 - singlePass / target));
+    next = { ...next, sideOverlap: Math.max(next.sideOverlap, Math.min(limits.maxSideOverlapPct, overlap)) };
+  }
+  const achieved = densityAt(next, heightM);
+  return { params: next, heightAtPercentileM: heightM, achieved, feasible: achieved >= target * 0.999 };
+}
@@ -0,0 +1,56 @@
+// src/services/payloadStore.ts
+//
+// Browser persistence for user-defined cameras and lidars (localStorage). The registry
+// itself lives in domain/payloads; this loads it on startup and writes it back on change.
+//
+
+import { getCustomPayloads, normalizeCustomPayloads, setCustomPayloads, type CustomPayloads } from '@/domain/payloads';
+
+const STORAGE_KEY = 'flight-plan-analyser.custom-payloads';
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null; // access can throw when storage is disabled
+  }
+}
+
+/** Load stored custom sensors into the registry; unreadable data is ignored. */
+export function loadCustomPayloads(): CustomPayloads {
+  const storage = getStorage();
+  const raw = storage?.getItem(STORAGE_KEY);
+  if (raw) {
+    try {
+      setCustomPayloads(normalizeCustomPayloads(JSON.parse(raw)));
+    } catch (error) {
+      console.warn('[payloads] ignoring unreadable custom sensors', error);
+    }
+  }
+  return getCustomPayloads();
+}
+
+/** Update the registry and persist it. */
+export function saveCustomPayloads(next: CustomPayloads): void {
+  setCustomPayloads(next);
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(getCustomPayloads()));
+  } catch (error) {
+    console.warn('[payloads] failed to store custom sensors', error);
+  }
+}
+
+/**
+ * Register sensors that came with a project. Keys already known here are kept as they are;
+ * the rest are added and persisted.
+ */
+export function importCustomPayloads(incoming: CustomPayloads): void {
+  const current = getCustomPayloads();
+  const known = new Set([...current.cameras, ...current.lidars].map((entry) => entry.key));
+  const cameras = incoming.cameras.filter((camera) => !known.has(camera.key));
+  const lidars = incoming.lidars.filter((lidar) => !known.has(lidar.key));
+  if (cameras.length === 0 && lidars.length === 0) return;
+  saveCustomPayloads({ cameras: [...current.cameras, ...cameras], lidars: [...current.lidars, ...lidars] });
+}
@@ -0,0 +1,244 @@
+// src/services/projectDocument.ts
+//
+// Versioned project document: the full planning state of a session (areas, per-area
+// parameters, direction overrides, global settings, no-fly zones and the custom sensors the
+// areas use). Documents from
+// older schema versions are migrated forward on load.
+//
+
+import type { BearingOverride } from '@/components/MapFlightDirection/api';
+import type { PolygonParams } from '@/components/MapFlightDirection/types';
+import { DEFAULT_MAX_TERRAIN_GRADIENT_PCT } from '@/components/MapFlightDirection/utils/geometry';
+import { CALM_WIND, DEFAULT_AIRCRAFT } from '@/domain/aircraft';
+import { getCustomPayloads, normalizeCustomPayloads, type CustomPayloads } from '@/domain/payloads';
+import type { AirspaceZone, AltitudeMode, CorridorSpec, WindVector } from '@/domain/types';
+import { normalizeCorridorSpec } from '@/planning/corridor';
+
+export const PROJECT_FORMAT = 'flight-plan-analyser.project';
+export const PROJECT_SCHEMA_VERSION = 1;
+
+export interface ProjectPolygon {
+  id: string;
+  name?: string;
+  /** Where the area came from ('kml', 'wingtra', 'partition', …); drawn areas have none. */
+  source?: string;
+  /** Corridor areas: the ring is this centerline buffered to the corridor width. */
+  corridor?: CorridorSpec;
+  ring: [number, number][];
+  holes?: [number, number][][];
+}
+
+export interface ProjectSettings {
+  altitudeMode: AltitudeMode;
+  minClearanceM: number;
+  turnExtendM: number;
+  maxTerrainGradientPct: number;
+  aircraftKey: string;
+  wind: WindVector;
+  homePoint: [number, number] | null;
+  maxFlightMinutes: number;
+  transitClearanceM: number;
+  avoidAirspace: boolean;
+}
+
+/**
+ * Everything needed to rebuild a plan. Terrain analyses, tiles and flight lines are derived
+ * and recomputed on load; applied terrain partitions persist as their regions plus the
+ * 'partition' bearing overrides.
+ */
+export interface ProjectState {
+  polygons: ProjectPolygon[];
+  paramsByPolygon: Record<string, PolygonParams>;
+  bearingOverrides: Record<string, BearingOverride>;
+  importedOriginals: Record<string, { bearingDeg: number; lineSpacingM: number }>;
+  settings: ProjectSettings;
+  airspaceZones: AirspaceZone[];
+  /** Custom cameras and lidars referenced by the areas, so the project opens in another browser. */
+  customPayloads?: CustomPayloads;
+}
+
+export interface ProjectDocument extends ProjectState {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+/** Identity of the open project; the rest of the document is the planning state. */
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/** Project list entry (what the project store keeps next to each document). */
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  polygonCount: number;
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  altitudeMode: 'legacy',
+  minClearanceM: 60,
+  turnExtendM: 96,
+  maxTerrainGradientPct: DEFAULT_MAX_TERRAIN_GRADIENT_PCT,
+  aircraftKey: DEFAULT_AIRCRAFT.key,
+  wind: CALM_WIND,
+  homePoint: null,
+  maxFlightMinutes: 40,
+  transitClearanceM: 80,
+  avoidAirspace: false,
+};
+
+// Upgrades a raw document from version n to n + 1. Add an entry whenever
+// PROJECT_SCHEMA_VERSION is bumped; never edit an existing one.
+const MIGRATIONS: Record<number, (doc: Record<string, any>) => Record<string, any>> = {};
+
+export function createProjectId(): string {
+  const random = typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+  return `project-${random}`;
+}
+
+export function createProjectDocument(
+  state: ProjectState,
+  meta: Partial<ProjectMeta> = {},
+  now: Date = new Date(),
+): ProjectDocument {
+  const timestamp = now.toISOString();
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    id: meta.id ?? createProjectId(),
+    name: meta.name?.trim() || 'Untitled project',
+    createdAt: meta.createdAt ?? timestamp,
+    updatedAt: timestamp,
+    polygons: state.polygons,
+    paramsByPolygon: state.paramsByPolygon,
+    bearingOverrides: state.bearingOverrides,
+    importedOriginals: state.importedOriginals,
+    settings: state.settings,
+    airspaceZones: state.airspaceZones,
+    ...(state.customPayloads ? { customPayloads: state.customPayloads } : {}),
+  };
+}
+
+/** The registered custom sensors that the given area parameters refer to. */
+export function referencedCustomPayloads(paramsByPolygon: Record<string, PolygonParams>): CustomPayloads {
+  const keys = new Set(Object.values(paramsByPolygon).flatMap((params) => [params.cameraKey, params.lidarKey]));
+  const { cameras, lidars } = getCustomPayloads();
+  return {
+    cameras: cameras.filter((camera) => keys.has(camera.key)),
+    lidars: lidars.filter((lidar) => keys.has(lidar.key)),
+  };
+}
+
+export function summarizeProject(doc: ProjectDocument): ProjectSummary {
+  return { id: doc.id, name: doc.name, updatedAt: doc.updatedAt, polygonCount: doc.polygons.length };
+}
+
+function isRing(value: unknown): value is [number, number][] {
+  return Array.isArray(value)
+    && value.length >= 4
+    && value.every((point) => Array.isArray(point) && Number.isFinite(point[0]) && Number.isFinite(point[1]));
+}
+
+function asRecord<T>(value: unknown): Record<string, T> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, T>) : {};
+}
+
+function normalizeSettings(raw: unknown): ProjectSettings {
+  const settings = asRecord<any>(raw);
+  const number = (key: keyof ProjectSettings) =>
+    (Number.isFinite(settings[key]) ? settings[key] : DEFAULT_PROJECT_SETTINGS[key]) as number;
+  const wind = asRecord<any>(settings.wind);
+  return {
+    altitudeMode: ['legacy', 'min-clearance', 'terrain-following'].includes(settings.altitudeMode)
+      ? settings.altitudeMode
+      : DEFAULT_PROJECT_SETTINGS.altitudeMode,
+    minClearanceM: number('minClearanceM'),
+    turnExtendM: number('turnExtendM'),
+    maxTerrainGradientPct: number('maxTerrainGradientPct'),
+    aircraftKey: typeof settings.aircraftKey === 'string' ? settings.aircraftKey : DEFAULT_PROJECT_SETTINGS.aircraftKey,
+    wind: Number.isFinite(wind.speedMps) && Number.isFinite(wind.fromDeg)
+      ? { speedMps: wind.speedMps, fromDeg: wind.fromDeg }
+      : DEFAULT_PROJECT_SETTINGS.wind,
+    homePoint: Array.isArray(settings.homePoint) && Number.isFinite(settings.homePoint[0]) && Number.isFinite(settings.homePoint[1])
+      ? [settings.homePoint[0], settings.homePoint[1]]
+      : null,
+    maxFlightMinutes: number('maxFlightMinutes'),
+    transitClearanceM: number('transitClearanceM'),
+    avoidAirspace: settings.avoidAirspace === true,
+  };
+}
+
+/**
+ * Validate a parsed project file, migrate it to the current schema and fill defaults for
+ * anything missing. Throws on files that are not projects or come from a newer version.
+ */
+export function migrateProjectDocument(raw: unknown): ProjectDocument {
+  let doc = asRecord<any>(raw);
+  if (doc.format !== PROJECT_FORMAT) throw new Error('Not a project file');
+  let version = Number(doc.version);
+  if (!Number.isInteger(version) || version < 1) throw new Error('Project file has no valid schema version');
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project was saved by a newer version of the app (schema ${version}, supported ${PROJECT_SCHEMA_VERSION})`);
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project schema ${version}`);
+    doc = migrate(doc);
+    version += 1;
+  }
+
+  const polygons: ProjectPolygon[] = (Array.isArray(doc.polygons) ? doc.polygons : [])
+    .filter((polygon: any) => typeof polygon?.id === 'string' && isRing(polygon.ring))
+    .map((polygon: any) => {
+      const holes = Array.isArray(polygon.holes) ? polygon.holes.filter(isRing) : [];
+      const corridor = normalizeCorridorSpec(polygon.corridor);
+      return {
+        id: polygon.id,
+        ...(typeof polygon.name === 'string' ? { name: polygon.name } : {}),
+        ...(typeof polygon.source === 'string' ? { source: polygon.source } : {}),
+        ...(corridor ? { corridor } : {}),
+        ring: polygon.ring,
+        ...(holes.length > 0 ? { holes } : {}),
+      };
+    });
+  const now = new Date().toISOString();
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    id: typeof doc.id === 'string' && doc.id ? doc.id : createProjectId(),
+    name: typeof doc.name === 'string' && doc.name.trim() ? doc.name : 'Untitled project',
+    createdAt: typeof doc.createdAt === 'string' ? doc.createdAt : now,
+    updatedAt: typeof doc.updatedAt === 'string' ? doc.updatedAt : now,
+    polygons,
+    paramsByPolygon: asRecord<PolygonParams>(doc.paramsByPolygon),
+    bearingOverrides: asRecord<BearingOverride>(doc.bearingOverrides),
+    importedOriginals: asRecord<{ bearingDeg: number; lineSpacingM: number }>(doc.importedOriginals),
+    settings: normalizeSettings(doc.settings),
+    airspaceZones: (Array.isArray(doc.airspaceZones) ? doc.airspaceZones : [])
+      .filter((zone: any) => typeof zone?.id === 'string' && isRing(zone.ring)),
+    ...(doc.customPayloads ? { customPayloads: normalizeCustomPayloads(doc.customPayloads) } : {}),
+  };
+}
+
+export function serializeProject(doc: ProjectDocument): string {
+  return JSON.stringify(doc, null, 2);
+}
+
+export function parseProjectFile(text: string): ProjectDocument {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+  return migrateProjectDocument(parsed);
+}
@@ -0,0 +1,85 @@
+// src/services/projectStore.ts
+//
+// Browser persistence for project documents (IndexedDB): the project list, autosave
+// and which project to reopen after a reload.
+//
+
+import { migrateProjectDocument, summarizeProject, type ProjectDocument, type ProjectSummary } from './projectDocument';
+
+const DB_NAME = 'flight-plan-analyser';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const META_STORE = 'meta';
+const LAST_PROJECT_KEY = 'lastProjectId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isProjectStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isProjectStoreAvailable()) return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open project database'));
+    });
+    // Allow a retry after a failed open (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error ?? new Error('Project database request failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Project database request aborted'));
+  });
+}
+
+export async function saveProject(doc: ProjectDocument): Promise<void> {
+  await run(PROJECTS_STORE, 'readwrite', (store) => store.put(doc));
+  await run(META_STORE, 'readwrite', (store) => store.put(doc.id, LAST_PROJECT_KEY));
+}
+
+/** Load and migrate a stored project; null when it does not exist. */
+export async function loadProject(id: string): Promise<ProjectDocument | null> {
+  const raw = await run<unknown>(PROJECTS_STORE, 'readonly', (store) => store.get(id));
+  return raw ? migrateProjectDocument(raw) : null;
+}
+
+/** Stored projects, most recently updated first. Unreadable entries are skipped. */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const all = await run<unknown[]>(PROJECTS_STORE, 'readonly', (store) => store.getAll());
+  const summaries: ProjectSummary[] = [];
+  for (const raw of all) {
+    try {
+      summaries.push(summarizeProject(migrateProjectDocument(raw)));
+    } catch (error) {
+      console.warn('[projects] skipping unreadable stored project', error);
+    }
+  }
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await run(PROJECTS_STORE, 'readwrite', (store) => store.delete(id));
+  const last = await getLastProjectId();
+  if (last === id) await run(META_STORE, 'readwrite', (store) => store.delete(LAST_PROJECT_KEY));
+}
+
+export async function getLastProjectId(): Promise<string | null> {
+  const id = await run<unknown>(META_STORE, 'readonly', (store) => store.get(LAST_PROJECT_KEY));
+  return typeof id === 'string' ? id : null;
+}
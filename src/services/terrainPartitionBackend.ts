@@ -1,12 +1,12 @@
 import type { TerrainPartitionSolutionPreview } from '@/components/MapFlightDirection/api';
-import type { FlightParams } from '@/domain/types';
+import type { AltitudeMode, FlightParams } from '@/domain/types';
 
 export interface TerrainPartitionBackendRequest {
   polygonId?: string;
   ring: [number, number][];
   payloadKind: 'camera' | 'lidar';
   params: FlightParams;
-  altitudeMode: 'legacy' | 'min-clearance';
+  altitudeMode: AltitudeMode;
   minClearanceM: number;
   turnExtendM: number;
   tradeoff?: number;
@@ -0,0 +1,42 @@
+// src/services/terrainSourceStore.ts
+//
+// Browser persistence for the terrain tile source (localStorage). Uploaded DEMs are not
+// stored; they stay in memory until the page is reloaded.
+//
+
+import { getTerrainTileSource, normalizeTerrainTileSource, setTerrainTileSource, type TerrainTileSource } from '@/terrain/sources';
+
+const STORAGE_KEY = 'flight-plan-analyser.terrain-source';
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null; // access can throw when storage is disabled
+  }
+}
+
+/** Load the stored tile source; unreadable data leaves Mapbox terrain in place. */
+export function loadTerrainTileSource(): TerrainTileSource {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (raw) {
+    try {
+      setTerrainTileSource(normalizeTerrainTileSource(JSON.parse(raw)));
+    } catch (error) {
+      console.warn('[terrain] ignoring unreadable terrain source', error);
+    }
+  }
+  return getTerrainTileSource();
+}
+
+/** Switch the tile source and persist it. */
+export function saveTerrainTileSource(next: TerrainTileSource): void {
+  setTerrainTileSource(next);
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(getTerrainTileSource()));
+  } catch (error) {
+    console.warn('[terrain] failed to store terrain source', error);
+  }
+}
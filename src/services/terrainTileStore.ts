@@ -0,0 +1,187 @@
+// src/services/terrainTileStore.ts
+//
+// Browser persistence for terrain tiles (IndexedDB), so areas can be planned without a
+// connection. Tiles are stored as served and evicted least-recently-used once the store
+// grows past its size limit.
+//
+
+import type { TerrainTileCache } from '@/terrain/sources';
+
+const DB_NAME = 'flight-plan-analyser-terrain';
+const DB_VERSION = 1;
+const TILES_STORE = 'tiles'; // key -> Blob
+const ENTRIES_STORE = 'entries'; // key -> TerrainTileEntry, kept separate so scans skip the blobs
+const META_STORE = 'meta';
+const LIMIT_KEY = 'limitBytes';
+
+export const DEFAULT_TERRAIN_TILE_STORE_LIMIT_BYTES = 512 * 1024 * 1024;
+
+export interface TerrainTileEntry {
+  key: string;
+  bytes: number;
+  lastUsedAt: number;
+}
+
+export interface TerrainTileStoreUsage {
+  tiles: number;
+  bytes: number;
+  limitBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isTerrainTileStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!isTerrainTileStoreAvailable()) return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TILES_STORE)) db.createObjectStore(TILES_STORE);
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open terrain tile database'));
+    });
+    // Allow a retry after a failed open (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  storeNames: string[], mode: IDBTransactionMode, action: (stores: IDBObjectStore[]) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = action(storeNames.map((name) => tx.objectStore(name)));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error ?? request?.error ?? new Error('Terrain tile database request failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Terrain tile database request aborted'));
+  });
+}
+
+/**
+ * Keys to delete, least recently used first, so the remaining tiles fit in the limit. Keys in
+ * `keep` are never selected, even if the rest cannot fit without them.
+ */
+export function selectTilesToEvict(entries: TerrainTileEntry[], limitBytes: number, keep: ReadonlySet<string> = new Set()): string[] {
+  let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  const evict: string[] = [];
+  for (const entry of [...entries].sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (total <= limitBytes) break;
+    if (keep.has(entry.key)) continue;
+    evict.push(entry.key);
+    total -= entry.bytes;
+  }
+  return evict;
+}
+
+export async function getTerrainTileStoreLimit(): Promise<number> {
+  const limit = await run<unknown>([META_STORE], 'readonly', ([store]) => store.get(LIMIT_KEY));
+  return typeof limit === 'number' && limit > 0 ? limit : DEFAULT_TERRAIN_TILE_STORE_LIMIT_BYTES;
+}
+
+export async function setTerrainTileStoreLimit(limitBytes: number): Promise<void> {
+  await run([META_STORE], 'readwrite', ([store]) => store.put(limitBytes, LIMIT_KEY));
+  await pruneTerrainTileStore();
+}
+
+export async function getTerrainTileStoreUsage(): Promise<TerrainTileStoreUsage> {
+  const entries = (await run<TerrainTileEntry[]>([ENTRIES_STORE], 'readonly', ([store]) => store.getAll())) ?? [];
+  return {
+    tiles: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+    limitBytes: await getTerrainTileStoreLimit(),
+  };
+}
+
+// Key sets of downloads in progress (see pinTerrainTiles)
+const pins = new Set<ReadonlySet<string>>();
+
+/** Evict least recently used tiles, except pinned ones, until the store fits its limit. Resolves to the evicted keys. */
+export async function pruneTerrainTileStore(): Promise<string[]> {
+  const entries = (await run<TerrainTileEntry[]>([ENTRIES_STORE], 'readonly', ([store]) => store.getAll())) ?? [];
+  const keep = new Set([...pins].flatMap((keys) => [...keys]));
+  const evict = selectTilesToEvict(entries, await getTerrainTileStoreLimit(), keep);
+  if (evict.length === 0) return [];
+  await run([TILES_STORE, ENTRIES_STORE], 'readwrite', ([tiles, meta]) => {
+    for (const key of evict) {
+      tiles.delete(key);
+      meta.delete(key);
+    }
+  });
+  return evict;
+}
+
+/**
+ * Keep the tiles of an offline download out of eviction while it runs. Releasing marks them as
+ * just used, so other tiles go first, and prunes; it resolves to the pinned keys that still did
+ * not fit the limit and were evicted.
+ */
+export function pinTerrainTiles(keys: string[]): () => Promise<string[]> {
+  const pinned = new Set(keys);
+  pins.add(pinned);
+  let released: Promise<string[]> | null = null;
+  return () => {
+    released ??= (async () => {
+      pins.delete(pinned);
+      const now = Date.now();
+      await run([ENTRIES_STORE], 'readwrite', ([store]) => {
+        const request = store.getAll();
+        request.onsuccess = () => {
+          for (const entry of request.result as TerrainTileEntry[]) {
+            if (pinned.has(entry.key)) store.put({ ...entry, lastUsedAt: now });
+          }
+        };
+      });
+      return (await pruneTerrainTileStore()).filter((key) => pinned.has(key));
+    })();
+    return released;
+  };
+}
+
+export async function clearTerrainTileStore(): Promise<void> {
+  await run([TILES_STORE, ENTRIES_STORE], 'readwrite', ([tiles, meta]) => {
+    tiles.clear();
+    meta.clear();
+  });
+}
+
+// Pruning scans every entry, so it runs once after a burst of stored tiles
+let pruneTimer: ReturnType<typeof setTimeout> | null = null;
+function schedulePrune() {
+  if (pruneTimer !== null) return;
+  pruneTimer = setTimeout(() => {
+    pruneTimer = null;
+    pruneTerrainTileStore().catch((error) => console.warn('[terrain] failed to prune terrain tile store', error));
+  }, 2000);
+}
+
+/** The IndexedDB store as the terrain sources' persistent tile cache. */
+export const terrainTileStore: TerrainTileCache = {
+  async get(key) {
+    const blob = await run<Blob | undefined>([TILES_STORE], 'readonly', ([store]) => store.get(key));
+    if (!blob) return null;
+    // Recency is best effort; a failed update only affects eviction order
+    run([ENTRIES_STORE], 'readwrite', ([store]) => store.put({ key, bytes: blob.size, lastUsedAt: Date.now() }))
+      .catch(() => undefined);
+    return blob;
+  },
+  async has(key) {
+    return ((await run<number>([ENTRIES_STORE], 'readonly', ([store]) => store.count(key))) ?? 0) > 0;
+  },
+  async put(key, blob) {
+    await run([TILES_STORE, ENTRIES_STORE], 'readwrite', ([tiles, meta]) => {
+      tiles.put(blob, key);
+      meta.put({ key, bytes: blob.size, lastUsedAt: Date.now() });
+    });
+    schedulePrune();
+  },
+};
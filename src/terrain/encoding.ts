@@ -0,0 +1,25 @@
+/**
+ * Height encodings of RGB terrain tiles. The app works in Mapbox terrain-RGB throughout;
+ * Terrarium tiles and DEM heights are converted to it.
+ */
+
+/** Write a height (m) as Mapbox terrain-RGB: height = -10000 + (R·65536 + G·256 + B)·0.1. */
+export function encodeTerrainRGB(heightM: number, data: Uint8ClampedArray, offset: number): void {
+  const value = Math.max(0, Math.min(0xffffff, Math.round((heightM + 10000) * 10)));
+  data[offset] = (value >> 16) & 0xff;
+  data[offset + 1] = (value >> 8) & 0xff;
+  data[offset + 2] = value & 0xff;
+  data[offset + 3] = 255;
+}
+
+/** Terrarium height (m): R·256 + G + B/256 − 32768. */
+export function decodeTerrarium(r: number, g: number, b: number): number {
+  return r * 256 + g + b / 256 - 32768;
+}
+
+/** Re-encode Terrarium RGBA pixels as terrain-RGB, in place. */
+export function terrariumToTerrainRGB(data: Uint8ClampedArray): void {
+  for (let i = 0; i < data.length; i += 4) {
+    encodeTerrainRGB(decodeTerrarium(data[i], data[i + 1], data[i + 2]), data, i);
+  }
+}
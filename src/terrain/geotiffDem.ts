@@ -0,0 +1,490 @@
+/**
+ * GeoTIFF DEM reader for survey DEMs and lidar DTMs, and resampling of the DEM into the
+ * Web Mercator tile grid the analysis works on.
+ *
+ * Reads the first band of strip or tiled rasters (uncompressed, LZW, Deflate or PackBits;
+ * horizontal and floating-point predictors) in geographic WGS84 / ETRS89 / NAD83, Web
+ * Mercator or UTM coordinates. Anything else has to be warped first, e.g.
+ * `gdalwarp -t_srs EPSG:4326 dem.tif dem_wgs84.tif`.
+ */
+
+import * as egm96 from "egm96-universal";
+import { tileMetersBounds } from "@/overlap/mercator";
+import { encodeTerrainRGB } from "./encoding";
+
+export interface DemRaster {
+  name: string;
+  width: number;
+  height: number;
+  /** Row-major heights in meters, row 0 north; NaN where the DEM has no data. */
+  heights: Float32Array;
+  epsg: number;
+  /** Outer corner of pixel (0, 0) in CRS units. */
+  originX: number;
+  originY: number;
+  pixelSizeX: number;
+  pixelSizeY: number;
+  /** Heights above the WGS84 ellipsoid instead of mean sea level; converted to EGM96 when used. */
+  ellipsoidal: boolean;
+}
+
+export interface DemParseOptions {
+  name?: string;
+  ellipsoidal?: boolean;
+}
+
+// Larger rasters should be downsampled before upload (4 bytes per pixel in memory)
+export const MAX_DEM_PIXELS = 60_000_000;
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  sampleFormat: 339,
+  pixelScale: 33550,
+  tiepoint: 33922,
+  transformation: 34264,
+  geoKeys: 34735,
+  gdalNoData: 42113,
+} as const;
+
+const TYPE_BYTES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+type TagValue = number[] | string;
+
+function readTagValues(view: DataView, type: number, count: number, at: number, little: boolean): TagValue {
+  if (type === 2) {
+    let text = "";
+    for (let i = 0; i < count; i++) text += String.fromCharCode(view.getUint8(at + i));
+    return text.replace(/\0+$/, "");
+  }
+  const values: number[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    switch (type) {
+      case 1: case 7: values[i] = view.getUint8(at + i); break;
+      case 6: values[i] = view.getInt8(at + i); break;
+      case 3: values[i] = view.getUint16(at + i * 2, little); break;
+      case 8: values[i] = view.getInt16(at + i * 2, little); break;
+      case 4: values[i] = view.getUint32(at + i * 4, little); break;
+      case 9: values[i] = view.getInt32(at + i * 4, little); break;
+      case 5: values[i] = view.getUint32(at + i * 8, little) / view.getUint32(at + i * 8 + 4, little); break;
+      case 10: values[i] = view.getInt32(at + i * 8, little) / view.getInt32(at + i * 8 + 4, little); break;
+      case 11: values[i] = view.getFloat32(at + i * 4, little); break;
+      case 12: values[i] = view.getFloat64(at + i * 8, little); break;
+      default: throw new Error(`Unsupported TIFF field type ${type}`);
+    }
+  }
+  return values;
+}
+
+function readFirstIfd(view: DataView): { tags: Map<number, TagValue>; little: boolean } {
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error("Not a TIFF file");
+  const little = order === 0x4949;
+  const magic = view.getUint16(2, little);
+  if (magic === 43) throw new Error("BigTIFF is not supported; save the DEM as a regular GeoTIFF");
+  if (magic !== 42) throw new Error("Not a TIFF file");
+  const ifd = view.getUint32(4, little);
+  const tags = new Map<number, TagValue>();
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const bytes = (TYPE_BYTES[type] ?? 0) * valueCount;
+    if (bytes === 0) continue; // unknown type: skip the tag
+    const at = bytes <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    tags.set(tag, readTagValues(view, type, valueCount, at, little));
+  }
+  return { tags, little };
+}
+
+/** TIFF LZW (MSB-first codes, early code-width change). */
+export function decodeLzw(input: Uint8Array, expectedBytes: number): Uint8Array {
+  const out = new Uint8Array(expectedBytes);
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let i = 0; i < 256; i++) { prefix[i] = -1; suffix[i] = i; lengths[i] = 1; }
+  let next = 258;
+  let width = 9;
+  let bitPos = 0;
+  let outPos = 0;
+  let old = -1;
+  const readCode = () => {
+    let code = 0;
+    for (let i = 0; i < width; i++) {
+      const byte = input[bitPos >> 3];
+      if (byte === undefined) return 257;
+      code = (code << 1) | ((byte >> (7 - (bitPos & 7))) & 1);
+      bitPos++;
+    }
+    return code;
+  };
+  const firstByte = (code: number) => {
+    while (prefix[code] >= 0) code = prefix[code];
+    return suffix[code];
+  };
+  const write = (code: number) => {
+    const length = lengths[code];
+    if (outPos + length > out.length) return false;
+    for (let pos = outPos + length - 1; code >= 0; code = prefix[code]) out[pos--] = suffix[code];
+    outPos += length;
+    return true;
+  };
+  for (;;) {
+    const code = readCode();
+    if (code === 257) break;
+    if (code === 256) {
+      next = 258; width = 9; old = -1;
+      continue;
+    }
+    if (old < 0) {
+      if (!write(code)) break;
+      old = code;
+      continue;
+    }
+    const known = code < next;
+    const first = firstByte(known ? code : old);
+    if (next < 4096) {
+      prefix[next] = old; suffix[next] = first; lengths[next] = lengths[old] + 1;
+      next++;
+    }
+    if (!write(code)) break;
+    old = code;
+    if (next >= (1 << width) - 1 && width < 12) width++;
+  }
+  return out;
+}
+
+function decodePackBits(input: Uint8Array, expectedBytes: number): Uint8Array {
+  const out = new Uint8Array(expectedBytes);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < out.length) {
+    const header = (input[i++] << 24) >> 24;
+    if (header >= 0) {
+      for (let n = 0; n <= header && o < out.length; n++) out[o++] = input[i++];
+    } else if (header !== -128) {
+      const value = input[i++];
+      for (let n = 0; n < 1 - header && o < out.length; n++) out[o++] = value;
+    }
+  }
+  return out;
+}
+
+async function inflate(input: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(compression: number, input: Uint8Array, expectedBytes: number): Promise<Uint8Array> {
+  switch (compression) {
+    case 1: return input;
+    case 5: return decodeLzw(input, expectedBytes);
+    case 8: case 32946: return inflate(input);
+    case 32773: return decodePackBits(input, expectedBytes);
+    default: throw new Error(`Unsupported TIFF compression ${compression}; save the DEM uncompressed, LZW or Deflate`);
+  }
+}
+
+type SampleLayout = { bytes: number; format: number; samplesPerPixel: number; predictor: number; little: boolean };
+
+/**
+ * First-band values of a decompressed chunk of `chunkWidth` × `rows` pixels, with the
+ * predictor undone. Integer differencing wraps at the sample width, as TIFF requires.
+ */
+function chunkValues(bytes: Uint8Array, chunkWidth: number, rows: number, layout: SampleLayout): Float64Array {
+  const { bytes: size, format, samplesPerPixel: spp, predictor, little } = layout;
+  const rowSamples = chunkWidth * spp;
+  const out = new Float64Array(chunkWidth * rows);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (predictor === 3) {
+    // Floating point predictor: per row, bytes differenced then split into byte planes (MSB first)
+    const rowBytes = rowSamples * size;
+    const plane = new Uint8Array(rowBytes);
+    const word = new DataView(new ArrayBuffer(8));
+    for (let r = 0; r < rows; r++) {
+      const start = r * rowBytes;
+      if (start + rowBytes > bytes.length) break;
+      plane.set(bytes.subarray(start, start + rowBytes));
+      for (let i = spp; i < rowBytes; i++) plane[i] = (plane[i] + plane[i - spp]) & 0xff;
+      for (let c = 0; c < chunkWidth; c++) {
+        const sample = c * spp;
+        for (let k = 0; k < size; k++) word.setUint8(k, plane[k * rowSamples + sample]);
+        out[r * chunkWidth + c] = size === 4 ? word.getFloat32(0, false) : word.getFloat64(0, false);
+      }
+    }
+    return out;
+  }
+
+  const bits = size * 8;
+  const modulo = 2 ** bits;
+  const rowValues = new Float64Array(rowSamples);
+  for (let r = 0; r < rows; r++) {
+    const rowStart = r * rowSamples * size;
+    if (rowStart + rowSamples * size > bytes.length) break;
+    for (let i = 0; i < rowSamples; i++) {
+      const at = rowStart + i * size;
+      if (format === 3) rowValues[i] = size === 4 ? view.getFloat32(at, little) : view.getFloat64(at, little);
+      else if (size === 1) rowValues[i] = view.getUint8(at);
+      else if (size === 2) rowValues[i] = view.getUint16(at, little);
+      else rowValues[i] = view.getUint32(at, little);
+    }
+    if (predictor === 2 && format !== 3) {
+      for (let i = spp; i < rowSamples; i++) rowValues[i] = (rowValues[i] + rowValues[i - spp]) % modulo;
+    }
+    for (let c = 0; c < chunkWidth; c++) {
+      let value = rowValues[c * spp];
+      if (format === 2 && value >= modulo / 2) value -= modulo; // signed integers
+      out[r * chunkWidth + c] = value;
+    }
+  }
+  return out;
+}
+
+type GeoKeys = Map<number, number>;
+
+function readGeoKeys(directory: TagValue | undefined): GeoKeys {
+  const keys: GeoKeys = new Map();
+  if (!Array.isArray(directory) || directory.length < 4) return keys;
+  for (let i = 0; i < directory[3]; i++) {
+    const [id, location, , value] = directory.slice(4 + i * 4, 8 + i * 4);
+    if (location === 0) keys.set(id, value);
+  }
+  return keys;
+}
+
+const GEOGRAPHIC_EPSG = new Set([4326, 4258, 4269, 4979, 4937]);
+const WEB_MERCATOR_EPSG = new Set([3857, 3785, 900913]);
+
+function utmZone(epsg: number): { zone: number; south: boolean } | null {
+  if (epsg >= 32601 && epsg <= 32660) return { zone: epsg - 32600, south: false };
+  if (epsg >= 32701 && epsg <= 32760) return { zone: epsg - 32700, south: true };
+  if (epsg >= 25828 && epsg <= 25838) return { zone: epsg - 25800, south: false }; // ETRS89
+  if (epsg >= 26901 && epsg <= 26923) return { zone: epsg - 26900, south: false }; // NAD83
+  return null;
+}
+
+export function isSupportedDemCrs(epsg: number): boolean {
+  return GEOGRAPHIC_EPSG.has(epsg) || WEB_MERCATOR_EPSG.has(epsg) || utmZone(epsg) !== null;
+}
+
+// WGS84 ellipsoid (GRS80 differs by < 0.1 mm in the flattening)
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+const UTM_K0 = 0.9996;
+
+/** UTM easting / northing of a WGS84 position (Snyder's transverse Mercator series). */
+export function lngLatToUtm(lng: number, lat: number, zone: number, south: boolean): [number, number] {
+  const phi = (lat * Math.PI) / 180;
+  const lambda0 = (((zone - 1) * 6 - 180 + 3) * Math.PI) / 180;
+  const sin = Math.sin(phi);
+  const cos = Math.cos(phi);
+  const n = A / Math.sqrt(1 - E2 * sin * sin);
+  const t = Math.tan(phi) ** 2;
+  const c = EP2 * cos * cos;
+  const a = cos * ((lng * Math.PI) / 180 - lambda0);
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  const m = A * (
+    (1 - E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi
+    - ((3 * E2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi)
+    + ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi)
+    - ((35 * e6) / 3072) * Math.sin(6 * phi)
+  );
+  const x = UTM_K0 * n * (a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5) / 120);
+  const y = UTM_K0 * (m + n * Math.tan(phi) * (
+    (a * a) / 2 + ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 + ((61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6) / 720
+  ));
+  return [500000 + x, south ? y + 10_000_000 : y];
+}
+
+/** Position in the DEM's CRS. */
+export function lngLatToDemCrs(epsg: number, lng: number, lat: number): [number, number] {
+  if (GEOGRAPHIC_EPSG.has(epsg)) return [lng, lat];
+  if (WEB_MERCATOR_EPSG.has(epsg)) {
+    const clamped = (Math.max(-85.05112878, Math.min(85.05112878, lat)) * Math.PI) / 180;
+    return [(A * lng * Math.PI) / 180, A * Math.log(Math.tan(Math.PI / 4 + clamped / 2))];
+  }
+  const utm = utmZone(epsg);
+  if (!utm) throw new Error(`Unsupported DEM coordinate system EPSG:${epsg}`);
+  return lngLatToUtm(lng, lat, utm.zone, utm.south);
+}
+
+/** Parse a single-band GeoTIFF DEM. Throws with a user-facing message when it cannot be used. */
+export async function parseGeoTiffDem(buffer: ArrayBuffer, options: DemParseOptions = {}): Promise<DemRaster> {
+  const view = new DataView(buffer);
+  const { tags, little } = readFirstIfd(view);
+  const number = (tag: number, fallback?: number) => {
+    const value = tags.get(tag);
+    return Array.isArray(value) && value.length > 0 ? value[0] : fallback;
+  };
+  const width = number(TAG.width);
+  const height = number(TAG.height);
+  if (!width || !height) throw new Error("TIFF has no image size");
+  if (width * height > MAX_DEM_PIXELS) {
+    throw new Error(`DEM has ${Math.round((width * height) / 1e6)} MP; downsample it to at most ${MAX_DEM_PIXELS / 1e6} MP`);
+  }
+
+  const bitsPerSample = number(TAG.bitsPerSample, 8)!;
+  const layout: SampleLayout = {
+    bytes: bitsPerSample / 8,
+    format: number(TAG.sampleFormat, 1)!,
+    samplesPerPixel: number(TAG.planarConfig, 1) === 2 ? 1 : number(TAG.samplesPerPixel, 1)!,
+    predictor: number(TAG.predictor, 1)!,
+    little,
+  };
+  if (![1, 2, 4, 8].includes(layout.bytes) || (layout.format === 3 && layout.bytes < 4)) {
+    throw new Error(`Unsupported DEM sample type (${bitsPerSample}-bit, format ${layout.format})`);
+  }
+
+  // Georeferencing
+  const keys = readGeoKeys(tags.get(TAG.geoKeys));
+  const modelType = keys.get(1024);
+  const epsg = modelType === 2 ? keys.get(2048) ?? 4326 : keys.get(3072);
+  if (!epsg || epsg === 32767) throw new Error("DEM has no EPSG coordinate system; warp it to EPSG:4326 first");
+  if (!isSupportedDemCrs(epsg)) throw new Error(`DEM coordinate system EPSG:${epsg} is not supported; warp it to EPSG:4326 or UTM first`);
+  let originX: number;
+  let originY: number;
+  let pixelSizeX: number;
+  let pixelSizeY: number;
+  const transformation = tags.get(TAG.transformation);
+  const scale = tags.get(TAG.pixelScale);
+  const tiepoint = tags.get(TAG.tiepoint);
+  if (Array.isArray(transformation) && transformation.length >= 8) {
+    if (transformation[1] !== 0 || transformation[4] !== 0) throw new Error("Rotated DEMs are not supported");
+    [pixelSizeX, originX, pixelSizeY, originY] = [transformation[0], transformation[3], -transformation[5], transformation[7]];
+  } else if (Array.isArray(scale) && Array.isArray(tiepoint) && scale.length >= 2 && tiepoint.length >= 6) {
+    [pixelSizeX, pixelSizeY] = [scale[0], scale[1]];
+    originX = tiepoint[3] - tiepoint[0] * pixelSizeX;
+    originY = tiepoint[4] + tiepoint[1] * pixelSizeY;
+  } else {
+    throw new Error("TIFF has no georeferencing");
+  }
+  if (keys.get(1025) === 2) { // PixelIsPoint: tie point is the pixel center
+    originX -= pixelSizeX / 2;
+    originY += pixelSizeY / 2;
+  }
+  if (!(pixelSizeX > 0) || !(pixelSizeY > 0)) throw new Error("DEM pixel size must be positive (north-up)");
+
+  // Chunks (tiles or strips) of the first band
+  const tiled = tags.has(TAG.tileOffsets);
+  const offsets = tags.get(tiled ? TAG.tileOffsets : TAG.stripOffsets);
+  const byteCounts = tags.get(tiled ? TAG.tileByteCounts : TAG.stripByteCounts);
+  if (!Array.isArray(offsets) || !Array.isArray(byteCounts)) throw new Error("TIFF has no image data");
+  const chunkWidth = tiled ? number(TAG.tileWidth)! : width;
+  const chunkHeight = tiled ? number(TAG.tileLength)! : Math.min(number(TAG.rowsPerStrip, height)!, height);
+  const across = Math.ceil(width / chunkWidth);
+  const chunksPerBand = across * Math.ceil(height / chunkHeight);
+  const compression = number(TAG.compression, 1)!;
+  const noDataText = tags.get(TAG.gdalNoData);
+  const noData = typeof noDataText === "string" && noDataText.trim() !== "" ? parseFloat(noDataText) : NaN;
+
+  const heights = new Float32Array(width * height).fill(NaN);
+  for (let chunk = 0; chunk < chunksPerBand; chunk++) {
+    const col0 = (chunk % across) * chunkWidth;
+    const row0 = Math.floor(chunk / across) * chunkHeight;
+    const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - row0);
+    const expectedBytes = chunkWidth * rows * layout.samplesPerPixel * layout.bytes;
+    const raw = new Uint8Array(buffer, offsets[chunk], byteCounts[chunk]);
+    const values = chunkValues(await decompress(compression, raw, expectedBytes), chunkWidth, rows, layout);
+    for (let r = 0; r < rows && row0 + r < height; r++) {
+      for (let c = 0; c < chunkWidth && col0 + c < width; c++) {
+        const value = values[r * chunkWidth + c];
+        // Also treat float min (-3.4e38) as nodata, a common unset value
+        if (Number.isFinite(value) && value !== noData && value > -1e30) heights[(row0 + r) * width + col0 + c] = value;
+      }
+    }
+  }
+
+  return {
+    name: options.name ?? "DEM",
+    width,
+    height,
+    heights,
+    epsg,
+    originX,
+    originY,
+    pixelSizeX,
+    pixelSizeY,
+    ellipsoidal: options.ellipsoidal ?? false,
+  };
+}
+
+/** Bilinear DEM height at a fractional pixel position (pixel centers at integer + 0.5). */
+function sampleDem(dem: DemRaster, col: number, row: number): number {
+  if (col < 0 || row < 0 || col > dem.width || row > dem.height) return NaN;
+  const x = Math.min(dem.width - 1, Math.max(0, col - 0.5));
+  const y = Math.min(dem.height - 1, Math.max(0, row - 0.5));
+  const c0 = Math.floor(x);
+  const r0 = Math.floor(y);
+  const c1 = Math.min(dem.width - 1, c0 + 1);
+  const r1 = Math.min(dem.height - 1, r0 + 1);
+  const fx = x - c0;
+  const fy = y - r0;
+  const h = dem.heights;
+  const h00 = h[r0 * dem.width + c0];
+  const h10 = h[r0 * dem.width + c1];
+  const h01 = h[r1 * dem.width + c0];
+  const h11 = h[r1 * dem.width + c1];
+  const value = (h00 * (1 - fx) + h10 * fx) * (1 - fy) + (h01 * (1 - fx) + h11 * fx) * fy;
+  if (Number.isFinite(value)) return value;
+  // Next to nodata: nearest pixel only
+  return h[Math.min(dem.height - 1, Math.floor(row)) * dem.width + Math.min(dem.width - 1, Math.floor(col))];
+}
+
+const R = 6378137;
+
+/**
+ * Overwrite the pixels of a terrain-RGB tile that the DEM covers with DEM heights (above
+ * mean sea level, like Mapbox terrain). Returns the number of pixels written.
+ */
+export function renderDemIntoTile(dem: DemRaster, z: number, x: number, y: number, size: number, data: Uint8ClampedArray): number {
+  const bounds = tileMetersBounds(z, x, y);
+  const pixelSize = (bounds.maxX - bounds.minX) / size;
+  const toLngLat = (mx: number, my: number): [number, number] =>
+    [(mx / R) * (180 / Math.PI), Math.atan(Math.sinh(my / R)) * (180 / Math.PI)];
+
+  // Skip tiles clearly outside the DEM (corners projected into the DEM's CRS)
+  const corners = [[bounds.minX, bounds.minY], [bounds.maxX, bounds.minY], [bounds.minX, bounds.maxY], [bounds.maxX, bounds.maxY]]
+    .map(([mx, my]) => lngLatToDemCrs(dem.epsg, ...toLngLat(mx, my)));
+  const demMaxX = dem.originX + dem.width * dem.pixelSizeX;
+  const demMinY = dem.originY - dem.height * dem.pixelSizeY;
+  const xs = corners.map((corner) => corner[0]);
+  const ys = corners.map((corner) => corner[1]);
+  if (Math.max(...xs) < dem.originX || Math.min(...xs) > demMaxX || Math.max(...ys) < demMinY || Math.min(...ys) > dem.originY) return 0;
+
+  const [centerLng, centerLat] = toLngLat((bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2);
+  // Geoid separation varies by well under a meter across a tile, so one value per tile is enough
+  const datumOffset = dem.ellipsoidal ? egm96.ellipsoidToEgm96(centerLat, centerLng, 0) : 0;
+
+  let written = 0;
+  for (let row = 0; row < size; row++) {
+    const my = bounds.maxY - (row + 0.5) * pixelSize;
+    for (let col = 0; col < size; col++) {
+      const [lng, lat] = toLngLat(bounds.minX + (col + 0.5) * pixelSize, my);
+      const [demX, demY] = lngLatToDemCrs(dem.epsg, lng, lat);
+      const height = sampleDem(dem, (demX - dem.originX) / dem.pixelSizeX, (dem.originY - demY) / dem.pixelSizeY);
+      if (!Number.isFinite(height)) continue;
+      encodeTerrainRGB(height + datumOffset, data, (row * size + col) * 4);
+      written++;
+    }
+  }
+  return written;
+}
@@ -0,0 +1,114 @@
+/**
+ * Offline terrain: download the tiles a project needs into the persistent tile cache before
+ * going into the field (see fetchTerrainTileBlob for the offline fallback).
+ */
+
+import { fetchTerrainTileBlob, getTerrainTileSource, isTerrainTileCached, terrainTileCacheKey } from "./sources";
+
+export interface TerrainExtent {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+export interface TerrainTileRef {
+  z: number;
+  x: number;
+  y: number;
+}
+
+/** Zoom levels offered for download; the analysis uses 10–15 for areas, 14 for coverage. */
+export const OFFLINE_TERRAIN_ZOOMS = [10, 11, 12, 13, 14, 15, 16];
+
+/** Rough size of a stored tile (256 px PNG, more in steep terrain), for estimates before downloading. */
+export const TERRAIN_TILE_BYTES_ESTIMATE = 100 * 1024;
+
+/** Largest download offered at once (about 2 GB); bigger extents need fewer zoom levels. */
+export const MAX_OFFLINE_TERRAIN_TILES = 20_000;
+
+/** Bounding box of rings, or null when there are none. */
+export function terrainExtentOfRings(rings: Array<Array<[number, number]>>): TerrainExtent | null {
+  const points = rings.flat();
+  if (points.length === 0) return null;
+  const lngs = points.map((point) => point[0]);
+  const lats = points.map((point) => point[1]);
+  return { minLng: Math.min(...lngs), minLat: Math.min(...lats), maxLng: Math.max(...lngs), maxLat: Math.max(...lats) };
+}
+
+function lngToTileX(lng: number, z: number) {
+  return Math.floor(((lng + 180) / 360) * 2 ** z);
+}
+
+function latToTileY(lat: number, z: number) {
+  const clamped = (Math.max(-85.05112878, Math.min(85.05112878, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(clamped) + 1 / Math.cos(clamped)) / Math.PI) / 2) * 2 ** z);
+}
+
+/**
+ * Tiles covering the extent at each zoom, plus `padTiles` rings of neighbours (the coverage
+ * analysis reads neighbouring tiles for line-of-sight and lidar range tests).
+ */
+export function terrainTilesForExtent(extent: TerrainExtent, zooms: number[], padTiles = 1): TerrainTileRef[] {
+  const tiles: TerrainTileRef[] = [];
+  for (const z of [...new Set(zooms)].sort((a, b) => a - b)) {
+    const max = 2 ** z - 1;
+    const minX = Math.max(0, lngToTileX(extent.minLng, z) - padTiles);
+    const maxX = Math.min(max, lngToTileX(extent.maxLng, z) + padTiles);
+    const minY = Math.max(0, latToTileY(extent.maxLat, z) - padTiles);
+    const maxY = Math.min(max, latToTileY(extent.minLat, z) + padTiles);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+}
+
+/** Estimated bytes the tiles take in the persistent cache. */
+export function estimateTerrainDownloadBytes(tiles: TerrainTileRef[]): number {
+  return tiles.length * TERRAIN_TILE_BYTES_ESTIMATE;
+}
+
+/** Persistent cache keys of the tiles in the active tile source. */
+export function terrainTileKeys(tiles: TerrainTileRef[]): string[] {
+  const source = getTerrainTileSource();
+  return tiles.map(({ z, x, y }) => terrainTileCacheKey(source, z, x, y));
+}
+
+export interface TerrainPrefetchResult {
+  downloaded: number;
+  alreadyStored: number;
+  failed: number;
+}
+
+/**
+ * Download tiles of the active tile source into the persistent cache, a few at a time.
+ * Tiles already stored are skipped. Aborting stops after the requests in flight.
+ */
+export async function prefetchTerrainTiles(
+  tiles: TerrainTileRef[],
+  token: string,
+  options: { signal?: AbortSignal; concurrency?: number; onProgress?: (done: number, total: number) => void } = {},
+): Promise<TerrainPrefetchResult> {
+  const { signal, concurrency = 6, onProgress } = options;
+  const result: TerrainPrefetchResult = { downloaded: 0, alreadyStored: 0, failed: 0 };
+  let next = 0;
+  let done = 0;
+  const lane = async () => {
+    while (next < tiles.length && !signal?.aborted) {
+      const { z, x, y } = tiles[next++];
+      try {
+        if (await isTerrainTileCached(z, x, y)) result.alreadyStored++;
+        else {
+          await fetchTerrainTileBlob(z, x, y, token, signal);
+          result.downloaded++;
+        }
+      } catch {
+        if (!signal?.aborted) result.failed++;
+      }
+      onProgress?.(++done, tiles.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, tiles.length)) }, lane));
+  return result;
+}
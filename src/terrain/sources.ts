@@ -0,0 +1,186 @@
+/**
+ * Terrain sources: Mapbox terrain-RGB (default), any XYZ tile server with terrain-RGB or
+ * Terrarium encoding, and an uploaded DEM laid over the tile source where it has data.
+ *
+ * Every consumer (coverage analysis and its workers, terrain aspect, 3D paths, routes)
+ * decodes Mapbox terrain-RGB, so tiles from other sources are re-encoded to it here and
+ * the rest of the app does not need to know where heights came from.
+ */
+
+import { terrariumToTerrainRGB } from "./encoding";
+import { renderDemIntoTile, type DemRaster } from "./geotiffDem";
+
+export type TerrainEncoding = "terrain-rgb" | "terrarium";
+
+export interface TerrainTileSource {
+  kind: "mapbox" | "custom";
+  /** XYZ template with {z}, {x}, {y} and optionally {token} (the Mapbox token); custom sources only. */
+  urlTemplate?: string;
+  encoding?: TerrainEncoding;
+}
+
+/** Decoded tile as the analysis expects it: RGBA pixels in Mapbox terrain-RGB encoding. */
+export interface TerrainTileData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/** Persistent store of tiles as served (see services/terrainTileStore), for offline planning. */
+export interface TerrainTileCache {
+  get(key: string): Promise<Blob | null>;
+  has(key: string): Promise<boolean>;
+  put(key: string, blob: Blob): Promise<void>;
+}
+
+export const MAPBOX_TERRAIN_SOURCE: TerrainTileSource = { kind: "mapbox" };
+const MAPBOX_TERRAIN_URL = "https://api.mapbox.com/v4/mapbox.terrain-rgb/{z}/{x}/{y}.pngraw?access_token={token}";
+
+let tileSource: TerrainTileSource = MAPBOX_TERRAIN_SOURCE;
+let dem: DemRaster | null = null;
+let tileCache: TerrainTileCache | null = null;
+let sourceVersion = 0;
+const listeners = new Set<() => void>();
+
+function notify() {
+  sourceVersion += 1;
+  listeners.forEach((listener) => listener());
+}
+
+export function getTerrainTileSource(): TerrainTileSource {
+  return tileSource;
+}
+
+/** Switch the tile source; a custom source without a usable template falls back to Mapbox. */
+export function setTerrainTileSource(next: TerrainTileSource): void {
+  tileSource = normalizeTerrainTileSource(next);
+  notify();
+}
+
+/** Uploaded DEM used wherever it has data, or null. Kept in memory only. */
+export function getTerrainDem(): DemRaster | null {
+  return dem;
+}
+
+export function setTerrainDem(next: DemRaster | null): void {
+  dem = next;
+  notify();
+}
+
+export function setTerrainTileCache(next: TerrainTileCache | null): void {
+  tileCache = next;
+}
+
+/** Called after every change of tile source or DEM; returns an unsubscribe function. */
+export function subscribeTerrainSource(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** Increments on every change; cached terrain tiles from an older version are stale. */
+export function getTerrainSourceVersion(): number {
+  return sourceVersion;
+}
+
+export function normalizeTerrainTileSource(raw: unknown): TerrainTileSource {
+  const source = raw as Partial<TerrainTileSource> | null;
+  if (source?.kind !== "custom") return MAPBOX_TERRAIN_SOURCE;
+  const urlTemplate = typeof source.urlTemplate === "string" ? source.urlTemplate.trim() : "";
+  if (!/\{z\}/.test(urlTemplate) || !/\{x\}/.test(urlTemplate) || !/\{y\}/.test(urlTemplate)) return MAPBOX_TERRAIN_SOURCE;
+  return { kind: "custom", urlTemplate, encoding: source.encoding === "terrarium" ? "terrarium" : "terrain-rgb" };
+}
+
+export function terrainTileUrl(source: TerrainTileSource, z: number, x: number, y: number, token: string): string {
+  const template = source.kind === "custom" && source.urlTemplate ? source.urlTemplate : MAPBOX_TERRAIN_URL;
+  return template
+    .replace(/\{z\}/g, String(z))
+    .replace(/\{x\}/g, String(x))
+    .replace(/\{y\}/g, String(y))
+    .replace(/\{token\}/g, encodeURIComponent(token));
+}
+
+/** Key of a tile in the persistent cache; independent of the access token. */
+export function terrainTileCacheKey(source: TerrainTileSource, z: number, x: number, y: number): string {
+  const sourceId = source.kind === "custom" && source.urlTemplate ? source.urlTemplate : "mapbox";
+  return `${sourceId}|${z}/${x}/${y}`;
+}
+
+/**
+ * Tile z/x/y of the active tile source as served (PNG). Fetched tiles are kept in the
+ * persistent cache; when the browser is offline or the fetch fails, the cached copy is used.
+ */
+export async function fetchTerrainTileBlob(z: number, x: number, y: number, token: string, signal?: AbortSignal): Promise<Blob> {
+  const source = tileSource;
+  const key = terrainTileCacheKey(source, z, x, y);
+  const cache = tileCache;
+  const cached = () => cache ? cache.get(key).catch(() => null) : Promise.resolve(null);
+
+  if (typeof navigator !== "undefined" && navigator.onLine === false) {
+    const stored = await cached();
+    if (stored) return stored;
+    throw new Error(`Terrain tile ${z}/${x}/${y} is not available offline`);
+  }
+  try {
+    const response = await fetch(terrainTileUrl(source, z, x, y, token), { signal });
+    if (!response.ok) throw new Error(`Failed to fetch terrain tile: ${response.status} ${response.statusText}`);
+    const blob = await response.blob();
+    cache?.put(key, blob).catch((error) => console.warn("[terrain] failed to store terrain tile", error));
+    return blob;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    const stored = await cached();
+    if (stored) return stored;
+    throw error;
+  }
+}
+
+/** Whether tile z/x/y of the active tile source is in the persistent cache. */
+export async function isTerrainTileCached(z: number, x: number, y: number): Promise<boolean> {
+  return tileCache ? tileCache.has(terrainTileCacheKey(tileSource, z, x, y)).catch(() => false) : false;
+}
+
+async function decodeTileImage(blob: Blob): Promise<TerrainTileData> {
+  const image = await createImageBitmap(blob);
+  const canvas = new OffscreenCanvas(image.width, image.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get 2D context");
+  ctx.drawImage(image, 0, 0);
+  const imageData = ctx.getImageData(0, 0, image.width, image.height);
+  return { width: image.width, height: image.height, data: new Uint8ClampedArray(imageData.data) };
+}
+
+// Size of tiles built from the DEM alone, as served by Mapbox terrain-RGB
+const DEM_TILE_SIZE = 256;
+
+/**
+ * Tile z/x/y built from the DEM alone, or null unless the DEM has data for every pixel
+ * (a tile part-filled with made-up heights would be worse than a missing one).
+ */
+export function demTerrainTile(raster: DemRaster, z: number, x: number, y: number, size = DEM_TILE_SIZE): TerrainTileData | null {
+  const data = new Uint8ClampedArray(size * size * 4);
+  if (renderDemIntoTile(raster, z, x, y, size, data) < size * size) return null;
+  return { width: size, height: size, data };
+}
+
+/**
+ * Terrain tile z/x/y from the active sources, as terrain-RGB. The uploaded DEM, when there
+ * is one, replaces the tile source's heights wherever it has data, and stands in for the
+ * tile source where that tile cannot be fetched (offline, unreachable, 404) but the DEM
+ * covers it completely.
+ */
+export async function fetchTerrainTile(z: number, x: number, y: number, token: string, signal?: AbortSignal): Promise<TerrainTileData> {
+  const source = tileSource;
+  const raster = dem;
+  let blob: Blob;
+  try {
+    blob = await fetchTerrainTileBlob(z, x, y, token, signal);
+  } catch (error) {
+    const fromDem = raster && !signal?.aborted ? demTerrainTile(raster, z, x, y) : null;
+    if (fromDem) return fromDem;
+    throw error;
+  }
+  const tile = await decodeTileImage(blob);
+  if (source.kind === "custom" && source.encoding === "terrarium") terrariumToTerrainRGB(tile.data);
+  if (raster) renderDemIntoTile(raster, z, x, y, tile.width, tile.data);
+  return tile;
+}
@@ -0,0 +1,218 @@
+import assert from "node:assert/strict";
+import * as egm96 from "egm96-universal";
+
+import type { AirspaceZone, LngLat } from "../domain/types.ts";
+import { build3DFlightPath } from "../components/MapFlightDirection/utils/geometry.ts";
+import {
+  parseAirspaceGeoJSON,
+  parseAirspaceText,
+  routeConnectorsAroundZones,
+  subtractZonesFromLines,
+  validateAreaItemsAgainstAirspace,
+  validatePlanAgainstAirspace,
+} from "../planning/airspace.ts";
+import { createLocalProjection, type XY } from "../planning/clip.ts";
+import { generateClippedFlightLines } from "../planning/lines.ts";
+import type { Point3D, TransitLeg } from "../planning/route.ts";
+
+const ORIGIN: LngLat = [8.54, 47.37];
+const projection = createLocalProjection(ORIGIN);
+
+function toLngLat(points: XY[]): LngLat[] {
+  return points.map((point) => projection.inverse(point));
+}
+
+function to3D(points: Array<[number, number, number]>): Point3D[] {
+  return points.map(([x, y, z]) => {
+    const [lng, lat] = projection.inverse([x, y]);
+    return [lng, lat, z];
+  });
+}
+
+function lengthM(segment: LngLat[]): number {
+  const [a, b] = segment.map((point) => projection.forward(point));
+  return Math.hypot(b[0] - a[0], b[1] - a[1]);
+}
+
+function assertClose(actual: number, expected: number, tolerance: number, message: string) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${message}: expected ${expected}, got ${actual}`);
+}
+
+// 100 m square, x/y ∈ [100, 200], between 500 and 800 m AMSL
+const SQUARE = toLngLat([[100, 100], [200, 100], [200, 200], [100, 200], [100, 100]]);
+const ZONE: AirspaceZone = { id: "ctr", name: "CTR", ring: SQUARE, floorM: 500, ceilingM: 800 };
+// Geoid height at the zone: path altitudes are ellipsoidal, zone limits AMSL
+const GEOID_M = egm96.egm96ToEllipsoid(ORIGIN[1], ORIGIN[0], 0);
+
+function runParseCase() {
+  const zones = parseAirspaceGeoJSON({
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        properties: { name: "Airfield", floor: "SFC", ceiling: "1200" },
+        geometry: { type: "Polygon", coordinates: [SQUARE] },
+      },
+      {
+        type: "Feature",
+        id: "tra",
+        properties: { lowerLimitM: 500, upper: "UNL" },
+        geometry: { type: "MultiPolygon", coordinates: [[SQUARE], [toLngLat([[300, 300], [400, 300], [400, 400]])]] },
+      },
+      { type: "Feature", properties: {}, geometry: { type: "LineString", coordinates: SQUARE } },
+    ],
+  });
+  assert.equal(zones.length, 3, "both polygon features should yield zones; lines are ignored");
+  assert.deepEqual(zones.map((zone) => zone.id), ["zone-1", "tra-1", "tra-2"]);
+  assert.equal(zones[0].name, "Airfield");
+  assert.equal(zones[0].floorM, null, "SFC floor means from the surface");
+  assert.equal(zones[0].ceilingM, 1200);
+  assert.equal(zones[1].floorM, 500);
+  assert.equal(zones[1].ceilingM, null, "UNL ceiling means unlimited");
+  assert.equal(zones[2].ring.length, 4, "open rings should be closed");
+
+  const fromText = parseAirspaceText(JSON.stringify({ type: "Polygon", coordinates: [SQUARE] }));
+  assert.equal(fromText.length, 1, "bare geometries should be accepted");
+
+  // Units and datums
+  const limits = (floor: unknown, ceiling: unknown) => {
+    const [zone] = parseAirspaceGeoJSON({ type: "Feature", properties: { floor, ceiling }, geometry: { type: "Polygon", coordinates: [SQUARE] } });
+    return [zone.floorM, zone.ceilingM];
+  };
+  assert.deepEqual(limits("500 m AMSL", "1500 ft"), [500, 1500 * 0.3048]);
+  assert.deepEqual(limits("1200 MSL", "FL95"), [1200, 9500 * 0.3048]);
+  assert.deepEqual(limits("0 AGL", "FL 065"), [null, 6500 * 0.3048]);
+  assert.deepEqual(limits({ value: 2000, unit: "ft", datum: "MSL" }, "UNL"), [2000 * 0.3048, null]);
+  assert.throws(() => limits("150 m AGL", "UNL"), /above ground/, "heights above ground cannot be placed without terrain");
+  assert.throws(() => limits("SFC", "3000 yd"), /unknown unit/);
+  assert.throws(() => limits("SFC", "high"), /not an altitude/);
+  assert.throws(() => limits({ value: 10, unit: "ft", datum: "QFE" }, "UNL"), /unknown reference/);
+}
+
+function runValidationCase() {
+  // Three passes east–west through the zone: below the floor, above the ceiling, inside
+  const below = to3D([[0, 150, 400], [300, 150, 400]]);
+  const turnAbove = to3D([[300, 150, 900], [0, 150, 900]]);
+  const inside = to3D([[0, 150, 600], [300, 150, 600]]);
+  // Transit climbing vertically inside the footprint from below the floor to above the ceiling
+  const transit: TransitLeg = {
+    from: to3D([[150, 150, 300]])[0],
+    to: to3D([[400, 400, 1000]])[0],
+    path: to3D([[150, 150, 300], [150, 150, 1000], [400, 400, 1000]]),
+    safeAltitude: 1000,
+    distanceM: 0,
+    timeSec: 0,
+    energyWh: 0,
+  };
+
+  const violations = validatePlanAgainstAirspace([ZONE], [{ polygonId: "area", path3D: [below, turnAbove, inside] }], [transit]);
+  assert.equal(violations.length, 2, "only the pass inside the altitude band and the climb should be flagged");
+  const line = violations.find((violation) => violation.kind === "line");
+  assert.ok(line, "expected a line violation");
+  assert.equal(line.segmentIndex, 2);
+  assert.equal(line.polygonId, "area");
+  assert.equal(line.pieces.length, 1);
+  assertClose(lengthM(line.pieces[0]), 100, 0.05, "violating piece should span the zone footprint");
+
+  const climb = violations.find((violation) => violation.kind === "transit");
+  assert.ok(climb, "a climb through the zone should be flagged");
+  assert.equal(climb.polygonId, undefined);
+  assertClose(climb.minAltitudeM, 300 - GEOID_M, 0.01, "violation altitudes are AMSL");
+
+  // Turning inside the band is flagged as a turn
+  const turns = validatePlanAgainstAirspace([ZONE], [{ polygonId: "area", path3D: [below, inside] }]);
+  assert.deepEqual(turns.map((violation) => violation.kind), ["turn"]);
+
+  // Unlimited ceiling catches the pass above 800 m
+  const unlimited = validatePlanAgainstAirspace([{ ...ZONE, ceilingM: null }], [{ polygonId: "area", path3D: [below, turnAbove] }]);
+  assert.equal(unlimited.length, 1, "a zone without ceiling should catch any altitude above its floor");
+
+  // The geoid decides: 20 m above the ceiling on the ellipsoid is below it AMSL, and vice versa
+  assert.ok(GEOID_M > 20, "the case needs a geoid height above 20 m");
+  const overCeiling = to3D([[0, 150, 820], [300, 150, 820]]);
+  assert.equal(validatePlanAgainstAirspace([ZONE], [{ polygonId: "area", path3D: [overCeiling] }]).length, 1);
+  const underFloor = to3D([[0, 150, 480 + GEOID_M], [300, 150, 480 + GEOID_M]]);
+  assert.equal(validatePlanAgainstAirspace([ZONE], [{ polygonId: "area", path3D: [underFloor] }]).length, 0);
+}
+
+function runSubtractCase() {
+  const lines = [
+    toLngLat([[-50, 150], [350, 150]]),
+    toLngLat([[-50, 300], [350, 300]]),
+    toLngLat([[120, 150], [180, 150]]),
+  ];
+  const pieces = subtractZonesFromLines(lines, [ZONE]);
+  assert.equal(pieces.length, 3, "a crossing line splits in two, a clear line stays, a line inside disappears");
+  assertClose(lengthM(pieces[0]), 150, 0.05, "piece before the zone");
+  assertClose(lengthM(pieces[1]), 150, 0.05, "piece after the zone");
+  assertClose(lengthM(pieces[2]), 400, 0.05, "line clear of the zone");
+  assert.equal(subtractZonesFromLines(lines, []), lines, "no zones leaves lines untouched");
+}
+
+function runAvoidanceCase() {
+  // 600 × 400 m area around the zone, plus a zone straddling its east edge where the turns are
+  const area = toLngLat([[-150, -100], [450, -100], [450, 300], [-150, 300], [-150, -100]]);
+  const edgeZone: AirspaceZone = { id: "edge", ring: toLngLat([[420, -20], [520, -20], [520, 60], [420, 60], [420, -20]]), floorM: null, ceilingM: null };
+  const zones = [{ ...ZONE, floorM: null, ceilingM: null }, edgeZone];
+  const lines = subtractZonesFromLines(generateClippedFlightLines(area, 90, 40), zones);
+  for (const mode of ["legacy", "terrain-following"] as const) {
+    const path3D = build3DFlightPath(lines, [], 40, { altitudeAGL: 100, mode, turnExtendM: 60 });
+    const before = validatePlanAgainstAirspace(zones, [{ polygonId: "area", path3D }]);
+    assert.ok(before.some((violation) => violation.kind === "turn"), `${mode}: connectors cut across the zones`);
+    assert.ok(before.every((violation) => violation.kind === "turn"), `${mode}: the cut sweeps stay clear`);
+
+    const rerouted = routeConnectorsAroundZones(path3D, zones);
+    assert.deepEqual(validatePlanAgainstAirspace(zones, [{ polygonId: "area", path3D: rerouted }]), [], `${mode}: rerouted plan is clear`);
+    assert.equal(rerouted.length, path3D.length);
+    rerouted.forEach((polyline, index) => {
+      if (index % 2 === 0) assert.equal(polyline, path3D[index], "sweeps are unchanged");
+      else {
+        assert.deepEqual(polyline[0], path3D[index][0], "connectors still start at the sweep end");
+        assert.deepEqual(polyline[polyline.length - 1], path3D[index][path3D[index].length - 1]);
+      }
+    });
+  }
+  // Connectors above a zone's ceiling are left alone
+  const low = { ...ZONE, floorM: null, ceilingM: 50 };
+  const path3D = build3DFlightPath(subtractZonesFromLines(generateClippedFlightLines(area, 90, 40), [low]), [], 40, { altitudeAGL: 100, mode: "legacy" });
+  assert.deepEqual(routeConnectorsAroundZones(path3D, [low]), path3D);
+}
+
+function runAreaItemCase() {
+  // The zone lies wholly inside the area: the cut lines and rerouted turns are clear, but the
+  // exported outline still contains the zone and the aircraft would plan lines through it
+  const area = toLngLat([[-150, -100], [450, -100], [450, 300], [-150, 300], [-150, -100]]);
+  const zones = [{ ...ZONE, floorM: null, ceilingM: null }];
+  const lines = subtractZonesFromLines(generateClippedFlightLines(area, 90, 40), zones);
+  const path3D = routeConnectorsAroundZones(build3DFlightPath(lines, [], 40, { altitudeAGL: 100, mode: "legacy" }), zones);
+  assert.deepEqual(validatePlanAgainstAirspace(zones, [{ polygonId: "area", path3D }]), [], "the avoided plan is clear on the map");
+  const [inside, ...rest] = validateAreaItemsAgainstAirspace(zones, [{ polygonId: "area", ring: area, path3D }]);
+  assert.equal(rest.length, 0);
+  assert.equal(inside.kind, "area");
+  assert.equal(inside.polygonId, "area");
+  assert.equal(inside.pieces.length, 0, "no outline edge enters a zone inside the area");
+  // ...unless the zone lies in a hole, whose lines the aircraft skips
+  const hole = toLngLat([[80, 80], [220, 80], [220, 220], [80, 220], [80, 80]]);
+  assert.deepEqual(validateAreaItemsAgainstAirspace(zones, [{ polygonId: "area", ring: area, holes: [hole], path3D }]), []);
+
+  // An outline crossing the zone reports the edge inside it
+  const crossing = toLngLat([[150, 0], [300, 0], [300, 150], [150, 150], [150, 0]]);
+  const [edge] = validateAreaItemsAgainstAirspace(zones, [{ polygonId: "crossing", ring: crossing, path3D: [] }]);
+  assert.ok(edge.pieces.length > 0);
+  assertClose(edge.pieces.reduce((sum, piece) => sum + lengthM(piece), 0), 100, 0.05, "outline edges inside the zone");
+
+  // Clear outlines and flights above the ceiling pass
+  const clear = toLngLat([[300, 300], [400, 300], [400, 400], [300, 400], [300, 300]]);
+  assert.deepEqual(validateAreaItemsAgainstAirspace(zones, [{ polygonId: "clear", ring: clear, path3D: [] }]), []);
+  const above = to3D([[-150, 150, 900 + GEOID_M], [450, 150, 900 + GEOID_M]]);
+  assert.deepEqual(validateAreaItemsAgainstAirspace([ZONE], [{ polygonId: "area", ring: area, path3D: [above] }]), []);
+  assert.equal(validateAreaItemsAgainstAirspace([ZONE], [{ polygonId: "area", ring: area, path3D: [] }]).length, 1, "unknown altitude counts");
+}
+
+runParseCase();
+runValidationCase();
+runSubtractCase();
+runAvoidanceCase();
+runAreaItemCase();
+
+console.log("airspace.test.ts passed");
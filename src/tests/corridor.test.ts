@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+// @ts-ignore
+import * as turf from "@turf/turf";
+
+import type { AirspaceZone, LngLat } from "../domain/types.ts";
+import { WINGTRA_ONE_GEN_II } from "../domain/aircraft.ts";
+import { exportToWingtraFlightPlan, importWingtraFlightPlan } from "../interop/wingtra/convert.ts";
+import { subtractZonesFromLines } from "../planning/airspace.ts";
+import { createLocalProjection, type XY } from "../planning/clip.ts";
+import {
+  buildCorridorRing,
+  corridorBearing,
+  corridorLineOffsets,
+  corridorOffsetOf,
+  generateCorridorLines,
+  normalizeCorridorSpec,
+  offsetPolyline,
+} from "../planning/corridor.ts";
+import { splitFlightsByEndurance } from "../planning/flights.ts";
+import { pointInPolygon } from "../planning/lines.ts";
+
+const ORIGIN: LngLat = [8.54, 47.37];
+const projection = createLocalProjection(ORIGIN);
+
+function toLngLat(points: XY[]): LngLat[] {
+  return points.map((point) => projection.inverse(point));
+}
+
+function toXY(points: LngLat[]): XY[] {
+  return points.map((point) => projection.forward(point));
+}
+
+function assertClose(actual: number, expected: number, tolerance: number, message: string) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${message}: expected ${expected}, got ${actual}`);
+}
+
+// East for 400 m, then a left turn north for 300 m
+const CENTERLINE = toLngLat([[0, 0], [400, 0], [400, 300]]);
+const SPEC = { centerline: CENTERLINE, widthM: 100 };
+
+function runOffsetsCase() {
+  assert.deepEqual(corridorLineOffsets(100, 30), [45, 15, -15, -45]);
+  assert.deepEqual(corridorLineOffsets(100, 50), [25, -25]);
+  assert.deepEqual(corridorLineOffsets(10, 30), [0], "a narrow corridor flies its centerline");
+  assertClose(corridorBearing(SPEC), 53.13, 0.2, "overall bearing runs first to last vertex");
+}
+
+function runLinesCase() {
+  const lines = generateCorridorLines(SPEC, 30);
+  assert.equal(lines.length, 4);
+  corridorLineOffsets(100, 30).forEach((offset, k) => {
+    const [start, corner, end] = toXY(lines[k]);
+    assert.equal(lines[k].length, 3, "lines keep the bend of the centerline");
+    assertClose(start[1], offset, 0.5, `line ${k} runs ${offset} m left of the first leg`);
+    assertClose(corner[0], 400 - offset, 0.5, `line ${k} corner x`);
+    assertClose(corner[1], offset, 0.5, `line ${k} corner y`);
+    assertClose(end[0], 400 - offset, 0.5, `line ${k} runs ${offset} m left of the second leg`);
+  });
+
+  const ring = buildCorridorRing(SPEC);
+  assert.deepEqual(ring[0], ring[ring.length - 1], "ring is closed");
+  // Line ends sit on the flat ends of the corridor; check the bends and leg midpoints
+  for (const line of lines) {
+    const [start, corner, end] = line;
+    const midpoints: LngLat[] = [start, end].map((p) => [(p[0] + corner[0]) / 2, (p[1] + corner[1]) / 2]);
+    for (const point of [corner, ...midpoints]) assert.ok(pointInPolygon(point, ring), "corridor polygon encloses every line");
+  }
+}
+
+function runAirspaceCase() {
+  const zone: AirspaceZone = {
+    id: "crossing",
+    ring: toLngLat([[300, 100], [500, 100], [500, 150], [300, 150], [300, 100]]),
+    floorM: null,
+    ceilingM: null,
+  };
+  const pieces = subtractZonesFromLines(generateCorridorLines(SPEC, 30), [zone]);
+  assert.equal(pieces.length, 8, "every line is cut in two by the zone across the second leg");
+  const before = pieces.filter((piece) => piece.length === 3);
+  assert.equal(before.length, 4, "pieces before the zone keep the bend");
+  for (const piece of before) assertClose(toXY(piece)[2][1], 100, 0.5, "cut at the zone edge");
+}
+
+function segmentsCross(a: XY, b: XY, c: XY, d: XY): boolean {
+  const side = (p: XY, q: XY, r: XY) => (q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]);
+  return side(a, b, c) * side(a, b, d) < 0 && side(c, d, a) * side(c, d, b) < 0;
+}
+
+function runSharpBendCase() {
+  // A left bend of radius 20 m digitised every 10°, much tighter than the 50 m half-width
+  const arc: XY[] = Array.from({ length: 10 }, (_, k) => {
+    const angle = -Math.PI / 2 + (k * Math.PI) / 18;
+    return [400 + 20 * Math.cos(angle), 20 + 20 * Math.sin(angle)];
+  });
+  const centerline = toLngLat([[0, 0], ...arc, [420, 320]]);
+  for (const offset of [50, -50]) {
+    const line = toXY(offsetPolyline(centerline, offset));
+    for (let i = 0; i < line.length - 1; i++) {
+      for (let j = i + 2; j < line.length - 1; j++) {
+        assert.ok(!segmentsCross(line[i], line[i + 1], line[j], line[j + 1]), `offset ${offset}: edges ${i} and ${j} cross`);
+      }
+    }
+  }
+  // The inner side collapses to one corner a half-width off both legs
+  const inner = toXY(offsetPolyline(centerline, 50));
+  assert.equal(inner.length, 3, "flipped inner edges are dropped");
+  assertClose(inner[1][0], 370, 0.5, "inner corner x");
+  assertClose(inner[1][1], 50, 0.5, "inner corner y");
+  assertClose(inner[2][0], 370, 0.5, "inner line end");
+}
+
+function runFlightSplitCase() {
+  const lines = generateCorridorLines(SPEC, 20);
+  const ring = buildCorridorRing(SPEC);
+  const area = { polygonId: "c", ring, bearingDeg: corridorBearing(SPEC), lineSpacingM: 20, flightLines: lines, corridor: SPEC };
+  const flights = splitFlightsByEndurance([area], { home: toLngLat([[-200, 0]])[0], maxFlightTimeSec: 4 * 60, aircraft: WINGTRA_ONE_GEN_II });
+  assert.ok(flights.length > 1, "the budget forces several flights");
+
+  // Flight strips follow the bend: together they cover the corridor once, and hold their own lines
+  const strips = flights.flatMap((flight) => flight.segments.flatMap((segment) => segment.rings));
+  const total = strips.reduce((sum, strip) => sum + turf.area(turf.polygon([strip])), 0);
+  const full = turf.area(turf.polygon([ring]));
+  assert.ok(Math.abs(total - full) / full < 0.001, `strips cover the corridor once (${total} vs ${full})`);
+  for (const flight of flights) {
+    const [segment] = flight.segments;
+    assert.ok(segment.corridor, "corridor segments carry their strip of the corridor");
+    for (const line of flight.lines) {
+      const [start, corner, end] = line;
+      const midpoints: LngLat[] = [start, end].map((p) => [(p[0] + corner[0]) / 2, (p[1] + corner[1]) / 2]);
+      for (const point of [corner, ...midpoints]) assert.ok(pointInPolygon(point, segment.rings[0]), "lines stay in their strip");
+    }
+    const widths = flight.lines.map((line) => corridorOffsetOf(SPEC, line[0]));
+    assertClose(segment.corridor!.widthM, Math.max(...widths) - Math.min(...widths) + 20, 0.5, "strip width spans its lines");
+  }
+}
+
+function runWingtraCorridorCase() {
+  const area = { ring: buildCorridorRing(SPEC), angleDeg: 0, altitudeAGL: 100, frontOverlap: 70, sideOverlap: 60, lineSpacingM: 30, corridor: SPEC };
+  const plan = exportToWingtraFlightPlan([area]);
+  const [item] = plan.flightPlan.items as any[];
+  assert.equal(item.complexItemType, "corridor", "corridors export as corridor items, not area grids");
+  assert.equal(item.corridorWidth, 100);
+  assert.deepEqual(item.polyline, CENTERLINE.map(([lng, lat]) => [lat, lng]));
+
+  const [imported] = importWingtraFlightPlan(plan).items;
+  assert.deepEqual(imported.corridor, SPEC, "corridor items import back as corridors");
+  assert.equal(imported.lineSpacingM, 30);
+}
+
+function runNormalizeCase() {
+  assert.equal(normalizeCorridorSpec(null), null);
+  assert.equal(normalizeCorridorSpec({ centerline: CENTERLINE, widthM: 0 }), null);
+  assert.equal(normalizeCorridorSpec({ centerline: [CENTERLINE[0], CENTERLINE[0]], widthM: 50 }), null);
+  const spec = normalizeCorridorSpec({ centerline: [CENTERLINE[0], CENTERLINE[0], CENTERLINE[1]], widthM: "60" });
+  assert.deepEqual(spec, { centerline: [CENTERLINE[0], CENTERLINE[1]], widthM: 60 }, "repeated vertices are dropped");
+}
+
+runOffsetsCase();
+runLinesCase();
+runAirspaceCase();
+runSharpBendCase();
+runFlightSplitCase();
+runWingtraCorridorCase();
+runNormalizeCase();
+
+console.log("corridor.test.ts passed");
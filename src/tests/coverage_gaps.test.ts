@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+
+import { fillInRingForGap, findCoverageGaps } from "../overlap/gaps.ts";
+import { tileMetersBounds } from "../overlap/mercator.ts";
+import type { TileResult } from "../overlap/types.ts";
+import { pointInPolygon, destination } from "../planning/lines.ts";
+
+const near = (actual: number, expected: number, tolerance: number, message?: string) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${message ?? "value"}: ${actual} != ${expected}`);
+
+const Z = 14;
+const SIZE = 64;
+const R = 6378137;
+const toLngLat = (mx: number, my: number): [number, number] => [(mx / R) * 180 / Math.PI, Math.atan(Math.sinh(my / R)) * 180 / Math.PI];
+
+function tileResult(x: number, y: number, overlapAt: (col: number, row: number) => number): TileResult {
+  const overlap = new Uint16Array(SIZE * SIZE);
+  for (let row = 0; row < SIZE; row++) {
+    for (let col = 0; col < SIZE; col++) overlap[row * SIZE + col] = overlapAt(col, row);
+  }
+  return { z: Z, x, y, size: SIZE, overlap, gsdMin: new Float32Array(SIZE * SIZE), maxOverlap: 9, minGsd: 0.02 };
+}
+
+/** Area ring over pixel columns/rows [c0, c1) × [r0, r1) of the mosaic starting at tile (x0, y0). */
+function pixelRing(x0: number, y0: number, c0: number, r0: number, c1: number, r1: number): [number, number][] {
+  const origin = tileMetersBounds(Z, x0, y0);
+  const pixel = (origin.maxX - origin.minX) / SIZE;
+  const at = (c: number, r: number) => toLngLat(origin.minX + c * pixel, origin.maxY - r * pixel);
+  return [at(c0, r0), at(c1, r0), at(c1, r1), at(c0, r1), at(c0, r0)];
+}
+
+const X0 = 8580;
+const Y0 = 5738;
+const origin = tileMetersBounds(Z, X0, Y0);
+const pixelM = (origin.maxX - origin.minX) / SIZE;
+const cosLat = Math.cos(Math.atan(Math.sinh(((origin.minY + origin.maxY) / 2) / R)));
+const pixelAreaM2 = (pixelM * cosLat) ** 2;
+
+function runRectangleCase() {
+  const inHole = (col: number, row: number) => col >= 20 && col < 30 && row >= 10 && row < 16;
+  const tile = tileResult(X0, Y0, (col, row) => (inHole(col, row) ? 1 : 5));
+  const area = { id: "area", ring: pixelRing(X0, Y0, 2, 2, 62, 62) };
+  assert.deepEqual(findCoverageGaps(area, [tile], { metric: "overlap", threshold: 1 }), [], "at the threshold is not a gap");
+
+  const [gap, ...rest] = findCoverageGaps(area, [tile], { metric: "overlap", threshold: 3, minAreaM2: 0 });
+  assert.equal(rest.length, 0);
+  assert.equal(gap.id, "area:1");
+  assert.equal(gap.polygonId, "area");
+  assert.equal(gap.worstValue, 1);
+  near(gap.areaM2, 60 * pixelAreaM2, 60 * pixelAreaM2 * 0.01, "area of 60 pixels");
+  assert.equal(gap.ring.length, 5, "a rectangle traces to four corners");
+  const expected = pixelRing(X0, Y0, 20, 10, 30, 16);
+  for (const corner of expected.slice(0, 4)) {
+    assert.ok(gap.ring.some(([lng, lat]) => Math.abs(lng - corner[0]) < 1e-9 && Math.abs(lat - corner[1]) < 1e-9));
+  }
+  const centerExpected = toLngLat(origin.minX + 25 * pixelM, origin.maxY - 13 * pixelM);
+  near(gap.center[0], centerExpected[0], 1e-9);
+  near(gap.center[1], centerExpected[1], 1e-9);
+
+  const outsideOnly = findCoverageGaps({ id: "small", ring: pixelRing(X0, Y0, 40, 40, 60, 60) }, [tile], { metric: "overlap", threshold: 3, minAreaM2: 0 });
+  assert.deepEqual(outsideOnly, [], "low overlap outside the area is not its gap");
+}
+
+function runSeamCase() {
+  // A gap across the seam between two tiles is one gap
+  const left = tileResult(X0, Y0, (col, row) => (col >= 60 && row >= 30 && row < 34 ? 0 : 4));
+  const right = tileResult(X0 + 1, Y0, (col, row) => (col < 4 && row >= 30 && row < 34 ? 0 : 4));
+  const area = { id: "wide", ring: pixelRing(X0, Y0, 1, 1, 127, 63) };
+  const gaps = findCoverageGaps(area, [left, right], { metric: "overlap", threshold: 2, minAreaM2: 0 });
+  assert.equal(gaps.length, 1);
+  near(gaps[0].areaM2, 32 * pixelAreaM2, 32 * pixelAreaM2 * 0.01);
+  assert.equal(gaps[0].ring.length, 5);
+}
+
+function runShapesCase() {
+  const lowPixels = new Set(["10,10", "11,11", "40,40", "41,40", "42,40", "43,40", "44,40", "45,40", "46,40", "47,40", "48,40", "49,40"]);
+  const tile = tileResult(X0, Y0, (col, row) => (lowPixels.has(`${col},${row}`) ? 0 : 6));
+  const area = { id: "area", ring: pixelRing(X0, Y0, 2, 2, 62, 62) };
+  const gaps = findCoverageGaps(area, [tile], { metric: "overlap", threshold: 3, minAreaM2: 0 });
+  assert.equal(gaps.length, 2);
+  assert.equal(gaps[0].ring.length, 5, "largest first: the 10-pixel strip");
+  assert.equal(gaps[1].ring.length, 9, "pixels meeting at a corner are one gap traced in one loop");
+  near(gaps[1].areaM2, 2 * pixelAreaM2, pixelAreaM2 * 0.02);
+
+  const filtered = findCoverageGaps(area, [tile], { metric: "overlap", threshold: 3, minAreaM2: 5 * pixelAreaM2 });
+  assert.deepEqual(filtered.map((gap) => gap.id), ["area:1"], "small gaps are dropped");
+  assert.deepEqual(findCoverageGaps(area, [], { metric: "overlap", threshold: 3 }), [], "no analysed tiles, no gaps");
+}
+
+function runDensityCase() {
+  const tile = tileResult(X0, Y0, () => 0);
+  tile.density = new Float32Array(SIZE * SIZE).fill(25);
+  for (let row = 5; row < 15; row++) {
+    for (let col = 5; col < 15; col++) tile.density[row * SIZE + col] = row < 10 ? 4 : 12;
+  }
+  const area = { id: "lidar", ring: pixelRing(X0, Y0, 0, 0, 64, 64) };
+  const [gap] = findCoverageGaps(area, [tile], { metric: "density", threshold: 20, minAreaM2: 0 });
+  assert.equal(gap.metric, "density");
+  assert.equal(gap.worstValue, 4);
+  near(gap.areaM2, 100 * pixelAreaM2, pixelAreaM2);
+
+  const fill = fillInRingForGap(gap, 40);
+  assert.deepEqual(fill[0], fill[fill.length - 1], "closed ring");
+  for (const vertex of gap.ring) {
+    for (const bearing of [0, 45, 90, 135, 180, 225, 270, 315]) {
+      assert.ok(pointInPolygon(destination(vertex, bearing, 39), fill), "the fill-in reaches the margin all around the gap");
+    }
+  }
+  assert.ok(!pointInPolygon(destination(gap.ring[0], 0, 200), fill));
+}
+
+runRectangleCase();
+runSeamCase();
+runShapesCase();
+runDensityCase();
+
+console.log("coverage_gaps.test.ts passed");
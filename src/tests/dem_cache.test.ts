@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import * as egm96 from "egm96-universal";
+
+import { clearDemCache, createByteBudgetLru, getDemTile } from "../overlap/demCache.ts";
+import { tileMetersBounds } from "../overlap/mercator.ts";
+import { decodeDemTile } from "../overlap/terrain.ts";
+import { encodeTerrainRGB } from "../terrain/encoding.ts";
+
+const near = (actual: number, expected: number, tolerance: number, message?: string) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${message ?? "value"}: ${actual} != ${expected}`);
+
+function runLruCase() {
+  const lru = createByteBudgetLru<number[]>(10, (value) => value.length);
+  lru.set("a", [1, 2, 3, 4]);
+  lru.set("b", [1, 2, 3, 4]);
+  assert.equal(lru.bytes, 8);
+  assert.deepEqual(lru.get("a"), [1, 2, 3, 4], "reading a marks it as recently used");
+  lru.set("c", [1, 2, 3]);
+  assert.equal(lru.get("b"), undefined, "the least recently used entry is evicted first");
+  assert.ok(lru.get("a") && lru.get("c"));
+  assert.equal(lru.bytes, 7);
+
+  lru.set("a", [1]);
+  assert.equal(lru.bytes, 4, "replacing an entry releases its old size");
+  lru.set("huge", new Array(20).fill(0));
+  assert.equal(lru.size, 1, "an entry over budget evicts everything else but is kept");
+  assert.equal(lru.bytes, 20);
+  lru.clear();
+  assert.deepEqual([lru.size, lru.bytes], [0, 0]);
+}
+
+function terrainTile(size: number, heightAt: (row: number, col: number) => number) {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) encodeTerrainRGB(heightAt(row, col), data, (row * size + col) * 4);
+  }
+  return data;
+}
+
+function runDecodeCase() {
+  const [z, x, y, size] = [14, 8582, 5749, 4];
+  const bounds = tileMetersBounds(z, x, y);
+  const pixel = (bounds.maxX - bounds.minX) / size;
+  const R = 6378137;
+
+  const flat = decodeDemTile(terrainTile(size, () => 500), z, x, y, size);
+  assert.equal(flat.heights.length, size * size);
+  assert.equal(flat.normals.length, size * size * 3);
+  const lng = ((bounds.minX + 1.5 * pixel) / R) * (180 / Math.PI);
+  const lat = Math.atan(Math.sinh((bounds.maxY - 2.5 * pixel) / R)) * (180 / Math.PI);
+  near(flat.heights[2 * size + 1], egm96.egm96ToEllipsoid(lat, lng, 500), 1e-3, "EGM96 heights become ellipsoidal");
+  assert.ok(Math.abs(flat.heights[0] - 500) > 1, "the geoid offset is applied");
+  // Only the geoid slope across the tile tilts a flat tile
+  near(flat.normals[0], 0, 1e-4);
+  near(flat.normals[1], 0, 1e-4);
+  near(flat.normals[2], 1, 1e-8);
+
+  // Rises 10 m per pixel towards the east: the normal leans west
+  const slope = decodeDemTile(terrainTile(size, (_, col) => 100 + col * 10), z, x, y, size);
+  const i = (1 * size + 1) * 3;
+  const groundPixel = pixel * Math.cos(Math.atan(Math.sinh((bounds.maxY - 1.5 * pixel) / R)));
+  near(slope.normals[i] / slope.normals[i + 2], -10 / groundPixel, 1e-3, "east slope");
+  near(slope.normals[i + 1], 0, 1e-3);
+}
+
+async function runAbortCase() {
+  // A tile server that never answers, until the request is aborted
+  const requests: AbortSignal[] = [];
+  const original = globalThis.fetch;
+  globalThis.fetch = ((_input: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_, reject) => {
+    const signal = init!.signal!;
+    requests.push(signal);
+    signal.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+  })) as typeof fetch;
+  try {
+    clearDemCache();
+    const first = new AbortController();
+    const second = new AbortController();
+    const a = getDemTile(14, 1, 2, "token", first.signal);
+    const b = getDemTile(14, 1, 2, "token", second.signal);
+    assert.equal(requests.length, 1, "callers of one tile share its fetch");
+
+    first.abort();
+    await assert.rejects(a, { name: "AbortError" });
+    assert.equal(requests[0].aborted, false, "the fetch continues while another caller waits");
+    second.abort();
+    await assert.rejects(b, { name: "AbortError" });
+    assert.equal(requests[0].aborted, true, "the fetch stops once every caller has aborted");
+
+    const retry = new AbortController();
+    const c = getDemTile(14, 1, 2, "token", retry.signal);
+    assert.equal(requests.length, 2, "a later request fetches the tile again");
+    assert.equal(requests[1].aborted, false);
+    retry.abort();
+    await assert.rejects(c, { name: "AbortError" });
+    await assert.rejects(getDemTile(14, 1, 2, "token", retry.signal), { name: "AbortError" }, "an aborted signal never fetches");
+    assert.equal(requests.length, 2);
+  } finally {
+    globalThis.fetch = original;
+    clearDemCache();
+  }
+}
+
+runLruCase();
+runDecodeCase();
+await runAbortCase();
+
+console.log("dem_cache.test.ts passed");
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+// @ts-ignore
+import * as turf from "@turf/turf";
+
+import type { LngLat } from "../domain/types.ts";
+import { WINGTRA_ONE_GEN_II, enduranceSec } from "../domain/aircraft.ts";
+import { clipRingToLineRange, groupLinesIntoSweeps, splitFlightsByEndurance, splitRingAroundHoles } from "../planning/flights.ts";
+import type { FlightSplitArea } from "../planning/flights.ts";
+import { generateClippedFlightLines, pointInPolygon } from "../planning/lines.ts";
+
+const RING: LngLat[] = [
+  [8.5, 47.0],
+  [8.53, 47.0],
+  [8.53, 47.018],
+  [8.5, 47.018],
+  [8.5, 47.0],
+];
+const HOLE: LngLat[] = [
+  [8.512, 47.006],
+  [8.518, 47.006],
+  [8.518, 47.012],
+  [8.512, 47.012],
+  [8.512, 47.006],
+];
+const HOME: LngLat = [8.49, 47.0];
+const SPACING = 80;
+
+function area(flightLines: LngLat[][], holes?: LngLat[][]): FlightSplitArea {
+  return { polygonId: "a", ring: RING, ...(holes ? { holes } : {}), bearingDeg: 0, lineSpacingM: SPACING, flightLines };
+}
+
+const HOLE_CENTER: LngLat = [8.515, 47.009];
+
+// Lines the aircraft builds inside exported rings stay out of the hole
+function assertRingsSkipHole(rings: LngLat[][]) {
+  for (const ring of rings) {
+    assert.ok(!pointInPolygon(HOLE_CENTER, ring), "no exported ring covers the hole");
+    for (const line of generateClippedFlightLines(ring, 0, SPACING / 4)) {
+      for (let k = 1; k < 20; k++) {
+        const t = k / 20;
+        const point: LngLat = [line[0][0] + (line[1][0] - line[0][0]) * t, line[0][1] + (line[1][1] - line[0][1]) * t];
+        assert.ok(!pointInPolygon(point, HOLE), "lines stop at the hole");
+      }
+    }
+  }
+}
+
+const lineKey = (line: LngLat[]) => [line[0], line[line.length - 1]].map((p) => p.join(",")).sort().join("|");
+
+function assertPartition(input: FlightSplitArea, maxFlightTimeSec: number) {
+  const flights = splitFlightsByEndurance([input], { home: HOME, maxFlightTimeSec, aircraft: WINGTRA_ONE_GEN_II });
+  assert.ok(flights.length > 1, "the budget forces several flights");
+
+  // Every line is flown exactly once
+  const flown = flights.flatMap((flight) => flight.lines.map(lineKey)).sort();
+  assert.deepEqual(flown, input.flightLines.map(lineKey).sort());
+
+  // Sweeps are never split between flights
+  for (const [start, end] of groupLinesIntoSweeps(input)) {
+    const owners = new Set(
+      input.flightLines.slice(start, end).map((line) => flights.findIndex((flight) => flight.lines.some((l) => lineKey(l) === lineKey(line)))),
+    );
+    assert.equal(owners.size, 1, `sweep ${start}..${end} is flown by one flight`);
+  }
+
+  // The flight areas tile the polygon without overlapping
+  const rings = flights.flatMap((flight) => flight.segments.flatMap((segment) => segment.rings));
+  const total = rings.reduce((sum, ring) => sum + turf.area(turf.polygon([ring])), 0);
+  const full = turf.area(turf.polygon([RING, ...(input.holes ?? [])]));
+  assert.ok(Math.abs(total - full) / full < 0.001, `flight areas cover the polygon once (${total} vs ${full})`);
+  return flights;
+}
+
+function runSweepGroupingCase() {
+  const lines = generateClippedFlightLines([RING, HOLE], 0, SPACING);
+  const sweeps = groupLinesIntoSweeps(area(lines));
+  assert.ok(sweeps.length < lines.length, "sweeps cut by the hole are grouped");
+  assert.ok(sweeps.some(([start, end]) => end - start === 2), "one sweep holds both pieces around the hole");
+  assert.equal(sweeps[0][0], 0);
+  assert.equal(sweeps[sweeps.length - 1][1], lines.length);
+}
+
+function runPartitionCase() {
+  const plain = generateClippedFlightLines(RING, 0, SPACING);
+  assertPartition(area(plain), 15 * 60);
+  assertPartition(area([...plain].reverse()), 15 * 60);
+  const holed = area(generateClippedFlightLines([RING, HOLE], 0, SPACING), [HOLE]);
+  assertRingsSkipHole(assertPartition(holed, 15 * 60).flatMap((flight) => flight.segments.flatMap((segment) => segment.rings)));
+}
+
+function runHoleExportCase() {
+  assert.deepEqual(splitRingAroundHoles(RING, [], 0), [RING], "areas without holes export as they are");
+  for (const bearingDeg of [0, 37, 90]) {
+    const pieces = splitRingAroundHoles(RING, [HOLE], bearingDeg);
+    assert.ok(pieces.length >= 2, `${bearingDeg}°: the cut through the hole splits the area`);
+    const total = pieces.reduce((sum, ring) => sum + turf.area(turf.polygon([ring])), 0);
+    const expected = turf.area(turf.polygon([RING, HOLE]));
+    assert.ok(Math.abs(total - expected) / expected < 0.001, `${bearingDeg}°: pieces cover the area without the hole`);
+    assertRingsSkipHole(pieces);
+  }
+  // A single flight over the whole area exports the same pieces
+  const whole = area(generateClippedFlightLines([RING, HOLE], 0, SPACING), [HOLE]);
+  assert.deepEqual(clipRingToLineRange(whole, 0, whole.flightLines.length), splitRingAroundHoles(RING, [HOLE], 0));
+}
+
+function runBandCase() {
+  const lines = generateClippedFlightLines(RING, 0, SPACING);
+  const reversed = area([...lines].reverse());
+  // The first lines of a reversed order lie on the east edge: their band reaches that edge
+  const [band] = clipRingToLineRange(reversed, 0, 3);
+  const lngs = band.map((point) => point[0]);
+  assert.ok(Math.abs(Math.max(...lngs) - 8.53) < 1e-9, "the band reaches the east edge");
+  assert.ok(Math.min(...lngs) > 8.52, "the band stays near the east edge");
+}
+
+function runMaxTimeFallbackCase() {
+  const input = area(generateClippedFlightLines(RING, 0, SPACING));
+  const options = { home: HOME, aircraft: WINGTRA_ONE_GEN_II };
+  const reference = splitFlightsByEndurance([input], { ...options, maxFlightTimeSec: enduranceSec(WINGTRA_ONE_GEN_II) });
+  for (const maxFlightTimeSec of [Number.NaN, 0, -60]) {
+    const flights = splitFlightsByEndurance([input], { ...options, maxFlightTimeSec });
+    assert.equal(flights.length, reference.length, `${maxFlightTimeSec} falls back to the endurance`);
+    assert.ok(flights.every((flight) => !flight.overBudget));
+  }
+}
+
+runSweepGroupingCase();
+runPartitionCase();
+runBandCase();
+runHoleExportCase();
+runMaxTimeFallbackCase();
+
+console.log("flights.test.ts passed");
@@ -0,0 +1,233 @@
+import assert from "node:assert/strict";
+
+import type { LngLat } from "../domain/types.ts";
+import { coverageRasters, mosaicCoverageTiles, writeGeoTiff } from "../interop/gis/geotiff.ts";
+import { areasFromGeoJSON, paramsFromAttributes, planToGeoJSON } from "../interop/gis/geojson.ts";
+import { KML_FLIGHT_PATH_KIND, areaBalloonRows, planToKml, toMeanSeaLevel } from "../interop/gis/kml.ts";
+import {
+  areasFromShapefileZip,
+  parseShapefile,
+  planToShapefileLayers,
+  planToShapefileZip,
+  writeShapefileLayer,
+} from "../interop/gis/shapefile.ts";
+import type { GisExportArea } from "../interop/gis/types.ts";
+import { tileMetersBounds } from "../overlap/mercator.ts";
+import type { TileResult } from "../overlap/types.ts";
+
+// Counter-clockwise outer ring with a clockwise hole, as GeoJSON (RFC 7946) recommends
+const OUTER: LngLat[] = [[8.5, 47.0], [8.51, 47.0], [8.51, 47.01], [8.5, 47.01], [8.5, 47.0]];
+const HOLE: LngLat[] = [[8.503, 47.003], [8.503, 47.006], [8.506, 47.006], [8.506, 47.003], [8.503, 47.003]];
+
+const bufferOf = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+const sameRing = (a: LngLat[], b: LngLat[]) =>
+  a.length === b.length && (JSON.stringify(a) === JSON.stringify(b) || JSON.stringify(a) === JSON.stringify([...b].reverse()));
+
+const EXPORT_AREA: GisExportArea = {
+  polygonId: "area-1",
+  name: "North field",
+  ring: OUTER,
+  holes: [HOLE],
+  params: { payloadKind: "camera", cameraKey: "SONY_RX1R2", altitudeAGL: 120, frontOverlap: 75, sideOverlap: 65 },
+  bearingDeg: 30,
+  lineSpacingM: 42.5,
+  flightLines: [[[8.501, 47.0], [8.501, 47.01]], [[8.502, 47.0], [8.502, 47.01]]],
+  lineBearingsDeg: [30, 120],
+  triggerPoints: [[8.501, 47.001, 612.3], [8.501, 47.002, 613.1]],
+  stats: { metricKind: "gsd", min: 0.0151, mean: 0.0163, max: 0.0182, sampleCount: 2, areaM2: 760_000 },
+};
+
+function runAttributesCase() {
+  const params = paramsFromAttributes({ ALT_AGL: "120", "Front Overlap": 0.8, side_ovl: 65, Bearing: -30, PAYLOAD: "Camera", unrelated: 5 });
+  assert.deepEqual(params, {
+    altitudeAGL: 120,
+    frontOverlap: 80,
+    sideOverlap: 65,
+    useCustomBearing: true,
+    customBearingDeg: 330,
+    payloadKind: "camera",
+  });
+  assert.deepEqual(paramsFromAttributes({ front: 1, side: "0.6" }), { frontOverlap: 1, sideOverlap: 60 }, "1 is a percentage, not a fraction");
+  assert.deepEqual(paramsFromAttributes({ altitude: -5, speed: "fast" }), {}, "unusable values are ignored");
+  assert.deepEqual(paramsFromAttributes(null), {});
+}
+
+function runGeoJsonImportCase() {
+  const areas = areasFromGeoJSON(JSON.stringify({
+    type: "FeatureCollection",
+    features: [
+      { type: "Feature", properties: { name: "A", alt_agl: 100 }, geometry: { type: "Polygon", coordinates: [OUTER, HOLE] } },
+      {
+        type: "Feature",
+        properties: { title: "B" },
+        geometry: { type: "MultiPolygon", coordinates: [[OUTER.slice(0, -1)], [HOLE]] },
+      },
+      { type: "Feature", properties: {}, geometry: { type: "LineString", coordinates: OUTER } },
+      { type: "Feature", properties: {}, geometry: { type: "Polygon", coordinates: [[[8.5, 47.0], [8.51, 47.0]]] } },
+    ],
+  }));
+  assert.equal(areas.length, 3, "each MultiPolygon part is an area; lines and degenerate rings are skipped");
+  assert.deepEqual(areas[0], { name: "A", ring: OUTER, holes: [HOLE], params: { altitudeAGL: 100 } });
+  assert.deepEqual(areas[1].ring, OUTER, "open rings are closed");
+  assert.equal(areas[2].name, "B");
+
+  assert.equal(areasFromGeoJSON({ type: "Polygon", coordinates: [OUTER] }).length, 1, "bare geometries are accepted");
+  assert.throws(() => areasFromGeoJSON("not json"));
+}
+
+function runGeoJsonExportCase() {
+  const collection = planToGeoJSON([EXPORT_AREA]);
+  const kinds = collection.features.map((feature) => feature.properties.kind);
+  assert.deepEqual(kinds, ["area", "flight_line", "flight_line", "trigger", "trigger"]);
+  const area = collection.features[0].properties;
+  assert.equal(area.gsd_avg_cm, 1.63);
+  assert.equal(area.pts_avg_m2, null);
+  assert.equal(area.area_ha, 76);
+  assert.equal(collection.features[2].properties.bearing, 120, "lines carry their pass bearing");
+  assert.deepEqual(collection.features[4].geometry.coordinates, [8.501, 47.002, 613.1]);
+
+  // Exported attributes read back as the same params
+  const [reimported] = areasFromGeoJSON(collection);
+  assert.equal(reimported.name, "North field");
+  assert.deepEqual(reimported.params, {
+    altitudeAGL: 120,
+    frontOverlap: 75,
+    sideOverlap: 65,
+    useCustomBearing: true,
+    customBearingDeg: 30,
+    payloadKind: "camera",
+    cameraKey: "SONY_RX1R2",
+  });
+}
+
+function runShapefileRoundTripCase() {
+  const [areasLayer, linesLayer, triggersLayer] = planToShapefileLayers([EXPORT_AREA]);
+  assert.deepEqual([areasLayer.name, linesLayer.name, triggersLayer.name], ["areas", "flight_lines", "triggers"]);
+  assert.equal(triggersLayer.records.length, 2);
+
+  const files = writeShapefileLayer(areasLayer);
+  assert.equal(files.shx.length, 108, "index has one entry per record");
+  const view = new DataView(bufferOf(files.shp));
+  assert.equal(view.getInt32(24, false) * 2, files.shp.length, "header file length is in 16-bit words");
+
+  const [area] = parseShapefile(bufferOf(files.shp), bufferOf(files.dbf), files.prj);
+  assert.equal(area.name, "North field");
+  assert.ok(sameRing(area.ring, OUTER), "outer ring survives (written clockwise)");
+  assert.equal(area.holes?.length, 1);
+  assert.ok(sameRing(area.holes![0], HOLE), "hole survives");
+  assert.equal(area.params.altitudeAGL, 120);
+  assert.equal(area.params.customBearingDeg, 30);
+
+  const lines = writeShapefileLayer(linesLayer);
+  assert.deepEqual(parseShapefile(bufferOf(lines.shp), bufferOf(lines.dbf)), [], "non-polygon layers yield no areas");
+
+  assert.throws(
+    () => parseShapefile(bufferOf(files.shp), null, 'PROJCS["CH1903+ / LV95",GEOGCS["CH1903+"]]'),
+    /projected coordinate system/,
+  );
+}
+
+async function runShapefileZipCase() {
+  const blob = await planToShapefileZip([EXPORT_AREA]);
+  const areas = await areasFromShapefileZip(await blob.arrayBuffer());
+  assert.equal(areas.length, 1, "only the polygon layer of the zip becomes an area");
+  assert.equal(areas[0].params.sideOverlap, 65);
+}
+
+function runKmlExportCase() {
+  const path3d: [number, number, number][][] = [
+    [[8.501, 47.0, 650], [8.501, 47.01, 655]],
+    [[8.501, 47.01, 655], [8.502, 47.01, 655]],
+    [[8.502, 47.01, 655], [8.502, 47.0, 650]],
+  ];
+  const kml = planToKml([{ ...EXPORT_AREA, name: "North & South", path3d, flightTimeSec: 540 }], "Demo");
+
+  assert.ok(kml.includes("<name>North &amp; South</name>"), "names are escaped");
+  assert.equal((kml.match(/<innerBoundaryIs>/g) ?? []).length, 1, "holes are exported");
+  const path = kml.match(/<LineString><altitudeMode>absolute<\/altitudeMode><coordinates>([^<]*)<\/coordinates>/);
+  assert.ok(path, "3D path with absolute altitude");
+  const vertices = path[1].split(" ");
+  assert.equal(vertices.length, 6, "sweeps and turns are joined into one path");
+  assert.ok(kml.includes(`<value>${KML_FLIGHT_PATH_KIND}</value>`), "paths are marked so KML import skips them");
+  assert.equal((kml.match(/<Point>/g) ?? []).length, 2);
+
+  // Absolute altitude in KML is above mean sea level: the geoid lies ~48 m above the ellipsoid here
+  const msl = toMeanSeaLevel(8.501, 47.0, 650);
+  assert.ok(msl < 650 - 40 && msl > 650 - 60, `EGM96 height ${msl}`);
+  assert.equal(Number(vertices[0].split(",")[2]), msl);
+
+  const rows = Object.fromEntries(areaBalloonRows({ ...EXPORT_AREA, flightTimeSec: 540 }));
+  assert.equal(rows["Altitude AGL"], "120 m");
+  assert.equal(rows["Front overlap"], "75 %");
+  assert.equal(rows["GSD min / mean / max"], "1.51 / 1.63 / 1.82 cm/px");
+  assert.equal(rows["Estimated time"], "9.0 min");
+}
+
+function coverageTile(x: number, y: number, fill: (i: number) => number): TileResult {
+  const size = 2;
+  const overlap = new Uint16Array(size * size).map((_, i) => fill(i));
+  const gsdMin = new Float32Array(size * size).map((_, i) => (overlap[i] > 0 ? 0.01 + i * 0.001 : Infinity));
+  return { z: 18, x, y, size, maxOverlap: 9, minGsd: 0.01, overlap, gsdMin };
+}
+
+function runGeoTiffCase() {
+  // Two tiles side by side plus one below the right one: a 4 x 4 px mosaic with a nodata quadrant
+  const tiles = [coverageTile(100, 200, (i) => i + 1), coverageTile(101, 200, () => 3), coverageTile(101, 201, (i) => (i === 0 ? 0 : 5))];
+  const overlap = mosaicCoverageTiles(tiles, "overlap")!;
+  assert.deepEqual([overlap.width, overlap.height], [4, 4]);
+  const N = 65535;
+  assert.deepEqual(Array.from(overlap.data), [1, 2, 3, 3, 3, 4, 3, 3, N, N, N, 5, N, N, 5, 5], "no area given: empty pixels are nodata");
+  const bounds = tileMetersBounds(18, 100, 200);
+  assert.deepEqual([overlap.originX, overlap.originY], [bounds.minX, bounds.maxY]);
+  assert.ok(Math.abs(overlap.pixelSize - (bounds.maxX - bounds.minX) / 2) < 1e-9);
+
+  // An area over the right half of the mosaic: its uncovered pixel is a 0, the empty left quadrant stays nodata
+  const right = tileMetersBounds(18, 101, 200);
+  const bottom = tileMetersBounds(18, 101, 201);
+  const toLngLat = (x: number, y: number): LngLat => [(x / 6378137) * (180 / Math.PI), Math.atan(Math.sinh(y / 6378137)) * (180 / Math.PI)];
+  const ring = [toLngLat(right.minX + 1, right.maxY - 1), toLngLat(right.maxX - 1, right.maxY - 1), toLngLat(bottom.maxX - 1, bottom.minY + 1), toLngLat(bottom.minX + 1, bottom.minY + 1)];
+  const masked = mosaicCoverageTiles(tiles, "overlap", [{ ring: [...ring, ring[0]] }])!;
+  assert.deepEqual(Array.from(masked.data), [1, 2, 3, 3, 3, 4, 3, 3, N, N, 0, 5, N, N, 5, 5]);
+  assert.equal(mosaicCoverageTiles(tiles, "gsd", [{ ring: [...ring, ring[0]] }])!.data[10], -9999, "GSD has no value where nothing is covered");
+
+  const gsd = mosaicCoverageTiles(tiles, "gsd")!;
+  assert.equal(gsd.data[0], Math.fround(Math.fround(0.01) * 100), "GSD is written in cm/px");
+  assert.equal(gsd.data[8], -9999);
+  assert.equal(mosaicCoverageTiles(tiles, "density"), null, "camera tiles have no density");
+  assert.deepEqual(coverageRasters({ camera: tiles, lidar: [] }).map((raster) => raster.band), ["overlap", "gsd"]);
+
+  const bytes = writeGeoTiff(gsd);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  assert.equal(view.getUint16(0, true), 0x4949);
+  assert.equal(view.getUint16(2, true), 42);
+  const ifd = view.getUint32(4, true);
+  const tags = new Map<number, { type: number; count: number; at: number }>();
+  for (let i = 0; i < view.getUint16(ifd, true); i++) {
+    const at = ifd + 2 + i * 12;
+    const [type, count] = [view.getUint16(at + 2, true), view.getUint32(at + 4, true)];
+    const size = { 2: 1, 3: 2, 4: 4, 12: 8 }[type]! * count;
+    tags.set(view.getUint16(at, true), { type, count, at: size <= 4 ? at + 8 : view.getUint32(at + 8, true) });
+  }
+  assert.deepEqual(Array.from(tags.keys()), [...tags.keys()].sort((a, b) => a - b), "tags are sorted");
+  assert.equal(view.getUint32(tags.get(256)!.at, true), 4);
+  assert.equal(view.getUint16(tags.get(339)!.at, true), 3, "float samples");
+  const geoKeys = tags.get(34735)!;
+  const epsg = Array.from({ length: geoKeys.count }, (_, i) => view.getUint16(geoKeys.at + i * 2, true)).slice(-4);
+  assert.deepEqual(epsg, [3072, 0, 1, 3857]);
+  assert.equal(view.getFloat64(tags.get(33922)!.at + 24, true), bounds.minX, "tie point is the top-left corner");
+  const nodata = tags.get(42113)!;
+  assert.equal(String.fromCharCode(...bytes.slice(nodata.at, nodata.at + nodata.count - 1)), "-9999");
+  const image = view.getUint32(tags.get(273)!.at, true);
+  assert.equal(image + view.getUint32(tags.get(279)!.at, true), bytes.length);
+  assert.equal(view.getFloat32(image + 8 * 4, true), -9999);
+}
+
+runAttributesCase();
+runGeoJsonImportCase();
+runGeoJsonExportCase();
+runShapefileRoundTripCase();
+runKmlExportCase();
+runGeoTiffCase();
+await runShapefileZipCase();
+
+console.log("gis.test.ts passed");
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+
+import {
+  EMPTY_HISTORY,
+  MAX_HISTORY_ENTRIES,
+  diffAreaSnapshots,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+  type AreaSnapshots,
+} from "../components/MapFlightDirection/utils/history.ts";
+
+const RING: [number, number][] = [[8.54, 47.37], [8.55, 47.37], [8.55, 47.38], [8.54, 47.38], [8.54, 47.37]];
+const MOVED: [number, number][] = RING.map(([lng, lat]) => [lng + 0.001, lat]);
+const PARAMS = { altitudeAGL: 100, frontOverlap: 80, sideOverlap: 70 };
+
+const EMPTY: AreaSnapshots = {};
+const DRAWN: AreaSnapshots = { a: { polygon: { id: "a", ring: RING } } };
+const WITH_PARAMS: AreaSnapshots = { a: { polygon: { id: "a", ring: RING }, params: PARAMS } };
+const SPLIT: AreaSnapshots = {
+  "a-1": { polygon: { id: "a-1", source: "partition", ring: RING }, params: PARAMS, override: { bearingDeg: 30, lineSpacingM: 50, source: "partition" } },
+  "a-2": { polygon: { id: "a-2", source: "partition", ring: MOVED }, params: PARAMS, override: { bearingDeg: 80, lineSpacingM: 50, source: "partition" } },
+};
+
+function runDiffCase() {
+  assert.equal(diffAreaSnapshots(DRAWN, { a: { polygon: { id: "a", ring: RING } } }), null, "equal snapshots have no diff");
+
+  const split = diffAreaSnapshots(WITH_PARAMS, SPLIT);
+  assert.ok(split);
+  assert.deepEqual(Object.keys(split.before).sort(), ["a", "a-1", "a-2"]);
+  assert.equal(split.after.a, null, "the replaced parent is recorded as removed");
+  assert.equal(split.before["a-1"], null, "new children are recorded as absent before");
+
+  const untouched = diffAreaSnapshots({ ...DRAWN, b: SPLIT["a-1"] }, { ...WITH_PARAMS, b: SPLIT["a-1"] });
+  assert.deepEqual(Object.keys(untouched?.after ?? {}), ["a"], "only changed areas are stored");
+}
+
+function runUndoRedoCase() {
+  let history = recordHistory(EMPTY_HISTORY, "Draw area", EMPTY, DRAWN, 1);
+  history = recordHistory(history, "Change area parameters", DRAWN, WITH_PARAMS, 2);
+  assert.equal(recordHistory(history, "No-op", WITH_PARAMS, WITH_PARAMS, 3), history, "no-op edits add no entry");
+  assert.deepEqual(history.past.map((entry) => entry.label), ["Draw area", "Change area parameters"]);
+
+  const undone = undoHistory(history);
+  assert.ok(undone);
+  assert.equal(undone.entry.label, "Change area parameters");
+  assert.deepEqual(undone.entry.before.a, DRAWN.a, "undo restores the state before the edit");
+  assert.equal(undone.history.future.length, 1);
+
+  const redone = redoHistory(undone.history);
+  assert.ok(redone);
+  assert.deepEqual(redone.entry.after.a, WITH_PARAMS.a, "redo restores the state after the edit");
+  assert.deepEqual(redone.history, history);
+
+  const branched = recordHistory(undone.history, "Edit area boundary", DRAWN, { a: { polygon: { id: "a", ring: MOVED } } }, 4);
+  assert.equal(branched.future.length, 0, "a new edit after undo drops the redo branch");
+  assert.equal(branched.past[branched.past.length - 1].id, 3, "entry ids keep increasing");
+
+  assert.equal(undoHistory(EMPTY_HISTORY), null);
+  assert.equal(redoHistory(history), null);
+}
+
+function runLimitCase() {
+  let history = EMPTY_HISTORY;
+  for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+    history = recordHistory(history, `Edit ${i}`, i % 2 ? DRAWN : WITH_PARAMS, i % 2 ? WITH_PARAMS : DRAWN, i);
+  }
+  assert.equal(history.past.length, MAX_HISTORY_ENTRIES, "the oldest entries are dropped");
+  assert.equal(history.past[0].label, "Edit 5");
+}
+
+runDiffCase();
+runUndoRedoCase();
+runLimitCase();
+
+console.log("history.test.ts passed");
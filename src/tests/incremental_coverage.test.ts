@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+
+import {
+  dirtyTileKeys,
+  fingerprintOf,
+  lowestHeight,
+  polygonTileKeys,
+  poseReachBox,
+  poseTileKeys,
+  stableHitIds,
+  stripTileKeys,
+  tileKeysInMercatorBox,
+  type CoverageInfluenceMap,
+} from "../overlap/incremental.ts";
+import { cameraDiagonalTan } from "../overlap/math3d.ts";
+import { lngLatToMeters, tileMetersBounds } from "../overlap/mercator.ts";
+import type { CameraModel, LidarStripMeters, PoseMeters } from "../overlap/types.ts";
+
+const near = (actual: number, expected: number, tolerance: number, message?: string) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${message ?? "value"}: ${actual} != ${expected}`);
+
+const CAMERA: CameraModel = { f_m: 0.0088, sx_m: 2.4e-6, sy_m: 2.4e-6, w_px: 5472, h_px: 3648 };
+const Z = 14;
+
+function nadirPose(lng: number, lat: number, z: number, polygonId?: string): PoseMeters {
+  const [x, y] = lngLatToMeters(lng, lat);
+  return { x, y, z, omega_deg: 0, phi_deg: 0, kappa_deg: 0, polygonId };
+}
+
+function tileCenter(x: number, y: number) {
+  const bounds = tileMetersBounds(Z, x, y);
+  return { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+}
+
+function runTileBoxCase() {
+  const center = tileCenter(8580, 5738);
+  assert.deepEqual([...tileKeysInMercatorBox(Z, { minX: center.x - 10, minY: center.y - 10, maxX: center.x + 10, maxY: center.y + 10 })], ["14/8580/5738"]);
+  const bounds = tileMetersBounds(Z, 8580, 5738);
+  const corner = tileKeysInMercatorBox(Z, { minX: bounds.maxX - 10, minY: bounds.minY - 10, maxX: bounds.maxX + 10, maxY: bounds.minY + 10 });
+  assert.deepEqual([...corner].sort(), ["14/8580/5738", "14/8580/5739", "14/8581/5738", "14/8581/5739"]);
+  const world = tileKeysInMercatorBox(1, { minX: -1e9, minY: -1e9, maxX: 1e9, maxY: 1e9 });
+  assert.equal(world.size, 4, "boxes are clamped to the tile grid");
+}
+
+function runPoseReachCase() {
+  const diagTan = cameraDiagonalTan(CAMERA);
+  near(diagTan, 0.5 * Math.hypot(5472 * 2.4e-6, 3648 * 2.4e-6) / 0.0088, 1e-12, "pinhole diagonal");
+  const equator = poseReachBox(nadirPose(0, 0, 120), diagTan, 20);
+  near((equator.maxX - equator.minX) / 2, 100 * diagTan * 1.25, 1e-6, "nadir reach at the equator");
+  const north = poseReachBox(nadirPose(0, 60, 120), diagTan, 20);
+  near((north.maxX - north.minX) / 2, 2 * 100 * diagTan * 1.25, 1e-6, "Mercator stretch at 60°");
+  const oblique = poseReachBox({ ...nadirPose(0, 0, 120), omega_deg: 30 }, diagTan, 20);
+  assert.ok(oblique.maxX - oblique.minX > equator.maxX - equator.minX, "tilted cameras reach further");
+}
+
+function runDirtyCase() {
+  const influence = (entries: Array<[string, string, string[]]>): CoverageInfluenceMap =>
+    new Map(entries.map(([id, fingerprint, keys]) => [id, { fingerprint, tileKeys: new Set(keys) }]));
+  const previous = influence([["a", "1", ["t1", "t2"]], ["b", "1", ["t3"]], ["gone", "1", ["t4"]]]);
+  assert.equal(dirtyTileKeys(previous, previous).size, 0);
+  const next = influence([["a", "2", ["t2", "t5"]], ["b", "1", ["t3", "t6"]], ["new", "1", ["t7"]]]);
+  assert.deepEqual([...dirtyTileKeys(previous, next)].sort(), ["t1", "t2", "t4", "t5", "t7"],
+    "old and new tiles of changed, removed and added polygons; unchanged polygons add none");
+
+  assert.equal(fingerprintOf({ a: [1, 2], b: "x" }), fingerprintOf({ a: [1, 2], b: "x" }));
+  assert.notEqual(fingerprintOf({ a: [1, 2], b: "x" }), fingerprintOf({ a: [1, 2.0001], b: "x" }));
+}
+
+function runAltitudeChangeCase() {
+  // Two areas a few kilometres apart: raising one area's altitude leaves the other's tiles alone
+  const ringA: [number, number][] = [[8.50, 47.00], [8.51, 47.00], [8.51, 47.01], [8.50, 47.01], [8.50, 47.00]];
+  const ringB: [number, number][] = [[8.60, 47.00], [8.61, 47.00], [8.61, 47.01], [8.60, 47.01], [8.60, 47.00]];
+  const posesFor = (ring: [number, number][], z: number, id: string) =>
+    [0.2, 0.5, 0.8].map((t) => nadirPose(ring[0][0] + t * 0.01, ring[0][1] + t * 0.01, z, id));
+  const influenceOf = (altitudeB: number): CoverageInfluenceMap => new Map([
+    ["A", posesFor(ringA, 600, "A"), ringA],
+    ["B", posesFor(ringB, 500 + altitudeB, "B"), ringB],
+  ].map(([id, poses, ring]) => [id as string, {
+    fingerprint: fingerprintOf(poses),
+    tileKeys: poseTileKeys(poses as PoseMeters[], () => CAMERA, Z, 400, polygonTileKeys({ ring: ring as [number, number][] }, Z)),
+  }]));
+  const before = influenceOf(100);
+  const after = influenceOf(140);
+  const dirty = dirtyTileKeys(before, after);
+  for (const key of after.get("B")!.tileKeys) assert.ok(dirty.has(key));
+  for (const key of before.get("A")!.tileKeys) assert.ok(!dirty.has(key), `tile ${key} of the unchanged area is not recomputed`);
+  assert.ok(after.get("B")!.tileKeys.size >= before.get("B")!.tileKeys.size, "higher poses reach at least as far");
+
+  const { x, y } = tileCenter(8580, 5738);
+  const strip = { x1: x, y1: y, x2: x + 100, y2: y, z1: 500, z2: 500, halfWidthM: 50, maxRangeM: 3000 } as LidarStripMeters;
+  assert.equal(stripTileKeys([{ ...strip, maxRangeM: 0 }], Z).size, 1);
+  assert.ok(stripTileKeys([strip], Z).size > 1, "the sensor range, not only the swath, bounds a strip's reach");
+}
+
+function runStableIdsCase() {
+  const registry = new Map<string, number>();
+  // Run 1: polygon A has two poses, B one; B's pose is index 2
+  const first = stableHitIds(new Uint32Array([2]), ["A#0", "A#1", "B#0"], registry);
+  // Run 2: A gained a pose, so B's pose moved to index 3 but keeps its id
+  const second = stableHitIds(new Uint32Array([3, 0]), ["A#0", "A#1", "A#2", "B#0"], registry);
+  assert.equal(second[0], first[0]);
+  assert.notEqual(second[1], first[0]);
+  assert.equal(registry.size, 2);
+
+  const tile = { heights: new Float32Array([12, -3.5, 40, 7]) };
+  assert.equal(lowestHeight(tile), -3.5);
+  tile.heights[1] = 100;
+  assert.equal(lowestHeight(tile), -3.5, "memoised per decoded tile");
+}
+
+runTileBoxCase();
+runPoseReachCase();
+runDirtyCase();
+runAltitudeChangeCase();
+runStableIdsCase();
+
+console.log("incremental_coverage.test.ts passed");
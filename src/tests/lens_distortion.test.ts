@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+
+import {
+  camRayToPixel,
+  cameraDiagonalTan,
+  distortionJacobian,
+  distortNormalized,
+  hasLensDistortion,
+  rotMat,
+  undistortNormalized,
+} from "../overlap/math3d.ts";
+import type { CameraModel } from "../overlap/types.ts";
+
+const near = (actual: number, expected: number, tolerance: number, message: string) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${message}: ${actual} != ${expected}`);
+
+// 20 MP, 8.8 mm lens with moderate barrel distortion and some decentering
+const PINHOLE: CameraModel = { f_m: 0.0088, sx_m: 2.4e-6, sy_m: 2.4e-6, w_px: 5472, h_px: 3648 };
+const LENS: CameraModel = { ...PINHOLE, k1: -0.12, k2: 0.05, k3: -0.01, p1: 0.0006, p2: -0.0004 };
+
+// Normalized coordinates out to the image corners (about ±0.75 × ±0.5)
+const SAMPLES: Array<[number, number]> = [[0, 0], [0.3, -0.1], [-0.6, 0.4], [0.74, 0.49], [-0.74, -0.49], [0.05, 0.45]];
+
+function runRoundTripCase() {
+  assert.equal(hasLensDistortion(PINHOLE), false);
+  assert.equal(hasLensDistortion(LENS), true);
+  assert.deepEqual(distortNormalized(PINHOLE, 0.3, -0.2), [0.3, -0.2], "no coefficients leave coordinates as they are");
+
+  for (const [x, y] of SAMPLES) {
+    const [xd, yd] = distortNormalized(LENS, x, y);
+    const [xu, yu] = undistortNormalized(LENS, xd, yd);
+    near(xu, x, 1e-9, `x round trip at (${x}, ${y})`);
+    near(yu, y, 1e-9, `y round trip at (${x}, ${y})`);
+  }
+  // Barrel distortion pulls the corners in
+  const [xc, yc] = distortNormalized(LENS, 0.74, 0.49);
+  assert.ok(Math.hypot(xc, yc) < Math.hypot(0.74, 0.49));
+}
+
+function runJacobianCase() {
+  const h = 1e-6;
+  for (const [x, y] of SAMPLES) {
+    const [dxdx, dxdy, dydx, dydy] = distortionJacobian(LENS, x, y);
+    const [xpx, ypx] = distortNormalized(LENS, x + h, y);
+    const [xmx, ymx] = distortNormalized(LENS, x - h, y);
+    const [xpy, ypy] = distortNormalized(LENS, x, y + h);
+    const [xmy, ymy] = distortNormalized(LENS, x, y - h);
+    near(dxdx, (xpx - xmx) / (2 * h), 1e-6, `dxd/dx at (${x}, ${y})`);
+    near(dxdy, (xpy - xmy) / (2 * h), 1e-6, `dxd/dy at (${x}, ${y})`);
+    near(dydx, (ypx - ymx) / (2 * h), 1e-6, `dyd/dx at (${x}, ${y})`);
+    near(dydy, (ypy - ymy) / (2 * h), 1e-6, `dyd/dy at (${x}, ${y})`);
+  }
+  assert.deepEqual(distortionJacobian(PINHOLE, 0.4, 0.2), [1, 0, 0, 1]);
+}
+
+function runProjectionCase() {
+  // Nadir camera 100 m above a ground point 20 m east and 10 m north
+  const RT = rotMat(0, 0, 0);
+  const pinhole = camRayToPixel(PINHOLE, RT, 0, 0, 100, 20, 10, 0);
+  const lens = camRayToPixel(LENS, RT, 0, 0, 100, 20, 10, 0);
+  assert.ok(pinhole && lens);
+  near(pinhole.u, 2736 + (0.0088 * 0.2) / 2.4e-6, 1e-6, "pinhole u");
+  const [xd, yd] = distortNormalized(LENS, 0.2, 0.1);
+  near(lens.u, 2736 + (0.0088 * xd) / 2.4e-6, 1e-6, "distorted u");
+  near(lens.v, 1824 + (0.0088 * yd) / 2.4e-6, 1e-6, "distorted v");
+  near(lens.range, pinhole.range, 1e-9, "distortion does not change the range");
+
+  // Barrel distortion brings rays just outside the pinhole frame into the image, so the
+  // footprint used to pick poses must be at least as wide
+  assert.ok(cameraDiagonalTan(LENS) > cameraDiagonalTan(PINHOLE));
+  const edgeX = (1.02 * 2736 * 2.4e-6) / 0.0088;
+  assert.equal(camRayToPixel(PINHOLE, RT, 0, 0, 100, edgeX * 100, 0, 0), null);
+  assert.ok(camRayToPixel(LENS, RT, 0, 0, 100, edgeX * 100, 0, 0));
+}
+
+runRoundTripCase();
+runJacobianCase();
+runProjectionCase();
+
+console.log("lens_distortion.test.ts passed");
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+
+import { isLineOfSightBlocked } from "../overlap/math3d.ts";
+
+// 64 × 64 DEM of 10 m pixels covering x ∈ [0, 640], y ∈ [0, 640]
+const SIZE = 64;
+const PIXEL_M = 10;
+const MAX_Y = SIZE * PIXEL_M;
+
+function dem(heightAt: (x: number, y: number) => number): { heights: Float32Array; maxZ: number } {
+  const heights = new Float32Array(SIZE * SIZE);
+  for (let row = 0; row < SIZE; row++) {
+    for (let col = 0; col < SIZE; col++) heights[row * SIZE + col] = heightAt((col + 0.5) * PIXEL_M, MAX_Y - (row + 0.5) * PIXEL_M);
+  }
+  return { heights, maxZ: heights.reduce((max, h) => Math.max(max, h), Number.NEGATIVE_INFINITY) };
+}
+
+const blocked = (
+  { heights, maxZ }: { heights: Float32Array; maxZ: number },
+  ground: [number, number, number],
+  camera: [number, number, number],
+) => isLineOfSightBlocked(heights, SIZE, 0, MAX_Y, PIXEL_M, maxZ, ...ground, ...camera, PIXEL_M);
+
+function runWallCase() {
+  // 300 m high wall across x ∈ [300, 330)
+  const wall = dem((x) => (x >= 300 && x < 330 ? 400 : 100));
+  assert.equal(blocked(wall, [100, 320, 100], [600, 320, 300]), true, "a low camera behind the wall cannot see the ground");
+  assert.equal(blocked(wall, [100, 320, 100], [600, 320, 3000]), false, "a high camera sees over the wall");
+  assert.equal(blocked(wall, [100, 320, 100], [200, 320, 300]), false, "a camera on the same side of the wall");
+  assert.equal(blocked(wall, [100, 320, 100], [105, 320, 110]), false, "nearly overhead cameras are never tested");
+}
+
+function runSlopeCase() {
+  // A steady 30 % slope must not shadow itself, looking up or down it
+  const slope = dem((x) => 100 + 0.3 * x);
+  assert.equal(blocked(slope, [200, 320, 160], [500, 320, 500]), false, "camera up the slope");
+  assert.equal(blocked(slope, [500, 320, 250], [100, 320, 400]), false, "camera down the slope");
+
+  // The ray leaving the DEM ends the march without a verdict
+  const flat = dem(() => 100);
+  assert.equal(blocked(flat, [600, 320, 100], [2000, 320, 101]), false);
+}
+
+runWallCase();
+runSlopeCase();
+
+console.log("occlusion.test.ts passed");
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+
+import type { LngLat } from "../domain/types.ts";
+import { WINGTRA_ONE_GEN_II } from "../domain/aircraft.ts";
+import { sampleCameraPositionsOnFlightPath } from "../components/MapFlightDirection/utils/geometry.ts";
+import { exportToWingtraFlightPlan } from "../interop/wingtra/convert.ts";
+import { splitFlightsByEndurance } from "../planning/flights.ts";
+import { generateClippedFlightLines } from "../planning/lines.ts";
+import { getCameraPitchDeg, getFlightPattern, getPassBearings, joinPasses } from "../planning/patterns.ts";
+
+const SQUARE: LngLat[] = [
+  [8.5, 47.0],
+  [8.507, 47.0],
+  [8.507, 47.0045],
+  [8.5, 47.0045],
+  [8.5, 47.0],
+];
+
+function runBearingsCase() {
+  assert.deepEqual(getPassBearings(30, {}), [30]);
+  assert.deepEqual(getPassBearings(300, { pattern: "crosshatch" }), [300, 30]);
+  assert.deepEqual(getPassBearings(0, { pattern: "oblique", obliquePassCount: 4 }), [0, 45, 90, 135]);
+  assert.deepEqual(getPassBearings(0, { pattern: "oblique", obliquePassCount: 9 }).length, 4, "pass count is capped");
+
+  assert.equal(getFlightPattern({ pattern: "oblique", payloadKind: "lidar" }), "crosshatch", "lidar has no tilted camera");
+  assert.equal(getCameraPitchDeg({ pattern: "oblique", cameraPitchDeg: 35 }), 35);
+  assert.equal(getCameraPitchDeg({ pattern: "crosshatch", cameraPitchDeg: 35 }), 0);
+}
+
+function runJoinCase() {
+  const bearings = getPassBearings(0, { pattern: "crosshatch" });
+  const passLines = bearings.map((bearing) => generateClippedFlightLines(SQUARE, bearing, 100));
+  const { flightLines, passes } = joinPasses(passLines, bearings);
+
+  assert.equal(flightLines.length, passLines[0].length + passLines[1].length);
+  assert.deepEqual(passes.map((pass) => [pass.bearingDeg, pass.lineStart, pass.lineEnd]), [
+    [0, 0, passLines[0].length],
+    [90, passLines[0].length, flightLines.length],
+  ]);
+  // The second grid starts at the corner where the first one ended, not across the area
+  const last = flightLines[passes[0].lineEnd - 1];
+  const next = flightLines[passes[1].lineStart];
+  const gap = Math.min(...[last[0], last[last.length - 1]].flatMap((a) => [next[0], next[next.length - 1]].map((b) => Math.hypot(a[0] - b[0], a[1] - b[1]))));
+  assert.ok(gap < 0.002, "passes are chained end to start");
+
+  // Flight split: segments never span two passes and carry their pass bearing
+  const flights = splitFlightsByEndurance(
+    [{ polygonId: "a", ring: SQUARE, bearingDeg: 0, lineSpacingM: 100, flightLines, passes }],
+    { home: [8.49, 47.0], maxFlightTimeSec: 3600, aircraft: WINGTRA_ONE_GEN_II },
+  );
+  const segments = flights.flatMap((flight) => flight.segments);
+  for (const segment of segments) {
+    const pass = passes.find((p) => segment.lineStart >= p.lineStart && segment.lineStart < p.lineEnd)!;
+    assert.ok(segment.lineEnd <= pass.lineEnd);
+    assert.equal(segment.bearingDeg, pass.bearingDeg);
+    assert.ok(segment.rings.length > 0);
+  }
+  assert.deepEqual([...new Set(segments.map((segment) => segment.bearingDeg))], [0, 90]);
+}
+
+function runObliquePoseCase() {
+  const path: [number, number, number][][] = [[[8.5, 47.0, 500], [8.5, 47.003, 500]]];
+  const nadir = sampleCameraPositionsOnFlightPath(path, 50);
+  assert.ok(nadir.every(([, , , , omega, phi]) => omega === 0 && phi === 0));
+
+  const forward = sampleCameraPositionsOnFlightPath(path, 50, { cameraPitchDeg: 30 });
+  assert.ok(forward.every(([, , , , omega, phi]) => omega === 30 && Math.abs(phi) < 1e-9), "tilt along image +y");
+
+  const rotated = sampleCameraPositionsOnFlightPath(path, 50, { cameraPitchDeg: 30, cameraYawOffsetDeg: 90 });
+  assert.ok(rotated.every(([, , , , omega, phi]) => Math.abs(omega) < 1e-9 && Math.abs(phi + 30) < 1e-9), "a rotated camera tilts about its other axis");
+}
+
+function runWingtraExportCase() {
+  const area = { ring: SQUARE, angleDeg: 10, altitudeAGL: 100, frontOverlap: 70, sideOverlap: 70 };
+  assert.equal(exportToWingtraFlightPlan([area]).flightPlan.items.length, 1);
+  const crosshatch = exportToWingtraFlightPlan([{ ...area, pattern: "crosshatch" }]).flightPlan.items as any[];
+  assert.deepEqual(crosshatch.map((item) => item.grid.angle), [10, 100]);
+  const oblique = exportToWingtraFlightPlan([{ ...area, pattern: "oblique", obliquePassCount: 3 }]).flightPlan.items as any[];
+  assert.deepEqual(oblique.map((item) => item.grid.angle), [10, 70, 130]);
+  assert.ok(oblique.every((item) => item.polygon.length === SQUARE.length));
+}
+
+runBearingsCase();
+runJoinCase();
+runObliquePoseCase();
+runWingtraExportCase();
+
+console.log("patterns.test.ts passed");
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+
+import { SONY_RX1R2 } from "../domain/camera.ts";
+import { WINGTRA_LIDAR_XT32M2X } from "../domain/lidar.ts";
+import {
+  buildLidarModel,
+  createCustomPayloadKey,
+  getCameraModel,
+  getLidarModel,
+  getPayloadRegistryVersion,
+  lidarSpecFromModel,
+  listCameraOptions,
+  normalizeCustomPayloads,
+  setCustomPayloads,
+  subscribePayloads,
+} from "../domain/payloads.ts";
+import { resolveCameraInfoFromWingtra } from "../interop/wingtra/convert.ts";
+
+const CUSTOM_CAMERA = {
+  key: "CUSTOM_CAMERA_PHASE_ONE",
+  name: "Phase One iXM-100",
+  model: { f_m: 0.035, sx_m: 3.76e-6, sy_m: 3.76e-6, w_px: 11664, h_px: 8750 },
+};
+
+function runLidarSpecCase() {
+  // Re-deriving the built-in lidar from its editable fields reproduces the model
+  const spec = lidarSpecFromModel("Copy", WINGTRA_LIDAR_XT32M2X);
+  const rebuilt = buildLidarModel("COPY", spec);
+  assert.deepEqual(rebuilt.effectivePointRates, WINGTRA_LIDAR_XT32M2X.effectivePointRates);
+  assert.equal(rebuilt.verticalFovMinDeg, WINGTRA_LIDAR_XT32M2X.verticalFovMinDeg);
+  assert.equal(rebuilt.verticalFovMaxDeg, WINGTRA_LIDAR_XT32M2X.verticalFovMaxDeg);
+  assert.ok(Math.abs(rebuilt.verticalResolutionDeg - WINGTRA_LIDAR_XT32M2X.verticalResolutionDeg) < 1e-9);
+
+  const narrow = buildLidarModel("NARROW", { ...spec, mappingHorizontalFovDeg: 400 });
+  assert.equal(narrow.mappingHorizontalFovDeg, spec.nativeHorizontalFovDeg, "the mapping sector cannot exceed the native FOV");
+}
+
+function runNormalizeCase() {
+  const normalized = normalizeCustomPayloads({
+    cameras: [
+      CUSTOM_CAMERA,
+      { ...CUSTOM_CAMERA, name: "Duplicate key" },
+      { key: "SONY_RX1R2", name: "Shadow", model: CUSTOM_CAMERA.model },
+      { key: "CUSTOM_CAMERA_BROKEN", name: "Broken", model: { ...CUSTOM_CAMERA.model, f_m: 0 } },
+    ],
+    lidars: [{ key: "CUSTOM_LIDAR_X", name: "  Lidar X ", model: buildLidarModel("ignored", lidarSpecFromModel("X", WINGTRA_LIDAR_XT32M2X)) }],
+  });
+  assert.deepEqual(normalized.cameras.map((camera) => camera.key), ["CUSTOM_CAMERA_PHASE_ONE"], "duplicates, built-in keys and unusable models are dropped");
+  assert.equal(normalized.lidars[0].name, "Lidar X");
+  assert.equal(normalized.lidars[0].model.key, "CUSTOM_LIDAR_X", "the model key follows the registry key");
+  assert.deepEqual(normalizeCustomPayloads("garbage"), { cameras: [], lidars: [] });
+}
+
+function runRegistryCase() {
+  let notified = 0;
+  const unsubscribe = subscribePayloads(() => { notified += 1; });
+  const version = getPayloadRegistryVersion();
+  setCustomPayloads({ cameras: [CUSTOM_CAMERA], lidars: [] });
+  assert.equal(notified, 1);
+  assert.equal(getPayloadRegistryVersion(), version + 1);
+
+  assert.equal(getCameraModel(CUSTOM_CAMERA.key).w_px, 11664);
+  assert.equal(getCameraModel("UNKNOWN"), SONY_RX1R2, "unknown keys fall back to the default camera");
+  assert.equal(getLidarModel(undefined), WINGTRA_LIDAR_XT32M2X);
+  assert.deepEqual(listCameraOptions().filter((option) => option.custom).map((option) => option.label), ["Phase One iXM-100"]);
+  assert.equal(createCustomPayloadKey("camera", "Phase One"), "CUSTOM_CAMERA_PHASE_ONE_2", "new keys never collide");
+
+  const resolved = resolveCameraInfoFromWingtra("Phase One iXM-100");
+  assert.equal(resolved.key, CUSTOM_CAMERA.key, "custom cameras resolve from payload names in imported plans");
+
+  setCustomPayloads({ cameras: [], lidars: [] });
+  assert.equal(getCameraModel(CUSTOM_CAMERA.key), SONY_RX1R2);
+  unsubscribe();
+  setCustomPayloads({ cameras: [], lidars: [] });
+  assert.equal(notified, 2, "unsubscribed listeners are not called");
+}
+
+runLidarSpecCase();
+runNormalizeCase();
+runRegistryCase();
+
+console.log("payloads.test.ts passed");
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+
+import type { LngLat } from "../domain/types.ts";
+import {
+  clipSegmentToPolygon,
+  clipSegmentToRings,
+  clipSweepLines,
+  createLocalProjection,
+  type XY,
+} from "../planning/clip.ts";
+import { generateClippedFlightLines } from "../planning/lines.ts";
+import { rasterizeRingsToMask } from "../overlap/rasterize.ts";
+
+const ORIGIN: LngLat = [8.54, 47.37];
+const projection = createLocalProjection(ORIGIN);
+
+function toLngLat(points: XY[]): LngLat[] {
+  return points.map((point) => projection.inverse(point));
+}
+
+function toXY(segments: LngLat[][]): XY[][] {
+  return segments.map((segment) => segment.map((point) => projection.forward(point)));
+}
+
+function assertClose(actual: number, expected: number, toleranceM: number, message: string) {
+  assert.ok(Math.abs(actual - expected) <= toleranceM, `${message}: expected ${expected}, got ${actual}`);
+}
+
+function runConcaveSegmentCase() {
+  // U-shape opening north: legs x ∈ [0, 100] and [200, 300], base y ∈ [0, 100]
+  const rings: XY[][] = [[[0, 0], [300, 0], [300, 300], [200, 300], [200, 100], [100, 100], [100, 300], [0, 300]]];
+  const across = clipSegmentToRings([-50, 200], [350, 200], rings);
+  assert.equal(across.length, 2, "a line across both legs of a U must yield two pieces");
+  assertClose(across[0][0] * 400 - 50, 0, 1e-6, "first piece start");
+  assertClose(across[0][1] * 400 - 50, 100, 1e-6, "first piece end");
+  assertClose(across[1][0] * 400 - 50, 200, 1e-6, "second piece start");
+  assertClose(across[1][1] * 400 - 50, 300, 1e-6, "second piece end");
+
+  const base = clipSegmentToRings([-50, 50], [350, 50], rings);
+  assert.equal(base.length, 1, "a line through the base must stay in one piece");
+
+  // Running along the inner edge x = 100 and touching the reflex vertex must not split the piece
+  const alongEdge = clipSegmentToRings([100, -50], [100, 350], rings);
+  assert.equal(alongEdge.length, 1, "a line along an edge should not create spurious gaps");
+  assertClose(alongEdge[0][0] * 400 - 50, 0, 1e-6, "edge-aligned piece start");
+
+  // Touching a reflex vertex from the inside keeps a single interval
+  const notch: XY[][] = [[[0, 0], [100, 50], [200, 0], [200, 100], [0, 100]]];
+  const throughVertex = clipSegmentToRings([-10, 50], [210, 50], notch);
+  assert.equal(throughVertex.length, 1, "passing through a reflex vertex should merge adjacent inside pieces");
+  assertClose(throughVertex[0][0] * 220 - 10, 0, 1e-6, "vertex piece start");
+  assertClose(throughVertex[0][1] * 220 - 10, 200, 1e-6, "vertex piece end");
+}
+
+function runMultiHoleCase() {
+  const outer: XY[] = [[0, 0], [400, 0], [400, 400], [0, 400]];
+  const holeA: XY[] = [[50, 50], [150, 50], [150, 350], [50, 350]];
+  const holeB: XY[] = [[250, 50], [350, 50], [350, 350], [250, 350]];
+  const polygon = [toLngLat(outer), toLngLat(holeA), toLngLat(holeB)];
+
+  const pieces = toXY(clipSegmentToPolygon(projection.inverse([-20, 200]), projection.inverse([420, 200]), polygon, projection));
+  assert.equal(pieces.length, 3, "a line across two holes must yield three pieces");
+  const expected = [[0, 50], [150, 250], [350, 400]];
+  pieces.forEach((piece, index) => {
+    assertClose(piece[0][0], expected[index][0], 0.01, `piece ${index} start`);
+    assertClose(piece[1][0], expected[index][1], 0.01, `piece ${index} end`);
+  });
+
+  // East–west lines every 20 m at y = 5..395: lines through the holes split in three, the margins stay whole
+  const lines = clipSweepLines(polygon, 90, 20, { center: projection.inverse([200, 205]) });
+  assert.equal(lines.length, 20, "every line over the polygon should be kept");
+  const inside = lines.filter((line) => Math.abs(line.index) <= 7);
+  assert.ok(inside.length > 0 && inside.every((line) => line.segments.length === 3), "lines crossing the holes should have three segments");
+  const margin = lines.filter((line) => Math.abs(line.index) === 8);
+  assert.equal(margin.length, 2, "both margin lines should exist");
+  assert.ok(margin.every((line) => line.segments.length === 1), "lines below and above the holes should stay whole");
+
+  const totalLength = lines.reduce(
+    (sum, line) => sum + toXY(line.segments).reduce((acc, [a, b]) => acc + Math.hypot(b[0] - a[0], b[1] - a[1]), 0),
+    0,
+  );
+  // 15 of the 20 lines cross both holes
+  assertClose(totalLength, 20 * 400 - 15 * 200, 0.1, "total clipped length over the holed polygon");
+}
+
+function runMultiPolygonCase() {
+  const west = [toLngLat([[0, 0], [100, 0], [100, 100], [0, 100]])];
+  const east = [toLngLat([[200, 0], [300, 0], [300, 100], [200, 100]])];
+  const pieces = toXY(clipSegmentToPolygon(projection.inverse([-10, 50]), projection.inverse([310, 50]), [west, east], projection));
+  assert.equal(pieces.length, 2, "disjoint parts should yield one piece each");
+  assertClose(pieces[0][1][0] - pieces[0][0][0], 100, 0.01, "west piece length");
+  assertClose(pieces[1][1][0] - pieces[1][0][0], 100, 0.01, "east piece length");
+}
+
+function runFlightLineGenerationCase() {
+  // Same U-shape; north–south lines over the legs must keep the full height, lines over the
+  // notch must stop at the base, and every segment runs in the flight direction.
+  const ring = toLngLat([[0, 0], [300, 0], [300, 300], [200, 300], [200, 100], [100, 100], [100, 300], [0, 300]]);
+  const lines = toXY(generateClippedFlightLines(ring, 0, 25));
+  assert.ok(lines.length > 0, "expected flight lines");
+  for (const [start, end] of lines) {
+    assert.ok(end[1] > start[1], "segments should run along the flight bearing");
+    const length = end[1] - start[1];
+    const overNotch = start[0] > 100.01 && start[0] < 199.99;
+    assertClose(length, overNotch ? 100 : 300, 0.05, `line at x=${start[0].toFixed(1)}`);
+  }
+
+  // East–west lines cut through both legs of the U and are returned as separate segments
+  const eastWest = toXY(generateClippedFlightLines(ring, 90, 25));
+  const upper = eastWest.filter(([start]) => start[1] > 100.01);
+  assert.ok(upper.length >= 2 && upper.every(([start, end]) => Math.abs(end[0] - start[0] - 100) < 0.05), "upper lines should cover each leg separately");
+}
+
+function runHoleMaskCase() {
+  // Worker masks use the same even–odd rule: a hole passed with its outer ring stays empty
+  const size = 32;
+  const outer: XY[] = [[2, 2], [30, 2], [30, 30], [2, 30]];
+  const hole: XY[] = [[10, 10], [20, 10], [20, 20], [10, 20]];
+  const mask = rasterizeRingsToMask([outer, hole], size);
+  const at = (col: number, row: number) => mask[row * size + col];
+  assert.equal(at(5, 5), 1, "pixels inside the outer ring should be set");
+  assert.equal(at(15, 15), 0, "pixels inside the hole should be excluded");
+  const solid = rasterizeRingsToMask([outer], size);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const inHole = col > 10 && col < 20 && row >= 10 && row < 20;
+      assert.equal(mask[row * size + col], inHole ? 0 : solid[row * size + col], `mask pixel ${col},${row}`);
+    }
+  }
+}
+
+runConcaveSegmentCase();
+runMultiHoleCase();
+runMultiPolygonCase();
+runFlightLineGenerationCase();
+runHoleMaskCase();
+
+console.log("polygon_clip.test.ts passed");
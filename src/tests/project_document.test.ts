@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+
+import { setCustomPayloads } from "../domain/payloads.ts";
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  PROJECT_FORMAT,
+  PROJECT_SCHEMA_VERSION,
+  createProjectDocument,
+  parseProjectFile,
+  referencedCustomPayloads,
+  serializeProject,
+  type ProjectState,
+} from "../services/projectDocument.ts";
+
+const RING: [number, number][] = [[8.54, 47.37], [8.55, 47.37], [8.55, 47.38], [8.54, 47.38], [8.54, 47.37]];
+const HOLE: [number, number][] = [[8.544, 47.374], [8.546, 47.374], [8.546, 47.376], [8.544, 47.374]];
+
+const STATE: ProjectState = {
+  polygons: [
+    { id: "a", name: "North field", source: "kml", ring: RING, holes: [HOLE] },
+    { id: "b", ring: RING },
+  ],
+  paramsByPolygon: {
+    a: { altitudeAGL: 120, frontOverlap: 75, sideOverlap: 65, cameraKey: "MAP61_17MM" },
+    b: { payloadKind: "lidar", altitudeAGL: 90, frontOverlap: 0, sideOverlap: 50, speedMps: 14 },
+  },
+  bearingOverrides: { a: { bearingDeg: 42, lineSpacingM: 55, source: "user" } },
+  importedOriginals: { b: { bearingDeg: 10, lineSpacingM: 40 } },
+  settings: {
+    ...DEFAULT_PROJECT_SETTINGS,
+    altitudeMode: "terrain-following",
+    wind: { speedMps: 6, fromDeg: 270 },
+    homePoint: [8.53, 47.36],
+    avoidAirspace: true,
+  },
+  airspaceZones: [{ id: "ctr", name: "CTR", ring: RING, floorM: null, ceilingM: 900 }],
+};
+
+function runRoundTripCase() {
+  const doc = createProjectDocument(STATE, { name: "  Survey  " }, new Date("2026-01-02T03:04:05Z"));
+  assert.equal(doc.format, PROJECT_FORMAT);
+  assert.equal(doc.version, PROJECT_SCHEMA_VERSION);
+  assert.equal(doc.name, "Survey", "names should be trimmed");
+  assert.equal(doc.createdAt, "2026-01-02T03:04:05.000Z");
+  assert.equal(doc.updatedAt, doc.createdAt);
+
+  const reloaded = parseProjectFile(serializeProject(doc));
+  assert.deepEqual(reloaded, doc, "a saved project should load back unchanged");
+
+  const resaved = createProjectDocument(reloaded, reloaded, new Date("2026-02-01T00:00:00Z"));
+  assert.equal(resaved.id, doc.id, "re-saving keeps the project identity");
+  assert.equal(resaved.createdAt, doc.createdAt);
+  assert.equal(resaved.updatedAt, "2026-02-01T00:00:00.000Z");
+}
+
+function runDefaultsCase() {
+  // A minimal hand-written file: missing settings fall back to defaults, broken areas are dropped
+  const doc = parseProjectFile(JSON.stringify({
+    format: PROJECT_FORMAT,
+    version: 1,
+    polygons: [
+      { id: "ok", ring: RING, holes: [HOLE, [[0, 0]]] },
+      { id: "too-short", ring: [[0, 0], [1, 1]] },
+      { ring: RING },
+    ],
+    settings: { altitudeMode: "sideways", minClearanceM: 75, wind: { speedMps: "fast" } },
+  }));
+  assert.deepEqual(doc.polygons.map((polygon) => polygon.id), ["ok"]);
+  assert.equal(doc.polygons[0].holes?.length, 1, "invalid holes should be dropped");
+  assert.equal(doc.name, "Untitled project");
+  assert.ok(doc.id.length > 0, "a project without id gets one");
+  assert.equal(doc.settings.altitudeMode, DEFAULT_PROJECT_SETTINGS.altitudeMode, "unknown altitude modes fall back to the default");
+  assert.equal(doc.settings.minClearanceM, 75);
+  assert.deepEqual(doc.settings.wind, DEFAULT_PROJECT_SETTINGS.wind);
+  assert.equal(doc.settings.homePoint, null);
+  assert.deepEqual(doc.paramsByPolygon, {});
+  assert.deepEqual(doc.airspaceZones, []);
+}
+
+function runCustomPayloadCase() {
+  const camera = {
+    key: "CUSTOM_CAMERA_PHASE_ONE",
+    name: "Phase One iXM-100",
+    model: { f_m: 0.035, sx_m: 3.76e-6, sy_m: 3.76e-6, w_px: 11664, h_px: 8750 },
+  };
+  const unused = { ...camera, key: "CUSTOM_CAMERA_UNUSED", name: "Unused" };
+  setCustomPayloads({ cameras: [camera, unused], lidars: [] });
+  const paramsByPolygon = { ...STATE.paramsByPolygon, a: { ...STATE.paramsByPolygon.a, cameraKey: camera.key } };
+
+  // Only the sensors the areas use are embedded
+  const customPayloads = referencedCustomPayloads(paramsByPolygon);
+  assert.deepEqual(customPayloads.cameras.map((c) => c.key), [camera.key]);
+  assert.deepEqual(customPayloads.lidars, []);
+
+  const doc = createProjectDocument({ ...STATE, paramsByPolygon, customPayloads }, { name: "Custom" });
+  const reloaded = parseProjectFile(serializeProject(doc));
+  assert.deepEqual(reloaded.customPayloads, customPayloads, "custom sensors travel with the project file");
+  setCustomPayloads({ cameras: [], lidars: [] });
+}
+
+function runRejectCase() {
+  assert.throws(() => parseProjectFile("not json"), /not valid JSON/);
+  assert.throws(() => parseProjectFile(JSON.stringify({ type: "FeatureCollection" })), /Not a project file/);
+  assert.throws(() => parseProjectFile(JSON.stringify({ format: PROJECT_FORMAT })), /schema version/);
+  assert.throws(
+    () => parseProjectFile(JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_SCHEMA_VERSION + 1 })),
+    /newer version/,
+    "files from a newer schema must not be loaded lossily",
+  );
+}
+
+runRoundTripCase();
+runDefaultsCase();
+runCustomPayloadCase();
+runRejectCase();
+
+console.log("project_document.test.ts passed");
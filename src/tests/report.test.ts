@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+
+import type { LngLat } from "../domain/types.ts";
+import type { GisExportArea } from "../interop/gis/types.ts";
+import { areaSizeM2, missionReportToCsv, missionReportToHtml, reportTable, type MissionReport } from "../interop/report/missionReport.ts";
+
+const RING: LngLat[] = [[8.5, 47.0], [8.51, 47.0], [8.51, 47.01], [8.5, 47.01], [8.5, 47.0]];
+
+const CAMERA_AREA: GisExportArea = {
+  polygonId: "a",
+  name: "North, upper field",
+  ring: RING,
+  params: { payloadKind: "camera", cameraKey: "SONY_RX1R2", altitudeAGL: 120, frontOverlap: 75, sideOverlap: 65 },
+  bearingDeg: 30,
+  flightLines: [[[8.501, 47.0], [8.501, 47.01]], [[8.502, 47.0], [8.502, 47.01]]],
+  triggerPoints: [[8.501, 47.001, 612.3], [8.501, 47.002, 613.1], [8.501, 47.003, 613.9]],
+  flightTimeSec: 540,
+  stats: { metricKind: "gsd", min: 0.0151, mean: 0.0163, max: 0.0182, sampleCount: 3, areaM2: 760_000 },
+};
+
+const LIDAR_AREA: GisExportArea = {
+  polygonId: "b",
+  ring: RING,
+  params: { payloadKind: "lidar", lidarKey: "L2", altitudeAGL: 80, frontOverlap: 0, sideOverlap: 50, speedMps: 12 },
+  bearingDeg: 90,
+  flightLines: [[[8.5, 47.005], [8.51, 47.005]]],
+  triggerPoints: [],
+  flightTimeSec: 120,
+  stats: { metricKind: "density", min: 80, mean: 142.25, max: 210, sampleCount: 1, areaM2: 240_000 },
+};
+
+const REPORT: MissionReport = {
+  title: "Farm <survey>",
+  generatedAt: new Date(Date.UTC(2026, 0, 2)),
+  areas: [CAMERA_AREA, LIDAR_AREA],
+  histograms: [{ metricKind: "gsd", bins: [{ bin: 0.0155, areaM2: 300_000 }, { bin: 0.017, areaM2: 460_000 }] }],
+  mapImage: "data:image/png;base64,AAAA",
+};
+
+function runTableCase() {
+  const { headers, rows, totals } = reportTable(REPORT.areas);
+  const column = (header: string) => headers.indexOf(header);
+  assert.equal(rows.length, 2);
+  assert.equal(rows[0][column("GSD mean (cm/px)")], 1.63);
+  assert.equal(rows[0][column("Density mean (pts/m²)")], null);
+  assert.equal(rows[0][column("Images")], 3);
+  assert.equal(rows[1][column("Area")], "Area 2", "unnamed areas are numbered");
+  assert.equal(rows[1][column("Front overlap (%)")], null, "lidar has no front overlap");
+  assert.equal(rows[1][column("Images")], null);
+  assert.equal(rows[1][column("Density mean (pts/m²)")], 142.3);
+  assert.equal(rows[1][column("Sensor")], "L2");
+
+  assert.equal(totals[0], "Total");
+  assert.equal(totals[column("Size (ha)")], 100);
+  assert.equal(totals[column("Lines")], 3);
+  assert.equal(totals[column("Images")], 3);
+  assert.equal(totals[column("Est. time (min)")], 11);
+  assert.equal(totals[column("Altitude AGL (m)")], null);
+
+  // Without analysis the size comes from the polygon (0.01° square at 47°N: ~1113 m × 759 m)
+  const size = areaSizeM2({ ...CAMERA_AREA, stats: undefined });
+  assert.ok(Math.abs(size - 845_000) < 5_000, `polygon area ${size}`);
+}
+
+function runCsvCase() {
+  const lines = missionReportToCsv(REPORT).split("\r\n");
+  assert.ok(lines[0].startsWith("Area,Payload,Sensor,Size (ha),"));
+  assert.ok(lines[1].startsWith('"North, upper field",camera,SONY_RX1R2,76,120,75,65,30,2,3,9,1.51,1.63,1.82,,,'), lines[1]);
+  assert.ok(lines[3].startsWith("Total,,,100,"));
+  assert.deepEqual(lines.slice(4), ["", "GSD (cm/px),Area (ha)", "1.55,30", "1.7,46", ""]);
+}
+
+function runHtmlCase() {
+  const html = missionReportToHtml(REPORT);
+  assert.ok(html.includes("<title>Farm &lt;survey&gt;</title>"), "title is escaped");
+  assert.ok(html.includes('<img class="map" src="data:image/png;base64,AAAA"'));
+  assert.equal((html.match(/<tbody><tr>/g) ?? []).length, 1);
+  assert.equal((html.match(/<svg /g) ?? []).length, 1, "one chart per histogram");
+  assert.equal((html.match(/<rect /g) ?? []).length, 2);
+  assert.ok(!missionReportToHtml({ ...REPORT, mapImage: null, histograms: [] }).includes("<img"));
+}
+
+runTableCase();
+runCsvCase();
+runHtmlCase();
+
+console.log("report.test.ts passed");
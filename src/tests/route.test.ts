@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+
+import type { LngLat } from "../domain/types.ts";
+import { build3DFlightPath } from "../components/MapFlightDirection/utils/geometry.ts";
+import { generateClippedFlightLines, haversine } from "../planning/lines.ts";
+import { areaEntryExitOptions, orderAreasForRoute, orientAreaLines, type RouteArea, type RouteAreaVisit } from "../planning/route.ts";
+
+const SPACING = 60;
+const HOME: LngLat = [8.5, 47.0];
+
+function square(lng: number, lat: number, size = 0.006): LngLat[] {
+  return [[lng, lat], [lng + size, lat], [lng + size, lat + size * 0.7], [lng, lat + size * 0.7], [lng, lat]];
+}
+
+function area(polygonId: string, ring: LngLat[] | LngLat[][]): RouteArea {
+  return { polygonId, flightLines: generateClippedFlightLines(ring, 0, SPACING), lineSpacingM: SPACING };
+}
+
+// Straight-line length of home → visits → home, flying each area from entry to exit
+function loopLength(visits: RouteAreaVisit[]): number {
+  let position = HOME;
+  let total = 0;
+  for (const visit of visits) {
+    total += haversine(position, visit.entry);
+    position = visit.exit;
+  }
+  return total + haversine(position, HOME);
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) => permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest]));
+}
+
+// The flown lines run entry → exit, every sweep in one direction, and consecutive sweeps alternate
+function assertVisitMatchesLines(visit: RouteAreaVisit, lines: LngLat[][]) {
+  assert.deepEqual(lines[0][0], visit.entry, `${visit.polygonId}: flown from the entry`);
+  const last = lines[lines.length - 1];
+  assert.deepEqual(last[last.length - 1], visit.exit, `${visit.polygonId}: left at the exit`);
+}
+
+function runOrderCase() {
+  const areas = [
+    area("far", square(8.53, 47.0)),
+    area("near", square(8.505, 47.0)),
+    area("mid", square(8.517, 47.006)),
+  ];
+  const visits = orderAreasForRoute(areas, HOME);
+  assert.deepEqual(visits.map((visit) => visit.polygonId).sort(), ["far", "mid", "near"]);
+
+  // Exact ordering: no other order or entry choice gives a shorter loop
+  const options = areas.map(areaEntryExitOptions);
+  let best = Number.POSITIVE_INFINITY;
+  for (const order of permutations([0, 1, 2])) {
+    for (let variant = 0; variant < 4 ** 3; variant++) {
+      const choice = order.map((index, k) => options[index][Math.floor(variant / 4 ** k) % 4]);
+      best = Math.min(best, loopLength(choice));
+    }
+  }
+  assert.ok(Math.abs(loopLength(visits) - best) < 1e-6, "the route is the shortest loop");
+  assert.equal(orderAreasForRoute([], HOME).length, 0);
+
+  for (const visit of visits) {
+    const source = areas.find((a) => a.polygonId === visit.polygonId)!;
+    assertVisitMatchesLines(visit, orientAreaLines(source.flightLines, visit, SPACING));
+  }
+}
+
+function runHoleCase() {
+  const outer = square(8.505, 47.0, 0.01);
+  const hole = square(8.508, 47.002, 0.003);
+  const holed = area("holed", [outer, hole]);
+  assert.ok(holed.flightLines.length > generateClippedFlightLines(outer, 0, SPACING).length, "the hole splits sweeps");
+
+  for (const visit of areaEntryExitOptions(holed)) {
+    const lines = orientAreaLines(holed.flightLines, visit, SPACING);
+    assertVisitMatchesLines(visit, lines);
+    // Pieces of one sweep are flown in the same direction, one after the other
+    for (let i = 1; i < lines.length; i++) {
+      const previous = lines[i - 1];
+      const line = lines[i];
+      if (Math.abs(previous[0][0] - line[0][0]) > 1e-9) continue;
+      const forward = (l: LngLat[]) => l[l.length - 1][1] > l[0][1];
+      assert.equal(forward(previous), forward(line), "pieces of a sweep share a direction");
+      assert.ok(
+        haversine(previous[previous.length - 1], line[0]) < haversine(previous[0], line[0]),
+        "the next piece continues ahead of the previous one",
+      );
+    }
+  }
+
+  // The 3D path flies the same lines as the route's visit
+  const [visit] = orderAreasForRoute([holed], HOME);
+  const path = build3DFlightPath(holed.flightLines, [], SPACING, { altitudeAGL: 100, mode: "legacy", visit });
+  const sweeps = path.filter((_, i) => i % 2 === 0);
+  const expected = orientAreaLines(holed.flightLines, visit, SPACING);
+  assert.equal(sweeps.length, expected.length);
+  sweeps.forEach((sweep, i) => {
+    assert.deepEqual(sweep[0].slice(0, 2), expected[i][0]);
+    assert.deepEqual(sweep[sweep.length - 1].slice(0, 2), expected[i][expected[i].length - 1]);
+  });
+}
+
+runOrderCase();
+runHoleCase();
+
+console.log("route.test.ts passed");
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+
+import { SONY_RX1R2, calculateGSD } from "../domain/camera.ts";
+import { WINGTRA_LIDAR_XT32M2X, getLidarMappingFovDeg, lidarDeliverableDensity } from "../domain/lidar.ts";
+import type { FlightParams } from "../domain/types.ts";
+import {
+  DEFAULT_TARGET_LIMITS,
+  hasTarget,
+  maxHeightForGsd,
+  percentile,
+  solveTargetParams,
+} from "../planning/targets.ts";
+
+const flat = (altitudeAGL: number) => [altitudeAGL, altitudeAGL, altitudeAGL];
+
+// Legacy-like mode: altitude is set from the highest ground, so low ground sits further below
+const relief = (reliefM: number[]) => (altitudeAGL: number) => reliefM.map((r) => altitudeAGL + r);
+
+function runPercentileCase() {
+  assert.equal(percentile([3, 1, 2], 50), 2);
+  assert.equal(percentile([0, 10], 90), 9);
+  assert.ok(Number.isNaN(percentile([], 90)));
+  assert.equal(percentile([1, NaN, 5], 100), 5, "non-finite samples are ignored");
+}
+
+function runCameraCase() {
+  const params: FlightParams = { altitudeAGL: 100, frontOverlap: 70, sideOverlap: 70, targetGsdM: 0.02 };
+  assert.ok(hasTarget(params));
+  assert.ok(!hasTarget({ ...params, targetGsdM: undefined }));
+
+  const onFlat = solveTargetParams(params, { camera: SONY_RX1R2 }, flat);
+  const expected = maxHeightForGsd(SONY_RX1R2, 0.02);
+  assert.ok(onFlat.feasible);
+  assert.ok(Math.abs(onFlat.params.altitudeAGL - expected) < 0.5, "flat ground flies at the GSD height");
+  assert.ok(onFlat.params.altitudeAGL <= expected, "altitude is rounded down so the target still holds");
+  assert.ok(Math.abs(calculateGSD(SONY_RX1R2, onFlat.params.altitudeAGL) - 0.02) < 0.0002);
+
+  const onRelief = solveTargetParams(params, { camera: SONY_RX1R2 }, relief([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]));
+  assert.ok(onRelief.feasible);
+  assert.ok(onRelief.params.altitudeAGL < onFlat.params.altitudeAGL - 80, "terrain relief lowers the commanded altitude");
+  assert.ok(onRelief.achieved <= 0.02 + 1e-6, "the target percentile meets the target GSD");
+
+  const tooFine = solveTargetParams({ ...params, targetGsdM: 0.001 }, { camera: SONY_RX1R2 }, flat);
+  assert.ok(!tooFine.feasible, "a GSD below what the lowest altitude reaches is flagged");
+  assert.equal(tooFine.params.altitudeAGL, DEFAULT_TARGET_LIMITS.minAltitudeAGL);
+}
+
+function runLidarCase() {
+  const model = WINGTRA_LIDAR_XT32M2X;
+  const params: FlightParams = {
+    payloadKind: "lidar",
+    altitudeAGL: 100,
+    frontOverlap: 0,
+    sideOverlap: 50,
+    speedMps: model.defaultSpeedMps,
+    targetDensityPtsM2: 50,
+  };
+  const densityAt = (p: FlightParams, heightM: number) => lidarDeliverableDensity(
+    model, heightM, p.sideOverlap, p.speedMps!, p.lidarReturnMode ?? "single", getLidarMappingFovDeg(model),
+  );
+
+  const solved = solveTargetParams(params, { lidar: model }, flat);
+  assert.ok(solved.feasible);
+  assert.equal(solved.params.speedMps, params.speedMps, "altitude alone suffices: speed is unchanged");
+  assert.ok(densityAt(solved.params, solved.params.altitudeAGL) >= 50);
+
+  // Ask for more than the lowest altitude gives: the solver slows down first …
+  const atMin = densityAt(params, DEFAULT_TARGET_LIMITS.minAltitudeAGL);
+  const slower = solveTargetParams({ ...params, targetDensityPtsM2: atMin * 1.2 }, { lidar: model }, flat);
+  assert.ok(slower.feasible);
+  assert.equal(slower.params.altitudeAGL, DEFAULT_TARGET_LIMITS.minAltitudeAGL);
+  assert.ok(slower.params.speedMps! < params.speedMps!);
+  assert.equal(slower.params.sideOverlap, params.sideOverlap);
+
+  // … and only adds side overlap once the slowest speed is reached
+  const denser = densityAt({ ...params, speedMps: DEFAULT_TARGET_LIMITS.minSpeedMps }, DEFAULT_TARGET_LIMITS.minAltitudeAGL) * 1.3;
+  const overlapped = solveTargetParams({ ...params, targetDensityPtsM2: denser }, { lidar: model }, flat);
+  assert.ok(overlapped.feasible);
+  assert.equal(overlapped.params.speedMps, DEFAULT_TARGET_LIMITS.minSpeedMps);
+  assert.ok(overlapped.params.sideOverlap > params.sideOverlap);
+
+  const impossible = solveTargetParams({ ...params, targetDensityPtsM2: atMin * 100 }, { lidar: model }, flat);
+  assert.ok(!impossible.feasible);
+  assert.equal(impossible.params.sideOverlap, DEFAULT_TARGET_LIMITS.maxSideOverlapPct);
+}
+
+runPercentileCase();
+runCameraCase();
+runLidarCase();
+
+console.log("targets.test.ts passed");
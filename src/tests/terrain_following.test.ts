@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import * as egm96 from "egm96-universal";
+
+import { build3DFlightPath, buildTerrainFollowingProfile, haversineDistance } from "../components/MapFlightDirection/utils/geometry.ts";
+import type { TerrainTile } from "../utils/terrainAspectHybrid.ts";
+
+const Z = 13;
+const SIZE = 256;
+const TILE_X = 4289;
+const TILE_Y = 2896;
+const BASE_M = 500;
+const AGL = 100;
+
+function pixelToLngLat(px: number, py: number): [number, number] {
+  const scale = 2 ** Z * SIZE;
+  const lng = ((TILE_X * SIZE + px) / scale) * 360 - 180;
+  const n = Math.PI - 2 * Math.PI * ((TILE_Y * SIZE + py) / scale);
+  return [lng, (180 / Math.PI) * Math.atan(Math.sinh(n))];
+}
+
+function demTile(heightAt: (col: number) => number): TerrainTile {
+  const data = new Float32Array(SIZE * SIZE);
+  for (let row = 0; row < SIZE; row++) {
+    for (let col = 0; col < SIZE; col++) data[row * SIZE + col] = heightAt(col);
+  }
+  return { z: Z, x: TILE_X, y: TILE_Y, width: SIZE, height: SIZE, data, format: "dem" };
+}
+
+// 200 m ridge across columns 98..158, much steeper than the allowed gradient
+const ridge = (col: number) => BASE_M + 200 * Math.max(0, 1 - Math.abs(col - 128) / 30);
+const RIDGE = demTile(ridge);
+const FLAT = demTile(() => BASE_M);
+const LINE: [number, number][] = [pixelToLngLat(20.5, 128.5), pixelToLngLat(236.5, 128.5)];
+
+const groundWgs84 = ([lng, lat]: [number, number], heightAt: (col: number) => number) => {
+  const scale = 2 ** Z * SIZE;
+  const col = Math.floor(((lng + 180) / 360) * scale - TILE_X * SIZE);
+  return egm96.egm96ToEllipsoid(lat, lng, heightAt(col));
+};
+
+function runGradientCase() {
+  const maxGradient = 0.15;
+  const profile = buildTerrainFollowingProfile(LINE, [RIDGE], AGL, maxGradient);
+  assert.ok(profile.length > 2, "the ridge needs intermediate vertices");
+  assert.deepEqual(profile[0].slice(0, 2), LINE[0]);
+  assert.deepEqual(profile[profile.length - 1].slice(0, 2), LINE[1]);
+
+  for (let i = 1; i < profile.length; i++) {
+    const run = haversineDistance([profile[i - 1][0], profile[i - 1][1]], [profile[i][0], profile[i][1]]);
+    const rise = Math.abs(profile[i][2] - profile[i - 1][2]);
+    assert.ok(rise <= maxGradient * run * 1.01 + 1e-6, `gradient ${rise / run} between vertices ${i - 1} and ${i}`);
+  }
+  for (const vertex of profile) {
+    assert.ok(vertex[2] >= groundWgs84([vertex[0], vertex[1]], ridge) + AGL - 1e-6, "every vertex clears terrain + AGL");
+  }
+  const top = Math.max(...profile.map((vertex) => vertex[2]));
+  const crest = groundWgs84(pixelToLngLat(128.5, 128.5), ridge) + AGL;
+  assert.ok(top >= crest - 1e-6 && top < crest + 5, "the profile passes the crest at AGL, not far above it");
+
+  // Climbing starts before the foot of the ridge, since the slope is steeper than allowed
+  const foot = pixelToLngLat(97.5, 128.5);
+  const next = profile.findIndex((vertex) => vertex[0] >= foot[0]);
+  const [a, b] = [profile[next - 1], profile[next]];
+  const atFoot = a[2] + ((foot[0] - a[0]) / (b[0] - a[0])) * (b[2] - a[2]);
+  assert.ok(atFoot > groundWgs84(foot, ridge) + AGL + 50, "the aircraft is already climbing at the foot");
+}
+
+function runFlatAndRunoutCase() {
+  const flat = buildTerrainFollowingProfile(LINE, [FLAT], AGL, 0.15);
+  assert.equal(flat.length, 2, "flat terrain simplifies to the line ends");
+  for (const vertex of flat) {
+    assert.ok(Math.abs(vertex[2] - (groundWgs84([vertex[0], vertex[1]], () => BASE_M) + AGL)) < 1);
+  }
+
+  // The ridge sits in the run-out past the line end: the in-area part starts climbing for it
+  const short: [number, number][] = [pixelToLngLat(20.5, 128.5), pixelToLngLat(90.5, 128.5)];
+  const withoutRunout = buildTerrainFollowingProfile(short, [RIDGE], AGL, 0.15);
+  const withRunout = buildTerrainFollowingProfile(short, [RIDGE], AGL, 0.15, 800);
+  assert.deepEqual(withRunout[0].slice(0, 2), short[0], "run-outs are not part of the returned profile");
+  assert.deepEqual(withRunout[withRunout.length - 1].slice(0, 2), short[1]);
+  assert.ok(withRunout[withRunout.length - 1][2] > withoutRunout[withoutRunout.length - 1][2] + 50);
+}
+
+function runConnectorCase() {
+  const lines = [LINE, [pixelToLngLat(20.5, 120.5), pixelToLngLat(236.5, 120.5)]] as number[][][];
+  // A knoll in the turn between the two sweeps lifts the min-clearance turn, not the run-outs
+  const knoll = FLAT.data.slice() as Float32Array;
+  for (let row = 121; row < 128; row++) {
+    for (let col = 236; col < 250; col++) knoll[row * SIZE + col] = BASE_M + 200;
+  }
+  const tiles = [{ ...FLAT, data: knoll }];
+  for (const mode of ["legacy", "min-clearance"] as const) {
+    const path = build3DFlightPath(lines, tiles, 100, { altitudeAGL: AGL, mode, turnExtendM: 60 });
+    assert.equal(path.length, 3);
+    const [sweep, connector] = path;
+    const end = sweep[sweep.length - 1];
+    assert.deepEqual(connector[0], end, `${mode}: the connector starts at the sweep end`);
+    // The run-out continues straight at sweep altitude before the turn
+    assert.equal(connector[1][2], end[2], `${mode}: run-out point at sweep altitude`);
+    assert.ok(Math.abs(haversineDistance([end[0], end[1]], [connector[1][0], connector[1][1]]) - 60) < 0.5);
+  }
+
+  const following = build3DFlightPath(lines, [FLAT], 100, { altitudeAGL: AGL, mode: "terrain-following", turnExtendM: 60 });
+  const connector = following[1];
+  assert.deepEqual(connector[0], following[0][following[0].length - 1]);
+  assert.deepEqual(connector[connector.length - 1], following[2][0]);
+}
+
+runGradientCase();
+runFlatAndRunoutCase();
+runConnectorCase();
+
+console.log("terrain_following.test.ts passed");
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+
+import { selectTilesToEvict } from "../services/terrainTileStore.ts";
+import {
+  MAX_OFFLINE_TERRAIN_TILES,
+  TERRAIN_TILE_BYTES_ESTIMATE,
+  estimateTerrainDownloadBytes,
+  prefetchTerrainTiles,
+  terrainExtentOfRings,
+  terrainTileKeys,
+  terrainTilesForExtent,
+} from "../terrain/offline.ts";
+import {
+  MAPBOX_TERRAIN_SOURCE,
+  fetchTerrainTileBlob,
+  setTerrainTileCache,
+  setTerrainTileSource,
+  terrainTileCacheKey,
+  type TerrainTileCache,
+} from "../terrain/sources.ts";
+
+function memoryCache(initial: Record<string, string> = {}) {
+  const blobs = new Map(Object.entries(initial).map(([key, text]) => [key, new Blob([text])]));
+  const cache: TerrainTileCache = {
+    get: async (key) => blobs.get(key) ?? null,
+    has: async (key) => blobs.has(key),
+    put: async (key, blob) => { blobs.set(key, blob); },
+  };
+  return { blobs, cache };
+}
+
+function stubFetch(handler: (url: string) => Response | Promise<Response>) {
+  const original = globalThis.fetch;
+  const urls: string[] = [];
+  globalThis.fetch = (async (input: RequestInfo | URL) => {
+    urls.push(String(input));
+    return handler(String(input));
+  }) as typeof fetch;
+  return { urls, restore: () => { globalThis.fetch = original; } };
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function runExtentCase() {
+  assert.equal(terrainExtentOfRings([]), null);
+  const extent = terrainExtentOfRings([[[8.5, 47.0], [8.52, 47.0], [8.52, 47.01], [8.5, 47.0]], [[8.49, 47.005], [8.5, 47.02]]]);
+  assert.deepEqual(extent, { minLng: 8.49, minLat: 47.0, maxLng: 8.52, maxLat: 47.02 });
+
+  const point = { minLng: 8.5, minLat: 47.0, maxLng: 8.5, maxLat: 47.0 };
+  assert.equal(terrainTilesForExtent(point, [14], 0).length, 1);
+  const padded = terrainTilesForExtent(point, [14, 12, 14]);
+  assert.equal(padded.length, 18, "3×3 tiles per zoom, duplicate zooms ignored");
+  assert.deepEqual([...new Set(padded.map((tile) => tile.z))], [12, 14], "zooms in ascending order");
+
+  const corner = terrainTilesForExtent({ minLng: -180, minLat: 84, maxLng: -179, maxLat: 85 }, [2]);
+  assert.equal(corner.length, 4, "halo is clamped at the edges of the tile grid");
+  assert.ok(corner.every((tile) => tile.x >= 0 && tile.y >= 0));
+}
+
+function runEvictionCase() {
+  const entries = [
+    { key: "old", bytes: 40, lastUsedAt: 1 },
+    { key: "recent", bytes: 40, lastUsedAt: 3 },
+    { key: "middle", bytes: 40, lastUsedAt: 2 },
+  ];
+  assert.deepEqual(selectTilesToEvict(entries, 120), []);
+  assert.deepEqual(selectTilesToEvict(entries, 100), ["old"]);
+  assert.deepEqual(selectTilesToEvict(entries, 40), ["old", "middle"]);
+  assert.deepEqual(selectTilesToEvict(entries, 0), ["old", "middle", "recent"]);
+
+  // Kept keys (a download in progress) are skipped, even when the rest alone cannot fit
+  assert.deepEqual(selectTilesToEvict(entries, 100, new Set(["old"])), ["middle"]);
+  assert.deepEqual(selectTilesToEvict(entries, 0, new Set(["old", "recent"])), ["middle"]);
+}
+
+function runDownloadSizeCase() {
+  const point = { minLng: 8.5, minLat: 47.0, maxLng: 8.5, maxLat: 47.0 };
+  const tiles = terrainTilesForExtent(point, [12, 14]);
+  assert.equal(estimateTerrainDownloadBytes(tiles), 18 * TERRAIN_TILE_BYTES_ESTIMATE);
+
+  setTerrainTileSource(MAPBOX_TERRAIN_SOURCE);
+  assert.deepEqual(terrainTileKeys(tiles.slice(0, 1)), [terrainTileCacheKey(MAPBOX_TERRAIN_SOURCE, 12, tiles[0].x, tiles[0].y)]);
+
+  // z16 over a large extent is more than one download
+  const region = { minLng: 7.5, minLat: 46.0, maxLng: 8.5, maxLat: 47.0 };
+  assert.ok(terrainTilesForExtent(region, [16]).length > MAX_OFFLINE_TERRAIN_TILES);
+  assert.ok(terrainTilesForExtent(region, [12, 14]).length <= MAX_OFFLINE_TERRAIN_TILES);
+}
+
+async function runFallbackCase() {
+  setTerrainTileSource(MAPBOX_TERRAIN_SOURCE);
+  const key = terrainTileCacheKey(MAPBOX_TERRAIN_SOURCE, 12, 2138, 1434);
+  assert.equal(key, "mapbox|12/2138/1434", "keys do not depend on the access token");
+  assert.equal(
+    terrainTileCacheKey({ kind: "custom", urlTemplate: "https://dem.example/{z}/{x}/{y}.png" }, 1, 2, 3),
+    "https://dem.example/{z}/{x}/{y}.png|1/2/3",
+  );
+
+  const { blobs, cache } = memoryCache();
+  setTerrainTileCache(cache);
+  let online = stubFetch(() => new Response("fresh"));
+  try {
+    assert.equal(await (await fetchTerrainTileBlob(12, 2138, 1434, "token")).text(), "fresh");
+    await settle();
+    assert.equal(await blobs.get(key)?.text(), "fresh", "fetched tiles are stored");
+  } finally {
+    online.restore();
+  }
+
+  online = stubFetch(() => { throw new TypeError("Failed to fetch"); });
+  try {
+    assert.equal(await (await fetchTerrainTileBlob(12, 2138, 1434, "token")).text(), "fresh", "stored copy when the fetch fails");
+    await assert.rejects(fetchTerrainTileBlob(12, 0, 0, "token"), /Failed to fetch/, "nothing stored: the fetch error surfaces");
+  } finally {
+    online.restore();
+  }
+
+  const server = stubFetch(() => new Response("", { status: 503, statusText: "Unavailable" }));
+  try {
+    assert.equal(await (await fetchTerrainTileBlob(12, 2138, 1434, "token")).text(), "fresh", "stored copy on server errors");
+  } finally {
+    server.restore();
+    setTerrainTileCache(null);
+  }
+}
+
+async function runPrefetchCase() {
+  const tiles = [{ z: 14, x: 1, y: 1 }, { z: 14, x: 1, y: 2 }, { z: 14, x: 2, y: 1 }];
+  const { blobs, cache } = memoryCache({ [terrainTileCacheKey(MAPBOX_TERRAIN_SOURCE, 14, 1, 1)]: "stored" });
+  setTerrainTileCache(cache);
+  const fetched = stubFetch((url) => (url.includes("/14/2/1") ? new Response("", { status: 404 }) : new Response("tile")));
+  try {
+    const progress: number[] = [];
+    const result = await prefetchTerrainTiles(tiles, "token", { concurrency: 2, onProgress: (done) => progress.push(done) });
+    assert.deepEqual(result, { downloaded: 1, alreadyStored: 1, failed: 1 });
+    assert.equal(fetched.urls.length, 2, "stored tiles are not downloaded again");
+    assert.deepEqual(progress, [1, 2, 3]);
+    await settle();
+    assert.ok(blobs.has(terrainTileCacheKey(MAPBOX_TERRAIN_SOURCE, 14, 1, 2)));
+
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = await prefetchTerrainTiles(tiles, "token", { signal: controller.signal });
+    assert.deepEqual(aborted, { downloaded: 0, alreadyStored: 0, failed: 0 });
+  } finally {
+    fetched.restore();
+    setTerrainTileCache(null);
+  }
+}
+
+runExtentCase();
+runEvictionCase();
+runDownloadSizeCase();
+await runFallbackCase();
+await runPrefetchCase();
+
+console.log("terrain_offline.test.ts passed");
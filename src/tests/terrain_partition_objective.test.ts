@@ -1,5 +1,6 @@
 import assert from "node:assert/strict";
 
+import { WINGTRA_ONE_GEN_II } from "../domain/aircraft.ts";
 import type { FlightParams } from "../domain/types.ts";
 import {
   combinePartitionObjectives,
@@ -256,11 +257,58 @@ function runLidarNodeCostHoleSeverityCase() {
   );
 }
 
+function runAircraftWindEnergyCase() {
+  const flatTile = makeDemTile(256, 256, (lng, lat) => {
+    const [, my] = lngLatToMercatorMeters(lng, lat);
+    return 900 + my * 0.0008;
+  });
+  const slopedTile = makeDemTile(256, 256, (lng, lat) => {
+    const [mx, my] = lngLatToMercatorMeters(lng, lat);
+    return 900 + my * 0.0008 + (mx - 33400) * 0.08;
+  });
+
+  const legacy = evaluateRegionOrientation(tradeoffRing, [flatTile] as any, cameraParams, 0, { tradeoff: 0.5 });
+  const calm = evaluateRegionOrientation(tradeoffRing, [flatTile] as any, cameraParams, 0, {
+    tradeoff: 0.5,
+    aircraft: WINGTRA_ONE_GEN_II,
+  });
+  const crosswind = evaluateRegionOrientation(tradeoffRing, [flatTile] as any, cameraParams, 0, {
+    tradeoff: 0.5,
+    aircraft: WINGTRA_ONE_GEN_II,
+    wind: { speedMps: 8, fromDeg: 90 },
+  });
+  const climbing = evaluateRegionOrientation(tradeoffRing, [slopedTile] as any, cameraParams, 0, {
+    tradeoff: 0.5,
+    aircraft: WINGTRA_ONE_GEN_II,
+  });
+  assert.ok(legacy && calm && crosswind && climbing, "aircraft model orientations should evaluate");
+  assert.equal(legacy!.flightTime.energyWh, undefined, "legacy time model should not report energy");
+  assert.ok((calm!.flightTime.energyWh ?? 0) > 0, "aircraft model should report a positive energy budget");
+  assert.ok(
+    crosswind!.flightTime.sweepTimeSec > calm!.flightTime.sweepTimeSec * 1.05,
+    "a crosswind should slow ground speed on both sweep directions",
+  );
+  assert.ok(
+    (climbing!.flightTime.totalClimbM ?? 0) > 50 && (climbing!.flightTime.energyWh ?? 0) > (calm!.flightTime.energyWh ?? 0),
+    "climbing between lines on a slope should add climb and energy",
+  );
+
+  const combined = combinePartitionObjectives([calm!, calm!], {
+    aircraft: WINGTRA_ONE_GEN_II,
+    interRegionTransitionSec: 40,
+  });
+  assert.ok(
+    (combined.totalEnergyWh ?? 0) > 2 * (calm!.flightTime.energyWh ?? 0),
+    "partition energy should include inter-region transitions",
+  );
+}
+
 runCameraQualityAndTimeCase();
 runLidarQualityCase();
 runLineLiftPeakPenaltyCase();
 runPartitionCombinationCase();
 runNonConvexBridgePenaltyCase();
 runLidarNodeCostHoleSeverityCase();
+runAircraftWindEnergyCase();
 
 console.log("terrain_partition_objective.test.ts passed");
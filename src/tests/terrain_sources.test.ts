@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+
+import { writeGeoTiff } from "../interop/gis/geotiff.ts";
+import { tileMetersBounds } from "../overlap/mercator.ts";
+import { encodeTerrainRGB, terrariumToTerrainRGB } from "../terrain/encoding.ts";
+import { lngLatToUtm, parseGeoTiffDem, renderDemIntoTile } from "../terrain/geotiffDem.ts";
+import {
+  MAPBOX_TERRAIN_SOURCE,
+  demTerrainTile,
+  fetchTerrainTile,
+  normalizeTerrainTileSource,
+  setTerrainDem,
+  terrainTileUrl,
+} from "../terrain/sources.ts";
+
+const decodeTerrainRGB = (data: Uint8ClampedArray, offset: number) =>
+  -10000 + (data[offset] * 65536 + data[offset + 1] * 256 + data[offset + 2]) * 0.1;
+const near = (actual: number, expected: number, tolerance: number, message?: string) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${message ?? "value"}: ${actual} != ${expected}`);
+
+function runTileSourceCase() {
+  assert.equal(
+    terrainTileUrl(MAPBOX_TERRAIN_SOURCE, 12, 2138, 1434, "pk.a b"),
+    "https://api.mapbox.com/v4/mapbox.terrain-rgb/12/2138/1434.pngraw?access_token=pk.a%20b",
+  );
+  const custom = normalizeTerrainTileSource({ kind: "custom", urlTemplate: " https://dem.example/{z}/{x}/{y}.png ", encoding: "terrarium" });
+  assert.deepEqual(custom, { kind: "custom", urlTemplate: "https://dem.example/{z}/{x}/{y}.png", encoding: "terrarium" });
+  assert.equal(terrainTileUrl(custom, 3, 4, 5, "token"), "https://dem.example/3/4/5.png");
+
+  assert.equal(normalizeTerrainTileSource({ kind: "custom", urlTemplate: "https://dem.example/tile.png" }), MAPBOX_TERRAIN_SOURCE);
+  assert.equal(normalizeTerrainTileSource(null), MAPBOX_TERRAIN_SOURCE);
+  assert.equal(normalizeTerrainTileSource({ kind: "custom", urlTemplate: "/{z}/{x}/{y}", encoding: "lerc" }).encoding, "terrain-rgb");
+}
+
+function runTerrariumCase() {
+  // Terrarium: 32768 + 1234.5 m = 0x84 · 256 + 0xd2 + 0x80 / 256
+  const data = new Uint8ClampedArray([0x84, 0xd2, 0x80, 255, 0x7f, 0xff, 0x00, 255]);
+  terrariumToTerrainRGB(data);
+  near(decodeTerrainRGB(data, 0), 1234.5, 1e-6);
+  near(decodeTerrainRGB(data, 4), -1, 1e-6, "below sea level");
+
+  const clamped = new Uint8ClampedArray(4);
+  encodeTerrainRGB(-20000, clamped, 0);
+  near(decodeTerrainRGB(clamped, 0), -10000, 1e-6, "heights below the encodable range are clamped");
+}
+
+function runUtmCase() {
+  const [centralX, centralY] = lngLatToUtm(3, 0, 31, false);
+  near(centralX, 500000, 1e-6, "central meridian easting");
+  near(centralY, 0, 1e-6);
+  const [x, y] = lngLatToUtm(6, 0, 31, false);
+  near(x, 833978.56, 0.01, "zone edge easting");
+  near(y, 0, 1e-6);
+  near(lngLatToUtm(3, -10, 31, true)[1], 10_000_000 - 0.9996 * 1_105_854.83, 0.01, "southern false northing");
+}
+
+async function runDemCase() {
+  const [z, x, y] = [14, 8582, 5749];
+  const bounds = tileMetersBounds(z, x, y);
+  const heights = new Float32Array(16).fill(1234.5);
+  heights[15] = -9999;
+  const tiff = writeGeoTiff({
+    band: "gsd",
+    width: 4,
+    height: 4,
+    originX: bounds.minX,
+    originY: bounds.maxY,
+    pixelSize: (bounds.maxX - bounds.minX) / 4,
+    data: heights,
+    nodata: -9999,
+  });
+
+  const dem = await parseGeoTiffDem(tiff.buffer.slice(tiff.byteOffset, tiff.byteOffset + tiff.byteLength) as ArrayBuffer, { name: "dem.tif" });
+  assert.equal(dem.name, "dem.tif");
+  assert.equal(dem.epsg, 3857);
+  assert.deepEqual([dem.width, dem.height], [4, 4]);
+  near(dem.originX, bounds.minX, 1e-6);
+  near(dem.originY, bounds.maxY, 1e-6);
+  assert.equal(dem.heights[0], 1234.5);
+  assert.ok(Number.isNaN(dem.heights[15]), "GDAL nodata becomes NaN");
+
+  const tile = new Uint8ClampedArray(8 * 8 * 4);
+  const written = renderDemIntoTile(dem, z, x, y, 8, tile);
+  assert.ok(written > 48 && written < 64, `nodata pixels are left alone (${written} written)`);
+  near(decodeTerrainRGB(tile, 0), 1234.5, 1e-6);
+  assert.equal(tile[(7 * 8 + 7) * 4 + 3], 0, "the corner over nodata keeps the tile source's value");
+
+  assert.equal(renderDemIntoTile(dem, z, x + 2, y, 8, new Uint8ClampedArray(8 * 8 * 4)), 0, "tiles outside the DEM are skipped");
+
+  // Without a base tile the DEM fills in only where it covers every pixel
+  assert.equal(demTerrainTile(dem, z, x, y, 8), null, "a DEM with a nodata corner cannot stand in for the tile");
+  const full = { ...dem, heights: dem.heights.map(() => 800) };
+  const fromDem = demTerrainTile(full, z, x, y, 8)!;
+  assert.deepEqual([fromDem.width, fromDem.height], [8, 8]);
+  near(decodeTerrainRGB(fromDem.data, (3 * 8 + 5) * 4), 800, 1e-6);
+  assert.equal(demTerrainTile(full, z, x + 2, y, 8), null);
+
+  // The tile source answers 404: the DEM stands in where it covers the whole tile
+  const original = globalThis.fetch;
+  globalThis.fetch = (async () => new Response("", { status: 404, statusText: "Not Found" })) as typeof fetch;
+  setTerrainDem(full);
+  try {
+    const tile = await fetchTerrainTile(z, x, y, "token");
+    near(decodeTerrainRGB(tile.data, (128 * tile.width + 128) * 4), 800, 1e-6);
+    await assert.rejects(fetchTerrainTile(z, x + 2, y, "token"), /404/, "tiles the DEM does not cover still fail");
+  } finally {
+    globalThis.fetch = original;
+    setTerrainDem(null);
+  }
+}
+
+runTileSourceCase();
+runTerrariumCase();
+runUtmCase();
+await runDemCase();
+
+console.log("terrain_sources.test.ts passed");
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+
+import { defaultWorkerPoolSize, runTileJobs, type TileJob } from "../overlap/pool.ts";
+
+type FakeWorker = { id: number; busy: boolean; terminated: boolean; terminate(): void };
+
+function fakeWorkers() {
+  const created: FakeWorker[] = [];
+  const create = () => {
+    const worker: FakeWorker = { id: created.length, busy: false, terminated: false, terminate() { this.terminated = true; } };
+    created.push(worker);
+    return worker;
+  };
+  return { created, create };
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Job that takes longer for low indices, so completion order is the reverse of job order. */
+const reversedJob = (index: number, total: number): TileJob<FakeWorker, string> => async (worker) => {
+  assert.equal(worker.busy, false, "a worker runs one tile at a time");
+  assert.equal(worker.terminated, false);
+  worker.busy = true;
+  await delay((total - index) * 3);
+  worker.busy = false;
+  return `tile-${index}`;
+};
+
+async function runOrderCase() {
+  const { created, create } = fakeWorkers();
+  const jobs = Array.from({ length: 8 }, (_, i) => reversedJob(i, 8));
+  const completion: number[] = [];
+  const progress: Array<[number, number]> = [];
+  const results = await runTileJobs(create, jobs, {
+    size: 3,
+    onResult: (_, index) => completion.push(index),
+    onProgress: (done, total) => progress.push([done, total]),
+  });
+
+  assert.deepEqual(results, jobs.map((_, i) => `tile-${i}`), "results are in job order");
+  assert.notDeepEqual(completion, [...completion].sort((a, b) => a - b), "jobs finished out of order");
+  assert.equal(created.length, 3);
+  assert.ok(created.every((worker) => worker.terminated), "workers are terminated after the run");
+  assert.deepEqual(progress.map(([done]) => done), [1, 2, 3, 4, 5, 6, 7, 8]);
+  assert.ok(progress.every(([, total]) => total === 8));
+}
+
+async function runPoolSizeCase() {
+  const { created, create } = fakeWorkers();
+  await runTileJobs(create, [reversedJob(0, 1), reversedJob(1, 1)], { size: 16 });
+  assert.equal(created.length, 2, "never more workers than jobs");
+
+  const none = fakeWorkers();
+  assert.deepEqual(await runTileJobs(none.create, []), []);
+  assert.equal(none.created.length, 0);
+  assert.ok(defaultWorkerPoolSize() >= 1);
+}
+
+async function runCancelCase() {
+  const { created, create } = fakeWorkers();
+  let cancelled = false;
+  let started = 0;
+  const jobs: TileJob<FakeWorker, number>[] = Array.from({ length: 10 }, (_, i) => async () => {
+    started++;
+    await delay(2);
+    if (i === 1) cancelled = true;
+    return i;
+  });
+  const seen: number[] = [];
+  const results = await runTileJobs(create, jobs, { size: 2, isCancelled: () => cancelled, onResult: (value) => seen.push(value) });
+  assert.equal(results, null, "a cancelled run has no results");
+  assert.ok(started < jobs.length, `no new tiles start after cancelling (${started} started)`);
+  assert.ok(!seen.includes(1), "results finishing after the cancel are dropped");
+  assert.ok(created.every((worker) => worker.terminated));
+}
+
+async function runFailureCase() {
+  const { created, create } = fakeWorkers();
+  let started = 0;
+  const jobs: TileJob<FakeWorker, number>[] = Array.from({ length: 6 }, (_, i) => async () => {
+    started++;
+    await delay(2);
+    if (i === 0) throw new Error("tile 0 failed");
+    return i;
+  });
+  await assert.rejects(runTileJobs(create, jobs, { size: 2 }), /tile 0 failed/);
+  assert.ok(started < jobs.length, "the queue stops at the first failure");
+  assert.ok(created.every((worker) => worker.terminated));
+}
+
+await runOrderCase();
+await runPoolSizeCase();
+await runCancelCase();
+await runFailureCase();
+
+console.log("worker_pool.test.ts passed");
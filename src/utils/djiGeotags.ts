@@ -164,6 +164,7 @@ export function posesToGeoJSON(poses: CameraPoseWGS84) {
 /**
  * Extract a CameraModel from the first suitable DJI sensor definition.
  * Preference order: first sensor with internals.focal_length_px & image_size_px & pixel_size_um.
+ * Brown–Conrady coefficients are carried over when present (radial [k1,k2,k3], tangential [p1,p2]).
  * Returns null if requirements not met.
  */
 export function extractCameraModel(input: InputCamerasFile | string): CameraModel | null {
@@ -192,5 +193,16 @@ export function extractCameraModel(input: InputCamerasFile | string): CameraMode
     cx_px,
     cy_px,
   };
+  const radial = sensor.internals?.radial_distortion;
+  const tangential = sensor.internals?.tangential_distortion;
+  if (Array.isArray(radial)) {
+    if (Number.isFinite(radial[0])) model.k1 = radial[0];
+    if (Number.isFinite(radial[1])) model.k2 = radial[1];
+    if (Number.isFinite(radial[2])) model.k3 = radial[2];
+  }
+  if (Array.isArray(tangential)) {
+    if (Number.isFinite(tangential[0])) model.p1 = tangential[0];
+    if (Number.isFinite(tangential[1])) model.p2 = tangential[1];
+  }
   return model;
 }
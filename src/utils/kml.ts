@@ -2,6 +2,14 @@
 export type ParsedKmlPolygon = {
   name?: string;
   ring: [number, number][]; // [lng, lat]
+  holes?: [number, number][][]; // innerBoundaryIs rings, [lng, lat]
+  properties?: Record<string, string>; // Placemark ExtendedData (Data and SimpleData)
+};
+
+export type ParsedKmlLineString = {
+  name?: string;
+  line: [number, number][]; // [lng, lat]
+  properties?: Record<string, string>; // Placemark ExtendedData (Data and SimpleData)
 };
 
 export type BoundingBox = {
@@ -32,7 +40,7 @@ export function calculateKmlBounds(polygons: ParsedKmlPolygon[]): BoundingBox |
   return { minLng, minLat, maxLng, maxLat };
 }
 
-/** Parse the first outer LinearRing of every Polygon in a KML string. */
+/** Parse the outer LinearRing (and any inner rings as holes) of every Polygon in a KML string. */
 export function parseKmlPolygons(kmlText: string): ParsedKmlPolygon[] {
   const out: ParsedKmlPolygon[] = [];
 
@@ -78,6 +86,7 @@ export function parseKmlPolygons(kmlText: string): ParsedKmlPolygon[] {
   for (const pm of placemarks) {
     const nameEl = pm.getElementsByTagName("name")[0];
     const name = nameEl?.textContent?.trim() || undefined;
+    const properties = parseExtendedData(pm);
 
     // Handle Polygon(s) directly under Placemark
     const polygons = Array.from(pm.getElementsByTagName("Polygon"));
@@ -91,7 +100,27 @@ export function parseKmlPolygons(kmlText: string): ParsedKmlPolygon[] {
       if (!coordsEl || !coordsEl.textContent) continue;
 
       const ring = parseCoords(coordsEl.textContent);
-      if (ring.length >= 4) out.push({ name, ring });
+      if (ring.length < 4) continue;
+
+      const holes: [number, number][][] = [];
+      const inners = [
+        ...Array.from(poly.getElementsByTagName("innerBoundaryIs")),
+        ...Array.from(poly.getElementsByTagName("innerboundaryis")),
+      ];
+      for (const inner of inners) {
+        // One innerBoundaryIs per hole per the spec, but some writers put several rings in one
+        for (const innerRing of Array.from(inner.getElementsByTagName("LinearRing"))) {
+          const text = innerRing.getElementsByTagName("coordinates")[0]?.textContent;
+          const hole = text ? parseCoords(text) : [];
+          if (hole.length >= 4) holes.push(hole);
+        }
+      }
+      out.push({
+        name,
+        ring,
+        ...(holes.length > 0 ? { holes } : {}),
+        ...(properties ? { properties } : {}),
+      });
     }
 
     // Also handle Polygon inside MultiGeometry (already covered by query above)
@@ -113,6 +142,46 @@ export function parseKmlPolygons(kmlText: string): ParsedKmlPolygon[] {
   return out;
 }
 
+/** Every LineString of every Placemark (e.g. corridor centerlines); lines need two or more points. */
+export function parseKmlLineStrings(kmlText: string): ParsedKmlLineString[] {
+  const doc = new DOMParser().parseFromString(kmlText, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid KML: XML parsing failed.");
+  }
+
+  const out: ParsedKmlLineString[] = [];
+  for (const pm of Array.from(doc.getElementsByTagName("Placemark"))) {
+    const name = pm.getElementsByTagName("name")[0]?.textContent?.trim() || undefined;
+    const properties = parseExtendedData(pm);
+    for (const lineString of Array.from(pm.getElementsByTagName("LineString"))) {
+      const text = lineString.getElementsByTagName("coordinates")[0]?.textContent ?? "";
+      const line: [number, number][] = [];
+      for (const token of text.trim().split(/\s+/)) {
+        const [lng, lat] = token.split(",").map(parseFloat);
+        if (Number.isFinite(lng) && Number.isFinite(lat)) line.push([lng, lat]);
+      }
+      if (line.length >= 2) out.push({ name, line, ...(properties ? { properties } : {}) });
+    }
+  }
+  return out;
+}
+
+/** Name/value pairs from a Placemark's ExtendedData; undefined when there are none. */
+function parseExtendedData(placemark: Element): Record<string, string> | undefined {
+  const properties: Record<string, string> = {};
+  for (const data of Array.from(placemark.getElementsByTagName("Data"))) {
+    const key = data.getAttribute("name");
+    const value = data.getElementsByTagName("value")[0]?.textContent?.trim();
+    if (key && value !== undefined) properties[key] = value;
+  }
+  for (const data of Array.from(placemark.getElementsByTagName("SimpleData"))) {
+    const key = data.getAttribute("name");
+    const value = data.textContent?.trim();
+    if (key && value !== undefined) properties[key] = value;
+  }
+  return Object.keys(properties).length > 0 ? properties : undefined;
+}
+
 /** Extract first KML file from a KMZ (ZIP) archive given as ArrayBuffer. */
 export async function extractKmlFromKmz(arrayBuffer: ArrayBuffer): Promise<string> {
   // Lazy-load JSZip to keep initial bundle smaller if KMZ is not used
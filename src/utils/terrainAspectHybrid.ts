@@ -13,6 +13,7 @@ export type LngLat = [lng: number, lat: number];
 
 export interface Polygon {
   coordinates: LngLat[];
+  holes?: LngLat[][]; // inner rings; samples inside them are ignored
 }
 
 export interface TerrainTile {
@@ -68,6 +69,7 @@ export function dominantContourDirectionPlaneFit(
         );
 
         if (!pointInPolygon(lng, lat, polygon.coordinates)) continue;
+        if (polygon.holes?.some((hole) => pointInPolygon(lng, lat, hole))) continue;
 
         const z = getElevation(tile, px, py);
         if (!Number.isFinite(z)) continue;
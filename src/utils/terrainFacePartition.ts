@@ -1,13 +1,7 @@
 import type { FlightParams, TerrainTile } from "@/domain/types";
-import {
-  DJI_ZENMUSE_P1_24MM,
-  ILX_LR1_INSPECT_85MM,
-  MAP61_17MM,
-  RGB61_24MM,
-  SONY_RX1R2,
-  lineSpacingRotated,
-} from "@/domain/camera";
-import { DEFAULT_LIDAR, LIDAR_REGISTRY, lidarLineSpacing } from "@/domain/lidar";
+import { lineSpacingRotated } from "@/domain/camera";
+import { lidarLineSpacing } from "@/domain/lidar";
+import { getCameraModel, getLidarModel } from "@/domain/payloads";
 import {
   dominantContourDirectionPlaneFit,
   destination as geoDestination,
@@ -21,14 +15,6 @@ import * as turf from "@turf/turf";
 
 type Ring = [number, number][];
 
-const CAMERA_REGISTRY: Record<string, any> = {
-  SONY_RX1R2,
-  DJI_ZENMUSE_P1_24MM,
-  ILX_LR1_INSPECT_85MM,
-  MAP61_17MM,
-  RGB61_24MM,
-};
-
 export type TerrainFacePartitionOptions = {
   maxPolygons?: number;
   candidateAngleStepDeg?: number;
@@ -244,15 +230,14 @@ function ringMercatorCenter(ring: Ring): [number, number] {
 
 function lineSpacingForParams(params: FlightParams): number {
   if ((params.payloadKind ?? "camera") === "lidar") {
-    const lidar = params.lidarKey ? LIDAR_REGISTRY[params.lidarKey] || DEFAULT_LIDAR : DEFAULT_LIDAR;
+    const lidar = getLidarModel(params.lidarKey);
     return lidarLineSpacing(
       params.altitudeAGL,
       params.sideOverlap,
       params.mappingFovDeg ?? lidar.effectiveHorizontalFovDeg,
     );
   }
-  const cameraKey = params.cameraKey;
-  const camera = cameraKey ? CAMERA_REGISTRY[cameraKey] || SONY_RX1R2 : SONY_RX1R2;
+  const camera = getCameraModel(params.cameraKey);
   const yawOffset = params.cameraYawOffsetDeg ?? 0;
   const rotate90 = Math.round((((yawOffset % 180) + 180) % 180)) === 90;
   return lineSpacingRotated(camera, params.altitudeAGL, params.sideOverlap, rotate90);
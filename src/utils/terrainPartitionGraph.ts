@@ -102,6 +102,8 @@ const DEFAULT_OPTIONS: Required<TerrainAtomizationOptions> = {
   interRegionTransitionSec: 35,
   shortLineThresholdFactor: 5,
   minWidthLineSpacingFactor: 2.5,
+  aircraft: null,
+  wind: null,
   atomDirectionMergeDeg: 14,
   atomBreakThreshold: 9,
   minAtomCells: 2,
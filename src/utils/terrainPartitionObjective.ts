@@ -1,10 +1,6 @@
-import type { CameraModel, FlightParams, TerrainTile } from "@/domain/types";
+import type { AircraftModel, FlightParams, TerrainTile, WindVector } from "@/domain/types";
+import { estimateLegPerformance, usableBatteryWh } from "@/domain/aircraft";
 import {
-  DJI_ZENMUSE_P1_24MM,
-  ILX_LR1_INSPECT_85MM,
-  MAP61_17MM,
-  RGB61_24MM,
-  SONY_RX1R2,
   calculateGSD,
   forwardSpacingRotated,
   lineSpacingRotated,
@@ -12,12 +8,13 @@ import {
 import {
   DEFAULT_LIDAR_MAX_RANGE_M,
   getLidarMappingFovDeg,
-  getLidarModel,
   lidarDeliverableDensity,
   lidarLineSpacing,
   lidarSinglePassDensity,
   lidarSwathWidth,
 } from "@/domain/lidar";
+import { getCameraModel, getLidarModel } from "@/domain/payloads";
+import { clipSweepLines } from "@/planning/clip";
 import {
   destination as geoDestination,
   queryElevationAtPoint,
@@ -28,13 +25,6 @@ import * as turf from "@turf/turf";
 
 type Ring = [number, number][];
 
-const CAMERA_REGISTRY: Record<string, CameraModel> = {
-  SONY_RX1R2,
-  DJI_ZENMUSE_P1_24MM,
-  ILX_LR1_INSPECT_85MM,
-  MAP61_17MM,
-  RGB61_24MM,
-};
 
 export type TerrainGuidanceCell = {
   lng: number;
@@ -79,6 +69,9 @@ export type RegionFlightTimeEstimate = {
   turnTimeSec: number;
   overheadTimeSec: number;
   totalMissionTimeSec: number;
+  totalClimbM?: number;
+  energyWh?: number;
+  batteryFraction?: number;
 };
 
 export type CameraQualitySummary = {
@@ -167,6 +160,7 @@ export type PartitionObjective = {
   normalizedQualityCost: number;
   normalizedTimeCost: number;
   totalMissionTimeSec: number;
+  totalEnergyWh?: number;
   totalRegularizationPenalty: number;
   weightedMeanMismatchDeg: number;
   regions: RegionOrientationObjective[];
@@ -185,6 +179,9 @@ export type TerrainPartitionTradeoffOptions = {
   interRegionTransitionSec?: number;
   shortLineThresholdFactor?: number;
   minWidthLineSpacingFactor?: number;
+  /** When set, sweep/turn/climb time and energy come from this performance model instead of the fixed averages. */
+  aircraft?: AircraftModel | null;
+  wind?: WindVector | null;
 };
 
 const DEFAULT_OPTIONS: Required<TerrainPartitionTradeoffOptions> = {
@@ -200,6 +197,8 @@ const DEFAULT_OPTIONS: Required<TerrainPartitionTradeoffOptions> = {
   interRegionTransitionSec: 35,
   shortLineThresholdFactor: 5,
   minWidthLineSpacingFactor: 2.5,
+  aircraft: null,
+  wind: null,
 };
 
 function degToRad(value: number) {
@@ -399,7 +398,7 @@ function lineSpacingForParams(params: FlightParams) {
       params.mappingFovDeg ?? getLidarMappingFovDeg(model),
     );
   }
-  const camera = params.cameraKey ? CAMERA_REGISTRY[params.cameraKey] || SONY_RX1R2 : SONY_RX1R2;
+  const camera = getCameraModel(params.cameraKey);
   const yawOffset = params.cameraYawOffsetDeg ?? 0;
   const rotate90 = Math.round((((yawOffset % 180) + 180) % 180)) === 90;
   return lineSpacingRotated(camera, params.altitudeAGL, params.sideOverlap, rotate90);
@@ -407,7 +406,7 @@ function lineSpacingForParams(params: FlightParams) {
 
 function forwardSpacingForParams(params: FlightParams) {
   if ((params.payloadKind ?? "camera") === "lidar") return null;
-  const camera = params.cameraKey ? CAMERA_REGISTRY[params.cameraKey] || SONY_RX1R2 : SONY_RX1R2;
+  const camera = getCameraModel(params.cameraKey);
   const yawOffset = params.cameraYawOffsetDeg ?? 0;
   const rotate90 = Math.round((((yawOffset % 180) + 180) % 180)) === 90;
   return forwardSpacingRotated(camera, params.altitudeAGL, params.frontOverlap, rotate90);
@@ -417,7 +416,7 @@ function defaultCruiseSpeedMps(params: FlightParams, options: Required<TerrainPa
   if ((params.payloadKind ?? "camera") === "lidar") {
     return params.speedMps ?? getLidarModel(params.lidarKey).defaultSpeedMps;
   }
-  return options.cameraCruiseSpeedMps;
+  return options.aircraft?.cruiseSpeedMps ?? options.cameraCruiseSpeedMps;
 }
 
 export function buildTerrainGuidanceField(
@@ -512,7 +511,7 @@ export function buildTerrainGuidanceField(
   return { cells, areaM2, gridStepM, dominantPreferredBearingDeg };
 }
 
-function sampleTerrainReliefAlongSegment(
+function sampleTerrainRangeAlongSegment(
   startPoint: [number, number],
   endPoint: [number, number],
   tiles: TerrainTile[],
@@ -529,7 +528,7 @@ function sampleTerrainReliefAlongSegment(
     minZ = Math.min(minZ, z);
     maxZ = Math.max(maxZ, z);
   }
-  return Number.isFinite(minZ) && Number.isFinite(maxZ) ? maxZ - minZ : NaN;
+  return { minZ, maxZ, reliefM: Number.isFinite(minZ) && Number.isFinite(maxZ) ? maxZ - minZ : NaN };
 }
 
 function estimateRegionFlightTime(
@@ -549,58 +548,36 @@ function estimateRegionFlightTime(
   const maxLat = Math.max(...lats);
   const center: [number, number] = [(minLng + maxLng) / 2, (minLat + maxLat) / 2];
   const diagonal = haversineDistance([minLng, minLat], [maxLng, maxLat]);
-  const perpBearing = (bearingDeg + 90) % 360;
   const numLines = Math.max(1, Math.ceil(diagonal / Math.max(1, lineSpacingM)));
   const lengths: number[] = [];
   const terrainReliefs: number[] = [];
   const interSegmentGaps: number[] = [];
+  // Per flight line (all fragments plus the gaps between them) for the aircraft performance model
+  const lineSweepLengthsM: number[] = [];
+  const lineMaxTerrainM: number[] = [];
   let fragmentedLineCount = 0;
 
-  for (let i = -numLines; i <= numLines; i++) {
-    const distance = i * lineSpacingM;
-    const [centerLng, centerLat] = geoDestination(center, perpBearing, distance);
-    const extendDistance = diagonal * 0.75;
-    const p1 = geoDestination([centerLng, centerLat], bearingDeg, extendDistance);
-    const p2 = geoDestination([centerLng, centerLat], (bearingDeg + 180) % 360, extendDistance);
-
-    let currentSegment: [number, number][] = [];
-    const completedSegments: Array<[[number, number], [number, number]]> = [];
-    let segments = 0;
-    const samples = 80;
-    for (let sample = 0; sample <= samples; sample++) {
-      const t = sample / samples;
-      const lng = p2[0] + t * (p1[0] - p2[0]);
-      const lat = p2[1] + t * (p1[1] - p2[1]);
-      if (pointInPolygon(lng, lat, ring)) {
-        currentSegment.push([lng, lat]);
-      } else if (currentSegment.length > 0) {
-        segments += 1;
-        const startPoint = currentSegment[0];
-        const endPoint = currentSegment[currentSegment.length - 1];
-        completedSegments.push([startPoint, endPoint]);
-        lengths.push(haversineDistance(startPoint, endPoint));
-        const relief = sampleTerrainReliefAlongSegment(startPoint, endPoint, tiles);
-        if (Number.isFinite(relief)) terrainReliefs.push(relief);
-        currentSegment = [];
-      }
-    }
-    if (currentSegment.length > 0) {
-      segments += 1;
-      const startPoint = currentSegment[0];
-      const endPoint = currentSegment[currentSegment.length - 1];
-      completedSegments.push([startPoint, endPoint]);
+  for (const line of clipSweepLines(ring, bearingDeg, lineSpacingM, { center, halfCount: numLines })) {
+    const completedSegments = line.segments as Array<[[number, number], [number, number]]>;
+    let lineMaxZ = Number.NEGATIVE_INFINITY;
+    for (const [startPoint, endPoint] of completedSegments) {
       lengths.push(haversineDistance(startPoint, endPoint));
-      const relief = sampleTerrainReliefAlongSegment(startPoint, endPoint, tiles);
-      if (Number.isFinite(relief)) terrainReliefs.push(relief);
+      const range = sampleTerrainRangeAlongSegment(startPoint, endPoint, tiles);
+      if (Number.isFinite(range.reliefM)) terrainReliefs.push(range.reliefM);
+      lineMaxZ = Math.max(lineMaxZ, range.maxZ);
     }
-    if (segments > 1) {
-      fragmentedLineCount += segments - 1;
+    if (completedSegments.length > 1) {
+      fragmentedLineCount += completedSegments.length - 1;
       for (let segmentIndex = 1; segmentIndex < completedSegments.length; segmentIndex++) {
         const previous = completedSegments[segmentIndex - 1];
         const current = completedSegments[segmentIndex];
         interSegmentGaps.push(haversineDistance(previous[1], current[0]));
       }
     }
+    const first = completedSegments[0];
+    const last = completedSegments[completedSegments.length - 1];
+    lineSweepLengthsM.push(haversineDistance(first[0], last[1]));
+    lineMaxTerrainM.push(lineMaxZ);
   }
 
   const shortLineThresholdM = Math.max(80, options.shortLineThresholdFactor * lineSpacingM);
@@ -610,9 +587,40 @@ function estimateRegionFlightTime(
   const totalFlightLineLengthM = lengths.reduce((sum, value) => sum + value, 0);
   const cruiseSpeedMps = defaultCruiseSpeedMps(params, options);
   const effectiveSweepLengthM = totalFlightLineLengthM + totalInterSegmentGapLengthM;
-  const sweepTimeSec = cruiseSpeedMps > 0 ? effectiveSweepLengthM / cruiseSpeedMps : 0;
-  const turnTimeSec = turnCount * options.avgTurnSeconds + fragmentedLineCount * 4;
+  let sweepTimeSec = cruiseSpeedMps > 0 ? effectiveSweepLengthM / cruiseSpeedMps : 0;
+  let turnTimeSec = turnCount * options.avgTurnSeconds + fragmentedLineCount * 4;
   const overheadTimeSec = options.perRegionOverheadSec;
+  let performance: Pick<RegionFlightTimeEstimate, "totalClimbM" | "energyWh" | "batteryFraction"> = {};
+  if (options.aircraft) {
+    const model = options.aircraft;
+    let energyWh = overheadTimeSec * model.cruisePowerW / 3600;
+    let totalClimbM = 0;
+    sweepTimeSec = 0;
+    turnTimeSec = 0;
+    // Lines are flown boustrophedon at a constant AGL above each line's highest terrain,
+    // so successive lines alternate heading and the altitude change happens in the turn.
+    for (let lineIndex = 0; lineIndex < lineSweepLengthsM.length; lineIndex++) {
+      const trackDeg = lineIndex % 2 === 0 ? bearingDeg : (bearingDeg + 180) % 360;
+      const sweep = estimateLegPerformance(model, lineSweepLengthsM[lineIndex], trackDeg, 0, options.wind, cruiseSpeedMps);
+      sweepTimeSec += sweep.timeSec;
+      energyWh += sweep.energyWh;
+      if (lineIndex === 0) continue;
+      const previousZ = lineMaxTerrainM[lineIndex - 1];
+      const currentZ = lineMaxTerrainM[lineIndex];
+      const deltaZ = Number.isFinite(previousZ) && Number.isFinite(currentZ) ? currentZ - previousZ : 0;
+      if (deltaZ > 0) totalClimbM += deltaZ;
+      // Turns are flown in the air mass, so wind shifts the ground track but not the turn duration
+      const turn = estimateLegPerformance(model, Math.PI * model.turnRadiusM, trackDeg, deltaZ, null, cruiseSpeedMps);
+      turnTimeSec += turn.timeSec;
+      energyWh += turn.energyWh;
+    }
+    const usableWh = usableBatteryWh(model);
+    performance = {
+      totalClimbM,
+      energyWh,
+      batteryFraction: usableWh > 0 ? energyWh / usableWh : Number.POSITIVE_INFINITY,
+    };
+  }
 
   return {
     lineSpacingM,
@@ -639,6 +647,7 @@ function estimateRegionFlightTime(
     turnTimeSec,
     overheadTimeSec,
     totalMissionTimeSec: sweepTimeSec + turnTimeSec + overheadTimeSec,
+    ...performance,
   };
 }
 
@@ -868,7 +877,7 @@ function evaluateQuality(
     };
   }
 
-  const camera = params.cameraKey ? CAMERA_REGISTRY[params.cameraKey] || SONY_RX1R2 : SONY_RX1R2;
+  const camera = getCameraModel(params.cameraKey);
   const targetGsdM = calculateGSD(camera, params.altitudeAGL);
   const meanPredictedGsdM = targetGsdM * (1 + 1.5 * meanMismatchLoss + 0.55 * meanReliefRatio + 0.95 * meanLineLiftRatio);
   const p90PredictedGsdM = targetGsdM * (1 + 2.1 * p90MismatchLoss + 0.85 * p90ReliefRatio + 1.35 * p90LineLiftRatio);
@@ -1082,6 +1091,10 @@ export function combinePartitionObjectives(
     regionObjectives.reduce((sum, region) => sum + region.flightTime.totalMissionTimeSec, 0) +
     Math.max(0, regionObjectives.length - 1) * opts.interRegionTransitionSec;
   const normalizedTimeCost = totalMissionTimeSec / 180;
+  const totalEnergyWh = opts.aircraft
+    ? regionObjectives.reduce((sum, region) => sum + (region.flightTime.energyWh ?? 0), 0) +
+      Math.max(0, regionObjectives.length - 1) * opts.interRegionTransitionSec * opts.aircraft.cruisePowerW / 3600
+    : undefined;
   const totalRegularizationPenalty = regionObjectives.reduce((sum, region) => sum + region.regularization.penalty, 0);
   const weightedMeanMismatchDeg = regionObjectives.reduce(
     (sum, region) => sum + region.quality.meanDirectionMismatchDeg * (region.regularization.areaM2 / totalAreaM2),
@@ -1095,6 +1108,7 @@ export function combinePartitionObjectives(
     normalizedQualityCost,
     normalizedTimeCost,
     totalMissionTimeSec,
+    totalEnergyWh,
     totalRegularizationPenalty,
     weightedMeanMismatchDeg,
     regions: regionObjectives,